@@ -8,6 +8,12 @@ module.exports = {
     '**/?(*.)+(spec|test).js'
   ],
   
+  // Shared helpers are not suites
+  testPathIgnorePatterns: [
+    '/node_modules/',
+    '/__tests__/helpers/'
+  ],
+  
   // Coverage configuration
   collectCoverage: true,
   coverageDirectory: 'coverage',
@@ -40,11 +40,20 @@ if (!validateEnvironment(environment)) {
 // Import services
 const emailService = require('./src/services/emailService');
 const reminderScheduler = require('./src/services/reminderScheduler');
+const noShowScheduler = require('./src/services/noShowScheduler');
 
 const authRoutes = require('./src/routes/auth');
 const boardroomRoutes = require('./src/routes/boardrooms');
 const bookingRoutes = require('./src/routes/bookings');
 const notificationRoutes = require('./src/routes/notifications');
+const waitlistRoutes = require('./src/routes/waitlist');
+const closureRoutes = require('./src/routes/closures');
+const siteRoutes = require('./src/routes/sites');
+const quotaRoutes = require('./src/routes/quotas');
+const delegationRoutes = require('./src/routes/delegations');
+const transferRoutes = require('./src/routes/transfers');
+const templateRoutes = require('./src/routes/templates');
+const serviceRoutes = require('./src/routes/services');
 const userRoutes = require('./src/routes/users');
 const healthRoutes = require('./src/routes/health');
 const databaseRoutes = require('./src/routes/database');
@@ -201,6 +210,14 @@ app.use('/api/auth', authLimiter, authRoutes);
 app.use('/api/boardrooms', boardroomRoutes);
 app.use('/api/bookings', bookingLimiter, bookingRoutes);
 app.use('/api/notifications', emailLimiter, notificationRoutes);
+app.use('/api/waitlist', bookingLimiter, waitlistRoutes);
+app.use('/api/closures', closureRoutes);
+app.use('/api/sites', siteRoutes);
+app.use('/api/quotas', quotaRoutes);
+app.use('/api/delegations', delegationRoutes);
+app.use('/api/transfers', transferRoutes);
+app.use('/api/templates', templateRoutes);
+app.use('/api/services', serviceRoutes);
 app.use('/api/users', userRoutes);
 
 // Comprehensive health check routes
@@ -0,0 +1,162 @@
+/**
+ * Approval Tests
+ * Pending bookings in rooms that require approval are confirmed or rejected by an admin,
+ * one at a time, a whole series at once, or all the rooms of a linked booking together
+ */
+
+const request = require('supertest');
+const mongoose = require('mongoose');
+
+jest.mock('../services/emailService', () => ({
+  sendBookingNotification: jest.fn().mockResolvedValue(true),
+  sendApprovalDecision: jest.fn().mockResolvedValue(true),
+  sendEmail: jest.fn().mockResolvedValue(true)
+}));
+jest.mock('../services/waitlistService', () => ({
+  findActiveHold: jest.fn().mockResolvedValue(null),
+  releaseSlot: jest.fn().mockResolvedValue([])
+}));
+
+const Booking = require('../models/Booking');
+const Boardroom = require('../models/Boardroom');
+const Notification = require('../models/Notification');
+const User = require('../models/User');
+const waitlistService = require('../services/waitlistService');
+const bookingController = require('../controllers/bookingController');
+const { requireAdmin } = require('../middleware/auth');
+const { validateApprovalDecision } = require('../middleware/validation');
+const { createTestApp, as } = require('./helpers/testApp');
+
+// Mondays 10:00-11:00 SAST, inside the default working hours
+const START = new Date('2030-03-04T08:00:00.000Z').getTime();
+const WEEK = 7 * 24 * 60 * 60 * 1000;
+const HOUR = 60 * 60 * 1000;
+
+const app = createTestApp();
+app.get('/bookings/admin/approvals', requireAdmin, bookingController.getPendingApprovals);
+app.put('/bookings/admin/:id/approve', requireAdmin, validateApprovalDecision, bookingController.approveBooking);
+app.put('/bookings/admin/:id/reject', requireAdmin, validateApprovalDecision, bookingController.rejectBooking);
+
+describe('Booking approvals', () => {
+  let admin;
+  let organizer;
+  let attendee;
+  let boardroom;
+
+  beforeEach(async () => {
+    [admin, organizer, attendee] = await User.insertMany([
+      { name: 'Admin', email: 'admin@example.com', password: 'hashed-password', role: 'admin' },
+      { name: 'Organizer', email: 'organizer@example.com', password: 'hashed-password' },
+      { name: 'Attendee', email: 'attendee@example.com', password: 'hashed-password' }
+    ]);
+    boardroom = await Boardroom.create({ name: 'Board Room', capacity: 12, location: 'Floor 9', requiresApproval: true });
+  });
+
+  const createPending = (overrides = {}) => Booking.create({
+    user: organizer._id,
+    boardroom: boardroom._id,
+    startTime: new Date(START),
+    endTime: new Date(START + HOUR),
+    purpose: 'Board meeting',
+    attendees: [organizer._id, attendee._id],
+    status: 'pending',
+    ...overrides
+  });
+
+  const createPendingSeries = () => {
+    const seriesId = new mongoose.Types.ObjectId();
+    return Promise.all([0, 1, 2].map(week => createPending({
+      startTime: new Date(START + week * WEEK),
+      endTime: new Date(START + week * WEEK + HOUR),
+      seriesId,
+      seriesIndex: week
+    })));
+  };
+
+  const approve = (booking, body = {}) => request(app)
+    .put(`/bookings/admin/${booking._id}/approve`)
+    .set(as(admin, 'admin'))
+    .send(body);
+
+  const reject = (booking, body) => request(app)
+    .put(`/bookings/admin/${booking._id}/reject`)
+    .set(as(admin, 'admin'))
+    .send(body);
+
+  it('should list pending bookings and confirm one when it is approved', async () => {
+    const booking = await createPending();
+
+    const pending = await request(app).get('/bookings/admin/approvals').set(as(admin, 'admin'));
+    expect(pending.body.map(entry => entry._id)).toEqual([String(booking._id)]);
+
+    const response = await approve(booking);
+
+    expect(response.status).toBe(200);
+    const approved = await Booking.findById(booking._id);
+    expect(approved.status).toBe('confirmed');
+    expect(approved.reviewedBy.toString()).toBe(String(admin._id));
+    expect(await Notification.findOne({ user: organizer._id, message: /has been approved/ })).not.toBeNull();
+    expect(await Notification.findOne({ user: attendee._id, message: /You have been invited/ })).not.toBeNull();
+  });
+
+  it('should reject with a reason and offer the slot to the waitlist', async () => {
+    const booking = await createPending();
+
+    const missingReason = await reject(booking, {});
+    expect(missingReason.status).toBe(400);
+
+    const response = await reject(booking, { reason: 'The board needs the room' });
+
+    expect(response.status).toBe(200);
+    const rejected = await Booking.findById(booking._id);
+    expect(rejected.status).toBe('rejected');
+    expect(rejected.rejectionReason).toBe('The board needs the room');
+    expect(await Notification.findOne({ user: organizer._id, message: /was rejected: The board needs the room/ })).not.toBeNull();
+    expect(waitlistService.releaseSlot).toHaveBeenCalledWith(
+      expect.objectContaining({ startTime: booking.startTime, endTime: booking.endTime }),
+      undefined
+    );
+  });
+
+  it('should approve one occurrence or the whole series', async () => {
+    const occurrences = await createPendingSeries();
+
+    await approve(occurrences[0], { scope: 'this' });
+    const afterOne = (await Booking.find({ seriesId: occurrences[0].seriesId }).sort({ startTime: 1 })).map(booking => booking.status);
+    expect(afterOne).toEqual(['confirmed', 'pending', 'pending']);
+
+    const response = await approve(occurrences[1], { scope: 'series' });
+    expect(response.body.approvedCount).toBe(2);
+    const statuses = (await Booking.find({ seriesId: occurrences[0].seriesId })).map(booking => booking.status);
+    expect(statuses).toEqual(['confirmed', 'confirmed', 'confirmed']);
+  });
+
+  it('should approve every room of a linked booking together', async () => {
+    const overflow = await Boardroom.create({ name: 'Overflow Room', capacity: 20, location: 'Floor 9' });
+    const roomGroupId = new mongoose.Types.ObjectId();
+    const [main] = await Promise.all([boardroom, overflow].map((room, index) => createPending({
+      boardroom: room._id,
+      roomGroupId,
+      roomGroupIndex: index
+    })));
+
+    const response = await approve(main);
+
+    expect(response.body.approvedCount).toBe(2);
+    const statuses = (await Booking.find({ roomGroupId })).map(booking => booking.status);
+    expect(statuses).toEqual(['confirmed', 'confirmed']);
+  });
+
+  it('should only let approvers see and decide pending bookings', async () => {
+    const booking = await createPending();
+
+    const responses = await Promise.all([
+      request(app).get('/bookings/admin/approvals').set(as(organizer)),
+      request(app).put(`/bookings/admin/${booking._id}/approve`).set(as(organizer)).send({}),
+      request(app).put(`/bookings/admin/${booking._id}/reject`).set(as(organizer)).send({ reason: 'Not needed' })
+    ]);
+
+    expect(responses.map(response => response.status)).toEqual([403, 403, 403]);
+    expect((await Booking.findById(booking._id)).status).toBe('pending');
+  });
+});
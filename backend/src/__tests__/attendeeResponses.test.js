@@ -0,0 +1,172 @@
+/**
+ * Attendee RSVP Tests
+ * Attendees accept, decline or answer tentatively; declining keeps them on the record but out of the headcount
+ */
+
+const request = require('supertest');
+
+jest.mock('../services/emailService', () => ({
+  sendEmail: jest.fn().mockResolvedValue(true)
+}));
+
+const Booking = require('../models/Booking');
+const Boardroom = require('../models/Boardroom');
+const Notification = require('../models/Notification');
+const User = require('../models/User');
+const emailService = require('../services/emailService');
+const rsvpController = require('../controllers/rsvpController');
+const { summarizeResponses, getExpectedHeadcount, setBookingAttendees, getRsvpUrl, verifyRsvpToken } = require('../utils/attendeeResponses');
+const { createTestApp, as } = require('./helpers/testApp');
+
+const app = createTestApp();
+app.put('/bookings/:id/rsvp', rsvpController.respondToBooking);
+app.put('/bookings/:id/rsvp/external', rsvpController.recordExternalResponse);
+app.get('/bookings/:id/rsvp/guest', rsvpController.getGuestInvitation);
+app.put('/bookings/:id/rsvp/guest', rsvpController.respondAsGuest);
+
+const linkToken = (booking, email) => new URL(getRsvpUrl(booking, email)).searchParams.get('token');
+
+describe('Attendee responses', () => {
+  describe('summarizeResponses', () => {
+    const organizer = 'a'.repeat(24);
+    const colleague = 'b'.repeat(24);
+    const manager = 'c'.repeat(24);
+    const booking = {
+      user: organizer,
+      attendees: [organizer, colleague, manager],
+      attendeeResponses: [{ user: colleague, response: 'declined' }],
+      externalAttendees: [{ email: 'guest@example.com', response: 'tentative' }, { email: 'partner@example.com' }]
+    };
+
+    it('should count the organizer as attending and everyone else by their answer', () => {
+      expect(summarizeResponses(booking)).toEqual({ accepted: 1, tentative: 1, declined: 1, pending: 2 });
+    });
+
+    it('should leave declined attendees out of the headcount', () => {
+      expect(getExpectedHeadcount(booking)).toBe(4);
+    });
+
+    it('should keep the answers of people who stay on the booking', () => {
+      const edited = { ...booking, attendeeResponses: [...booking.attendeeResponses] };
+
+      setBookingAttendees(edited, [organizer, manager], [{ email: 'guest@example.com' }, { email: 'new@example.com' }]);
+
+      expect(edited.attendeeResponses).toEqual([]);
+      expect(edited.externalAttendees).toEqual([
+        { email: 'guest@example.com', response: 'tentative', respondedAt: undefined },
+        { email: 'new@example.com' }
+      ]);
+    });
+  });
+
+  describe('invitation links', () => {
+    const booking = { _id: 'd'.repeat(24), endTime: new Date('2030-03-04T09:00:00.000Z') };
+
+    it('should only be valid for the guest\'s own booking', () => {
+      const token = linkToken(booking, 'Partner@example.com');
+
+      expect(verifyRsvpToken(token, booking._id).email).toBe('partner@example.com');
+      expect(verifyRsvpToken(token, 'e'.repeat(24))).toBeNull();
+      expect(verifyRsvpToken('not-a-token', booking._id)).toBeNull();
+    });
+
+    it('should expire once the meeting is over', () => {
+      const token = linkToken({ ...booking, endTime: new Date(Date.now() - 60000) }, 'partner@example.com');
+
+      expect(verifyRsvpToken(token, booking._id)).toBeNull();
+    });
+  });
+
+  describe('responding', () => {
+    let organizer;
+    let colleague;
+    let booking;
+
+    beforeEach(async () => {
+      [organizer, colleague] = await User.insertMany([
+        { name: 'Organizer', email: 'organizer@example.com', password: 'hashed-password' },
+        { name: 'Colleague', email: 'colleague@example.com', password: 'hashed-password' }
+      ]);
+      const boardroom = await Boardroom.create({ name: 'Audit Room', capacity: 8, location: 'Floor 3' });
+      booking = await Booking.create({
+        user: organizer._id,
+        boardroom: boardroom._id,
+        startTime: new Date('2030-03-04T08:00:00.000Z'),
+        endTime: new Date('2030-03-04T09:00:00.000Z'),
+        purpose: 'Planning',
+        attendees: [organizer._id, colleague._id],
+        externalAttendees: [{ email: 'partner@example.com' }]
+      });
+    });
+
+    it('should keep a declined attendee on the booking and tell the organizer', async () => {
+      const response = await request(app)
+        .put(`/bookings/${booking._id}/rsvp`)
+        .set(as(colleague))
+        .send({ response: 'declined' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.responses).toEqual({ accepted: 1, tentative: 0, declined: 1, pending: 1 });
+
+      const saved = await Booking.findById(booking._id);
+      expect(saved.attendees.map(String)).toContain(String(colleague._id));
+      expect(saved.attendeeResponses[0].response).toBe('declined');
+
+      const notification = await Notification.findOne({ user: organizer._id });
+      expect(notification.message).toBe('Colleague declined your meeting "Planning" in Audit Room');
+      expect(emailService.sendEmail).toHaveBeenCalledWith('organizer@example.com', expect.any(String), expect.any(String));
+    });
+
+    it('should only take answers from invited users', async () => {
+      const outsider = await User.create({ name: 'Outsider', email: 'outsider@example.com', password: 'hashed-password' });
+
+      const fromOutsider = await request(app).put(`/bookings/${booking._id}/rsvp`).set(as(outsider)).send({ response: 'accepted' });
+      const fromOrganizer = await request(app).put(`/bookings/${booking._id}/rsvp`).set(as(organizer)).send({ response: 'declined' });
+
+      expect(fromOutsider.status).toBe(400);
+      expect(fromOrganizer.status).toBe(400);
+    });
+
+    it('should let the organizer record a guest\'s answer', async () => {
+      const response = await request(app)
+        .put(`/bookings/${booking._id}/rsvp/external`)
+        .set(as(organizer))
+        .send({ email: 'Partner@example.com', response: 'accepted' });
+      const fromColleague = await request(app)
+        .put(`/bookings/${booking._id}/rsvp/external`)
+        .set(as(colleague))
+        .send({ email: 'partner@example.com', response: 'declined' });
+
+      expect(response.status).toBe(200);
+      expect(fromColleague.status).toBe(403);
+      const saved = await Booking.findById(booking._id);
+      expect(saved.externalAttendees[0].response).toBe('accepted');
+    });
+
+    it('should let a guest decline from their invitation link without signing in', async () => {
+      const token = linkToken(booking, 'partner@example.com');
+
+      const invitation = await request(app).get(`/bookings/${booking._id}/rsvp/guest`).query({ token });
+      const response = await request(app).put(`/bookings/${booking._id}/rsvp/guest`).send({ token, response: 'declined' });
+
+      expect(invitation.status).toBe(200);
+      expect(invitation.body).toMatchObject({ purpose: 'Planning', organizer: 'Organizer', guest: { email: 'partner@example.com', response: null } });
+      expect(response.status).toBe(200);
+      expect(response.body.invitation.guest.response).toBe('declined');
+
+      const saved = await Booking.findById(booking._id);
+      expect(saved.externalAttendees[0].response).toBe('declined');
+      const notification = await Notification.findOne({ user: organizer._id });
+      expect(notification.message).toBe('partner@example.com declined your meeting "Planning" in Audit Room');
+    });
+
+    it('should stop taking answers from a guest who was taken off the booking', async () => {
+      const token = linkToken(booking, 'partner@example.com');
+      await Booking.updateOne({ _id: booking._id }, { externalAttendees: [] });
+
+      const response = await request(app).put(`/bookings/${booking._id}/rsvp/guest`).send({ token, response: 'accepted' });
+
+      expect(response.status).toBe(410);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Booking Adjustment Tests
+ * Meetings under way can be ended early or shortened, and only extended into free time
+ */
+
+const request = require('supertest');
+
+jest.mock('../services/emailService', () => ({
+  sendBookingNotification: jest.fn().mockResolvedValue(true),
+  sendEmail: jest.fn().mockResolvedValue(true)
+}));
+jest.mock('../services/waitlistService', () => ({
+  findActiveHold: jest.fn().mockResolvedValue(null),
+  releaseSlot: jest.fn().mockResolvedValue([])
+}));
+
+const Booking = require('../models/Booking');
+const Boardroom = require('../models/Boardroom');
+const Notification = require('../models/Notification');
+const RoomLock = require('../models/RoomLock');
+const User = require('../models/User');
+const waitlistService = require('../services/waitlistService');
+const bookingController = require('../controllers/bookingController');
+const { validateBookingAdjustment } = require('../middleware/validation');
+const { acquireRoomLocks } = require('../utils/roomLock');
+const { createTestApp, as } = require('./helpers/testApp');
+
+const app = createTestApp();
+app.post('/bookings/:id/extend', validateBookingAdjustment, bookingController.extendBooking);
+app.post('/bookings/:id/shorten', validateBookingAdjustment, bookingController.shortenBooking);
+app.post('/bookings/:id/end', bookingController.endBookingNow);
+
+const MINUTE = 60 * 1000;
+
+describe('Booking adjustments', () => {
+  let boardroom;
+  let organizer;
+  let attendee;
+
+  beforeEach(async () => {
+    boardroom = await Boardroom.create({ name: 'Huddle Room', capacity: 6, location: 'Floor 1' });
+    [organizer, attendee] = await User.insertMany([
+      { name: 'Organizer', email: 'organizer@example.com', password: 'hashed-password' },
+      { name: 'Attendee', email: 'attendee@example.com', password: 'hashed-password' }
+    ]);
+  });
+
+  // A meeting that started 20 minutes ago and has 40 minutes left
+  const createCurrentBooking = () => Booking.create({
+    user: organizer._id,
+    boardroom: boardroom._id,
+    startTime: new Date(Date.now() - 20 * MINUTE),
+    endTime: new Date(Date.now() + 40 * MINUTE),
+    purpose: 'Stand-up',
+    attendees: [organizer._id, attendee._id]
+  });
+
+  it('should end a meeting now and release the rest of the slot', async () => {
+    const booking = await createCurrentBooking();
+
+    const response = await request(app).post(`/bookings/${booking._id}/end`).set(as(organizer));
+
+    expect(response.status).toBe(200);
+    const ended = await Booking.findById(booking._id);
+    expect(ended.endTime.getTime()).toBeLessThanOrEqual(Date.now());
+    expect(waitlistService.releaseSlot).toHaveBeenCalledWith(
+      expect.objectContaining({ endTime: booking.endTime }),
+      undefined
+    );
+    expect(await Notification.findOne({ user: attendee._id, message: /ended early/ })).not.toBeNull();
+  });
+
+  it('should shorten a meeting without moving its end into the past', async () => {
+    const booking = await createCurrentBooking();
+
+    const shortened = await request(app).post(`/bookings/${booking._id}/shorten`).set(as(organizer)).send({ minutes: 15 });
+    expect(shortened.status).toBe(200);
+    expect(new Date(shortened.body.booking.endTime).getTime()).toBe(booking.endTime.getTime() - 15 * MINUTE);
+
+    const tooFar = await request(app).post(`/bookings/${booking._id}/shorten`).set(as(organizer)).send({ minutes: 60 });
+    expect(tooFar.status).toBe(400);
+  });
+
+  it('should not extend into the next booking', async () => {
+    const booking = await createCurrentBooking();
+    await Booking.create({
+      user: attendee._id,
+      boardroom: boardroom._id,
+      startTime: booking.endTime,
+      endTime: new Date(booking.endTime.getTime() + 60 * MINUTE),
+      purpose: 'Next meeting',
+      attendees: [attendee._id]
+    });
+
+    const response = await request(app).post(`/bookings/${booking._id}/extend`).set(as(organizer)).send({ minutes: 15 });
+
+    expect(response.status).toBe(400);
+    expect((await Booking.findById(booking._id)).endTime.getTime()).toBe(booking.endTime.getTime());
+  });
+
+  it('should not shorten or end a meeting while another request holds the room', async () => {
+    await RoomLock.init();
+    const booking = await createCurrentBooking();
+    const release = await acquireRoomLocks(boardroom._id);
+
+    const [shortened, ended] = await Promise.all([
+      request(app).post(`/bookings/${booking._id}/shorten`).set(as(organizer)).send({ minutes: 15 }),
+      request(app).post(`/bookings/${booking._id}/end`).set(as(organizer))
+    ]);
+    await release();
+
+    expect([shortened.status, ended.status]).toEqual([409, 409]);
+    expect((await Booking.findById(booking._id)).endTime.getTime()).toBe(booking.endTime.getTime());
+    expect(waitlistService.releaseSlot).not.toHaveBeenCalled();
+  }, 15000);
+
+  it('should only let the organizer or their delegates adjust a meeting', async () => {
+    const booking = await createCurrentBooking();
+
+    const response = await request(app).post(`/bookings/${booking._id}/end`).set(as(attendee));
+
+    expect(response.status).toBe(403);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Booking Attachment Tests
+ * Agendas and documents on a booking can be read by its organizer, attendees and admins only
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const request = require('supertest');
+const multer = require('multer');
+
+// Attachment storage picks its directory when first loaded
+process.env.ATTACHMENT_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'booking-attachments-'));
+
+jest.mock('../services/emailService', () => ({
+  sendAttachmentNotice: jest.fn().mockResolvedValue(true)
+}));
+
+const Booking = require('../models/Booking');
+const Boardroom = require('../models/Boardroom');
+const User = require('../models/User');
+const emailService = require('../services/emailService');
+const attachmentController = require('../controllers/attachmentController');
+const { getAttachmentDownloadUrl, verifyAttachmentToken } = require('../utils/bookingAttachments');
+const { createTestApp, as } = require('./helpers/testApp');
+
+const app = createTestApp();
+app.post('/bookings/:id/attachments', multer({ storage: multer.memoryStorage() }).array('files'), attachmentController.uploadAttachments);
+app.get('/bookings/:id/attachments/:attachmentId', attachmentController.downloadAttachment);
+app.get('/bookings/:id/attachments/:attachmentId/download', attachmentController.downloadAttachmentByLink);
+app.delete('/bookings/:id/attachments/:attachmentId', attachmentController.removeAttachment);
+
+// The path and query of an emailed link, for supertest
+const linkPath = (url) => url.slice(url.indexOf('/bookings/'));
+
+describe('Booking attachments', () => {
+  afterAll(() => {
+    fs.rmSync(process.env.ATTACHMENT_DIR, { recursive: true, force: true });
+  });
+
+  describe('email links', () => {
+    const booking = { _id: 'a'.repeat(24), endTime: new Date('2030-03-04T09:00:00.000Z') };
+    const attachment = { _id: 'b'.repeat(24) };
+
+    it('should only open the file the link was made for', () => {
+      const token = getAttachmentDownloadUrl(booking, attachment, { email: 'guest@example.com' }).split('token=')[1];
+
+      expect(verifyAttachmentToken(token, booking._id, attachment._id).recipient).toBe('guest@example.com');
+      expect(verifyAttachmentToken(token, booking._id, 'c'.repeat(24))).toBeNull();
+      expect(verifyAttachmentToken('not-a-token', booking._id, attachment._id)).toBeNull();
+    });
+  });
+
+  describe('upload and download', () => {
+    let organizer;
+    let colleague;
+    let outsider;
+    let booking;
+
+    beforeEach(async () => {
+      [organizer, colleague, outsider] = await User.insertMany([
+        { name: 'Organizer', email: 'organizer@example.com', password: 'hashed-password' },
+        { name: 'Colleague', email: 'colleague@example.com', password: 'hashed-password' },
+        { name: 'Outsider', email: 'outsider@example.com', password: 'hashed-password' }
+      ]);
+      const boardroom = await Boardroom.create({ name: 'Audit Room', capacity: 8, location: 'Floor 3' });
+      booking = await Booking.create({
+        user: organizer._id,
+        boardroom: boardroom._id,
+        startTime: new Date('2030-03-04T08:00:00.000Z'),
+        endTime: new Date('2030-03-04T09:00:00.000Z'),
+        purpose: 'Planning',
+        attendees: [organizer._id, colleague._id],
+        externalAttendees: [{ email: 'partner@example.com' }]
+      });
+    });
+
+    const attachAgenda = () => request(app)
+      .post(`/bookings/${booking._id}/attachments`)
+      .set(as(organizer))
+      .attach('files', Buffer.from('1. Budget'), { filename: 'agenda.txt', contentType: 'text/plain' });
+
+    it('should let attendees download what the organizer attached', async () => {
+      const upload = await attachAgenda();
+      expect(upload.status).toBe(201);
+      const [attachment] = upload.body.attachments;
+
+      const response = await request(app).get(`/bookings/${booking._id}/attachments/${attachment._id}`).set(as(colleague));
+
+      expect(response.status).toBe(200);
+      expect(response.text).toBe('1. Budget');
+      expect(response.headers['content-disposition']).toContain('agenda.txt');
+    });
+
+    it('should email the other participants a link to the new files', async () => {
+      await attachAgenda();
+
+      const recipients = emailService.sendAttachmentNotice.mock.calls.map(([, recipient]) => recipient.email);
+      expect(recipients.sort()).toEqual(['colleague@example.com', 'partner@example.com']);
+    });
+
+    it('should keep the files from people who are not on the booking', async () => {
+      const { body } = await attachAgenda();
+
+      const download = await request(app).get(`/bookings/${booking._id}/attachments/${body.attachments[0]._id}`).set(as(outsider));
+      const upload = await request(app)
+        .post(`/bookings/${booking._id}/attachments`)
+        .set(as(colleague))
+        .attach('files', Buffer.from('notes'), { filename: 'notes.txt', contentType: 'text/plain' });
+
+      expect(download.status).toBe(403);
+      expect(upload.status).toBe(403);
+    });
+
+    it('should let external attendees download through their email link until they are removed', async () => {
+      const { body } = await attachAgenda();
+      const url = getAttachmentDownloadUrl(booking, body.attachments[0], { email: 'partner@example.com' });
+
+      const before = await request(app).get(linkPath(url));
+      await Booking.updateOne({ _id: booking._id }, { externalAttendees: [] });
+      const after = await request(app).get(linkPath(url));
+
+      expect(before.status).toBe(200);
+      expect(before.text).toBe('1. Budget');
+      expect(after.status).toBe(403);
+    });
+
+    it('should delete the stored file when the attachment is removed', async () => {
+      const { body } = await attachAgenda();
+      const [attachment] = body.attachments;
+
+      const response = await request(app).delete(`/bookings/${booking._id}/attachments/${attachment._id}`).set(as(organizer));
+
+      expect(response.status).toBe(200);
+      expect(response.body.attachments).toEqual([]);
+      expect(fs.existsSync(path.join(process.env.ATTACHMENT_DIR, attachment.storageKey))).toBe(false);
+    });
+  });
+});
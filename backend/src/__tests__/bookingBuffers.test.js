@@ -0,0 +1,116 @@
+/**
+ * Booking Buffer Tests
+ * A room's setup and cleanup time keeps new and moved bookings away from their neighbours,
+ * and availability shows the slots it blocks
+ */
+
+const request = require('supertest');
+
+jest.mock('../services/emailService', () => ({
+  sendBookingNotification: jest.fn().mockResolvedValue(true),
+  sendEmail: jest.fn().mockResolvedValue(true)
+}));
+jest.mock('../services/waitlistService', () => ({
+  findActiveHold: jest.fn().mockResolvedValue(null),
+  releaseSlot: jest.fn().mockResolvedValue([])
+}));
+
+const Booking = require('../models/Booking');
+const Boardroom = require('../models/Boardroom');
+const User = require('../models/User');
+const bookingController = require('../controllers/bookingController');
+const { createTestApp, as } = require('./helpers/testApp');
+
+const BUFFER_MESSAGE = 'Too close to another booking: the room needs time to be set up and cleaned between meetings';
+
+const app = createTestApp();
+app.post('/bookings', bookingController.createBooking);
+app.put('/bookings/:id', bookingController.updateBooking);
+app.get('/bookings/detailed-availability/:boardroomId', bookingController.getDetailedAvailability);
+
+describe('Booking buffers', () => {
+  let organizer;
+  let colleague;
+  let boardroom;
+
+  beforeEach(async () => {
+    [organizer, colleague] = await User.insertMany([
+      { name: 'Organizer', email: 'organizer@example.com', password: 'hashed-password' },
+      { name: 'Colleague', email: 'colleague@example.com', password: 'hashed-password' }
+    ]);
+    boardroom = await Boardroom.create({
+      name: 'Catered Room',
+      capacity: 16,
+      location: 'Floor 3',
+      bufferBefore: 15,
+      bufferAfter: 15
+    });
+    // Monday 10:00-11:00 SAST
+    await Booking.create({
+      user: colleague._id,
+      boardroom: boardroom._id,
+      startTime: new Date('2030-03-04T08:00:00.000Z'),
+      endTime: new Date('2030-03-04T09:00:00.000Z'),
+      purpose: 'Lunch and learn',
+      attendees: [colleague._id]
+    });
+  });
+
+  const book = (startTime, endTime) => request(app)
+    .post('/bookings')
+    .set(as(organizer))
+    .send({ boardroom: String(boardroom._id), startTime, endTime, purpose: 'Review' });
+
+  it('should refuse new bookings that end in the setup time or start in the cleanup time', async () => {
+    const before = await book('2030-03-04T07:30:00.000Z', '2030-03-04T08:00:00.000Z');
+    const after = await book('2030-03-04T09:00:00.000Z', '2030-03-04T09:30:00.000Z');
+    const clear = await book('2030-03-04T09:30:00.000Z', '2030-03-04T10:00:00.000Z');
+
+    expect(before.status).toBe(400);
+    expect(before.body.message).toBe(BUFFER_MESSAGE);
+    expect(after.status).toBe(400);
+    expect(after.body.message).toBe(BUFFER_MESSAGE);
+    expect(clear.status).toBe(201);
+  });
+
+  it('should refuse moving a booking into the cleanup time', async () => {
+    const booking = await Booking.create({
+      user: organizer._id,
+      boardroom: boardroom._id,
+      startTime: new Date('2030-03-04T11:00:00.000Z'),
+      endTime: new Date('2030-03-04T12:00:00.000Z'),
+      purpose: 'Review',
+      attendees: [organizer._id]
+    });
+
+    const response = await request(app)
+      .put(`/bookings/${booking._id}`)
+      .set(as(organizer))
+      .send({ startTime: '2030-03-04T09:00:00.000Z', endTime: '2030-03-04T09:30:00.000Z' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe(BUFFER_MESSAGE);
+    expect((await Booking.findById(booking._id)).startTime.toISOString()).toBe('2030-03-04T11:00:00.000Z');
+  });
+
+  it('should report the slots next to a booking as blocked by its buffer', async () => {
+    const response = await request(app)
+      .get(`/bookings/detailed-availability/${boardroom._id}`)
+      .query({ date: '2030-03-04' });
+
+    const slot = (startTime) => response.body.timeSlots.find(timeSlot => timeSlot.startTime === startTime);
+    expect(response.body.boardroom).toMatchObject({ bufferBefore: 15, bufferAfter: 15 });
+    expect(slot('2030-03-04T07:30:00.000Z')).toMatchObject({ available: false, blockedByBuffer: true });
+    expect(slot('2030-03-04T08:00:00.000Z')).toMatchObject({ available: false, blockedByBuffer: false });
+    expect(slot('2030-03-04T09:00:00.000Z')).toMatchObject({ available: false, blockedByBuffer: true });
+    expect(slot('2030-03-04T09:30:00.000Z')).toMatchObject({ available: true, blockedByBuffer: false });
+  });
+
+  it('should report a requested range in the cleanup time as blocked by the buffer', async () => {
+    const response = await request(app)
+      .get(`/bookings/detailed-availability/${boardroom._id}`)
+      .query({ date: '2030-03-04', startTime: '2030-03-04T09:00:00.000Z', endTime: '2030-03-04T09:30:00.000Z' });
+
+    expect(response.body).toMatchObject({ available: false, blockedByBuffer: true });
+  });
+});
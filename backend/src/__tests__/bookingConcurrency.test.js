@@ -0,0 +1,145 @@
+/**
+ * Booking Concurrency Tests
+ * Fires simultaneous requests at the same room and checks no slot is ever booked twice
+ */
+
+const request = require('supertest');
+
+jest.mock('../services/emailService', () => ({
+  sendBookingNotification: jest.fn().mockResolvedValue(true),
+  sendEmail: jest.fn().mockResolvedValue(true)
+}));
+jest.mock('../services/waitlistService', () => ({
+  findActiveHold: jest.fn().mockResolvedValue(null),
+  releaseSlot: jest.fn().mockResolvedValue([])
+}));
+
+const Booking = require('../models/Booking');
+const Boardroom = require('../models/Boardroom');
+const RoomLock = require('../models/RoomLock');
+const User = require('../models/User');
+const bookingController = require('../controllers/bookingController');
+const { acquireRoomLocks } = require('../utils/roomLock');
+const { createTestApp, as } = require('./helpers/testApp');
+
+const CONCURRENT_REQUESTS = 20;
+
+// Monday 10:00-11:00 SAST, inside the default working hours
+const START = '2030-03-04T08:00:00.000Z';
+const END = '2030-03-04T09:00:00.000Z';
+
+const app = createTestApp();
+app.post('/bookings', bookingController.createBooking);
+app.put('/bookings/:id', bookingController.updateBooking);
+
+const createUsers = (count) => User.insertMany(Array.from({ length: count }, (_, index) => ({
+  name: `User ${index}`,
+  email: `user${index}@example.com`,
+  password: 'hashed-password'
+})));
+
+const book = (user, boardroom, startTime = START, endTime = END, extra = {}) => request(app)
+  .post('/bookings')
+  .set(as(user))
+  .send({ boardroom: String(boardroom._id), startTime, endTime, purpose: 'Stress test', ...extra });
+
+const findOverlaps = (bookings) => bookings.filter((booking, index) => bookings.some((other, otherIndex) =>
+  otherIndex !== index && booking.startTime < other.endTime && other.startTime < booking.endTime
+));
+
+describe('Booking concurrency', () => {
+  let boardroom;
+
+  beforeAll(async () => {
+    // The lock relies on its unique index, so make sure it exists before the first request
+    await Promise.all([RoomLock.init(), Booking.init()]);
+  });
+
+  beforeEach(async () => {
+    boardroom = await Boardroom.create({ name: 'Stress Room', capacity: 10, location: 'Floor 1' });
+  });
+
+  it('should confirm exactly one of many simultaneous requests for the same slot', async () => {
+    const users = await createUsers(CONCURRENT_REQUESTS);
+
+    const responses = await Promise.all(users.map(user => book(user, boardroom)));
+
+    const created = responses.filter(response => response.status === 201);
+    const refused = responses.filter(response => [400, 409].includes(response.status));
+    expect(created).toHaveLength(1);
+    expect(refused).toHaveLength(CONCURRENT_REQUESTS - 1);
+    expect(await Booking.countDocuments({ boardroom: boardroom._id })).toBe(1);
+  });
+
+  it('should never save overlapping bookings for staggered simultaneous requests', async () => {
+    const users = await createUsers(CONCURRENT_REQUESTS);
+    const base = new Date(START).getTime();
+
+    // Hour-long requests starting every 30 minutes, so each overlaps its neighbours
+    await Promise.all(users.map((user, index) => {
+      const start = new Date(base + (index % 6) * 30 * 60 * 1000);
+      const end = new Date(start.getTime() + 60 * 60 * 1000);
+      return book(user, boardroom, start.toISOString(), end.toISOString());
+    }));
+
+    const saved = await Booking.find({ boardroom: boardroom._id }).sort({ startTime: 1 });
+    expect(saved.length).toBeGreaterThan(0);
+    expect(findOverlaps(saved)).toHaveLength(0);
+  });
+
+  it('should let only one of many simultaneous reschedules into the same slot succeed', async () => {
+    const users = await createUsers(10);
+    const base = new Date('2030-03-05T06:00:00.000Z').getTime(); // Tuesday 08:00 SAST
+    const bookings = await Booking.insertMany(users.map((user, index) => ({
+      user: user._id,
+      boardroom: boardroom._id,
+      startTime: new Date(base + index * 60 * 60 * 1000),
+      endTime: new Date(base + index * 60 * 60 * 1000 + 30 * 60 * 1000),
+      purpose: 'Existing booking',
+      attendees: [user._id]
+    })));
+
+    const responses = await Promise.all(bookings.map(booking => request(app)
+      .put(`/bookings/${booking._id}`)
+      .set(as({ _id: booking.user }))
+      .send({ startTime: START, endTime: END })));
+
+    expect(responses.filter(response => response.status === 200)).toHaveLength(1);
+    expect(await Booking.countDocuments({ boardroom: boardroom._id, startTime: new Date(START) })).toBe(1);
+    expect(findOverlaps(await Booking.find({ boardroom: boardroom._id }))).toHaveLength(0);
+  });
+
+  it('should create one booking for repeated syncs of the same offline request', async () => {
+    const [user] = await createUsers(1);
+
+    const responses = await Promise.all(Array.from({ length: 5 }, () =>
+      book(user, boardroom, START, END, { clientRequestId: 'offline_123' })));
+
+    expect(responses.every(response => [200, 201].includes(response.status))).toBe(true);
+    expect(new Set(responses.map(response => response.body._id)).size).toBe(1);
+    expect(await Booking.countDocuments({ boardroom: boardroom._id })).toBe(1);
+  });
+
+  describe('acquireRoomLocks', () => {
+    it('should refuse a room another request holds once the wait runs out', async () => {
+      const release = await acquireRoomLocks(boardroom._id);
+      expect(release).toEqual(expect.any(Function));
+
+      expect(await acquireRoomLocks(boardroom._id, { waitMs: 100 })).toBeNull();
+
+      await release();
+      const next = await acquireRoomLocks(boardroom._id, { waitMs: 100 });
+      expect(next).toEqual(expect.any(Function));
+      await next();
+    });
+
+    it('should take over a lock its holder never released once it has expired', async () => {
+      await RoomLock.create({ boardroom: boardroom._id, owner: 'crashed-request', expiresAt: new Date(Date.now() - 1000) });
+
+      const release = await acquireRoomLocks(boardroom._id, { waitMs: 100 });
+      expect(release).toEqual(expect.any(Function));
+      await release();
+      expect(await RoomLock.countDocuments({ boardroom: boardroom._id })).toBe(0);
+    });
+  });
+});
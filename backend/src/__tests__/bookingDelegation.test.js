@@ -0,0 +1,103 @@
+/**
+ * Delegated Booking Tests
+ * Delegates book, edit and cancel for the users who granted them access; nobody else can
+ */
+
+const request = require('supertest');
+
+jest.mock('../services/emailService', () => ({
+  sendBookingNotification: jest.fn().mockResolvedValue(true),
+  sendEmail: jest.fn().mockResolvedValue(true)
+}));
+jest.mock('../services/waitlistService', () => ({
+  findActiveHold: jest.fn().mockResolvedValue(null),
+  releaseSlot: jest.fn().mockResolvedValue([])
+}));
+
+const Booking = require('../models/Booking');
+const Boardroom = require('../models/Boardroom');
+const Delegation = require('../models/Delegation');
+const Notification = require('../models/Notification');
+const User = require('../models/User');
+const bookingController = require('../controllers/bookingController');
+const { createTestApp, as } = require('./helpers/testApp');
+
+// Monday 10:00-11:00 SAST, inside the default working hours
+const START = '2030-03-04T08:00:00.000Z';
+const END = '2030-03-04T09:00:00.000Z';
+
+const app = createTestApp();
+app.post('/bookings', bookingController.createBooking);
+app.put('/bookings/:id', bookingController.updateBooking);
+app.put('/bookings/:id/cancel', bookingController.cancelBooking);
+
+describe('Delegated booking', () => {
+  let boardroom;
+  let executive;
+  let assistant;
+  let colleague;
+
+  beforeEach(async () => {
+    boardroom = await Boardroom.create({ name: 'Exec Room', capacity: 10, location: 'Floor 9' });
+    [executive, assistant, colleague] = await User.insertMany([
+      { name: 'Executive', email: 'exec@example.com', password: 'hashed-password' },
+      { name: 'Assistant', email: 'assistant@example.com', password: 'hashed-password' },
+      { name: 'Colleague', email: 'colleague@example.com', password: 'hashed-password' }
+    ]);
+    await Delegation.create({ principal: executive._id, delegate: assistant._id });
+  });
+
+  const bookFor = (actor, principal) => request(app)
+    .post('/bookings')
+    .set(as(actor))
+    .send({ boardroom: String(boardroom._id), startTime: START, endTime: END, purpose: 'Board prep', onBehalfOf: String(principal._id) });
+
+  it('should make the principal the organizer of a booking made by their delegate', async () => {
+    const response = await bookFor(assistant, executive);
+
+    expect(response.status).toBe(201);
+    expect(response.body.user._id).toBe(String(executive._id));
+    expect(response.body.bookedBy._id).toBe(String(assistant._id));
+    expect(response.body.attendees.map(attendee => attendee._id)).toContain(String(executive._id));
+
+    const notice = await Notification.findOne({ user: executive._id });
+    expect(notice.message).toMatch(/Assistant booked "Board prep"/);
+  });
+
+  it('should refuse to book for someone who has not made the caller a delegate', async () => {
+    const response = await bookFor(colleague, executive);
+
+    expect(response.status).toBe(403);
+    expect(await Booking.countDocuments()).toBe(0);
+  });
+
+  it('should let a delegate edit and cancel their principal\'s bookings', async () => {
+    const booking = await Booking.create({
+      user: executive._id,
+      boardroom: boardroom._id,
+      startTime: START,
+      endTime: END,
+      purpose: 'Own booking',
+      attendees: [executive._id]
+    });
+
+    const updated = await request(app).put(`/bookings/${booking._id}`).set(as(assistant)).send({ purpose: 'Renamed' });
+    expect(updated.status).toBe(200);
+    expect(updated.body.purpose).toBe('Renamed');
+    expect(updated.body.user._id).toBe(String(executive._id));
+
+    const refused = await request(app).put(`/bookings/${booking._id}/cancel`).set(as(colleague)).send({});
+    expect(refused.status).toBe(404);
+
+    const cancelled = await request(app).put(`/bookings/${booking._id}/cancel`).set(as(assistant)).send({});
+    expect(cancelled.status).toBe(200);
+    expect((await Booking.findById(booking._id)).status).toBe('cancelled');
+  });
+
+  it('should stop a delegate once the delegation is removed', async () => {
+    await Delegation.deleteMany({ principal: executive._id });
+
+    const response = await bookFor(assistant, executive);
+    expect(response.status).toBe(403);
+  });
+});
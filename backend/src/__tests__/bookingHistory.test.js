@@ -0,0 +1,146 @@
+/**
+ * Booking History Tests
+ * Every change to a booking is kept as an entry naming who made it and which fields changed
+ */
+
+const request = require('supertest');
+
+jest.mock('../services/emailService', () => ({
+  sendBookingNotification: jest.fn().mockResolvedValue(true),
+  sendEmail: jest.fn().mockResolvedValue(true)
+}));
+jest.mock('../services/waitlistService', () => ({
+  findActiveHold: jest.fn().mockResolvedValue(null),
+  releaseSlot: jest.fn().mockResolvedValue([])
+}));
+
+const Booking = require('../models/Booking');
+const Boardroom = require('../models/Boardroom');
+const BookingHistory = require('../models/BookingHistory');
+const User = require('../models/User');
+const bookingController = require('../controllers/bookingController');
+const { snapshotBooking, diffBookings } = require('../utils/bookingHistory');
+const { createTestApp, as } = require('./helpers/testApp');
+
+// Monday 10:00-11:00 SAST, inside the default working hours
+const START = '2030-03-04T08:00:00.000Z';
+const END = '2030-03-04T09:00:00.000Z';
+
+const app = createTestApp();
+app.post('/bookings', bookingController.createBooking);
+app.put('/bookings/:id', bookingController.updateBooking);
+app.patch('/bookings/:id/opt-out', bookingController.optOutOfBooking);
+app.get('/bookings/:id/history', bookingController.getBookingHistory);
+
+describe('Booking history', () => {
+  describe('diffBookings', () => {
+    const booking = {
+      user: 'a'.repeat(24),
+      boardroom: 'b'.repeat(24),
+      startTime: new Date(START),
+      endTime: new Date(END),
+      purpose: 'Planning',
+      notes: '',
+      status: 'confirmed',
+      attendees: ['c'.repeat(24), 'a'.repeat(24)],
+      externalAttendees: [{ email: 'guest@example.com' }]
+    };
+
+    it('should list only the fields that changed', () => {
+      const before = snapshotBooking(booking);
+      const after = snapshotBooking({ ...booking, endTime: new Date('2030-03-04T09:30:00.000Z'), notes: 'Bring slides' });
+
+      expect(diffBookings(before, after)).toEqual([
+        { field: 'endTime', from: END, to: '2030-03-04T09:30:00.000Z' },
+        { field: 'notes', from: '', to: 'Bring slides' }
+      ]);
+    });
+
+    it('should ignore the order attendees are listed in', () => {
+      const reordered = { ...booking, attendees: [...booking.attendees].reverse() };
+
+      expect(diffBookings(snapshotBooking(booking), snapshotBooking(reordered))).toEqual([]);
+    });
+  });
+
+  describe('recording', () => {
+    let organizer;
+    let colleague;
+    let boardroom;
+
+    beforeEach(async () => {
+      [organizer, colleague] = await User.insertMany([
+        { name: 'Organizer', email: 'organizer@example.com', password: 'hashed-password' },
+        { name: 'Colleague', email: 'colleague@example.com', password: 'hashed-password' }
+      ]);
+      boardroom = await Boardroom.create({ name: 'Audit Room', capacity: 8, location: 'Floor 3' });
+    });
+
+    const createBooking = () => request(app)
+      .post('/bookings')
+      .set(as(organizer))
+      .send({
+        boardroom: String(boardroom._id),
+        startTime: START,
+        endTime: END,
+        purpose: 'Planning',
+        attendees: [String(colleague._id)]
+      });
+
+    it('should record who created and who changed the booking', async () => {
+      const { body: booking } = await createBooking();
+      await request(app)
+        .put(`/bookings/${booking._id}`)
+        .set(as(organizer))
+        .send({ purpose: 'Quarterly planning' });
+
+      const response = await request(app).get(`/bookings/${booking._id}/history`).set(as(colleague));
+
+      expect(response.status).toBe(200);
+      expect(response.body.map(entry => entry.action)).toEqual(['updated', 'created']);
+      expect(response.body[0].actor.name).toBe('Organizer');
+      expect(response.body[0].changes).toEqual([{ field: 'purpose', from: 'Planning', to: 'Quarterly planning' }]);
+    });
+
+    it('should show attendee changes by name', async () => {
+      const { body: booking } = await createBooking();
+      await request(app).patch(`/bookings/${booking._id}/opt-out`).set(as(colleague));
+
+      const response = await request(app).get(`/bookings/${booking._id}/history`).set(as(organizer));
+
+      const [optOut] = response.body;
+      expect(optOut.action).toBe('opted_out');
+      expect(optOut.changes).toHaveLength(1);
+      expect(optOut.changes[0].field).toBe('attendees');
+      expect([...optOut.changes[0].from].sort()).toEqual(['Colleague', 'Organizer']);
+      expect(optOut.changes[0].to).toEqual(['Organizer']);
+    });
+
+    it('should keep the history private to the people involved', async () => {
+      const { body: booking } = await createBooking();
+      const outsider = await User.create({ name: 'Outsider', email: 'outsider@example.com', password: 'hashed-password' });
+
+      const response = await request(app).get(`/bookings/${booking._id}/history`).set(as(outsider));
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should refuse to change or delete entries', async () => {
+      const { body: booking } = await createBooking();
+
+      await expect(BookingHistory.updateMany({ booking: booking._id }, { note: 'Edited' })).rejects.toThrow();
+      await expect(BookingHistory.deleteMany({ booking: booking._id })).rejects.toThrow();
+      expect(await BookingHistory.countDocuments({ booking: booking._id })).toBe(1);
+    });
+
+    it('should let admins read the history of a deleted booking', async () => {
+      const { body: booking } = await createBooking();
+      await Booking.findByIdAndDelete(booking._id);
+
+      const response = await request(app).get(`/bookings/${booking._id}/history`).set(as(organizer, 'admin'));
+
+      expect(response.status).toBe(200);
+      expect(response.body[0].purpose).toBe('Planning');
+    });
+  });
+});
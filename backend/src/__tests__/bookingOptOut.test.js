@@ -0,0 +1,89 @@
+/**
+ * Booking Opt-Out Tests
+ * Attendees can leave a meeting; the organizer hears about it and the booking keeps its room
+ */
+
+const request = require('supertest');
+
+jest.mock('../services/emailService', () => ({
+  sendBookingNotification: jest.fn().mockResolvedValue(true),
+  sendEmail: jest.fn().mockResolvedValue(true)
+}));
+jest.mock('../services/waitlistService', () => ({
+  findActiveHold: jest.fn().mockResolvedValue(null),
+  releaseSlot: jest.fn().mockResolvedValue([])
+}));
+
+const Booking = require('../models/Booking');
+const Boardroom = require('../models/Boardroom');
+const Notification = require('../models/Notification');
+const User = require('../models/User');
+const waitlistService = require('../services/waitlistService');
+const bookingController = require('../controllers/bookingController');
+const { createTestApp, as } = require('./helpers/testApp');
+
+const app = createTestApp();
+app.put('/bookings/:id', bookingController.updateBooking);
+app.patch('/bookings/:id/opt-out', bookingController.optOutOfBooking);
+
+describe('Booking opt-out', () => {
+  let organizer;
+  let colleague;
+  let booking;
+
+  beforeEach(async () => {
+    [organizer, colleague] = await User.insertMany([
+      { name: 'Organizer', email: 'organizer@example.com', password: 'hashed-password' },
+      { name: 'Colleague', email: 'colleague@example.com', password: 'hashed-password' }
+    ]);
+    const boardroom = await Boardroom.create({ name: 'Board Room', capacity: 8, location: 'Floor 2' });
+    booking = await Booking.create({
+      user: organizer._id,
+      boardroom: boardroom._id,
+      startTime: new Date('2030-03-04T08:00:00.000Z'),
+      endTime: new Date('2030-03-04T09:00:00.000Z'),
+      purpose: 'Budget review',
+      attendees: [colleague._id]
+    });
+  });
+
+  it('should take the attendee off the booking and tell the organizer', async () => {
+    const response = await request(app).patch(`/bookings/${booking._id}/opt-out`).set(as(colleague));
+
+    expect(response.status).toBe(200);
+    const saved = await Booking.findById(booking._id);
+    expect(saved.attendees).toHaveLength(0);
+    const notification = await Notification.findOne({ user: organizer._id });
+    expect(notification.message).toBe('Colleague opted out of your meeting "Budget review" in Board Room');
+  });
+
+  it('should keep the booking when its last attendee opts out', async () => {
+    await request(app).patch(`/bookings/${booking._id}/opt-out`).set(as(colleague));
+
+    expect((await Booking.findById(booking._id)).status).toBe('confirmed');
+    expect(waitlistService.releaseSlot).not.toHaveBeenCalled();
+  });
+
+  it('should refuse the organizer and people who are not attending', async () => {
+    await Booking.updateOne({ _id: booking._id }, { attendees: [organizer._id, colleague._id] });
+
+    const fromOrganizer = await request(app).patch(`/bookings/${booking._id}/opt-out`).set(as(organizer));
+    await request(app).patch(`/bookings/${booking._id}/opt-out`).set(as(colleague));
+    const again = await request(app).patch(`/bookings/${booking._id}/opt-out`).set(as(colleague));
+
+    expect(fromOrganizer.status).toBe(400);
+    expect(again.status).toBe(400);
+    expect(again.body.message).toBe('You are not an attendee of this booking');
+  });
+
+  it('should keep the organizer on the booking when attendees are changed', async () => {
+    const response = await request(app)
+      .put(`/bookings/${booking._id}`)
+      .set(as(organizer))
+      .send({ attendees: [] });
+
+    expect(response.status).toBe(200);
+    const saved = await Booking.findById(booking._id);
+    expect(saved.attendees.map(String)).toEqual([String(organizer._id)]);
+  });
+});
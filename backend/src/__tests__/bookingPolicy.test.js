@@ -0,0 +1,144 @@
+/**
+ * Booking Policy Tests
+ */
+
+const {
+  BUSINESS_TIMEZONE,
+  DEFAULT_POLICY,
+  getRoomTimezone,
+  resolvePolicy,
+  validateAgainstPolicy,
+  validateEndTimeChange
+} = require('../utils/bookingPolicy');
+
+// Monday 4 March 2030; SAST is UTC+2
+const NOW = new Date('2030-03-01T08:00:00.000Z');
+const at = (time) => new Date(`2030-03-04T${time}:00.000+02:00`);
+
+describe('Booking Policy', () => {
+  describe('resolvePolicy', () => {
+    it('should fall back to the defaults for rooms without a policy', () => {
+      const policy = resolvePolicy(null);
+
+      expect(policy.operatingHours).toEqual(DEFAULT_POLICY.operatingHours);
+      expect(policy.minDurationMinutes).toBe(30);
+      expect(policy.maxAdvanceDays).toBeNull();
+    });
+
+    it('should merge a partial room policy over the defaults', () => {
+      const policy = resolvePolicy({
+        bookingPolicy: {
+          operatingHours: [{ day: 1, open: '09:00', close: '12:00' }],
+          slotMinutes: 15
+        }
+      });
+
+      expect(policy.operatingHours).toEqual([{ day: 1, open: '09:00', close: '12:00' }]);
+      expect(policy.slotMinutes).toBe(15);
+      expect(policy.maxDurationMinutes).toBe(DEFAULT_POLICY.maxDurationMinutes);
+    });
+
+    it('should use the site timezone and hours when the room has none of its own', () => {
+      const policy = resolvePolicy({
+        site: { timezone: 'Europe/London', operatingHours: [{ day: 2, open: '08:30', close: '17:30' }] }
+      });
+
+      expect(policy.timezone).toBe('Europe/London');
+      expect(policy.operatingHours).toEqual([{ day: 2, open: '08:30', close: '17:30' }]);
+    });
+
+    it('should prefer the room hours over the site hours', () => {
+      const policy = resolvePolicy({
+        site: { timezone: 'Europe/London', operatingHours: [{ day: 2, open: '08:30', close: '17:30' }] },
+        bookingPolicy: { operatingHours: [{ day: 1, open: '09:00', close: '12:00' }] }
+      });
+
+      expect(policy.timezone).toBe('Europe/London');
+      expect(policy.operatingHours).toEqual([{ day: 1, open: '09:00', close: '12:00' }]);
+    });
+  });
+
+  describe('getRoomTimezone', () => {
+    it('should fall back to the business timezone for rooms without a populated site', () => {
+      expect(getRoomTimezone(null)).toBe(BUSINESS_TIMEZONE);
+      expect(getRoomTimezone({ site: '65f0c0ffee0000000000000a' })).toBe(BUSINESS_TIMEZONE);
+      expect(getRoomTimezone({ site: { timezone: 'America/New_York' } })).toBe('America/New_York');
+    });
+  });
+
+  describe('validateAgainstPolicy', () => {
+    const policy = resolvePolicy({
+      bookingPolicy: {
+        operatingHours: [{ day: 1, open: '08:00', close: '17:00' }],
+        minDurationMinutes: 30,
+        maxDurationMinutes: 120,
+        slotMinutes: 30,
+        maxAdvanceDays: 14,
+        minLeadMinutes: 60
+      }
+    });
+
+    it('should accept a booking that follows every rule', () => {
+      expect(validateAgainstPolicy(at('09:00'), at('10:30'), policy, NOW)).toBeNull();
+    });
+
+    it('should reject days the room is closed', () => {
+      const tuesday = new Date('2030-03-05T09:00:00.000+02:00');
+      const end = new Date('2030-03-05T10:00:00.000+02:00');
+      expect(validateAgainstPolicy(tuesday, end, policy, NOW)).toMatch(/not available on Tuesdays/);
+    });
+
+    it('should reject times outside operating hours', () => {
+      expect(validateAgainstPolicy(at('07:30'), at('08:30'), policy, NOW)).toMatch(/08:00-17:00/);
+      expect(validateAgainstPolicy(at('16:30'), at('17:30'), policy, NOW)).toMatch(/working hours/);
+    });
+
+    it('should enforce minimum and maximum duration', () => {
+      expect(validateAgainstPolicy(at('09:00'), at('09:15'), policy, NOW)).toMatch(/at least 30 minutes/);
+      expect(validateAgainstPolicy(at('09:00'), at('12:00'), policy, NOW)).toMatch(/Maximum booking duration is 2 hours/);
+    });
+
+    it('should enforce slot boundaries', () => {
+      expect(validateAgainstPolicy(at('09:15'), at('10:15'), policy, NOW)).toMatch(/30-minute boundaries/);
+    });
+
+    it('should enforce lead time and the advance window', () => {
+      const soon = new Date(at('09:00').getTime() - 30 * 60 * 1000);
+      expect(validateAgainstPolicy(at('09:00'), at('10:00'), policy, soon)).toMatch(/at least 1 hour in advance/);
+
+      const farAhead = new Date('2030-02-01T08:00:00.000Z');
+      expect(validateAgainstPolicy(at('09:00'), at('10:00'), policy, farAhead)).toMatch(/up to 14 days/);
+    });
+
+    it('should check hours in the room timezone', () => {
+      const newYork = resolvePolicy({ site: { timezone: 'America/New_York' } });
+
+      // 09:00 in Johannesburg is 02:00 in New York (EST, UTC-5)
+      expect(validateAgainstPolicy(at('09:00'), at('10:00'), newYork, NOW)).toMatch(/working hours/);
+      expect(validateAgainstPolicy(at('16:00'), at('17:00'), newYork, NOW)).toBeNull();
+    });
+  });
+
+  describe('validateEndTimeChange', () => {
+    const policy = resolvePolicy({
+      bookingPolicy: {
+        operatingHours: [{ day: 1, open: '08:00', close: '17:00' }],
+        maxDurationMinutes: 120,
+        slotMinutes: 30
+      }
+    });
+
+    it('should allow ends off the slot grid for meetings already under way', () => {
+      expect(validateEndTimeChange(at('09:00'), at('10:15'), policy)).toBeNull();
+    });
+
+    it('should keep the meeting within closing time and the maximum length', () => {
+      expect(validateEndTimeChange(at('16:00'), at('17:15'), policy)).toMatch(/closes at 17:00/);
+      expect(validateEndTimeChange(at('09:00'), at('11:15'), policy)).toMatch(/Maximum booking duration is 2 hours/);
+    });
+
+    it('should reject an end before the start', () => {
+      expect(validateEndTimeChange(at('09:00'), at('09:00'), policy)).toMatch(/end after it starts/);
+    });
+  });
+});
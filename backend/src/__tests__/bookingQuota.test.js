@@ -0,0 +1,96 @@
+/**
+ * Booking Quota Tests
+ */
+
+const { mergeQuotas, hasLimits, getQuotaViolation } = require('../utils/bookingQuota');
+
+const TIMEZONE = 'Africa/Johannesburg';
+const NOW = new Date('2030-03-01T08:00:00.000Z');
+// Monday 4 March 2030; SAST is UTC+2
+const slot = (day, start, end) => ({
+  startTime: new Date(`2030-03-${day}T${start}:00.000+02:00`),
+  endTime: new Date(`2030-03-${day}T${end}:00.000+02:00`)
+});
+const NO_USAGE = { futureBookings: 0, weekHours: {}, roomDayBookings: {} };
+const NO_LIMITS = { maxFutureBookings: null, maxHoursPerWeek: null, maxBookingsPerRoomPerDay: null };
+
+describe('Booking Quotas', () => {
+  describe('mergeQuotas', () => {
+    it('should have no limits without any quota', () => {
+      const limits = mergeQuotas(null, null);
+
+      expect(limits).toEqual(NO_LIMITS);
+      expect(hasLimits(limits)).toBe(false);
+    });
+
+    it('should let a department quota override the role quota field by field', () => {
+      const limits = mergeQuotas(
+        { maxFutureBookings: 5, maxHoursPerWeek: 10 },
+        { maxHoursPerWeek: 20, maxBookingsPerRoomPerDay: null }
+      );
+
+      expect(limits).toEqual({ maxFutureBookings: 5, maxHoursPerWeek: 20, maxBookingsPerRoomPerDay: null });
+      expect(hasLimits(limits)).toBe(true);
+    });
+
+    it('should keep a limit of zero', () => {
+      expect(mergeQuotas({ maxFutureBookings: 3 }, { maxFutureBookings: 0 }).maxFutureBookings).toBe(0);
+    });
+  });
+
+  describe('getQuotaViolation', () => {
+    it('should allow anything without limits', () => {
+      const slots = [slot('04', '09:00', '17:00'), slot('05', '09:00', '17:00')];
+
+      expect(getQuotaViolation(NO_LIMITS, { ...NO_USAGE, futureBookings: 100 }, slots, TIMEZONE, NOW)).toBeNull();
+    });
+
+    it('should refuse bookings past the upcoming bookings limit', () => {
+      const limits = { ...NO_LIMITS, maxFutureBookings: 2 };
+
+      expect(getQuotaViolation(limits, { ...NO_USAGE, futureBookings: 1 }, [slot('04', '09:00', '10:00')], TIMEZONE, NOW)).toBeNull();
+      expect(getQuotaViolation(limits, { ...NO_USAGE, futureBookings: 2 }, [slot('04', '09:00', '10:00')], TIMEZONE, NOW))
+        .toMatch(/2 upcoming bookings/);
+    });
+
+    it('should add up hours per week including existing bookings', () => {
+      const limits = { ...NO_LIMITS, maxHoursPerWeek: 4 };
+      const usage = { ...NO_USAGE, weekHours: { '2030-03-04': 3 } };
+
+      expect(getQuotaViolation(limits, usage, [slot('06', '09:00', '10:00')], TIMEZONE, NOW)).toBeNull();
+      expect(getQuotaViolation(limits, usage, [slot('06', '09:00', '10:30')], TIMEZONE, NOW))
+        .toMatch(/4 hours per week/);
+    });
+
+    it('should count each week of a series separately', () => {
+      const limits = { ...NO_LIMITS, maxHoursPerWeek: 2 };
+      const slots = [slot('04', '09:00', '11:00'), slot('11', '09:00', '11:00')];
+
+      expect(getQuotaViolation(limits, NO_USAGE, slots, TIMEZONE, NOW)).toBeNull();
+      expect(getQuotaViolation(limits, NO_USAGE, [...slots, slot('12', '09:00', '09:30')], TIMEZONE, NOW))
+        .toMatch(/week of 11 Mar/);
+    });
+
+    it('should place weeks in the room timezone', () => {
+      const limits = { ...NO_LIMITS, maxHoursPerWeek: 1 };
+      // Sunday 23:00-23:59 UTC is already Monday in Johannesburg
+      const lateSunday = {
+        startTime: new Date('2030-03-10T23:00:00.000Z'),
+        endTime: new Date('2030-03-10T23:59:00.000Z')
+      };
+      const usage = { ...NO_USAGE, weekHours: { '2030-03-04': 1 } };
+
+      expect(getQuotaViolation(limits, usage, [lateSunday], TIMEZONE, NOW)).toBeNull();
+      expect(getQuotaViolation(limits, usage, [lateSunday], 'UTC', NOW)).not.toBeNull();
+    });
+
+    it('should limit bookings per room per day', () => {
+      const limits = { ...NO_LIMITS, maxBookingsPerRoomPerDay: 1 };
+      const usage = { ...NO_USAGE, roomDayBookings: { '2030-03-04': 1 } };
+
+      expect(getQuotaViolation(limits, usage, [slot('05', '09:00', '10:00')], TIMEZONE, NOW)).toBeNull();
+      expect(getQuotaViolation(limits, usage, [slot('04', '14:00', '15:00')], TIMEZONE, NOW))
+        .toMatch(/already have 1 in this room on Mon 4 Mar/);
+    });
+  });
+});
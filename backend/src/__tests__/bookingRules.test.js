@@ -0,0 +1,104 @@
+/**
+ * Booking Rules Tests
+ */
+
+const {
+  CHECK_IN_OPENS_MINUTES,
+  CHECK_IN_GRACE_MINUTES,
+  ADJUST_OPENS_MINUTES,
+  getCheckInWindow,
+  isAdjustable,
+  getRoomBuffers,
+  getBufferedRange,
+  findMaintenanceWindow,
+  getMaintenanceReason
+} = require('../utils/bookingRules');
+
+const START = '2030-03-04T08:00:00.000Z'; // Monday 10:00 SAST
+const minutes = (count) => count * 60 * 1000;
+
+describe('Booking Rules', () => {
+  describe('getCheckInWindow', () => {
+    it('should open before the start and close after the grace period', () => {
+      const { opensAt, closesAt } = getCheckInWindow({ startTime: START, endTime: '2030-03-04T09:00:00.000Z' });
+
+      expect(opensAt.getTime()).toBe(new Date(START).getTime() - minutes(CHECK_IN_OPENS_MINUTES));
+      expect(closesAt.getTime()).toBe(new Date(START).getTime() + minutes(CHECK_IN_GRACE_MINUTES));
+    });
+
+    it('should never close after the booking ends', () => {
+      const endTime = new Date(new Date(START).getTime() + minutes(CHECK_IN_GRACE_MINUTES - 5));
+      const { closesAt } = getCheckInWindow({ startTime: START, endTime });
+
+      expect(closesAt.getTime()).toBe(endTime.getTime());
+    });
+  });
+
+  describe('isAdjustable', () => {
+    const booking = { status: 'confirmed', startTime: START, endTime: '2030-03-04T09:00:00.000Z' };
+    const at = (offset) => new Date(new Date(START).getTime() + minutes(offset));
+
+    it('should cover meetings about to start and under way', () => {
+      expect(isAdjustable(booking, at(-ADJUST_OPENS_MINUTES))).toBe(true);
+      expect(isAdjustable(booking, at(30))).toBe(true);
+    });
+
+    it('should leave out later, finished and cancelled bookings', () => {
+      expect(isAdjustable(booking, at(-ADJUST_OPENS_MINUTES - 1))).toBe(false);
+      expect(isAdjustable(booking, at(60))).toBe(false);
+      expect(isAdjustable({ ...booking, status: 'cancelled' }, at(0))).toBe(false);
+    });
+  });
+
+  describe('getRoomBuffers', () => {
+    it('should default to no buffers', () => {
+      expect(getRoomBuffers(null)).toEqual({ before: 0, after: 0 });
+      expect(getRoomBuffers({ bufferBefore: 10 })).toEqual({ before: 10, after: 0 });
+    });
+  });
+
+  describe('getBufferedRange', () => {
+    it('should widen both ends by the setup plus cleanup gap', () => {
+      const { start, end } = getBufferedRange(START, '2030-03-04T09:00:00.000Z', { before: 5, after: 10 });
+
+      expect(start.toISOString()).toBe('2030-03-04T07:45:00.000Z');
+      expect(end.toISOString()).toBe('2030-03-04T09:15:00.000Z');
+    });
+
+    it('should leave the range untouched without buffers', () => {
+      const { start, end } = getBufferedRange(START, '2030-03-04T09:00:00.000Z', getRoomBuffers({}));
+
+      expect(start.toISOString()).toBe(START);
+      expect(end.toISOString()).toBe('2030-03-04T09:00:00.000Z');
+    });
+  });
+
+  describe('findMaintenanceWindow', () => {
+    const room = {
+      maintenanceWindows: [
+        { startTime: new Date(START), endTime: new Date(new Date(START).getTime() + minutes(120)), reason: 'AV servicing' }
+      ]
+    };
+
+    it('should find a window overlapping the range', () => {
+      const window = findMaintenanceWindow(room, new Date(new Date(START).getTime() + minutes(60)), new Date(new Date(START).getTime() + minutes(180)));
+
+      expect(window.reason).toBe('AV servicing');
+    });
+
+    it('should ignore windows that only touch the range', () => {
+      expect(findMaintenanceWindow(room, new Date(new Date(START).getTime() + minutes(120)), new Date(new Date(START).getTime() + minutes(180)))).toBeUndefined();
+    });
+
+    it('should handle rooms without maintenance windows', () => {
+      expect(findMaintenanceWindow({}, START, new Date(new Date(START).getTime() + minutes(30)))).toBeUndefined();
+    });
+  });
+
+  describe('getMaintenanceReason', () => {
+    it('should include the reason when one is given', () => {
+      expect(getMaintenanceReason({ reason: 'AV servicing' })).toBe('The room is unavailable for maintenance: AV servicing');
+      expect(getMaintenanceReason({})).toBe('The room is unavailable for maintenance');
+    });
+  });
+});
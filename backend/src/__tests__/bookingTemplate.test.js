@@ -0,0 +1,112 @@
+/**
+ * Booking Template Tests
+ * Templates keep everything about a booking except its time, and belong to one user
+ */
+
+const request = require('supertest');
+const express = require('express');
+
+const Booking = require('../models/Booking');
+const Boardroom = require('../models/Boardroom');
+const BookingTemplate = require('../models/BookingTemplate');
+const User = require('../models/User');
+const templateController = require('../controllers/templateController');
+
+const app = express();
+app.use(express.json());
+app.use((req, res, next) => {
+  req.user = { userId: req.get('x-user-id'), role: 'user' };
+  next();
+});
+app.get('/templates', templateController.getMyTemplates);
+app.post('/templates', templateController.createTemplate);
+app.delete('/templates/:id', templateController.deleteTemplate);
+
+const as = (user) => ({ 'x-user-id': String(user._id) });
+
+describe('Booking templates', () => {
+  let boardroom;
+  let owner;
+  let colleague;
+  let outsider;
+
+  beforeEach(async () => {
+    boardroom = await Boardroom.create({ name: 'Planning Room', capacity: 8, location: 'Floor 3' });
+    [owner, colleague, outsider] = await User.insertMany([
+      { name: 'Owner', email: 'owner@example.com', password: 'hashed-password' },
+      { name: 'Colleague', email: 'colleague@example.com', password: 'hashed-password' },
+      { name: 'Outsider', email: 'outsider@example.com', password: 'hashed-password' }
+    ]);
+  });
+
+  const createBooking = () => Booking.create({
+    user: owner._id,
+    boardroom: boardroom._id,
+    startTime: new Date('2030-03-04T08:00:00.000Z'),
+    endTime: new Date('2030-03-04T09:30:00.000Z'),
+    purpose: 'Sprint planning',
+    attendees: [owner._id, colleague._id],
+    externalAttendees: [{ email: 'partner@example.com' }],
+    notes: 'Bring the roadmap'
+  });
+
+  it('should copy a booking into a template without its time or the owner as attendee', async () => {
+    const booking = await createBooking();
+
+    const response = await request(app)
+      .post('/templates')
+      .set(as(owner))
+      .send({ name: 'Planning', booking: String(booking._id) });
+
+    expect(response.status).toBe(201);
+    expect(response.body.boardroom._id).toBe(String(boardroom._id));
+    expect(response.body.purpose).toBe('Sprint planning');
+    expect(response.body.attendees.map(attendee => attendee._id)).toEqual([String(colleague._id)]);
+    expect(response.body.externalAttendees.map(external => external.email)).toEqual(['partner@example.com']);
+    expect(response.body.durationMinutes).toBe(90);
+  });
+
+  it('should let an attendee save the booking for themselves with the organizer as an attendee', async () => {
+    const booking = await createBooking();
+
+    const response = await request(app)
+      .post('/templates')
+      .set(as(colleague))
+      .send({ name: 'Planning', booking: String(booking._id) });
+
+    expect(response.status).toBe(201);
+    expect(response.body.attendees.map(attendee => attendee._id)).toEqual([String(owner._id)]);
+  });
+
+  it('should refuse bookings the caller has nothing to do with', async () => {
+    const booking = await createBooking();
+
+    const response = await request(app)
+      .post('/templates')
+      .set(as(outsider))
+      .send({ name: 'Planning', booking: String(booking._id) });
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should keep template names unique per user, ignoring case', async () => {
+    await BookingTemplate.create({ user: owner._id, name: 'Weekly sync' });
+
+    const duplicate = await request(app).post('/templates').set(as(owner)).send({ name: 'weekly SYNC' });
+    expect(duplicate.status).toBe(400);
+
+    const otherUser = await request(app).post('/templates').set(as(colleague)).send({ name: 'Weekly sync' });
+    expect(otherUser.status).toBe(201);
+  });
+
+  it('should only show and delete the caller\'s own templates', async () => {
+    const template = await BookingTemplate.create({ user: owner._id, name: 'Mine' });
+
+    const listed = await request(app).get('/templates').set(as(colleague));
+    expect(listed.body).toHaveLength(0);
+
+    const deleted = await request(app).delete(`/templates/${template._id}`).set(as(colleague));
+    expect(deleted.status).toBe(404);
+    expect(await BookingTemplate.countDocuments()).toBe(1);
+  });
+});
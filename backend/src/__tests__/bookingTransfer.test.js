@@ -0,0 +1,146 @@
+/**
+ * Booking Transfer Tests
+ * Ownership only changes hands once the new organizer accepts, and every transfer stays on record
+ */
+
+const request = require('supertest');
+const mongoose = require('mongoose');
+
+jest.mock('../services/emailService', () => ({
+  sendBookingNotification: jest.fn().mockResolvedValue(true),
+  sendEmail: jest.fn().mockResolvedValue(true)
+}));
+
+const Booking = require('../models/Booking');
+const Boardroom = require('../models/Boardroom');
+const BookingTransfer = require('../models/BookingTransfer');
+const Notification = require('../models/Notification');
+const User = require('../models/User');
+const transferController = require('../controllers/transferController');
+const { createTestApp, as } = require('./helpers/testApp');
+
+const app = createTestApp();
+app.get('/transfers/booking/:bookingId', transferController.getBookingTransfers);
+app.post('/transfers', transferController.requestTransfer);
+app.put('/transfers/:id/accept', transferController.acceptTransfer);
+app.put('/transfers/:id/decline', transferController.declineTransfer);
+app.put('/transfers/:id/cancel', transferController.cancelTransfer);
+
+const HOUR = 60 * 60 * 1000;
+
+describe('Booking transfers', () => {
+  let boardroom;
+  let owner;
+  let successor;
+  let attendee;
+
+  beforeEach(async () => {
+    boardroom = await Boardroom.create({ name: 'Handover Room', capacity: 8, location: 'Floor 2' });
+    [owner, successor, attendee] = await User.insertMany([
+      { name: 'Owner', email: 'owner@example.com', password: 'hashed-password' },
+      { name: 'Successor', email: 'successor@example.com', password: 'hashed-password' },
+      { name: 'Attendee', email: 'attendee@example.com', password: 'hashed-password' }
+    ]);
+  });
+
+  const createBooking = (overrides = {}) => Booking.create({
+    user: owner._id,
+    boardroom: boardroom._id,
+    startTime: new Date(Date.now() + 24 * HOUR),
+    endTime: new Date(Date.now() + 25 * HOUR),
+    purpose: 'Weekly sync',
+    attendees: [owner._id, attendee._id],
+    ...overrides
+  });
+
+  const requestTransfer = (booking, body = {}) => request(app)
+    .post('/transfers')
+    .set(as(owner))
+    .send({ booking: String(booking._id), to: String(successor._id), ...body });
+
+  it('should only change the organizer once the recipient accepts', async () => {
+    const booking = await createBooking();
+
+    const requested = await requestTransfer(booking, { note: 'Going on leave' });
+    expect(requested.status).toBe(201);
+    expect((await Booking.findById(booking._id)).user.toString()).toBe(String(owner._id));
+
+    const accepted = await request(app).put(`/transfers/${requested.body._id}/accept`).set(as(successor));
+    expect(accepted.status).toBe(200);
+
+    const updated = await Booking.findById(booking._id);
+    expect(updated.user.toString()).toBe(String(successor._id));
+    expect(updated.attendees.map(String)).toEqual(expect.arrayContaining([String(owner._id), String(successor._id)]));
+
+    const attendeeNotice = await Notification.findOne({ user: attendee._id, message: /now organized by Successor/ });
+    expect(attendeeNotice).not.toBeNull();
+  });
+
+  it('should keep declined and accepted transfers as the booking history', async () => {
+    const booking = await createBooking();
+
+    const first = await requestTransfer(booking);
+    await request(app).put(`/transfers/${first.body._id}/decline`).set(as(successor));
+    expect((await Booking.findById(booking._id)).user.toString()).toBe(String(owner._id));
+
+    const second = await requestTransfer(booking);
+    await request(app).put(`/transfers/${second.body._id}/accept`).set(as(successor));
+
+    const history = await request(app).get(`/transfers/booking/${booking._id}`).set(as(successor));
+    expect(history.status).toBe(200);
+    expect(history.body.map(transfer => transfer.status)).toEqual(['accepted', 'declined']);
+  });
+
+  it('should not let anyone but the recipient accept', async () => {
+    const booking = await createBooking();
+    const requested = await requestTransfer(booking);
+
+    const response = await request(app).put(`/transfers/${requested.body._id}/accept`).set(as(attendee));
+
+    expect(response.status).toBe(404);
+    expect(await BookingTransfer.countDocuments({ status: 'pending' })).toBe(1);
+  });
+
+  it('should refuse transfers from users who do not manage the booking', async () => {
+    const booking = await createBooking();
+
+    const response = await request(app)
+      .post('/transfers')
+      .set(as(attendee))
+      .send({ booking: String(booking._id), to: String(successor._id) });
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should hand over the rest of a series when asked to', async () => {
+    const seriesId = new mongoose.Types.ObjectId();
+    const occurrences = await Promise.all([0, 1, 2].map(week => createBooking({
+      seriesId,
+      seriesIndex: week,
+      startTime: new Date(Date.now() + (24 + week * 168) * HOUR),
+      endTime: new Date(Date.now() + (25 + week * 168) * HOUR)
+    })));
+
+    const requested = await requestTransfer(occurrences[1], { scope: 'following' });
+    await request(app).put(`/transfers/${requested.body._id}/accept`).set(as(successor));
+
+    const owners = (await Booking.find({ seriesId }).sort({ startTime: 1 })).map(booking => booking.user.toString());
+    expect(owners).toEqual([String(owner._id), String(successor._id), String(successor._id)]);
+  });
+
+  it('should close transfers whose booking was deleted instead of failing', async () => {
+    const [declined, cancelled] = await Promise.all([createBooking(), createBooking({ purpose: 'Retro' })]);
+    const toDecline = await requestTransfer(declined);
+    const toCancel = await requestTransfer(cancelled);
+    await Booking.deleteMany({});
+
+    const decline = await request(app).put(`/transfers/${toDecline.body._id}/decline`).set(as(successor));
+    const cancel = await request(app).put(`/transfers/${toCancel.body._id}/cancel`).set(as(owner));
+
+    expect(decline.status).toBe(400);
+    expect(decline.body.message).toBe('This booking is no longer active');
+    expect(cancel.status).toBe(200);
+    expect(await BookingTransfer.countDocuments({ status: 'pending' })).toBe(0);
+    expect(await Notification.countDocuments({ message: /withdrawn/ })).toBe(0);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Check-In Tests
+ * Attendees check in from shortly before the start until the grace period ends,
+ * after which unchecked bookings are released as no-shows and offered to the waitlist
+ */
+
+const request = require('supertest');
+
+jest.mock('node-cron', () => ({
+  schedule: jest.fn()
+}));
+
+jest.mock('../services/emailService', () => ({
+  sendBookingNotification: jest.fn().mockResolvedValue(true),
+  sendEmail: jest.fn().mockResolvedValue(true)
+}));
+jest.mock('../services/waitlistService', () => ({
+  findActiveHold: jest.fn().mockResolvedValue(null),
+  releaseSlot: jest.fn().mockResolvedValue([])
+}));
+
+const Booking = require('../models/Booking');
+const Boardroom = require('../models/Boardroom');
+const Notification = require('../models/Notification');
+const User = require('../models/User');
+const waitlistService = require('../services/waitlistService');
+const noShowScheduler = require('../services/noShowScheduler');
+const bookingController = require('../controllers/bookingController');
+const { createTestApp, as } = require('./helpers/testApp');
+
+const MINUTE = 60 * 1000;
+
+const app = createTestApp();
+app.post('/bookings/:id/check-in', bookingController.checkInBooking);
+
+describe('Check-in and no-shows', () => {
+  let organizer;
+  let attendee;
+  let outsider;
+  let boardroom;
+
+  beforeEach(async () => {
+    [organizer, attendee, outsider] = await User.insertMany([
+      { name: 'Organizer', email: 'organizer@example.com', password: 'hashed-password' },
+      { name: 'Attendee', email: 'attendee@example.com', password: 'hashed-password' },
+      { name: 'Outsider', email: 'outsider@example.com', password: 'hashed-password' }
+    ]);
+    boardroom = await Boardroom.create({ name: 'Huddle Room', capacity: 6, location: 'Floor 4' });
+  });
+
+  // A one-hour booking starting the given number of minutes from now (negative when already started)
+  const createBooking = (startsInMinutes) => {
+    const startTime = new Date(Date.now() + startsInMinutes * MINUTE);
+    return Booking.create({
+      user: organizer._id,
+      boardroom: boardroom._id,
+      startTime,
+      endTime: new Date(startTime.getTime() + 60 * MINUTE),
+      purpose: 'Stand-up',
+      attendees: [organizer._id, attendee._id]
+    });
+  };
+
+  const checkIn = (booking, user) => request(app).post(`/bookings/${booking._id}/check-in`).set(as(user));
+
+  it('should not check in before the window opens', async () => {
+    const booking = await createBooking(30);
+
+    const response = await checkIn(booking, organizer);
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toMatch(/^Check-in opens at \d{2}:\d{2}$/);
+    expect((await Booking.findById(booking._id)).checkedInAt).toBeUndefined();
+  });
+
+  it('should let an attendee check in while the window is open', async () => {
+    const booking = await createBooking(-5);
+
+    const response = await checkIn(booking, attendee);
+
+    expect(response.status).toBe(200);
+    const checkedIn = await Booking.findById(booking._id);
+    expect(checkedIn.checkedInAt).toBeInstanceOf(Date);
+    expect(checkedIn.checkedInBy.toString()).toBe(String(attendee._id));
+  });
+
+  it('should not check in once the grace period is over', async () => {
+    const booking = await createBooking(-20);
+
+    const response = await checkIn(booking, organizer);
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe('The check-in window for this booking has closed');
+  });
+
+  it('should only let the organizer or an attendee check in', async () => {
+    const booking = await createBooking(-5);
+
+    const response = await checkIn(booking, outsider);
+
+    expect(response.status).toBe(403);
+    expect(response.body.message).toBe('Only the organizer or an attendee can check in');
+    expect((await Booking.findById(booking._id)).checkedInAt).toBeUndefined();
+  });
+
+  it('should release unchecked bookings after the grace period and offer the slot to the waitlist', async () => {
+    const abandoned = await createBooking(-20);
+    const attended = await createBooking(-20);
+    await Booking.updateOne({ _id: attended._id }, { checkedInAt: new Date() });
+    const justStarted = await createBooking(-5);
+
+    await noShowScheduler.releaseNoShows();
+
+    const released = await Booking.findById(abandoned._id);
+    expect(released.status).toBe('no_show');
+    expect(released.releasedAt).toBeInstanceOf(Date);
+    expect((await Booking.findById(attended._id)).status).toBe('confirmed');
+    expect((await Booking.findById(justStarted._id)).status).toBe('confirmed');
+
+    const notice = await Notification.findOne({ user: organizer._id, booking: abandoned._id });
+    expect(notice.message).toBe('"Stand-up" in Huddle Room was released because nobody checked in within 15 minutes of the start time');
+    expect(waitlistService.releaseSlot).toHaveBeenCalledTimes(1);
+    expect(waitlistService.releaseSlot).toHaveBeenCalledWith(expect.objectContaining({ _id: abandoned._id }));
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Closure Tests
+ * Holidays and blackouts block new bookings and flag the existing ones that fall on them
+ */
+
+const request = require('supertest');
+
+jest.mock('../services/emailService', () => ({
+  sendBookingNotification: jest.fn().mockResolvedValue(true),
+  sendEmail: jest.fn().mockResolvedValue(true)
+}));
+jest.mock('../services/waitlistService', () => ({
+  findActiveHold: jest.fn().mockResolvedValue(null),
+  releaseSlot: jest.fn().mockResolvedValue([])
+}));
+
+const Booking = require('../models/Booking');
+const Boardroom = require('../models/Boardroom');
+const Notification = require('../models/Notification');
+const User = require('../models/User');
+const closureController = require('../controllers/closureController');
+const bookingController = require('../controllers/bookingController');
+const { validateClosure } = require('../middleware/validation');
+const { createTestApp, as } = require('./helpers/testApp');
+
+// Monday 10:00-11:00 SAST, inside the default working hours
+const START = '2030-03-04T08:00:00.000Z';
+const END = '2030-03-04T09:00:00.000Z';
+
+const app = createTestApp();
+app.post('/closures', validateClosure, closureController.createClosure);
+app.put('/closures/:id', validateClosure, closureController.updateClosure);
+app.delete('/closures/:id', closureController.deleteClosure);
+app.post('/bookings', bookingController.createBooking);
+
+describe('Closures', () => {
+  let admin;
+  let organizer;
+  let headOffice;
+  let branch;
+  let headOfficeBooking;
+  let branchBooking;
+
+  beforeEach(async () => {
+    [admin, organizer] = await User.insertMany([
+      { name: 'Admin', email: 'admin@example.com', password: 'hashed-password', role: 'admin' },
+      { name: 'Organizer', email: 'organizer@example.com', password: 'hashed-password' }
+    ]);
+    [headOffice, branch] = await Boardroom.insertMany([
+      { name: 'Head Office Room', capacity: 10, location: 'Head Office' },
+      { name: 'Branch Room', capacity: 10, location: 'Branch' }
+    ]);
+    [headOfficeBooking, branchBooking] = await Booking.insertMany([headOffice, branch].map(room => ({
+      user: organizer._id,
+      boardroom: room._id,
+      startTime: new Date(START),
+      endTime: new Date(END),
+      purpose: 'Planning',
+      attendees: [organizer._id]
+    })));
+  });
+
+  const closeDay = (date, locations = ['Head Office']) => request(app)
+    .post('/closures')
+    .set(as(admin, 'admin'))
+    .send({ name: 'Founders Day', allDay: true, startDate: date, locations });
+
+  it('should flag only bookings in the closed locations and tell the admins', async () => {
+    const response = await closeDay('2030-03-04');
+
+    expect(response.status).toBe(201);
+    expect(response.body.affectedBookings.map(booking => booking._id)).toEqual([String(headOfficeBooking._id)]);
+    expect((await Booking.findById(headOfficeBooking._id)).closureConflict.toString()).toBe(response.body.closure._id);
+    expect((await Booking.findById(branchBooking._id)).closureConflict).toBeUndefined();
+
+    const notice = await Notification.findOne({ user: admin._id });
+    expect(notice.message).toBe('The "Founders Day" closure overlaps 1 existing booking that need review');
+  });
+
+  it('should re-evaluate flags when a closure moves and clear them when it is deleted', async () => {
+    const created = await closeDay('2030-03-04', []);
+    expect(await Booking.countDocuments({ closureConflict: { $exists: true } })).toBe(2);
+
+    await request(app)
+      .put(`/closures/${created.body.closure._id}`)
+      .set(as(admin, 'admin'))
+      .send({ name: 'Founders Day', allDay: true, startDate: '2030-03-05', locations: [] });
+    expect(await Booking.countDocuments({ closureConflict: { $exists: true } })).toBe(0);
+
+    await closeDay('2030-03-04');
+    const [flagged] = await Booking.find({ closureConflict: { $exists: true } });
+    await request(app).delete(`/closures/${flagged.closureConflict}`).set(as(admin, 'admin'));
+    expect(await Booking.countDocuments({ closureConflict: { $exists: true } })).toBe(0);
+  });
+
+  it('should reject closures that end before they start', async () => {
+    const response = await request(app)
+      .post('/closures')
+      .set(as(admin, 'admin'))
+      .send({ name: 'Backwards', allDay: true, startDate: '2030-03-05', endDate: '2030-03-04' });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should refuse new bookings in a closed room', async () => {
+    await closeDay('2030-03-05');
+
+    const closed = await request(app)
+      .post('/bookings')
+      .set(as(organizer))
+      .send({ boardroom: String(headOffice._id), startTime: '2030-03-05T08:00:00.000Z', endTime: '2030-03-05T09:00:00.000Z', purpose: 'Review' });
+    const open = await request(app)
+      .post('/bookings')
+      .set(as(organizer))
+      .send({ boardroom: String(branch._id), startTime: '2030-03-05T08:00:00.000Z', endTime: '2030-03-05T09:00:00.000Z', purpose: 'Review' });
+
+    expect(closed.status).toBe(400);
+    expect(closed.body.message).toBe('The room is closed for Founders Day');
+    expect(open.status).toBe(201);
+  });
+});
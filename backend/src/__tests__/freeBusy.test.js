@@ -0,0 +1,62 @@
+/**
+ * Free/Busy Tests
+ */
+
+const { mergeBusyIntervals, getBusyByUser } = require('../utils/freeBusy');
+
+const at = (time) => new Date(`2030-03-04T${time}:00.000Z`);
+const interval = (start, end) => ({ startTime: at(start), endTime: at(end) });
+
+describe('Free/Busy', () => {
+  describe('mergeBusyIntervals', () => {
+    it('should join overlapping and back-to-back intervals', () => {
+      const merged = mergeBusyIntervals([
+        interval('10:00', '11:00'),
+        interval('08:00', '09:00'),
+        interval('09:00', '09:30'),
+        interval('10:30', '10:45')
+      ]);
+
+      expect(merged).toEqual([interval('08:00', '09:30'), interval('10:00', '11:00')]);
+    });
+
+    it('should not change the intervals it was given', () => {
+      const first = interval('08:00', '09:00');
+      mergeBusyIntervals([first, interval('08:30', '10:00')]);
+
+      expect(first.endTime).toEqual(at('09:00'));
+    });
+  });
+
+  describe('getBusyByUser', () => {
+    const organizer = 'a'.repeat(24);
+    const attendee = 'b'.repeat(24);
+    const free = 'c'.repeat(24);
+    const range = { start: at('08:00'), end: at('17:00') };
+
+    it('should count meetings a user organizes or attends', () => {
+      const bookings = [
+        { user: organizer, attendees: [attendee], ...interval('09:00', '10:00') },
+        { user: attendee, attendees: [], ...interval('13:00', '14:00') }
+      ];
+
+      const result = getBusyByUser([organizer, attendee, free], bookings, range);
+
+      expect(result).toEqual([
+        { user: organizer, busy: [interval('09:00', '10:00')] },
+        { user: attendee, busy: [interval('09:00', '10:00'), interval('13:00', '14:00')] },
+        { user: free, busy: [] }
+      ]);
+    });
+
+    it('should clip meetings to the requested window and leave out their details', () => {
+      const bookings = [
+        { user: organizer, attendees: [], purpose: 'Secret', ...interval('07:00', '08:30') }
+      ];
+
+      const [entry] = getBusyByUser([organizer], bookings, range);
+
+      expect(entry.busy).toEqual([interval('08:00', '08:30')]);
+    });
+  });
+});
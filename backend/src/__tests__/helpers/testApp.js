@@ -0,0 +1,24 @@
+/**
+ * Controller Test Harness
+ * An Express app whose signed-in user comes from request headers, so tests can act as anyone
+ */
+
+const express = require('express');
+
+const createTestApp = () => {
+  const app = express();
+  app.use(express.json());
+  app.use((req, res, next) => {
+    req.user = { userId: req.get('x-user-id'), role: req.get('x-role') || 'user' };
+    next();
+  });
+  return app;
+};
+
+// Headers that sign a request in as `user`
+const as = (user, role = 'user') => ({ 'x-user-id': String(user._id), 'x-role': role });
+
+module.exports = {
+  createTestApp,
+  as
+};
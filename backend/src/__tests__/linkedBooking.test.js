@@ -0,0 +1,197 @@
+/**
+ * Linked Booking Tests
+ * A main room and its overflow rooms are booked, moved, checked into, adjusted and cancelled together, all or nothing
+ */
+
+const request = require('supertest');
+const mongoose = require('mongoose');
+
+jest.mock('node-cron', () => ({
+  schedule: jest.fn()
+}));
+
+jest.mock('../services/emailService', () => ({
+  sendBookingNotification: jest.fn().mockResolvedValue(true),
+  sendEmail: jest.fn().mockResolvedValue(true)
+}));
+jest.mock('../services/waitlistService', () => ({
+  findActiveHold: jest.fn().mockResolvedValue(null),
+  releaseSlot: jest.fn().mockResolvedValue([])
+}));
+
+const Booking = require('../models/Booking');
+const Boardroom = require('../models/Boardroom');
+const RoomLock = require('../models/RoomLock');
+const User = require('../models/User');
+const noShowScheduler = require('../services/noShowScheduler');
+const bookingController = require('../controllers/bookingController');
+const { validateBookingAdjustment } = require('../middleware/validation');
+const { createTestApp, as } = require('./helpers/testApp');
+
+// Monday 10:00-11:00 SAST, inside the default working hours
+const START = '2030-03-04T08:00:00.000Z';
+const END = '2030-03-04T09:00:00.000Z';
+const MINUTE = 60 * 1000;
+
+const app = createTestApp();
+app.post('/bookings', bookingController.createBooking);
+app.put('/bookings/:id', bookingController.updateBooking);
+app.put('/bookings/:id/cancel', bookingController.cancelBooking);
+app.post('/bookings/:id/check-in', bookingController.checkInBooking);
+app.post('/bookings/:id/extend', validateBookingAdjustment, bookingController.extendBooking);
+app.post('/bookings/:id/end', bookingController.endBookingNow);
+
+describe('Linked bookings', () => {
+  let organizer;
+  let mainRoom;
+  let overflowRooms;
+
+  beforeEach(async () => {
+    organizer = await User.create({ name: 'Organizer', email: 'organizer@example.com', password: 'hashed-password' });
+    [mainRoom, ...overflowRooms] = await Boardroom.insertMany([
+      { name: 'Auditorium', capacity: 80, location: 'Ground Floor' },
+      { name: 'Overflow A', capacity: 20, location: 'Floor 1' },
+      { name: 'Overflow B', capacity: 20, location: 'Floor 2' }
+    ]);
+  });
+
+  const bookAllHands = () => request(app)
+    .post('/bookings')
+    .set(as(organizer))
+    .send({
+      boardroom: String(mainRoom._id),
+      linkedBoardrooms: overflowRooms.map(room => String(room._id)),
+      startTime: START,
+      endTime: END,
+      purpose: 'All-hands'
+    });
+
+  // A group whose meeting started the given number of minutes ago and runs for an hour
+  const createRunningGroup = (startedMinutesAgo) => {
+    const roomGroupId = new mongoose.Types.ObjectId();
+    const startTime = new Date(Date.now() - startedMinutesAgo * MINUTE);
+    return Booking.insertMany([mainRoom, ...overflowRooms].map((room, index) => ({
+      user: organizer._id,
+      boardroom: room._id,
+      startTime,
+      endTime: new Date(startTime.getTime() + 60 * MINUTE),
+      purpose: 'All-hands',
+      attendees: [organizer._id],
+      roomGroupId,
+      roomGroupIndex: index
+    })));
+  };
+
+  it('should book every room under one group with the main room first', async () => {
+    const response = await bookAllHands();
+
+    expect(response.status).toBe(201);
+    expect(response.body.bookings.map(booking => booking.boardroom.name)).toEqual(['Auditorium', 'Overflow A', 'Overflow B']);
+    expect(new Set(response.body.bookings.map(booking => booking.roomGroupId)).size).toBe(1);
+  });
+
+  it('should book none of the rooms when one of them is taken', async () => {
+    const colleague = await User.create({ name: 'Colleague', email: 'colleague@example.com', password: 'hashed-password' });
+    await Booking.create({
+      user: colleague._id,
+      boardroom: overflowRooms[1]._id,
+      startTime: new Date(START),
+      endTime: new Date(END),
+      purpose: 'Interview'
+    });
+
+    const response = await bookAllHands();
+
+    expect(response.status).toBe(409);
+    expect(response.body.conflicts.map(conflict => conflict.boardroom.name)).toEqual(['Overflow B']);
+    expect(await Booking.countDocuments({ user: organizer._id })).toBe(0);
+  });
+
+  it('should move every room when the time changes', async () => {
+    const { body } = await bookAllHands();
+
+    const response = await request(app)
+      .put(`/bookings/${body.bookings[1]._id}`)
+      .set(as(organizer))
+      .send({ startTime: '2030-03-04T10:00:00.000Z', endTime: '2030-03-04T11:00:00.000Z' });
+
+    expect(response.status).toBe(200);
+    const moved = await Booking.find({ roomGroupId: body.roomGroupId });
+    expect(moved.every(booking => booking.startTime.toISOString() === '2030-03-04T10:00:00.000Z')).toBe(true);
+  });
+
+  it('should answer with an error and free the rooms when saving an edit fails', async () => {
+    const { body } = await bookAllHands();
+    jest.spyOn(Booking.prototype, 'save').mockRejectedValueOnce(new Error('Write failed'));
+
+    const response = await request(app)
+      .put(`/bookings/${body.bookings[0]._id}`)
+      .set(as(organizer))
+      .send({ purpose: 'Town hall' });
+
+    expect(response.status).toBe(500);
+    expect(response.body.message).toBe('Server error');
+    expect(await RoomLock.countDocuments()).toBe(0);
+  });
+
+  it('should cancel every room together', async () => {
+    const { body } = await bookAllHands();
+
+    const response = await request(app).put(`/bookings/${body.bookings[0]._id}/cancel`).set(as(organizer));
+
+    expect(response.status).toBe(200);
+    const statuses = (await Booking.find({ roomGroupId: body.roomGroupId })).map(booking => booking.status);
+    expect(statuses).toEqual(['cancelled', 'cancelled', 'cancelled']);
+  });
+
+  it('should check into every room when checking into one of them', async () => {
+    const group = await createRunningGroup(5);
+
+    const response = await request(app).post(`/bookings/${group[1]._id}/check-in`).set(as(organizer));
+
+    expect(response.status).toBe(200);
+    const bookings = await Booking.find({ roomGroupId: group[0].roomGroupId });
+    expect(bookings.every(booking => booking.checkedInAt)).toBe(true);
+  });
+
+  it('should not release any room as a no-show once one of them was checked into', async () => {
+    const checkedIn = await createRunningGroup(20);
+    await Booking.updateOne({ _id: checkedIn[2]._id }, { checkedInAt: new Date() });
+    const [abandoned] = await createRunningGroup(20);
+
+    await noShowScheduler.releaseNoShows();
+
+    const statuses = (await Booking.find({ roomGroupId: checkedIn[0].roomGroupId })).map(booking => booking.status);
+    expect(statuses).toEqual(['confirmed', 'confirmed', 'confirmed']);
+    expect(await Booking.countDocuments({ roomGroupId: abandoned.roomGroupId, status: 'no_show' })).toBe(3);
+  });
+
+  it('should only extend when every room is free afterwards', async () => {
+    const group = await createRunningGroup(20);
+    const colleague = await User.create({ name: 'Colleague', email: 'colleague@example.com', password: 'hashed-password' });
+    await Booking.create({
+      user: colleague._id,
+      boardroom: overflowRooms[0]._id,
+      startTime: group[0].endTime,
+      endTime: new Date(group[0].endTime.getTime() + 60 * MINUTE),
+      purpose: 'Interview',
+      attendees: [colleague._id]
+    });
+
+    const response = await request(app).post(`/bookings/${group[0]._id}/extend`).set(as(organizer)).send({ minutes: 15 });
+
+    expect(response.status).toBe(400);
+    const endTimes = (await Booking.find({ roomGroupId: group[0].roomGroupId })).map(booking => booking.endTime.getTime());
+    expect(endTimes).toEqual([group[0].endTime.getTime(), group[0].endTime.getTime(), group[0].endTime.getTime()]);
+  });
+
+  it('should end every room when the meeting ends early', async () => {
+    const group = await createRunningGroup(20);
+
+    const response = await request(app).post(`/bookings/${group[0]._id}/end`).set(as(organizer));
+
+    expect(response.status).toBe(200);
+    const bookings = await Booking.find({ roomGroupId: group[0].roomGroupId });
+    expect(bookings.every(booking => booking.endTime.getTime() <= Date.now())).toBe(true);
+  });
+});
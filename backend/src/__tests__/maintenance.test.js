@@ -0,0 +1,100 @@
+/**
+ * Maintenance Tests
+ * Bookings caught by a maintenance window move to an equivalent room only if that room could take them as a new booking
+ */
+
+const request = require('supertest');
+
+jest.mock('../services/emailService', () => ({
+  sendBookingNotification: jest.fn().mockResolvedValue(true),
+  sendEmail: jest.fn().mockResolvedValue(true)
+}));
+jest.mock('../services/waitlistService', () => ({
+  findActiveHold: jest.fn().mockResolvedValue(null),
+  releaseSlot: jest.fn().mockResolvedValue([])
+}));
+
+const Booking = require('../models/Booking');
+const Boardroom = require('../models/Boardroom');
+const Notification = require('../models/Notification');
+const User = require('../models/User');
+const waitlistService = require('../services/waitlistService');
+const boardroomController = require('../controllers/boardroomController');
+const { validateMaintenanceWindow } = require('../middleware/validation');
+const { createTestApp, as } = require('./helpers/testApp');
+
+// Monday 10:00-11:00 SAST, inside the default working hours
+const START = '2030-03-04T08:00:00.000Z';
+const END = '2030-03-04T09:00:00.000Z';
+
+const app = createTestApp();
+app.post('/boardrooms/:id/maintenance', validateMaintenanceWindow, boardroomController.addMaintenanceWindow);
+
+describe('Maintenance moves', () => {
+  let admin;
+  let organizer;
+  let attendee;
+  let mainRoom;
+  let spareRoom;
+  let booking;
+
+  beforeEach(async () => {
+    [admin, organizer, attendee] = await User.insertMany([
+      { name: 'Admin', email: 'admin@example.com', password: 'hashed-password', role: 'admin' },
+      { name: 'Organizer', email: 'organizer@example.com', password: 'hashed-password' },
+      { name: 'Attendee', email: 'attendee@example.com', password: 'hashed-password' }
+    ]);
+    [mainRoom, spareRoom] = await Boardroom.insertMany([
+      { name: 'Main Room', capacity: 10, location: 'Floor 1' },
+      { name: 'Spare Room', capacity: 12, location: 'Floor 1' }
+    ]);
+    booking = await Booking.create({
+      user: organizer._id,
+      boardroom: mainRoom._id,
+      startTime: new Date(START),
+      endTime: new Date(END),
+      purpose: 'Planning',
+      attendees: [organizer._id, attendee._id]
+    });
+  });
+
+  const scheduleMaintenance = () => request(app)
+    .post(`/boardrooms/${mainRoom._id}/maintenance`)
+    .set(as(admin, 'admin'))
+    .send({ startTime: START, endTime: END, reason: 'Projector repair', action: 'move' });
+
+  it('should move the booking and tell the organizer and attendees', async () => {
+    const response = await scheduleMaintenance();
+
+    expect(response.status).toBe(201);
+    expect(response.body.results[0].outcome).toBe('moved');
+    const moved = await Booking.findById(booking._id);
+    expect(moved.boardroom.toString()).toBe(String(spareRoom._id));
+    expect(moved.status).toBe('confirmed');
+
+    const notices = await Notification.find({ booking: booking._id });
+    expect(notices.map(notice => notice.user.toString()).sort()).toEqual([String(organizer._id), String(attendee._id)].sort());
+    expect(notices[0].message).toBe('"Planning" was moved from Main Room to Spare Room because of scheduled maintenance');
+  });
+
+  it('should leave a booking moved into an approval room pending', async () => {
+    await Boardroom.updateOne({ _id: spareRoom._id }, { requiresApproval: true });
+
+    await scheduleMaintenance();
+
+    expect((await Booking.findById(booking._id)).status).toBe('pending');
+    const approverNotice = await Notification.findOne({ user: admin._id });
+    expect(approverNotice.message).toBe('Organizer requested Spare Room for "Planning". Approval needed');
+  });
+
+  it('should only notify the organizer when the suggested room is held for the waitlist', async () => {
+    waitlistService.findActiveHold.mockResolvedValueOnce({ _id: 'held' });
+
+    const response = await scheduleMaintenance();
+
+    expect(response.body.results[0].outcome).toBe('notified');
+    expect((await Booking.findById(booking._id)).boardroom.toString()).toBe(String(mainRoom._id));
+    const notices = await Notification.find({ booking: booking._id });
+    expect(notices.map(notice => notice.user.toString())).toEqual([String(organizer._id)]);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Meeting Notes Tests
+ * Agendas before the meeting, minutes and action items after it; each action item is owned by someone on the booking
+ */
+
+const request = require('supertest');
+
+const Booking = require('../models/Booking');
+const Boardroom = require('../models/Boardroom');
+const Notification = require('../models/Notification');
+const User = require('../models/User');
+const meetingNotesController = require('../controllers/meetingNotesController');
+const { setActionItems, collectActionItems } = require('../utils/meetingNotes');
+const { createTestApp, as } = require('./helpers/testApp');
+
+const app = createTestApp();
+app.put('/bookings/:id/agenda', meetingNotesController.updateAgenda);
+app.put('/bookings/:id/minutes', meetingNotesController.updateMinutes);
+app.get('/bookings/action-items', meetingNotesController.getMyActionItems);
+app.patch('/bookings/:id/action-items/:itemId', meetingNotesController.updateActionItem);
+
+describe('Meeting notes', () => {
+  describe('action items', () => {
+    const organizer = 'a'.repeat(24);
+    const colleague = 'b'.repeat(24);
+    const now = new Date('2030-03-05T08:00:00.000Z');
+
+    it('should keep completion on items sent back and only report new owners', () => {
+      const completedAt = new Date('2030-03-04T12:00:00.000Z');
+      const booking = {
+        user: organizer,
+        attendees: [organizer, colleague],
+        actionItems: [{ _id: 'c'.repeat(24), description: 'Send deck', owner: organizer, completedAt, createdBy: organizer }]
+      };
+
+      const { assigned } = setActionItems(booking, [
+        { _id: 'c'.repeat(24), description: 'Send deck', owner: organizer, completed: true },
+        { description: 'Book follow-up', owner: colleague }
+      ], organizer, now);
+
+      expect(booking.actionItems[0]).toMatchObject({ completedAt, createdBy: organizer });
+      expect(booking.actionItems[1]).toMatchObject({ createdBy: organizer, completedAt: undefined });
+      expect(assigned.map(item => item.description)).toEqual(['Book follow-up']);
+    });
+
+    it('should only assign items to people on the booking', () => {
+      const booking = { user: organizer, attendees: [organizer], actionItems: [] };
+
+      expect(setActionItems(booking, [{ description: 'Chase legal', owner: colleague }], organizer, now).error)
+        .toBe('Action items can only be assigned to the organizer or attendees');
+    });
+
+    it('should list open items by due date before recently completed ones', () => {
+      const bookings = [{
+        _id: 'meeting',
+        purpose: 'Review',
+        startTime: new Date('2030-03-01T08:00:00.000Z'),
+        actionItems: [
+          { description: 'Undated', owner: colleague },
+          { description: 'Done', owner: colleague, completedAt: new Date('2030-03-04T08:00:00.000Z') },
+          { description: 'Done long ago', owner: colleague, completedAt: new Date('2030-01-04T08:00:00.000Z') },
+          { description: 'Due soon', owner: colleague, dueDate: new Date('2030-03-06T00:00:00.000Z') },
+          { description: 'Not mine', owner: organizer }
+        ]
+      }];
+
+      const items = collectActionItems(bookings, colleague, new Date('2030-02-26T08:00:00.000Z'));
+
+      expect(items.map(item => item.description)).toEqual(['Due soon', 'Undated', 'Done']);
+    });
+  });
+
+  describe('editing', () => {
+    let organizer;
+    let colleague;
+    let booking;
+
+    beforeEach(async () => {
+      [organizer, colleague] = await User.insertMany([
+        { name: 'Organizer', email: 'organizer@example.com', password: 'hashed-password' },
+        { name: 'Colleague', email: 'colleague@example.com', password: 'hashed-password' }
+      ]);
+      const boardroom = await Boardroom.create({ name: 'Audit Room', capacity: 8, location: 'Floor 3' });
+      booking = await Booking.create({
+        user: organizer._id,
+        boardroom: boardroom._id,
+        startTime: new Date(Date.now() - 2 * 60 * 60 * 1000),
+        endTime: new Date(Date.now() - 60 * 60 * 1000),
+        purpose: 'Quarterly review',
+        attendees: [organizer._id, colleague._id]
+      });
+    });
+
+    it('should let attendees edit the agenda', async () => {
+      const response = await request(app)
+        .put(`/bookings/${booking._id}/agenda`)
+        .set(as(colleague))
+        .send({ agenda: [{ title: 'Numbers', durationMinutes: 20 }, { title: 'Hiring' }] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.agenda.map(item => item.title)).toEqual(['Numbers', 'Hiring']);
+    });
+
+    it('should put action items on their owner\'s list and tell them', async () => {
+      const saved = await request(app)
+        .put(`/bookings/${booking._id}/minutes`)
+        .set(as(organizer))
+        .send({
+          notes: 'Numbers are on track.',
+          actionItems: [{ description: 'Draft hiring plan', owner: String(colleague._id), dueDate: '2030-03-11' }]
+        });
+      expect(saved.status).toBe(200);
+
+      const list = await request(app).get('/bookings/action-items').set(as(colleague));
+      expect(list.body).toHaveLength(1);
+      expect(list.body[0]).toMatchObject({ description: 'Draft hiring plan', booking: { purpose: 'Quarterly review' } });
+
+      const done = await request(app)
+        .patch(`/bookings/${booking._id}/action-items/${list.body[0]._id}`)
+        .set(as(colleague))
+        .send({ completed: true });
+      expect(done.body.actionItem.completedAt).toBeDefined();
+
+      const notification = await Notification.findOne({ user: colleague._id });
+      expect(notification.message).toBe('You have a new action item from "Quarterly review": Draft hiring plan');
+    });
+
+    it('should wait for the meeting to start before taking minutes', async () => {
+      await Booking.updateOne({ _id: booking._id }, {
+        startTime: new Date(Date.now() + 60 * 60 * 1000),
+        endTime: new Date(Date.now() + 2 * 60 * 60 * 1000)
+      });
+
+      const response = await request(app).put(`/bookings/${booking._id}/minutes`).set(as(organizer)).send({ notes: 'Early' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
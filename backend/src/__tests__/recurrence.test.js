@@ -0,0 +1,123 @@
+/**
+ * Recurrence Expansion Tests
+ */
+
+const {
+  MAX_OCCURRENCES,
+  parseRRule,
+  validateRecurrence,
+  expandRecurrence,
+  describeRecurrence
+} = require('../utils/recurrence');
+
+const TIMEZONE = 'Africa/Johannesburg';
+const START = '2030-03-04T08:00:00.000Z'; // Monday 10:00 SAST
+const END = '2030-03-04T09:00:00.000Z';
+
+const startTimes = (occurrences) => occurrences.map(occurrence => occurrence.startTime.toISOString());
+
+describe('Recurrence', () => {
+  describe('validateRecurrence', () => {
+    it('should accept simple and custom rules', () => {
+      expect(validateRecurrence({ frequency: 'daily', count: 5 })).toBeNull();
+      expect(validateRecurrence({ frequency: 'weekly', byWeekday: ['MO', 'WE'], until: '2030-04-01' })).toBeNull();
+      expect(validateRecurrence({ frequency: 'custom', rrule: 'RRULE:FREQ=MONTHLY;COUNT=3' })).toBeNull();
+    });
+
+    it('should reject rules without an end', () => {
+      expect(validateRecurrence({ frequency: 'daily' })).toMatch(/count or an end date/);
+    });
+
+    it('should reject unsupported RRULE parts and frequencies', () => {
+      expect(validateRecurrence({ frequency: 'custom', rrule: 'FREQ=YEARLY;COUNT=2' })).toMatch(/FREQ/);
+      expect(validateRecurrence({ frequency: 'custom', rrule: 'FREQ=DAILY;COUNT=2;BYHOUR=9' })).toMatch(/BYHOUR/);
+      expect(validateRecurrence({ frequency: 'hourly', count: 2 })).toMatch(/frequency/);
+    });
+
+    it('should reject invalid weekday codes', () => {
+      expect(validateRecurrence({ frequency: 'weekly', byWeekday: ['MON'], count: 2 })).toMatch(/weekdays/);
+    });
+  });
+
+  describe('parseRRule', () => {
+    it('should parse FREQ, INTERVAL, COUNT, UNTIL and BYDAY', () => {
+      const rule = parseRRule('RRULE:FREQ=WEEKLY;INTERVAL=2;COUNT=6;BYDAY=TU,TH;UNTIL=20300601');
+
+      expect(rule.frequency).toBe('weekly');
+      expect(rule.interval).toBe(2);
+      expect(rule.count).toBe(6);
+      expect(rule.byWeekday).toEqual(['TU', 'TH']);
+      expect(rule.until).toBe('2030-06-01');
+    });
+  });
+
+  describe('expandRecurrence', () => {
+    it('should expand daily rules with an interval', () => {
+      const occurrences = expandRecurrence(START, END, { frequency: 'daily', interval: 2, count: 3 }, TIMEZONE);
+
+      expect(startTimes(occurrences)).toEqual([
+        '2030-03-04T08:00:00.000Z',
+        '2030-03-06T08:00:00.000Z',
+        '2030-03-08T08:00:00.000Z'
+      ]);
+      expect(occurrences[2].endTime.toISOString()).toBe('2030-03-08T09:00:00.000Z');
+    });
+
+    it('should expand weekly rules on specific weekdays', () => {
+      const occurrences = expandRecurrence(START, END, { frequency: 'weekly', byWeekday: ['MO', 'WE'], count: 4 }, TIMEZONE);
+
+      expect(startTimes(occurrences)).toEqual([
+        '2030-03-04T08:00:00.000Z',
+        '2030-03-06T08:00:00.000Z',
+        '2030-03-11T08:00:00.000Z',
+        '2030-03-13T08:00:00.000Z'
+      ]);
+    });
+
+    it('should stop at the until date', () => {
+      const occurrences = expandRecurrence(START, END, { frequency: 'weekly', until: '2030-03-18' }, TIMEZONE);
+      expect(occurrences).toHaveLength(3);
+    });
+
+    it('should include the until date in rooms west of UTC', () => {
+      // 09:00 New York, so every start falls on the next UTC day
+      const start = '2025-01-27T14:00:00.000Z';
+      const end = '2025-01-27T15:00:00.000Z';
+
+      const daily = expandRecurrence(start, end, { frequency: 'daily', until: '2025-01-31' }, 'America/New_York');
+      const custom = expandRecurrence(start, end, { frequency: 'custom', rrule: 'FREQ=DAILY;UNTIL=20250131' }, 'America/New_York');
+
+      expect(daily).toHaveLength(5);
+      expect(daily[4].startTime.toISOString()).toBe('2025-01-31T14:00:00.000Z');
+      expect(custom).toHaveLength(5);
+    });
+
+    it('should skip months that do not have the original day', () => {
+      const occurrences = expandRecurrence(
+        '2030-01-31T08:00:00.000Z',
+        '2030-01-31T09:00:00.000Z',
+        { frequency: 'monthly', count: 3 },
+        TIMEZONE
+      );
+
+      expect(startTimes(occurrences)).toEqual([
+        '2030-01-31T08:00:00.000Z',
+        '2030-03-31T08:00:00.000Z',
+        '2030-05-31T08:00:00.000Z'
+      ]);
+    });
+
+    it('should cap the number of occurrences', () => {
+      const occurrences = expandRecurrence(START, END, { frequency: 'daily', count: 500 }, TIMEZONE);
+      expect(occurrences).toHaveLength(MAX_OCCURRENCES);
+    });
+  });
+
+  describe('describeRecurrence', () => {
+    it('should summarise rules for notifications', () => {
+      expect(describeRecurrence({ frequency: 'weekly', byWeekday: ['MO', 'WE'], count: 10 })).toBe('Weekly on Mon, Wed, 10 times');
+      expect(describeRecurrence({ frequency: 'custom', rrule: 'FREQ=DAILY;INTERVAL=3;COUNT=4' })).toBe('Every 3 days, 4 times');
+      expect(describeRecurrence(null)).toBe('');
+    });
+  });
+});
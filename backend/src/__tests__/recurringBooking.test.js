@@ -0,0 +1,108 @@
+/**
+ * Recurring Booking Tests
+ * Edits to a series fan out to each occurrence in the room it is actually booked in
+ */
+
+const request = require('supertest');
+const mongoose = require('mongoose');
+
+jest.mock('../services/emailService', () => ({
+  sendBookingNotification: jest.fn().mockResolvedValue(true),
+  sendEmail: jest.fn().mockResolvedValue(true)
+}));
+jest.mock('../services/waitlistService', () => ({
+  findActiveHold: jest.fn().mockResolvedValue(null),
+  releaseSlot: jest.fn().mockResolvedValue([])
+}));
+
+const Booking = require('../models/Booking');
+const Boardroom = require('../models/Boardroom');
+const RoomLock = require('../models/RoomLock');
+const User = require('../models/User');
+const bookingController = require('../controllers/bookingController');
+const { createTestApp, as } = require('./helpers/testApp');
+
+// Mondays 10:00-11:00 SAST, inside the default working hours
+const START = new Date('2030-03-04T08:00:00.000Z').getTime();
+const WEEK = 7 * 24 * 60 * 60 * 1000;
+const HOUR = 60 * 60 * 1000;
+
+const app = createTestApp();
+app.put('/bookings/:id', bookingController.updateBooking);
+
+describe('Recurring booking edits', () => {
+  let organizer;
+  let mainRoom;
+  let otherRoom;
+  let occurrences;
+
+  beforeEach(async () => {
+    organizer = await User.create({ name: 'Organizer', email: 'organizer@example.com', password: 'hashed-password' });
+    [mainRoom, otherRoom] = await Boardroom.insertMany([
+      { name: 'Main Room', capacity: 10, location: 'Floor 1' },
+      { name: 'Other Room', capacity: 10, location: 'Floor 2' }
+    ]);
+    const seriesId = new mongoose.Types.ObjectId();
+    occurrences = await Booking.insertMany([0, 1, 2].map(week => ({
+      user: organizer._id,
+      boardroom: mainRoom._id,
+      startTime: new Date(START + week * WEEK),
+      endTime: new Date(START + week * WEEK + HOUR),
+      purpose: 'Weekly sync',
+      attendees: [organizer._id],
+      seriesId,
+      seriesIndex: week
+    })));
+  });
+
+  it('should check occurrences moved on their own against the room they are in', async () => {
+    await Booking.updateOne({ _id: occurrences[1]._id }, { boardroom: otherRoom._id });
+    // The main room was booked by someone else once the second week moved out
+    await Booking.create({
+      user: organizer._id,
+      boardroom: mainRoom._id,
+      startTime: occurrences[1].startTime,
+      endTime: occurrences[1].endTime,
+      purpose: 'Someone else',
+      attendees: [organizer._id]
+    });
+
+    const response = await request(app)
+      .put(`/bookings/${occurrences[0]._id}`)
+      .set(as(organizer))
+      .send({ purpose: 'Weekly planning', scope: 'series' });
+
+    expect(response.status).toBe(200);
+    const moved = await Booking.findById(occurrences[1]._id);
+    expect(moved.boardroom.toString()).toBe(String(otherRoom._id));
+    expect(moved.purpose).toBe('Weekly planning');
+  });
+
+  it('should leave moved occurrences in their room when the edit sends the current room back', async () => {
+    await Booking.updateOne({ _id: occurrences[2]._id }, { boardroom: otherRoom._id });
+
+    // Edit forms always submit the room, even when only the purpose changed
+    const response = await request(app)
+      .put(`/bookings/${occurrences[0]._id}`)
+      .set(as(organizer))
+      .send({ boardroom: String(mainRoom._id), purpose: 'Weekly planning', scope: 'following' });
+
+    expect(response.status).toBe(200);
+    const moved = await Booking.findById(occurrences[2]._id);
+    expect(moved.boardroom.toString()).toBe(String(otherRoom._id));
+    expect(moved.purpose).toBe('Weekly planning');
+  });
+
+  it('should answer with an error and free the room when saving the series fails', async () => {
+    jest.spyOn(Booking.prototype, 'save').mockRejectedValueOnce(new Error('Write failed'));
+
+    const response = await request(app)
+      .put(`/bookings/${occurrences[0]._id}`)
+      .set(as(organizer))
+      .send({ purpose: 'Weekly planning', scope: 'series' });
+
+    expect(response.status).toBe(500);
+    expect(response.body.message).toBe('Server error');
+    expect(await RoomLock.countDocuments()).toBe(0);
+  });
+});
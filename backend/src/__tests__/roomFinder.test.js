@@ -0,0 +1,92 @@
+/**
+ * Room Finder Tests
+ */
+
+const { resolvePolicy } = require('../utils/bookingPolicy');
+const {
+  getCandidateSlots,
+  isSlotFree,
+  matchesLocation,
+  rankMatches
+} = require('../utils/roomFinder');
+
+// Monday 4 March 2030; SAST is UTC+2
+const NOW = new Date('2030-03-01T08:00:00.000Z');
+const at = (time) => new Date(`2030-03-04T${time}:00.000+02:00`);
+
+describe('Room Finder', () => {
+  const policy = resolvePolicy({
+    bookingPolicy: {
+      operatingHours: [{ day: 1, open: '08:00', close: '12:00' }],
+      slotMinutes: 30,
+      maxDurationMinutes: 120
+    }
+  });
+
+  describe('getCandidateSlots', () => {
+    it('should step through the day on the slot grid', () => {
+      const slots = getCandidateSlots(policy, '2030-03-04', 60, {}, NOW);
+
+      expect(slots[0].startTime).toEqual(at('08:00'));
+      expect(slots[slots.length - 1].endTime).toEqual(at('12:00'));
+      expect(slots).toHaveLength(7);
+    });
+
+    it('should keep to the requested window and round up to the next slot', () => {
+      const slots = getCandidateSlots(policy, '2030-03-04', 60, { from: '09:10', to: '11:00' }, NOW);
+
+      expect(slots.map(slot => slot.startTime)).toEqual([at('09:30'), at('10:00')]);
+    });
+
+    it('should return nothing on closed days or for meetings longer than allowed', () => {
+      expect(getCandidateSlots(policy, '2030-03-05', 60, {}, NOW)).toEqual([]);
+      expect(getCandidateSlots(policy, '2030-03-04', 180, {}, NOW)).toEqual([]);
+    });
+  });
+
+  describe('isSlotFree', () => {
+    const room = { maintenanceWindows: [] };
+    const slot = { startTime: at('09:00'), endTime: at('10:00') };
+
+    it('should respect the room buffers around existing bookings', () => {
+      const bookings = [{ startTime: at('10:10'), endTime: at('11:00') }];
+
+      expect(isSlotFree(slot, { room, bookings, closures: [], buffers: { before: 0, after: 0 } })).toBe(true);
+      expect(isSlotFree(slot, { room, bookings, closures: [], buffers: { before: 15, after: 0 } })).toBe(false);
+    });
+
+    it('should treat closures and maintenance as busy', () => {
+      const closures = [{ startTime: at('09:30'), endTime: at('12:00') }];
+      const inMaintenance = { maintenanceWindows: [{ startTime: at('08:00'), endTime: at('09:30') }] };
+      const buffers = { before: 0, after: 0 };
+
+      expect(isSlotFree(slot, { room, bookings: [], closures, buffers })).toBe(false);
+      expect(isSlotFree(slot, { room: inMaintenance, bookings: [], closures: [], buffers })).toBe(false);
+    });
+  });
+
+  describe('rankMatches', () => {
+    it('should prefer the closest fit, then the preferred location, then the earliest time', () => {
+      const match = (name, spareSeats, preferredLocation, time) => ({
+        name, spareSeats, preferredLocation, startTime: at(time)
+      });
+
+      const ranked = rankMatches([
+        match('large', 10, true, '08:00'),
+        match('exact-late', 0, false, '11:00'),
+        match('snug-elsewhere', 2, false, '08:00'),
+        match('exact-early', 0, false, '09:00'),
+        match('snug-preferred', 2, true, '10:00')
+      ]);
+
+      expect(ranked.map(item => item.name)).toEqual([
+        'exact-early', 'exact-late', 'snug-preferred', 'snug-elsewhere', 'large'
+      ]);
+    });
+
+    it('should match locations case-insensitively and only when one was asked for', () => {
+      expect(matchesLocation({ location: 'Floor 2, East Wing' }, 'floor 2')).toBe(true);
+      expect(matchesLocation({ location: 'Floor 2' }, undefined)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Service Request Tests
+ * Catering and equipment ordered with a booking follow it when it moves and are voided when it is cancelled
+ */
+
+const request = require('supertest');
+
+jest.mock('../services/emailService', () => ({
+  sendBookingNotification: jest.fn().mockResolvedValue(true),
+  sendEmail: jest.fn().mockResolvedValue(true)
+}));
+jest.mock('../services/waitlistService', () => ({
+  findActiveHold: jest.fn().mockResolvedValue(null),
+  releaseSlot: jest.fn().mockResolvedValue([])
+}));
+
+const Boardroom = require('../models/Boardroom');
+const ServiceItem = require('../models/ServiceItem');
+const ServiceRequest = require('../models/ServiceRequest');
+const User = require('../models/User');
+const bookingController = require('../controllers/bookingController');
+const serviceController = require('../controllers/serviceController');
+const { getServiceRequestError } = require('../utils/serviceRequests');
+const { createTestApp, as } = require('./helpers/testApp');
+
+// Monday 10:00-11:00 SAST, inside the default working hours
+const START = '2030-03-04T08:00:00.000Z';
+const END = '2030-03-04T09:00:00.000Z';
+
+const app = createTestApp();
+app.post('/bookings', bookingController.createBooking);
+app.put('/bookings/:id', bookingController.updateBooking);
+app.put('/bookings/:id/cancel', bookingController.cancelBooking);
+app.get('/services/queue', serviceController.getServiceQueue);
+app.patch('/services/requests/:id', serviceController.updateServiceRequestStatus);
+
+describe('Service requests', () => {
+  describe('getServiceRequestError', () => {
+    const coffee = { name: 'Coffee', leadTimeHours: 24, maxQuantity: 20 };
+    const now = new Date('2030-03-01T08:00:00.000Z');
+
+    it('should accept a delivery from half an hour before the meeting until it ends', () => {
+      expect(getServiceRequestError(coffee, { quantity: 8, deliverAt: new Date('2030-03-04T07:30:00.000Z') }, START, END, now)).toBeNull();
+      expect(getServiceRequestError(coffee, { quantity: 8, deliverAt: new Date(END) }, START, END, now)).toBeNull();
+      expect(getServiceRequestError(coffee, { quantity: 8, deliverAt: new Date('2030-03-04T07:29:00.000Z') }, START, END, now)).toMatch(/delivered between/);
+      expect(getServiceRequestError(coffee, { quantity: 8, deliverAt: new Date('2030-03-04T09:01:00.000Z') }, START, END, now)).toMatch(/delivered between/);
+    });
+
+    it('should hold the catalog limits', () => {
+      expect(getServiceRequestError(coffee, { quantity: 21, deliverAt: new Date(START) }, START, END, now)).toBe('At most 20 of Coffee can be requested');
+      expect(getServiceRequestError(coffee, { quantity: 8, deliverAt: new Date(START) }, START, END, new Date('2030-03-03T09:00:00.000Z')))
+        .toBe("Coffee needs 24 hours' notice");
+    });
+  });
+
+  describe('with bookings', () => {
+    let organizer;
+    let admin;
+    let boardroom;
+    let coffee;
+
+    beforeEach(async () => {
+      [organizer, admin] = await User.insertMany([
+        { name: 'Organizer', email: 'organizer@example.com', password: 'hashed-password' },
+        { name: 'Facilities', email: 'facilities@example.com', password: 'hashed-password', role: 'admin' }
+      ]);
+      boardroom = await Boardroom.create({ name: 'Audit Room', capacity: 8, location: 'Floor 3' });
+      coffee = await ServiceItem.create({ name: 'Coffee', category: 'catering', leadTimeHours: 2, maxQuantity: 20 });
+    });
+
+    const createBooking = (serviceRequests) => request(app)
+      .post('/bookings')
+      .set(as(organizer))
+      .send({
+        boardroom: String(boardroom._id),
+        startTime: START,
+        endTime: END,
+        purpose: 'Planning',
+        serviceRequests
+      });
+
+    it('should take the requests with the booking', async () => {
+      const response = await createBooking([{ item: String(coffee._id), quantity: 6, deliverAt: '2030-03-04T07:45:00.000Z' }]);
+
+      expect(response.status).toBe(201);
+      const [serviceRequest] = await ServiceRequest.find({ booking: response.body._id });
+      expect(serviceRequest.itemName).toBe('Coffee');
+      expect(serviceRequest.quantity).toBe(6);
+      expect(serviceRequest.status).toBe('requested');
+      expect(serviceRequest.deliverAt.toISOString()).toBe('2030-03-04T07:45:00.000Z');
+    });
+
+    it('should refuse the booking when a request breaks the catalog limits', async () => {
+      const response = await createBooking([{ item: String(coffee._id), quantity: 50 }]);
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toBe('At most 20 of Coffee can be requested');
+      expect(await ServiceRequest.countDocuments()).toBe(0);
+    });
+
+    it('should move deliveries with the booking', async () => {
+      const { body: booking } = await createBooking([{ item: String(coffee._id), quantity: 6 }]);
+
+      await request(app)
+        .put(`/bookings/${booking._id}`)
+        .set(as(organizer))
+        .send({ startTime: '2030-03-04T10:00:00.000Z', endTime: '2030-03-04T11:00:00.000Z' });
+
+      const serviceRequest = await ServiceRequest.findOne({ booking: booking._id });
+      expect(serviceRequest.deliverAt.toISOString()).toBe('2030-03-04T10:00:00.000Z');
+      expect(serviceRequest.bookingChangedAt).toBeDefined();
+    });
+
+    it('should void open requests when the booking is cancelled', async () => {
+      const { body: booking } = await createBooking([{ item: String(coffee._id), quantity: 6 }]);
+
+      await request(app).put(`/bookings/${booking._id}/cancel`).set(as(organizer));
+
+      const serviceRequest = await ServiceRequest.findOne({ booking: booking._id });
+      expect(serviceRequest.status).toBe('cancelled');
+      expect(serviceRequest.cancelReason).toBe('The booking was cancelled');
+
+      const reopen = await request(app)
+        .patch(`/services/requests/${serviceRequest._id}`)
+        .set(as(admin, 'admin'))
+        .send({ status: 'confirmed' });
+      expect(reopen.status).toBe(400);
+    });
+
+    it('should list upcoming requests for facilities in delivery order', async () => {
+      await createBooking([
+        { item: String(coffee._id), quantity: 6, deliverAt: '2030-03-04T08:30:00.000Z' },
+        { item: String(coffee._id), quantity: 2, deliverAt: '2030-03-04T07:45:00.000Z' }
+      ]);
+
+      const response = await request(app)
+        .get('/services/queue')
+        .query({ from: '2030-03-04T00:00:00.000Z', boardroom: String(boardroom._id) })
+        .set(as(admin, 'admin'));
+
+      expect(response.status).toBe(200);
+      expect(response.body.map(item => item.quantity)).toEqual([2, 6]);
+      expect(response.body[0].boardroom.name).toBe('Audit Room');
+      expect(response.body[0].booking.purpose).toBe('Planning');
+    });
+  });
+});
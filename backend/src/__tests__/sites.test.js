@@ -0,0 +1,144 @@
+/**
+ * Site Tests
+ * Rooms take their timezone and default opening hours from their site
+ */
+
+const request = require('supertest');
+const mongoose = require('mongoose');
+
+jest.mock('../services/emailService', () => ({
+  sendBookingNotification: jest.fn().mockResolvedValue(true),
+  sendEmail: jest.fn().mockResolvedValue(true)
+}));
+jest.mock('../services/waitlistService', () => ({
+  findActiveHold: jest.fn().mockResolvedValue(null),
+  releaseSlot: jest.fn().mockResolvedValue([])
+}));
+
+const Boardroom = require('../models/Boardroom');
+const Site = require('../models/Site');
+const User = require('../models/User');
+const siteController = require('../controllers/siteController');
+const boardroomController = require('../controllers/boardroomController');
+const bookingController = require('../controllers/bookingController');
+const { validateSite, validateBoardroom } = require('../middleware/validation');
+const { createTestApp, as } = require('./helpers/testApp');
+
+const app = createTestApp();
+app.post('/sites', validateSite, siteController.createSite);
+app.put('/sites/:id', validateSite, siteController.updateSite);
+app.delete('/sites/:id', siteController.deleteSite);
+app.get('/boardrooms', boardroomController.getAllBoardrooms);
+app.post('/boardrooms', validateBoardroom, boardroomController.createBoardroom);
+app.put('/boardrooms/:id', validateBoardroom, boardroomController.updateBoardroom);
+app.get('/boardrooms/:id/policy', boardroomController.getBoardroomPolicy);
+app.post('/bookings', bookingController.createBooking);
+app.get('/bookings/detailed-availability/:boardroomId', bookingController.getDetailedAvailability);
+
+// Mornings only, Monday to Friday
+const MORNING_HOURS = [1, 2, 3, 4, 5].map(day => ({ day, open: '07:00', close: '12:00' }));
+
+describe('Sites', () => {
+  let admin;
+  let organizer;
+
+  beforeEach(async () => {
+    [admin, organizer] = await User.insertMany([
+      { name: 'Admin', email: 'admin@example.com', password: 'hashed-password', role: 'admin' },
+      { name: 'Organizer', email: 'organizer@example.com', password: 'hashed-password' }
+    ]);
+  });
+
+  const createNewYorkRoom = async () => {
+    const site = await Site.create({ name: 'New York', timezone: 'America/New_York', operatingHours: MORNING_HOURS });
+    const boardroom = await Boardroom.create({ name: 'Hudson Room', capacity: 8, location: 'Floor 12', site: site._id });
+    return { site, boardroom };
+  };
+
+  it('should create, update and delete a site', async () => {
+    const created = await request(app)
+      .post('/sites')
+      .set(as(admin, 'admin'))
+      .send({ name: 'Cape Town', timezone: 'Africa/Johannesburg' });
+    expect(created.status).toBe(201);
+
+    const duplicate = await request(app)
+      .post('/sites')
+      .set(as(admin, 'admin'))
+      .send({ name: 'Cape Town', timezone: 'Africa/Johannesburg' });
+    expect(duplicate.status).toBe(400);
+
+    const updated = await request(app)
+      .put(`/sites/${created.body._id}`)
+      .set(as(admin, 'admin'))
+      .send({ name: 'Cape Town', timezone: 'Africa/Johannesburg', operatingHours: MORNING_HOURS });
+    expect(updated.status).toBe(200);
+    expect(updated.body.operatingHours).toHaveLength(5);
+
+    const deleted = await request(app).delete(`/sites/${created.body._id}`).set(as(admin, 'admin'));
+    expect(deleted.status).toBe(200);
+    expect(await Site.countDocuments()).toBe(0);
+  });
+
+  it('should not delete a site that still has rooms', async () => {
+    const { site } = await createNewYorkRoom();
+
+    const response = await request(app).delete(`/sites/${site._id}`).set(as(admin, 'admin'));
+
+    expect(response.status).toBe(400);
+    expect(response.body.roomCount).toBe(1);
+  });
+
+  it('should list only the rooms of the requested site', async () => {
+    const { site } = await createNewYorkRoom();
+    await Boardroom.create({ name: 'Table Mountain Room', capacity: 8, location: 'Floor 2' });
+
+    const response = await request(app).get('/boardrooms').query({ site: String(site._id) });
+
+    expect(response.body.map(room => room.name)).toEqual(['Hudson Room']);
+    expect(response.body[0].site).toMatchObject({ name: 'New York', timezone: 'America/New_York' });
+  });
+
+  it('should use the site timezone and hours for policy, availability and bookings', async () => {
+    const { boardroom } = await createNewYorkRoom();
+
+    const policy = await request(app).get(`/boardrooms/${boardroom._id}/policy`);
+    expect(policy.body.policy.timezone).toBe('America/New_York');
+    expect(policy.body.policy.operatingHours).toEqual(MORNING_HOURS);
+
+    // Monday 4 March 2030 is still on EST (UTC-5)
+    const availability = await request(app)
+      .get(`/bookings/detailed-availability/${boardroom._id}`)
+      .query({ date: '2030-03-04' });
+    const slots = availability.body.timeSlots;
+    expect(slots[0].startTime).toBe('2030-03-04T12:00:00.000Z');
+    expect(slots[slots.length - 1].endTime).toBe('2030-03-04T17:00:00.000Z');
+
+    const afternoon = await request(app)
+      .post('/bookings')
+      .set(as(organizer))
+      .send({ boardroom: String(boardroom._id), startTime: '2030-03-04T18:00:00.000Z', endTime: '2030-03-04T19:00:00.000Z', purpose: 'Review' });
+    expect(afternoon.status).toBe(400);
+    expect(afternoon.body.message).toBe('Booking must be within working hours (07:00-12:00 New_York)');
+  });
+
+  it('should refuse rooms that point at an unknown site', async () => {
+    const { boardroom } = await createNewYorkRoom();
+    const unknownSite = String(new mongoose.Types.ObjectId());
+
+    const created = await request(app)
+      .post('/boardrooms')
+      .set(as(admin, 'admin'))
+      .send({ name: 'Ghost Room', capacity: 4, location: 'Nowhere', site: unknownSite });
+    const updated = await request(app)
+      .put(`/boardrooms/${boardroom._id}`)
+      .set(as(admin, 'admin'))
+      .send({ name: 'Hudson Room', capacity: 8, location: 'Floor 12', site: unknownSite });
+
+    expect(created.status).toBe(400);
+    expect(created.body.message).toBe('Site not found');
+    expect(updated.status).toBe(400);
+    expect(updated.body.message).toBe('Site not found');
+    expect((await Boardroom.findById(boardroom._id)).site).toBeDefined();
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Visitor Tests
+ * Organizers pre-register visitors; reception sees each room's visitors for the day and checks them in
+ */
+
+const request = require('supertest');
+
+jest.mock('../services/emailService', () => ({
+  sendEmail: jest.fn().mockResolvedValue(true)
+}));
+
+const Booking = require('../models/Booking');
+const Boardroom = require('../models/Boardroom');
+const Notification = require('../models/Notification');
+const User = require('../models/User');
+const emailService = require('../services/emailService');
+const visitorController = require('../controllers/visitorController');
+const { groupVisitorsByRoom, getVisitorHost } = require('../utils/visitors');
+const { createTestApp, as } = require('./helpers/testApp');
+
+const app = createTestApp();
+app.post('/bookings/:id/visitors', visitorController.addVisitor);
+app.get('/bookings/admin/reception', visitorController.getReceptionList);
+app.post('/bookings/admin/:id/visitors/:visitorId/check-in', visitorController.checkInVisitor);
+
+describe('Visitors', () => {
+  describe('reception day and hosts', () => {
+    const london = { _id: 'r1', name: 'Thames', site: { timezone: 'Europe/London' } };
+    const sydney = { _id: 'r2', name: 'Harbour', site: { timezone: 'Australia/Sydney' } };
+    const visit = (boardroom, startTime, name) => ({
+      _id: name,
+      boardroom,
+      startTime: new Date(startTime),
+      endTime: new Date(new Date(startTime).getTime() + 60 * 60 * 1000),
+      visitors: [{ name }]
+    });
+
+    it('should read the day in each room\'s own timezone', () => {
+      const bookings = [
+        visit(london, '2030-03-04T09:00:00.000Z', 'Ann'),
+        visit(sydney, '2030-03-03T22:00:00.000Z', 'Ben'), // 09:00 on the 4th in Sydney
+        visit(london, '2030-03-03T22:00:00.000Z', 'Cat') // Still the 3rd in London
+      ];
+
+      const rooms = groupVisitorsByRoom(bookings, '2030-03-04');
+
+      expect(rooms.map(room => room.boardroom.name)).toEqual(['Harbour', 'Thames']);
+      expect(rooms[1].visitors.map(entry => entry.visitor.name)).toEqual(['Ann']);
+    });
+
+    it('should notify the organizer when the host has left the booking', () => {
+      const booking = { user: 'organizer', attendees: ['colleague'] };
+
+      expect(getVisitorHost(booking, { host: 'colleague' })).toBe('colleague');
+      expect(getVisitorHost(booking, { host: 'former' })).toBe('organizer');
+    });
+  });
+
+  describe('reception', () => {
+    let organizer;
+    let colleague;
+    let admin;
+    let booking;
+
+    beforeEach(async () => {
+      [organizer, colleague, admin] = await User.insertMany([
+        { name: 'Organizer', email: 'organizer@example.com', password: 'hashed-password' },
+        { name: 'Colleague', email: 'colleague@example.com', password: 'hashed-password' },
+        { name: 'Reception', email: 'reception@example.com', password: 'hashed-password', role: 'admin' }
+      ]);
+      const boardroom = await Boardroom.create({ name: 'Audit Room', capacity: 8, location: 'Floor 3' });
+      booking = await Booking.create({
+        user: organizer._id,
+        boardroom: boardroom._id,
+        startTime: new Date('2030-03-04T08:00:00.000Z'),
+        endTime: new Date('2030-03-04T09:00:00.000Z'),
+        purpose: 'Client review',
+        attendees: [organizer._id, colleague._id]
+      });
+    });
+
+    it('should only take hosts who are on the booking', async () => {
+      const outsider = await User.create({ name: 'Outsider', email: 'outsider@example.com', password: 'hashed-password' });
+
+      const withOutsider = await request(app)
+        .post(`/bookings/${booking._id}/visitors`)
+        .set(as(organizer))
+        .send({ name: 'Dana Client', host: String(outsider._id) });
+      const fromColleague = await request(app)
+        .post(`/bookings/${booking._id}/visitors`)
+        .set(as(colleague))
+        .send({ name: 'Dana Client' });
+
+      expect(withOutsider.status).toBe(400);
+      expect(fromColleague.status).toBe(403);
+    });
+
+    it('should list the day\'s visitors and tell the host when one checks in', async () => {
+      const added = await request(app)
+        .post(`/bookings/${booking._id}/visitors`)
+        .set(as(organizer))
+        .send({ name: 'Dana Client', company: 'Acme', host: String(colleague._id) });
+      expect(added.status).toBe(201);
+
+      const list = await request(app).get('/bookings/admin/reception').set(as(admin, 'admin')).query({ date: '2030-03-04' });
+      expect(list.body).toHaveLength(1);
+      expect(list.body[0].visitors[0].visitor).toMatchObject({ name: 'Dana Client', company: 'Acme', host: { name: 'Colleague' } });
+
+      const visitorId = added.body.visitors[0]._id;
+      const checkIn = await request(app).post(`/bookings/admin/${booking._id}/visitors/${visitorId}/check-in`).set(as(admin, 'admin'));
+      const again = await request(app).post(`/bookings/admin/${booking._id}/visitors/${visitorId}/check-in`).set(as(admin, 'admin'));
+
+      expect(checkIn.status).toBe(200);
+      expect(checkIn.body.visitor.checkedInAt).toBeDefined();
+      expect(again.status).toBe(400);
+
+      const notification = await Notification.findOne({ user: colleague._id });
+      expect(notification.message).toBe('Dana Client (Acme) has arrived at reception for "Client review" in Audit Room');
+      expect(emailService.sendEmail).toHaveBeenCalledWith('colleague@example.com', expect.any(String), expect.any(String));
+    });
+  });
+});
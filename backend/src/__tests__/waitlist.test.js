@@ -0,0 +1,141 @@
+/**
+ * Waitlist Tests
+ * Freed slots go to the queue in join order, as a time-limited claim or booked straight away,
+ * and only when the queued user could have booked the slot themselves
+ */
+
+const request = require('supertest');
+
+jest.mock('node-cron', () => ({
+  schedule: jest.fn()
+}));
+jest.mock('../services/emailService', () => ({
+  sendBookingNotification: jest.fn().mockResolvedValue(true),
+  sendEmail: jest.fn().mockResolvedValue(true)
+}));
+
+const Booking = require('../models/Booking');
+const Boardroom = require('../models/Boardroom');
+const Closure = require('../models/Closure');
+const Notification = require('../models/Notification');
+const User = require('../models/User');
+const WaitlistEntry = require('../models/WaitlistEntry');
+const waitlistService = require('../services/waitlistService');
+const waitlistController = require('../controllers/waitlistController');
+const { createTestApp, as } = require('./helpers/testApp');
+
+// Monday 10:00-11:00 SAST, inside the default working hours
+const START = new Date('2030-03-04T08:00:00.000Z');
+const END = new Date('2030-03-04T09:00:00.000Z');
+const MINUTE = 60 * 1000;
+
+const app = createTestApp();
+app.post('/waitlist', waitlistController.joinWaitlist);
+app.post('/waitlist/:id/claim', waitlistController.claimWaitlistOffer);
+
+describe('Waitlist', () => {
+  let holder;
+  let first;
+  let second;
+  let boardroom;
+  let taken;
+
+  beforeEach(async () => {
+    [holder, first, second] = await User.insertMany([
+      { name: 'Holder', email: 'holder@example.com', password: 'hashed-password' },
+      { name: 'First', email: 'first@example.com', password: 'hashed-password' },
+      { name: 'Second', email: 'second@example.com', password: 'hashed-password' }
+    ]);
+    boardroom = await Boardroom.create({ name: 'Popular Room', capacity: 8, location: 'Floor 4' });
+    taken = await Booking.create({
+      user: holder._id,
+      boardroom: boardroom._id,
+      startTime: START,
+      endTime: END,
+      purpose: 'Already here',
+      attendees: [holder._id]
+    });
+  });
+
+  const join = (user, extra = {}) => request(app)
+    .post('/waitlist')
+    .set(as(user))
+    .send({ boardroom: String(boardroom._id), startTime: START.toISOString(), endTime: END.toISOString(), purpose: 'Planning', ...extra });
+
+  const freeSlot = async () => {
+    await Booking.updateOne({ _id: taken._id }, { status: 'cancelled' });
+    return waitlistService.releaseSlot(taken);
+  };
+
+  it('should offer a freed slot to the first in line and let them claim it', async () => {
+    const joined = await join(first);
+    await join(second);
+    expect(joined.body.position).toBe(1);
+
+    await freeSlot();
+
+    const [offered, waiting] = await WaitlistEntry.find().sort({ createdAt: 1 });
+    expect(offered.status).toBe('offered');
+    expect(offered.offerExpiresAt.getTime()).toBeGreaterThan(Date.now());
+    expect(waiting.status).toBe('waiting');
+
+    const claim = await request(app).post(`/waitlist/${offered._id}/claim`).set(as(first));
+    expect(claim.status).toBe(201);
+    expect(claim.body.booking).toMatchObject({ purpose: 'Planning', status: 'confirmed' });
+    expect((await WaitlistEntry.findById(offered._id)).status).toBe('fulfilled');
+  });
+
+  it('should pass a lapsed offer on to the next person in line', async () => {
+    await join(first);
+    await join(second);
+    await freeSlot();
+    await WaitlistEntry.updateOne({ user: first._id }, { offerExpiresAt: new Date(Date.now() - MINUTE) });
+
+    await waitlistService.expireOffers();
+
+    expect((await WaitlistEntry.findOne({ user: first._id })).status).toBe('expired');
+    expect((await WaitlistEntry.findOne({ user: second._id })).status).toBe('offered');
+    const lapsedClaim = await request(app)
+      .post(`/waitlist/${(await WaitlistEntry.findOne({ user: first._id }))._id}/claim`)
+      .set(as(first));
+    expect(lapsedClaim.status).toBe(404);
+  });
+
+  it('should auto-book rooms that require approval as pending requests', async () => {
+    await Boardroom.updateOne({ _id: boardroom._id }, { requiresApproval: true });
+    await User.create({ name: 'Approver', email: 'approver@example.com', password: 'hashed-password', role: 'admin' });
+    await join(first, { autoBook: true });
+
+    await freeSlot();
+
+    const booking = await Booking.findOne({ user: first._id });
+    expect(booking.status).toBe('pending');
+    const notices = await Notification.find({ booking: booking._id });
+    expect(notices.map(notice => notice.message)).toContain('First requested Popular Room for "Planning". Approval needed');
+  });
+
+  it('should not book or offer a slot the room is closed for', async () => {
+    await join(first, { autoBook: true });
+    await join(second);
+    await Closure.create({ name: 'Shutdown', startTime: new Date(START.getTime() - 60 * MINUTE), endTime: new Date(END.getTime() + 60 * MINUTE) });
+
+    await freeSlot();
+
+    expect(await Booking.countDocuments({ user: first._id })).toBe(0);
+    expect(await WaitlistEntry.countDocuments({ status: 'waiting' })).toBe(2);
+  });
+
+  it('should refuse a claim once maintenance is scheduled over the slot', async () => {
+    await join(first);
+    await freeSlot();
+    await Boardroom.updateOne({ _id: boardroom._id }, {
+      maintenanceWindows: [{ startTime: START, endTime: END, reason: 'Projector repair' }]
+    });
+
+    const entry = await WaitlistEntry.findOne({ user: first._id });
+    const claim = await request(app).post(`/waitlist/${entry._id}/claim`).set(as(first));
+
+    expect(claim.status).toBe(409);
+    expect(await Booking.countDocuments({ user: first._id })).toBe(0);
+  });
+});
@@ -0,0 +1,212 @@
+const Booking = require('../models/Booking');
+const User = require('../models/User');
+const emailService = require('../services/emailService');
+const attachmentStorage = require('../services/attachmentStorage');
+const { ACTIVE_BOOKING_STATUSES, boardroomWithSite } = require('../utils/bookingRules');
+const { canManageBooking } = require('../utils/delegation');
+const { snapshotBooking, recordBookingChanges } = require('../utils/bookingHistory');
+const {
+  MAX_ATTACHMENTS_PER_BOOKING,
+  canViewAttachments,
+  verifyAttachmentToken,
+  canRecipientDownload
+} = require('../utils/bookingAttachments');
+
+const populateBooking = (query) => query
+  .populate('user', 'name email')
+  .populate('attendees', 'name email')
+  .populate(boardroomWithSite('name location'));
+
+const emitBookingUpdated = (req, booking) => {
+  const io = req.app.get('io');
+  if (io) {
+    io.emit('booking-updated', {
+      booking,
+      boardroomId: booking.boardroom._id,
+      changes: { attachmentsChanged: true }
+    });
+  }
+};
+
+// Everyone on the booking except the uploader gets the new files, each link made out to them
+const sendAttachmentNotices = async (booking, attachments, uploader) => {
+  const recipients = [booking.user, ...booking.attendees]
+    .filter((person, index, people) => people.findIndex(other => other._id.equals(person._id)) === index)
+    .filter(person => !person._id.equals(uploader._id));
+
+  try {
+    await Promise.all([...recipients, ...(booking.externalAttendees || [])].map(recipient =>
+      emailService.sendAttachmentNotice(booking, recipient, attachments, uploader)
+    ));
+  } catch (emailError) {
+    console.error('Attachment email failed:', emailError);
+  }
+};
+
+// Stream a stored file back with its original name
+const sendAttachment = async (res, attachment) => {
+  const stream = await attachmentStorage.open(attachment.storageKey);
+  if (!stream) {
+    return res.status(404).json({ message: 'File not found' });
+  }
+
+  res.attachment(attachment.name);
+  res.set({ 'Content-Type': attachment.mimeType, 'Content-Length': attachment.size });
+  stream.on('error', (error) => {
+    console.error('Attachment stream error:', error);
+    res.destroy(error);
+  });
+  stream.pipe(res);
+};
+
+// Attach one or more files to a booking; organizers, their delegates and admins only
+const uploadAttachments = async (req, res) => {
+  const files = req.files || [];
+  const storedKeys = [];
+
+  try {
+    if (files.length === 0) {
+      return res.status(400).json({ message: 'No files provided' });
+    }
+
+    const booking = await populateBooking(Booking.findById(req.params.id));
+    if (!booking) {
+      return res.status(404).json({ message: 'Booking not found' });
+    }
+
+    if (!(await canManageBooking(booking, req.user))) {
+      return res.status(403).json({ message: 'Only the organizer can attach files to this booking' });
+    }
+
+    if (!ACTIVE_BOOKING_STATUSES.includes(booking.status)) {
+      return res.status(400).json({ message: 'Files can only be attached to active bookings' });
+    }
+
+    if (booking.attachments.length + files.length > MAX_ATTACHMENTS_PER_BOOKING) {
+      return res.status(400).json({ message: `A booking can have at most ${MAX_ATTACHMENTS_PER_BOOKING} attachments` });
+    }
+
+    const before = snapshotBooking(booking);
+    for (const file of files) {
+      const storageKey = await attachmentStorage.save(file.buffer);
+      storedKeys.push(storageKey);
+      booking.attachments.push({
+        name: file.originalname,
+        mimeType: file.mimetype,
+        size: file.size,
+        storageKey,
+        uploadedBy: req.user.userId
+      });
+    }
+    booking.modifiedAt = new Date();
+    await booking.save();
+    await recordBookingChanges([{ booking, before }], 'updated', req);
+
+    const uploader = await User.findById(req.user.userId).select('name');
+    await sendAttachmentNotices(booking, booking.attachments.slice(-files.length), uploader);
+    emitBookingUpdated(req, booking);
+
+    res.status(201).json({
+      message: files.length === 1 ? 'File attached' : `${files.length} files attached`,
+      attachments: booking.attachments
+    });
+  } catch (error) {
+    // Files saved before the failure would otherwise be left behind with no booking pointing at them
+    await Promise.all(storedKeys.map(key => attachmentStorage.remove(key).catch(() => {})));
+    console.error('Upload attachments error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Download for signed-in participants, delegates and admins
+const downloadAttachment = async (req, res) => {
+  try {
+    const booking = await Booking.findById(req.params.id).select('user attendees attachments');
+    if (!booking) {
+      return res.status(404).json({ message: 'Booking not found' });
+    }
+
+    if (!(await canViewAttachments(booking, req.user))) {
+      return res.status(403).json({ message: 'Only the organizer, attendees and admins can download attachments' });
+    }
+
+    const attachment = booking.attachments.id(req.params.attachmentId);
+    if (!attachment) {
+      return res.status(404).json({ message: 'Attachment not found' });
+    }
+
+    await sendAttachment(res, attachment);
+  } catch (error) {
+    console.error('Download attachment error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Download through the signed link in an email, for recipients who are not signed in (or have no account)
+const downloadAttachmentByLink = async (req, res) => {
+  try {
+    const claims = verifyAttachmentToken(req.query.token, req.params.id, req.params.attachmentId);
+    if (!claims) {
+      return res.status(403).json({ message: 'This download link is invalid or has expired' });
+    }
+
+    const booking = await Booking.findById(req.params.id).select('user attendees externalAttendees attachments');
+    const attachment = booking && booking.attachments.id(req.params.attachmentId);
+    if (!attachment) {
+      return res.status(404).json({ message: 'Attachment not found' });
+    }
+
+    if (!(await canRecipientDownload(booking, claims.recipient))) {
+      return res.status(403).json({ message: 'You are no longer on this booking' });
+    }
+
+    await sendAttachment(res, attachment);
+  } catch (error) {
+    console.error('Download attachment by link error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+const removeAttachment = async (req, res) => {
+  try {
+    const booking = await populateBooking(Booking.findById(req.params.id));
+    if (!booking) {
+      return res.status(404).json({ message: 'Booking not found' });
+    }
+
+    if (!(await canManageBooking(booking, req.user))) {
+      return res.status(403).json({ message: 'Only the organizer can remove attachments from this booking' });
+    }
+
+    const attachment = booking.attachments.id(req.params.attachmentId);
+    if (!attachment) {
+      return res.status(404).json({ message: 'Attachment not found' });
+    }
+
+    const before = snapshotBooking(booking);
+    attachment.deleteOne();
+    booking.modifiedAt = new Date();
+    await booking.save();
+    await recordBookingChanges([{ booking, before }], 'updated', req);
+
+    // The booking no longer points at the file, so a leftover file is only logged
+    try {
+      await attachmentStorage.remove(attachment.storageKey);
+    } catch (storageError) {
+      console.error('Remove attachment file error:', storageError);
+    }
+
+    emitBookingUpdated(req, booking);
+    res.json({ message: 'Attachment removed', attachments: booking.attachments });
+  } catch (error) {
+    console.error('Remove attachment error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+module.exports = {
+  uploadAttachments,
+  downloadAttachment,
+  downloadAttachmentByLink,
+  removeAttachment
+};
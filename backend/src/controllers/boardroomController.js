@@ -1,9 +1,49 @@
+const moment = require('moment-timezone');
 const Boardroom = require('../models/Boardroom');
+const Site = require('../models/Site');
+const Booking = require('../models/Booking');
+const Closure = require('../models/Closure');
+const Notification = require('../models/Notification');
+const emailService = require('../services/emailService');
+const { resolvePolicy } = require('../utils/bookingPolicy');
+const {
+  ACTIVE_BOOKING_STATUSES,
+  getRoomTimezone,
+  boardroomWithSite,
+  validateBookingWindow,
+  findEquivalentRoom,
+  findConflictingBooking,
+  getBlockedReason,
+  getRoomBuffers,
+  getBufferedRange,
+  getClosureFilter
+} = require('../utils/bookingRules');
+const {
+  MAX_TIMES_PER_ROOM,
+  DEFAULT_RESULT_LIMIT,
+  getCandidateSlots,
+  isSlotFree,
+  matchesLocation,
+  rankMatches
+} = require('../utils/roomFinder');
+const waitlistService = require('../services/waitlistService');
+const { withRoomLocks } = require('../utils/roomLock');
+const { recordBookingHistory } = require('../utils/bookingHistory');
+const { moveServiceRequests } = require('../utils/serviceRequests');
+const { requiresApproval, notifyApprovers } = require('../utils/approvals');
 const { uploadImage, deleteImage, getAuthenticationParameters } = require('../services/imagekitService');
 
+// Rooms are returned with their site's name and timezone so times can be shown in room-local time
+const SITE_SUMMARY = 'name timezone';
+
 const getAllBoardrooms = async (req, res) => {
   try {
-    const boardrooms = await Boardroom.find({ isActive: true }).sort({ name: 1 });
+    const filter = { isActive: true };
+    if (req.query.site) filter.site = req.query.site;
+
+    const boardrooms = await Boardroom.find(filter)
+      .populate('site', SITE_SUMMARY)
+      .sort({ name: 1 });
     res.json(boardrooms);
   } catch (error) {
     console.error('Get boardrooms error:', error);
@@ -13,7 +53,7 @@ const getAllBoardrooms = async (req, res) => {
 
 const getBoardroomById = async (req, res) => {
   try {
-    const boardroom = await Boardroom.findById(req.params.id);
+    const boardroom = await Boardroom.findById(req.params.id).populate('site', SITE_SUMMARY);
     if (!boardroom) {
       return res.status(404).json({ message: 'Boardroom not found' });
     }
@@ -24,18 +64,127 @@ const getBoardroomById = async (req, res) => {
   }
 };
 
+// The policy bookings in this room are checked against, with defaults filled in
+const getBoardroomPolicy = async (req, res) => {
+  try {
+    const boardroom = await Boardroom.findById(req.params.id).populate('site');
+    if (!boardroom) {
+      return res.status(404).json({ message: 'Boardroom not found' });
+    }
+    res.json({ boardroom: boardroom._id, policy: resolvePolicy(boardroom) });
+  } catch (error) {
+    console.error('Get boardroom policy error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// "Find me a room": free room and time combinations for a headcount, amenities and meeting length on
+// one day (each room's own calendar day), optionally within an HH:mm window. Best fits come first.
+const findRooms = async (req, res) => {
+  try {
+    const { date, duration, from, to, location, site } = req.query;
+    const headcount = req.query.attendees || 1;
+    const limit = req.query.limit || DEFAULT_RESULT_LIMIT;
+    const amenities = req.query.amenities
+      ? String(req.query.amenities).split(',').map(amenity => amenity.trim()).filter(Boolean)
+      : [];
+
+    const rooms = await Boardroom.find({
+      isActive: true,
+      capacity: { $gte: headcount },
+      ...(amenities.length > 0 && { amenities: { $all: amenities } }),
+      ...(site && { site })
+    }).populate('site');
+
+    const now = new Date();
+    const matchesPerRoom = await Promise.all(rooms.map(async (room) => {
+      const slots = getCandidateSlots(resolvePolicy(room), date, duration, { from, to }, now);
+      if (slots.length === 0) return [];
+
+      const buffers = getRoomBuffers(room);
+      const { start, end } = getBufferedRange(slots[0].startTime, slots[slots.length - 1].endTime, buffers);
+      const [bookings, closures] = await Promise.all([
+        Booking.find({
+          boardroom: room._id,
+          status: { $in: ACTIVE_BOOKING_STATUSES },
+          startTime: { $lt: end },
+          endTime: { $gt: start }
+        }).select('startTime endTime'),
+        Closure.find({
+          ...getClosureFilter(room.location),
+          startTime: { $lt: end },
+          endTime: { $gt: start }
+        }).select('startTime endTime')
+      ]);
+
+      return slots
+        .filter(slot => isSlotFree(slot, { room, bookings, closures, buffers }))
+        .map(slot => ({
+          room,
+          ...slot,
+          spareSeats: room.capacity - headcount,
+          preferredLocation: matchesLocation(room, location)
+        }));
+    }));
+
+    // Waitlist holds are only checked for the times that make the list
+    const results = [];
+    const timesPerRoom = new Map();
+    for (const match of rankMatches(matchesPerRoom.flat())) {
+      if (results.length >= limit) break;
+
+      const roomId = match.room._id.toString();
+      const taken = timesPerRoom.get(roomId) || 0;
+      if (taken >= MAX_TIMES_PER_ROOM) continue;
+      if (await waitlistService.findActiveHold(match.room._id, match.startTime, match.endTime, req.user.userId)) continue;
+
+      timesPerRoom.set(roomId, taken + 1);
+      results.push({
+        boardroom: {
+          _id: match.room._id,
+          name: match.room.name,
+          location: match.room.location,
+          capacity: match.room.capacity,
+          amenities: match.room.amenities,
+          images: match.room.images,
+          site: match.room.site ? { _id: match.room.site._id, name: match.room.site.name, timezone: match.room.site.timezone } : null
+        },
+        startTime: match.startTime,
+        endTime: match.endTime,
+        spareSeats: match.spareSeats,
+        preferredLocation: match.preferredLocation
+      });
+    }
+
+    res.json({ roomsConsidered: rooms.length, results });
+  } catch (error) {
+    console.error('Find rooms error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
 const createBoardroom = async (req, res) => {
   try {
-    const { name, capacity, location, amenities, description, images } = req.body;
+    const { name, capacity, site, location, amenities, description, images, requiresApproval, bufferBefore, bufferAfter, bookingPolicy } = req.body;
+    if (site && !(await Site.exists({ _id: site }))) {
+      return res.status(400).json({ message: 'Site not found' });
+    }
+
     const boardroom = new Boardroom({ 
       name, 
       capacity, 
+      site: site || undefined,
       location, 
       amenities: amenities || [], 
       description,
-      images: images || []
+      images: images || [],
+      requiresApproval: Boolean(requiresApproval),
+      bufferBefore: bufferBefore || 0,
+      bufferAfter: bufferAfter || 0,
+      bookingPolicy
     });
     await boardroom.save();
+    await boardroom.populate('site', SITE_SUMMARY);
     res.status(201).json(boardroom);
   } catch (error) {
     console.error('Create boardroom error:', error);
@@ -45,12 +194,16 @@ const createBoardroom = async (req, res) => {
 
 const updateBoardroom = async (req, res) => {
   try {
-    const { name, capacity, location, amenities, description, isActive, images } = req.body;
+    const { name, capacity, site, location, amenities, description, isActive, images, requiresApproval, bufferBefore, bufferAfter, bookingPolicy } = req.body;
+    if (site && !(await Site.exists({ _id: site }))) {
+      return res.status(400).json({ message: 'Site not found' });
+    }
+
     const boardroom = await Boardroom.findByIdAndUpdate(
       req.params.id,
-      { name, capacity, location, amenities, description, isActive, images },
+      { name, capacity, site, location, amenities, description, isActive, images, requiresApproval, bufferBefore, bufferAfter, bookingPolicy },
       { new: true, runValidators: true }
-    );
+    ).populate('site', SITE_SUMMARY);
     
     if (!boardroom) {
       return res.status(404).json({ message: 'Boardroom not found' });
@@ -85,7 +238,6 @@ const deleteBoardroom = async (req, res) => {
 const permanentDeleteBoardroom = async (req, res) => {
   try {
     // Check if boardroom has any bookings
-    const Booking = require('../models/Booking');
     const bookingCount = await Booking.countDocuments({ boardroom: req.params.id });
     
     if (bookingCount > 0) {
@@ -110,7 +262,9 @@ const permanentDeleteBoardroom = async (req, res) => {
 
 const getAllBoardroomsAdmin = async (req, res) => {
   try {
-    const boardrooms = await Boardroom.find().sort({ name: 1 });
+    const boardrooms = await Boardroom.find()
+      .populate('site', SITE_SUMMARY)
+      .sort({ name: 1 });
     res.json(boardrooms);
   } catch (error) {
     console.error('Get all boardrooms admin error:', error);
@@ -228,7 +382,174 @@ const getImageKitAuth = async (req, res) => {
   }
 };
 
+// Bookings that would sit inside a maintenance window, each with a room it could move to
+const getMaintenanceImpact = async (boardroom, startTime, endTime) => {
+  const bookings = await Booking.find({
+    boardroom: boardroom._id,
+    status: { $in: ACTIVE_BOOKING_STATUSES },
+    startTime: { $lt: new Date(endTime) },
+    endTime: { $gt: new Date(startTime) }
+  })
+  .populate('user', 'name email role')
+  .populate('attendees', 'name email')
+  .sort({ startTime: 1 });
+
+  return Promise.all(bookings.map(async (booking) => {
+    const room = await findEquivalentRoom(boardroom, booking);
+    return {
+      booking,
+      suggestedRoom: room ? { _id: room._id, name: room.name, location: room.location, capacity: room.capacity } : null
+    };
+  }));
+};
+
+const sendMaintenanceNotice = async (booking, boardroom, window, movedTo) => {
+  const timezone = getRoomTimezone(boardroom);
+  const when = `${moment.tz(booking.startTime, timezone).format('ddd D MMM, HH:mm')} - ${moment.tz(booking.endTime, timezone).format('HH:mm z')}`;
+  const message = movedTo
+    ? `"${booking.purpose}" was moved from ${boardroom.name} to ${movedTo.name} because of scheduled maintenance`
+    : `${boardroom.name} is under maintenance during "${booking.purpose}" (${when}). Please choose another room`;
+  // Everyone on a moved meeting needs the new room; only the organizer can act on an unmoved one
+  const recipients = movedTo
+    ? [booking.user, ...booking.attendees.filter(attendee => attendee._id.toString() !== booking.user._id.toString())]
+    : [booking.user];
+
+  await Notification.insertMany(recipients.map(recipient => ({ user: recipient._id, message, booking: booking._id })));
+
+  const html = `
+    <h2>${movedTo ? 'Your booking has moved' : 'Your room is unavailable'}</h2>
+    <p><strong>Meeting:</strong> ${booking.purpose}</p>
+    <p><strong>Time:</strong> ${when}</p>
+    <p><strong>Room:</strong> ${movedTo ? `${movedTo.name} - ${movedTo.location} (was ${boardroom.name})` : `${boardroom.name} - ${boardroom.location}`}</p>
+    ${window.reason ? `<p><strong>Maintenance:</strong> ${window.reason}</p>` : ''}
+    <p>${movedTo ? 'Your booking details are otherwise unchanged.' : 'Your booking is still in place, but the room cannot be used. Please move or cancel it.'}</p>
+  `;
+
+  try {
+    await Promise.all(recipients.map(recipient => emailService.sendEmail(
+      recipient.email,
+      movedTo ? `Room changed: ${booking.purpose}` : `Room unavailable: ${booking.purpose}`,
+      html,
+      true
+    )));
+  } catch (emailError) {
+    console.error('Maintenance notice email failed:', emailError);
+  }
+};
+
+// Move a booking into the suggested room, unless the room can no longer take it: the checks a new
+// booking gets are repeated with the room locked. In a room that requires approval it waits as pending.
+const moveToRoom = async (booking, suggestedRoom) => {
+  const { locked, result: moved } = await withRoomLocks(suggestedRoom._id, async () => {
+    const room = await Boardroom.findOne({ _id: suggestedRoom._id, isActive: true }).populate('site');
+    if (!room) return false;
+    if (validateBookingWindow(booking.startTime, booking.endTime, room)) return false;
+    if (await getBlockedReason(room, booking.startTime, booking.endTime)) return false;
+    if (await findConflictingBooking(room, booking.startTime, booking.endTime, [booking._id])) return false;
+    if (await waitlistService.findActiveHold(room._id, booking.startTime, booking.endTime, booking.user._id)) return false;
+
+    booking.boardroom = room._id;
+    if (requiresApproval(room, booking.user)) {
+      booking.status = 'pending';
+    }
+    booking.modifiedAt = new Date();
+    await booking.save();
+    return true;
+  });
+  return locked && moved;
+};
+
+// What scheduling maintenance would affect, before anything is saved
+const previewMaintenanceWindow = async (req, res) => {
+  try {
+    const boardroom = await Boardroom.findById(req.params.id).populate('site');
+    if (!boardroom) {
+      return res.status(404).json({ message: 'Boardroom not found' });
+    }
+
+    const affectedBookings = await getMaintenanceImpact(boardroom, req.body.startTime, req.body.endTime);
+    res.json({ affectedBookings });
+  } catch (error) {
+    console.error('Preview maintenance window error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Block part of a room's calendar. action decides what happens to bookings already in the window:
+// 'none' leaves them, 'notify' tells their organizers, 'move' moves each to an equivalent room
+// (organizers of bookings with no free equivalent are notified instead).
+const addMaintenanceWindow = async (req, res) => {
+  try {
+    const { startTime, endTime, reason, action = 'none' } = req.body;
+    const boardroom = await Boardroom.findById(req.params.id).populate('site');
+    if (!boardroom) {
+      return res.status(404).json({ message: 'Boardroom not found' });
+    }
+
+    const impact = await getMaintenanceImpact(boardroom, startTime, endTime);
+
+    boardroom.maintenanceWindows.push({ startTime, endTime, reason, createdBy: req.user.userId });
+    await boardroom.save();
+    const window = boardroom.maintenanceWindows[boardroom.maintenanceWindows.length - 1];
+
+    const results = [];
+    for (const { booking, suggestedRoom } of impact) {
+      const previousStatus = booking.status;
+      if (action === 'move' && suggestedRoom && await moveToRoom(booking, suggestedRoom)) {
+        const changes = [{ field: 'boardroom', from: boardroom._id.toString(), to: suggestedRoom._id.toString() }];
+        if (booking.status !== previousStatus) {
+          changes.push({ field: 'status', from: previousStatus, to: booking.status });
+        }
+        await recordBookingHistory(booking, 'updated', req, {
+          changes,
+          note: `Moved for maintenance${window.reason ? `: ${window.reason}` : ''}`
+        });
+        await moveServiceRequests([{ booking, before: { startTime: booking.startTime, boardroom: boardroom._id.toString() } }]);
+        await sendMaintenanceNotice(booking, boardroom, window, suggestedRoom);
+        if (booking.status === 'pending' && previousStatus !== 'pending') {
+          await notifyApprovers(await Booking.findById(booking._id).populate('user', 'name email').populate(boardroomWithSite('name')));
+        }
+        results.push({ booking: booking._id, outcome: 'moved', movedTo: suggestedRoom });
+      } else if (action === 'move' || action === 'notify') {
+        await sendMaintenanceNotice(booking, boardroom, window, null);
+        results.push({ booking: booking._id, outcome: 'notified' });
+      } else {
+        results.push({ booking: booking._id, outcome: 'unchanged' });
+      }
+    }
+
+    res.status(201).json({ boardroom, maintenanceWindow: window, results });
+  } catch (error) {
+    console.error('Add maintenance window error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+const removeMaintenanceWindow = async (req, res) => {
+  try {
+    const boardroom = await Boardroom.findById(req.params.id);
+    if (!boardroom) {
+      return res.status(404).json({ message: 'Boardroom not found' });
+    }
+
+    const window = boardroom.maintenanceWindows.id(req.params.windowId);
+    if (!window) {
+      return res.status(404).json({ message: 'Maintenance window not found' });
+    }
+
+    window.deleteOne();
+    await boardroom.save();
+    await boardroom.populate('site', SITE_SUMMARY);
+    res.json(boardroom);
+  } catch (error) {
+    console.error('Remove maintenance window error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
 module.exports = {
+  findRooms,
+  getBoardroomPolicy,
   getAllBoardrooms,
   getBoardroomById,
   createBoardroom,
@@ -239,5 +560,8 @@ module.exports = {
   addBoardroomImage,
   removeBoardroomImage,
   uploadBoardroomImage,
-  getImageKitAuth
+  getImageKitAuth,
+  previewMaintenanceWindow,
+  addMaintenanceWindow,
+  removeMaintenanceWindow
 }; 
\ No newline at end of file
@@ -1,22 +1,154 @@
 // backend/src/controllers/bookingController.js (UPDATED WITH EMAIL)
 const Booking = require('../models/Booking');
 const Boardroom = require('../models/Boardroom');
+const Closure = require('../models/Closure');
 const User = require('../models/User');
 const Notification = require('../models/Notification');
+const BookingHistory = require('../models/BookingHistory');
 const emailService = require('../services/emailService');
 const logger = require('../utils/logger');
+const { validateRecurrence, expandRecurrence, describeRecurrence } = require('../utils/recurrence');
+const {
+  ACTIVE_BOOKING_STATUSES,
+  CHECK_IN_OPENS_MINUTES,
+  ADJUST_OPENS_MINUTES,
+  EXTENSION_OPTIONS_MINUTES,
+  getRoomTimezone,
+  boardroomWithSite,
+  validateBookingWindow,
+  getCheckInWindow,
+  isAdjustable,
+  getRoomBuffers,
+  getBufferedRange,
+  findConflictingBooking,
+  getConflictReason,
+  getClosureFilter,
+  findMaintenanceWindow,
+  getBlockedReason,
+  getSeriesScopeFilter,
+  getRoomGroupFilter,
+  isBookingParticipant
+} = require('../utils/bookingRules');
+const { resolvePolicy, getHoursForDay, toMinutes, formatRoomTime, validateEndTimeChange } = require('../utils/bookingPolicy');
+const waitlistService = require('../services/waitlistService');
+const { ROOM_BUSY_MESSAGE, acquireRoomLocks } = require('../utils/roomLock');
+const { checkBookingQuota } = require('../utils/bookingQuota');
+const { getBusyByUser } = require('../utils/freeBusy');
+const {
+  MAX_HISTORY_RESULTS,
+  snapshotBooking,
+  recordBookingHistory,
+  recordBookingChanges,
+  recordStatusChange,
+  labelHistoryChanges
+} = require('../utils/bookingHistory');
+const { removeStoredAttachments } = require('../utils/bookingAttachments');
+const { resolveServiceRequests, createServiceRequests, moveServiceRequests, voidServiceRequests } = require('../utils/serviceRequests');
+const { setBookingAttendees, rsvpLinksHtml } = require('../utils/attendeeResponses');
+const { DELEGATION_REQUIRED_MESSAGE, isDelegateOf, getManagedUserIds, canManageBooking } = require('../utils/delegation');
+const { requiresApproval, notifyApprovers } = require('../utils/approvals');
+const mongoose = require('mongoose');
 const moment = require('moment-timezone');
 
-// Business timezone configuration (SAST - South Africa Standard Time)
-const BUSINESS_TIMEZONE = process.env.BUSINESS_TIMEZONE || 'Africa/Johannesburg';
-const WORKING_HOURS_START = parseInt(process.env.WORKING_HOURS_START) || 7; // 07:00
-const WORKING_HOURS_END = parseInt(process.env.WORKING_HOURS_END) || 16;    // 16:00
+// Handle both old format (array of user IDs) and new format (object with users/external)
+const parseAttendees = (attendees) => {
+  let userAttendees = [];
+  let externalAttendees = [];
+
+  if (attendees) {
+    if (Array.isArray(attendees)) {
+      userAttendees = attendees;
+    } else if (attendees.users || attendees.external) {
+      userAttendees = attendees.users || [];
+      externalAttendees = (attendees.external || []).map(email => ({ email }));
+    }
+  }
+
+  return { userAttendees, externalAttendees };
+};
+
+const WAITLIST_HOLD_MESSAGE = 'This time slot is being held for someone on the waitlist';
+
+// Bookings for the other rooms of a linked multi-room booking, which follow it when it is cancelled or moved
+const findLinkedBookings = async (booking) => (booking.roomGroupId ? Booking.find(getRoomGroupFilter(booking)) : []);
+
+// " and 2 linked rooms" for messages about a linked booking; empty otherwise
+const describeLinkedRooms = (linkedBookings) => (linkedBookings.length > 0
+  ? ` and ${linkedBookings.length} linked room${linkedBookings.length === 1 ? '' : 's'}`
+  : '');
+
+// Names the organizer and the delegate in messages about a booking a delegate made; empty otherwise
+const describeDelegation = (organizer, booker) => (booker ? ` by ${organizer.name} (booked by ${booker.name})` : '');
+const bookedByHtml = (booking) => (booking.bookedBy && booking.bookedBy.name
+  ? `<p><strong>Booked by:</strong> ${booking.bookedBy.name} on behalf of the organizer</p>`
+  : '');
+
+// Check every occurrence of a series against business rules, closures, maintenance, existing bookings
+// and slots held open for the waitlist
+const checkOccurrences = async (boardroom, occurrences, excludeIds = [], userId = null) => {
+  const room = await Boardroom.findById(boardroom._id || boardroom).populate('site');
+  const results = await Promise.all(occurrences.map(async (occurrence) => {
+    const windowError = validateBookingWindow(occurrence.startTime, occurrence.endTime, room);
+    const invalidReason = windowError || await getBlockedReason(room, occurrence.startTime, occurrence.endTime);
+    const conflict = invalidReason
+      ? null
+      : await findConflictingBooking(boardroom, occurrence.startTime, occurrence.endTime, excludeIds);
+    const hold = invalidReason || conflict
+      ? null
+      : await waitlistService.findActiveHold(boardroom, occurrence.startTime, occurrence.endTime, userId);
+
+    return {
+      ...occurrence,
+      available: !invalidReason && !conflict && !hold,
+      reason: invalidReason || (conflict ? getConflictReason(conflict, occurrence.startTime, occurrence.endTime) : null) || (hold ? WAITLIST_HOLD_MESSAGE : null),
+      conflictingBooking: conflict ? {
+        purpose: conflict.purpose,
+        startTime: conflict.startTime,
+        endTime: conflict.endTime
+      } : null
+    };
+  }));
+
+  return {
+    occurrences: results,
+    available: results.filter(result => result.available),
+    conflicts: results.filter(result => !result.available)
+  };
+};
+
+// Check one slot in each room of a linked booking; returns the rooms that cannot take it
+const checkLinkedRooms = async (rooms, slot, excludeIds, organizerId) => {
+  const conflicts = [];
+  for (const room of rooms) {
+    const [roomConflict] = (await checkOccurrences(room._id, [slot], excludeIds, organizerId)).conflicts;
+    const reason = roomConflict
+      ? roomConflict.reason
+      : await checkBookingQuota(organizerId, room, [slot], excludeIds);
+    if (reason) {
+      conflicts.push({
+        boardroom: { _id: room._id, name: room.name },
+        reason,
+        conflictingBooking: roomConflict ? roomConflict.conflictingBooking : null
+      });
+    }
+  }
+  return conflicts;
+};
+
+const describeLinkedConflicts = (conflicts, roomCount) => (conflicts.length === 1
+  ? `${conflicts[0].boardroom.name}: ${conflicts[0].reason}`
+  : `${conflicts.length} of ${roomCount} rooms can't be booked at this time`);
 
 const getUserBookings = async (req, res) => {
   try {
-    const bookings = await Booking.find({ attendees: req.user.userId })
+    // Delegates also see every booking of the people they book for
+    const managedUserIds = await getManagedUserIds(req.user.userId);
+    const bookings = await Booking.find({
+      $or: [{ attendees: req.user.userId }, { user: { $in: managedUserIds } }]
+    })
       .populate('user', 'name email')
-      .populate('boardroom', 'name location capacity amenities')
+      .populate('bookedBy', 'name email')
+      .populate(boardroomWithSite('name location capacity amenities'))
       .populate('attendees', 'name email')
       .sort({ startTime: -1 });
     res.json(bookings);
@@ -36,177 +168,228 @@ const createBooking = async (req, res) => {
   console.log('User:', req.user);
   
   try {
-    const { boardroom, startTime, endTime, purpose, attendees, notes } = req.body;
+    const { boardroom, startTime, endTime, purpose, attendees, notes, recurrence, clientRequestId, onBehalfOf, linkedBoardrooms, serviceRequests } = req.body;
     
     console.log('🎯 IMMEDIATELY after destructuring:');
     console.log('startTime from req.body:', startTime);
     console.log('endTime from req.body:', endTime);
     
-    // Handle both old format (array of strings) and new format (object with users/external)
-    let userAttendees = [];
-    let externalAttendees = [];
-    
-    if (attendees) {
-      if (Array.isArray(attendees)) {
-        // Old format - array of user IDs
-        userAttendees = attendees;
-      } else if (attendees.users || attendees.external) {
-        // New format - object with users and external arrays
-        userAttendees = attendees.users || [];
-        externalAttendees = (attendees.external || []).map(email => ({ email }));
-      }
-    }
+    const { userAttendees, externalAttendees } = parseAttendees(attendees);
     
     // Validate boardroom exists and is active
-    const boardroomExists = await Boardroom.findOne({ _id: boardroom, isActive: true });
+    const boardroomExists = await Boardroom.findOne({ _id: boardroom, isActive: true }).populate('site');
     if (!boardroomExists) {
       return res.status(400).json({ message: 'Boardroom not found or inactive' });
     }
     
-    // Validate time is in future (convert to UTC for comparison)
-    const startTimeUTCForValidation = new Date(startTime);
-    const endTimeUTCForValidation = new Date(endTime);
-    
-    if (startTimeUTCForValidation <= new Date()) {
-      return res.status(400).json({ message: 'Start time must be in the future' });
+    // A delegate books for their principal, who becomes the organizer
+    const organizerId = onBehalfOf ? String(onBehalfOf) : req.user.userId;
+    if (!(await isDelegateOf(req.user.userId, organizerId))) {
+      return res.status(403).json({ message: DELEGATION_REQUIRED_MESSAGE });
     }
+    const bookedBy = organizerId !== req.user.userId ? req.user.userId : undefined;
     
-    // Check same day booking
-    if (startTimeUTCForValidation.toDateString() !== endTimeUTCForValidation.toDateString()) {
-      return res.status(400).json({ message: 'Booking cannot span multiple days' });
+    // Catering and equipment are checked before anything is booked
+    const { services, error: serviceError } = await resolveServiceRequests(serviceRequests, startTime, endTime);
+    if (serviceError) {
+      return res.status(400).json({ message: serviceError });
     }
     
-    // Check working hours in business timezone (SAST)
-    const startTimeInBusiness = moment.utc(startTimeUTCForValidation).tz(BUSINESS_TIMEZONE);
-    const endTimeInBusiness = moment.utc(endTimeUTCForValidation).tz(BUSINESS_TIMEZONE);
-    
-    const startHour = startTimeInBusiness.hour();
-    const endHour = endTimeInBusiness.hour();
-    const endMinutes = endTimeInBusiness.minute();
-    
-    if (startHour < WORKING_HOURS_START || startHour >= WORKING_HOURS_END || 
-        endHour < WORKING_HOURS_START || (endHour >= WORKING_HOURS_END && endMinutes > 0)) {
-      return res.status(400).json({ 
-        message: `Booking must be within working hours (${WORKING_HOURS_START.toString().padStart(2, '0')}:00-${WORKING_HOURS_END.toString().padStart(2, '0')}:00 ${BUSINESS_TIMEZONE.split('/')[1]})` 
-      });
+    // Overflow rooms are booked together with the main room, all or nothing
+    if (linkedBoardrooms && linkedBoardrooms.length > 0) {
+      if (recurrence) {
+        return res.status(400).json({ message: 'Linked rooms cannot be booked as a recurring series' });
+      }
+      return await createLinkedBooking(req, res, { boardroomExists, userAttendees, externalAttendees, organizerId, bookedBy, services });
     }
     
-    // Maximum duration check (8 hours)
-    const durationHours = (endTimeUTCForValidation - startTimeUTCForValidation) / (1000 * 60 * 60);
-    if (durationHours > 8) {
-      return res.status(400).json({ message: 'Maximum booking duration is 8 hours' });
+    // Recurring requests are validated and conflict-checked per occurrence
+    if (recurrence) {
+      return await createRecurringBooking(req, res, { boardroomExists, userAttendees, externalAttendees, organizerId, bookedBy, services });
     }
     
-    // Check for boardroom conflicts
-    const conflict = await Booking.findOne({
-      boardroom,
-      status: 'confirmed',
-      $or: [
-        { 
-          startTime: { $lt: new Date(endTime) }, 
-          endTime: { $gt: new Date(startTime) }
-        }
-      ]
-    });
+    // Add the organizer to user attendees if not already included
+    const allUserAttendees = userAttendees.includes(organizerId) 
+      ? userAttendees 
+      : [...userAttendees, organizerId];
     
-    if (conflict) {
-      return res.status(400).json({ 
-        message: 'Boardroom is already booked for this time slot',
-        conflictingBooking: {
-          purpose: conflict.purpose,
-          startTime: conflict.startTime,
-          endTime: conflict.endTime
-        }
-      });
+    // Hold the room from the checks below until the booking is saved, so a concurrent request
+    // for the same slot waits and then sees this booking as a conflict
+    const releaseRoom = await acquireRoomLocks(boardroom);
+    if (!releaseRoom) {
+      return res.status(409).json({ message: ROOM_BUSY_MESSAGE });
     }
+
+    let booking;
+    try {
+      // A retried request (e.g. an offline sync whose response was lost) gets the booking it already made
+      if (clientRequestId) {
+        const existing = await Booking.findOne({ user: organizerId, clientRequestId });
+        if (existing) {
+          const populatedExisting = await Booking.findById(existing._id)
+            .populate('user', 'name email')
+            .populate('bookedBy', 'name email')
+            .populate(boardroomWithSite('name location capacity amenities'))
+            .populate('attendees', 'name email');
+          return res.status(200).json(populatedExisting);
+        }
+      }
+
+      const windowError = validateBookingWindow(new Date(startTime), new Date(endTime), boardroomExists);
+      if (windowError) {
+        return res.status(400).json({ message: windowError });
+      }
+
+      const blockedReason = await getBlockedReason(boardroomExists, startTime, endTime);
+      if (blockedReason) {
+        return res.status(400).json({ message: blockedReason });
+      }
     
-    // Add the creator to user attendees if not already included
-    const allUserAttendees = userAttendees.includes(req.user.userId) 
-      ? userAttendees 
-      : [...userAttendees, req.user.userId];
+      // Check for boardroom conflicts
+      const conflict = await findConflictingBooking(boardroom, startTime, endTime);
     
-    // Convert times to UTC to ensure consistent storage
-    console.log('📅 About to convert startTime:', startTime, 'Type:', typeof startTime);
-    if (!startTime || !endTime) {
-      console.log('🚨 ERROR: startTime or endTime is missing!');
-      return res.status(400).json({ message: 'startTime and endTime are required' });
-    }
+      if (conflict) {
+        return res.status(400).json({ 
+          message: getConflictReason(conflict, startTime, endTime),
+          conflictingBooking: {
+            purpose: conflict.purpose,
+            startTime: conflict.startTime,
+            endTime: conflict.endTime
+          }
+        });
+      }
     
-    // Validate that the startTime is not the current time (which would indicate a bug)
-    const now = new Date();
-    const userStartTime = new Date(startTime);
-    const timeDiffMinutes = Math.abs(userStartTime.getTime() - now.getTime()) / (1000 * 60);
-    
-    if (timeDiffMinutes < 1) {
-      console.log('🚨 SUSPICIOUS: User startTime is very close to current time');
-      console.log('User startTime:', userStartTime.toISOString());
-      console.log('Current time:', now.toISOString());
-      console.log('Difference (minutes):', timeDiffMinutes);
-      
-      // This might indicate the frontend sent the wrong time, let's reject it
-      return res.status(400).json({ 
-        message: 'Invalid booking time. The selected start time appears to be the current time instead of a future booking slot.',
-        debug: {
-          receivedStartTime: startTime,
-          parsedStartTime: userStartTime.toISOString(),
-          currentTime: now.toISOString(),
-          diffMinutes: timeDiffMinutes
-        }
-      });
-    }
+      const hold = await waitlistService.findActiveHold(boardroom, startTime, endTime, organizerId);
+      if (hold) {
+        return res.status(400).json({ message: WAITLIST_HOLD_MESSAGE, heldUntil: hold.offerExpiresAt });
+      }
+
+      const quotaError = await checkBookingQuota(organizerId, boardroomExists, [{ startTime, endTime }]);
+      if (quotaError) {
+        return res.status(400).json({ message: quotaError, quotaExceeded: true });
+      }
     
-    const startTimeUTC = userStartTime;
-    const endTimeUTC = new Date(endTime);
+      // Convert times to UTC to ensure consistent storage
+      console.log('📅 About to convert startTime:', startTime, 'Type:', typeof startTime);
+      if (!startTime || !endTime) {
+        console.log('🚨 ERROR: startTime or endTime is missing!');
+        return res.status(400).json({ message: 'startTime and endTime are required' });
+      }
     
-    console.log('📅 After conversion and validation:');
-    console.log('startTimeUTC:', startTimeUTC.toISOString());
-    console.log('endTimeUTC:', endTimeUTC.toISOString());
+      // Validate that the startTime is not the current time (which would indicate a bug)
+      const now = new Date();
+      const userStartTime = new Date(startTime);
+      const timeDiffMinutes = Math.abs(userStartTime.getTime() - now.getTime()) / (1000 * 60);
     
-    console.log("=== DEBUGGING BOOKING CREATION ===");
-    console.log("Original start time from frontend:", startTime);
-    console.log("Converted to UTC:", startTimeUTC.toISOString());
-    console.log("Type of startTime:", typeof startTime);
-    console.log("Type of startTimeUTC:", typeof startTimeUTC);
-    console.log("startTimeUTC value:", startTimeUTC);
-    console.log("Current time for comparison:", new Date().toISOString());
+      if (timeDiffMinutes < 1) {
+        console.log('🚨 SUSPICIOUS: User startTime is very close to current time');
+        console.log('User startTime:', userStartTime.toISOString());
+        console.log('Current time:', now.toISOString());
+        console.log('Difference (minutes):', timeDiffMinutes);
+      
+        // This might indicate the frontend sent the wrong time, let's reject it
+        return res.status(400).json({ 
+          message: 'Invalid booking time. The selected start time appears to be the current time instead of a future booking slot.',
+          debug: {
+            receivedStartTime: startTime,
+            parsedStartTime: userStartTime.toISOString(),
+            currentTime: now.toISOString(),
+            diffMinutes: timeDiffMinutes
+          }
+        });
+      }
     
-    const booking = new Booking({
-      user: req.user.userId,
-      boardroom,
-      startTime: startTimeUTC,
-      endTime: endTimeUTC,
-      purpose,
-      attendees: allUserAttendees,
-      externalAttendees: externalAttendees,
-      notes: notes || ''
-    });
+      const startTimeUTC = userStartTime;
+      const endTimeUTC = new Date(endTime);
+    
+      console.log('📅 After conversion and validation:');
+      console.log('startTimeUTC:', startTimeUTC.toISOString());
+      console.log('endTimeUTC:', endTimeUTC.toISOString());
+    
+      console.log("=== DEBUGGING BOOKING CREATION ===");
+      console.log("Original start time from frontend:", startTime);
+      console.log("Converted to UTC:", startTimeUTC.toISOString());
+      console.log("Type of startTime:", typeof startTime);
+      console.log("Type of startTimeUTC:", typeof startTimeUTC);
+      console.log("startTimeUTC value:", startTimeUTC);
+      console.log("Current time for comparison:", new Date().toISOString());
+    
+      booking = new Booking({
+        user: organizerId,
+        bookedBy,
+        boardroom,
+        startTime: startTimeUTC,
+        endTime: endTimeUTC,
+        purpose,
+        attendees: allUserAttendees,
+        externalAttendees: externalAttendees,
+        notes: notes || '',
+        status: requiresApproval(boardroomExists, req.user) ? 'pending' : 'confirmed',
+        clientRequestId
+      });
     
-    await booking.save();
+      await booking.save();
+    } finally {
+      await releaseRoom();
+    }
+    
+    await recordBookingHistory(booking, 'created', req);
+    await createServiceRequests(booking, services, req);
     
     console.log("🚨 AFTER SAVE - What was actually saved:");
     console.log("Saved booking startTime:", booking.startTime.toISOString());
     console.log("Saved booking endTime:", booking.endTime.toISOString());
     console.log("Saved booking createdAt:", booking.createdAt.toISOString());
     
+    // Pending requests hold the slot; attendees are only invited once the booking is approved
+    if (booking.status === 'pending') {
+      const pendingBooking = await Booking.findById(booking._id)
+        .populate('user', 'name email')
+        .populate('bookedBy', 'name email')
+        .populate(boardroomWithSite('name location capacity amenities'))
+        .populate('attendees', 'name email');
+      
+      await notifyApprovers(pendingBooking);
+      
+      const io = req.app.get('io');
+      if (io) {
+        io.emit('booking-created', {
+          booking: pendingBooking,
+          boardroomId: boardroom
+        });
+      }
+      
+      return res.status(201).json(pendingBooking);
+    }
+    
     // Get full user details for email notifications
-    const organizer = await User.findById(req.user.userId);
+    const organizer = await User.findById(organizerId);
+    const booker = bookedBy ? await User.findById(bookedBy).select('name email') : null;
     const attendeeUsers = await User.find({ _id: { $in: allUserAttendees } });
     
-    // Create notifications for user attendees (except creator)
+    // Create notifications for user attendees (except the organizer and whoever made the booking)
     const notificationPromises = allUserAttendees
-      .filter(id => id.toString() !== req.user.userId)
+      .filter(id => id.toString() !== organizerId && id.toString() !== req.user.userId)
       .map(id => Notification.create({
         user: id,
-        message: `You have been invited to "${purpose}" in ${boardroomExists.name}`,
+        message: `You have been invited to "${purpose}" in ${boardroomExists.name}${describeDelegation(organizer, booker)}`,
         booking: booking._id
       }));
+    if (booker) {
+      notificationPromises.push(Notification.create({
+        user: organizerId,
+        message: `${booker.name} booked "${purpose}" in ${boardroomExists.name} on your behalf`,
+        booking: booking._id
+      }));
+    }
     
     await Promise.all(notificationPromises);
     
     // Get populated booking for email
     const populatedBooking = await Booking.findById(booking._id)
       .populate('user', 'name email')
-      .populate('boardroom', 'name location capacity amenities')
+      .populate('bookedBy', 'name email')
+      .populate(boardroomWithSite('name location capacity amenities'))
       .populate('attendees', 'name email');
     
     // Send email notifications
@@ -216,7 +399,7 @@ const createBooking = async (req, res) => {
       
       // Send invitation emails to registered user attendees
       const userEmailPromises = attendeeUsers
-        .filter(user => user._id.toString() !== req.user.userId)
+        .filter(user => user._id.toString() !== organizerId)
         .map(user => emailService.sendBookingNotification(populatedBooking, user, organizer, 'created'));
       
       // Send invitation emails to external attendees
@@ -228,9 +411,11 @@ const createBooking = async (req, res) => {
             <h2>You're invited to a meeting</h2>
             <p><strong>Meeting:</strong> ${purpose}</p>
             <p><strong>Organizer:</strong> ${organizer.name} (${organizer.email})</p>
+            ${bookedByHtml(populatedBooking)}
             <p><strong>Room:</strong> ${boardroomExists.name} - ${boardroomExists.location}</p>
-            <p><strong>Time:</strong> ${new Date(startTime).toLocaleString('en-US', { timeZoneName: 'short' })} - ${new Date(endTime).toLocaleString('en-US', { timeZoneName: 'short' })}</p>
+            <p><strong>Time:</strong> ${formatRoomTime(startTime, boardroomExists)} - ${formatRoomTime(endTime, boardroomExists)}</p>
             ${notes ? `<p><strong>Notes:</strong> ${notes}</p>` : ''}
+            ${rsvpLinksHtml(populatedBooking, external.email)}
             <p>Please contact the organizer if you have any questions.</p>
           `
         };
@@ -263,15 +448,368 @@ const createBooking = async (req, res) => {
   }
 };
 
+// Create every free occurrence of a recurring booking as one linked series.
+// Clashing occurrences are reported back (409) unless the caller opts to skip them.
+const createRecurringBooking = async (req, res, { boardroomExists, userAttendees, externalAttendees, organizerId, bookedBy, services }) => {
+  const { boardroom, startTime, endTime, purpose, notes, recurrence, skipConflicts } = req.body;
+
+  const recurrenceError = validateRecurrence(recurrence);
+  if (recurrenceError) {
+    return res.status(400).json({ message: recurrenceError });
+  }
+
+  const occurrences = expandRecurrence(startTime, endTime, recurrence, getRoomTimezone(boardroomExists));
+
+  const allUserAttendees = userAttendees.includes(organizerId)
+    ? userAttendees
+    : [...userAttendees, organizerId];
+
+  const seriesId = new mongoose.Types.ObjectId();
+  const status = requiresApproval(boardroomExists, req.user) ? 'pending' : 'confirmed';
+
+  // Every occurrence is checked and inserted under the room's lock, like a single booking
+  const releaseRoom = await acquireRoomLocks(boardroom);
+  if (!releaseRoom) {
+    return res.status(409).json({ message: ROOM_BUSY_MESSAGE });
+  }
+
+  let available;
+  let conflicts;
+  let bookings;
+  try {
+    ({ available, conflicts } = await checkOccurrences(boardroom, occurrences, [], organizerId));
+
+    if (conflicts.length > 0 && !skipConflicts) {
+      return res.status(409).json({
+        message: `${conflicts.length} of ${occurrences.length} occurrences clash with existing bookings`,
+        totalOccurrences: occurrences.length,
+        conflicts
+      });
+    }
+
+    if (available.length === 0) {
+      return res.status(400).json({ message: 'None of the occurrences in this series are available' });
+    }
+
+    // Every occurrence counts towards the organizer's quota
+    const quotaError = await checkBookingQuota(organizerId, boardroomExists, available);
+    if (quotaError) {
+      return res.status(400).json({ message: quotaError, quotaExceeded: true });
+    }
+
+    bookings = await Booking.insertMany(available.map(occurrence => ({
+      user: organizerId,
+      bookedBy,
+      boardroom,
+      startTime: occurrence.startTime,
+      endTime: occurrence.endTime,
+      purpose,
+      attendees: allUserAttendees,
+      externalAttendees,
+      notes: notes || '',
+      seriesId,
+      seriesIndex: occurrence.index,
+      recurrence,
+      status
+    })));
+  } finally {
+    await releaseRoom();
+  }
+
+  const populatedBookings = await Booking.find({ seriesId })
+    .populate('user', 'name email')
+    .populate('bookedBy', 'name email')
+    .populate(boardroomWithSite('name location capacity amenities'))
+    .populate('attendees', 'name email')
+    .sort({ startTime: 1 });
+  const firstBooking = populatedBookings[0];
+  const summary = describeRecurrence(recurrence);
+
+  await recordBookingHistory(bookings, 'created', req, { note: `Recurring series: ${summary}` });
+  await createServiceRequests(bookings, services, req);
+
+  // The whole series is reviewed as one request; invitations wait for the approval
+  if (status === 'pending') {
+    await notifyApprovers(firstBooking, bookings.length);
+
+    return res.status(201).json({
+      message: `Requested ${bookings.length} of ${occurrences.length} occurrences. The series is awaiting approval`,
+      seriesId,
+      bookings: populatedBookings,
+      skipped: conflicts
+    });
+  }
+
+  // One notification per attendee for the whole series rather than per occurrence
+  const organizer = await User.findById(organizerId);
+  const booker = firstBooking.bookedBy;
+  await Promise.all([
+    ...allUserAttendees
+      .filter(id => id.toString() !== organizerId && id.toString() !== req.user.userId)
+      .map(id => Notification.create({
+        user: id,
+        message: `You have been invited to recurring meeting "${purpose}" in ${boardroomExists.name} (${summary})${describeDelegation(organizer, booker)}`,
+        booking: firstBooking._id
+      })),
+    ...(booker ? [Notification.create({
+      user: organizerId,
+      message: `${booker.name} booked recurring meeting "${purpose}" in ${boardroomExists.name} (${summary}) on your behalf`,
+      booking: firstBooking._id
+    })] : [])
+  ]);
+
+  try {
+    const attendeeUsers = await User.find({ _id: { $in: allUserAttendees } });
+
+    const userEmailPromises = attendeeUsers
+      .map(user => emailService.sendBookingNotification(firstBooking, user, organizer, 'created'));
+
+    const externalEmailPromises = externalAttendees.map(external => emailService.sendEmail(
+      external.email,
+      `Meeting Invitation: ${purpose}`,
+      `
+        <h2>You're invited to a recurring meeting</h2>
+        <p><strong>Meeting:</strong> ${purpose}</p>
+        <p><strong>Organizer:</strong> ${organizer.name} (${organizer.email})</p>
+        ${bookedByHtml(firstBooking)}
+        <p><strong>Room:</strong> ${boardroomExists.name} - ${boardroomExists.location}</p>
+        <p><strong>First occurrence:</strong> ${formatRoomTime(firstBooking.startTime, boardroomExists)} - ${formatRoomTime(firstBooking.endTime, boardroomExists)}</p>
+        <p><strong>Repeats:</strong> ${summary} (${bookings.length} occurrences)</p>
+        ${notes ? `<p><strong>Notes:</strong> ${notes}</p>` : ''}
+        ${rsvpLinksHtml(firstBooking, external.email, populatedBookings[populatedBookings.length - 1].endTime)}
+        <p>Please contact the organizer if you have any questions.</p>
+      `,
+      true
+    ));
+
+    await Promise.all([...userEmailPromises, ...externalEmailPromises]);
+  } catch (emailError) {
+    console.error('Recurring booking email sending failed:', emailError);
+  }
+
+  const io = req.app.get('io');
+  if (io) {
+    io.emit('booking-created', {
+      booking: firstBooking,
+      boardroomId: boardroom,
+      seriesId,
+      occurrences: bookings.length
+    });
+  }
+
+  res.status(201).json({
+    message: `Created ${bookings.length} of ${occurrences.length} occurrences`,
+    seriesId,
+    bookings: populatedBookings,
+    skipped: conflicts
+  });
+};
+
+// Book a main room and its linked overflow rooms for the same time. Every room is locked and
+// checked before anything is saved, so either all the rooms are booked or none are.
+const createLinkedBooking = async (req, res, { boardroomExists, userAttendees, externalAttendees, organizerId, bookedBy, services }) => {
+  const { linkedBoardrooms, startTime, endTime, purpose, notes, clientRequestId } = req.body;
+
+  const linkedRooms = await Boardroom.find({ _id: { $in: linkedBoardrooms }, isActive: true }).populate('site');
+  if (linkedRooms.length !== linkedBoardrooms.length) {
+    return res.status(400).json({ message: 'Linked boardroom not found or inactive' });
+  }
+  // Main room first, then the overflow rooms in the order they were picked
+  const rooms = [
+    boardroomExists,
+    ...linkedBoardrooms.map(id => linkedRooms.find(room => room._id.toString() === String(id)))
+  ];
+
+  const allUserAttendees = userAttendees.includes(organizerId)
+    ? userAttendees
+    : [...userAttendees, organizerId];
+
+  const roomGroupId = new mongoose.Types.ObjectId();
+  const slot = { startTime: new Date(startTime), endTime: new Date(endTime) };
+  // The rooms are one request, so one approval covers them all
+  const status = rooms.some(room => requiresApproval(room, req.user)) ? 'pending' : 'confirmed';
+
+  const releaseRooms = await acquireRoomLocks(rooms.map(room => room._id));
+  if (!releaseRooms) {
+    return res.status(409).json({ message: ROOM_BUSY_MESSAGE });
+  }
+
+  try {
+    // A retried request gets the rooms it already booked
+    if (clientRequestId) {
+      const existing = await Booking.findOne({ user: organizerId, clientRequestId });
+      if (existing) {
+        const existingBookings = await Booking.find(existing.roomGroupId ? { roomGroupId: existing.roomGroupId } : { _id: existing._id })
+          .populate('user', 'name email')
+          .populate('bookedBy', 'name email')
+          .populate(boardroomWithSite('name location capacity amenities'))
+          .populate('attendees', 'name email')
+          .sort({ roomGroupIndex: 1 });
+        return res.status(200).json({
+          message: `Booked ${existingBookings.length} linked rooms`,
+          roomGroupId: existing.roomGroupId,
+          bookings: existingBookings
+        });
+      }
+    }
+
+    // Each room has its own policy, closures, bookings, waitlist holds and quota
+    const conflicts = await checkLinkedRooms(rooms, slot, [], organizerId);
+    if (conflicts.length > 0) {
+      return res.status(409).json({ message: describeLinkedConflicts(conflicts, rooms.length), conflicts });
+    }
+
+    try {
+      await Booking.insertMany(rooms.map((room, index) => ({
+        user: organizerId,
+        bookedBy,
+        boardroom: room._id,
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+        purpose,
+        attendees: allUserAttendees,
+        externalAttendees,
+        notes: notes || '',
+        roomGroupId,
+        roomGroupIndex: index,
+        status,
+        // The retry key is unique per organizer, so only the main room's booking carries it
+        ...(index === 0 && clientRequestId && { clientRequestId })
+      })));
+    } catch (error) {
+      await Booking.deleteMany({ roomGroupId });
+      throw error;
+    }
+  } finally {
+    await releaseRooms();
+  }
+
+  const populatedBookings = await Booking.find({ roomGroupId })
+    .populate('user', 'name email')
+    .populate('bookedBy', 'name email')
+    .populate(boardroomWithSite('name location capacity amenities'))
+    .populate('attendees', 'name email')
+    .sort({ roomGroupIndex: 1 });
+  const mainBooking = populatedBookings[0];
+  const roomNames = rooms.map(room => room.name).join(', ');
+
+  await recordBookingHistory(populatedBookings, 'created', req, { note: `Linked booking: ${roomNames}` });
+  // Services are delivered to the main room
+  await createServiceRequests(mainBooking, services, req);
+
+  const io = req.app.get('io');
+  if (io) {
+    populatedBookings.forEach(booking => io.emit('booking-created', {
+      booking,
+      boardroomId: booking.boardroom._id,
+      roomGroupId
+    }));
+  }
+
+  // Invitations wait for the approval, as for a single booking
+  if (status === 'pending') {
+    await notifyApprovers(mainBooking);
+
+    return res.status(201).json({
+      message: `Requested ${rooms.length} linked rooms. The booking is awaiting approval`,
+      roomGroupId,
+      bookings: populatedBookings
+    });
+  }
+
+  // One invitation per attendee naming every room
+  const organizer = await User.findById(organizerId);
+  const booker = mainBooking.bookedBy;
+  await Promise.all([
+    ...allUserAttendees
+      .filter(id => id.toString() !== organizerId && id.toString() !== req.user.userId)
+      .map(id => Notification.create({
+        user: id,
+        message: `You have been invited to "${purpose}" in ${roomNames}${describeDelegation(organizer, booker)}`,
+        booking: mainBooking._id
+      })),
+    ...(booker ? [Notification.create({
+      user: organizerId,
+      message: `${booker.name} booked "${purpose}" in ${roomNames} on your behalf`,
+      booking: mainBooking._id
+    })] : [])
+  ]);
+
+  try {
+    const attendeeUsers = await User.find({ _id: { $in: allUserAttendees } });
+
+    const userEmailPromises = attendeeUsers
+      .map(user => emailService.sendBookingNotification(mainBooking, user, organizer, 'created'));
+
+    const externalEmailPromises = externalAttendees.map(external => emailService.sendEmail(
+      external.email,
+      `Meeting Invitation: ${purpose}`,
+      `
+        <h2>You're invited to a meeting</h2>
+        <p><strong>Meeting:</strong> ${purpose}</p>
+        <p><strong>Organizer:</strong> ${organizer.name} (${organizer.email})</p>
+        ${bookedByHtml(mainBooking)}
+        <p><strong>Rooms:</strong> ${rooms.map(room => `${room.name} - ${room.location}`).join('<br>')}</p>
+        <p><strong>Time:</strong> ${formatRoomTime(slot.startTime, boardroomExists)} - ${formatRoomTime(slot.endTime, boardroomExists)}</p>
+        ${notes ? `<p><strong>Notes:</strong> ${notes}</p>` : ''}
+        ${rsvpLinksHtml(mainBooking, external.email)}
+        <p>Please contact the organizer if you have any questions.</p>
+      `,
+      true
+    ));
+
+    await Promise.all([...userEmailPromises, ...externalEmailPromises]);
+  } catch (emailError) {
+    console.error('Linked booking email sending failed:', emailError);
+  }
+
+  res.status(201).json({
+    message: `Booked ${rooms.length} linked rooms`,
+    roomGroupId,
+    bookings: populatedBookings
+  });
+};
+
+// Dry run for the booking form: expand the rule and flag occurrences that cannot be booked
+const previewRecurringBooking = async (req, res) => {
+  try {
+    const { boardroom, startTime, endTime, recurrence } = req.body;
+
+    const recurrenceError = validateRecurrence(recurrence);
+    if (recurrenceError) {
+      return res.status(400).json({ message: recurrenceError });
+    }
+
+    const boardroomExists = await Boardroom.findOne({ _id: boardroom, isActive: true }).populate('site');
+    if (!boardroomExists) {
+      return res.status(400).json({ message: 'Boardroom not found or inactive' });
+    }
+
+    const occurrences = expandRecurrence(startTime, endTime, recurrence, getRoomTimezone(boardroomExists));
+    const result = await checkOccurrences(boardroom, occurrences, [], req.user.userId);
+
+    res.json({
+      summary: describeRecurrence(recurrence),
+      occurrences: result.occurrences,
+      conflicts: result.conflicts
+    });
+  } catch (error) {
+    console.error('Preview recurring booking error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
 const cancelBooking = async (req, res) => {
   try {
+    // Organizers and their delegates can cancel
     const booking = await Booking.findOne({ 
       _id: req.params.id, 
-      user: req.user.userId,
-      status: 'confirmed' 
-    }).populate('boardroom', 'name location')
+      user: { $in: await getManagedUserIds(req.user.userId) },
+      status: { $in: ACTIVE_BOOKING_STATUSES }
+    }).populate(boardroomWithSite('name location'))
       .populate('attendees', 'name email')
-      .populate('user', 'name email');
+      .populate('user', 'name email')
+      .populate('bookedBy', 'name email');
     
     if (!booking) {
       return res.status(404).json({ 
@@ -280,16 +818,50 @@ const cancelBooking = async (req, res) => {
     }
     
     // Update booking status
+    const before = snapshotBooking(booking);
     booking.status = 'cancelled';
     booking.modifiedAt = new Date();
     await booking.save();
+    await recordBookingChanges([{ booking, before }], 'cancelled', req);
+    
+    // Cancelling "this and following" or "the whole series" also cancels the other occurrences
+    const scope = req.body.scope || 'this';
+    const releasedSlots = [booking];
+    if (booking.seriesId && scope !== 'this') {
+      const seriesBookings = await Booking.find(getSeriesScopeFilter(booking, scope))
+        .select('boardroom startTime endTime purpose status');
+      await Booking.updateMany(
+        { _id: { $in: seriesBookings.map(seriesBooking => seriesBooking._id) } },
+        { status: 'cancelled', modifiedAt: new Date() }
+      );
+      await recordStatusChange(seriesBookings, 'cancelled', req, 'cancelled', { note: 'Cancelled with the series' });
+      releasedSlots.push(...seriesBookings);
+    }
+    
+    // Linked rooms are cancelled with the booking
+    const linkedBookings = await findLinkedBookings(booking);
+    if (linkedBookings.length > 0) {
+      await Booking.updateMany(
+        { _id: { $in: linkedBookings.map(linked => linked._id) } },
+        { status: 'cancelled', modifiedAt: new Date() }
+      );
+      await recordStatusChange(linkedBookings, 'cancelled', req, 'cancelled', { note: 'Cancelled with the linked booking' });
+      releasedSlots.push(...linkedBookings);
+    }
+    await voidServiceRequests(releasedSlots, 'The booking was cancelled');
+    const cancelledCount = releasedSlots.length;
+    const seriesCancelled = Boolean(booking.seriesId) && cancelledCount > 1;
+    
+    const cancellationMessage = seriesCancelled
+      ? `${cancelledCount} occurrences of meeting "${booking.purpose}" in ${booking.boardroom.name} have been cancelled`
+      : `Meeting "${booking.purpose}" in ${booking.boardroom.name}${describeLinkedRooms(linkedBookings)} has been cancelled`;
     
     // Create notifications for attendees about cancellation
     const notificationPromises = booking.attendees
       .filter(attendee => attendee._id.toString() !== req.user.userId)
       .map(attendee => Notification.create({
         user: attendee._id,
-        message: `Meeting "${booking.purpose}" in ${booking.boardroom.name} has been cancelled`,
+        message: cancellationMessage,
         booking: booking._id
       }));
     
@@ -311,12 +883,24 @@ const cancelBooking = async (req, res) => {
     if (io) {
       io.emit('booking-cancelled', {
         booking,
-        boardroomId: booking.boardroom._id
+        boardroomId: booking.boardroom._id,
+        seriesId: booking.seriesId,
+        roomGroupId: booking.roomGroupId,
+        cancelledCount
       });
       console.log('🔌 Socket.IO: booking-cancelled event emitted');
     }
     
-    res.json({ message: 'Booking cancelled successfully', booking });
+    // Offer the freed slots to the waitlist
+    for (const slot of releasedSlots) {
+      await waitlistService.releaseSlot(slot, io);
+    }
+    
+    res.json({
+      message: seriesCancelled ? `${cancelledCount} occurrences cancelled successfully` : 'Booking cancelled successfully',
+      booking,
+      cancelledCount
+    });
   } catch (error) {
     console.error('Cancel booking error:', error);
     res.status(500).json({ message: 'Server error' });
@@ -328,8 +912,8 @@ const adminCancelBooking = async (req, res) => {
   try {
     const booking = await Booking.findOne({ 
       _id: req.params.id,
-      status: 'confirmed' 
-    }).populate('boardroom', 'name location')
+      status: { $in: ACTIVE_BOOKING_STATUSES }
+    }).populate(boardroomWithSite('name location'))
       .populate('attendees', 'name email')
       .populate('user', 'name email');
     
@@ -340,9 +924,22 @@ const adminCancelBooking = async (req, res) => {
     }
     
     // Update booking status
+    const before = snapshotBooking(booking);
     booking.status = 'cancelled';
     booking.modifiedAt = new Date();
     await booking.save();
+    await recordBookingChanges([{ booking, before }], 'cancelled', req);
+    
+    const linkedBookings = await findLinkedBookings(booking);
+    if (linkedBookings.length > 0) {
+      await Booking.updateMany(
+        { _id: { $in: linkedBookings.map(linked => linked._id) } },
+        { status: 'cancelled', modifiedAt: new Date() }
+      );
+      await recordStatusChange(linkedBookings, 'cancelled', req, 'cancelled', { note: 'Cancelled with the linked booking' });
+    }
+    await voidServiceRequests([booking, ...linkedBookings], 'The booking was cancelled by an admin');
+    const roomsDescription = `${booking.boardroom.name}${describeLinkedRooms(linkedBookings)}`;
     
     // Create notifications for all attendees about admin cancellation
     const notificationPromises = [];
@@ -352,7 +949,7 @@ const adminCancelBooking = async (req, res) => {
         notificationPromises.push(
           Notification.create({
             user: attendee._id,
-            message: `Meeting "${booking.purpose}" in ${booking.boardroom.name} has been cancelled by admin`,
+            message: `Meeting "${booking.purpose}" in ${roomsDescription} has been cancelled by admin`,
             booking: booking._id
           })
         );
@@ -365,7 +962,7 @@ const adminCancelBooking = async (req, res) => {
       notificationPromises.push(
         Notification.create({
           user: booking.user._id,
-          message: `Your meeting "${booking.purpose}" in ${booking.boardroom.name} has been cancelled by admin`,
+          message: `Your meeting "${booking.purpose}" in ${roomsDescription} has been cancelled by admin`,
           booking: booking._id
         })
       );
@@ -401,11 +998,16 @@ const adminCancelBooking = async (req, res) => {
       io.emit('booking-cancelled', {
         booking,
         boardroomId: booking.boardroom._id,
+        roomGroupId: booking.roomGroupId,
         cancelledBy: 'admin'
       });
       console.log('🔌 Socket.IO: booking-cancelled event emitted (admin)');
     }
     
+    for (const slot of [booking, ...linkedBookings]) {
+      await waitlistService.releaseSlot(slot, io);
+    }
+    
     res.json({ message: 'Booking cancelled successfully by admin', booking });
   } catch (error) {
     console.error('Admin cancel booking error:', error);
@@ -417,7 +1019,7 @@ const adminCancelBooking = async (req, res) => {
 const adminDeleteBooking = async (req, res) => {
   try {
     const booking = await Booking.findById(req.params.id)
-      .populate('boardroom', 'name location')
+      .populate(boardroomWithSite('name location'))
       .populate('attendees', 'name email')
       .populate('user', 'name email');
     
@@ -427,6 +1029,12 @@ const adminDeleteBooking = async (req, res) => {
       });
     }
     
+    // The other rooms of a linked booking are deleted with it
+    const linkedBookings = booking.roomGroupId
+      ? await Booking.find({ roomGroupId: booking.roomGroupId, _id: { $ne: booking._id } })
+      : [];
+    const roomsDescription = `${booking.boardroom.name}${describeLinkedRooms(linkedBookings)}`;
+    
     // Create notifications for all attendees about admin deletion
     const notificationPromises = [];
     
@@ -435,44 +1043,615 @@ const adminDeleteBooking = async (req, res) => {
         notificationPromises.push(
           Notification.create({
             user: attendee._id,
-            message: `Meeting "${booking.purpose}" in ${booking.boardroom.name} has been deleted by admin`,
+            message: `Meeting "${booking.purpose}" in ${roomsDescription} has been deleted by admin`,
             booking: booking._id
           })
         );
       });
     }
-    
-    // Also notify the organizer if they're not in attendees
-    const attendeeIds = booking.attendees ? booking.attendees.map(att => att._id.toString()) : [];
-    if (!attendeeIds.includes(booking.user._id.toString())) {
-      notificationPromises.push(
-        Notification.create({
-          user: booking.user._id,
-          message: `Your meeting "${booking.purpose}" in ${booking.boardroom.name} has been deleted by admin`,
-          booking: booking._id
-        })
-      );
+    
+    // Also notify the organizer if they're not in attendees
+    const attendeeIds = booking.attendees ? booking.attendees.map(att => att._id.toString()) : [];
+    if (!attendeeIds.includes(booking.user._id.toString())) {
+      notificationPromises.push(
+        Notification.create({
+          user: booking.user._id,
+          message: `Your meeting "${booking.purpose}" in ${roomsDescription} has been deleted by admin`,
+          booking: booking._id
+        })
+      );
+    }
+    
+    await Promise.all(notificationPromises);
+    
+    // Delete the booking
+    await Booking.findByIdAndDelete(req.params.id);
+    await Booking.deleteMany({ _id: { $in: linkedBookings.map(linked => linked._id) } });
+    await removeStoredAttachments([booking, ...linkedBookings]);
+    await voidServiceRequests([booking, ...linkedBookings], 'The booking was deleted');
+    await recordBookingHistory(booking, 'deleted', req);
+    await recordBookingHistory(linkedBookings, 'deleted', req, { note: 'Deleted with the linked booking' });
+    
+    // Emit Socket.IO event for real-time updates
+    const io = req.app.get('io');
+    if (io) {
+      io.emit('booking-deleted', {
+        booking,
+        boardroomId: booking.boardroom._id,
+        roomGroupId: booking.roomGroupId,
+        deletedBy: 'admin'
+      });
+      console.log('🔌 Socket.IO: booking-deleted event emitted (admin)');
+    }
+    
+    for (const slot of [booking, ...linkedBookings]) {
+      if (ACTIVE_BOOKING_STATUSES.includes(slot.status)) {
+        await waitlistService.releaseSlot(slot, io);
+      }
+    }
+    
+    res.json({ message: 'Booking deleted successfully by admin', booking });
+  } catch (error) {
+    console.error('Admin delete booking error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Reasons a booking cannot be checked into right now, or null when check-in is allowed
+const getCheckInError = (booking, timezone) => {
+  if (booking.status !== 'confirmed') {
+    return 'Only confirmed bookings can be checked into';
+  }
+  if (booking.checkedInAt) {
+    return 'This booking has already been checked in';
+  }
+
+  const { opensAt, closesAt } = getCheckInWindow(booking);
+  const now = new Date();
+  if (now < opensAt) {
+    return `Check-in opens at ${moment.utc(opensAt).tz(timezone).format('HH:mm')}`;
+  }
+  if (now > closesAt) {
+    return 'The check-in window for this booking has closed';
+  }
+  return null;
+};
+
+// Linked rooms are one meeting, so checking into any of them checks into them all
+const completeCheckIn = async (booking, req) => {
+  const linkedBookings = (await findLinkedBookings(booking))
+    .filter(linked => linked.status === 'confirmed' && !linked.checkedInAt);
+  const checkedInBookings = [booking, ...linkedBookings];
+  const now = new Date();
+  for (const target of checkedInBookings) {
+    target.checkedInAt = now;
+    target.checkedInBy = req.user.userId;
+    target.modifiedAt = now;
+    await target.save();
+  }
+  await recordBookingHistory(checkedInBookings, 'checked_in', req);
+
+  const checkedIn = await Booking.findById(booking._id)
+    .populate('user', 'name email')
+    .populate(boardroomWithSite('name location capacity amenities'))
+    .populate('attendees', 'name email');
+
+  const io = req.app.get('io');
+  if (io) {
+    io.emit('booking-updated', {
+      booking: checkedIn,
+      boardroomId: checkedIn.boardroom._id,
+      roomGroupId: checkedIn.roomGroupId,
+      checkedIn: true
+    });
+  }
+
+  return checkedIn;
+};
+
+// Check in to a booking as its organizer or one of its attendees
+const checkInBooking = async (req, res) => {
+  try {
+    const booking = await Booking.findById(req.params.id);
+    if (!booking) {
+      return res.status(404).json({ message: 'Booking not found' });
+    }
+
+    if (!isBookingParticipant(booking, req.user.userId)) {
+      return res.status(403).json({ message: 'Only the organizer or an attendee can check in' });
+    }
+
+    const room = await Boardroom.findById(booking.boardroom).populate('site', 'timezone');
+    const checkInError = getCheckInError(booking, getRoomTimezone(room));
+    if (checkInError) {
+      return res.status(400).json({ message: checkInError });
+    }
+
+    const checkedIn = await completeCheckIn(booking, req);
+    res.json({ message: 'Checked in successfully', booking: checkedIn });
+  } catch (error) {
+    console.error('Check in booking error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Check in through a room link: finds the user's booking in that room whose window is open
+const checkInToRoom = async (req, res) => {
+  try {
+    const boardroom = await Boardroom.findById(req.params.boardroomId).populate('site', 'timezone');
+    if (!boardroom) {
+      return res.status(404).json({ message: 'Boardroom not found' });
+    }
+
+    const now = new Date();
+    const candidates = await Booking.find({
+      boardroom: boardroom._id,
+      status: 'confirmed',
+      checkedInAt: null,
+      startTime: { $lte: new Date(now.getTime() + CHECK_IN_OPENS_MINUTES * 60 * 1000) },
+      endTime: { $gt: now }
+    }).sort({ startTime: 1 });
+
+    const booking = candidates.find(candidate =>
+      isBookingParticipant(candidate, req.user.userId) && !getCheckInError(candidate, getRoomTimezone(boardroom))
+    );
+    if (!booking) {
+      return res.status(404).json({ message: `You have no booking to check into in ${boardroom.name} right now` });
+    }
+
+    const checkedIn = await completeCheckIn(booking, req);
+    res.json({ message: `Checked in to ${boardroom.name}`, booking: checkedIn });
+  } catch (error) {
+    console.error('Room check in error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Why the caller cannot extend, shorten or end a booking right now, or null when they can
+const getAdjustmentError = async (booking, user) => {
+  if (!booking) {
+    return { status: 404, message: 'Booking not found' };
+  }
+  if (!(await canManageBooking(booking, user))) {
+    return { status: 403, message: 'Only the organizer or their delegates can change this booking' };
+  }
+  if (!isAdjustable(booking)) {
+    return {
+      status: 400,
+      message: `Only bookings that are under way or start within ${ADJUST_OPENS_MINUTES} minutes can be adjusted in place`
+    };
+  }
+  return null;
+};
+
+// Anything that stops the booking running the given number of minutes longer; room needs its site populated
+const getExtensionBlocker = async (booking, room, minutes) => {
+  const newEndTime = new Date(booking.endTime.getTime() + minutes * 60 * 1000);
+
+  const windowError = validateEndTimeChange(booking.startTime, newEndTime, resolvePolicy(room));
+  if (windowError) return windowError;
+
+  const blockedReason = await getBlockedReason(room, booking.endTime, newEndTime);
+  if (blockedReason) return blockedReason;
+
+  const conflict = await findConflictingBooking(room, booking.startTime, newEndTime, [booking._id]);
+  if (conflict) return getConflictReason(conflict, booking.startTime, newEndTime);
+
+  const hold = await waitlistService.findActiveHold(room._id, booking.endTime, newEndTime, booking.user);
+  if (hold) return WAITLIST_HOLD_MESSAGE;
+
+  return checkBookingQuota(booking.user, room, [{ startTime: booking.startTime, endTime: newEndTime }], [booking._id]);
+};
+
+// The booking followed by its linked rooms; quick adjustments change them all together
+const getAdjustmentGroup = async (booking) => [booking, ...await findLinkedBookings(booking)];
+
+// The first room of the group that cannot run the given number of minutes longer, named when there are several
+const getGroupExtensionBlocker = async (group, minutes) => {
+  for (const member of group) {
+    const room = await Boardroom.findById(member.boardroom).populate('site');
+    const reason = await getExtensionBlocker(member, room, minutes);
+    if (reason) return group.length > 1 ? `${room.name}: ${reason}` : reason;
+  }
+  return null;
+};
+
+// Save a new end time for a booking and its linked rooms and tell the other attendees; callers hold the rooms' locks
+const applyEndTime = async (req, group, newEndTime, describeChange) => {
+  const [booking, ...linkedBookings] = group;
+  const changes = [];
+  for (const member of group) {
+    const before = snapshotBooking(member);
+    member.endTime = newEndTime;
+    member.modifiedAt = new Date();
+    await member.save();
+    changes.push({ booking: member, before });
+  }
+  await recordBookingChanges(changes, 'updated', req);
+
+  const adjusted = await Booking.findById(booking._id)
+    .populate('user', 'name email')
+    .populate('bookedBy', 'name email')
+    .populate(boardroomWithSite('name location capacity amenities'))
+    .populate('attendees', 'name email');
+  const endsAt = moment.utc(newEndTime).tz(getRoomTimezone(adjusted.boardroom)).format('HH:mm');
+  const message = `"${adjusted.purpose}" in ${adjusted.boardroom.name}${describeLinkedRooms(linkedBookings)} ${describeChange(endsAt)}`;
+
+  const recipients = new Set([adjusted.user._id.toString(), ...adjusted.attendees.map(attendee => attendee._id.toString())]);
+  recipients.delete(req.user.userId);
+  await Promise.all([...recipients].map(userId => Notification.create({
+    user: userId,
+    message,
+    booking: adjusted._id
+  })));
+
+  const io = req.app.get('io');
+  if (io) {
+    io.emit('booking-updated', {
+      booking: adjusted,
+      boardroomId: adjusted.boardroom._id,
+      roomGroupId: adjusted.roomGroupId,
+      changes: { timeChanged: true }
+    });
+  }
+
+  return { message, booking: adjusted };
+};
+
+// What can be done to a current or imminent booking: each extension with whether the time after it is free
+const getBookingAdjustments = async (req, res) => {
+  try {
+    const booking = await Booking.findById(req.params.id);
+    const adjustmentError = await getAdjustmentError(booking, req.user);
+    if (adjustmentError) {
+      return res.status(adjustmentError.status).json({ message: adjustmentError.message });
+    }
+
+    const group = await getAdjustmentGroup(booking);
+    const extensions = await Promise.all(EXTENSION_OPTIONS_MINUTES.map(async (minutes) => {
+      const reason = await getGroupExtensionBlocker(group, minutes);
+      return {
+        minutes,
+        endTime: new Date(booking.endTime.getTime() + minutes * 60 * 1000),
+        available: !reason,
+        reason
+      };
+    }));
+
+    res.json({
+      startTime: booking.startTime,
+      endTime: booking.endTime,
+      inProgress: booking.startTime <= new Date(),
+      extensions
+    });
+  } catch (error) {
+    console.error('Get booking adjustments error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Run a current or imminent booking longer, as long as its rooms stay free after it
+const extendBooking = async (req, res) => {
+  try {
+    const { minutes } = req.body;
+
+    const booking = await Booking.findById(req.params.id);
+    const adjustmentError = await getAdjustmentError(booking, req.user);
+    if (adjustmentError) {
+      return res.status(adjustmentError.status).json({ message: adjustmentError.message });
+    }
+
+    const group = await getAdjustmentGroup(booking);
+    const releaseRooms = await acquireRoomLocks(group.map(member => member.boardroom));
+    if (!releaseRooms) {
+      return res.status(409).json({ message: ROOM_BUSY_MESSAGE });
+    }
+
+    let result;
+    try {
+      const blocker = await getGroupExtensionBlocker(group, minutes);
+      if (blocker) {
+        return res.status(400).json({ message: blocker });
+      }
+
+      const newEndTime = new Date(booking.endTime.getTime() + minutes * 60 * 1000);
+      result = await applyEndTime(req, group, newEndTime, endsAt => `now runs until ${endsAt}`);
+    } finally {
+      await releaseRooms();
+    }
+
+    res.json(result);
+  } catch (error) {
+    console.error('Extend booking error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Finish a current or imminent booking earlier; the time given back goes to the waitlist
+const shortenBooking = async (req, res) => {
+  try {
+    const { minutes } = req.body;
+
+    const booking = await Booking.findById(req.params.id);
+    const adjustmentError = await getAdjustmentError(booking, req.user);
+    if (adjustmentError) {
+      return res.status(adjustmentError.status).json({ message: adjustmentError.message });
+    }
+
+    const newEndTime = new Date(booking.endTime.getTime() - minutes * 60 * 1000);
+    if (newEndTime <= booking.startTime || newEndTime <= new Date()) {
+      return res.status(400).json({
+        message: booking.startTime <= new Date()
+          ? 'That would end the meeting in the past; end it now instead'
+          : 'That would leave no time in the booking; cancel it instead'
+      });
+    }
+
+    const group = await getAdjustmentGroup(booking);
+    const releaseRooms = await acquireRoomLocks(group.map(member => member.boardroom));
+    if (!releaseRooms) {
+      return res.status(409).json({ message: ROOM_BUSY_MESSAGE });
+    }
+
+    const oldEndTime = booking.endTime;
+    let result;
+    try {
+      result = await applyEndTime(req, group, newEndTime, endsAt => `now ends at ${endsAt}`);
+    } finally {
+      await releaseRooms();
+    }
+
+    // The waitlist takes each room's lock itself to book the time given back
+    for (const member of group) {
+      await waitlistService.releaseSlot({ boardroom: member.boardroom, startTime: newEndTime, endTime: oldEndTime }, req.app.get('io'));
+    }
+    res.json(result);
+  } catch (error) {
+    console.error('Shorten booking error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// End a meeting that is under way and release the rest of its slot
+const endBookingNow = async (req, res) => {
+  try {
+    const booking = await Booking.findById(req.params.id);
+    const adjustmentError = await getAdjustmentError(booking, req.user);
+    if (adjustmentError) {
+      return res.status(adjustmentError.status).json({ message: adjustmentError.message });
+    }
+
+    const now = new Date();
+    if (booking.startTime > now) {
+      return res.status(400).json({ message: 'This meeting has not started yet; cancel it instead' });
+    }
+
+    const group = await getAdjustmentGroup(booking);
+    const releaseRooms = await acquireRoomLocks(group.map(member => member.boardroom));
+    if (!releaseRooms) {
+      return res.status(409).json({ message: ROOM_BUSY_MESSAGE });
+    }
+
+    const oldEndTime = booking.endTime;
+    let result;
+    try {
+      result = await applyEndTime(req, group, now, endsAt => `ended early at ${endsAt}`);
+    } finally {
+      await releaseRooms();
+    }
+
+    for (const member of group) {
+      await waitlistService.releaseSlot({ boardroom: member.boardroom, startTime: now, endTime: oldEndTime }, req.app.get('io'));
+    }
+    res.json(result);
+  } catch (error) {
+    console.error('End booking error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Bookings in rooms that require approval, oldest first
+const getPendingApprovals = async (req, res) => {
+  try {
+    const bookings = await Booking.find({
+      status: 'pending',
+      startTime: { $gt: new Date() }
+    }).populate('user', 'name email department')
+      .populate(boardroomWithSite('name location capacity amenities'))
+      .populate('attendees', 'name email')
+      .sort({ startTime: 1 });
+
+    res.json(bookings);
+  } catch (error) {
+    console.error('Get pending approvals error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// A pending booking on its own, or every pending occurrence of its series when scope is 'series'.
+// Linked rooms are always reviewed together.
+const getApprovalTargets = async (booking, scope) => {
+  if (booking.roomGroupId) {
+    return Booking.find({ roomGroupId: booking.roomGroupId, status: 'pending' });
+  }
+  if (booking.seriesId && scope === 'series') {
+    return Booking.find({ seriesId: booking.seriesId, status: 'pending' });
+  }
+  return [booking];
+};
+
+// "3 occurrences" or "3 linked rooms" for approval messages
+const describeTargetCount = (booking, count) => `${count} ${booking.roomGroupId ? 'linked rooms' : 'occurrences'}`;
+
+// Invitations that were held back while the booking waited for approval.
+// Guests' RSVP links stay valid until `lastEndTime`, the end of the last occurrence of a series.
+const sendBookingInvitations = async (booking, occurrenceCount, lastEndTime = booking.endTime) => {
+  const organizerId = booking.user._id.toString();
+  const what = occurrenceCount > 1
+    ? `recurring meeting "${booking.purpose}" (${describeRecurrence(booking.recurrence)})`
+    : `"${booking.purpose}"`;
+
+  await Promise.all(booking.attendees
+    .filter(attendee => attendee._id.toString() !== organizerId)
+    .map(attendee => Notification.create({
+      user: attendee._id,
+      message: `You have been invited to ${what} in ${booking.boardroom.name}`,
+      booking: booking._id
+    })));
+
+  try {
+    const userEmailPromises = booking.attendees
+      .filter(attendee => attendee._id.toString() !== organizerId)
+      .map(attendee => emailService.sendBookingNotification(booking, attendee, booking.user, 'created'));
+
+    const externalEmailPromises = (booking.externalAttendees || []).map(external => emailService.sendEmail(
+      external.email,
+      `Meeting Invitation: ${booking.purpose}`,
+      `
+        <h2>You're invited to a meeting</h2>
+        <p><strong>Meeting:</strong> ${booking.purpose}</p>
+        <p><strong>Organizer:</strong> ${booking.user.name} (${booking.user.email})</p>
+        <p><strong>Room:</strong> ${booking.boardroom.name} - ${booking.boardroom.location}</p>
+        <p><strong>Time:</strong> ${formatRoomTime(booking.startTime, booking.boardroom)} - ${formatRoomTime(booking.endTime, booking.boardroom)}</p>
+        ${occurrenceCount > 1 ? `<p><strong>Repeats:</strong> ${describeRecurrence(booking.recurrence)} (${occurrenceCount} occurrences)</p>` : ''}
+        ${booking.notes ? `<p><strong>Notes:</strong> ${booking.notes}</p>` : ''}
+        ${rsvpLinksHtml(booking, external.email, lastEndTime)}
+        <p>Please contact the organizer if you have any questions.</p>
+      `,
+      true
+    ));
+
+    await Promise.all([...userEmailPromises, ...externalEmailPromises]);
+  } catch (emailError) {
+    console.error('Invitation email sending failed:', emailError);
+  }
+};
+
+// Approver-only: confirm a pending booking (or its whole series) and invite the attendees
+const approveBooking = async (req, res) => {
+  try {
+    const booking = await Booking.findOne({ _id: req.params.id, status: 'pending' });
+    if (!booking) {
+      return res.status(404).json({ message: 'Pending booking not found' });
+    }
+
+    const targets = await getApprovalTargets(booking, req.body.scope);
+    const reviewedAt = new Date();
+    await Booking.updateMany(
+      { _id: { $in: targets.map(target => target._id) } },
+      { status: 'confirmed', reviewedBy: req.user.userId, reviewedAt, modifiedAt: reviewedAt }
+    );
+    await recordStatusChange(targets, 'approved', req, 'confirmed');
+
+    const approvedBooking = await Booking.findById(booking._id)
+      .populate('user', 'name email')
+      .populate(boardroomWithSite('name location capacity amenities'))
+      .populate('attendees', 'name email');
+    const reviewer = await User.findById(req.user.userId).select('name email');
+
+    await Notification.create({
+      user: approvedBooking.user._id,
+      message: targets.length > 1
+        ? `${describeTargetCount(approvedBooking, targets.length)} for "${approvedBooking.purpose}" have been approved`
+        : `Your booking "${approvedBooking.purpose}" in ${approvedBooking.boardroom.name} has been approved`,
+      booking: approvedBooking._id
+    });
+
+    try {
+      await emailService.sendApprovalDecision(approvedBooking, reviewer, true);
+    } catch (emailError) {
+      console.error('Approval email sending failed:', emailError);
+    }
+
+    const lastEndTime = new Date(Math.max(...targets.map(target => new Date(target.endTime).getTime())));
+    await sendBookingInvitations(approvedBooking, approvedBooking.seriesId ? targets.length : 1, lastEndTime);
+
+    const io = req.app.get('io');
+    if (io) {
+      io.emit('booking-updated', {
+        booking: approvedBooking,
+        boardroomId: approvedBooking.boardroom._id,
+        approval: 'approved',
+        updatedCount: targets.length
+      });
+    }
+
+    res.json({
+      message: targets.length > 1 ? `${describeTargetCount(approvedBooking, targets.length)} approved` : 'Booking approved',
+      booking: approvedBooking,
+      approvedCount: targets.length
+    });
+  } catch (error) {
+    console.error('Approve booking error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Approver-only: reject a pending booking (or its whole series) with a reason and release the room
+const rejectBooking = async (req, res) => {
+  try {
+    const { reason, scope } = req.body;
+
+    const booking = await Booking.findOne({ _id: req.params.id, status: 'pending' });
+    if (!booking) {
+      return res.status(404).json({ message: 'Pending booking not found' });
+    }
+
+    const targets = await getApprovalTargets(booking, scope);
+    const reviewedAt = new Date();
+    await Booking.updateMany(
+      { _id: { $in: targets.map(target => target._id) } },
+      {
+        status: 'rejected',
+        rejectionReason: reason,
+        reviewedBy: req.user.userId,
+        reviewedAt,
+        modifiedAt: reviewedAt
+      }
+    );
+    await recordStatusChange(targets, 'rejected', req, 'rejected', { note: reason });
+    await voidServiceRequests(targets, 'The booking was rejected');
+
+    const rejectedBooking = await Booking.findById(booking._id)
+      .populate('user', 'name email')
+      .populate(boardroomWithSite('name location capacity amenities'))
+      .populate('attendees', 'name email');
+    const reviewer = await User.findById(req.user.userId).select('name email');
+
+    await Notification.create({
+      user: rejectedBooking.user._id,
+      message: `Your booking "${rejectedBooking.purpose}" in ${rejectedBooking.boardroom.name} was rejected: ${reason}`,
+      booking: rejectedBooking._id
+    });
+
+    try {
+      await emailService.sendApprovalDecision(rejectedBooking, reviewer, false);
+    } catch (emailError) {
+      console.error('Rejection email sending failed:', emailError);
     }
-    
-    await Promise.all(notificationPromises);
-    
-    // Delete the booking
-    await Booking.findByIdAndDelete(req.params.id);
-    
-    // Emit Socket.IO event for real-time updates
+
     const io = req.app.get('io');
     if (io) {
-      io.emit('booking-deleted', {
-        booking,
-        boardroomId: booking.boardroom._id,
-        deletedBy: 'admin'
+      io.emit('booking-updated', {
+        booking: rejectedBooking,
+        boardroomId: rejectedBooking.boardroom._id,
+        approval: 'rejected',
+        updatedCount: targets.length
       });
-      console.log('🔌 Socket.IO: booking-deleted event emitted (admin)');
     }
-    
-    res.json({ message: 'Booking deleted successfully by admin', booking });
+
+    // The provisional hold is gone, so the slots can go to the waitlist
+    for (const target of targets) {
+      await waitlistService.releaseSlot(target, io);
+    }
+
+    res.json({
+      message: targets.length > 1 ? `${describeTargetCount(rejectedBooking, targets.length)} rejected` : 'Booking rejected',
+      booking: rejectedBooking,
+      rejectedCount: targets.length
+    });
   } catch (error) {
-    console.error('Admin delete booking error:', error);
+    console.error('Reject booking error:', error);
     res.status(500).json({ message: 'Server error' });
   }
 };
@@ -492,7 +1671,7 @@ const getBoardroomAvailability = async (req, res) => {
 
     const bookings = await Booking.find({
       boardroom: req.params.id,
-      status: 'confirmed',
+      status: { $in: ACTIVE_BOOKING_STATUSES },
       startTime: { $gte: startOfDay, $lte: endOfDay }
     }).sort({ startTime: 1 })
       .populate('user', 'name');
@@ -515,21 +1694,26 @@ const getDetailedAvailability = async (req, res) => {
     }
     
     // Validate boardroom exists and is active
-    const boardroom = await Boardroom.findOne({ _id: boardroomId, isActive: true });
+    const boardroom = await Boardroom.findOne({ _id: boardroomId, isActive: true }).populate('site');
     if (!boardroom) {
       return res.status(404).json({ message: 'Boardroom not found or inactive' });
     }
     
-    let queryDate = date ? new Date(date) : new Date();
-    const startOfDay = new Date(queryDate);
-    startOfDay.setHours(0, 0, 0, 0);
-    const endOfDay = new Date(queryDate);
-    endOfDay.setHours(23, 59, 59, 999);
+    // The requested date is a calendar day in the room's own timezone
+    const roomTimezone = getRoomTimezone(boardroom);
+    const baseBusinessDate = (date ? moment.tz(date, 'YYYY-MM-DD', roomTimezone) : moment.tz(roomTimezone)).startOf('day');
+    const buffers = getRoomBuffers(boardroom);
+    // Bookings just outside the day can still block the edges of it with their buffers
+    const { start: startOfDay, end: endOfDay } = getBufferedRange(
+      baseBusinessDate.toDate(),
+      baseBusinessDate.clone().endOf('day').toDate(),
+      buffers
+    );
     
-    // Get all confirmed bookings for the specified date/boardroom
+    // Get all bookings holding the room (confirmed or awaiting approval) for the specified date/boardroom
     const bookings = await Booking.find({
       boardroom: boardroomId,
-      status: 'confirmed',
+      status: { $in: ACTIVE_BOOKING_STATUSES },
       $or: [
         { 
           startTime: { $gte: startOfDay, $lte: endOfDay } 
@@ -551,82 +1735,125 @@ const getDetailedAvailability = async (req, res) => {
       const requestedStart = new Date(startTime);
       const requestedEnd = new Date(endTime);
       
+      const buffered = getBufferedRange(requestedStart, requestedEnd, buffers);
       const conflict = bookings.find(booking => {
         const bookingStart = new Date(booking.startTime);
         const bookingEnd = new Date(booking.endTime);
         
         return (
-          (requestedStart < bookingEnd && requestedEnd > bookingStart)
+          (buffered.start < bookingEnd && buffered.end > bookingStart)
         );
       });
+      const blockedReason = await getBlockedReason(boardroom, requestedStart, requestedEnd);
+      // The room's hours, durations and slot size, so forms can explain them without a copy of the rules
+      const policyError = validateBookingWindow(requestedStart, requestedEnd, boardroom);
       
       return res.json({
-        available: !conflict,
+        available: !conflict && !blockedReason && !policyError,
         conflictingBooking: conflict || null,
+        blockedByBuffer: conflict ? !(requestedStart < conflict.endTime && requestedEnd > conflict.startTime) : false,
+        blockedReason,
+        policyError,
         allBookings: bookings
       });
     }
     
-    // Generate time slots for the business working day using SAST timezone
+    // Generate time slots across the room's operating hours for the requested weekday
+    const policy = resolvePolicy(boardroom);
     const timeSlots = [];
-    const slotDuration = 30; // 30 minutes
+    const slotDuration = policy.slotMinutes;
     
-    // Create base date in business timezone for the requested day
-    const baseBusinessDate = moment.tz(queryDate, BUSINESS_TIMEZONE);
-    
-    for (let hour = WORKING_HOURS_START; hour < WORKING_HOURS_END; hour++) {
-      for (let minute = 0; minute < 60; minute += slotDuration) {
-        // Create slot times in business timezone
-        const slotStartBusiness = baseBusinessDate.clone().hour(hour).minute(minute).second(0).millisecond(0);
-        const slotEndBusiness = slotStartBusiness.clone().add(slotDuration, 'minutes');
-        
-        // Convert to UTC for storage and API consistency
-        const slotStart = slotStartBusiness.clone().utc().toDate();
-        const slotEnd = slotEndBusiness.clone().utc().toDate();
-        
-        // Skip if slot extends beyond working hours
-        if (slotEndBusiness.hour() > WORKING_HOURS_END || 
-            (slotEndBusiness.hour() === WORKING_HOURS_END && slotEndBusiness.minute() > 0)) {
-          break;
-        }
-        
-        // Skip if slot is in the past
-        if (slotStart < new Date()) {
-          continue;
-        }
-        
-        // Check if slot conflicts with any booking
-        const conflictingBooking = bookings.find(booking => {
-          const bookingStart = new Date(booking.startTime);
-          const bookingEnd = new Date(booking.endTime);
-          
-          return (
-            (slotStart < bookingEnd && slotEnd > bookingStart)
-          );
-        });
-        
+    const hours = getHoursForDay(policy, baseBusinessDate);
+    const openMinute = hours ? toMinutes(hours.open) : 0;
+    const closeMinute = hours ? toMinutes(hours.close) : 0;
+
+    // Holidays and other closures covering any part of the day in this room's location
+    const closures = await Closure.find({
+      ...getClosureFilter(boardroom.location),
+      startTime: { $lt: baseBusinessDate.clone().add(1, 'day').toDate() },
+      endTime: { $gt: baseBusinessDate.toDate() }
+    }).select('name startTime endTime allDay').sort({ startTime: 1 });
+    
+    // Slots outside the lead time and advance window cannot be booked, so they are left out
+    const earliestStart = new Date(Date.now() + policy.minLeadMinutes * 60 * 1000);
+    const latestStart = policy.maxAdvanceDays
+      ? new Date(Date.now() + policy.maxAdvanceDays * 24 * 60 * 60 * 1000)
+      : null;
+    
+    for (let minute = openMinute; minute + slotDuration <= closeMinute; minute += slotDuration) {
+      // Create slot times in business timezone
+      const slotStartBusiness = baseBusinessDate.clone().add(minute, 'minutes');
+      const slotEndBusiness = slotStartBusiness.clone().add(slotDuration, 'minutes');
+      
+      // Convert to UTC for storage and API consistency
+      const slotStart = slotStartBusiness.clone().utc().toDate();
+      const slotEnd = slotEndBusiness.clone().utc().toDate();
+      
+      // Skip if slot is in the past or too soon to book
+      if (slotStart < earliestStart || (latestStart && slotStart > latestStart)) {
+        continue;
+      }
+      
+      const closedFor = closures.find(closure => slotStart < closure.endTime && slotEnd > closure.startTime);
+      const maintenanceFor = closedFor ? null : findMaintenanceWindow(boardroom, slotStart, slotEnd);
+      if (closedFor || maintenanceFor) {
         timeSlots.push({
           startTime: slotStart.toISOString(),
           endTime: slotEnd.toISOString(),
-          available: !conflictingBooking,
-          conflictingBooking: conflictingBooking ? {
-            purpose: conflictingBooking.purpose,
-            organizer: conflictingBooking.user.name,
-            startTime: conflictingBooking.startTime,
-            endTime: conflictingBooking.endTime
-          } : null
+          available: false,
+          blockedByBuffer: false,
+          ...(closedFor && { closure: closedFor.name }),
+          ...(maintenanceFor && { maintenance: maintenanceFor.reason || 'Maintenance' }),
+          conflictingBooking: null
         });
+        continue;
       }
+      
+      // Check if slot conflicts with any booking
+      const bookedBy = bookings.find(booking => {
+        const bookingStart = new Date(booking.startTime);
+        const bookingEnd = new Date(booking.endTime);
+        
+        return (
+          (slotStart < bookingEnd && slotEnd > bookingStart)
+        );
+      });
+      
+      // A slot clear of bookings can still fall in a neighbour's setup or cleanup time
+      const bufferedSlot = getBufferedRange(slotStart, slotEnd, buffers);
+      const bufferedBy = bookedBy ? null : bookings.find(booking =>
+        bufferedSlot.start < new Date(booking.endTime) && bufferedSlot.end > new Date(booking.startTime)
+      );
+      const conflictingBooking = bookedBy || bufferedBy;
+      
+      timeSlots.push({
+        startTime: slotStart.toISOString(),
+        endTime: slotEnd.toISOString(),
+        available: !conflictingBooking,
+        blockedByBuffer: Boolean(bufferedBy),
+        conflictingBooking: conflictingBooking ? {
+          purpose: conflictingBooking.purpose,
+          organizer: conflictingBooking.user.name,
+          startTime: conflictingBooking.startTime,
+          endTime: conflictingBooking.endTime
+        } : null
+      });
     }
     
     res.json({
       boardroom: {
         _id: boardroom._id,
         name: boardroom.name,
+        site: boardroom.site ? { _id: boardroom.site._id, name: boardroom.site.name, timezone: boardroom.site.timezone } : null,
         location: boardroom.location,
-        capacity: boardroom.capacity
+        capacity: boardroom.capacity,
+        bufferBefore: buffers.before,
+        bufferAfter: buffers.after
       },
-      date: queryDate.toISOString().split('T')[0],
+      date: baseBusinessDate.format('YYYY-MM-DD'),
+      policy,
+      closed: !hours,
+      closures,
       timeSlots,
       totalBookings: bookings.length
     });
@@ -636,6 +1863,38 @@ const getDetailedAvailability = async (req, res) => {
   }
 };
 
+// Busy times for colleagues over a window, for the scheduling assistant; no meeting details are shared
+const getFreeBusy = async (req, res) => {
+  try {
+    const userIds = [...new Set(req.query.users.split(','))];
+    const start = new Date(req.query.start);
+    const end = new Date(req.query.end);
+
+    const users = await User.find({ _id: { $in: userIds } }).select('name email');
+    const foundIds = userIds.filter(id => users.some(user => user._id.toString() === id));
+
+    const bookings = await Booking.find({
+      status: { $in: ACTIVE_BOOKING_STATUSES },
+      startTime: { $lt: end },
+      endTime: { $gt: start },
+      $or: [{ user: { $in: foundIds } }, { attendees: { $in: foundIds } }]
+    }).select('user attendees startTime endTime');
+
+    const busyByUser = getBusyByUser(foundIds, bookings, { start, end });
+    res.json({
+      start,
+      end,
+      users: busyByUser.map(entry => ({
+        user: users.find(user => user._id.toString() === entry.user),
+        busy: entry.busy
+      }))
+    });
+  } catch (error) {
+    console.error('Get free/busy error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
 const getAllBookings = async (req, res) => {
   try {
     console.log('getAllBookings called by user:', req.user.userId);
@@ -662,8 +1921,10 @@ const getAllBookings = async (req, res) => {
     
     const bookings = await Booking.find(filter)
       .populate('user', 'name email')
-      .populate('boardroom', 'name location capacity amenities')
+      .populate('bookedBy', 'name email')
+      .populate(boardroomWithSite('name location capacity amenities'))
       .populate('attendees', 'name email')
+      .populate('closureConflict', 'name')
       .sort({ startTime: -1 })
       .limit(limit * 1)
       .skip((page - 1) * limit);
@@ -678,11 +1939,68 @@ const getAllBookings = async (req, res) => {
   }
 };
 
+// A booking's change history, newest first, for its participants, the organizer's delegates and admins.
+// Entries outlive the booking, so admins can still read the history of a deleted one.
+const getBookingHistory = async (req, res) => {
+  try {
+    const booking = await Booking.findById(req.params.id).select('user attendees');
+    if (!booking && req.user.role !== 'admin') {
+      return res.status(404).json({ message: 'Booking not found' });
+    }
+
+    if (booking && !isBookingParticipant(booking, req.user.userId) && !(await canManageBooking(booking, req.user))) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    const entries = await BookingHistory.find({ booking: req.params.id })
+      .populate('actor', 'name email')
+      .sort({ createdAt: -1 });
+    if (!booking && entries.length === 0) {
+      return res.status(404).json({ message: 'Booking not found' });
+    }
+
+    res.json(await labelHistoryChanges(entries));
+  } catch (error) {
+    console.error('Get booking history error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Admin-only: recent history across all bookings, filtered by action, who acted, room, booking or date
+const getHistoryLog = async (req, res) => {
+  try {
+    const { action, actor, actorRole, booking, boardroom, from, to, limit } = req.query;
+
+    const filter = {};
+    if (action) filter.action = action;
+    if (actor) filter.actor = actor;
+    if (actorRole) filter.actorRole = actorRole;
+    if (booking) filter.booking = booking;
+    if (boardroom) filter.boardroom = boardroom;
+    if (from || to) {
+      filter.createdAt = {};
+      if (from) filter.createdAt.$gte = new Date(from);
+      if (to) filter.createdAt.$lte = new Date(to);
+    }
+
+    const entries = await BookingHistory.find(filter)
+      .populate('actor', 'name email')
+      .populate('boardroom', 'name')
+      .sort({ createdAt: -1 })
+      .limit(limit || MAX_HISTORY_RESULTS);
+
+    res.json(await labelHistoryChanges(entries));
+  } catch (error) {
+    console.error('Get history log error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
 const optOutOfBooking = async (req, res) => {
   try {
     const booking = await Booking.findById(req.params.id)
       .populate('user', 'name email')
-      .populate('boardroom', 'name')
+      .populate(boardroomWithSite('name'))
       .populate('attendees', 'name email');
       
     if (!booking) {
@@ -703,16 +2021,21 @@ const optOutOfBooking = async (req, res) => {
     
     // Get user info before removing from attendees
     const optOutUser = await User.findById(req.user.userId);
+    const before = snapshotBooking(booking);
     
     // Remove user from attendees
     booking.attendees = booking.attendees.filter(
       (attendee) => attendee._id.toString() !== req.user.userId
     );
+    booking.attendeeResponses = booking.attendeeResponses.filter(
+      (entry) => entry.user.toString() !== req.user.userId
+    );
     
     // Update modifiedAt timestamp
     booking.modifiedAt = new Date();
     
     await booking.save();
+    await recordBookingChanges([{ booking, before }], 'opted_out', req);
     
     // Notify organizer about opt-out
     await Notification.create({
@@ -733,7 +2056,7 @@ const optOutOfBooking = async (req, res) => {
         
         Meeting: ${booking.purpose}
         Room: ${booking.boardroom.name}
-        Time: ${new Date(booking.startTime).toLocaleString('en-US', { timeZoneName: 'short' })}
+        Time: ${formatRoomTime(booking.startTime, booking.boardroom)}
         
         Please plan accordingly.
         
@@ -755,13 +2078,13 @@ const optOutOfBooking = async (req, res) => {
 const updateBooking = async (req, res) => {
   try {
     const { id } = req.params;
-    const { boardroom, startTime, endTime, purpose, attendees, notes } = req.body;
+    const { boardroom, startTime, endTime, purpose, attendees, notes, scope } = req.body;
     
-    // Find existing booking
+    // Find existing booking; delegates can edit their principals' bookings
     const existingBooking = await Booking.findOne({ 
       _id: id, 
-      user: req.user.userId,
-      status: 'confirmed' 
+      user: { $in: await getManagedUserIds(req.user.userId) },
+      status: { $in: ACTIVE_BOOKING_STATUSES }
     });
     
     if (!existingBooking) {
@@ -770,100 +2093,142 @@ const updateBooking = async (req, res) => {
       });
     }
 
-    // Handle attendees format (same logic as createBooking)
-    let userAttendees = [];
-    let externalAttendees = [];
-    
-    if (attendees) {
-      if (Array.isArray(attendees)) {
-        userAttendees = attendees;
-      } else if (attendees.users || attendees.external) {
-        userAttendees = attendees.users || [];
-        externalAttendees = (attendees.external || []).map(email => ({ email }));
-      }
+    // Edits to "this and following" or "the whole series" fan out to every occurrence
+    if (existingBooking.seriesId && scope && scope !== 'this') {
+      return await updateSeriesBookings(req, res, existingBooking, scope);
     }
+
+    // Linked rooms move and change together
+    if (existingBooking.roomGroupId) {
+      return await updateRoomGroupBookings(req, res, existingBooking);
+    }
+
+    // Handle attendees format (same logic as createBooking)
+    const { userAttendees, externalAttendees } = parseAttendees(attendees);
     
-    // Add the creator to user attendees if not already included
-    const allUserAttendees = userAttendees.includes(req.user.userId) 
+    // Add the organizer to user attendees if not already included
+    const organizerId = existingBooking.user.toString();
+    const allUserAttendees = userAttendees.includes(organizerId) 
       ? userAttendees 
-      : [...userAttendees, req.user.userId];
+      : [...userAttendees, organizerId];
 
     // Validate boardroom exists and is active (if boardroom is being changed)
+    let newBoardroom = null;
     if (boardroom && boardroom !== existingBooking.boardroom.toString()) {
-      const boardroomExists = await Boardroom.findOne({ _id: boardroom, isActive: true });
-      if (!boardroomExists) {
+      newBoardroom = await Boardroom.findOne({ _id: boardroom, isActive: true }).populate('site');
+      if (!newBoardroom) {
         return res.status(400).json({ message: 'Boardroom not found or inactive' });
       }
     }
     
-    // Validate time is in future (if start time is being changed)
-    if (startTime && new Date(startTime) <= new Date()) {
-      return res.status(400).json({ message: 'Start time must be in the future' });
-    }
-    
     // Check for boardroom conflicts (exclude current booking)
     const finalBoardroom = boardroom || existingBooking.boardroom;
     const finalStartTime = startTime || existingBooking.startTime;
     const finalEndTime = endTime || existingBooking.endTime;
     
-    const conflict = await Booking.findOne({
-      _id: { $ne: id }, // Exclude current booking
-      boardroom: finalBoardroom,
-      status: 'confirmed',
-      $or: [
-        { 
-          startTime: { $lt: new Date(finalEndTime) }, 
-          endTime: { $gt: new Date(finalStartTime) }
-        }
-      ]
-    });
-    
-    if (conflict) {
-      return res.status(400).json({ 
-        message: 'Boardroom is already booked for this time slot',
-        conflictingBooking: {
-          purpose: conflict.purpose,
-          startTime: conflict.startTime,
-          endTime: conflict.endTime
-        }
-      });
-    }
-
     // Store old values for comparison
     const oldBoardroom = existingBooking.boardroom;
     const oldStartTime = existingBooking.startTime;
     const oldEndTime = existingBooking.endTime;
     const oldAttendees = existingBooking.attendees;
     const oldExternalAttendees = existingBooking.externalAttendees || [];
+    const oldStatus = existingBooking.status;
+    const before = snapshotBooking(existingBooking);
 
-    // Update booking with proper timezone handling
-    if (boardroom) existingBooking.boardroom = boardroom;
-    if (startTime) {
-      existingBooking.startTime = new Date(startTime);
-      console.log("Updated start time:", startTime, "->", existingBooking.startTime.toISOString());
-    }
-    if (endTime) {
-      existingBooking.endTime = new Date(endTime);
-      console.log("Updated end time:", endTime, "->", existingBooking.endTime.toISOString());
-    }
-    if (purpose) existingBooking.purpose = purpose;
-    if (attendees !== undefined) {
-      existingBooking.attendees = allUserAttendees;
-      existingBooking.externalAttendees = externalAttendees;
+    // Claim the target room for the checks and the save, as createBooking does
+    const releaseRoom = await acquireRoomLocks(finalBoardroom);
+    if (!releaseRoom) {
+      return res.status(409).json({ message: ROOM_BUSY_MESSAGE });
     }
-    if (notes !== undefined) existingBooking.notes = notes;
 
-    // Update modifiedAt timestamp
-    existingBooking.modifiedAt = new Date();
+    try {
+      // A new time or room has to satisfy the target room's booking policy
+      const rescheduled = new Date(finalStartTime).getTime() !== existingBooking.startTime.getTime() ||
+        new Date(finalEndTime).getTime() !== existingBooking.endTime.getTime();
+      if (rescheduled || newBoardroom) {
+        const policyRoom = newBoardroom || await Boardroom.findById(existingBooking.boardroom).populate('site');
+        const windowError = validateBookingWindow(new Date(finalStartTime), new Date(finalEndTime), policyRoom);
+        if (windowError) {
+          return res.status(400).json({ message: windowError });
+        }
+
+        const blockedReason = await getBlockedReason(policyRoom, finalStartTime, finalEndTime);
+        if (blockedReason) {
+          return res.status(400).json({ message: blockedReason });
+        }
+
+        const quotaError = await checkBookingQuota(
+          existingBooking.user,
+          policyRoom,
+          [{ startTime: finalStartTime, endTime: finalEndTime }],
+          [existingBooking._id]
+        );
+        if (quotaError) {
+          return res.status(400).json({ message: quotaError, quotaExceeded: true });
+        }
+      }
+    
+      const conflict = await findConflictingBooking(finalBoardroom, finalStartTime, finalEndTime, [id]);
+    
+      if (conflict) {
+        return res.status(400).json({ 
+          message: getConflictReason(conflict, finalStartTime, finalEndTime),
+          conflictingBooking: {
+            purpose: conflict.purpose,
+            startTime: conflict.startTime,
+            endTime: conflict.endTime
+          }
+        });
+      }
+
+      const hold = await waitlistService.findActiveHold(finalBoardroom, finalStartTime, finalEndTime, organizerId);
+      if (hold) {
+        return res.status(400).json({ message: WAITLIST_HOLD_MESSAGE, heldUntil: hold.offerExpiresAt });
+      }
 
-    await existingBooking.save();
+      // Update booking with proper timezone handling
+      if (boardroom) existingBooking.boardroom = boardroom;
+      // Moving into a room that requires approval sends the booking back for review
+      if (newBoardroom && requiresApproval(newBoardroom, req.user)) {
+        existingBooking.status = 'pending';
+      }
+      if (startTime) {
+        existingBooking.startTime = new Date(startTime);
+        console.log("Updated start time:", startTime, "->", existingBooking.startTime.toISOString());
+      }
+      if (endTime) {
+        existingBooking.endTime = new Date(endTime);
+        console.log("Updated end time:", endTime, "->", existingBooking.endTime.toISOString());
+      }
+      if (purpose) existingBooking.purpose = purpose;
+      if (attendees !== undefined) {
+        setBookingAttendees(existingBooking, allUserAttendees, externalAttendees);
+      }
+      if (notes !== undefined) existingBooking.notes = notes;
+      // The new slot has been checked against closures, so any closure flag no longer applies
+      if (rescheduled || newBoardroom) existingBooking.closureConflict = undefined;
+
+      // Update modifiedAt timestamp
+      existingBooking.modifiedAt = new Date();
+
+      await existingBooking.save();
+    } finally {
+      await releaseRoom();
+    }
+    await recordBookingChanges([{ booking: existingBooking, before }], 'updated', req);
+    await moveServiceRequests([{ booking: existingBooking, before }]);
 
     // Get populated booking for response and emails
     const updatedBooking = await Booking.findById(id)
       .populate('user', 'name email')
-      .populate('boardroom', 'name location capacity amenities')
+      .populate('bookedBy', 'name email')
+      .populate(boardroomWithSite('name location capacity amenities'))
       .populate('attendees', 'name email');
 
+    if (oldStatus !== 'pending' && updatedBooking.status === 'pending') {
+      await notifyApprovers(updatedBooking);
+    }
+
     // Determine what changed for notifications
     const boardroomChanged = boardroom && boardroom !== oldBoardroom.toString();
     const timeChanged = (startTime && startTime !== oldStartTime.toISOString()) || 
@@ -874,7 +2239,7 @@ const updateBooking = async (req, res) => {
     if (boardroomChanged || timeChanged || attendeesChanged) {
       try {
         // Get organizer details
-        const organizer = await User.findById(req.user.userId);
+        const organizer = await User.findById(organizerId);
         const attendeeUsers = await User.find({ _id: { $in: allUserAttendees } });
 
         // Create notifications for user attendees (except creator)
@@ -902,10 +2267,12 @@ const updateBooking = async (req, res) => {
               <h2>Meeting Updated</h2>
               <p><strong>Meeting:</strong> ${updatedBooking.purpose}</p>
               <p><strong>Organizer:</strong> ${organizer.name} (${organizer.email})</p>
+              ${bookedByHtml(updatedBooking)}
               <p><strong>Room:</strong> ${updatedBooking.boardroom.name} - ${updatedBooking.boardroom.location}</p>
-              <p><strong>Time:</strong> ${new Date(updatedBooking.startTime).toLocaleString('en-US', { timeZoneName: 'short' })} - ${new Date(updatedBooking.endTime).toLocaleString('en-US', { timeZoneName: 'short' })}</p>
+              <p><strong>Time:</strong> ${formatRoomTime(updatedBooking.startTime, updatedBooking.boardroom)} - ${formatRoomTime(updatedBooking.endTime, updatedBooking.boardroom)}</p>
               ${updatedBooking.notes ? `<p><strong>Notes:</strong> ${updatedBooking.notes}</p>` : ''}
               <p>The meeting details have been updated. Please check your calendar.</p>
+              ${rsvpLinksHtml(updatedBooking, external.email)}
             `
           };
           return emailService.sendEmail(emailData.to, emailData.subject, emailData.html);
@@ -936,6 +2303,14 @@ const updateBooking = async (req, res) => {
       }
     }
 
+    // Moving the booking frees its previous slot for the waitlist
+    if (boardroomChanged || timeChanged) {
+      await waitlistService.releaseSlot(
+        { boardroom: oldBoardroom, startTime: oldStartTime, endTime: oldEndTime },
+        req.app.get('io')
+      );
+    }
+
     res.json(updatedBooking);
   } catch (error) {
     console.error('Update booking error:', error);
@@ -943,6 +2318,286 @@ const updateBooking = async (req, res) => {
   }
 };
 
+// Apply an edit to "this and following" or the whole series. Time changes are applied
+// as a shift relative to the edited occurrence; nothing is saved if any occurrence clashes.
+const updateSeriesBookings = async (req, res, anchor, scope) => {
+  const { boardroom, startTime, endTime, purpose, attendees, notes } = req.body;
+
+  // Edit forms send the current room back unchanged, so only a different room counts as a move
+  const newBoardroom = boardroom && boardroom !== anchor.boardroom.toString() ? boardroom : null;
+  let needsApproval = false;
+  if (newBoardroom) {
+    const boardroomExists = await Boardroom.findOne({ _id: newBoardroom, isActive: true });
+    if (!boardroomExists) {
+      return res.status(400).json({ message: 'Boardroom not found or inactive' });
+    }
+    needsApproval = requiresApproval(boardroomExists, req.user);
+  }
+
+  const targets = await Booking.find(getSeriesScopeFilter(anchor, scope)).sort({ startTime: 1 });
+  const targetIds = targets.map(target => target._id);
+  const startShift = startTime ? new Date(startTime).getTime() - anchor.startTime.getTime() : 0;
+  const endShift = endTime ? new Date(endTime).getTime() - anchor.endTime.getTime() : 0;
+  const finalBoardroom = newBoardroom || anchor.boardroom;
+  // Occurrences moved to another room on their own stay there unless the edit picks a new room
+  const targetRooms = targets.map(target => String(newBoardroom || target.boardroom));
+  const slotsChanged = Boolean(newBoardroom) || startShift !== 0 || endShift !== 0;
+  const roomIds = [...new Set(targetRooms)];
+
+  const occurrences = targets.map(target => ({
+    index: target.seriesIndex,
+    bookingId: target._id,
+    startTime: new Date(target.startTime.getTime() + startShift),
+    endTime: new Date(target.endTime.getTime() + endShift)
+  }));
+  const { userAttendees, externalAttendees } = parseAttendees(attendees);
+  const organizerId = anchor.user.toString();
+  const allUserAttendees = userAttendees.includes(organizerId)
+    ? userAttendees
+    : [...userAttendees, organizerId];
+
+  const previousSlots = targets.map(target => ({
+    boardroom: target.boardroom,
+    startTime: target.startTime,
+    endTime: target.endTime
+  }));
+  const snapshots = targets.map(snapshotBooking);
+
+  const releaseRoom = await acquireRoomLocks(roomIds);
+  if (!releaseRoom) {
+    return res.status(409).json({ message: ROOM_BUSY_MESSAGE });
+  }
+
+  try {
+    const conflicts = [];
+    for (const roomId of roomIds) {
+      const roomOccurrences = occurrences.filter((occurrence, index) => targetRooms[index] === roomId);
+      conflicts.push(...(await checkOccurrences(roomId, roomOccurrences, targetIds, organizerId)).conflicts);
+    }
+
+    if (conflicts.length > 0) {
+      return res.status(409).json({
+        message: `${conflicts.length} of ${occurrences.length} occurrences clash or break booking rules`,
+        conflicts
+      });
+    }
+
+    if (slotsChanged) {
+      const quotaRoom = await Boardroom.findById(finalBoardroom).populate('site');
+      const quotaError = await checkBookingQuota(anchor.user, quotaRoom, occurrences, targetIds);
+      if (quotaError) {
+        return res.status(400).json({ message: quotaError, quotaExceeded: true });
+      }
+    }
+
+    await Promise.all(targets.map((target, index) => {
+      if (newBoardroom) target.boardroom = newBoardroom;
+      target.startTime = occurrences[index].startTime;
+      target.endTime = occurrences[index].endTime;
+      if (purpose) target.purpose = purpose;
+      if (attendees !== undefined) {
+        setBookingAttendees(target, allUserAttendees, externalAttendees);
+      }
+      if (notes !== undefined) target.notes = notes;
+      if (needsApproval) target.status = 'pending';
+      if (slotsChanged) target.closureConflict = undefined;
+      target.modifiedAt = new Date();
+      return target.save();
+    }));
+  } finally {
+    await releaseRoom();
+  }
+  const changedBookings = targets.map((booking, index) => ({ booking, before: snapshots[index] }));
+  await recordBookingChanges(changedBookings, 'updated', req);
+  await moveServiceRequests(changedBookings);
+
+  const updatedBooking = await Booking.findById(anchor._id)
+    .populate('user', 'name email')
+    .populate('bookedBy', 'name email')
+    .populate(boardroomWithSite('name location capacity amenities'))
+    .populate('attendees', 'name email');
+
+  if (needsApproval) {
+    await notifyApprovers(updatedBooking, targets.length);
+  }
+
+  const recipients = attendees !== undefined
+    ? allUserAttendees
+    : updatedBooking.attendees.map(attendee => attendee._id.toString());
+
+  try {
+    await Promise.all(recipients
+      .filter(id => id.toString() !== req.user.userId)
+      .map(id => Notification.create({
+        user: id,
+        message: `${targets.length} occurrences of "${updatedBooking.purpose}" have been updated`,
+        booking: updatedBooking._id
+      })));
+
+    const organizer = await User.findById(organizerId);
+    const attendeeUsers = await User.find({ _id: { $in: recipients } });
+    await Promise.all(attendeeUsers
+      .filter(user => user._id.toString() !== req.user.userId)
+      .map(user => emailService.sendBookingNotification(updatedBooking, user, organizer, 'updated')));
+  } catch (emailError) {
+    console.error('Series update notification failed:', emailError);
+  }
+
+  const io = req.app.get('io');
+  if (io) {
+    io.emit('booking-updated', {
+      booking: updatedBooking,
+      boardroomId: finalBoardroom,
+      seriesId: anchor.seriesId,
+      scope,
+      updatedCount: targets.length
+    });
+  }
+
+  if (slotsChanged) {
+    for (const slot of previousSlots) {
+      await waitlistService.releaseSlot(slot, io);
+    }
+  }
+
+  res.json(updatedBooking);
+};
+
+// Apply an edit to every room of a linked booking. Times, purpose, attendees and notes are shared;
+// a new boardroom replaces only the edited booking's room. Nothing is saved if any room clashes.
+const updateRoomGroupBookings = async (req, res, anchor) => {
+  const { boardroom, startTime, endTime, purpose, attendees, notes } = req.body;
+
+  const linkedBookings = await findLinkedBookings(anchor);
+  const targets = [anchor, ...linkedBookings];
+  const targetIds = targets.map(target => target._id);
+
+  let newBoardroom = null;
+  if (boardroom && boardroom !== anchor.boardroom.toString()) {
+    if (linkedBookings.some(linked => linked.boardroom.toString() === boardroom)) {
+      return res.status(400).json({ message: 'That room is already part of this booking' });
+    }
+    newBoardroom = await Boardroom.findOne({ _id: boardroom, isActive: true }).populate('site');
+    if (!newBoardroom) {
+      return res.status(400).json({ message: 'Boardroom not found or inactive' });
+    }
+  }
+
+  const slot = {
+    startTime: startTime ? new Date(startTime) : anchor.startTime,
+    endTime: endTime ? new Date(endTime) : anchor.endTime
+  };
+  const rescheduled = slot.startTime.getTime() !== anchor.startTime.getTime() ||
+    slot.endTime.getTime() !== anchor.endTime.getTime();
+  const roomIds = targets.map((target, index) => (index === 0 && newBoardroom ? newBoardroom._id : target.boardroom));
+  const needsApproval = Boolean(newBoardroom) && requiresApproval(newBoardroom, req.user);
+
+  const { userAttendees, externalAttendees } = parseAttendees(attendees);
+  const organizerId = anchor.user.toString();
+  const allUserAttendees = userAttendees.includes(organizerId)
+    ? userAttendees
+    : [...userAttendees, organizerId];
+
+  const previousSlots = targets.map(target => ({
+    boardroom: target.boardroom,
+    startTime: target.startTime,
+    endTime: target.endTime
+  }));
+  const snapshots = targets.map(snapshotBooking);
+
+  const releaseRooms = await acquireRoomLocks(roomIds);
+  if (!releaseRooms) {
+    return res.status(409).json({ message: ROOM_BUSY_MESSAGE });
+  }
+
+  try {
+    // A new time is checked in every room; a swapped room only needs checking itself
+    if (rescheduled || newBoardroom) {
+      const rooms = rescheduled
+        ? await Promise.all(roomIds.map(id => Boardroom.findById(id).populate('site')))
+        : [newBoardroom];
+      const conflicts = await checkLinkedRooms(rooms, slot, targetIds, organizerId);
+      if (conflicts.length > 0) {
+        return res.status(409).json({ message: describeLinkedConflicts(conflicts, rooms.length), conflicts });
+      }
+    }
+
+    await Promise.all(targets.map((target, index) => {
+      const roomChanged = index === 0 && Boolean(newBoardroom);
+      if (roomChanged) target.boardroom = newBoardroom._id;
+      target.startTime = slot.startTime;
+      target.endTime = slot.endTime;
+      if (purpose) target.purpose = purpose;
+      if (attendees !== undefined) {
+        setBookingAttendees(target, allUserAttendees, externalAttendees);
+      }
+      if (notes !== undefined) target.notes = notes;
+      if (roomChanged && needsApproval) target.status = 'pending';
+      if (rescheduled || roomChanged) target.closureConflict = undefined;
+      target.modifiedAt = new Date();
+      return target.save();
+    }));
+  } finally {
+    await releaseRooms();
+  }
+  const changedBookings = targets.map((booking, index) => ({ booking, before: snapshots[index] }));
+  await recordBookingChanges(changedBookings, 'updated', req);
+  await moveServiceRequests(changedBookings);
+
+  const updatedBooking = await Booking.findById(anchor._id)
+    .populate('user', 'name email')
+    .populate('bookedBy', 'name email')
+    .populate(boardroomWithSite('name location capacity amenities'))
+    .populate('attendees', 'name email');
+
+  if (needsApproval) {
+    await notifyApprovers(updatedBooking);
+  }
+
+  const recipients = attendees !== undefined
+    ? allUserAttendees
+    : updatedBooking.attendees.map(attendee => attendee._id.toString());
+
+  try {
+    await Promise.all(recipients
+      .filter(id => id.toString() !== req.user.userId)
+      .map(id => Notification.create({
+        user: id,
+        message: `Meeting "${updatedBooking.purpose}" in ${updatedBooking.boardroom.name}${describeLinkedRooms(linkedBookings)} has been updated`,
+        booking: updatedBooking._id
+      })));
+
+    const organizer = await User.findById(organizerId);
+    const attendeeUsers = await User.find({ _id: { $in: recipients } });
+    await Promise.all(attendeeUsers
+      .filter(user => user._id.toString() !== req.user.userId)
+      .map(user => emailService.sendBookingNotification(updatedBooking, user, organizer, 'updated')));
+  } catch (emailError) {
+    console.error('Linked booking update notification failed:', emailError);
+  }
+
+  const io = req.app.get('io');
+  if (io) {
+    io.emit('booking-updated', {
+      booking: updatedBooking,
+      boardroomId: updatedBooking.boardroom._id,
+      roomGroupId: anchor.roomGroupId,
+      updatedCount: targets.length
+    });
+  }
+
+  // Every room's old slot is free after a move; only the swapped room's after a room change
+  if (rescheduled) {
+    for (const previous of previousSlots) {
+      await waitlistService.releaseSlot(previous, io);
+    }
+  } else if (newBoardroom) {
+    await waitlistService.releaseSlot(previousSlots[0], io);
+  }
+
+  res.json(updatedBooking);
+};
+
 // Smart delete function that handles both admin and user permissions
 const deleteBooking = async (req, res) => {
   try {
@@ -951,7 +2606,7 @@ const deleteBooking = async (req, res) => {
     
     // Find booking with population for notifications
     const booking = await Booking.findById(id)
-      .populate('boardroom', 'name location')
+      .populate(boardroomWithSite('name location'))
       .populate('attendees', 'name email')
       .populate('user', 'name email');
     
@@ -959,13 +2614,19 @@ const deleteBooking = async (req, res) => {
       return res.status(404).json({ message: 'Booking not found' });
     }
     
-    // Check permissions: admin can delete any booking, users can only delete their own
-    if (!isAdmin && booking.user._id.toString() !== req.user.userId) {
+    // Check permissions: admin can delete any booking, users their own and their principals'
+    if (!(await canManageBooking(booking, req.user))) {
       return res.status(403).json({ 
         message: 'You can only delete your own bookings' 
       });
     }
     
+    // The other rooms of a linked booking are deleted with it
+    const linkedBookings = booking.roomGroupId
+      ? await Booking.find({ roomGroupId: booking.roomGroupId, _id: { $ne: booking._id } })
+      : [];
+    const roomsDescription = `${booking.boardroom.name}${describeLinkedRooms(linkedBookings)}`;
+    
     // Create notifications for all attendees about deletion
     const notificationPromises = [];
     
@@ -974,7 +2635,7 @@ const deleteBooking = async (req, res) => {
         notificationPromises.push(
           Notification.create({
             user: attendee._id,
-            message: `Meeting "${booking.purpose}" in ${booking.boardroom.name} has been ${isAdmin ? 'deleted by admin' : 'deleted by organizer'}`,
+            message: `Meeting "${booking.purpose}" in ${roomsDescription} has been ${isAdmin ? 'deleted by admin' : 'deleted by organizer'}`,
             booking: booking._id
           })
         );
@@ -987,7 +2648,7 @@ const deleteBooking = async (req, res) => {
       notificationPromises.push(
         Notification.create({
           user: booking.user._id,
-          message: `Your meeting "${booking.purpose}" in ${booking.boardroom.name} has been deleted by admin`,
+          message: `Your meeting "${booking.purpose}" in ${roomsDescription} has been deleted by admin`,
           booking: booking._id
         })
       );
@@ -997,6 +2658,11 @@ const deleteBooking = async (req, res) => {
     
     // Delete the booking
     await Booking.findByIdAndDelete(id);
+    await Booking.deleteMany({ _id: { $in: linkedBookings.map(linked => linked._id) } });
+    await removeStoredAttachments([booking, ...linkedBookings]);
+    await voidServiceRequests([booking, ...linkedBookings], 'The booking was deleted');
+    await recordBookingHistory(booking, 'deleted', req);
+    await recordBookingHistory(linkedBookings, 'deleted', req, { note: 'Deleted with the linked booking' });
     
     // Emit Socket.IO event for real-time updates
     const io = req.app.get('io');
@@ -1004,11 +2670,18 @@ const deleteBooking = async (req, res) => {
       io.emit('booking-deleted', {
         booking,
         boardroomId: booking.boardroom._id,
+        roomGroupId: booking.roomGroupId,
         deletedBy: isAdmin ? 'admin' : 'user'
       });
       console.log('🔌 Socket.IO: booking-deleted event emitted');
     }
     
+    for (const slot of [booking, ...linkedBookings]) {
+      if (ACTIVE_BOOKING_STATUSES.includes(slot.status)) {
+        await waitlistService.releaseSlot(slot, io);
+      }
+    }
+    
     const message = isAdmin 
       ? 'Booking deleted successfully by admin' 
       : 'Booking deleted successfully';
@@ -1023,13 +2696,26 @@ const deleteBooking = async (req, res) => {
 module.exports = {
   getUserBookings,
   createBooking,
+  previewRecurringBooking,
   updateBooking,
   cancelBooking,
   deleteBooking,
   adminCancelBooking,
   adminDeleteBooking,
+  checkInBooking,
+  checkInToRoom,
+  getBookingAdjustments,
+  extendBooking,
+  shortenBooking,
+  endBookingNow,
+  getPendingApprovals,
+  approveBooking,
+  rejectBooking,
   getBoardroomAvailability,
   getDetailedAvailability,
+  getFreeBusy,
   getAllBookings,
+  getBookingHistory,
+  getHistoryLog,
   optOutOfBooking
 };
\ No newline at end of file
@@ -0,0 +1,163 @@
+const moment = require('moment-timezone');
+const Closure = require('../models/Closure');
+const Booking = require('../models/Booking');
+const Boardroom = require('../models/Boardroom');
+const User = require('../models/User');
+const Notification = require('../models/Notification');
+const { BUSINESS_TIMEZONE, ACTIVE_BOOKING_STATUSES, boardroomWithSite } = require('../utils/bookingRules');
+
+// Full-day closures cover business-local midnight on startDate to midnight after endDate
+const getClosureRange = ({ allDay, startDate, endDate, startTime, endTime }) => {
+  if (allDay === false) {
+    return { startTime: new Date(startTime), endTime: new Date(endTime) };
+  }
+  return {
+    startTime: moment.tz(startDate, BUSINESS_TIMEZONE).startOf('day').toDate(),
+    endTime: moment.tz(endDate || startDate, BUSINESS_TIMEZONE).startOf('day').add(1, 'day').toDate()
+  };
+};
+
+// Flag every active booking that now falls inside the closure and tell the admins about them.
+// Flags from an earlier version of the closure are cleared first so edits re-evaluate cleanly.
+const flagAffectedBookings = async (closure) => {
+  await Booking.updateMany({ closureConflict: closure._id }, { $unset: { closureConflict: 1 } });
+
+  const rooms = await Boardroom.find(
+    closure.locations.length > 0 ? { location: { $in: closure.locations } } : {}
+  ).select('_id');
+
+  const affected = await Booking.find({
+    boardroom: { $in: rooms.map(room => room._id) },
+    status: { $in: ACTIVE_BOOKING_STATUSES },
+    startTime: { $lt: closure.endTime },
+    endTime: { $gt: closure.startTime }
+  })
+  .populate('user', 'name email')
+  .populate(boardroomWithSite('name location'))
+  .sort({ startTime: 1 });
+
+  if (affected.length === 0) {
+    return affected;
+  }
+
+  await Booking.updateMany(
+    { _id: { $in: affected.map(booking => booking._id) } },
+    { closureConflict: closure._id }
+  );
+
+  const admins = await User.find({ role: 'admin' }).select('_id');
+  await Promise.all(admins.map(admin => Notification.create({
+    user: admin._id,
+    message: `The "${closure.name}" closure overlaps ${affected.length} existing booking${affected.length === 1 ? '' : 's'} that need review`
+  })));
+
+  return affected;
+};
+
+// Closures overlapping a date range, for calendars and the admin list
+const getClosures = async (req, res) => {
+  try {
+    const { startDate, endDate, location } = req.query;
+
+    const filter = {};
+    if (startDate) filter.endTime = { $gt: new Date(startDate) };
+    if (endDate) filter.startTime = { $lt: new Date(endDate) };
+    if (location) filter.$or = [{ locations: { $size: 0 } }, { locations: location }];
+
+    const closures = await Closure.find(filter)
+      .populate('createdBy', 'name')
+      .sort({ startTime: 1 });
+    res.json(closures);
+  } catch (error) {
+    console.error('Get closures error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+const createClosure = async (req, res) => {
+  try {
+    const { name, allDay, locations } = req.body;
+
+    const closure = await Closure.create({
+      name,
+      ...getClosureRange(req.body),
+      allDay: allDay !== false,
+      locations: locations || [],
+      createdBy: req.user.userId
+    });
+
+    const affectedBookings = await flagAffectedBookings(closure);
+    res.status(201).json({ closure, affectedBookings });
+  } catch (error) {
+    console.error('Create closure error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+const updateClosure = async (req, res) => {
+  try {
+    const { name, allDay, locations } = req.body;
+
+    const closure = await Closure.findByIdAndUpdate(
+      req.params.id,
+      {
+        name,
+        ...getClosureRange(req.body),
+        allDay: allDay !== false,
+        locations: locations || []
+      },
+      { new: true, runValidators: true }
+    );
+
+    if (!closure) {
+      return res.status(404).json({ message: 'Closure not found' });
+    }
+
+    const affectedBookings = await flagAffectedBookings(closure);
+    res.json({ closure, affectedBookings });
+  } catch (error) {
+    console.error('Update closure error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+const deleteClosure = async (req, res) => {
+  try {
+    const closure = await Closure.findByIdAndDelete(req.params.id);
+    if (!closure) {
+      return res.status(404).json({ message: 'Closure not found' });
+    }
+
+    await Booking.updateMany({ closureConflict: closure._id }, { $unset: { closureConflict: 1 } });
+    res.json({ message: 'Closure deleted' });
+  } catch (error) {
+    console.error('Delete closure error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Bookings still flagged against a closure; moving one clears its flag and cancelled ones drop out
+const getClosureAffectedBookings = async (req, res) => {
+  try {
+    const bookings = await Booking.find({
+      closureConflict: req.params.id,
+      status: { $in: ACTIVE_BOOKING_STATUSES }
+    })
+    .populate('user', 'name email')
+    .populate(boardroomWithSite('name location'))
+    .sort({ startTime: 1 });
+
+    res.json(bookings);
+  } catch (error) {
+    console.error('Get closure affected bookings error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+module.exports = {
+  getClosures,
+  createClosure,
+  updateClosure,
+  deleteClosure,
+  getClosureAffectedBookings
+};
@@ -0,0 +1,87 @@
+const Delegation = require('../models/Delegation');
+const User = require('../models/User');
+const Notification = require('../models/Notification');
+
+// Who the caller has made a delegate, and who they can book for
+const getMyDelegations = async (req, res) => {
+  try {
+    const [granted, received] = await Promise.all([
+      Delegation.find({ principal: req.user.userId })
+        .populate('delegate', 'name email department')
+        .sort({ createdAt: 1 }),
+      Delegation.find({ delegate: req.user.userId })
+        .populate('principal', 'name email department')
+        .sort({ createdAt: 1 })
+    ]);
+
+    // Skip grants whose other user has since been deleted
+    res.json({
+      granted: granted.filter(delegation => delegation.delegate),
+      received: received.filter(delegation => delegation.principal)
+    });
+  } catch (error) {
+    console.error('Get delegations error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Let another user book, edit and cancel on the caller's behalf
+const grantDelegation = async (req, res) => {
+  try {
+    const { delegate } = req.body;
+
+    if (delegate === req.user.userId) {
+      return res.status(400).json({ message: 'You cannot make yourself a delegate' });
+    }
+
+    const [delegateUser, principal] = await Promise.all([
+      User.findById(delegate).select('name email'),
+      User.findById(req.user.userId).select('name')
+    ]);
+    if (!delegateUser) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (await Delegation.exists({ principal: req.user.userId, delegate })) {
+      return res.status(400).json({ message: `${delegateUser.name} is already your delegate` });
+    }
+
+    const delegation = await Delegation.create({ principal: req.user.userId, delegate });
+
+    await Notification.create({
+      user: delegate,
+      message: `${principal.name} has made you a delegate. You can now book, edit and cancel meetings on their behalf`
+    });
+
+    await delegation.populate('delegate', 'name email department');
+    res.status(201).json(delegation);
+  } catch (error) {
+    console.error('Grant delegation error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Either side can end a delegation; bookings already made keep their organizer
+const revokeDelegation = async (req, res) => {
+  try {
+    const delegation = await Delegation.findOneAndDelete({
+      _id: req.params.id,
+      $or: [{ principal: req.user.userId }, { delegate: req.user.userId }]
+    });
+
+    if (!delegation) {
+      return res.status(404).json({ message: 'Delegation not found' });
+    }
+
+    res.json({ message: 'Delegation removed' });
+  } catch (error) {
+    console.error('Revoke delegation error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+module.exports = {
+  getMyDelegations,
+  grantDelegation,
+  revokeDelegation
+};
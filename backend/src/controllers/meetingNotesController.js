@@ -0,0 +1,159 @@
+const Booking = require('../models/Booking');
+const { ACTIVE_BOOKING_STATUSES, boardroomWithSite } = require('../utils/bookingRules');
+const { snapshotBooking, diffBookings, recordBookingHistory } = require('../utils/bookingHistory');
+const {
+  RECENTLY_COMPLETED_DAYS,
+  canEditMeetingNotes,
+  getMinutesError,
+  setActionItems,
+  notifyActionItemOwners,
+  collectActionItems
+} = require('../utils/meetingNotes');
+
+const emitNotesChanged = (req, booking) => {
+  const io = req.app.get('io');
+  if (io) {
+    io.emit('booking-updated', { booking, changes: { meetingNotesChanged: true } });
+  }
+};
+
+// Replace the agenda; open to everyone on the booking while it is active
+const updateAgenda = async (req, res) => {
+  try {
+    const booking = await Booking.findById(req.params.id);
+    if (!booking) {
+      return res.status(404).json({ message: 'Booking not found' });
+    }
+
+    if (!(await canEditMeetingNotes(booking, req.user))) {
+      return res.status(403).json({ message: 'Only people on this booking can edit its agenda' });
+    }
+
+    if (!ACTIVE_BOOKING_STATUSES.includes(booking.status)) {
+      return res.status(400).json({ message: 'This booking is no longer active' });
+    }
+
+    const before = snapshotBooking(booking);
+    booking.agenda = req.body.agenda.map(({ title, durationMinutes, notes }) => ({
+      title,
+      durationMinutes: durationMinutes || undefined,
+      notes
+    }));
+    booking.modifiedAt = new Date();
+    await booking.save();
+
+    const changes = diffBookings(before, snapshotBooking(booking));
+    if (changes.length > 0) {
+      await recordBookingHistory(booking, 'updated', req, { changes });
+    }
+
+    emitNotesChanged(req, booking);
+    res.json({ message: 'Agenda saved', agenda: booking.agenda });
+  } catch (error) {
+    console.error('Update agenda error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Save the minutes and their action items once the meeting has started; new owners are notified
+const updateMinutes = async (req, res) => {
+  try {
+    const { notes, actionItems } = req.body;
+    const booking = await Booking.findById(req.params.id);
+    if (!booking) {
+      return res.status(404).json({ message: 'Booking not found' });
+    }
+
+    if (!(await canEditMeetingNotes(booking, req.user))) {
+      return res.status(403).json({ message: 'Only people on this booking can edit its minutes' });
+    }
+
+    const minutesError = getMinutesError(booking);
+    if (minutesError) {
+      return res.status(400).json({ message: minutesError });
+    }
+
+    const before = snapshotBooking(booking);
+    let assigned = [];
+    if (actionItems) {
+      const result = setActionItems(booking, actionItems, req.user.userId);
+      if (result.error) {
+        return res.status(400).json({ message: result.error });
+      }
+      assigned = result.assigned;
+    }
+
+    const notesChanged = notes !== undefined && notes !== (booking.minutes.notes || '');
+    if (notesChanged) {
+      booking.minutes.notes = notes;
+    }
+    booking.minutes.updatedBy = req.user.userId;
+    booking.minutes.updatedAt = new Date();
+    booking.modifiedAt = new Date();
+    await booking.save();
+
+    const changes = diffBookings(before, snapshotBooking(booking));
+    if (changes.length > 0 || notesChanged) {
+      await recordBookingHistory(booking, 'updated', req, { changes, note: notesChanged ? 'Minutes updated' : undefined });
+    }
+    await notifyActionItemOwners(booking, assigned, req.user.userId);
+
+    emitNotesChanged(req, booking);
+    res.json({ message: 'Minutes saved', minutes: booking.minutes, actionItems: booking.actionItems });
+  } catch (error) {
+    console.error('Update minutes error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// The signed-in user's action items across bookings, for their dashboard
+const getMyActionItems = async (req, res) => {
+  try {
+    const bookings = await Booking.find({ 'actionItems.owner': req.user.userId })
+      .select('purpose startTime boardroom actionItems')
+      .populate(boardroomWithSite('name'));
+
+    const completedSince = new Date(Date.now() - RECENTLY_COMPLETED_DAYS * 24 * 60 * 60 * 1000);
+    res.json(collectActionItems(bookings, req.user.userId, completedSince));
+  } catch (error) {
+    console.error('Get action items error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Tick an action item off, or reopen it; for its owner and anyone who can edit the minutes
+const updateActionItem = async (req, res) => {
+  try {
+    const booking = await Booking.findById(req.params.id);
+    const item = booking && booking.actionItems.id(req.params.itemId);
+    if (!item) {
+      return res.status(404).json({ message: 'Action item not found' });
+    }
+
+    if (item.owner.toString() !== req.user.userId && !(await canEditMeetingNotes(booking, req.user))) {
+      return res.status(403).json({ message: 'Only the owner can update this action item' });
+    }
+
+    const before = snapshotBooking(booking);
+    item.completedAt = req.body.completed ? item.completedAt || new Date() : undefined;
+    await booking.save();
+
+    const changes = diffBookings(before, snapshotBooking(booking));
+    if (changes.length > 0) {
+      await recordBookingHistory(booking, 'updated', req, { changes });
+    }
+
+    emitNotesChanged(req, booking);
+    res.json({ message: req.body.completed ? 'Action item done' : 'Action item reopened', actionItem: item });
+  } catch (error) {
+    console.error('Update action item error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+module.exports = {
+  updateAgenda,
+  updateMinutes,
+  getMyActionItems,
+  updateActionItem
+};
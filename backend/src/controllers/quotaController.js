@@ -0,0 +1,142 @@
+const moment = require('moment-timezone');
+const BookingQuota = require('../models/BookingQuota');
+const Boardroom = require('../models/Boardroom');
+const User = require('../models/User');
+const { getRoomTimezone } = require('../utils/bookingPolicy');
+const { QUOTA_FIELDS, DEPARTMENT_COLLATION, getQuotaSummary } = require('../utils/bookingQuota');
+const { DELEGATION_REQUIRED_MESSAGE, isDelegateOf } = require('../utils/delegation');
+
+// Only the limit fields the request mentions; null clears a limit
+const pickLimits = (body) => QUOTA_FIELDS.reduce((limits, field) => {
+  if (body[field] !== undefined) limits[field] = body[field];
+  return limits;
+}, {});
+
+const getQuotas = async (req, res) => {
+  try {
+    const quotas = await BookingQuota.find().sort({ scope: 1, value: 1 });
+    res.json(quotas);
+  } catch (error) {
+    console.error('Get quotas error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+const createQuota = async (req, res) => {
+  try {
+    const { scope, value } = req.body;
+
+    if (await BookingQuota.exists({ scope, value }).collation(DEPARTMENT_COLLATION)) {
+      return res.status(400).json({ message: `A quota for this ${scope} already exists` });
+    }
+
+    const limits = pickLimits(req.body);
+    QUOTA_FIELDS.forEach(field => {
+      if (limits[field] === null) delete limits[field];
+    });
+
+    const quota = await BookingQuota.create({ scope, value, ...limits });
+    res.status(201).json(quota);
+  } catch (error) {
+    console.error('Create quota error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+const updateQuota = async (req, res) => {
+  try {
+    const { scope, value } = req.body;
+
+    const duplicate = await BookingQuota.exists({ scope, value, _id: { $ne: req.params.id } })
+      .collation(DEPARTMENT_COLLATION);
+    if (duplicate) {
+      return res.status(400).json({ message: `A quota for this ${scope} already exists` });
+    }
+
+    const limits = pickLimits(req.body);
+    const $set = { scope, value };
+    const $unset = {};
+    Object.entries(limits).forEach(([field, limit]) => {
+      if (limit === null) {
+        $unset[field] = 1;
+      } else {
+        $set[field] = limit;
+      }
+    });
+
+    const quota = await BookingQuota.findByIdAndUpdate(
+      req.params.id,
+      { $set, ...(Object.keys($unset).length > 0 ? { $unset } : {}) },
+      { new: true, runValidators: true }
+    );
+
+    if (!quota) {
+      return res.status(404).json({ message: 'Quota not found' });
+    }
+
+    res.json(quota);
+  } catch (error) {
+    console.error('Update quota error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+const deleteQuota = async (req, res) => {
+  try {
+    const quota = await BookingQuota.findByIdAndDelete(req.params.id);
+    if (!quota) {
+      return res.status(404).json({ message: 'Quota not found' });
+    }
+    res.json({ message: 'Quota deleted' });
+  } catch (error) {
+    console.error('Delete quota error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// The caller's limits and remaining allowance. With ?boardroom= the week and day are the room's,
+// and ?date=YYYY-MM-DD picks which week and day to report on. Delegates can pass ?onBehalfOf=.
+const getMyQuota = async (req, res) => {
+  try {
+    const userId = req.query.onBehalfOf || req.user.userId;
+    if (!(await isDelegateOf(req.user.userId, userId))) {
+      return res.status(403).json({ message: DELEGATION_REQUIRED_MESSAGE });
+    }
+
+    const user = await User.findById(userId).select('role department');
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    let room = null;
+    if (req.query.boardroom) {
+      room = await Boardroom.findById(req.query.boardroom).populate('site');
+      if (!room) {
+        return res.status(404).json({ message: 'Boardroom not found' });
+      }
+    }
+
+    const timezone = getRoomTimezone(room);
+    const date = req.query.date
+      ? moment.tz(req.query.date, 'YYYY-MM-DD', true, timezone)
+      : moment.tz(timezone);
+    if (!date.isValid()) {
+      return res.status(400).json({ message: 'date must be formatted YYYY-MM-DD' });
+    }
+
+    // Midday avoids the day slipping across a DST change
+    const summary = await getQuotaSummary(user, room, date.clone().hour(12).startOf('hour').toDate());
+    res.json({ ...summary, role: user.role, department: user.department || null });
+  } catch (error) {
+    console.error('Get my quota error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+module.exports = {
+  getQuotas,
+  createQuota,
+  updateQuota,
+  deleteQuota,
+  getMyQuota
+};
@@ -0,0 +1,218 @@
+const Booking = require('../models/Booking');
+const User = require('../models/User');
+const { ACTIVE_BOOKING_STATUSES, boardroomWithSite, getSeriesScopeFilter } = require('../utils/bookingRules');
+const { canManageBooking } = require('../utils/delegation');
+const { recordBookingHistory } = require('../utils/bookingHistory');
+const {
+  RESPONSE_LABELS,
+  getUserResponse,
+  setUserResponse,
+  setExternalResponse,
+  summarizeResponses,
+  verifyRsvpToken,
+  notifyOrganizerOfResponse
+} = require('../utils/attendeeResponses');
+
+const findRespondableBooking = (id) => Booking.findById(id)
+  .populate('user', 'name email')
+  .populate(boardroomWithSite('name location capacity'));
+
+// Answers are taken until the meeting is over, and only while it is still on
+const getResponseError = (booking) => {
+  if (!ACTIVE_BOOKING_STATUSES.includes(booking.status)) {
+    return 'This booking is no longer active';
+  }
+  if (new Date(booking.endTime) <= new Date()) {
+    return 'This meeting has already ended';
+  }
+  return null;
+};
+
+// An invited user accepts, declines or answers tentatively; declining keeps them on the booking
+const respondToBooking = async (req, res) => {
+  try {
+    const { response } = req.body;
+    const booking = await findRespondableBooking(req.params.id);
+    if (!booking) {
+      return res.status(404).json({ message: 'Booking not found' });
+    }
+
+    if (booking.user._id.toString() === req.user.userId) {
+      return res.status(400).json({ message: 'As the organizer, you are attending your own meeting' });
+    }
+    if (!booking.attendees.some(attendee => attendee.toString() === req.user.userId)) {
+      return res.status(400).json({ message: 'You are not an attendee of this booking' });
+    }
+
+    const responseError = getResponseError(booking);
+    if (responseError) {
+      return res.status(400).json({ message: responseError });
+    }
+
+    const previous = getUserResponse(booking, req.user.userId);
+    if (previous !== response) {
+      setUserResponse(booking, req.user.userId, response);
+      await booking.save();
+      await recordBookingHistory(booking, 'responded', req, { note: `Attendee ${RESPONSE_LABELS[response]}` });
+
+      const responder = await User.findById(req.user.userId).select('name');
+      await notifyOrganizerOfResponse(booking, responder.name, response);
+
+      const io = req.app.get('io');
+      if (io) {
+        io.emit('booking-updated', { booking, changes: { responsesChanged: true } });
+      }
+    }
+
+    res.json({ message: `You have ${RESPONSE_LABELS[response]} this meeting`, booking, responses: summarizeResponses(booking) });
+  } catch (error) {
+    console.error('RSVP error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// The organizer (or a delegate or admin) records a guest's answer given outside the system, e.g. by email
+const recordExternalResponse = async (req, res) => {
+  try {
+    const { email, response } = req.body;
+    const booking = await findRespondableBooking(req.params.id);
+    if (!booking) {
+      return res.status(404).json({ message: 'Booking not found' });
+    }
+
+    if (!(await canManageBooking(booking, req.user))) {
+      return res.status(403).json({ message: 'Only the organizer can record responses for guests' });
+    }
+
+    const responseError = getResponseError(booking);
+    if (responseError) {
+      return res.status(400).json({ message: responseError });
+    }
+
+    const external = setExternalResponse(booking, email, response);
+    if (!external) {
+      return res.status(400).json({ message: 'This guest is not on the booking' });
+    }
+
+    await booking.save();
+    await recordBookingHistory(booking, 'responded', req, { note: `${external.email} ${RESPONSE_LABELS[response]}` });
+    // A delegate or admin recording it lets the organizer know
+    if (booking.user._id.toString() !== req.user.userId) {
+      await notifyOrganizerOfResponse(booking, external.name || external.email, response);
+    }
+
+    const io = req.app.get('io');
+    if (io) {
+      io.emit('booking-updated', { booking, changes: { responsesChanged: true } });
+    }
+
+    res.json({ message: `Recorded that ${external.name || external.email} ${RESPONSE_LABELS[response]}`, booking, responses: summarizeResponses(booking) });
+  } catch (error) {
+    console.error('Record guest RSVP error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// The bookings a guest's link answers for: the rest of a series or every room of a linked booking,
+// as long as the guest is still invited and the meeting has not ended; the next one first
+const findGuestBookings = (booking, email) => {
+  const scope = booking.seriesId
+    ? getSeriesScopeFilter(booking, 'following')
+    : { [booking.roomGroupId ? 'roomGroupId' : '_id']: booking.roomGroupId || booking._id, status: { $in: ACTIVE_BOOKING_STATUSES } };
+
+  return Booking.find({ ...scope, endTime: { $gt: new Date() }, 'externalAttendees.email': email })
+    .populate('user', 'name email')
+    .populate(boardroomWithSite('name location'))
+    .sort({ startTime: 1, roomGroupIndex: 1 });
+};
+
+// The link's booking and guest, or an error response already sent
+const resolveGuestLink = async (req, res, token) => {
+  const claims = verifyRsvpToken(token, req.params.id);
+  if (!claims) {
+    res.status(401).json({ message: 'This link is invalid or has expired' });
+    return null;
+  }
+
+  const booking = await Booking.findById(req.params.id).select('seriesId roomGroupId startTime');
+  const bookings = booking ? await findGuestBookings(booking, claims.email) : [];
+  if (bookings.length === 0) {
+    res.status(410).json({ message: 'This meeting is no longer taking responses' });
+    return null;
+  }
+
+  return { email: claims.email, bookings };
+};
+
+// What a guest sees when opening their link: the meeting, their name and their answer so far
+const describeGuestInvitation = ({ email, bookings }) => {
+  const [next] = bookings;
+  const guest = next.externalAttendees.find(external => external.email === email);
+  return {
+    purpose: next.purpose,
+    organizer: next.user.name,
+    boardroom: next.boardroom,
+    startTime: next.startTime,
+    endTime: next.endTime,
+    status: next.status,
+    occurrences: next.seriesId ? bookings.length : 1,
+    guest: { email: guest.email, name: guest.name, response: guest.response || null }
+  };
+};
+
+// Public: the meeting a guest's emailed link is for
+const getGuestInvitation = async (req, res) => {
+  try {
+    const link = await resolveGuestLink(req, res, req.query.token);
+    if (!link) return;
+
+    res.json(describeGuestInvitation(link));
+  } catch (error) {
+    console.error('Get guest invitation error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Public: a guest accepts or declines through their emailed link
+const respondAsGuest = async (req, res) => {
+  try {
+    const { token, response } = req.body;
+    const link = await resolveGuestLink(req, res, token);
+    if (!link) return;
+
+    const { email, bookings } = link;
+    const changed = bookings.filter(booking => (
+      booking.externalAttendees.find(external => external.email === email).response !== response
+    ));
+
+    if (changed.length > 0) {
+      let guest;
+      for (const booking of changed) {
+        guest = setExternalResponse(booking, email, response);
+        await booking.save();
+      }
+      await recordBookingHistory(changed, 'responded', req, { note: `${email} ${RESPONSE_LABELS[response]} from the invitation email` });
+      await notifyOrganizerOfResponse(changed[0], guest.name || email, response);
+
+      const io = req.app.get('io');
+      if (io) {
+        changed.forEach(booking => io.emit('booking-updated', { booking, changes: { responsesChanged: true } }));
+      }
+    }
+
+    res.json({
+      message: response === 'accepted' ? 'Thanks, the organizer knows you are coming' : 'Thanks, the organizer knows you cannot make it',
+      invitation: describeGuestInvitation(link)
+    });
+  } catch (error) {
+    console.error('Guest RSVP error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+module.exports = {
+  respondToBooking,
+  recordExternalResponse,
+  getGuestInvitation,
+  respondAsGuest
+};
@@ -0,0 +1,170 @@
+const Booking = require('../models/Booking');
+const Boardroom = require('../models/Boardroom');
+const ServiceItem = require('../models/ServiceItem');
+const ServiceRequest = require('../models/ServiceRequest');
+const { ACTIVE_BOOKING_STATUSES, boardroomWithSite, isBookingParticipant } = require('../utils/bookingRules');
+const { canManageBooking } = require('../utils/delegation');
+
+// Upcoming week by default
+const DEFAULT_QUEUE_DAYS = 7;
+
+const populateRequest = (query) => query
+  .populate('booking', 'purpose startTime endTime status user')
+  .populate(boardroomWithSite('name location'))
+  .populate('requestedBy', 'name email')
+  .populate('handledBy', 'name');
+
+// The catalog; retired items are only listed for admins
+const getServiceItems = async (req, res) => {
+  try {
+    const filter = req.user.role === 'admin' ? {} : { isActive: true };
+    const items = await ServiceItem.find(filter).sort({ category: 1, name: 1 });
+    res.json(items);
+  } catch (error) {
+    console.error('Get service items error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+const createServiceItem = async (req, res) => {
+  try {
+    const { name, category, description, leadTimeHours, maxQuantity } = req.body;
+
+    if (await ServiceItem.exists({ name })) {
+      return res.status(400).json({ message: 'A service with this name already exists' });
+    }
+
+    const item = await ServiceItem.create({ name, category, description, leadTimeHours, maxQuantity });
+    res.status(201).json(item);
+  } catch (error) {
+    console.error('Create service item error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Requests already made keep the name and quantity they were made with
+const updateServiceItem = async (req, res) => {
+  try {
+    const { name, category, description, leadTimeHours, maxQuantity, isActive } = req.body;
+
+    if (await ServiceItem.exists({ name, _id: { $ne: req.params.id } })) {
+      return res.status(400).json({ message: 'A service with this name already exists' });
+    }
+
+    const item = await ServiceItem.findByIdAndUpdate(
+      req.params.id,
+      { name, category, description, leadTimeHours, maxQuantity, isActive },
+      { new: true, runValidators: true }
+    );
+    if (!item) {
+      return res.status(404).json({ message: 'Service not found' });
+    }
+
+    res.json(item);
+  } catch (error) {
+    console.error('Update service item error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+const deleteServiceItem = async (req, res) => {
+  try {
+    if (await ServiceRequest.exists({ item: req.params.id })) {
+      return res.status(400).json({ message: 'This service has been requested before. Retire it instead of deleting it.' });
+    }
+
+    const item = await ServiceItem.findByIdAndDelete(req.params.id);
+    if (!item) {
+      return res.status(404).json({ message: 'Service not found' });
+    }
+
+    res.json({ message: 'Service deleted' });
+  } catch (error) {
+    console.error('Delete service item error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Facilities queue: requests due in a time range in delivery order, optionally for one room or site
+const getServiceQueue = async (req, res) => {
+  try {
+    const { status, boardroom, site } = req.query;
+    const from = req.query.from ? new Date(req.query.from) : new Date();
+    const to = req.query.to
+      ? new Date(req.query.to)
+      : new Date(from.getTime() + DEFAULT_QUEUE_DAYS * 24 * 60 * 60 * 1000);
+
+    const filter = { deliverAt: { $gte: from, $lte: to } };
+    if (status) filter.status = status;
+    if (boardroom) {
+      filter.boardroom = boardroom;
+    } else if (site) {
+      const rooms = await Boardroom.find({ site }).select('_id');
+      filter.boardroom = { $in: rooms.map(room => room._id) };
+    }
+
+    const requests = await populateRequest(ServiceRequest.find(filter)).sort({ deliverAt: 1 });
+    res.json(requests);
+  } catch (error) {
+    console.error('Get service queue error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Facilities move a request along (requested, confirmed, delivered) or turn it down
+const updateServiceRequestStatus = async (req, res) => {
+  try {
+    const request = await ServiceRequest.findById(req.params.id).populate('booking', 'status');
+    if (!request) {
+      return res.status(404).json({ message: 'Service request not found' });
+    }
+
+    // A request voided with its booking cannot be brought back while the booking is off
+    if (req.body.status !== 'cancelled' && (!request.booking || !ACTIVE_BOOKING_STATUSES.includes(request.booking.status))) {
+      return res.status(400).json({ message: 'The booking for this request is no longer active' });
+    }
+
+    request.status = req.body.status;
+    if (req.body.status !== 'cancelled') request.cancelReason = undefined;
+    request.handledBy = req.user.userId;
+    request.updatedAt = new Date();
+    await request.save();
+
+    res.json(await populateRequest(ServiceRequest.findById(request._id)));
+  } catch (error) {
+    console.error('Update service request error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// A booking's requests, for its participants, the organizer's delegates and admins
+const getBookingServiceRequests = async (req, res) => {
+  try {
+    const booking = await Booking.findById(req.params.bookingId).select('user attendees');
+    if (!booking) {
+      return res.status(404).json({ message: 'Booking not found' });
+    }
+
+    if (!isBookingParticipant(booking, req.user.userId) && !(await canManageBooking(booking, req.user))) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    const requests = await ServiceRequest.find({ booking: booking._id })
+      .populate('item', 'category')
+      .sort({ deliverAt: 1 });
+    res.json(requests);
+  } catch (error) {
+    console.error('Get booking service requests error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+module.exports = {
+  getServiceItems,
+  createServiceItem,
+  updateServiceItem,
+  deleteServiceItem,
+  getServiceQueue,
+  updateServiceRequestStatus,
+  getBookingServiceRequests
+};
@@ -0,0 +1,120 @@
+const Site = require('../models/Site');
+const Boardroom = require('../models/Boardroom');
+
+// Sites with the number of rooms in each; inactive sites are only listed for admins
+const getSites = async (req, res) => {
+  try {
+    const filter = req.user.role === 'admin' ? {} : { isActive: true };
+    const sites = await Site.find(filter).sort({ name: 1 }).lean();
+
+    const counts = await Boardroom.aggregate([
+      { $match: { site: { $in: sites.map(site => site._id) } } },
+      { $group: { _id: '$site', count: { $sum: 1 } } }
+    ]);
+    const roomCounts = new Map(counts.map(({ _id, count }) => [String(_id), count]));
+
+    res.json(sites.map(site => ({ ...site, roomCount: roomCounts.get(String(site._id)) || 0 })));
+  } catch (error) {
+    console.error('Get sites error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+const getSiteById = async (req, res) => {
+  try {
+    const site = await Site.findById(req.params.id);
+    if (!site) {
+      return res.status(404).json({ message: 'Site not found' });
+    }
+    res.json(site);
+  } catch (error) {
+    console.error('Get site error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+const createSite = async (req, res) => {
+  try {
+    const { name, address, timezone, operatingHours } = req.body;
+
+    if (await Site.exists({ name })) {
+      return res.status(400).json({ message: 'A site with this name already exists' });
+    }
+
+    const site = await Site.create({
+      name,
+      address,
+      timezone,
+      operatingHours: operatingHours && operatingHours.length > 0 ? operatingHours : undefined
+    });
+    res.status(201).json(site);
+  } catch (error) {
+    console.error('Create site error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Changing the timezone or hours applies to every room at the site from the next check onwards;
+// existing bookings keep their absolute times
+const updateSite = async (req, res) => {
+  try {
+    const { name, address, timezone, operatingHours, isActive } = req.body;
+
+    if (await Site.exists({ name, _id: { $ne: req.params.id } })) {
+      return res.status(400).json({ message: 'A site with this name already exists' });
+    }
+
+    // An empty list clears the site's hours so its rooms fall back to the defaults
+    const hasHours = operatingHours && operatingHours.length > 0;
+    const site = await Site.findByIdAndUpdate(
+      req.params.id,
+      {
+        name,
+        address,
+        timezone,
+        isActive,
+        ...(hasHours ? { operatingHours } : { $unset: { operatingHours: 1 } })
+      },
+      { new: true, runValidators: true }
+    );
+
+    if (!site) {
+      return res.status(404).json({ message: 'Site not found' });
+    }
+
+    res.json(site);
+  } catch (error) {
+    console.error('Update site error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+const deleteSite = async (req, res) => {
+  try {
+    const roomCount = await Boardroom.countDocuments({ site: req.params.id });
+    if (roomCount > 0) {
+      return res.status(400).json({
+        message: 'Cannot delete a site that still has boardrooms. Move or delete its rooms first.',
+        roomCount
+      });
+    }
+
+    const site = await Site.findByIdAndDelete(req.params.id);
+    if (!site) {
+      return res.status(404).json({ message: 'Site not found' });
+    }
+
+    res.json({ message: 'Site deleted' });
+  } catch (error) {
+    console.error('Delete site error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+module.exports = {
+  getSites,
+  getSiteById,
+  createSite,
+  updateSite,
+  deleteSite
+};
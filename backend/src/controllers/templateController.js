@@ -0,0 +1,153 @@
+const Booking = require('../models/Booking');
+const BookingTemplate = require('../models/BookingTemplate');
+const Boardroom = require('../models/Boardroom');
+const { boardroomWithSite } = require('../utils/bookingRules');
+const { canManageBooking } = require('../utils/delegation');
+
+const TEMPLATE_NAME_COLLATION = { locale: 'en', strength: 2 };
+
+const populateTemplate = (query) => query
+  .populate(boardroomWithSite('name location capacity isActive'))
+  .populate('attendees', 'name email');
+
+// The owner is always the organizer when a template is used, so they are never stored as an attendee
+const withoutOwner = (userIds, ownerId) => [...new Set(userIds.map(String))].filter(id => id !== ownerId);
+
+// Only the template fields the request mentions; null clears the room or the usual length
+const pickTemplateFields = (body, ownerId) => {
+  const fields = {};
+  ['boardroom', 'purpose', 'notes', 'durationMinutes'].forEach(field => {
+    if (body[field] !== undefined) fields[field] = body[field];
+  });
+  if (body.attendees) {
+    if (body.attendees.users) fields.attendees = withoutOwner(body.attendees.users, ownerId);
+    if (body.attendees.external) fields.externalAttendees = body.attendees.external.map(email => ({ email }));
+  }
+  return fields;
+};
+
+// Everything about a booking except when it happens
+const templateFromBooking = (booking, ownerId) => ({
+  boardroom: booking.boardroom,
+  purpose: booking.purpose,
+  attendees: withoutOwner([booking.user, ...booking.attendees], ownerId),
+  externalAttendees: (booking.externalAttendees || []).map(({ email }) => ({ email })),
+  notes: booking.notes,
+  durationMinutes: Math.round((booking.endTime - booking.startTime) / (60 * 1000))
+});
+
+const nameTaken = (userId, name, excludeId) => BookingTemplate.exists({
+  user: userId,
+  name,
+  ...(excludeId && { _id: { $ne: excludeId } })
+}).collation(TEMPLATE_NAME_COLLATION);
+
+const getMyTemplates = async (req, res) => {
+  try {
+    const templates = await populateTemplate(
+      BookingTemplate.find({ user: req.user.userId }).collation(TEMPLATE_NAME_COLLATION).sort({ name: 1 })
+    );
+    res.json(templates);
+  } catch (error) {
+    console.error('Get templates error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Save a template from the fields given, or copy one from a booking the caller organizes or attends
+const createTemplate = async (req, res) => {
+  try {
+    const { name, booking: bookingId } = req.body;
+
+    if (await nameTaken(req.user.userId, name)) {
+      return res.status(400).json({ message: `You already have a template called "${name}"` });
+    }
+
+    let fields;
+    if (bookingId) {
+      const booking = await Booking.findById(bookingId);
+      if (!booking) {
+        return res.status(404).json({ message: 'Booking not found' });
+      }
+
+      const attends = booking.attendees.some(attendee => attendee.toString() === req.user.userId);
+      if (!attends && !(await canManageBooking(booking, req.user))) {
+        return res.status(403).json({ message: 'You can only save bookings you organize or attend as templates' });
+      }
+      fields = templateFromBooking(booking, req.user.userId);
+    } else {
+      fields = pickTemplateFields(req.body, req.user.userId);
+    }
+
+    if (fields.boardroom && !(await Boardroom.exists({ _id: fields.boardroom }))) {
+      return res.status(400).json({ message: 'Boardroom not found' });
+    }
+
+    const template = await BookingTemplate.create({ user: req.user.userId, name, ...fields });
+    const populated = await populateTemplate(BookingTemplate.findById(template._id));
+    res.status(201).json(populated);
+  } catch (error) {
+    console.error('Create template error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+const updateTemplate = async (req, res) => {
+  try {
+    const { name } = req.body;
+
+    if (await nameTaken(req.user.userId, name, req.params.id)) {
+      return res.status(400).json({ message: `You already have a template called "${name}"` });
+    }
+
+    const fields = pickTemplateFields(req.body, req.user.userId);
+    if (fields.boardroom && !(await Boardroom.exists({ _id: fields.boardroom }))) {
+      return res.status(400).json({ message: 'Boardroom not found' });
+    }
+
+    const $set = { name, modifiedAt: new Date() };
+    const $unset = {};
+    Object.entries(fields).forEach(([field, value]) => {
+      if (value === null) {
+        $unset[field] = 1;
+      } else {
+        $set[field] = value;
+      }
+    });
+
+    const template = await populateTemplate(BookingTemplate.findOneAndUpdate(
+      { _id: req.params.id, user: req.user.userId },
+      { $set, ...(Object.keys($unset).length > 0 ? { $unset } : {}) },
+      { new: true, runValidators: true }
+    ));
+
+    if (!template) {
+      return res.status(404).json({ message: 'Template not found' });
+    }
+
+    res.json(template);
+  } catch (error) {
+    console.error('Update template error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+const deleteTemplate = async (req, res) => {
+  try {
+    const template = await BookingTemplate.findOneAndDelete({ _id: req.params.id, user: req.user.userId });
+    if (!template) {
+      return res.status(404).json({ message: 'Template not found' });
+    }
+    res.json({ message: 'Template deleted' });
+  } catch (error) {
+    console.error('Delete template error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+module.exports = {
+  getMyTemplates,
+  createTemplate,
+  updateTemplate,
+  deleteTemplate
+};
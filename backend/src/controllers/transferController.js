@@ -0,0 +1,347 @@
+const Booking = require('../models/Booking');
+const BookingTransfer = require('../models/BookingTransfer');
+const User = require('../models/User');
+const Notification = require('../models/Notification');
+const emailService = require('../services/emailService');
+const { ACTIVE_BOOKING_STATUSES, boardroomWithSite, getSeriesScopeFilter, getRoomGroupFilter } = require('../utils/bookingRules');
+const { formatRoomTime } = require('../utils/bookingPolicy');
+const { canManageBooking, getManagedUserIds } = require('../utils/delegation');
+const { snapshotBooking, recordBookingChanges } = require('../utils/bookingHistory');
+
+const populateTransfer = (query) => query
+  .populate({
+    path: 'booking',
+    select: 'purpose startTime endTime status seriesId boardroom',
+    populate: boardroomWithSite('name location')
+  })
+  .populate('fromUser', 'name email')
+  .populate('toUser', 'name email')
+  .populate('requestedBy', 'name email')
+  .populate('respondedBy', 'name email');
+
+const describeBooking = (booking) =>
+  `"${booking.purpose}" in ${booking.boardroom.name} on ${formatRoomTime(booking.startTime, booking.boardroom)}`;
+
+// Ask another user to take over a booking; nothing changes until they accept
+const requestTransfer = async (req, res) => {
+  try {
+    const { booking: bookingId, to, scope = 'this', note } = req.body;
+
+    const booking = await Booking.findOne({ _id: bookingId, status: { $in: ACTIVE_BOOKING_STATUSES } })
+      .populate('user', 'name email')
+      .populate(boardroomWithSite('name location'));
+    if (!booking) {
+      return res.status(404).json({ message: 'Booking not found or no longer active' });
+    }
+
+    if (!(await canManageBooking(booking, req.user))) {
+      return res.status(403).json({ message: 'You can only transfer your own bookings' });
+    }
+
+    if (booking.endTime <= new Date()) {
+      return res.status(400).json({ message: 'Past bookings cannot be transferred' });
+    }
+
+    if (booking.user._id.toString() === to) {
+      return res.status(400).json({ message: 'This user already organizes the booking' });
+    }
+
+    const recipient = await User.findById(to).select('name email');
+    if (!recipient) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (await BookingTransfer.exists({ booking: booking._id, status: 'pending' })) {
+      return res.status(400).json({ message: 'A transfer for this booking is already waiting for a response' });
+    }
+
+    const transfer = await BookingTransfer.create({
+      booking: booking._id,
+      scope: booking.seriesId ? scope : 'this',
+      fromUser: booking.user._id,
+      toUser: recipient._id,
+      requestedBy: req.user.userId,
+      note
+    });
+
+    const what = transfer.scope === 'this'
+      ? describeBooking(booking)
+      : `the recurring meeting ${describeBooking(booking)} (${transfer.scope === 'series' ? 'whole series' : 'this and following'})`;
+
+    await Notification.create({
+      user: recipient._id,
+      message: `${booking.user.name} wants to hand over ${what} to you. Accept or decline it in My Bookings`,
+      booking: booking._id
+    });
+
+    try {
+      await emailService.sendEmail(
+        recipient.email,
+        `Booking handover: ${booking.purpose}`,
+        `
+          <h2>A booking is being handed over to you</h2>
+          <p><strong>Meeting:</strong> ${booking.purpose}</p>
+          <p><strong>Current organizer:</strong> ${booking.user.name} (${booking.user.email})</p>
+          <p><strong>Room:</strong> ${booking.boardroom.name} - ${booking.boardroom.location}</p>
+          <p><strong>Time:</strong> ${formatRoomTime(booking.startTime, booking.boardroom)} - ${formatRoomTime(booking.endTime, booking.boardroom)}</p>
+          ${transfer.scope !== 'this' ? `<p><strong>Occurrences:</strong> ${transfer.scope === 'series' ? 'The whole series' : 'This and every following occurrence'}</p>` : ''}
+          ${note ? `<p><strong>Note:</strong> ${note}</p>` : ''}
+          <p>You will only become the organizer once you accept the transfer in My Bookings.</p>
+        `,
+        true
+      );
+    } catch (emailError) {
+      console.error('Transfer request email failed:', emailError);
+    }
+
+    const populated = await populateTransfer(BookingTransfer.findById(transfer._id));
+    res.status(201).json(populated);
+  } catch (error) {
+    console.error('Request transfer error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Transfers waiting for the caller to answer, and ones the caller (or someone they book for) is waiting on
+const getMyTransfers = async (req, res) => {
+  try {
+    const managedUserIds = await getManagedUserIds(req.user.userId);
+    const [incoming, outgoing] = await Promise.all([
+      populateTransfer(BookingTransfer.find({ toUser: req.user.userId, status: 'pending' }).sort({ createdAt: 1 })),
+      populateTransfer(BookingTransfer.find({
+        status: 'pending',
+        $or: [{ fromUser: { $in: managedUserIds } }, { requestedBy: req.user.userId }]
+      }).sort({ createdAt: 1 }))
+    ]);
+
+    // Requests for bookings that have since been deleted can no longer be answered
+    const answerable = (transfers) => transfers.filter(transfer => transfer.booking);
+    res.json({ incoming: answerable(incoming), outgoing: answerable(outgoing) });
+  } catch (error) {
+    console.error('Get transfers error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Ownership history of a booking, for its organizer, their delegates and admins
+const getBookingTransfers = async (req, res) => {
+  try {
+    const booking = await Booking.findById(req.params.bookingId).select('user');
+    if (!booking) {
+      return res.status(404).json({ message: 'Booking not found' });
+    }
+
+    if (!(await canManageBooking(booking, req.user))) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    const transfers = await populateTransfer(BookingTransfer.find({
+      $or: [{ booking: booking._id }, { bookings: booking._id }]
+    }).sort({ createdAt: -1 }));
+
+    res.json(transfers);
+  } catch (error) {
+    console.error('Get booking transfers error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Close a transfer that can no longer go ahead
+const closeTransfer = async (transfer, userId) => {
+  transfer.status = 'cancelled';
+  transfer.respondedBy = userId;
+  transfer.respondedAt = new Date();
+  await transfer.save();
+};
+
+const acceptTransfer = async (req, res) => {
+  try {
+    const transfer = await BookingTransfer.findOne({ _id: req.params.id, toUser: req.user.userId, status: 'pending' });
+    if (!transfer) {
+      return res.status(404).json({ message: 'Transfer not found or already answered' });
+    }
+
+    const booking = await Booking.findById(transfer.booking);
+    if (!booking || !ACTIVE_BOOKING_STATUSES.includes(booking.status) || booking.endTime <= new Date()) {
+      await closeTransfer(transfer, req.user.userId);
+      return res.status(400).json({ message: 'This booking is no longer active' });
+    }
+
+    if (booking.user.toString() !== transfer.fromUser.toString()) {
+      await closeTransfer(transfer, req.user.userId);
+      return res.status(400).json({ message: 'This booking has changed organizer since the transfer was requested' });
+    }
+
+    // Only occurrences the previous organizer still owns change hands
+    const targets = transfer.scope === 'this' || !booking.seriesId
+      ? [booking]
+      : await Booking.find({ ...getSeriesScopeFilter(booking, transfer.scope), user: transfer.fromUser });
+    // Linked rooms always change hands together
+    if (booking.roomGroupId) {
+      targets.push(...await Booking.find({ ...getRoomGroupFilter(booking), user: transfer.fromUser }));
+    }
+    const targetIds = targets.map(target => target._id);
+    const snapshots = new Map(targets.map(target => [target._id.toString(), snapshotBooking(target)]));
+
+    // The new organizer joins the meeting; the previous one stays on as an attendee.
+    // bookedBy named the previous organizer's delegate, so it no longer applies.
+    await Booking.updateMany(
+      { _id: { $in: targetIds } },
+      {
+        $set: { user: transfer.toUser, modifiedAt: new Date() },
+        $unset: { bookedBy: 1 },
+        $addToSet: { attendees: transfer.toUser }
+      }
+    );
+    const transferred = await Booking.find({ _id: { $in: targetIds } });
+    await recordBookingChanges(
+      transferred.map(target => ({ booking: target, before: snapshots.get(target._id.toString()) })),
+      'transferred',
+      req,
+      { note: transfer.note }
+    );
+
+    transfer.status = 'accepted';
+    transfer.respondedBy = req.user.userId;
+    transfer.respondedAt = new Date();
+    transfer.bookings = targetIds;
+    await transfer.save();
+
+    const updatedBooking = await Booking.findById(booking._id)
+      .populate('user', 'name email')
+      .populate(boardroomWithSite('name location capacity amenities'))
+      .populate('attendees', 'name email');
+    const previousOrganizer = await User.findById(transfer.fromUser).select('name email');
+    const newOrganizer = updatedBooking.user;
+    const occurrences = targetIds.length > 1 ? ` (${targetIds.length} occurrences)` : '';
+
+    // Everyone in the meeting hears about the new organizer
+    await Promise.all(updatedBooking.attendees
+      .filter(attendee => attendee._id.toString() !== req.user.userId)
+      .map(attendee => Notification.create({
+        user: attendee._id,
+        message: `${describeBooking(updatedBooking)}${occurrences} is now organized by ${newOrganizer.name}, taking over from ${previousOrganizer.name}`,
+        booking: updatedBooking._id
+      })));
+
+    try {
+      const recipients = [
+        ...updatedBooking.attendees
+          .filter(attendee => attendee._id.toString() !== req.user.userId)
+          .map(attendee => attendee.email),
+        ...(updatedBooking.externalAttendees || []).map(external => external.email)
+      ];
+      await Promise.all(recipients.map(email => emailService.sendEmail(
+        email,
+        `New organizer: ${updatedBooking.purpose}`,
+        `
+          <h2>Meeting has a new organizer</h2>
+          <p><strong>Meeting:</strong> ${updatedBooking.purpose}</p>
+          <p><strong>Organizer:</strong> ${newOrganizer.name} (${newOrganizer.email})</p>
+          <p><strong>Previous organizer:</strong> ${previousOrganizer.name}</p>
+          <p><strong>Room:</strong> ${updatedBooking.boardroom.name} - ${updatedBooking.boardroom.location}</p>
+          <p><strong>Time:</strong> ${formatRoomTime(updatedBooking.startTime, updatedBooking.boardroom)} - ${formatRoomTime(updatedBooking.endTime, updatedBooking.boardroom)}</p>
+          <p>The meeting itself has not changed. Please contact ${newOrganizer.name} with any questions.</p>
+        `,
+        true
+      )));
+    } catch (emailError) {
+      console.error('Transfer notification email failed:', emailError);
+    }
+
+    const io = req.app.get('io');
+    if (io) {
+      io.emit('booking-updated', {
+        booking: updatedBooking,
+        boardroomId: updatedBooking.boardroom._id,
+        changes: { organizerChanged: true }
+      });
+    }
+
+    res.json({
+      message: targetIds.length > 1
+        ? `You now organize ${targetIds.length} occurrences of "${updatedBooking.purpose}"`
+        : `You now organize "${updatedBooking.purpose}"`,
+      transfer,
+      booking: updatedBooking
+    });
+  } catch (error) {
+    console.error('Accept transfer error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+const declineTransfer = async (req, res) => {
+  try {
+    const transfer = await BookingTransfer.findOne({ _id: req.params.id, toUser: req.user.userId, status: 'pending' })
+      .populate({ path: 'booking', select: 'purpose startTime boardroom', populate: boardroomWithSite('name') })
+      .populate('toUser', 'name');
+    if (!transfer) {
+      return res.status(404).json({ message: 'Transfer not found or already answered' });
+    }
+
+    if (!transfer.booking) {
+      await closeTransfer(transfer, req.user.userId);
+      return res.status(400).json({ message: 'This booking is no longer active' });
+    }
+
+    transfer.status = 'declined';
+    transfer.respondedBy = req.user.userId;
+    transfer.respondedAt = new Date();
+    await transfer.save();
+
+    const notify = [...new Set([transfer.fromUser.toString(), transfer.requestedBy.toString()])];
+    await Promise.all(notify.map(userId => Notification.create({
+      user: userId,
+      message: `${transfer.toUser.name} declined to take over ${describeBooking(transfer.booking)}`,
+      booking: transfer.booking._id
+    })));
+
+    res.json({ message: 'Transfer declined', transfer });
+  } catch (error) {
+    console.error('Decline transfer error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Withdraw a pending transfer: whoever asked, the organizer, one of their delegates or an admin
+const cancelTransfer = async (req, res) => {
+  try {
+    const transfer = await BookingTransfer.findOne({ _id: req.params.id, status: 'pending' })
+      .populate({ path: 'booking', select: 'purpose startTime boardroom', populate: boardroomWithSite('name') });
+    if (!transfer) {
+      return res.status(404).json({ message: 'Transfer not found or already answered' });
+    }
+
+    const allowed = transfer.requestedBy.toString() === req.user.userId ||
+      await canManageBooking({ user: transfer.fromUser }, req.user);
+    if (!allowed) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    await closeTransfer(transfer, req.user.userId);
+
+    // The recipient no longer sees requests for deleted bookings, so there is nothing to tell them
+    if (transfer.booking) {
+      await Notification.create({
+        user: transfer.toUser,
+        message: `The request to hand over ${describeBooking(transfer.booking)} to you was withdrawn`,
+        booking: transfer.booking._id
+      });
+    }
+
+    res.json({ message: 'Transfer cancelled', transfer });
+  } catch (error) {
+    console.error('Cancel transfer error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+module.exports = {
+  requestTransfer,
+  getMyTransfers,
+  getBookingTransfers,
+  acceptTransfer,
+  declineTransfer,
+  cancelTransfer
+};
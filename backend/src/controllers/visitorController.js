@@ -0,0 +1,184 @@
+const moment = require('moment-timezone');
+const Booking = require('../models/Booking');
+const Boardroom = require('../models/Boardroom');
+const User = require('../models/User');
+const { ACTIVE_BOOKING_STATUSES, boardroomWithSite, isBookingParticipant } = require('../utils/bookingRules');
+const { canManageBooking } = require('../utils/delegation');
+const { snapshotBooking, recordBookingChanges, recordBookingHistory } = require('../utils/bookingHistory');
+const {
+  MAX_VISITORS_PER_BOOKING,
+  getVisitorHost,
+  groupVisitorsByRoom,
+  notifyHostOfArrival
+} = require('../utils/visitors');
+
+const populateVisitors = (booking) => booking.populate([
+  { path: 'visitors.host', select: 'name email' },
+  { path: 'visitors.checkedInBy', select: 'name' }
+]);
+
+const emitVisitorsChanged = (req, booking) => {
+  const io = req.app.get('io');
+  if (io) {
+    io.emit('booking-updated', {
+      booking,
+      boardroomId: booking.boardroom._id || booking.boardroom,
+      changes: { visitorsChanged: true }
+    });
+  }
+};
+
+// Pre-register a visitor for reception; organizers, their delegates and admins only
+const addVisitor = async (req, res) => {
+  try {
+    const { name, company, host } = req.body;
+    const booking = await Booking.findById(req.params.id);
+    if (!booking) {
+      return res.status(404).json({ message: 'Booking not found' });
+    }
+
+    if (!(await canManageBooking(booking, req.user))) {
+      return res.status(403).json({ message: 'Only the organizer can register visitors for this booking' });
+    }
+
+    if (!ACTIVE_BOOKING_STATUSES.includes(booking.status) || booking.endTime <= new Date()) {
+      return res.status(400).json({ message: 'Visitors can only be registered for upcoming active bookings' });
+    }
+
+    if (booking.visitors.length >= MAX_VISITORS_PER_BOOKING) {
+      return res.status(400).json({ message: `A booking can have at most ${MAX_VISITORS_PER_BOOKING} visitors` });
+    }
+
+    const hostId = host || booking.user.toString();
+    if (!isBookingParticipant(booking, hostId)) {
+      return res.status(400).json({ message: 'The host must be the organizer or one of the attendees' });
+    }
+
+    const before = snapshotBooking(booking);
+    booking.visitors.push({ name, company, host: hostId, addedBy: req.user.userId });
+    booking.modifiedAt = new Date();
+    await booking.save();
+    await recordBookingChanges([{ booking, before }], 'updated', req);
+
+    await populateVisitors(booking);
+    emitVisitorsChanged(req, booking);
+    res.status(201).json({ message: `${name} is expected at reception`, visitors: booking.visitors });
+  } catch (error) {
+    console.error('Add visitor error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Visitors who have already arrived stay on the record
+const removeVisitor = async (req, res) => {
+  try {
+    const booking = await Booking.findById(req.params.id);
+    if (!booking) {
+      return res.status(404).json({ message: 'Booking not found' });
+    }
+
+    if (!(await canManageBooking(booking, req.user))) {
+      return res.status(403).json({ message: 'Only the organizer can remove visitors from this booking' });
+    }
+
+    const visitor = booking.visitors.id(req.params.visitorId);
+    if (!visitor) {
+      return res.status(404).json({ message: 'Visitor not found' });
+    }
+    if (visitor.checkedInAt) {
+      return res.status(400).json({ message: 'This visitor has already checked in' });
+    }
+
+    const before = snapshotBooking(booking);
+    visitor.deleteOne();
+    booking.modifiedAt = new Date();
+    await booking.save();
+    await recordBookingChanges([{ booking, before }], 'updated', req);
+
+    await populateVisitors(booking);
+    emitVisitorsChanged(req, booking);
+    res.json({ message: 'Visitor removed', visitors: booking.visitors });
+  } catch (error) {
+    console.error('Remove visitor error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Reception: a day's expected visitors by room, optionally for one site. The day is read in each
+// room's timezone and defaults to the room's today.
+const getReceptionList = async (req, res) => {
+  try {
+    const { date, site } = req.query;
+    // Wide enough to hold the day in any timezone; the exact day is picked out per room
+    const day = date ? moment.utc(date, 'YYYY-MM-DD') : moment.utc().startOf('day');
+    const filter = {
+      status: { $in: ACTIVE_BOOKING_STATUSES },
+      'visitors.0': { $exists: true },
+      startTime: { $gte: day.clone().subtract(1, 'day').toDate(), $lt: day.clone().add(2, 'days').toDate() }
+    };
+    if (site) {
+      const rooms = await Boardroom.find({ site }).select('_id');
+      filter.boardroom = { $in: rooms.map(room => room._id) };
+    }
+
+    const bookings = await Booking.find(filter)
+      .select('user boardroom startTime endTime purpose status visitors')
+      .populate('user', 'name email')
+      .populate(boardroomWithSite('name location'))
+      .populate('visitors.host', 'name email')
+      .populate('visitors.checkedInBy', 'name');
+
+    res.json(groupVisitorsByRoom(bookings, date));
+  } catch (error) {
+    console.error('Get reception list error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Reception checks a visitor in and their host is told they have arrived
+const checkInVisitor = async (req, res) => {
+  try {
+    const booking = await Booking.findById(req.params.id).populate(boardroomWithSite('name location'));
+    if (!booking) {
+      return res.status(404).json({ message: 'Booking not found' });
+    }
+
+    const visitor = booking.visitors.id(req.params.visitorId);
+    if (!visitor) {
+      return res.status(404).json({ message: 'Visitor not found' });
+    }
+    if (!ACTIVE_BOOKING_STATUSES.includes(booking.status)) {
+      return res.status(400).json({ message: 'This booking is no longer active' });
+    }
+    if (visitor.checkedInAt) {
+      return res.status(400).json({ message: `${visitor.name} has already checked in` });
+    }
+
+    visitor.checkedInAt = new Date();
+    visitor.checkedInBy = req.user.userId;
+    await booking.save();
+    await recordBookingHistory(booking, 'visitor_arrived', req, { note: `${visitor.name} checked in at reception` });
+
+    const host = await User.findById(getVisitorHost(booking, visitor)).select('name email');
+    if (host) {
+      await notifyHostOfArrival(booking, visitor, host);
+    }
+
+    await populateVisitors(booking);
+    emitVisitorsChanged(req, booking);
+    res.json({
+      message: host ? `${visitor.name} checked in. ${host.name} has been notified.` : `${visitor.name} checked in`,
+      visitor: booking.visitors.id(req.params.visitorId)
+    });
+  } catch (error) {
+    console.error('Visitor check-in error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+module.exports = {
+  addVisitor,
+  removeVisitor,
+  getReceptionList,
+  checkInVisitor
+};
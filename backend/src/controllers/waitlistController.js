@@ -0,0 +1,194 @@
+const Booking = require('../models/Booking');
+const Boardroom = require('../models/Boardroom');
+const WaitlistEntry = require('../models/WaitlistEntry');
+const waitlistService = require('../services/waitlistService');
+const { boardroomWithSite, validateBookingWindow, findConflictingBooking, getBlockedReason } = require('../utils/bookingRules');
+const { ROOM_BUSY_MESSAGE, withRoomLocks } = require('../utils/roomLock');
+
+const ACTIVE_STATUSES = ['waiting', 'offered'];
+
+// Number of people ahead of an entry in its room's queue for an overlapping slot, plus one
+const getQueuePosition = async (entry) => {
+  const ahead = await WaitlistEntry.countDocuments({
+    boardroom: entry.boardroom._id || entry.boardroom,
+    status: 'waiting',
+    createdAt: { $lt: entry.createdAt },
+    startTime: { $lt: entry.endTime },
+    endTime: { $gt: entry.startTime }
+  });
+  return ahead + 1;
+};
+
+// Join the waitlist for a room and time range that is currently taken
+const joinWaitlist = async (req, res) => {
+  try {
+    const { boardroom, startTime, endTime, purpose, notes, autoBook } = req.body;
+    const start = new Date(startTime);
+    const end = new Date(endTime);
+
+    const boardroomExists = await Boardroom.findOne({ _id: boardroom, isActive: true }).populate('site');
+    if (!boardroomExists) {
+      return res.status(400).json({ message: 'Boardroom not found or inactive' });
+    }
+
+    const windowError = validateBookingWindow(start, end, boardroomExists);
+    if (windowError) {
+      return res.status(400).json({ message: windowError });
+    }
+
+    const blockedReason = await getBlockedReason(boardroomExists, start, end);
+    if (blockedReason) {
+      return res.status(400).json({ message: blockedReason });
+    }
+
+    const conflict = await findConflictingBooking(boardroom, start, end);
+    const hold = conflict ? null : await waitlistService.findActiveHold(boardroom, start, end, req.user.userId);
+    if (!conflict && !hold) {
+      return res.status(400).json({ message: 'This time slot is available. Book it directly instead of joining the waitlist' });
+    }
+    if (conflict && conflict.user.toString() === req.user.userId) {
+      return res.status(400).json({ message: 'You already have this room booked for this time slot' });
+    }
+
+    const duplicate = await WaitlistEntry.findOne({
+      user: req.user.userId,
+      boardroom,
+      status: { $in: ACTIVE_STATUSES },
+      startTime: { $lt: end },
+      endTime: { $gt: start }
+    });
+    if (duplicate) {
+      return res.status(400).json({ message: 'You are already on the waitlist for this time slot' });
+    }
+
+    const entry = await WaitlistEntry.create({
+      user: req.user.userId,
+      boardroom,
+      startTime: start,
+      endTime: end,
+      purpose,
+      notes: notes || '',
+      autoBook: Boolean(autoBook)
+    });
+
+    const position = await getQueuePosition(entry);
+    await entry.populate(boardroomWithSite('name location capacity'));
+
+    res.status(201).json({
+      message: `You are number ${position} on the waitlist for ${boardroomExists.name}`,
+      entry,
+      position
+    });
+  } catch (error) {
+    console.error('Join waitlist error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Active waitlist entries for the logged-in user, with their place in the queue
+const getMyWaitlist = async (req, res) => {
+  try {
+    const entries = await WaitlistEntry.find({
+      user: req.user.userId,
+      status: { $in: ACTIVE_STATUSES },
+      startTime: { $gt: new Date() }
+    }).populate(boardroomWithSite('name location capacity'))
+      .sort({ startTime: 1 });
+
+    const withPositions = await Promise.all(entries.map(async (entry) => ({
+      ...entry.toObject(),
+      position: entry.status === 'waiting' ? await getQueuePosition(entry) : null
+    })));
+
+    res.json(withPositions);
+  } catch (error) {
+    console.error('Get waitlist error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Leave the waitlist; an open offer is passed on to the next person in line
+const leaveWaitlist = async (req, res) => {
+  try {
+    const entry = await WaitlistEntry.findOne({
+      _id: req.params.id,
+      user: req.user.userId,
+      status: { $in: ACTIVE_STATUSES }
+    });
+
+    if (!entry) {
+      return res.status(404).json({ message: 'Waitlist entry not found' });
+    }
+
+    const wasOffered = entry.status === 'offered';
+    entry.status = 'cancelled';
+    await entry.save();
+
+    if (wasOffered) {
+      await waitlistService.releaseSlot(entry, req.app.get('io'));
+    }
+
+    res.json({ message: 'You have left the waitlist', entry });
+  } catch (error) {
+    console.error('Leave waitlist error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Turn an open offer into a confirmed booking
+const claimWaitlistOffer = async (req, res) => {
+  try {
+    const entry = await WaitlistEntry.findOne({
+      _id: req.params.id,
+      user: req.user.userId,
+      status: 'offered'
+    });
+
+    if (!entry) {
+      return res.status(404).json({ message: 'No open offer found for this waitlist entry' });
+    }
+
+    if (entry.offerExpiresAt <= new Date()) {
+      return res.status(400).json({ message: 'This offer has expired' });
+    }
+
+    const io = req.app.get('io');
+    const { locked, result: unavailableReason } = await withRoomLocks(entry.boardroom, async () => {
+      const room = await Boardroom.findById(entry.boardroom).populate('site');
+      const blocker = await waitlistService.getBookingBlocker(entry, room);
+      if (blocker) return blocker;
+
+      await waitlistService.bookForEntry(entry, room, io);
+      return null;
+    });
+
+    if (!locked) {
+      return res.status(409).json({ message: ROOM_BUSY_MESSAGE });
+    }
+    if (unavailableReason) {
+      return res.status(409).json({ message: unavailableReason });
+    }
+
+    const booking = await Booking.findById(entry.booking)
+      .populate('user', 'name email')
+      .populate(boardroomWithSite('name location capacity amenities'))
+      .populate('attendees', 'name email');
+
+    res.status(201).json({
+      message: booking.status === 'pending'
+        ? 'Slot claimed. Your booking is awaiting approval'
+        : 'Slot claimed and booked successfully',
+      booking
+    });
+  } catch (error) {
+    console.error('Claim waitlist offer error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+module.exports = {
+  joinWaitlist,
+  getMyWaitlist,
+  leaveWaitlist,
+  claimWaitlistOffer
+};
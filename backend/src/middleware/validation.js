@@ -1,5 +1,12 @@
 // backend/src/middleware/validation.js
-const { body, validationResult } = require('express-validator');
+const { body, query, validationResult } = require('express-validator');
+const moment = require('moment-timezone');
+const { validateRecurrence } = require('../utils/recurrence');
+const { MAX_FREE_BUSY_USERS, MAX_FREE_BUSY_DAYS } = require('../utils/freeBusy');
+const { HISTORY_ACTIONS, MAX_HISTORY_RESULTS } = require('../utils/bookingHistory');
+const { SERVICE_CATEGORIES, SERVICE_STATUSES, MAX_SERVICE_REQUESTS } = require('../utils/serviceRequests');
+const { RSVP_RESPONSES, GUEST_RSVP_RESPONSES } = require('../utils/attendeeResponses');
+const { MAX_AGENDA_ITEMS, MAX_ACTION_ITEMS } = require('../utils/meetingNotes');
 
 // Handle validation errors
 const handleValidationErrors = (req, res, next) => {
@@ -13,6 +20,33 @@ const handleValidationErrors = (req, res, next) => {
   next();
 };
 
+// Overflow rooms that can be booked together with a main room
+const MAX_LINKED_ROOMS = 9;
+
+// Catering and equipment ordered with a booking; the catalog and delivery times are checked by the controller
+const serviceRequestRules = (field) => [
+  body(field)
+    .optional()
+    .isArray({ max: MAX_SERVICE_REQUESTS })
+    .withMessage(`Up to ${MAX_SERVICE_REQUESTS} services can be requested with a booking`),
+  body(`${field}.*.item`)
+    .isMongoId()
+    .withMessage('Invalid service item ID'),
+  body(`${field}.*.quantity`)
+    .isInt({ min: 1 })
+    .withMessage('Quantity must be a whole number of at least 1')
+    .toInt(),
+  body(`${field}.*.deliverAt`)
+    .optional()
+    .isISO8601()
+    .withMessage('Delivery time must be a valid date'),
+  body(`${field}.*.notes`)
+    .optional()
+    .trim()
+    .isLength({ max: 300 })
+    .withMessage('Service notes cannot exceed 300 characters')
+];
+
 // Registration validation
 const validateRegistration = [
   body('name')
@@ -41,6 +75,27 @@ const validateLogin = [
   handleValidationErrors
 ];
 
+// Weekly opening hours (shared by room booking policies and sites)
+const operatingHoursRules = (field) => [
+  body(field)
+    .optional()
+    .isArray({ max: 7 })
+    .withMessage('Operating hours must be a list of at most 7 days'),
+  body(`${field}.*.day`)
+    .isInt({ min: 0, max: 6 })
+    .withMessage('Operating hours day must be 0 (Sunday) to 6 (Saturday)'),
+  body([`${field}.*.open`, `${field}.*.close`])
+    .matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+    .withMessage('Operating hours must use HH:mm times'),
+  body(`${field}.*`)
+    .custom((hours) => {
+      if (hours.open >= hours.close) {
+        throw new Error('Closing time must be after opening time');
+      }
+      return true;
+    })
+];
+
 // Boardroom validation
 const validateBoardroom = [
   body('name')
@@ -63,9 +118,58 @@ const validateBoardroom = [
     .trim()
     .isLength({ max: 1000 })
     .withMessage('Description cannot exceed 1000 characters'),
+  body('requiresApproval')
+    .optional()
+    .isBoolean()
+    .withMessage('requiresApproval must be a boolean'),
+  body(['bufferBefore', 'bufferAfter'])
+    .optional()
+    .isInt({ min: 0, max: 120 })
+    .withMessage('Buffer times must be between 0 and 120 minutes'),
+  body('site')
+    .optional({ nullable: true })
+    .isMongoId()
+    .withMessage('Invalid site ID'),
+  ...operatingHoursRules('bookingPolicy.operatingHours'),
+  body(['bookingPolicy.minDurationMinutes', 'bookingPolicy.maxDurationMinutes'])
+    .optional({ nullable: true })
+    .isInt({ min: 5, max: 24 * 60 })
+    .withMessage('Booking durations must be between 5 minutes and 24 hours'),
+  body('bookingPolicy.maxDurationMinutes')
+    .optional({ nullable: true })
+    .custom((max, { req }) => {
+      const min = req.body.bookingPolicy.minDurationMinutes;
+      if (min && max < min) {
+        throw new Error('Maximum duration cannot be shorter than the minimum duration');
+      }
+      return true;
+    }),
+  body('bookingPolicy.slotMinutes')
+    .optional({ nullable: true })
+    .isInt({ min: 5, max: 240 })
+    .withMessage('Slot size must be between 5 and 240 minutes'),
+  body('bookingPolicy.maxAdvanceDays')
+    .optional({ nullable: true })
+    .isInt({ min: 1, max: 730 })
+    .withMessage('Advance booking window must be between 1 and 730 days'),
+  body('bookingPolicy.minLeadMinutes')
+    .optional({ nullable: true })
+    .isInt({ min: 0, max: 7 * 24 * 60 })
+    .withMessage('Minimum lead time must be between 0 minutes and 7 days'),
   handleValidationErrors
 ];
 
+// Recurrence rule validation (shared by booking creation and the series preview)
+const recurrenceRule = () => body('recurrence')
+  .optional({ nullable: true })
+  .custom((recurrence) => {
+    const error = validateRecurrence(recurrence);
+    if (error) {
+      throw new Error(error);
+    }
+    return true;
+  });
+
 // Booking validation
 const validateBooking = [
   body('boardroom')
@@ -111,6 +215,48 @@ const validateBooking = [
     .trim()
     .isLength({ max: 1000 })
     .withMessage('Notes cannot exceed 1000 characters'),
+  recurrenceRule(),
+  body('skipConflicts')
+    .optional()
+    .isBoolean()
+    .withMessage('skipConflicts must be a boolean'),
+  body('clientRequestId')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('clientRequestId must be between 1 and 100 characters'),
+  body('onBehalfOf')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid user ID for onBehalfOf'),
+  body('linkedBoardrooms')
+    .optional()
+    .isArray({ max: MAX_LINKED_ROOMS })
+    .withMessage(`Up to ${MAX_LINKED_ROOMS} linked rooms can be booked with the main room`)
+    .custom((ids, { req }) => {
+      const all = [String(req.body.boardroom), ...ids.map(String)];
+      return ids.every(id => /^[0-9a-fA-F]{24}$/.test(id)) && new Set(all).size === all.length;
+    })
+    .withMessage('Linked rooms must be distinct boardroom IDs other than the main room'),
+  ...serviceRequestRules('serviceRequests'),
+  handleValidationErrors
+];
+
+// Recurring booking preview validation
+const validateRecurrencePreview = [
+  body('boardroom')
+    .isMongoId()
+    .withMessage('Invalid boardroom ID'),
+  body('startTime')
+    .isISO8601()
+    .withMessage('Start time must be a valid datetime'),
+  body('endTime')
+    .isISO8601()
+    .withMessage('End time must be a valid datetime'),
+  body('recurrence')
+    .exists()
+    .withMessage('Recurrence is required'),
+  recurrenceRule(),
   handleValidationErrors
 ];
 
@@ -163,6 +309,526 @@ const validateBookingUpdate = [
     .trim()
     .isLength({ max: 1000 })
     .withMessage('Notes cannot exceed 1000 characters'),
+  body('scope')
+    .optional()
+    .isIn(['this', 'following', 'series'])
+    .withMessage('Scope must be one of: this, following, series'),
+  handleValidationErrors
+];
+
+// Waitlist entry validation
+const validateWaitlistEntry = [
+  body('boardroom')
+    .isMongoId()
+    .withMessage('Invalid boardroom ID'),
+  body('startTime')
+    .isISO8601()
+    .withMessage('Start time must be a valid datetime'),
+  body('endTime')
+    .isISO8601()
+    .withMessage('End time must be a valid datetime')
+    .custom((endTime, { req }) => {
+      if (new Date(endTime) <= new Date(req.body.startTime)) {
+        throw new Error('End time must be after start time');
+      }
+      return true;
+    }),
+  body('purpose')
+    .trim()
+    .isLength({ min: 2, max: 200 })
+    .withMessage('Purpose must be between 2 and 200 characters'),
+  body('notes')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Notes cannot exceed 1000 characters'),
+  body('autoBook')
+    .optional()
+    .isBoolean()
+    .withMessage('autoBook must be a boolean'),
+  handleValidationErrors
+];
+
+// Approval decision validation; a rejection must say why
+const validateApprovalDecision = [
+  body('reason')
+    .if((value, { req }) => req.path.endsWith('/reject'))
+    .trim()
+    .isLength({ min: 2, max: 500 })
+    .withMessage('A rejection reason between 2 and 500 characters is required'),
+  body('scope')
+    .optional()
+    .isIn(['this', 'series'])
+    .withMessage('Scope must be one of: this, series'),
+  handleValidationErrors
+];
+
+// Attendee RSVP; the organizer also sends the guest's email when recording an external attendee's answer
+const validateRsvp = [
+  body('response')
+    .isIn(RSVP_RESPONSES)
+    .withMessage(`Response must be one of: ${RSVP_RESPONSES.join(', ')}`),
+  body('email')
+    .if((value, { req }) => req.path.endsWith('/external'))
+    .trim()
+    .isEmail()
+    .withMessage('Please provide the guest\'s email'),
+  handleValidationErrors
+];
+
+// Guests answering from an invitation email: the link's token and a yes or no
+const validateGuestRsvp = [
+  body('token')
+    .isString()
+    .notEmpty()
+    .withMessage('Invitation link token is required'),
+  body('response')
+    .isIn(GUEST_RSVP_RESPONSES)
+    .withMessage(`Response must be one of: ${GUEST_RSVP_RESPONSES.join(', ')}`),
+  handleValidationErrors
+];
+
+// Closure validation; full-day closures take dates, partial ones exact times
+const isAllDay = (req) => req.body.allDay !== false;
+
+const validateClosure = [
+  body('name')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Name must be between 2 and 100 characters'),
+  body('allDay')
+    .optional()
+    .isBoolean()
+    .withMessage('allDay must be a boolean'),
+  body('startDate')
+    .if((value, { req }) => isAllDay(req))
+    .isDate({ format: 'YYYY-MM-DD', strictMode: true })
+    .withMessage('Start date must be a YYYY-MM-DD date'),
+  body('endDate')
+    .if((value, { req }) => isAllDay(req))
+    .optional()
+    .isDate({ format: 'YYYY-MM-DD', strictMode: true })
+    .withMessage('End date must be a YYYY-MM-DD date')
+    .custom((endDate, { req }) => {
+      if (endDate < req.body.startDate) {
+        throw new Error('End date cannot be before the start date');
+      }
+      return true;
+    }),
+  body('startTime')
+    .if((value, { req }) => !isAllDay(req))
+    .isISO8601()
+    .withMessage('Start time must be a valid datetime'),
+  body('endTime')
+    .if((value, { req }) => !isAllDay(req))
+    .isISO8601()
+    .withMessage('End time must be a valid datetime')
+    .custom((endTime, { req }) => {
+      if (new Date(endTime) <= new Date(req.body.startTime)) {
+        throw new Error('End time must be after start time');
+      }
+      return true;
+    }),
+  body('locations')
+    .optional()
+    .isArray()
+    .withMessage('Locations must be an array'),
+  body('locations.*')
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Locations must be non-empty strings'),
+  handleValidationErrors
+];
+
+// Maintenance window validation; the preview only needs the time range
+const validateMaintenanceWindow = [
+  body('startTime')
+    .isISO8601()
+    .withMessage('Start time must be a valid datetime'),
+  body('endTime')
+    .isISO8601()
+    .withMessage('End time must be a valid datetime')
+    .custom((endTime, { req }) => {
+      if (new Date(endTime) <= new Date(req.body.startTime)) {
+        throw new Error('End time must be after start time');
+      }
+      return true;
+    }),
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Reason cannot exceed 200 characters'),
+  body('action')
+    .optional()
+    .isIn(['none', 'notify', 'move'])
+    .withMessage('Action must be one of: none, notify, move'),
+  handleValidationErrors
+];
+
+// Site validation
+const validateSite = [
+  body('name')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Name must be between 2 and 100 characters'),
+  body('address')
+    .optional()
+    .trim()
+    .isLength({ max: 300 })
+    .withMessage('Address cannot exceed 300 characters'),
+  body('timezone')
+    .custom((timezone) => {
+      if (!timezone || !moment.tz.zone(timezone)) {
+        throw new Error('Timezone must be an IANA zone name such as Africa/Johannesburg');
+      }
+      return true;
+    }),
+  ...operatingHoursRules('operatingHours'),
+  body('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be a boolean'),
+  handleValidationErrors
+];
+
+// Booking quota validation; a null limit means "no limit"
+const validateQuota = [
+  body('scope')
+    .isIn(['role', 'department'])
+    .withMessage('Scope must be role or department'),
+  body('value')
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Value must be between 1 and 100 characters')
+    .custom((value, { req }) => {
+      if (req.body.scope === 'role' && !['admin', 'user'].includes(value)) {
+        throw new Error('Role must be admin or user');
+      }
+      return true;
+    }),
+  body('maxFutureBookings')
+    .optional({ nullable: true })
+    .isInt({ min: 0 })
+    .withMessage('Max future bookings must be a whole number of 0 or more'),
+  body('maxHoursPerWeek')
+    .optional({ nullable: true })
+    .isFloat({ min: 0 })
+    .withMessage('Max hours per week must be 0 or more'),
+  body('maxBookingsPerRoomPerDay')
+    .optional({ nullable: true })
+    .isInt({ min: 0 })
+    .withMessage('Max bookings per room per day must be a whole number of 0 or more'),
+  handleValidationErrors
+];
+
+// Delegation validation
+const validateDelegation = [
+  body('delegate')
+    .isMongoId()
+    .withMessage('Invalid delegate user ID'),
+  handleValidationErrors
+];
+
+// Room finder search validation
+const HH_MM = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const validateRoomSearch = [
+  query('date')
+    .custom(value => moment(value, 'YYYY-MM-DD', true).isValid())
+    .withMessage('Date must be YYYY-MM-DD'),
+  query('duration')
+    .isInt({ min: 5, max: 1440 })
+    .withMessage('Duration must be between 5 and 1440 minutes')
+    .toInt(),
+  query('attendees')
+    .optional()
+    .isInt({ min: 1, max: 1000 })
+    .withMessage('Attendees must be a positive whole number')
+    .toInt(),
+  query('from')
+    .optional()
+    .matches(HH_MM)
+    .withMessage('From must be an HH:mm time'),
+  query('to')
+    .optional()
+    .matches(HH_MM)
+    .withMessage('To must be an HH:mm time')
+    .custom((to, { req }) => !req.query.from || to > req.query.from)
+    .withMessage('To must be after from'),
+  query('site')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid site ID'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage('Limit must be between 1 and 50')
+    .toInt(),
+  handleValidationErrors
+];
+
+const validateFreeBusy = [
+  query('users')
+    .custom(value => {
+      const ids = String(value).split(',');
+      return ids.length <= MAX_FREE_BUSY_USERS && ids.every(id => /^[0-9a-fA-F]{24}$/.test(id));
+    })
+    .withMessage(`Users must be up to ${MAX_FREE_BUSY_USERS} comma-separated user IDs`),
+  query('start')
+    .isISO8601()
+    .withMessage('Start must be a valid date'),
+  query('end')
+    .isISO8601()
+    .withMessage('End must be a valid date')
+    .custom((end, { req }) => {
+      const days = (new Date(end) - new Date(req.query.start)) / (24 * 60 * 60 * 1000);
+      return days > 0 && days <= MAX_FREE_BUSY_DAYS;
+    })
+    .withMessage(`End must be after start and at most ${MAX_FREE_BUSY_DAYS} days later`),
+  handleValidationErrors
+];
+
+const validateTemplate = [
+  body('name')
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Template name must be between 1 and 100 characters'),
+  body('booking')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid booking ID'),
+  body('boardroom')
+    .optional({ nullable: true })
+    .isMongoId()
+    .withMessage('Invalid boardroom ID'),
+  body('purpose')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Purpose cannot exceed 200 characters'),
+  body('attendees.users')
+    .optional()
+    .isArray()
+    .custom(users => users.every(id => /^[0-9a-fA-F]{24}$/.test(id)))
+    .withMessage('Invalid attendee IDs'),
+  body('attendees.external')
+    .optional()
+    .isArray()
+    .custom(emails => emails.every(email => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)))
+    .withMessage('Invalid external attendee emails'),
+  body('notes')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Notes cannot exceed 1000 characters'),
+  body('durationMinutes')
+    .optional({ nullable: true })
+    .isInt({ min: 5, max: 1440 })
+    .withMessage('Duration must be between 5 and 1440 minutes'),
+  handleValidationErrors
+];
+
+const validateBookingAdjustment = [
+  body('minutes')
+    .isInt({ min: 5, max: 240 })
+    .withMessage('Minutes must be a whole number between 5 and 240')
+    .toInt(),
+  handleValidationErrors
+];
+
+// Booking transfer validation
+const validateTransferRequest = [
+  body('booking')
+    .isMongoId()
+    .withMessage('Invalid booking ID'),
+  body('to')
+    .isMongoId()
+    .withMessage('Invalid user ID'),
+  body('scope')
+    .optional()
+    .isIn(['this', 'following', 'series'])
+    .withMessage('Scope must be this, following or series'),
+  body('note')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Note cannot exceed 500 characters'),
+  handleValidationErrors
+];
+
+const validateHistoryQuery = [
+  query('action')
+    .optional()
+    .isIn(HISTORY_ACTIONS)
+    .withMessage(`Action must be one of: ${HISTORY_ACTIONS.join(', ')}`),
+  query('actorRole')
+    .optional()
+    .isIn(['user', 'admin', 'system'])
+    .withMessage('Actor role must be user, admin or system'),
+  query(['actor', 'booking', 'boardroom'])
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid ID'),
+  query(['from', 'to'])
+    .optional()
+    .isISO8601()
+    .withMessage('Dates must be valid'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: MAX_HISTORY_RESULTS })
+    .withMessage(`Limit must be between 1 and ${MAX_HISTORY_RESULTS}`)
+    .toInt(),
+  handleValidationErrors
+];
+
+// Service catalog item validation
+const validateServiceItem = [
+  body('name')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Name must be between 2 and 100 characters'),
+  body('category')
+    .optional()
+    .isIn(SERVICE_CATEGORIES)
+    .withMessage(`Category must be one of: ${SERVICE_CATEGORIES.join(', ')}`),
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 300 })
+    .withMessage('Description cannot exceed 300 characters'),
+  body('leadTimeHours')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Lead time must be 0 hours or more'),
+  body('maxQuantity')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Max quantity must be a whole number of at least 1'),
+  body('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be a boolean'),
+  handleValidationErrors
+];
+
+// Facilities queue filters
+const validateServiceQueueQuery = [
+  query('status')
+    .optional()
+    .isIn(SERVICE_STATUSES)
+    .withMessage(`Status must be one of: ${SERVICE_STATUSES.join(', ')}`),
+  query(['boardroom', 'site'])
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid ID'),
+  query(['from', 'to'])
+    .optional()
+    .isISO8601()
+    .withMessage('Dates must be valid'),
+  handleValidationErrors
+];
+
+const validateServiceStatus = [
+  body('status')
+    .isIn(SERVICE_STATUSES)
+    .withMessage(`Status must be one of: ${SERVICE_STATUSES.join(', ')}`),
+  handleValidationErrors
+];
+
+// Visitors pre-registered for reception; the host defaults to the organizer
+const validateVisitor = [
+  body('name')
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Visitor name must be between 1 and 100 characters'),
+  body('company')
+    .optional({ checkFalsy: true })
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Company must be at most 100 characters'),
+  body('host')
+    .optional({ checkFalsy: true })
+    .isMongoId()
+    .withMessage('Invalid host'),
+  handleValidationErrors
+];
+
+const validateReceptionQuery = [
+  query('date')
+    .optional()
+    .isDate({ format: 'YYYY-MM-DD', strictMode: true })
+    .withMessage('Date must be in YYYY-MM-DD format'),
+  query('site')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid site'),
+  handleValidationErrors
+];
+
+// Agenda items in running order
+const validateAgenda = [
+  body('agenda')
+    .isArray({ max: MAX_AGENDA_ITEMS })
+    .withMessage(`An agenda can have up to ${MAX_AGENDA_ITEMS} items`),
+  body('agenda.*.title')
+    .trim()
+    .isLength({ min: 1, max: 200 })
+    .withMessage('Agenda item titles must be between 1 and 200 characters'),
+  body('agenda.*.durationMinutes')
+    .optional({ checkFalsy: true })
+    .isInt({ min: 1, max: 480 })
+    .withMessage('Agenda item durations must be between 1 and 480 minutes')
+    .toInt(),
+  body('agenda.*.notes')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Agenda item notes cannot exceed 1000 characters'),
+  handleValidationErrors
+];
+
+// Minutes text and the full list of action items; owners are checked against the booking by the controller
+const validateMinutes = [
+  body('notes')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 20000 })
+    .withMessage('Minutes cannot exceed 20000 characters'),
+  body('actionItems')
+    .optional()
+    .isArray({ max: MAX_ACTION_ITEMS })
+    .withMessage(`A meeting can have up to ${MAX_ACTION_ITEMS} action items`),
+  body('actionItems.*._id')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid action item ID'),
+  body('actionItems.*.description')
+    .trim()
+    .isLength({ min: 1, max: 300 })
+    .withMessage('Action items must be between 1 and 300 characters'),
+  body('actionItems.*.owner')
+    .isMongoId()
+    .withMessage('Each action item needs an owner'),
+  body('actionItems.*.dueDate')
+    .optional({ checkFalsy: true })
+    .isISO8601()
+    .withMessage('Due dates must be valid dates'),
+  body('actionItems.*.completed')
+    .optional()
+    .isBoolean()
+    .withMessage('Completed must be true or false')
+    .toBoolean(),
+  handleValidationErrors
+];
+
+const validateActionItemUpdate = [
+  body('completed')
+    .isBoolean()
+    .withMessage('Completed must be true or false')
+    .toBoolean(),
   handleValidationErrors
 ];
 
@@ -171,5 +837,29 @@ module.exports = {
   validateLogin,
   validateBoardroom,
   validateBooking,
-  validateBookingUpdate
+  validateRecurrencePreview,
+  validateBookingUpdate,
+  validateWaitlistEntry,
+  validateApprovalDecision,
+  validateRsvp,
+  validateGuestRsvp,
+  validateClosure,
+  validateMaintenanceWindow,
+  validateSite,
+  validateQuota,
+  validateDelegation,
+  validateRoomSearch,
+  validateFreeBusy,
+  validateTemplate,
+  validateBookingAdjustment,
+  validateTransferRequest,
+  validateHistoryQuery,
+  validateServiceItem,
+  validateServiceQueueQuery,
+  validateServiceStatus,
+  validateVisitor,
+  validateReceptionQuery,
+  validateAgenda,
+  validateMinutes,
+  validateActionItemUpdate
 };
\ No newline at end of file
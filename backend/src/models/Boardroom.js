@@ -1,5 +1,20 @@
 const mongoose = require('mongoose');
 
+const operatingHoursSchema = new mongoose.Schema({
+  day: { type: Number, min: 0, max: 6, required: true }, // 0 = Sunday
+  open: { type: String, required: true },  // 'HH:mm' in the site's timezone
+  close: { type: String, required: true }
+}, { _id: false });
+
+// A period when the room is out of use (e.g. AV servicing) without deactivating it
+const maintenanceWindowSchema = new mongoose.Schema({
+  startTime: { type: Date, required: true },
+  endTime: { type: Date, required: true },
+  reason: { type: String, trim: true, maxlength: 200 },
+  createdBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+  createdAt: { type: Date, default: Date.now }
+});
+
 const boardroomSchema = new mongoose.Schema({
   name: { 
     type: String, 
@@ -11,6 +26,12 @@ const boardroomSchema = new mongoose.Schema({
     required: true,
     min: 1
   },
+  // Building the room is in; its timezone and default hours apply to the room
+  site: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Site'
+  },
+  // Where in the building, e.g. 'Floor 2, East Wing'
   location: { 
     type: String, 
     required: true,
@@ -42,6 +63,37 @@ const boardroomSchema = new mongoose.Schema({
     type: Boolean, 
     default: true 
   },
+  // Bookings for this room start as pending until an approver confirms them
+  requiresApproval: {
+    type: Boolean,
+    default: false
+  },
+  // Minutes blocked before and after every booking to set up and clean the room
+  bufferBefore: {
+    type: Number,
+    default: 0,
+    min: 0,
+    max: 120
+  },
+  bufferAfter: {
+    type: Number,
+    default: 0,
+    min: 0,
+    max: 120
+  },
+  // Room-specific booking rules; anything left unset uses the defaults in utils/bookingPolicy.js
+  bookingPolicy: {
+    operatingHours: {
+      type: [operatingHoursSchema],
+      default: undefined // Days missing from a custom list are closed
+    },
+    minDurationMinutes: { type: Number, min: 5 },
+    maxDurationMinutes: { type: Number, min: 5 },
+    slotMinutes: { type: Number, min: 5, max: 240 },
+    maxAdvanceDays: { type: Number, min: 1 },
+    minLeadMinutes: { type: Number, min: 0 }
+  },
+  maintenanceWindows: [maintenanceWindowSchema],
   description: {
     type: String,
     trim: true
@@ -55,6 +107,7 @@ const boardroomSchema = new mongoose.Schema({
 // Optimized indexes for performance
 boardroomSchema.index({ isActive: 1, capacity: 1 }, { name: 'boardroom_active_capacity' });
 boardroomSchema.index({ location: 1, isActive: 1 }, { name: 'boardroom_location_active' });
+boardroomSchema.index({ site: 1, isActive: 1 }, { name: 'boardroom_site_active' });
 boardroomSchema.index({ 
   name: 'text', 
   description: 'text', 
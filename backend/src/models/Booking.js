@@ -1,5 +1,21 @@
 const mongoose = require('mongoose');
 
+const recurrenceSchema = new mongoose.Schema({
+  frequency: {
+    type: String,
+    enum: ['daily', 'weekly', 'monthly', 'custom'],
+    required: true
+  },
+  interval: Number,
+  count: Number,
+  until: Date,
+  byWeekday: [String],
+  rrule: String
+}, { _id: false });
+
+// An attendee's answer to the invitation; no answer yet means they have not responded
+const RSVP_RESPONSES = ['accepted', 'tentative', 'declined'];
+
 const bookingSchema = new mongoose.Schema({
   user: { 
     type: mongoose.Schema.Types.ObjectId, 
@@ -40,6 +56,31 @@ const bookingSchema = new mongoose.Schema({
       default: function() {
         return this.email.split('@')[0];
       }
+    },
+    response: {
+      type: String,
+      enum: RSVP_RESPONSES
+    },
+    respondedAt: {
+      type: Date
+    }
+  }],
+  // RSVPs of the users in `attendees`; the organizer is taken as attending
+  attendeeResponses: [{
+    _id: false,
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    response: {
+      type: String,
+      enum: RSVP_RESPONSES,
+      required: true
+    },
+    respondedAt: {
+      type: Date,
+      default: Date.now
     }
   }],
   // attendees: { 
@@ -49,13 +90,195 @@ const bookingSchema = new mongoose.Schema({
   // }, // Deprecated: replaced by attendees array above
   status: { 
     type: String, 
-    enum: ['pending', 'confirmed', 'cancelled'], 
+    enum: ['pending', 'confirmed', 'cancelled', 'rejected', 'no_show'], 
     default: 'confirmed' 
   },
+  // Delegate who made the booking for the organizer in `user`; unset when organizers book for themselves
+  bookedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  // Approval decision for rooms that require approval
+  reviewedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  reviewedAt: {
+    type: Date
+  },
+  rejectionReason: {
+    type: String,
+    trim: true
+  },
+  // Check-in; a confirmed booking nobody checks into is released as a no-show
+  checkedInAt: {
+    type: Date
+  },
+  checkedInBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  releasedAt: {
+    type: Date
+  },
+  // Set when a closure is added over an existing booking so an admin can review it
+  closureConflict: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Closure'
+  },
   notes: {
     type: String,
     trim: true
   },
+  // Agendas and documents; the bytes live in the attachment storage backend under storageKey
+  attachments: [{
+    name: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    mimeType: {
+      type: String,
+      required: true
+    },
+    size: {
+      type: Number,
+      required: true
+    },
+    storageKey: {
+      type: String,
+      required: true
+    },
+    uploadedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    uploadedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  // Visitors pre-registered for reception; the host is the organizer or an attendee who meets them
+  visitors: [{
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100
+    },
+    company: {
+      type: String,
+      trim: true,
+      maxlength: 100
+    },
+    host: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    addedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    addedAt: {
+      type: Date,
+      default: Date.now
+    },
+    // Set by reception when the visitor arrives
+    checkedInAt: {
+      type: Date
+    },
+    checkedInBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    }
+  }],
+  // Planned before the meeting; anyone on the booking can edit it
+  agenda: [{
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 200
+    },
+    durationMinutes: {
+      type: Number,
+      min: 1,
+      max: 480
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: 1000
+    }
+  }],
+  // Taken once the meeting has started
+  minutes: {
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: 20000
+    },
+    updatedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    updatedAt: {
+      type: Date
+    }
+  },
+  // Follow-ups from the minutes, each owned by someone on the booking; listed on the owner's dashboard
+  actionItems: [{
+    description: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 300
+    },
+    owner: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    dueDate: {
+      type: Date
+    },
+    completedAt: {
+      type: Date
+    },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  // Recurring series: every occurrence shares a seriesId and a copy of the rule
+  seriesId: {
+    type: mongoose.Schema.Types.ObjectId
+  },
+  seriesIndex: {
+    type: Number
+  },
+  recurrence: {
+    type: recurrenceSchema,
+    default: undefined
+  },
+  // Linked rooms (e.g. a main room plus video-linked overflow rooms): the booking for each room
+  // shares a roomGroupId and is cancelled, moved and edited together; index 0 is the main room
+  roomGroupId: {
+    type: mongoose.Schema.Types.ObjectId
+  },
+  roomGroupIndex: {
+    type: Number
+  },
+  // Key sent by clients that may retry a create (offline sync); a repeat returns the booking already made
+  clientRequestId: {
+    type: String,
+    trim: true
+  },
   createdAt: { 
     type: Date, 
     default: Date.now 
@@ -107,5 +330,13 @@ bookingSchema.index({ createdAt: -1 }, { name: 'booking_created_desc' });
 bookingSchema.index({ attendees: 1 }, { name: 'booking_attendees' });
 bookingSchema.index({ attendees: 1, startTime: -1 }, { name: 'booking_attendees_time' });
 bookingSchema.index({ boardroom: 1, status: 1, startTime: 1, endTime: 1 }, { name: 'booking_conflict_check' });
+bookingSchema.index({ seriesId: 1, startTime: 1 }, { name: 'booking_series_time', sparse: true });
+bookingSchema.index({ roomGroupId: 1, roomGroupIndex: 1 }, { name: 'booking_room_group', sparse: true });
+bookingSchema.index({ bookedBy: 1, startTime: -1 }, { name: 'booking_booked_by_time', sparse: true });
+bookingSchema.index({ 'actionItems.owner': 1 }, { name: 'booking_action_item_owner', sparse: true });
+bookingSchema.index(
+  { user: 1, clientRequestId: 1 },
+  { name: 'booking_user_client_request', unique: true, partialFilterExpression: { clientRequestId: { $type: 'string' } } }
+);
 
 module.exports = mongoose.model('Booking', bookingSchema); 
\ No newline at end of file
@@ -0,0 +1,75 @@
+const mongoose = require('mongoose');
+
+const IMMUTABLE_MESSAGE = 'Booking history entries cannot be changed';
+
+// One change to a field of the booking; values are ids, ISO times or plain text as stored on the booking
+const historyChangeSchema = new mongoose.Schema({
+  field: {
+    type: String,
+    required: true
+  },
+  from: mongoose.Schema.Types.Mixed,
+  to: mongoose.Schema.Types.Mixed
+}, { _id: false });
+
+// One entry in a booking's audit trail: who did what, when, and which fields changed.
+// Entries are only ever added, and outlive the booking so deletions stay on record.
+const bookingHistorySchema = new mongoose.Schema({
+  booking: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Booking',
+    required: true
+  },
+  // Kept on the entry so the trail of a deleted booking still says what it was
+  boardroom: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Boardroom'
+  },
+  purpose: {
+    type: String,
+    trim: true
+  },
+  action: {
+    type: String,
+    enum: ['created', 'updated', 'cancelled', 'deleted', 'opted_out', 'approved', 'rejected', 'checked_in', 'transferred', 'released', 'responded', 'visitor_arrived'],
+    required: true
+  },
+  // Missing for changes the system makes itself, such as releasing a no-show
+  actor: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  actorRole: {
+    type: String,
+    enum: ['user', 'admin', 'system'],
+    required: true
+  },
+  changes: [historyChangeSchema],
+  note: {
+    type: String,
+    trim: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+    immutable: true
+  }
+});
+
+// Only new entries are written; edits and deletes are refused at the model
+bookingHistorySchema.pre('save', function(next) {
+  next(this.isNew ? undefined : new Error(IMMUTABLE_MESSAGE));
+});
+bookingHistorySchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+  function(next) {
+    next(new Error(IMMUTABLE_MESSAGE));
+  }
+);
+
+bookingHistorySchema.index({ booking: 1, createdAt: -1 }, { name: 'history_booking_time' });
+bookingHistorySchema.index({ actor: 1, createdAt: -1 }, { name: 'history_actor_time' });
+bookingHistorySchema.index({ action: 1, createdAt: -1 }, { name: 'history_action_time' });
+bookingHistorySchema.index({ createdAt: -1 }, { name: 'history_recent' });
+
+module.exports = mongoose.model('BookingHistory', bookingHistorySchema);
@@ -0,0 +1,43 @@
+const mongoose = require('mongoose');
+
+// Booking limits for everyone with a role, or everyone in a department.
+// Unset limits mean "no limit"; a department quota overrides the role quota field by field.
+const bookingQuotaSchema = new mongoose.Schema({
+  scope: {
+    type: String,
+    enum: ['role', 'department'],
+    required: true
+  },
+  // The role ('admin' or 'user') or the User.department the quota applies to
+  value: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  // Upcoming active bookings the user organizes, across all rooms
+  maxFutureBookings: {
+    type: Number,
+    min: 0
+  },
+  // Booked hours per Monday-Sunday week, counted in the room's timezone
+  maxHoursPerWeek: {
+    type: Number,
+    min: 0
+  },
+  maxBookingsPerRoomPerDay: {
+    type: Number,
+    min: 0
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// One quota per role or department; department names are compared ignoring case
+bookingQuotaSchema.index(
+  { scope: 1, value: 1 },
+  { name: 'booking_quota_scope_value', unique: true, collation: { locale: 'en', strength: 2 } }
+);
+
+module.exports = mongoose.model('BookingQuota', bookingQuotaSchema);
@@ -0,0 +1,63 @@
+const mongoose = require('mongoose');
+
+// A user's saved starting point for bookings they make often: everything but the date and time
+const bookingTemplateSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  boardroom: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Boardroom'
+  },
+  purpose: {
+    type: String,
+    trim: true,
+    maxlength: 200
+  },
+  attendees: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }],
+  externalAttendees: [{
+    email: {
+      type: String,
+      required: true,
+      trim: true,
+      lowercase: true
+    }
+  }],
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: 1000
+  },
+  // Usual length of the meeting, suggested when the template is used
+  durationMinutes: {
+    type: Number,
+    min: 5
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  modifiedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Template names are unique per user, ignoring case
+bookingTemplateSchema.index(
+  { user: 1, name: 1 },
+  { name: 'booking_template_user_name', unique: true, collation: { locale: 'en', strength: 2 } }
+);
+
+module.exports = mongoose.model('BookingTemplate', bookingTemplateSchema);
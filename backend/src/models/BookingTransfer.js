@@ -0,0 +1,65 @@
+const mongoose = require('mongoose');
+
+// A request to hand a booking (or the rest of its series) over to another organizer.
+// Kept after it is answered as the record of who owned the booking when.
+const bookingTransferSchema = new mongoose.Schema({
+  booking: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Booking',
+    required: true
+  },
+  // For recurring bookings: just this occurrence, this and following, or the whole series
+  scope: {
+    type: String,
+    enum: ['this', 'following', 'series'],
+    default: 'this'
+  },
+  fromUser: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  toUser: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // The organizer, one of their delegates or an admin
+  requestedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  note: {
+    type: String,
+    trim: true
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'accepted', 'declined', 'cancelled'],
+    default: 'pending'
+  },
+  respondedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  respondedAt: {
+    type: Date
+  },
+  // Every occurrence that changed hands when the transfer was accepted
+  bookings: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Booking'
+  }],
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+bookingTransferSchema.index({ toUser: 1, status: 1 }, { name: 'transfer_recipient_status' });
+bookingTransferSchema.index({ fromUser: 1, status: 1 }, { name: 'transfer_owner_status' });
+bookingTransferSchema.index({ booking: 1, createdAt: -1 }, { name: 'transfer_booking_time' });
+bookingTransferSchema.index({ bookings: 1 }, { name: 'transfer_bookings' });
+
+module.exports = mongoose.model('BookingTransfer', bookingTransferSchema);
@@ -0,0 +1,41 @@
+const mongoose = require('mongoose');
+
+// A holiday, office shutdown or other blackout period during which rooms cannot be booked
+const closureSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  // Full-day closures run from business-local midnight on the first day to midnight after the last
+  startTime: {
+    type: Date,
+    required: true
+  },
+  endTime: {
+    type: Date,
+    required: true
+  },
+  allDay: {
+    type: Boolean,
+    default: true
+  },
+  // Boardroom locations the closure applies to; empty means every location
+  locations: {
+    type: [String],
+    default: []
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+closureSchema.index({ startTime: 1, endTime: 1 }, { name: 'closure_time_range' });
+
+module.exports = mongoose.model('Closure', closureSchema);
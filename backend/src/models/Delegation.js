@@ -0,0 +1,24 @@
+const mongoose = require('mongoose');
+
+// Permission for `delegate` (e.g. an executive assistant) to book, edit and cancel for `principal`
+const delegationSchema = new mongoose.Schema({
+  principal: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  delegate: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+delegationSchema.index({ principal: 1, delegate: 1 }, { name: 'delegation_principal_delegate', unique: true });
+delegationSchema.index({ delegate: 1 }, { name: 'delegation_delegate' });
+
+module.exports = mongoose.model('Delegation', delegationSchema);
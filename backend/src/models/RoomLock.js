@@ -0,0 +1,25 @@
+const mongoose = require('mongoose');
+
+// Short-lived claim on a boardroom while a booking is checked and saved; at most one per room.
+// Locks left behind by a crashed request stop counting once they expire.
+const roomLockSchema = new mongoose.Schema({
+  boardroom: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Boardroom',
+    required: true,
+    unique: true
+  },
+  owner: {
+    type: String,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+});
+
+// Let MongoDB clear out expired locks; acquiring already ignores them
+roomLockSchema.index({ expiresAt: 1 }, { name: 'room_lock_expiry', expireAfterSeconds: 0 });
+
+module.exports = mongoose.model('RoomLock', roomLockSchema);
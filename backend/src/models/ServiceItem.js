@@ -0,0 +1,44 @@
+const mongoose = require('mongoose');
+
+// Something facilities can bring to a meeting (coffee, lunch, extra chairs, a projector); managed by admins
+const serviceItemSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    unique: true,
+    maxlength: 100
+  },
+  category: {
+    type: String,
+    enum: ['catering', 'equipment', 'furniture', 'other'],
+    default: 'other'
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 300
+  },
+  // Notice facilities need before the delivery time, e.g. 24 for lunch
+  leadTimeHours: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  maxQuantity: {
+    type: Number,
+    min: 1,
+    default: 50
+  },
+  // Retired items stay on past requests but can no longer be requested
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+module.exports = mongoose.model('ServiceItem', serviceItemSchema);
@@ -0,0 +1,77 @@
+const mongoose = require('mongoose');
+
+// Catering or equipment ordered with a booking, worked through by facilities in the service queue
+const serviceRequestSchema = new mongoose.Schema({
+  booking: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Booking',
+    required: true
+  },
+  // Kept in step with the booking so the queue can be read by room
+  boardroom: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Boardroom',
+    required: true
+  },
+  item: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'ServiceItem',
+    required: true
+  },
+  // Copied from the catalog so the request still reads the same if the item is renamed
+  itemName: {
+    type: String,
+    required: true
+  },
+  quantity: {
+    type: Number,
+    min: 1,
+    required: true
+  },
+  deliverAt: {
+    type: Date,
+    required: true
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: 300
+  },
+  // 'cancelled' is also used when the booking itself is cancelled, rejected, released or deleted
+  status: {
+    type: String,
+    enum: ['requested', 'confirmed', 'delivered', 'cancelled'],
+    default: 'requested'
+  },
+  cancelReason: {
+    type: String,
+    trim: true
+  },
+  // Set when the booking moves or is called off after the request was made, so facilities can recheck it
+  bookingChangedAt: {
+    type: Date
+  },
+  requestedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  // Whoever last changed the status in the queue
+  handledBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+serviceRequestSchema.index({ deliverAt: 1, status: 1 }, { name: 'service_request_queue' });
+serviceRequestSchema.index({ booking: 1 }, { name: 'service_request_booking' });
+serviceRequestSchema.index({ boardroom: 1, deliverAt: 1 }, { name: 'service_request_room_time' });
+
+module.exports = mongoose.model('ServiceRequest', serviceRequestSchema);
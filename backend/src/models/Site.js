@@ -0,0 +1,48 @@
+const mongoose = require('mongoose');
+const moment = require('moment-timezone');
+
+const operatingHoursSchema = new mongoose.Schema({
+  day: { type: Number, min: 0, max: 6, required: true }, // 0 = Sunday
+  open: { type: String, required: true },  // 'HH:mm' in the site's timezone
+  close: { type: String, required: true }
+}, { _id: false });
+
+// An office or building; its boardrooms share its timezone and default opening hours
+const siteSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    unique: true,
+    maxlength: 100
+  },
+  address: {
+    type: String,
+    trim: true,
+    maxlength: 300
+  },
+  // IANA zone name, e.g. 'Africa/Johannesburg'
+  timezone: {
+    type: String,
+    required: true,
+    validate: {
+      validator: (value) => Boolean(moment.tz.zone(value)),
+      message: 'Unknown timezone'
+    }
+  },
+  // Default hours for the site's rooms; rooms with their own hours override these
+  operatingHours: {
+    type: [operatingHoursSchema],
+    default: undefined
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+module.exports = mongoose.model('Site', siteSchema);
@@ -0,0 +1,63 @@
+const mongoose = require('mongoose');
+
+const waitlistEntrySchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  boardroom: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Boardroom',
+    required: true
+  },
+  startTime: {
+    type: Date,
+    required: true
+  },
+  endTime: {
+    type: Date,
+    required: true
+  },
+  purpose: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  notes: {
+    type: String,
+    trim: true
+  },
+  // Book the slot straight away when it frees up instead of offering a claim
+  autoBook: {
+    type: Boolean,
+    default: false
+  },
+  status: {
+    type: String,
+    enum: ['waiting', 'offered', 'fulfilled', 'expired', 'cancelled'],
+    default: 'waiting'
+  },
+  // While an offer is open the slot is held for this user until offerExpiresAt
+  offeredAt: {
+    type: Date
+  },
+  offerExpiresAt: {
+    type: Date
+  },
+  booking: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Booking'
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Queue order per room, the user's own entries, and the offer expiry sweep
+waitlistEntrySchema.index({ boardroom: 1, status: 1, createdAt: 1 }, { name: 'waitlist_room_queue' });
+waitlistEntrySchema.index({ user: 1, status: 1, startTime: 1 }, { name: 'waitlist_user_status' });
+waitlistEntrySchema.index({ status: 1, offerExpiresAt: 1 }, { name: 'waitlist_offer_expiry', sparse: true });
+
+module.exports = mongoose.model('WaitlistEntry', waitlistEntrySchema);
@@ -2,7 +2,9 @@ const express = require('express');
 const multer = require('multer');
 const { 
   getAllBoardrooms, 
+  findRooms,
   getBoardroomById, 
+  getBoardroomPolicy,
   createBoardroom, 
   updateBoardroom, 
   deleteBoardroom,
@@ -11,9 +13,12 @@ const {
   addBoardroomImage,
   removeBoardroomImage,
   uploadBoardroomImage,
-  getImageKitAuth
+  getImageKitAuth,
+  previewMaintenanceWindow,
+  addMaintenanceWindow,
+  removeMaintenanceWindow
 } = require('../controllers/boardroomController');
-const { validateBoardroom } = require('../middleware/validation');
+const { validateBoardroom, validateMaintenanceWindow, validateRoomSearch } = require('../middleware/validation');
 const { authenticateToken, requireAdmin } = require('../middleware/auth');
 
 // Configure multer for file uploads (memory storage)
@@ -35,7 +40,9 @@ const router = express.Router();
 
 // Public routes
 router.get('/', getAllBoardrooms);
+router.get('/find', authenticateToken, validateRoomSearch, findRooms); // Before /:id so "find" is not taken as an ID
 router.get('/:id', getBoardroomById);
+router.get('/:id/policy', getBoardroomPolicy);
 
 // Admin routes
 router.get('/admin/all', authenticateToken, requireAdmin, getAllBoardroomsAdmin);
@@ -46,6 +53,9 @@ router.delete('/:id/permanent', authenticateToken, requireAdmin, permanentDelete
 router.post('/:id/images', authenticateToken, requireAdmin, addBoardroomImage);
 router.post('/:id/upload-image', authenticateToken, requireAdmin, upload.single('image'), uploadBoardroomImage);
 router.delete('/:id/images/:imageIndex', authenticateToken, requireAdmin, removeBoardroomImage);
+router.post('/:id/maintenance/preview', authenticateToken, requireAdmin, validateMaintenanceWindow, previewMaintenanceWindow);
+router.post('/:id/maintenance', authenticateToken, requireAdmin, validateMaintenanceWindow, addMaintenanceWindow);
+router.delete('/:id/maintenance/:windowId', authenticateToken, requireAdmin, removeMaintenanceWindow);
 
 // ImageKit authentication endpoint
 router.get('/imagekit-auth', authenticateToken, requireAdmin, getImageKitAuth);
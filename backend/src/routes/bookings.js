@@ -1,31 +1,104 @@
 const express = require('express');
+const multer = require('multer');
 const { 
   getUserBookings, 
   createBooking, 
+  previewRecurringBooking,
   updateBooking,
   cancelBooking,
   deleteBooking,
   adminCancelBooking,
   adminDeleteBooking, 
+  checkInBooking,
+  checkInToRoom,
+  getBookingAdjustments,
+  extendBooking,
+  shortenBooking,
+  endBookingNow,
+  getPendingApprovals,
+  approveBooking,
+  rejectBooking,
   getBoardroomAvailability,
   getDetailedAvailability,
+  getFreeBusy,
   getAllBookings,
+  getBookingHistory,
+  getHistoryLog,
   optOutOfBooking // Import opt-out controller
 } = require('../controllers/bookingController');
-const { validateBooking, validateBookingUpdate } = require('../middleware/validation');
+const {
+  uploadAttachments,
+  downloadAttachment,
+  downloadAttachmentByLink,
+  removeAttachment
+} = require('../controllers/attachmentController');
+const { respondToBooking, recordExternalResponse, getGuestInvitation, respondAsGuest } = require('../controllers/rsvpController');
+const { addVisitor, removeVisitor, getReceptionList, checkInVisitor } = require('../controllers/visitorController');
+const { updateAgenda, updateMinutes, getMyActionItems, updateActionItem } = require('../controllers/meetingNotesController');
+const { validateBooking, validateRecurrencePreview, validateBookingUpdate, validateApprovalDecision, validateRsvp, validateGuestRsvp, validateBookingAdjustment, validateFreeBusy, validateHistoryQuery, validateVisitor, validateReceptionQuery, validateAgenda, validateMinutes, validateActionItemUpdate } = require('../middleware/validation');
 const { authenticateToken, requireAdmin } = require('../middleware/auth');
+const { MAX_ATTACHMENT_MB, MAX_ATTACHMENT_BYTES, MAX_ATTACHMENTS_PER_BOOKING, ATTACHMENT_TYPES } = require('../utils/bookingAttachments');
+
+// Configure multer for booking attachments (memory storage; the controller hands files to attachment storage)
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_ATTACHMENT_BYTES,
+    files: MAX_ATTACHMENTS_PER_BOOKING
+  },
+  fileFilter: (req, file, cb) => {
+    if (ATTACHMENT_TYPES.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only documents, spreadsheets, presentations, text files and images can be attached'), false);
+    }
+  }
+});
+
+// A file that is too large or of the wrong type is the uploader's mistake, not a server error
+const receiveAttachments = (req, res, next) => upload.array('files')(req, res, (error) => {
+  if (!error) return next();
+  const message = error.code === 'LIMIT_FILE_SIZE' ? `Files can be at most ${MAX_ATTACHMENT_MB} MB` : error.message;
+  res.status(400).json({ message });
+});
 
 const router = express.Router();
 
 // User routes
 router.get('/my-bookings', authenticateToken, getUserBookings);
+router.get('/action-items', authenticateToken, getMyActionItems);
 router.get('/calendar', authenticateToken, getAllBookings); // Calendar view - all bookings for users
+router.get('/free-busy', authenticateToken, validateFreeBusy, getFreeBusy);
 router.post('/', authenticateToken, validateBooking, createBooking);
+router.post('/recurrence/preview', authenticateToken, validateRecurrencePreview, previewRecurringBooking);
 router.put('/:id', authenticateToken, validateBookingUpdate, updateBooking);
 router.delete('/:id', authenticateToken, deleteBooking);
 router.patch('/:id/opt-out', authenticateToken, optOutOfBooking); // Opt-out route
+router.put('/:id/rsvp', authenticateToken, validateRsvp, respondToBooking);
+router.put('/:id/rsvp/external', authenticateToken, validateRsvp, recordExternalResponse);
 router.put('/:id/cancel', authenticateToken, cancelBooking);
+router.post('/:id/check-in', authenticateToken, checkInBooking);
+router.post('/room/:boardroomId/check-in', authenticateToken, checkInToRoom);
+router.get('/:id/adjustments', authenticateToken, getBookingAdjustments);
+router.post('/:id/extend', authenticateToken, validateBookingAdjustment, extendBooking);
+router.post('/:id/shorten', authenticateToken, validateBookingAdjustment, shortenBooking);
+router.post('/:id/end', authenticateToken, endBookingNow);
+// Registered before /:id/history so "admin" is not read as a booking id
+router.get('/admin/history', authenticateToken, requireAdmin, validateHistoryQuery, getHistoryLog);
+router.get('/admin/reception', authenticateToken, requireAdmin, validateReceptionQuery, getReceptionList);
+router.get('/:id/history', authenticateToken, getBookingHistory);
+router.post('/:id/attachments', authenticateToken, receiveAttachments, uploadAttachments);
+router.get('/:id/attachments/:attachmentId', authenticateToken, downloadAttachment);
+router.delete('/:id/attachments/:attachmentId', authenticateToken, removeAttachment);
+router.post('/:id/visitors', authenticateToken, validateVisitor, addVisitor);
+router.delete('/:id/visitors/:visitorId', authenticateToken, removeVisitor);
+router.put('/:id/agenda', authenticateToken, validateAgenda, updateAgenda);
+router.put('/:id/minutes', authenticateToken, validateMinutes, updateMinutes);
+router.patch('/:id/action-items/:itemId', authenticateToken, validateActionItemUpdate, updateActionItem);
 // Public routes
+router.get('/:id/attachments/:attachmentId/download', downloadAttachmentByLink); // Signed link from an email
+router.get('/:id/rsvp/guest', getGuestInvitation); // Signed link from a guest's invitation
+router.put('/:id/rsvp/guest', validateGuestRsvp, respondAsGuest);
 router.get('/availability/:id', getBoardroomAvailability);
 router.get('/detailed-availability/:boardroomId', getDetailedAvailability);
 
@@ -33,6 +106,10 @@ router.get('/detailed-availability/:boardroomId', getDetailedAvailability);
 router.get('/all', authenticateToken, requireAdmin, getAllBookings);
 router.put('/admin/:id/cancel', authenticateToken, requireAdmin, adminCancelBooking);
 router.delete('/admin/:id', authenticateToken, requireAdmin, adminDeleteBooking);
+router.get('/admin/approvals', authenticateToken, requireAdmin, getPendingApprovals);
+router.put('/admin/:id/approve', authenticateToken, requireAdmin, validateApprovalDecision, approveBooking);
+router.put('/admin/:id/reject', authenticateToken, requireAdmin, validateApprovalDecision, rejectBooking);
+router.post('/admin/:id/visitors/:visitorId/check-in', authenticateToken, requireAdmin, checkInVisitor);
 
 
 
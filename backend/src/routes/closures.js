@@ -0,0 +1,24 @@
+const express = require('express');
+const {
+  getClosures,
+  createClosure,
+  updateClosure,
+  deleteClosure,
+  getClosureAffectedBookings
+} = require('../controllers/closureController');
+const { validateClosure } = require('../middleware/validation');
+const { authenticateToken, requireAdmin } = require('../middleware/auth');
+
+const router = express.Router();
+
+// Closures in a date range, shown on every calendar
+router.get('/', authenticateToken, getClosures);
+
+// Admin routes
+router.post('/', authenticateToken, requireAdmin, validateClosure, createClosure);
+router.put('/:id', authenticateToken, requireAdmin, validateClosure, updateClosure);
+router.delete('/:id', authenticateToken, requireAdmin, deleteClosure);
+// Existing bookings that fall on the closure and still need attention
+router.get('/:id/affected-bookings', authenticateToken, requireAdmin, getClosureAffectedBookings);
+
+module.exports = router;
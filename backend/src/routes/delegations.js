@@ -0,0 +1,16 @@
+const express = require('express');
+const {
+  getMyDelegations,
+  grantDelegation,
+  revokeDelegation
+} = require('../controllers/delegationController');
+const { validateDelegation } = require('../middleware/validation');
+const { authenticateToken } = require('../middleware/auth');
+
+const router = express.Router();
+
+router.get('/', authenticateToken, getMyDelegations);
+router.post('/', authenticateToken, validateDelegation, grantDelegation);
+router.delete('/:id', authenticateToken, revokeDelegation);
+
+module.exports = router;
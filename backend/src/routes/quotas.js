@@ -0,0 +1,22 @@
+const express = require('express');
+const {
+  getQuotas,
+  createQuota,
+  updateQuota,
+  deleteQuota,
+  getMyQuota
+} = require('../controllers/quotaController');
+const { validateQuota } = require('../middleware/validation');
+const { authenticateToken, requireAdmin } = require('../middleware/auth');
+
+const router = express.Router();
+
+router.get('/me', authenticateToken, getMyQuota);
+
+// Admin routes
+router.get('/', authenticateToken, requireAdmin, getQuotas);
+router.post('/', authenticateToken, requireAdmin, validateQuota, createQuota);
+router.put('/:id', authenticateToken, requireAdmin, validateQuota, updateQuota);
+router.delete('/:id', authenticateToken, requireAdmin, deleteQuota);
+
+module.exports = router;
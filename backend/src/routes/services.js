@@ -0,0 +1,30 @@
+const express = require('express');
+const {
+  getServiceItems,
+  createServiceItem,
+  updateServiceItem,
+  deleteServiceItem,
+  getServiceQueue,
+  updateServiceRequestStatus,
+  getBookingServiceRequests
+} = require('../controllers/serviceController');
+const {
+  validateServiceItem,
+  validateServiceQueueQuery,
+  validateServiceStatus
+} = require('../middleware/validation');
+const { authenticateToken, requireAdmin } = require('../middleware/auth');
+
+const router = express.Router();
+
+router.get('/items', authenticateToken, getServiceItems);
+router.get('/booking/:bookingId', authenticateToken, getBookingServiceRequests);
+
+// Admin routes
+router.post('/items', authenticateToken, requireAdmin, validateServiceItem, createServiceItem);
+router.put('/items/:id', authenticateToken, requireAdmin, validateServiceItem, updateServiceItem);
+router.delete('/items/:id', authenticateToken, requireAdmin, deleteServiceItem);
+router.get('/queue', authenticateToken, requireAdmin, validateServiceQueueQuery, getServiceQueue);
+router.patch('/requests/:id', authenticateToken, requireAdmin, validateServiceStatus, updateServiceRequestStatus);
+
+module.exports = router;
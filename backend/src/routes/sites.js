@@ -0,0 +1,22 @@
+const express = require('express');
+const {
+  getSites,
+  getSiteById,
+  createSite,
+  updateSite,
+  deleteSite
+} = require('../controllers/siteController');
+const { validateSite } = require('../middleware/validation');
+const { authenticateToken, requireAdmin } = require('../middleware/auth');
+
+const router = express.Router();
+
+router.get('/', authenticateToken, getSites);
+router.get('/:id', authenticateToken, getSiteById);
+
+// Admin routes
+router.post('/', authenticateToken, requireAdmin, validateSite, createSite);
+router.put('/:id', authenticateToken, requireAdmin, validateSite, updateSite);
+router.delete('/:id', authenticateToken, requireAdmin, deleteSite);
+
+module.exports = router;
@@ -0,0 +1,18 @@
+const express = require('express');
+const {
+  getMyTemplates,
+  createTemplate,
+  updateTemplate,
+  deleteTemplate
+} = require('../controllers/templateController');
+const { validateTemplate } = require('../middleware/validation');
+const { authenticateToken } = require('../middleware/auth');
+
+const router = express.Router();
+
+router.get('/', authenticateToken, getMyTemplates);
+router.post('/', authenticateToken, validateTemplate, createTemplate);
+router.put('/:id', authenticateToken, validateTemplate, updateTemplate);
+router.delete('/:id', authenticateToken, deleteTemplate);
+
+module.exports = router;
@@ -0,0 +1,22 @@
+const express = require('express');
+const {
+  requestTransfer,
+  getMyTransfers,
+  getBookingTransfers,
+  acceptTransfer,
+  declineTransfer,
+  cancelTransfer
+} = require('../controllers/transferController');
+const { validateTransferRequest } = require('../middleware/validation');
+const { authenticateToken } = require('../middleware/auth');
+
+const router = express.Router();
+
+router.get('/', authenticateToken, getMyTransfers);
+router.get('/booking/:bookingId', authenticateToken, getBookingTransfers);
+router.post('/', authenticateToken, validateTransferRequest, requestTransfer);
+router.put('/:id/accept', authenticateToken, acceptTransfer);
+router.put('/:id/decline', authenticateToken, declineTransfer);
+router.put('/:id/cancel', authenticateToken, cancelTransfer);
+
+module.exports = router;
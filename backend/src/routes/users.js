@@ -2,6 +2,9 @@ const express = require('express');
 const bcrypt = require('bcryptjs');
 const User = require('../models/User');
 const Booking = require('../models/Booking');
+const Delegation = require('../models/Delegation');
+const BookingTransfer = require('../models/BookingTransfer');
+const BookingTemplate = require('../models/BookingTemplate');
 const { authenticateToken, requireAdmin } = require('../middleware/auth');
 
 const router = express.Router();
@@ -85,7 +88,7 @@ router.get('/profile/stats', authenticateToken, async (req, res) => {
     const upcomingBookings = await Booking.countDocuments({ 
       attendees: userId,
       startTime: { $gte: now },
-      status: { $nin: ['cancelled'] }
+      status: { $nin: ['cancelled', 'rejected'] }
     });
 
     // Get completed bookings (where user was an attendee and booking is in the past)
@@ -198,6 +201,13 @@ router.delete('/:id', authenticateToken, requireAdmin, async (req, res) => {
     }
 
     await User.findByIdAndDelete(id);
+    await Delegation.deleteMany({ $or: [{ principal: id }, { delegate: id }] });
+    await BookingTemplate.deleteMany({ user: id });
+    // Pending handovers to or from the user can no longer complete; answered ones stay as history
+    await BookingTransfer.updateMany(
+      { status: 'pending', $or: [{ fromUser: id }, { toUser: id }] },
+      { $set: { status: 'cancelled', respondedAt: new Date() } }
+    );
     res.json({ message: 'User deleted successfully' });
   } catch (error) {
     console.error('Error deleting user:', error);
@@ -0,0 +1,22 @@
+const express = require('express');
+const {
+  joinWaitlist,
+  getMyWaitlist,
+  leaveWaitlist,
+  claimWaitlistOffer
+} = require('../controllers/waitlistController');
+const { validateWaitlistEntry } = require('../middleware/validation');
+const { authenticateToken } = require('../middleware/auth');
+
+const router = express.Router();
+
+// Join the waitlist for a booked-out room and time range
+router.post('/', authenticateToken, validateWaitlistEntry, joinWaitlist);
+// The user's active waitlist entries
+router.get('/mine', authenticateToken, getMyWaitlist);
+// Claim an open offer as a booking
+router.post('/:id/claim', authenticateToken, claimWaitlistOffer);
+// Leave the waitlist
+router.delete('/:id', authenticateToken, leaveWaitlist);
+
+module.exports = router;
@@ -0,0 +1,62 @@
+// backend/src/services/attachmentStorage.js
+// Where booking attachments are kept. ATTACHMENT_STORAGE picks the backend; every backend saves a file under a
+// key it generates, opens it again by that key and deletes it. Another backend (e.g. object storage) is a class
+// with the same three methods plus an entry in STORAGE_BACKENDS.
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+// Files on the local disk, for development and single-server installs
+class LocalAttachmentStorage {
+  constructor(directory) {
+    this.directory = path.resolve(directory);
+  }
+
+  // Keys are generated here, but anything that would step outside the directory is refused all the same
+  resolvePath(key) {
+    const filePath = path.resolve(this.directory, key);
+    if (path.dirname(filePath) !== this.directory) {
+      throw new Error('Invalid attachment key');
+    }
+    return filePath;
+  }
+
+  async save(buffer) {
+    const key = crypto.randomUUID();
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.writeFile(this.resolvePath(key), buffer);
+    return key;
+  }
+
+  // A readable stream of the file, or null when it is gone
+  async open(key) {
+    const filePath = this.resolvePath(key);
+    try {
+      await fs.promises.access(filePath);
+    } catch (error) {
+      return null;
+    }
+    return fs.createReadStream(filePath);
+  }
+
+  async remove(key) {
+    await fs.promises.rm(this.resolvePath(key), { force: true });
+  }
+}
+
+const STORAGE_BACKENDS = {
+  local: () => new LocalAttachmentStorage(process.env.ATTACHMENT_DIR || path.join(__dirname, '../../uploads/attachments'))
+};
+
+const createAttachmentStorage = () => {
+  const backend = process.env.ATTACHMENT_STORAGE || 'local';
+  if (!STORAGE_BACKENDS[backend]) {
+    throw new Error(`Unknown attachment storage backend "${backend}"`);
+  }
+  return STORAGE_BACKENDS[backend]();
+};
+
+// Create singleton instance
+const attachmentStorage = createAttachmentStorage();
+
+module.exports = attachmentStorage;
@@ -3,6 +3,12 @@ const nodemailer = require('nodemailer');
 const handlebars = require('handlebars');
 const fs = require('fs').promises;
 const path = require('path');
+const { describeRecurrence } = require('../utils/recurrence');
+const { getRoomTimezone, formatRoomTime } = require('../utils/bookingPolicy');
+const { ATTACHMENT_LINK_DAYS, getAttachmentDownloadUrl } = require('../utils/bookingAttachments');
+
+// Times are shown in the booked room's timezone, which renderTemplate puts on the root context
+const getTemplateTimezone = (options) => options.data.root.timezone;
 
 class EmailService {
   constructor() {
@@ -14,9 +20,10 @@ class EmailService {
 
   setupHandlebarsHelpers() {
     // Date formatting helper
-    handlebars.registerHelper('formatDate', (date) => {
+    handlebars.registerHelper('formatDate', (date, options) => {
       if (!date) return '';
       return new Date(date).toLocaleDateString('en-US', {
+        timeZone: getTemplateTimezone(options),
         weekday: 'long',
         year: 'numeric',
         month: 'long',
@@ -25,19 +32,22 @@ class EmailService {
     });
 
     // Time formatting helper
-    handlebars.registerHelper('formatTime', (date) => {
+    handlebars.registerHelper('formatTime', (date, options) => {
       if (!date) return '';
       return new Date(date).toLocaleTimeString('en-US', {
+        timeZone: getTemplateTimezone(options),
         hour: '2-digit',
         minute: '2-digit',
-        hour12: true
+        hour12: true,
+        timeZoneName: 'short'
       });
     });
 
     // Date and time formatting helper
-    handlebars.registerHelper('formatDateTime', (date) => {
+    handlebars.registerHelper('formatDateTime', (date, options) => {
       if (!date) return '';
       return new Date(date).toLocaleString('en-US', {
+        timeZone: getTemplateTimezone(options),
         weekday: 'long',
         year: 'numeric',
         month: 'long',
@@ -47,6 +57,13 @@ class EmailService {
         hour12: true
       });
     });
+
+    // Recurring series summary helper, e.g. "Weekly on Mon, 10 times"
+    handlebars.registerHelper('describeRecurrence', (recurrence) => describeRecurrence(recurrence));
+
+    // Download link for one of the booking's attachments, signed for the email's recipient
+    handlebars.registerHelper('attachmentUrl', (attachment, options) =>
+      getAttachmentDownloadUrl(options.data.root.booking, attachment, options.data.root.user));
   }
 
   async loadTemplate(templateName) {
@@ -79,7 +96,8 @@ class EmailService {
       allowProtoMethodsByDefault: true
     };
     
-    return template(context, runtimeOptions);
+    const timezone = getRoomTimezone(context.booking && context.booking.boardroom);
+    return template({ timezone, ...context }, runtimeOptions);
   }
 
   async initializeTransporter() {
@@ -186,8 +204,9 @@ Hello ${user.name},
 ${type === 'created' ? 'You have been invited to a meeting:' : 'The following meeting has been cancelled:'}
 
 Meeting: ${booking.purpose}
+Organizer: ${(organizer || booking.user).name}${booking.bookedBy && booking.bookedBy.name ? ` (booked by ${booking.bookedBy.name})` : ''}
 Room: ${booking.boardroom.name} (${booking.boardroom.location})
-Time: ${new Date(booking.startTime).toLocaleString('en-US', { timeZoneName: 'short' })} - ${new Date(booking.endTime).toLocaleString('en-US', { timeZoneName: 'short' })}
+Time: ${formatRoomTime(booking.startTime, booking.boardroom)} - ${formatRoomTime(booking.endTime, booking.boardroom)}
 
 ${booking.notes ? `Notes: ${booking.notes}` : ''}
 
@@ -199,6 +218,35 @@ Boardroom Booking System
     }
   }
 
+  // Tell the organizer whether a booking that needed approval was approved or rejected
+  async sendApprovalDecision(booking, reviewer, approved) {
+    const subject = approved
+      ? `Booking Approved: ${booking.purpose}`
+      : `Booking Rejected: ${booking.purpose}`;
+
+    try {
+      const htmlContent = await this.renderTemplate(approved ? 'booking-approved' : 'booking-rejected', {
+        booking,
+        user: booking.user,
+        reviewer
+      });
+      return await this.sendEmail(booking.user.email, subject, htmlContent, true);
+    } catch (error) {
+      console.error('❌ Approval template rendering failed, falling back to plain text:', error.message);
+
+      const content = `
+Hello ${booking.user.name},
+
+Your booking request "${booking.purpose}" in ${booking.boardroom.name} on ${formatRoomTime(booking.startTime, booking.boardroom)} has been ${approved ? 'approved' : 'rejected'}.
+${approved ? '' : `\nReason: ${booking.rejectionReason}\n`}
+Best regards,
+Boardroom Booking System
+      `;
+
+      return await this.sendEmail(booking.user.email, subject, content);
+    }
+  }
+
   // Send meeting reminder using template
   async sendMeetingReminder(booking, user) {
     try {
@@ -218,6 +266,23 @@ Boardroom Booking System
       return { success: false, message: error.message };
     }
   }
+
+  // Files attached after the invitation went out, with a download link for each made out to the recipient
+  async sendAttachmentNotice(booking, recipient, attachments, uploader) {
+    const subject = `New documents: ${booking.purpose}`;
+    const links = attachments
+      .map(attachment => `<li><a href="${getAttachmentDownloadUrl(booking, attachment, recipient)}">${handlebars.escapeExpression(attachment.name)}</a></li>`)
+      .join('');
+    const html = `
+      <p>Hello ${handlebars.escapeExpression(recipient.name || recipient.email)},</p>
+      <p>${handlebars.escapeExpression(uploader.name)} attached ${attachments.length === 1 ? 'a document' : 'documents'} to <strong>${handlebars.escapeExpression(booking.purpose)}</strong>
+        in ${booking.boardroom.name} on ${formatRoomTime(booking.startTime, booking.boardroom)}:</p>
+      <ul>${links}</ul>
+      <p>The links work until ${ATTACHMENT_LINK_DAYS} days after the meeting.</p>
+    `;
+
+    return await this.sendEmail(recipient.email, subject, html, true);
+  }
 }
 
 const emailService = new EmailService();
@@ -0,0 +1,101 @@
+// backend/src/services/noShowScheduler.js
+const cron = require('node-cron');
+const moment = require('moment-timezone');
+const Booking = require('../models/Booking');
+const Notification = require('../models/Notification');
+const emailService = require('./emailService');
+const waitlistService = require('./waitlistService');
+const { CHECK_IN_GRACE_MINUTES, getRoomTimezone, boardroomWithSite } = require('../utils/bookingRules');
+const { recordBookingHistory } = require('../utils/bookingHistory');
+const { voidServiceRequests } = require('../utils/serviceRequests');
+
+class NoShowScheduler {
+  constructor() {
+    this.startCronJobs();
+  }
+
+  startCronJobs() {
+    // Check every minute so a released room is bookable as soon as possible
+    cron.schedule('* * * * *', () => {
+      this.releaseNoShows();
+    });
+
+    console.log('🚪 No-show release scheduler started');
+  }
+
+  // Confirmed bookings whose check-in window has closed without a check-in.
+  // Only bookings that are still running are released; finished ones have nothing to free.
+  async releaseNoShows() {
+    try {
+      const now = new Date();
+      const checkInClosedBefore = new Date(now.getTime() - CHECK_IN_GRACE_MINUTES * 60 * 1000);
+
+      const noShows = await Booking.find({
+        status: 'confirmed',
+        checkedInAt: null,
+        startTime: { $lte: checkInClosedBefore },
+        endTime: { $gt: now }
+      })
+      .populate('user', 'name email')
+      .populate(boardroomWithSite('name location'));
+
+      // Linked rooms are one meeting: a check-in in any of them keeps them all
+      const checkedInGroups = (await Booking.distinct('roomGroupId', {
+        roomGroupId: { $in: noShows.map(booking => booking.roomGroupId).filter(Boolean) },
+        checkedInAt: { $ne: null }
+      })).map(String);
+      const released = noShows.filter(booking => !booking.roomGroupId || !checkedInGroups.includes(String(booking.roomGroupId)));
+
+      for (const booking of released) {
+        booking.status = 'no_show';
+        booking.releasedAt = now;
+        booking.modifiedAt = now;
+        await booking.save();
+        await recordBookingHistory(booking, 'released', null, {
+          changes: [{ field: 'status', from: 'confirmed', to: 'no_show' }],
+          note: `Nobody checked in within ${CHECK_IN_GRACE_MINUTES} minutes of the start time`
+        });
+        await voidServiceRequests(booking, 'The booking was released because nobody checked in');
+
+        await Notification.create({
+          user: booking.user._id,
+          message: `"${booking.purpose}" in ${booking.boardroom.name} was released because nobody checked in within ${CHECK_IN_GRACE_MINUTES} minutes of the start time`,
+          booking: booking._id
+        });
+
+        await this.sendReleaseEmail(booking);
+        await waitlistService.releaseSlot(booking);
+      }
+
+      if (released.length > 0) {
+        console.log(`🚪 Released ${released.length} no-show booking${released.length === 1 ? '' : 's'}`);
+      }
+    } catch (error) {
+      console.error('Error releasing no-show bookings:', error);
+    }
+  }
+
+  async sendReleaseEmail(booking) {
+    const timezone = getRoomTimezone(booking.boardroom);
+    const start = moment.tz(booking.startTime, timezone);
+    const subject = `Booking released: ${booking.purpose}`;
+    const html = `
+      <h2>Your booking was released</h2>
+      <p><strong>Meeting:</strong> ${booking.purpose}</p>
+      <p><strong>Room:</strong> ${booking.boardroom.name} - ${booking.boardroom.location}</p>
+      <p><strong>Time:</strong> ${start.format('ddd D MMM, HH:mm')} - ${moment.tz(booking.endTime, timezone).format('HH:mm z')}</p>
+      <p>Nobody checked in within ${CHECK_IN_GRACE_MINUTES} minutes of the start time, so the room has been recorded as a no-show and made available to others.</p>
+    `;
+
+    try {
+      await emailService.sendEmail(booking.user.email, subject, html, true);
+    } catch (emailError) {
+      console.error('No-show release email failed:', emailError);
+    }
+  }
+}
+
+// Create singleton instance
+const noShowScheduler = new NoShowScheduler();
+
+module.exports = noShowScheduler;
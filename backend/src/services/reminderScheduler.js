@@ -2,6 +2,7 @@
 const cron = require('node-cron');
 const Booking = require('../models/Booking');
 const emailService = require('./emailService');
+const { boardroomWithSite } = require('../utils/bookingRules');
 
 class ReminderScheduler {
   constructor() {
@@ -33,7 +34,7 @@ class ReminderScheduler {
         }
       })
       .populate('attendees', 'name email')
-      .populate('boardroom', 'name location capacity amenities')
+      .populate(boardroomWithSite('name location capacity amenities'))
       .populate('user', 'name email');
 
       for (const booking of upcomingBookings) {
@@ -85,7 +86,7 @@ class ReminderScheduler {
           // Re-fetch booking to ensure it's still valid
           const currentBooking = await Booking.findById(booking._id)
             .populate('attendees', 'name email')
-            .populate('boardroom', 'name location capacity amenities');
+            .populate(boardroomWithSite('name location capacity amenities'));
             
           if (currentBooking && currentBooking.status === 'confirmed') {
             await this.sendMeetingReminder(currentBooking);
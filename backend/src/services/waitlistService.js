@@ -0,0 +1,250 @@
+// backend/src/services/waitlistService.js
+const cron = require('node-cron');
+const moment = require('moment-timezone');
+const Booking = require('../models/Booking');
+const Boardroom = require('../models/Boardroom');
+const WaitlistEntry = require('../models/WaitlistEntry');
+const Notification = require('../models/Notification');
+const User = require('../models/User');
+const emailService = require('./emailService');
+const {
+  getRoomTimezone,
+  boardroomWithSite,
+  getRoomBuffers,
+  getBufferedRange,
+  validateBookingWindow,
+  findConflictingBooking,
+  getConflictReason,
+  getBlockedReason
+} = require('../utils/bookingRules');
+const { withRoomLocks } = require('../utils/roomLock');
+const { recordBookingHistory } = require('../utils/bookingHistory');
+const { checkBookingQuota } = require('../utils/bookingQuota');
+const { requiresApproval, notifyApprovers } = require('../utils/approvals');
+
+// How long a waitlisted user has to claim a freed slot before it passes to the next person
+const CLAIM_WINDOW_MINUTES = parseInt(process.env.WAITLIST_CLAIM_MINUTES) || 30;
+
+// Times are shown in the room's timezone; needs boardroom.site populated
+const formatTime = (date, boardroom) => moment.tz(date, getRoomTimezone(boardroom)).format('ddd D MMM, HH:mm z');
+
+class WaitlistService {
+  constructor() {
+    this.startCronJobs();
+  }
+
+  startCronJobs() {
+    // Sweep lapsed offers every minute so the next person in line is not kept waiting
+    cron.schedule('* * * * *', () => {
+      this.expireOffers();
+    });
+
+    console.log('📋 Waitlist offer scheduler started');
+  }
+
+  // An open claim on an overlapping range that belongs to someone other than userId
+  findActiveHold(boardroom, startTime, endTime, userId) {
+    return WaitlistEntry.findOne({
+      boardroom,
+      status: 'offered',
+      offerExpiresAt: { $gt: new Date() },
+      ...(userId && { user: { $ne: userId } }),
+      startTime: { $lt: new Date(endTime) },
+      endTime: { $gt: new Date(startTime) }
+    });
+  }
+
+  // Why an entry's slot cannot be booked for its owner right now, or null. These are the checks
+  // createBooking makes: policy and booking window, closures and maintenance, other bookings,
+  // other people's holds and the owner's quota. Needs room.site populated.
+  async getBookingBlocker(entry, room) {
+    const userId = entry.user._id || entry.user;
+    const slot = { startTime: entry.startTime, endTime: entry.endTime };
+
+    const windowError = validateBookingWindow(slot.startTime, slot.endTime, room);
+    if (windowError) return windowError;
+
+    const blockedReason = await getBlockedReason(room, slot.startTime, slot.endTime);
+    if (blockedReason) return blockedReason;
+
+    const conflict = await findConflictingBooking(room._id, slot.startTime, slot.endTime);
+    if (conflict) return getConflictReason(conflict, slot.startTime, slot.endTime);
+
+    const hold = await this.findActiveHold(room._id, slot.startTime, slot.endTime, userId);
+    if (hold) return 'This time slot is being held for someone else on the waitlist';
+
+    return checkBookingQuota(userId, room, [slot]);
+  }
+
+  // Called whenever a booking stops occupying its room (cancelled, deleted or moved).
+  // Entries are served in the order they joined; each one that now fits is either
+  // booked straight away (autoBook) or offered a time-limited claim.
+  async releaseSlot({ boardroom, startTime, endTime }, io) {
+    try {
+      const now = new Date();
+      if (new Date(endTime) <= now) return [];
+
+      // Entries that only clashed with the released booking's buffers may fit now too
+      const room = await Boardroom.findById(boardroom._id || boardroom).populate('site');
+      const released = getBufferedRange(startTime, endTime, getRoomBuffers(room));
+
+      const candidates = await WaitlistEntry.find({
+        boardroom: boardroom._id || boardroom,
+        status: 'waiting',
+        startTime: { $lt: released.end, $gt: now },
+        endTime: { $gt: released.start }
+      }).sort({ createdAt: 1 });
+
+      const served = [];
+      // Auto-booking claims room time, so the room stays locked while entries are served
+      const { locked } = await withRoomLocks(boardroom._id || boardroom, async () => {
+        for (const entry of candidates) {
+          // Earlier entries served in this loop show up here as a booking or a hold
+          if (await this.getBookingBlocker(entry, room)) continue;
+
+          served.push(entry.autoBook ? await this.bookForEntry(entry, room, io) : await this.offerSlot(entry));
+        }
+      });
+
+      if (!locked) {
+        console.warn('📋 Waitlist: room stayed locked, released slot not served');
+      }
+
+      if (served.length > 0) {
+        console.log(`📋 Waitlist: served ${served.length} entr${served.length === 1 ? 'y' : 'ies'} for a released slot`);
+      }
+      return served;
+    } catch (error) {
+      console.error('Waitlist release error:', error);
+      return [];
+    }
+  }
+
+  async offerSlot(entry) {
+    entry.status = 'offered';
+    entry.offeredAt = new Date();
+    entry.offerExpiresAt = new Date(Date.now() + CLAIM_WINDOW_MINUTES * 60 * 1000);
+    await entry.save();
+    await entry.populate([
+      { path: 'user', select: 'name email' },
+      boardroomWithSite('name location')
+    ]);
+
+    await Notification.create({
+      user: entry.user._id,
+      message: `${entry.boardroom.name} is now free on ${formatTime(entry.startTime, entry.boardroom)}. Claim it before ${formatTime(entry.offerExpiresAt, entry.boardroom)}`
+    });
+
+    await this.sendOfferEmail(entry);
+    return entry;
+  }
+
+  // Turn a waitlist entry into a booking for its owner; in rooms that require approval it waits
+  // as pending like any other request. Callers check getBookingBlocker first, with the room locked.
+  async bookForEntry(entry, room, io) {
+    const owner = await User.findById(entry.user._id || entry.user).select('role');
+    const booking = await Booking.create({
+      user: owner._id,
+      boardroom: room._id,
+      startTime: entry.startTime,
+      endTime: entry.endTime,
+      purpose: entry.purpose,
+      attendees: [owner._id],
+      notes: entry.notes || '',
+      status: requiresApproval(room, owner) ? 'pending' : 'confirmed'
+    });
+    await recordBookingHistory(booking, 'created', null, { note: 'Booked from the waitlist' });
+
+    entry.status = 'fulfilled';
+    entry.booking = booking._id;
+    entry.offerExpiresAt = undefined;
+    await entry.save();
+
+    const populatedBooking = await Booking.findById(booking._id)
+      .populate('user', 'name email')
+      .populate(boardroomWithSite('name location capacity amenities'))
+      .populate('attendees', 'name email');
+
+    if (populatedBooking.status === 'pending') {
+      await notifyApprovers(populatedBooking);
+    } else {
+      await Notification.create({
+        user: populatedBooking.user._id,
+        message: `Your waitlisted slot in ${populatedBooking.boardroom.name} on ${formatTime(populatedBooking.startTime, populatedBooking.boardroom)} has been booked`,
+        booking: populatedBooking._id
+      });
+
+      try {
+        await emailService.sendBookingNotification(populatedBooking, populatedBooking.user, populatedBooking.user, 'created');
+      } catch (emailError) {
+        console.error('Waitlist booking email failed:', emailError);
+      }
+    }
+
+    if (io) {
+      io.emit('booking-created', {
+        booking: populatedBooking,
+        boardroomId: populatedBooking.boardroom._id,
+        source: 'waitlist'
+      });
+    }
+
+    return entry;
+  }
+
+  // Mark lapsed offers as expired and pass their slot on to the next person in line
+  async expireOffers() {
+    try {
+      const now = new Date();
+
+      // Entries whose slot has already started can no longer be served
+      await WaitlistEntry.updateMany(
+        { status: 'waiting', startTime: { $lte: now } },
+        { status: 'expired' }
+      );
+
+      const lapsed = await WaitlistEntry.find({
+        status: 'offered',
+        offerExpiresAt: { $lte: now }
+      }).populate(boardroomWithSite('name'));
+
+      for (const entry of lapsed) {
+        entry.status = 'expired';
+        await entry.save();
+
+        await Notification.create({
+          user: entry.user,
+          message: `Your claim on ${entry.boardroom.name} for ${formatTime(entry.startTime, entry.boardroom)} has expired`
+        });
+
+        await this.releaseSlot(entry);
+      }
+    } catch (error) {
+      console.error('Error expiring waitlist offers:', error);
+    }
+  }
+
+  async sendOfferEmail(entry) {
+    const claimUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/my-bookings`;
+    const subject = `Room available: ${entry.boardroom.name}`;
+    const html = `
+      <h2>A slot you were waiting for is free</h2>
+      <p><strong>Meeting:</strong> ${entry.purpose}</p>
+      <p><strong>Room:</strong> ${entry.boardroom.name} - ${entry.boardroom.location}</p>
+      <p><strong>Time:</strong> ${formatTime(entry.startTime, entry.boardroom)} - ${moment.tz(entry.endTime, getRoomTimezone(entry.boardroom)).format('HH:mm')}</p>
+      <p>The slot is held for you until <strong>${formatTime(entry.offerExpiresAt, entry.boardroom)}</strong>. After that it is offered to the next person on the waitlist.</p>
+      <p><a href="${claimUrl}">Claim this slot</a></p>
+    `;
+
+    try {
+      await emailService.sendEmail(entry.user.email, subject, html, true);
+    } catch (emailError) {
+      console.error('Waitlist offer email failed:', emailError);
+    }
+  }
+}
+
+// Create singleton instance
+const waitlistService = new WaitlistService();
+
+module.exports = waitlistService;
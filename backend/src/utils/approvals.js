@@ -0,0 +1,31 @@
+// backend/src/utils/approvals.js
+// Rooms that require approval: bookings in them wait as 'pending' until an admin approves or rejects them.
+const User = require('../models/User');
+const Notification = require('../models/Notification');
+
+// Admins approve bookings themselves, so only other users' requests wait for review
+const requiresApproval = (boardroom, user) => Boolean(boardroom.requiresApproval) && user.role !== 'admin';
+
+// Tell the organizer their request is waiting and put it in front of every approver
+const notifyApprovers = async (booking, occurrenceCount = 1) => {
+  const approvers = await User.find({ role: 'admin' }).select('_id');
+  const what = occurrenceCount > 1 ? `${occurrenceCount} occurrences of "${booking.purpose}"` : `"${booking.purpose}"`;
+
+  await Promise.all([
+    Notification.create({
+      user: booking.user._id,
+      message: `Your booking request ${what} in ${booking.boardroom.name} is awaiting approval`,
+      booking: booking._id
+    }),
+    ...approvers.map(approver => Notification.create({
+      user: approver._id,
+      message: `${booking.user.name} requested ${booking.boardroom.name} for ${what}. Approval needed`,
+      booking: booking._id
+    }))
+  ]);
+};
+
+module.exports = {
+  requiresApproval,
+  notifyApprovers
+};
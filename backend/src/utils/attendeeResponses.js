@@ -0,0 +1,165 @@
+// backend/src/utils/attendeeResponses.js
+// RSVPs: each invited user and external guest can accept, decline or answer tentatively.
+// Declined attendees stay on the booking but are left out of the expected headcount.
+const jwt = require('jsonwebtoken');
+const Booking = require('../models/Booking');
+const Notification = require('../models/Notification');
+const emailService = require('../services/emailService');
+const { formatRoomTime } = require('./bookingPolicy');
+
+const RSVP_RESPONSES = Booking.schema.path('attendeeResponses').schema.path('response').enumValues;
+
+// Guests answer from their invitation email: yes or no, without signing in
+const GUEST_RSVP_RESPONSES = ['accepted', 'declined'];
+const RSVP_TOKEN_AUDIENCE = 'booking-rsvp';
+
+const RESPONSE_LABELS = {
+  accepted: 'accepted',
+  tentative: 'tentatively accepted',
+  declined: 'declined'
+};
+
+const toId = (value) => String(value && value._id ? value._id : value);
+
+// A user's answer, or null while they have not responded; organizers are attending their own meeting
+const getUserResponse = (booking, userId) => {
+  if (toId(booking.user) === String(userId)) return 'accepted';
+  const entry = (booking.attendeeResponses || []).find(existing => toId(existing.user) === String(userId));
+  return entry ? entry.response : null;
+};
+
+const setUserResponse = (booking, userId, response) => {
+  const entry = booking.attendeeResponses.find(existing => toId(existing.user) === String(userId));
+  if (entry) {
+    entry.response = response;
+    entry.respondedAt = new Date();
+  } else {
+    booking.attendeeResponses.push({ user: userId, response, respondedAt: new Date() });
+  }
+};
+
+// The guest's entry with the answer recorded, or null when the address is not on the booking
+const setExternalResponse = (booking, email, response) => {
+  const external = booking.externalAttendees.find(existing => existing.email === email.toLowerCase());
+  if (!external) return null;
+  external.response = response;
+  external.respondedAt = new Date();
+  return external;
+};
+
+// Replace the attendee lists; people who stay on the booking keep their answers
+const setBookingAttendees = (booking, userIds, externalAttendees) => {
+  const previousExternals = new Map((booking.externalAttendees || []).map(external => [external.email, external]));
+  const keptUsers = new Set(userIds.map(String));
+
+  booking.attendees = userIds;
+  booking.externalAttendees = externalAttendees.map(external => {
+    const previous = previousExternals.get(external.email.toLowerCase());
+    return previous && previous.response
+      ? { ...external, response: previous.response, respondedAt: previous.respondedAt }
+      : external;
+  });
+  booking.attendeeResponses = (booking.attendeeResponses || []).filter(entry => keptUsers.has(toId(entry.user)));
+};
+
+// Links are signed for one guest and one booking (the first occurrence of a series) and expire when the
+// meeting, or the last occurrence, ends. Like attachment links they carry no userId.
+const createRsvpToken = (booking, email, expiresAt = booking.endTime) => jwt.sign({
+  booking: String(booking._id),
+  email: email.toLowerCase(),
+  exp: Math.floor(new Date(expiresAt).getTime() / 1000)
+}, process.env.JWT_SECRET, { audience: RSVP_TOKEN_AUDIENCE });
+
+// The token's claims when it is valid for this booking, otherwise null
+const verifyRsvpToken = (token, bookingId) => {
+  try {
+    const claims = jwt.verify(token, process.env.JWT_SECRET, { audience: RSVP_TOKEN_AUDIENCE });
+    return claims.booking === bookingId ? claims : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+const getRsvpUrl = (booking, email, expiresAt) => {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  return `${frontendUrl}/rsvp/${booking._id}?token=${createRsvpToken(booking, email, expiresAt)}`;
+};
+
+// Accept and decline links for a guest's invitation email. The links open a page that asks the guest to
+// confirm, so mail scanners following them do not answer for anyone.
+const rsvpLinksHtml = (booking, email, expiresAt) => {
+  const url = getRsvpUrl(booking, email, expiresAt);
+  return `
+    <p><strong>Will you attend?</strong>
+      <a href="${url}&response=accepted">Accept</a> |
+      <a href="${url}&response=declined">Decline</a>
+    </p>
+  `;
+};
+
+// Counts of each answer over every user attendee and external guest
+const summarizeResponses = (booking) => {
+  const summary = { accepted: 0, tentative: 0, declined: 0, pending: 0 };
+  const responses = [
+    ...(booking.attendees || []).map(attendee => getUserResponse(booking, toId(attendee))),
+    ...(booking.externalAttendees || []).map(external => external.response || null)
+  ];
+  responses.forEach(response => {
+    summary[response || 'pending'] += 1;
+  });
+  return summary;
+};
+
+// People expected in the room: everyone invited except those who declined
+const getExpectedHeadcount = (booking) => {
+  const { accepted, tentative, pending } = summarizeResponses(booking);
+  return accepted + tentative + pending;
+};
+
+// In-app notice and email to the organizer; `booking` has its user and boardroom populated
+const notifyOrganizerOfResponse = async (booking, responderName, response) => {
+  const { accepted, tentative, declined, pending } = summarizeResponses(booking);
+  const message = `${responderName} ${RESPONSE_LABELS[response]} your meeting "${booking.purpose}" in ${booking.boardroom.name}`;
+
+  await Notification.create({
+    user: booking.user._id,
+    message,
+    booking: booking._id
+  });
+
+  try {
+    await emailService.sendEmail(
+      booking.user.email,
+      `${responderName} ${RESPONSE_LABELS[response]}: ${booking.purpose}`,
+      `
+      Hello ${booking.user.name},
+
+      ${message}.
+
+      Time: ${formatRoomTime(booking.startTime, booking.boardroom)}
+      Responses so far: ${accepted} accepted, ${tentative} tentative, ${declined} declined, ${pending} not responded
+
+      Best regards,
+      Boardroom Booking System
+      `
+    );
+  } catch (emailError) {
+    console.error('RSVP email sending failed:', emailError);
+  }
+};
+
+module.exports = {
+  RSVP_RESPONSES,
+  GUEST_RSVP_RESPONSES,
+  RESPONSE_LABELS,
+  getUserResponse,
+  setUserResponse,
+  setExternalResponse,
+  setBookingAttendees,
+  verifyRsvpToken,
+  getRsvpUrl,
+  rsvpLinksHtml,
+  summarizeResponses,
+  getExpectedHeadcount,
+  notifyOrganizerOfResponse
+};
@@ -0,0 +1,101 @@
+// backend/src/utils/bookingAttachments.js
+// Agendas and documents attached to a booking: upload limits, who may read them and the signed links sent in emails
+const mongoose = require('mongoose');
+const jwt = require('jsonwebtoken');
+const User = require('../models/User');
+const attachmentStorage = require('../services/attachmentStorage');
+const { isBookingParticipant } = require('./bookingRules');
+const { canManageBooking } = require('./delegation');
+
+const MAX_ATTACHMENT_MB = parseInt(process.env.MAX_ATTACHMENT_MB) || 10;
+const MAX_ATTACHMENT_BYTES = MAX_ATTACHMENT_MB * 1024 * 1024;
+const MAX_ATTACHMENTS_PER_BOOKING = 10;
+
+// Email links keep working until this many days after the meeting ends
+const ATTACHMENT_LINK_DAYS = parseInt(process.env.ATTACHMENT_LINK_DAYS) || 7;
+const ATTACHMENT_TOKEN_AUDIENCE = 'booking-attachment';
+
+// Documents, spreadsheets, slide decks, plain text and images
+const ATTACHMENT_TYPES = [
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'application/vnd.oasis.opendocument.text',
+  'application/vnd.oasis.opendocument.spreadsheet',
+  'application/vnd.oasis.opendocument.presentation',
+  'text/plain',
+  'text/csv',
+  'image/png',
+  'image/jpeg'
+];
+
+// Participants, the organizer's delegates and admins can download a booking's attachments
+const canViewAttachments = async (booking, user) =>
+  isBookingParticipant(booking, user.userId) || canManageBooking(booking, user);
+
+// Someone a link was emailed to: a registered user by id or an external attendee by email address
+const getRecipientKey = (recipient) => String(recipient._id || recipient.email);
+
+// Links are signed for one recipient and one file, and are checked again against the booking when used.
+// They carry no userId, so they can never stand in for a login token.
+const createAttachmentToken = (booking, attachment, recipient) => jwt.sign({
+  booking: String(booking._id),
+  attachment: String(attachment._id),
+  recipient: getRecipientKey(recipient),
+  exp: Math.floor(new Date(booking.endTime).getTime() / 1000) + ATTACHMENT_LINK_DAYS * 24 * 60 * 60
+}, process.env.JWT_SECRET, { audience: ATTACHMENT_TOKEN_AUDIENCE });
+
+// The token's claims when it is valid for this file, otherwise null
+const verifyAttachmentToken = (token, bookingId, attachmentId) => {
+  try {
+    const claims = jwt.verify(token, process.env.JWT_SECRET, { audience: ATTACHMENT_TOKEN_AUDIENCE });
+    return claims.booking === bookingId && claims.attachment === attachmentId ? claims : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Whoever the link was sent to must still be on the booking (or be an admin or delegate) when they use it
+const canRecipientDownload = async (booking, recipient) => {
+  if ((booking.externalAttendees || []).some(external => external.email === recipient)) return true;
+  if (!mongoose.isValidObjectId(recipient)) return false;
+  if (isBookingParticipant(booking, recipient)) return true;
+
+  const user = await User.findById(recipient).select('role');
+  return !!user && canManageBooking(booking, { userId: recipient, role: user.role });
+};
+
+const getAttachmentDownloadUrl = (booking, attachment, recipient) => {
+  const apiUrl = process.env.API_URL || 'http://localhost:5000/api';
+  const token = createAttachmentToken(booking, attachment, recipient);
+  return `${apiUrl}/bookings/${booking._id}/attachments/${attachment._id}/download?token=${token}`;
+};
+
+// Files of deleted bookings; the bookings are already gone, so a failure is logged rather than returned
+const removeStoredAttachments = async (bookings) => {
+  const keys = [].concat(bookings).flatMap(booking => (booking.attachments || []).map(attachment => attachment.storageKey));
+  for (const key of keys) {
+    try {
+      await attachmentStorage.remove(key);
+    } catch (error) {
+      console.error('Remove attachment error:', error);
+    }
+  }
+};
+
+module.exports = {
+  MAX_ATTACHMENT_MB,
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS_PER_BOOKING,
+  ATTACHMENT_LINK_DAYS,
+  ATTACHMENT_TYPES,
+  canViewAttachments,
+  verifyAttachmentToken,
+  canRecipientDownload,
+  getAttachmentDownloadUrl,
+  removeStoredAttachments
+};
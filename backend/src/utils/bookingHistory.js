@@ -0,0 +1,144 @@
+// backend/src/utils/bookingHistory.js
+// Audit trail for bookings: each create, change, cancellation and admin decision is kept as a history entry
+const BookingHistory = require('../models/BookingHistory');
+const Boardroom = require('../models/Boardroom');
+const User = require('../models/User');
+
+const HISTORY_ACTIONS = BookingHistory.schema.path('action').enumValues;
+const MAX_HISTORY_RESULTS = 200;
+
+// Fields whose changes are recorded, in the order a diff lists them
+const TRACKED_FIELDS = ['status', 'user', 'boardroom', 'startTime', 'endTime', 'purpose', 'notes', 'attendees', 'externalAttendees', 'attachments', 'visitors', 'agenda', 'actionItems'];
+
+const toId = (value) => String(value && value._id ? value._id : value);
+
+// Comparable value of one tracked field: ids for people and rooms, ISO strings for times
+const snapshotField = (booking, field) => {
+  const value = booking[field];
+  switch (field) {
+    case 'user':
+    case 'boardroom':
+      return value ? toId(value) : null;
+    case 'startTime':
+    case 'endTime':
+      return value ? new Date(value).toISOString() : null;
+    case 'attendees':
+      return (value || []).map(toId).sort();
+    case 'externalAttendees':
+      return (value || []).map(external => external.email).sort();
+    case 'attachments':
+      return (value || []).map(attachment => attachment.name).sort();
+    case 'visitors':
+      return (value || []).map(visitor => visitor.name).sort();
+    case 'agenda':
+      return (value || []).map(item => item.title);
+    case 'actionItems':
+      return (value || []).map(item => (item.completedAt ? `${item.description} (done)` : item.description));
+    default:
+      return value || '';
+  }
+};
+
+// Take before changing a booking, then diff against a snapshot taken after
+const snapshotBooking = (booking) => Object.fromEntries(TRACKED_FIELDS.map(field => [field, snapshotField(booking, field)]));
+
+const diffBookings = (before, after) => TRACKED_FIELDS
+  .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+  .map(field => ({ field, from: before[field], to: after[field] }));
+
+// Who made the change; without a request it was the system itself
+const getHistoryActor = (req) => (req && req.user
+  ? { actor: req.user.userId, actorRole: req.user.role === 'admin' ? 'admin' : 'user' }
+  : { actorRole: 'system' });
+
+const buildHistoryEntry = (booking, action, req, { changes = [], note } = {}) => ({
+  booking: booking._id,
+  boardroom: booking.boardroom ? toId(booking.boardroom) : undefined,
+  purpose: booking.purpose,
+  action,
+  ...getHistoryActor(req),
+  changes,
+  note
+});
+
+// The change has already happened by the time it is recorded, so a failed write is logged rather than
+// turned into an error for the caller
+const recordHistory = async (entries) => {
+  if (entries.length === 0) return;
+  try {
+    await BookingHistory.insertMany(entries);
+  } catch (error) {
+    console.error('Booking history error:', error);
+  }
+};
+
+// The same action on one booking or several (a series, the rooms of a linked booking)
+const recordBookingHistory = (bookings, action, req, details) => recordHistory(
+  [].concat(bookings).map(booking => buildHistoryEntry(booking, action, req, details))
+);
+
+// Record a booking's changes as one entry per booking, skipping bookings where nothing tracked changed
+const recordBookingChanges = (changedBookings, action, req, details = {}) => recordHistory(
+  changedBookings
+    .map(({ booking, before }) => buildHistoryEntry(booking, action, req, {
+      ...details,
+      changes: diffBookings(before, snapshotBooking(booking))
+    }))
+    .filter(entry => entry.changes.length > 0)
+);
+
+// Bookings moved to a new status in bulk; the copies loaded beforehand still hold the old one
+const recordStatusChange = (bookings, action, req, status, details = {}) => recordHistory(
+  bookings.map(booking => buildHistoryEntry(booking, action, req, {
+    ...details,
+    changes: [{ field: 'status', from: booking.status, to: status }]
+  }))
+);
+
+// Ids in changes are shown as names; people and rooms deleted since keep a placeholder
+const labelHistoryChanges = async (entries) => {
+  const userIds = new Set();
+  const roomIds = new Set();
+  entries.forEach(entry => entry.changes.forEach(change => {
+    const ids = [change.from, change.to].flat().filter(Boolean);
+    if (change.field === 'user' || change.field === 'attendees') ids.forEach(id => userIds.add(id));
+    if (change.field === 'boardroom') ids.forEach(id => roomIds.add(id));
+  }));
+
+  const [users, rooms] = await Promise.all([
+    userIds.size > 0 ? User.find({ _id: { $in: [...userIds] } }).select('name') : [],
+    roomIds.size > 0 ? Boardroom.find({ _id: { $in: [...roomIds] } }).select('name') : []
+  ]);
+  const userNames = new Map(users.map(user => [String(user._id), user.name]));
+  const roomNames = new Map(rooms.map(room => [String(room._id), room.name]));
+
+  const label = (field, value) => {
+    if (field === 'user') return value && (userNames.get(value) || 'Deleted user');
+    if (field === 'attendees') return value.map(id => userNames.get(id) || 'Deleted user');
+    if (field === 'boardroom') return value && (roomNames.get(value) || 'Deleted room');
+    return value;
+  };
+
+  return entries.map(entry => {
+    const plain = typeof entry.toObject === 'function' ? entry.toObject() : entry;
+    return {
+      ...plain,
+      changes: plain.changes.map(change => ({
+        ...change,
+        from: label(change.field, change.from),
+        to: label(change.field, change.to)
+      }))
+    };
+  });
+};
+
+module.exports = {
+  HISTORY_ACTIONS,
+  MAX_HISTORY_RESULTS,
+  snapshotBooking,
+  diffBookings,
+  recordBookingHistory,
+  recordBookingChanges,
+  recordStatusChange,
+  labelHistoryChanges
+};
@@ -0,0 +1,169 @@
+// backend/src/utils/bookingPolicy.js
+// Per-room booking policy: operating hours per weekday, duration limits, slot size and
+// how far ahead a room can be booked. Anything a room does not set falls back to its
+// site's hours and timezone, then to the defaults below, which still honour the
+// BUSINESS_TIMEZONE and WORKING_HOURS_* environment variables.
+const moment = require('moment-timezone');
+
+// Timezone for rooms not assigned to a site (SAST - South Africa Standard Time)
+const BUSINESS_TIMEZONE = process.env.BUSINESS_TIMEZONE || 'Africa/Johannesburg';
+const WORKING_HOURS_START = parseInt(process.env.WORKING_HOURS_START) || 7; // 07:00
+const WORKING_HOURS_END = parseInt(process.env.WORKING_HOURS_END) || 16;    // 16:00
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const toClock = (hour) => `${String(hour).padStart(2, '0')}:00`;
+
+const DEFAULT_POLICY = Object.freeze({
+  operatingHours: WEEKDAY_NAMES.map((_, day) => ({
+    day,
+    open: toClock(WORKING_HOURS_START),
+    close: toClock(WORKING_HOURS_END)
+  })),
+  minDurationMinutes: 30,
+  maxDurationMinutes: 8 * 60,
+  slotMinutes: 30,
+  maxAdvanceDays: null, // null means no limit
+  minLeadMinutes: 0
+});
+
+const POLICY_NUMBER_FIELDS = ['minDurationMinutes', 'maxDurationMinutes', 'slotMinutes', 'maxAdvanceDays', 'minLeadMinutes'];
+
+// 'HH:mm' to minutes after midnight
+const toMinutes = (clock) => {
+  const [hours, minutes] = clock.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const formatDuration = (minutes) => {
+  if (minutes % 60 !== 0) return `${minutes} minutes`;
+  const hours = minutes / 60;
+  return `${hours} hour${hours === 1 ? '' : 's'}`;
+};
+
+const hasHours = (hours) => Array.isArray(hours) && hours.length > 0;
+
+// Timezone of the room's site; needs boardroom.site populated
+const getRoomTimezone = (boardroom) => {
+  return (boardroom && boardroom.site && boardroom.site.timezone) || BUSINESS_TIMEZONE;
+};
+
+// e.g. "1/15/2024, 10:00:00 AM GMT+2" in the room's timezone, for emails and notices
+const formatRoomTime = (date, boardroom) => new Date(date).toLocaleString('en-US', {
+  timeZone: getRoomTimezone(boardroom),
+  timeZoneName: 'short'
+});
+
+// The room's own policy merged over its site's hours and the defaults; needs boardroom.site populated
+const resolvePolicy = (boardroom) => {
+  const own = (boardroom && boardroom.bookingPolicy) || {};
+  const siteHours = boardroom && boardroom.site && boardroom.site.operatingHours;
+  const hours = hasHours(own.operatingHours) ? own.operatingHours : siteHours;
+  const policy = {
+    timezone: getRoomTimezone(boardroom),
+    operatingHours: hasHours(hours)
+      ? hours.map(({ day, open, close }) => ({ day, open, close })).sort((a, b) => a.day - b.day)
+      : DEFAULT_POLICY.operatingHours
+  };
+
+  for (const field of POLICY_NUMBER_FIELDS) {
+    policy[field] = own[field] !== undefined && own[field] !== null ? own[field] : DEFAULT_POLICY[field];
+  }
+  return policy;
+};
+
+// Opening hours for the room-local day a moment falls on, or undefined when closed
+const getHoursForDay = (policy, localMoment) => {
+  return policy.operatingHours.find(hours => hours.day === localMoment.day());
+};
+
+// Checks one occurrence against a resolved policy; returns an error message or null
+const validateAgainstPolicy = (start, end, policy, now = new Date()) => {
+  if (start <= now) {
+    return 'Start time must be in the future';
+  }
+
+  const leadMinutes = (start - now) / (1000 * 60);
+  if (policy.minLeadMinutes > 0 && leadMinutes < policy.minLeadMinutes) {
+    return `Bookings must be made at least ${formatDuration(policy.minLeadMinutes)} in advance`;
+  }
+  if (policy.maxAdvanceDays && leadMinutes > policy.maxAdvanceDays * 24 * 60) {
+    return `Bookings can only be made up to ${policy.maxAdvanceDays} days in advance`;
+  }
+
+  const localStart = moment.utc(start).tz(policy.timezone);
+  const localEnd = moment.utc(end).tz(policy.timezone);
+
+  if (!localStart.isSame(localEnd, 'day')) {
+    return 'Booking cannot span multiple days';
+  }
+
+  const hours = getHoursForDay(policy, localStart);
+  if (!hours) {
+    return `Bookings are not available on ${WEEKDAY_NAMES[localStart.day()]}s`;
+  }
+
+  const startMinute = localStart.diff(localStart.clone().startOf('day'), 'minutes', true);
+  const endMinute = localEnd.diff(localEnd.clone().startOf('day'), 'minutes', true);
+  if (startMinute < toMinutes(hours.open) || endMinute > toMinutes(hours.close)) {
+    return `Booking must be within working hours (${hours.open}-${hours.close} ${policy.timezone.split('/')[1]})`;
+  }
+
+  const durationMinutes = (end - start) / (1000 * 60);
+  if (durationMinutes < policy.minDurationMinutes) {
+    return `Booking must be at least ${formatDuration(policy.minDurationMinutes)} long`;
+  }
+  if (durationMinutes > policy.maxDurationMinutes) {
+    return `Maximum booking duration is ${formatDuration(policy.maxDurationMinutes)}`;
+  }
+
+  // Slots are counted from opening time, so a 07:00 opening with 30-minute slots allows :00 and :30
+  const offset = startMinute - toMinutes(hours.open);
+  if (offset % policy.slotMinutes !== 0 || durationMinutes % policy.slotMinutes !== 0) {
+    return `Bookings must start and end on ${policy.slotMinutes}-minute boundaries`;
+  }
+
+  return null;
+};
+
+// Checks a new end time for a booking that is already under way, so lead time and slot
+// boundaries no longer apply; the meeting still has to end that day, within hours and the maximum length
+const validateEndTimeChange = (start, end, policy) => {
+  const localStart = moment.utc(start).tz(policy.timezone);
+  const localEnd = moment.utc(end).tz(policy.timezone);
+
+  if (end <= start) {
+    return 'The booking must end after it starts';
+  }
+  if (!localStart.isSame(localEnd, 'day')) {
+    return 'Booking cannot span multiple days';
+  }
+
+  const hours = getHoursForDay(policy, localStart);
+  const endMinute = localEnd.diff(localEnd.clone().startOf('day'), 'minutes', true);
+  if (hours && endMinute > toMinutes(hours.close)) {
+    return `The room closes at ${hours.close}`;
+  }
+
+  const durationMinutes = (end - start) / (1000 * 60);
+  if (durationMinutes > policy.maxDurationMinutes) {
+    return `Maximum booking duration is ${formatDuration(policy.maxDurationMinutes)}`;
+  }
+
+  return null;
+};
+
+module.exports = {
+  BUSINESS_TIMEZONE,
+  WORKING_HOURS_START,
+  WORKING_HOURS_END,
+  WEEKDAY_NAMES,
+  DEFAULT_POLICY,
+  toMinutes,
+  getRoomTimezone,
+  formatRoomTime,
+  resolvePolicy,
+  getHoursForDay,
+  validateAgainstPolicy,
+  validateEndTimeChange
+};
@@ -0,0 +1,173 @@
+// backend/src/utils/bookingQuota.js
+// Per-role and per-department booking quotas. Limits count the active bookings a user organizes.
+const moment = require('moment-timezone');
+const Booking = require('../models/Booking');
+const BookingQuota = require('../models/BookingQuota');
+const User = require('../models/User');
+const { ACTIVE_BOOKING_STATUSES } = require('./bookingRules');
+const { getRoomTimezone } = require('./bookingPolicy');
+
+const QUOTA_FIELDS = ['maxFutureBookings', 'maxHoursPerWeek', 'maxBookingsPerRoomPerDay'];
+
+// Department names are free text on the profile, so match them case-insensitively
+const DEPARTMENT_COLLATION = { locale: 'en', strength: 2 };
+
+const isSet = (value) => value !== undefined && value !== null;
+
+// A user's limits: the department quota where it sets a field, otherwise the role quota; null means no limit
+const mergeQuotas = (roleQuota, departmentQuota) => {
+  const limits = {};
+  QUOTA_FIELDS.forEach(field => {
+    if (departmentQuota && isSet(departmentQuota[field])) {
+      limits[field] = departmentQuota[field];
+    } else if (roleQuota && isSet(roleQuota[field])) {
+      limits[field] = roleQuota[field];
+    } else {
+      limits[field] = null;
+    }
+  });
+  return limits;
+};
+
+const hasLimits = (limits) => QUOTA_FIELDS.some(field => limits[field] !== null);
+
+const getQuotaLimits = async (user) => {
+  const quotas = await BookingQuota.find({
+    $or: [
+      { scope: 'role', value: user.role },
+      ...(user.department ? [{ scope: 'department', value: user.department }] : [])
+    ]
+  }).collation(DEPARTMENT_COLLATION);
+
+  return mergeQuotas(
+    quotas.find(quota => quota.scope === 'role'),
+    quotas.find(quota => quota.scope === 'department')
+  );
+};
+
+// Weeks run Monday to Sunday and days midnight to midnight in the room's timezone
+const getWeekKey = (date, timezone) => moment.tz(date, timezone).startOf('isoWeek').format('YYYY-MM-DD');
+const getDayKey = (date, timezone) => moment.tz(date, timezone).format('YYYY-MM-DD');
+const getHours = ({ startTime, endTime }) => (new Date(endTime) - new Date(startTime)) / (60 * 60 * 1000);
+
+const sumBy = (items, getKey, getValue = () => 1) => items.reduce((totals, item) => {
+  const key = getKey(item);
+  totals[key] = (totals[key] || 0) + getValue(item);
+  return totals;
+}, {});
+
+const formatHours = (hours) => `${Math.round(hours * 100) / 100} hour${hours === 1 ? '' : 's'}`;
+
+// Check new slots in one room against the limits and the bookings the user already holds.
+// usage: { futureBookings, weekHours: { [week]: hours }, roomDayBookings: { [day]: count } }
+const getQuotaViolation = (limits, usage, slots, timezone, now = new Date()) => {
+  if (limits.maxFutureBookings !== null) {
+    const upcoming = slots.filter(slot => new Date(slot.endTime) > now).length;
+    if (upcoming > 0 && usage.futureBookings + upcoming > limits.maxFutureBookings) {
+      return `Your booking quota allows ${limits.maxFutureBookings} upcoming booking${limits.maxFutureBookings === 1 ? '' : 's'} and you already have ${usage.futureBookings}`;
+    }
+  }
+
+  if (limits.maxHoursPerWeek !== null) {
+    const newHours = sumBy(slots, slot => getWeekKey(slot.startTime, timezone), getHours);
+    for (const [week, hours] of Object.entries(newHours)) {
+      const total = (usage.weekHours[week] || 0) + hours;
+      // Allow for floating-point noise in fractional hours
+      if (total > limits.maxHoursPerWeek + 1e-9) {
+        return `Your booking quota allows ${formatHours(limits.maxHoursPerWeek)} per week; this would bring the week of ${moment.tz(week, timezone).format('D MMM')} to ${formatHours(total)}`;
+      }
+    }
+  }
+
+  if (limits.maxBookingsPerRoomPerDay !== null) {
+    const newCounts = sumBy(slots, slot => getDayKey(slot.startTime, timezone));
+    for (const [day, count] of Object.entries(newCounts)) {
+      const existing = usage.roomDayBookings[day] || 0;
+      if (existing + count > limits.maxBookingsPerRoomPerDay) {
+        return `Your booking quota allows ${limits.maxBookingsPerRoomPerDay} booking${limits.maxBookingsPerRoomPerDay === 1 ? '' : 's'} per room per day; you already have ${existing} in this room on ${moment.tz(day, timezone).format('ddd D MMM')}`;
+      }
+    }
+  }
+
+  return null;
+};
+
+// What the user already holds in the weeks and days the slots fall in (room with site populated)
+const getQuotaUsage = async (userId, room, slots, excludeIds = [], now = new Date()) => {
+  const timezone = getRoomTimezone(room);
+  const held = { user: userId, status: { $in: ACTIVE_BOOKING_STATUSES }, _id: { $nin: excludeIds } };
+
+  const starts = slots.map(slot => moment.tz(slot.startTime, timezone));
+  const [futureBookings, bookings] = await Promise.all([
+    Booking.countDocuments({ ...held, endTime: { $gt: now } }),
+    Booking.find({
+      ...held,
+      startTime: {
+        $gte: moment.min(starts).clone().startOf('isoWeek').toDate(),
+        $lte: moment.max(starts).clone().endOf('isoWeek').toDate()
+      }
+    }).select('boardroom startTime endTime')
+  ]);
+
+  const roomId = room && String(room._id);
+  return {
+    futureBookings,
+    weekHours: sumBy(bookings, booking => getWeekKey(booking.startTime, timezone), getHours),
+    roomDayBookings: sumBy(
+      bookings.filter(booking => String(booking.boardroom) === roomId),
+      booking => getDayKey(booking.startTime, timezone)
+    )
+  };
+};
+
+// Error message if booking these slots in the room would take the user over their quota, otherwise null.
+// excludeIds leaves out bookings being moved, so they are not counted twice.
+const checkBookingQuota = async (userId, room, slots, excludeIds = []) => {
+  if (slots.length === 0) return null;
+
+  const user = await User.findById(userId).select('role department');
+  if (!user) return null;
+
+  const limits = await getQuotaLimits(user);
+  if (!hasLimits(limits)) return null;
+
+  const usage = await getQuotaUsage(userId, room, slots, excludeIds);
+  return getQuotaViolation(limits, usage, slots, getRoomTimezone(room));
+};
+
+// A user's limits, what they have used and what is left, for the week and day of `date`.
+// Without a room, the room-per-day figures are null and weeks use the business timezone.
+const getQuotaSummary = async (user, room = null, date = new Date()) => {
+  const limits = await getQuotaLimits(user);
+  const timezone = getRoomTimezone(room);
+  const usage = await getQuotaUsage(user._id, room, [{ startTime: date, endTime: date }]);
+
+  const used = {
+    futureBookings: usage.futureBookings,
+    hoursThisWeek: usage.weekHours[getWeekKey(date, timezone)] || 0,
+    bookingsInRoomThatDay: room ? usage.roomDayBookings[getDayKey(date, timezone)] || 0 : null
+  };
+  const remainingOf = (limit, value) => (limit === null || value === null ? null : Math.max(limit - value, 0));
+
+  return {
+    limits,
+    used,
+    remaining: {
+      futureBookings: remainingOf(limits.maxFutureBookings, used.futureBookings),
+      hoursThisWeek: remainingOf(limits.maxHoursPerWeek, used.hoursThisWeek),
+      bookingsInRoomThatDay: remainingOf(limits.maxBookingsPerRoomPerDay, used.bookingsInRoomThatDay)
+    },
+    weekStart: getWeekKey(date, timezone),
+    timezone
+  };
+};
+
+module.exports = {
+  QUOTA_FIELDS,
+  DEPARTMENT_COLLATION,
+  mergeQuotas,
+  hasLimits,
+  getQuotaViolation,
+  checkBookingQuota,
+  getQuotaSummary
+};
@@ -0,0 +1,215 @@
+// backend/src/utils/bookingRules.js
+// Business rules shared by everything that places a booking (booking controller, waitlist).
+const Booking = require('../models/Booking');
+const Boardroom = require('../models/Boardroom');
+const Closure = require('../models/Closure');
+const {
+  BUSINESS_TIMEZONE,
+  WORKING_HOURS_START,
+  WORKING_HOURS_END,
+  getRoomTimezone,
+  resolvePolicy,
+  validateAgainstPolicy
+} = require('./bookingPolicy');
+
+// Statuses that occupy a room; pending bookings hold their slot until they are reviewed
+const ACTIVE_BOOKING_STATUSES = ['pending', 'confirmed'];
+
+// Check-in window around startTime; confirmed bookings nobody checks into are released as no-shows
+const CHECK_IN_OPENS_MINUTES = parseInt(process.env.CHECK_IN_OPENS_MINUTES) || 10;
+const CHECK_IN_GRACE_MINUTES = parseInt(process.env.CHECK_IN_GRACE_MINUTES) || 15;
+
+// Meetings can be extended, shortened or ended from this long before they start until they end
+const ADJUST_OPENS_MINUTES = parseInt(process.env.ADJUST_OPENS_MINUTES) || 30;
+const EXTENSION_OPTIONS_MINUTES = [15, 30];
+
+// Populate options for a booking's room plus the site fields needed to show its local times
+const boardroomWithSite = (select) => ({
+  path: 'boardroom',
+  select: `${select} site`,
+  populate: { path: 'site', select: 'name timezone' }
+});
+
+// Occurrences affected by a "this and following" or "whole series" action
+const getSeriesScopeFilter = (booking, scope) => ({
+  seriesId: booking.seriesId,
+  status: { $in: ACTIVE_BOOKING_STATUSES },
+  startTime: scope === 'following' ? { $gte: booking.startTime } : { $gt: new Date() }
+});
+
+// The other rooms' bookings in a linked multi-room booking
+const getRoomGroupFilter = (booking) => ({
+  roomGroupId: booking.roomGroupId,
+  _id: { $ne: booking._id },
+  status: { $in: ACTIVE_BOOKING_STATUSES }
+});
+
+// The organizer or one of the registered attendees
+const isBookingParticipant = (booking, userId) => {
+  const organizerId = (booking.user._id || booking.user).toString();
+  return organizerId === userId ||
+    booking.attendees.some(attendee => (attendee._id || attendee).toString() === userId);
+};
+
+// Business rules for a single occurrence in a room (site populated); returns an error message or null
+const validateBookingWindow = (start, end, boardroom = null) => {
+  return validateAgainstPolicy(start, end, resolvePolicy(boardroom));
+};
+
+// The window never runs past the end of the booking
+const getCheckInWindow = ({ startTime, endTime }) => {
+  const start = new Date(startTime).getTime();
+  return {
+    opensAt: new Date(start - CHECK_IN_OPENS_MINUTES * 60 * 1000),
+    closesAt: new Date(Math.min(start + CHECK_IN_GRACE_MINUTES * 60 * 1000, new Date(endTime).getTime()))
+  };
+};
+
+// Active bookings that are under way or about to start, the ones quick adjustments apply to
+const isAdjustable = ({ status, startTime, endTime }, now = new Date()) => {
+  return ACTIVE_BOOKING_STATUSES.includes(status) &&
+    new Date(endTime) > now &&
+    new Date(startTime).getTime() - ADJUST_OPENS_MINUTES * 60 * 1000 <= now.getTime();
+};
+
+// Setup and cleanup time a room needs around every booking, in minutes
+const getRoomBuffers = (boardroom) => ({
+  before: (boardroom && boardroom.bufferBefore) || 0,
+  after: (boardroom && boardroom.bufferAfter) || 0
+});
+
+// Widen a range by the gap two bookings in the same room need between them: the cleanup
+// after one plus the setup before the next. Anything overlapping the result clashes.
+const getBufferedRange = (startTime, endTime, { before, after }) => {
+  const gap = (before + after) * 60 * 1000;
+  return {
+    start: new Date(new Date(startTime).getTime() - gap),
+    end: new Date(new Date(endTime).getTime() + gap)
+  };
+};
+
+const findConflictingBooking = async (boardroom, startTime, endTime, excludeIds = []) => {
+  const room = await Boardroom.findById(boardroom._id || boardroom).select('bufferBefore bufferAfter');
+  const { start, end } = getBufferedRange(startTime, endTime, getRoomBuffers(room));
+
+  return Booking.findOne({
+    boardroom: boardroom._id || boardroom,
+    status: { $in: ACTIVE_BOOKING_STATUSES },
+    ...(excludeIds.length > 0 && { _id: { $nin: excludeIds } }),
+    startTime: { $lt: end },
+    endTime: { $gt: start }
+  });
+};
+
+// A conflict found with buffers applied may only clash with the buffer, not the booking itself
+const getConflictReason = (conflict, startTime, endTime) => {
+  const overlaps = conflict.startTime < new Date(endTime) && conflict.endTime > new Date(startTime);
+  return overlaps
+    ? 'Boardroom is already booked for this time slot'
+    : 'Too close to another booking: the room needs time to be set up and cleaned between meetings';
+};
+
+// Closures apply to every room when they list no locations, otherwise to rooms at those locations
+const getClosureFilter = (location) => ({
+  $or: [{ locations: { $size: 0 } }, { locations: location }]
+});
+
+// The first closure overlapping the range in this room's location, if any
+const findClosure = async (boardroom, startTime, endTime) => {
+  const room = boardroom.location !== undefined
+    ? boardroom
+    : await Boardroom.findById(boardroom._id || boardroom).select('location');
+
+  return Closure.findOne({
+    ...getClosureFilter(room.location),
+    startTime: { $lt: new Date(endTime) },
+    endTime: { $gt: new Date(startTime) }
+  }).sort({ startTime: 1 });
+};
+
+const getClosureReason = (closure) => `The room is closed for ${closure.name}`;
+
+// The first maintenance window overlapping the range on a loaded room, if any
+const findMaintenanceWindow = (room, startTime, endTime) => {
+  return (room.maintenanceWindows || []).find(window =>
+    window.startTime < new Date(endTime) && window.endTime > new Date(startTime)
+  );
+};
+
+const getMaintenanceReason = (window) => {
+  return `The room is unavailable for maintenance${window.reason ? `: ${window.reason}` : ''}`;
+};
+
+// Closures and maintenance windows both take a room out of use; returns why the range is blocked, or null
+const getBlockedReason = async (boardroom, startTime, endTime) => {
+  const room = boardroom.location !== undefined && Array.isArray(boardroom.maintenanceWindows)
+    ? boardroom
+    : await Boardroom.findById(boardroom._id || boardroom).select('location maintenanceWindows');
+
+  const closure = await findClosure(room, startTime, endTime);
+  if (closure) {
+    return getClosureReason(closure);
+  }
+
+  const window = findMaintenanceWindow(room, startTime, endTime);
+  return window ? getMaintenanceReason(window) : null;
+};
+
+// Another active room at least as large, with the same amenities, that can take the booking as it is.
+// Rooms at the same location are tried first, then the rest of the same site, smallest first.
+const findEquivalentRoom = async (room, booking) => {
+  const candidates = await Boardroom.find({
+    _id: { $ne: room._id },
+    isActive: true,
+    capacity: { $gte: room.capacity },
+    ...(room.amenities.length > 0 && { amenities: { $all: room.amenities } })
+  })
+  .populate('site')
+  .sort({ capacity: 1 });
+
+  const siteId = String((room.site && room.site._id) || room.site);
+  const rank = (candidate) => {
+    const sameSite = String((candidate.site && candidate.site._id) || candidate.site) === siteId;
+    if (sameSite && candidate.location === room.location) return 0;
+    return sameSite ? 1 : 2;
+  };
+  const ordered = [...candidates].sort((a, b) => rank(a) - rank(b));
+
+  for (const candidate of ordered) {
+    if (validateBookingWindow(booking.startTime, booking.endTime, candidate)) continue;
+    if (await getBlockedReason(candidate, booking.startTime, booking.endTime)) continue;
+    if (await findConflictingBooking(candidate, booking.startTime, booking.endTime)) continue;
+    return candidate;
+  }
+  return null;
+};
+
+module.exports = {
+  BUSINESS_TIMEZONE,
+  WORKING_HOURS_START,
+  WORKING_HOURS_END,
+  ACTIVE_BOOKING_STATUSES,
+  getRoomTimezone,
+  boardroomWithSite,
+  getSeriesScopeFilter,
+  getRoomGroupFilter,
+  isBookingParticipant,
+  CHECK_IN_OPENS_MINUTES,
+  CHECK_IN_GRACE_MINUTES,
+  ADJUST_OPENS_MINUTES,
+  EXTENSION_OPTIONS_MINUTES,
+  validateBookingWindow,
+  getCheckInWindow,
+  isAdjustable,
+  getRoomBuffers,
+  getBufferedRange,
+  findConflictingBooking,
+  getConflictReason,
+  getClosureFilter,
+  findClosure,
+  getClosureReason,
+  findMaintenanceWindow,
+  getMaintenanceReason,
+  getBlockedReason,
+  findEquivalentRoom
+};
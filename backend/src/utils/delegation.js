@@ -0,0 +1,30 @@
+// backend/src/utils/delegation.js
+// Booking on behalf of someone else: a delegate can book, edit and cancel for each user who granted them access.
+const Delegation = require('../models/Delegation');
+
+const DELEGATION_REQUIRED_MESSAGE = 'You are not allowed to book on behalf of this user';
+
+const isDelegateOf = async (delegateId, principalId) => {
+  if (String(delegateId) === String(principalId)) return true;
+  return !!(await Delegation.exists({ principal: principalId, delegate: delegateId }));
+};
+
+// Users whose bookings this user manages: themselves and everyone who made them a delegate
+const getManagedUserIds = async (userId) => {
+  const delegations = await Delegation.find({ delegate: userId }).select('principal');
+  return [String(userId), ...delegations.map(delegation => String(delegation.principal))];
+};
+
+// Whether the user may edit or cancel the booking: its organizer, one of the organizer's delegates or an admin
+const canManageBooking = async (booking, user) => {
+  if (user.role === 'admin') return true;
+  const organizerId = booking.user && booking.user._id ? booking.user._id : booking.user;
+  return isDelegateOf(user.userId, organizerId);
+};
+
+module.exports = {
+  DELEGATION_REQUIRED_MESSAGE,
+  isDelegateOf,
+  getManagedUserIds,
+  canManageBooking
+};
@@ -0,0 +1,45 @@
+// backend/src/utils/freeBusy.js
+// Busy times per person, built from the bookings they organize or attend
+const MAX_FREE_BUSY_USERS = 20;
+const MAX_FREE_BUSY_DAYS = 7;
+
+const toId = (value) => String(value && value._id ? value._id : value);
+
+// Sort and join overlapping or back-to-back intervals so the grid shows one block per busy stretch
+const mergeBusyIntervals = (intervals) => {
+  const sorted = [...intervals].sort((a, b) => a.startTime - b.startTime);
+  return sorted.reduce((merged, interval) => {
+    const last = merged[merged.length - 1];
+    if (last && interval.startTime <= last.endTime) {
+      if (interval.endTime > last.endTime) last.endTime = interval.endTime;
+      return merged;
+    }
+    merged.push({ startTime: interval.startTime, endTime: interval.endTime });
+    return merged;
+  }, []);
+};
+
+const isParticipant = (booking, userId) => {
+  return toId(booking.user) === userId || (booking.attendees || []).some(attendee => toId(attendee) === userId);
+};
+
+// Only times leave this function: what the meetings are about stays private to their participants
+const getBusyByUser = (userIds, bookings, { start, end }) => {
+  return userIds.map(userId => {
+    const intervals = bookings
+      .filter(booking => isParticipant(booking, userId))
+      .map(booking => ({
+        startTime: new Date(Math.max(booking.startTime, start)),
+        endTime: new Date(Math.min(booking.endTime, end))
+      }))
+      .filter(interval => interval.startTime < interval.endTime);
+    return { user: userId, busy: mergeBusyIntervals(intervals) };
+  });
+};
+
+module.exports = {
+  MAX_FREE_BUSY_USERS,
+  MAX_FREE_BUSY_DAYS,
+  mergeBusyIntervals,
+  getBusyByUser
+};
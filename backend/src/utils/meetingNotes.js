@@ -0,0 +1,116 @@
+// backend/src/utils/meetingNotes.js
+// Agendas before a meeting, minutes and action items after it. Anyone on the booking can edit them;
+// action items are owned by someone on the booking and show on their dashboard until done.
+const Notification = require('../models/Notification');
+const { ACTIVE_BOOKING_STATUSES, isBookingParticipant } = require('./bookingRules');
+const { canManageBooking } = require('./delegation');
+
+const MAX_AGENDA_ITEMS = 30;
+const MAX_ACTION_ITEMS = 50;
+// Completed items stay on the dashboard this long so a mistaken tick can be undone
+const RECENTLY_COMPLETED_DAYS = 7;
+
+const toId = (value) => String(value && value._id ? value._id : value);
+
+// The organizer, attendees, the organizer's delegates and admins
+const canEditMeetingNotes = async (booking, user) => (
+  isBookingParticipant(booking, user.userId) || canManageBooking(booking, user)
+);
+
+// Why minutes cannot be taken for the booking yet, or null
+const getMinutesError = (booking, now = new Date()) => {
+  if (!ACTIVE_BOOKING_STATUSES.includes(booking.status)) {
+    return 'This booking is no longer active';
+  }
+  if (new Date(booking.startTime) > now) {
+    return 'Minutes can be taken once the meeting has started';
+  }
+  return null;
+};
+
+// Replace the booking's action items with the edited list. Items sent back with their _id keep who
+// created them and when they were completed; `completed` ticks them off or reopens them.
+// Returns the items whose owner is new, or an error when an owner is not on the booking.
+const setActionItems = (booking, items, userId, now = new Date()) => {
+  const previous = new Map(booking.actionItems.map(item => [String(item._id), item]));
+
+  for (const item of items) {
+    if (!isBookingParticipant(booking, String(item.owner))) {
+      return { error: 'Action items can only be assigned to the organizer or attendees' };
+    }
+  }
+
+  const assigned = [];
+  booking.actionItems = items.map(item => {
+    const existing = item._id && previous.get(String(item._id));
+    const completedAt = item.completed
+      ? (existing && existing.completedAt) || now
+      : undefined;
+
+    if (!existing || toId(existing.owner) !== String(item.owner)) {
+      assigned.push(item);
+    }
+
+    return {
+      ...(existing && { _id: existing._id, createdBy: existing.createdBy, createdAt: existing.createdAt }),
+      ...(!existing && { createdBy: userId }),
+      description: item.description,
+      owner: item.owner,
+      dueDate: item.dueDate || undefined,
+      completedAt
+    };
+  });
+
+  return { assigned };
+};
+
+// Tell owners about items they were just given; nobody is told about items they assigned themselves
+const notifyActionItemOwners = async (booking, assigned, assignerId) => {
+  const notices = assigned
+    .filter(item => String(item.owner) !== String(assignerId))
+    .map(item => ({
+      user: item.owner,
+      message: `You have a new action item from "${booking.purpose}": ${item.description}`,
+      booking: booking._id
+    }));
+
+  if (notices.length > 0) {
+    await Notification.insertMany(notices);
+  }
+};
+
+// A user's action items across bookings: open ones first by due date (undated last), then those
+// completed since `completedSince`, latest first
+const collectActionItems = (bookings, userId, completedSince) => bookings
+  .flatMap(booking => booking.actionItems
+    .filter(item => toId(item.owner) === String(userId))
+    .filter(item => !item.completedAt || item.completedAt >= completedSince)
+    .map(item => ({
+      _id: item._id,
+      description: item.description,
+      dueDate: item.dueDate,
+      completedAt: item.completedAt,
+      booking: {
+        _id: booking._id,
+        purpose: booking.purpose,
+        startTime: booking.startTime,
+        boardroom: booking.boardroom
+      }
+    })))
+  .sort((a, b) => {
+    if (!a.completedAt !== !b.completedAt) return a.completedAt ? 1 : -1;
+    if (a.completedAt) return new Date(b.completedAt) - new Date(a.completedAt);
+    if (!a.dueDate !== !b.dueDate) return a.dueDate ? -1 : 1;
+    return new Date(a.dueDate || a.booking.startTime) - new Date(b.dueDate || b.booking.startTime);
+  });
+
+module.exports = {
+  MAX_AGENDA_ITEMS,
+  MAX_ACTION_ITEMS,
+  RECENTLY_COMPLETED_DAYS,
+  canEditMeetingNotes,
+  getMinutesError,
+  setActionItems,
+  notifyActionItemOwners,
+  collectActionItems
+};
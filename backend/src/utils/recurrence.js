@@ -0,0 +1,204 @@
+// backend/src/utils/recurrence.js
+// Expands recurring booking rules (daily, weekly, monthly or a custom RRULE)
+// into concrete occurrences in the business timezone.
+const moment = require('moment-timezone');
+
+const MAX_OCCURRENCES = parseInt(process.env.MAX_RECURRING_OCCURRENCES) || 52;
+const FREQUENCIES = ['daily', 'weekly', 'monthly', 'custom'];
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const UNTIL_DATE_FORMAT = 'YYYY-MM-DD';
+
+// End dates without a time stay 'YYYY-MM-DD' strings: they name a day in the room's timezone,
+// which parsing them as UTC midnight would shift back a day for rooms west of UTC
+const normalizeUntil = (until) => {
+  if (!until) return undefined;
+  if (typeof until === 'string' && moment(until, UNTIL_DATE_FORMAT, true).isValid()) return until;
+  return new Date(until);
+};
+
+// The last moment of the end date in the room's timezone
+const getUntilBoundary = (until, timezone) => (typeof until === 'string'
+  ? moment.tz(until, UNTIL_DATE_FORMAT, timezone)
+  : moment.tz(until, timezone)
+).endOf('day');
+
+// Parse the subset of RFC 5545 we support: FREQ, INTERVAL, COUNT, UNTIL and BYDAY
+const parseRRule = (rrule) => {
+  const rule = {};
+  const body = String(rrule).trim().replace(/^RRULE:/i, '');
+
+  for (const part of body.split(';').filter(Boolean)) {
+    const [rawKey, rawValue = ''] = part.split('=');
+    const key = rawKey.trim().toUpperCase();
+    const value = rawValue.trim().toUpperCase();
+
+    switch (key) {
+      case 'FREQ':
+        rule.frequency = value.toLowerCase();
+        break;
+      case 'INTERVAL':
+        rule.interval = parseInt(value);
+        break;
+      case 'COUNT':
+        rule.count = parseInt(value);
+        break;
+      case 'UNTIL':
+        // Accept both 20250131 and 20250131T235959Z forms; a plain date is kept as a date
+        rule.until = moment.utc(value, 'YYYYMMDD', true).isValid()
+          ? moment.utc(value, 'YYYYMMDD', true).format(UNTIL_DATE_FORMAT)
+          : moment.utc(value, 'YYYYMMDD[T]HHmmss[Z]', true).toDate();
+        break;
+      case 'BYDAY':
+        rule.byWeekday = value.split(',').map(day => day.trim()).filter(Boolean);
+        break;
+      default:
+        rule.unsupported = key;
+    }
+  }
+
+  return rule;
+};
+
+// Resolve a request payload into a plain rule ({ frequency, interval, count, until, byWeekday })
+const normalizeRecurrence = (recurrence) => {
+  const base = recurrence.frequency === 'custom'
+    ? parseRRule(recurrence.rrule || '')
+    : {
+        frequency: recurrence.frequency,
+        interval: recurrence.interval,
+        count: recurrence.count,
+        until: normalizeUntil(recurrence.until),
+        byWeekday: recurrence.byWeekday
+      };
+
+  return {
+    ...base,
+    interval: parseInt(base.interval) || 1,
+    count: base.count ? parseInt(base.count) : undefined,
+    byWeekday: (base.byWeekday || []).map(day => String(day).toUpperCase())
+  };
+};
+
+// Returns an error message for an invalid rule, or null when the rule can be expanded
+const validateRecurrence = (recurrence) => {
+  if (!recurrence || typeof recurrence !== 'object') {
+    return 'Recurrence must be an object';
+  }
+  if (!FREQUENCIES.includes(recurrence.frequency)) {
+    return `Recurrence frequency must be one of: ${FREQUENCIES.join(', ')}`;
+  }
+  if (recurrence.frequency === 'custom' && !recurrence.rrule) {
+    return 'A custom recurrence requires an RRULE';
+  }
+
+  const rule = normalizeRecurrence(recurrence);
+
+  if (rule.unsupported) {
+    return `Unsupported RRULE part: ${rule.unsupported}`;
+  }
+  if (!['daily', 'weekly', 'monthly'].includes(rule.frequency)) {
+    return 'RRULE FREQ must be DAILY, WEEKLY or MONTHLY';
+  }
+  if (rule.interval < 1 || rule.interval > 12) {
+    return 'Recurrence interval must be between 1 and 12';
+  }
+  if (rule.count !== undefined && (isNaN(rule.count) || rule.count < 1)) {
+    return 'Recurrence count must be a positive number';
+  }
+  if (rule.until instanceof Date && isNaN(rule.until.getTime())) {
+    return 'Recurrence end date is invalid';
+  }
+  if (!rule.count && !rule.until) {
+    return 'Recurrence needs either an occurrence count or an end date';
+  }
+  if (rule.byWeekday.some(day => !WEEKDAY_CODES.includes(day))) {
+    return 'Recurrence weekdays must be two-letter codes (MO, TU, WE, TH, FR, SA, SU)';
+  }
+
+  return null;
+};
+
+// Expand a validated rule into [{ startTime, endTime, index }], capped at MAX_OCCURRENCES.
+// Occurrences never start before the requested start time.
+const expandRecurrence = (startTime, endTime, recurrence, timezone) => {
+  const rule = normalizeRecurrence(recurrence);
+  const first = moment.tz(startTime, timezone);
+  const durationMs = new Date(endTime).getTime() - new Date(startTime).getTime();
+  const limit = Math.min(rule.count || MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const until = rule.until ? getUntilBoundary(rule.until, timezone) : null;
+
+  const occurrences = [];
+  const push = (start) => {
+    occurrences.push({
+      index: occurrences.length,
+      startTime: start.clone().utc().toDate(),
+      endTime: new Date(start.valueOf() + durationMs)
+    });
+  };
+  const withinBounds = (candidate) => occurrences.length < limit && (!until || !candidate.isAfter(until));
+
+  if (rule.frequency === 'weekly' && rule.byWeekday.length > 0) {
+    const weekdays = rule.byWeekday.map(code => WEEKDAY_CODES.indexOf(code)).sort((a, b) => a - b);
+    const weekStart = first.clone().startOf('week');
+
+    // Hard stop so a far-away UNTIL cannot loop forever
+    for (let week = 0; week < MAX_OCCURRENCES * rule.interval; week += rule.interval) {
+      for (const weekday of weekdays) {
+        const candidate = weekStart.clone().add(week, 'weeks').day(weekday)
+          .hour(first.hour()).minute(first.minute()).second(0).millisecond(0);
+
+        if (candidate.isBefore(first)) continue;
+        if (!withinBounds(candidate)) return occurrences;
+        push(candidate);
+      }
+    }
+    return occurrences;
+  }
+
+  const unit = { daily: 'days', weekly: 'weeks', monthly: 'months' }[rule.frequency];
+
+  for (let step = 0; step < MAX_OCCURRENCES * 2; step++) {
+    const candidate = first.clone().add(step * rule.interval, unit);
+
+    // Months without the original day (e.g. the 31st) are skipped rather than clamped
+    if (unit === 'months' && candidate.date() !== first.date()) continue;
+    if (!withinBounds(candidate)) break;
+    push(candidate);
+  }
+
+  return occurrences;
+};
+
+// Human readable summary used in notifications and emails, e.g. "Weekly on Mon, Wed, 10 times"
+const describeRecurrence = (recurrence) => {
+  if (!recurrence || !recurrence.frequency) return '';
+
+  const rule = normalizeRecurrence(recurrence);
+  const units = { daily: 'day', weekly: 'week', monthly: 'month' };
+  const unit = units[rule.frequency];
+  if (!unit) return '';
+
+  let summary = rule.interval > 1
+    ? `Every ${rule.interval} ${unit}s`
+    : rule.frequency.charAt(0).toUpperCase() + rule.frequency.slice(1);
+
+  if (rule.frequency === 'weekly' && rule.byWeekday.length > 0) {
+    summary += ` on ${rule.byWeekday.map(code => WEEKDAY_LABELS[WEEKDAY_CODES.indexOf(code)]).join(', ')}`;
+  }
+  if (rule.count) {
+    summary += `, ${rule.count} times`;
+  } else if (rule.until) {
+    summary += `, until ${moment(rule.until).format('D MMM YYYY')}`;
+  }
+
+  return summary;
+};
+
+module.exports = {
+  MAX_OCCURRENCES,
+  parseRRule,
+  validateRecurrence,
+  expandRecurrence,
+  describeRecurrence
+};
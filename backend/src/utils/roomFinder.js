@@ -0,0 +1,64 @@
+// backend/src/utils/roomFinder.js
+// Candidate times and ranking for the "find me a room" search
+const moment = require('moment-timezone');
+const { getHoursForDay, toMinutes, validateAgainstPolicy } = require('./bookingPolicy');
+const { getBufferedRange, findMaintenanceWindow } = require('./bookingRules');
+
+// Each room contributes its earliest few times so one empty room cannot fill the whole list
+const MAX_TIMES_PER_ROOM = 3;
+const DEFAULT_RESULT_LIMIT = 20;
+
+// Every start on the room's slot grid where a meeting of this length fits the policy, inside the
+// optional HH:mm window, on a calendar day in the room's timezone
+const getCandidateSlots = (policy, date, durationMinutes, { from, to } = {}, now = new Date()) => {
+  const day = moment.tz(date, 'YYYY-MM-DD', policy.timezone).startOf('day');
+  const hours = getHoursForDay(policy, day);
+  if (!hours) return [];
+
+  const open = toMinutes(hours.open);
+  const first = Math.max(open, from ? toMinutes(from) : open);
+  const last = Math.min(toMinutes(hours.close), to ? toMinutes(to) : toMinutes(hours.close));
+  const slots = [];
+
+  // Starts are counted from opening time, as validateAgainstPolicy expects
+  const offset = (first - open) % policy.slotMinutes;
+  const firstStart = offset === 0 ? first : first + policy.slotMinutes - offset;
+  for (let minute = firstStart; minute + durationMinutes <= last; minute += policy.slotMinutes) {
+    const startTime = day.clone().add(minute, 'minutes').toDate();
+    const endTime = day.clone().add(minute + durationMinutes, 'minutes').toDate();
+    if (!validateAgainstPolicy(startTime, endTime, policy, now)) {
+      slots.push({ startTime, endTime });
+    }
+  }
+  return slots;
+};
+
+// A slot is free when no booking (with the room's buffers), closure or maintenance window overlaps it
+const isSlotFree = (slot, { room, bookings, closures, buffers }) => {
+  const { start, end } = getBufferedRange(slot.startTime, slot.endTime, buffers);
+  if (bookings.some(booking => booking.startTime < end && booking.endTime > start)) return false;
+  if (closures.some(closure => closure.startTime < slot.endTime && closure.endTime > slot.startTime)) return false;
+  return !findMaintenanceWindow(room, slot.startTime, slot.endTime);
+};
+
+const matchesLocation = (room, location) => {
+  return Boolean(location) && room.location.toLowerCase().includes(location.toLowerCase());
+};
+
+// Closest fit to the headcount first, then the preferred location, then the earliest time
+const compareMatches = (a, b) => {
+  return a.spareSeats - b.spareSeats ||
+    Number(b.preferredLocation) - Number(a.preferredLocation) ||
+    a.startTime - b.startTime;
+};
+
+const rankMatches = (matches) => [...matches].sort(compareMatches);
+
+module.exports = {
+  MAX_TIMES_PER_ROOM,
+  DEFAULT_RESULT_LIMIT,
+  getCandidateSlots,
+  isSlotFree,
+  matchesLocation,
+  rankMatches
+};
@@ -0,0 +1,72 @@
+const crypto = require('crypto');
+const RoomLock = require('../models/RoomLock');
+
+// Checking a slot and saving the booking are separate queries, so two requests for the same
+// room could both pass the check. Every write that claims room time holds the room's lock
+// from the conflict check until the booking is saved.
+
+const LOCK_TTL_MS = 30 * 1000;
+const LOCK_WAIT_MS = 5 * 1000;
+const RETRY_DELAY_MS = 25;
+
+const ROOM_BUSY_MESSAGE = 'Another booking for this room is being saved. Please try again.';
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Take the lock for one room, waiting up to waitMs for the current holder. Returns false on timeout.
+const lockRoom = async (boardroomId, owner, waitMs) => {
+  const deadline = Date.now() + waitMs;
+
+  for (;;) {
+    const now = new Date();
+    try {
+      // Matches only a missing or expired lock; a live lock makes the upsert hit the unique index
+      await RoomLock.findOneAndUpdate(
+        { boardroom: boardroomId, expiresAt: { $lte: now } },
+        { owner, expiresAt: new Date(now.getTime() + LOCK_TTL_MS) },
+        { upsert: true }
+      );
+      return true;
+    } catch (error) {
+      if (error.code !== 11000) throw error;
+    }
+
+    if (Date.now() >= deadline) return false;
+    await sleep(RETRY_DELAY_MS + Math.floor(Math.random() * RETRY_DELAY_MS));
+  }
+};
+
+// Lock every given room, always in the same order so two requests for overlapping rooms cannot
+// deadlock. Resolves to a release function, or null when a room stayed locked for too long.
+const acquireRoomLocks = async (boardroomIds, { waitMs = LOCK_WAIT_MS } = {}) => {
+  const ids = [...new Set([].concat(boardroomIds).map(String))].sort();
+  const owner = crypto.randomUUID();
+  const release = () => RoomLock.deleteMany({ boardroom: { $in: ids }, owner });
+
+  for (const id of ids) {
+    if (!(await lockRoom(id, owner, waitMs))) {
+      await release();
+      return null;
+    }
+  }
+
+  return release;
+};
+
+// Run task while holding the rooms' locks. Resolves to { locked: false } if the locks could not be taken.
+const withRoomLocks = async (boardroomIds, task, options) => {
+  const release = await acquireRoomLocks(boardroomIds, options);
+  if (!release) return { locked: false };
+
+  try {
+    return { locked: true, result: await task() };
+  } finally {
+    await release();
+  }
+};
+
+module.exports = {
+  ROOM_BUSY_MESSAGE,
+  acquireRoomLocks,
+  withRoomLocks
+};
@@ -0,0 +1,120 @@
+// backend/src/utils/serviceRequests.js
+// Catering and equipment ordered with a booking: checked against the catalog when the booking is made,
+// then moved or voided along with the booking
+const ServiceItem = require('../models/ServiceItem');
+const ServiceRequest = require('../models/ServiceRequest');
+
+const SERVICE_CATEGORIES = ServiceItem.schema.path('category').enumValues;
+const SERVICE_STATUSES = ServiceRequest.schema.path('status').enumValues;
+const OPEN_SERVICE_STATUSES = ['requested', 'confirmed'];
+const MAX_SERVICE_REQUESTS = 20;
+
+// Deliveries can be set up this long before the meeting starts
+const EARLY_DELIVERY_MINUTES = 30;
+
+const toId = (value) => String(value && value._id ? value._id : value);
+
+// Why one request cannot be taken for a meeting at this time, or null
+const getServiceRequestError = (item, { quantity, deliverAt }, startTime, endTime, now = new Date()) => {
+  if (quantity > item.maxQuantity) {
+    return `At most ${item.maxQuantity} of ${item.name} can be requested`;
+  }
+  const earliest = new Date(startTime).getTime() - EARLY_DELIVERY_MINUTES * 60 * 1000;
+  if (deliverAt.getTime() < earliest || deliverAt > new Date(endTime)) {
+    return `${item.name} must be delivered between ${EARLY_DELIVERY_MINUTES} minutes before the meeting and its end`;
+  }
+  if (deliverAt.getTime() - now.getTime() < item.leadTimeHours * 60 * 60 * 1000) {
+    return `${item.name} needs ${item.leadTimeHours} hours' notice`;
+  }
+  return null;
+};
+
+// The services asked for with a new booking, checked against the catalog and the (first) meeting's time.
+// Each keeps its delivery as an offset from the start so every occurrence of a series gets the same.
+const resolveServiceRequests = async (requests, startTime, endTime) => {
+  if (!requests || requests.length === 0) return { services: [] };
+  if (requests.length > MAX_SERVICE_REQUESTS) {
+    return { error: `A booking can have at most ${MAX_SERVICE_REQUESTS} service requests` };
+  }
+
+  const items = await ServiceItem.find({ _id: { $in: requests.map(request => request.item) }, isActive: true });
+  const itemsById = new Map(items.map(item => [String(item._id), item]));
+
+  const services = [];
+  for (const request of requests) {
+    const item = itemsById.get(String(request.item));
+    if (!item) {
+      return { error: 'One of the requested services is no longer available' };
+    }
+
+    const deliverAt = request.deliverAt ? new Date(request.deliverAt) : new Date(startTime);
+    const error = getServiceRequestError(item, { quantity: request.quantity, deliverAt }, startTime, endTime);
+    if (error) {
+      return { error };
+    }
+
+    services.push({
+      item,
+      quantity: request.quantity,
+      deliverOffset: deliverAt.getTime() - new Date(startTime).getTime(),
+      notes: request.notes
+    });
+  }
+  return { services };
+};
+
+const createServiceRequests = async (bookings, services, req) => {
+  if (services.length === 0) return [];
+  return ServiceRequest.insertMany([].concat(bookings).flatMap(booking => services.map(service => ({
+    booking: booking._id,
+    boardroom: toId(booking.boardroom),
+    item: service.item._id,
+    itemName: service.item.name,
+    quantity: service.quantity,
+    deliverAt: new Date(new Date(booking.startTime).getTime() + service.deliverOffset),
+    notes: service.notes,
+    requestedBy: req.user.userId
+  }))));
+};
+
+// Open requests follow a booking that moved: the delivery keeps its distance from the start and the room
+// is updated. `before` is a snapshotBooking taken before the change.
+const moveServiceRequests = async (changedBookings) => {
+  const now = new Date();
+  for (const { booking, before } of changedBookings) {
+    const shift = new Date(booking.startTime).getTime() - new Date(before.startTime).getTime();
+    const boardroom = toId(booking.boardroom);
+    if (shift === 0 && boardroom === before.boardroom) continue;
+
+    const requests = await ServiceRequest.find({ booking: booking._id, status: { $in: OPEN_SERVICE_STATUSES } });
+    for (const request of requests) {
+      request.deliverAt = new Date(request.deliverAt.getTime() + shift);
+      request.boardroom = boardroom;
+      request.bookingChangedAt = now;
+      request.updatedAt = now;
+      await request.save();
+    }
+  }
+};
+
+// Requests not yet delivered are called off with their booking
+const voidServiceRequests = (bookings, reason) => {
+  const now = new Date();
+  return ServiceRequest.updateMany(
+    { booking: { $in: [].concat(bookings).map(booking => booking._id) }, status: { $in: OPEN_SERVICE_STATUSES } },
+    { status: 'cancelled', cancelReason: reason, bookingChangedAt: now, updatedAt: now }
+  );
+};
+
+module.exports = {
+  SERVICE_CATEGORIES,
+  SERVICE_STATUSES,
+  OPEN_SERVICE_STATUSES,
+  MAX_SERVICE_REQUESTS,
+  EARLY_DELIVERY_MINUTES,
+  getServiceRequestError,
+  resolveServiceRequests,
+  createServiceRequests,
+  moveServiceRequests,
+  voidServiceRequests
+};
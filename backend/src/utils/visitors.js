@@ -0,0 +1,93 @@
+// backend/src/utils/visitors.js
+// Visitors pre-registered on a booking: reception lists each day's expected visitors by room, checks
+// them in as they arrive and lets their host know
+const moment = require('moment-timezone');
+const Notification = require('../models/Notification');
+const emailService = require('../services/emailService');
+const { getRoomTimezone, formatRoomTime } = require('./bookingPolicy');
+const { isBookingParticipant } = require('./bookingRules');
+
+const MAX_VISITORS_PER_BOOKING = 50;
+
+const toId = (value) => String(value && value._id ? value._id : value);
+
+// Who to tell when the visitor arrives; if their host has since left the booking, the organizer
+const getVisitorHost = (booking, visitor) => (
+  isBookingParticipant(booking, toId(visitor.host)) ? toId(visitor.host) : toId(booking.user)
+);
+
+// The booking's calendar day in its room's timezone, e.g. '2030-03-04'
+const getRoomDate = (booking) => moment.tz(booking.startTime, getRoomTimezone(booking.boardroom)).format('YYYY-MM-DD');
+
+// Today's date in a room's timezone
+const getRoomToday = (boardroom, now = new Date()) => moment.tz(now, getRoomTimezone(boardroom)).format('YYYY-MM-DD');
+
+// One entry per room with its bookings' visitors in arrival order. `date` is a calendar day, or each
+// room's own today when left out; bookings need their boardroom (with site) populated.
+const groupVisitorsByRoom = (bookings, date, now = new Date()) => {
+  const rooms = new Map();
+
+  bookings
+    .filter(booking => booking.visitors.length > 0)
+    .filter(booking => getRoomDate(booking) === (date || getRoomToday(booking.boardroom, now)))
+    .sort((a, b) => new Date(a.startTime) - new Date(b.startTime))
+    .forEach(booking => {
+      const roomId = toId(booking.boardroom);
+      if (!rooms.has(roomId)) {
+        rooms.set(roomId, { boardroom: booking.boardroom, visitors: [] });
+      }
+      booking.visitors.forEach(visitor => {
+        rooms.get(roomId).visitors.push({
+          booking: {
+            _id: booking._id,
+            purpose: booking.purpose,
+            startTime: booking.startTime,
+            endTime: booking.endTime,
+            user: booking.user
+          },
+          visitor
+        });
+      });
+    });
+
+  return [...rooms.values()].sort((a, b) => a.boardroom.name.localeCompare(b.boardroom.name));
+};
+
+// In-app notice and email to the host; `booking` has its boardroom populated and `host` is a user
+const notifyHostOfArrival = async (booking, visitor, host) => {
+  const from = visitor.company ? `${visitor.name} (${visitor.company})` : visitor.name;
+  const message = `${from} has arrived at reception for "${booking.purpose}" in ${booking.boardroom.name}`;
+
+  await Notification.create({
+    user: host._id,
+    message,
+    booking: booking._id
+  });
+
+  try {
+    await emailService.sendEmail(
+      host.email,
+      `Your visitor has arrived: ${visitor.name}`,
+      `
+      Hello ${host.name},
+
+      ${message}.
+
+      Meeting time: ${formatRoomTime(booking.startTime, booking.boardroom)}
+
+      Best regards,
+      Boardroom Booking System
+      `
+    );
+  } catch (emailError) {
+    console.error('Visitor arrival email failed:', emailError);
+  }
+};
+
+module.exports = {
+  MAX_VISITORS_PER_BOOKING,
+  getVisitorHost,
+  getRoomDate,
+  groupVisitorsByRoom,
+  notifyHostOfArrival
+};
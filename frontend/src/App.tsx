@@ -18,6 +18,14 @@ import BoardroomList from './components/BoardroomList';
 import AdminBoardrooms from './components/AdminBoardrooms';
 import AdminUsers from './components/AdminUsers';
 import AdminBookings from './components/AdminBookings';
+import AdminApprovals from './components/AdminApprovals';
+import AdminClosures from './components/AdminClosures';
+import AdminSites from './components/AdminSites';
+import AdminQuotas from './components/AdminQuotas';
+import AdminServices from './components/AdminServices';
+import AdminReception from './components/AdminReception';
+import RoomCheckIn from './components/RoomCheckIn';
+import GuestRsvp from './components/GuestRsvp';
 import AdminDashboard from './components/AdminDashboard';
 import ErrorBoundary from './components/ErrorBoundary';
 import NotFoundPage from './components/NotFoundPage';
@@ -149,10 +157,18 @@ const AppContent = () => {
             <Route path="/calendar" element={user ? <CalendarView /> : <Navigate to="/login" />} />
             <Route path="/profile" element={user ? <UserProfile /> : <Navigate to="/login" />} />
             <Route path="/boardrooms" element={<BoardroomList />} />
+            <Route path="/rooms/:boardroomId/check-in" element={user ? <RoomCheckIn /> : <Navigate to="/login" />} />
+            <Route path="/rsvp/:bookingId" element={<GuestRsvp />} /> {/* Guests' invitation links, no sign-in */}
             <Route path="/admin" element={user?.role === 'admin' ? <AdminDashboard /> : <Navigate to="/" />} />
             <Route path="/admin/dashboard" element={user?.role === 'admin' ? <AdminDashboard /> : <Navigate to="/" />} />
             <Route path="/admin/boardrooms" element={user?.role === 'admin' ? <AdminBoardrooms /> : <Navigate to="/" />} />
             <Route path="/admin/bookings" element={user?.role === 'admin' ? <AdminBookings /> : <Navigate to="/" />} />
+            <Route path="/admin/approvals" element={user?.role === 'admin' ? <AdminApprovals /> : <Navigate to="/" />} />
+            <Route path="/admin/closures" element={user?.role === 'admin' ? <AdminClosures /> : <Navigate to="/" />} />
+            <Route path="/admin/sites" element={user?.role === 'admin' ? <AdminSites /> : <Navigate to="/" />} />
+            <Route path="/admin/quotas" element={user?.role === 'admin' ? <AdminQuotas /> : <Navigate to="/" />} />
+            <Route path="/admin/services" element={user?.role === 'admin' ? <AdminServices /> : <Navigate to="/" />} />
+            <Route path="/admin/reception" element={user?.role === 'admin' ? <AdminReception /> : <Navigate to="/" />} />
             <Route path="/admin/booking" element={<Navigate to="/admin/bookings" replace />} />
             <Route path="/admin/users" element={user?.role === 'admin' ? <AdminUsers /> : <Navigate to="/" />} />
             {/* Error Pages */}
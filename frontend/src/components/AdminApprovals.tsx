@@ -0,0 +1,282 @@
+import React, { useState, useEffect } from 'react';
+import { ClipboardCheck, Clock, MapPin, Users, Repeat, X } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { bookingsAPI } from '../services/api';
+import { Booking } from '../types';
+
+// A single pending booking, or every pending occurrence of one series
+interface ApprovalGroup {
+  key: string;
+  first: Booking;
+  occurrences: Booking[];
+}
+
+type ApprovalScope = 'this' | 'series';
+
+const AdminApprovals: React.FC = () => {
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<{ booking: Booking; scope: ApprovalScope } | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+
+  useEffect(() => {
+    fetchPending();
+  }, []);
+
+  const fetchPending = async () => {
+    try {
+      const data = await bookingsAPI.getPendingApprovals();
+      setBookings(Array.isArray(data) ? data : []);
+    } catch (error: any) {
+      console.error('Error fetching pending approvals:', error);
+      toast.error(error.message || 'Failed to load the approval queue');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const groups: ApprovalGroup[] = bookings.reduce<ApprovalGroup[]>((acc, booking) => {
+    const key = booking.seriesId || booking._id;
+    const existing = acc.find(group => group.key === key);
+    if (existing) {
+      existing.occurrences.push(booking);
+    } else {
+      acc.push({ key, first: booking, occurrences: [booking] });
+    }
+    return acc;
+  }, []);
+
+  const handleApprove = async (booking: Booking, scope: ApprovalScope) => {
+    setBusyId(booking._id);
+    try {
+      const result = await bookingsAPI.approve(booking._id, scope);
+      toast.success(result.message);
+      await fetchPending();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to approve booking');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const openRejectModal = (booking: Booking, scope: ApprovalScope) => {
+    setRejectionReason('');
+    setRejecting({ booking, scope });
+  };
+
+  const handleReject = async () => {
+    if (!rejecting) return;
+    if (rejectionReason.trim().length < 2) {
+      toast.error('Please give a reason for the rejection');
+      return;
+    }
+
+    setBusyId(rejecting.booking._id);
+    try {
+      const result = await bookingsAPI.reject(rejecting.booking._id, rejectionReason.trim(), rejecting.scope);
+      toast.success(result.message);
+      setRejecting(null);
+      await fetchPending();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to reject booking');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      weekday: 'short',
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const formatTime = (dateString: string) => {
+    return new Date(dateString).toLocaleTimeString('en-US', {
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6 bg-white rounded-lg shadow">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-4"></div>
+          <div className="space-y-4">
+            <div className="h-4 bg-gray-200 rounded"></div>
+            <div className="h-4 bg-gray-200 rounded w-5/6"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="p-6 bg-white rounded-lg shadow">
+        <div className="flex items-center">
+          <ClipboardCheck className="w-8 h-8 text-blue-600 mr-3" />
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-1">Approval Queue</h1>
+            <p className="text-gray-600">
+              {bookings.length} pending booking{bookings.length === 1 ? '' : 's'} in rooms that require approval
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {groups.length === 0 ? (
+        <div className="p-6 bg-white rounded-lg shadow text-center py-12">
+          <ClipboardCheck className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">Nothing waiting for approval</h3>
+          <p className="mt-1 text-sm text-gray-500">New requests for approval rooms will appear here.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {groups.map(({ key, first, occurrences }) => {
+            const isSeries = occurrences.length > 1;
+            const busy = busyId === first._id;
+
+            return (
+              <div key={key} className="p-6 bg-white rounded-lg shadow">
+                <div className="flex flex-col lg:flex-row lg:items-start lg:justify-between gap-4">
+                  <div className="space-y-1">
+                    <div className="flex items-center space-x-2">
+                      <h3 className="text-lg font-semibold text-gray-900">{first.purpose}</h3>
+                      {isSeries && (
+                        <span className="inline-flex items-center px-2 py-1 text-xs font-medium rounded-full bg-purple-100 text-purple-800">
+                          <Repeat className="w-3 h-3 mr-1" />
+                          {occurrences.length} occurrences
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      Requested by <span className="font-medium">{first.user?.name || 'Unknown User'}</span>
+                      {first.user?.email && ` (${first.user.email})`}
+                    </p>
+                    <p className="text-sm text-gray-600 flex items-center">
+                      <MapPin className="w-4 h-4 mr-1" />
+                      {first.boardroom?.name} • {first.boardroom?.location}
+                    </p>
+                    <p className="text-sm text-gray-600 flex items-center">
+                      <Clock className="w-4 h-4 mr-1" />
+                      {formatDate(first.startTime)}, {formatTime(first.startTime)} - {formatTime(first.endTime)}
+                      {isSeries && ` (first of ${occurrences.length})`}
+                    </p>
+                    <p className="text-sm text-gray-600 flex items-center">
+                      <Users className="w-4 h-4 mr-1" />
+                      {first.attendees?.length || 0} attendees
+                    </p>
+                    {first.notes && (
+                      <p className="text-sm text-gray-500">Notes: {first.notes}</p>
+                    )}
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-2">
+                    {isSeries && (
+                      <button
+                        onClick={() => handleApprove(first, 'series')}
+                        disabled={busy}
+                        className="px-4 py-2 bg-green-600 text-white text-sm font-medium rounded-md hover:bg-green-700 transition-colors disabled:opacity-50"
+                      >
+                        Approve Series
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleApprove(first, 'this')}
+                      disabled={busy}
+                      className={`px-4 py-2 text-sm font-medium rounded-md transition-colors disabled:opacity-50 ${
+                        isSeries ? 'bg-green-50 text-green-700 hover:bg-green-100' : 'bg-green-600 text-white hover:bg-green-700'
+                      }`}
+                    >
+                      {isSeries ? 'Approve First Only' : 'Approve'}
+                    </button>
+                    <button
+                      onClick={() => openRejectModal(first, isSeries ? 'series' : 'this')}
+                      disabled={busy}
+                      className="px-4 py-2 bg-red-50 text-red-700 text-sm font-medium rounded-md hover:bg-red-100 transition-colors disabled:opacity-50"
+                    >
+                      {isSeries ? 'Reject Series' : 'Reject'}
+                    </button>
+                  </div>
+                </div>
+
+                {isSeries && (
+                  <div className="mt-4 border-t border-gray-100 pt-3">
+                    <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">Occurrences</p>
+                    <div className="flex flex-wrap gap-2">
+                      {occurrences.map(occurrence => (
+                        <span key={occurrence._id} className="px-2 py-1 text-xs rounded bg-gray-100 text-gray-700">
+                          {formatDate(occurrence.startTime)} {formatTime(occurrence.startTime)}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Rejection reason modal */}
+      {rejecting && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-md w-full">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">
+                Reject {rejecting.scope === 'series' ? 'Series' : 'Booking'}
+              </h2>
+              <button
+                onClick={() => setRejecting(null)}
+                className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                disabled={busyId !== null}
+              >
+                <X className="w-5 h-5 text-gray-500" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-3">
+              <p className="text-sm text-gray-600">
+                "{rejecting.booking.purpose}" will be rejected and {rejecting.booking.user?.name || 'the organizer'} will be told why.
+              </p>
+              <textarea
+                value={rejectionReason}
+                onChange={(e) => setRejectionReason(e.target.value)}
+                rows={4}
+                maxLength={500}
+                placeholder="Reason for rejection"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent"
+              />
+            </div>
+
+            <div className="flex items-center justify-end space-x-3 p-6 border-t border-gray-200">
+              <button
+                onClick={() => setRejecting(null)}
+                disabled={busyId !== null}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleReject}
+                disabled={busyId !== null}
+                className="px-4 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-md transition-colors disabled:opacity-50"
+              >
+                {busyId !== null ? 'Rejecting...' : 'Reject'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminApprovals;
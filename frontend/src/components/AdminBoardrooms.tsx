@@ -1,6 +1,60 @@
 import React, { useState, useEffect } from 'react';
-import { boardroomsAPI } from '../services/api';
-import { Boardroom, BoardroomImage } from '../types';
+import { boardroomsAPI, sitesAPI } from '../services/api';
+import { Boardroom, BoardroomImage, BookingPolicy, Site } from '../types';
+import MaintenanceModal from './MaintenanceModal';
+import { getSiteName } from '../utils/timezones';
+
+const POLICY_DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+type PolicyNumberField = 'minDurationMinutes' | 'maxDurationMinutes' | 'slotMinutes' | 'maxAdvanceDays' | 'minLeadMinutes';
+
+// Booking policy as edited in the form; blank numbers and unchecked custom hours mean "use the default"
+interface PolicyForm {
+  customHours: boolean;
+  hours: { day: number; enabled: boolean; open: string; close: string }[];
+  numbers: Record<PolicyNumberField, string>;
+}
+
+const POLICY_NUMBER_INPUTS: { field: PolicyNumberField; label: string; placeholder: string }[] = [
+  { field: 'minDurationMinutes', label: 'Minimum Duration (minutes)', placeholder: 'Default: 30' },
+  { field: 'maxDurationMinutes', label: 'Maximum Duration (minutes)', placeholder: 'Default: 480' },
+  { field: 'slotMinutes', label: 'Slot Size (minutes)', placeholder: 'Default: 30' },
+  { field: 'maxAdvanceDays', label: 'Book Up To (days ahead)', placeholder: 'Default: no limit' },
+  { field: 'minLeadMinutes', label: 'Minimum Notice (minutes)', placeholder: 'Default: none' }
+];
+
+const toPolicyForm = (policy?: Boardroom['bookingPolicy']): PolicyForm => {
+  const operatingHours = policy?.operatingHours || [];
+  const numbers = {} as Record<PolicyNumberField, string>;
+  POLICY_NUMBER_INPUTS.forEach(({ field }) => {
+    const value = policy?.[field];
+    numbers[field] = value === undefined || value === null ? '' : String(value);
+  });
+
+  return {
+    customHours: operatingHours.length > 0,
+    hours: POLICY_DAYS.map((_, day) => {
+      const existing = operatingHours.find(hours => hours.day === day);
+      return existing
+        ? { day, enabled: true, open: existing.open, close: existing.close }
+        : { day, enabled: operatingHours.length === 0 && day >= 1 && day <= 5, open: '07:00', close: '16:00' };
+    }),
+    numbers
+  };
+};
+
+const toBookingPolicy = (form: PolicyForm): Partial<Omit<BookingPolicy, 'timezone'>> => {
+  const policy: Partial<Omit<BookingPolicy, 'timezone'>> = {
+    operatingHours: form.customHours
+      ? form.hours.filter(hours => hours.enabled).map(({ day, open, close }) => ({ day, open, close }))
+      : []
+  };
+  POLICY_NUMBER_INPUTS.forEach(({ field }) => {
+    const value = form.numbers[field].trim();
+    (policy as Record<PolicyNumberField, number | null>)[field] = value === '' ? null : parseInt(value);
+  });
+  return policy;
+};
 
 const AdminBoardrooms: React.FC = () => {
   const [boardrooms, setBoardrooms] = useState<Boardroom[]>([]);
@@ -10,9 +64,13 @@ const AdminBoardrooms: React.FC = () => {
   const [formData, setFormData] = useState({
     name: '',
     capacity: 1,
+    site: '',
     location: '',
     amenities: [] as string[],
     description: '',
+    requiresApproval: false,
+    bufferBefore: 0,
+    bufferAfter: 0,
     images: [] as BoardroomImage[]
   });
   const [newImageUrl, setNewImageUrl] = useState('');
@@ -21,11 +79,23 @@ const AdminBoardrooms: React.FC = () => {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [uploadMode, setUploadMode] = useState<'url' | 'file'>('url');
   const [uploading, setUploading] = useState(false);
+  const [policyForm, setPolicyForm] = useState<PolicyForm>(() => toPolicyForm());
+  const [maintenanceRoom, setMaintenanceRoom] = useState<Boardroom | null>(null);
+  const [sites, setSites] = useState<Site[]>([]);
 
   useEffect(() => {
     fetchBoardrooms();
+    fetchSites();
   }, []);
 
+  const fetchSites = async () => {
+    try {
+      setSites(await sitesAPI.getAll());
+    } catch (error) {
+      console.error('Error fetching sites:', error);
+    }
+  };
+
   const fetchBoardrooms = async () => {
     try {
       const data = await boardroomsAPI.getAllAdmin();
@@ -40,12 +110,13 @@ const AdminBoardrooms: React.FC = () => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
+    const boardroomData = { ...formData, site: formData.site || null, bookingPolicy: toBookingPolicy(policyForm) };
     try {
       if (editingBoardroom) {
-        await boardroomsAPI.update(editingBoardroom._id, formData);
+        await boardroomsAPI.update(editingBoardroom._id, boardroomData);
         alert('Boardroom updated successfully!');
       } else {
-        await boardroomsAPI.create(formData);
+        await boardroomsAPI.create(boardroomData);
         alert('Boardroom created successfully!');
       }
       
@@ -91,11 +162,16 @@ const AdminBoardrooms: React.FC = () => {
     setFormData({
       name: boardroom.name,
       capacity: boardroom.capacity,
+      site: (typeof boardroom.site === 'object' ? boardroom.site?._id : boardroom.site) || '',
       location: boardroom.location,
       amenities: boardroom.amenities,
       description: boardroom.description || '',
+      requiresApproval: boardroom.requiresApproval || false,
+      bufferBefore: boardroom.bufferBefore || 0,
+      bufferAfter: boardroom.bufferAfter || 0,
       images: boardroom.images
     });
+    setPolicyForm(toPolicyForm(boardroom.bookingPolicy));
     setShowCreateForm(true);
   };
 
@@ -103,11 +179,16 @@ const AdminBoardrooms: React.FC = () => {
     setFormData({
       name: '',
       capacity: 1,
+      site: '',
       location: '',
       amenities: [],
       description: '',
+      requiresApproval: false,
+      bufferBefore: 0,
+      bufferAfter: 0,
       images: []
     });
+    setPolicyForm(toPolicyForm());
     setNewImageUrl('');
     setNewImageAlt('');
     setIsPrimaryImage(false);
@@ -307,7 +388,14 @@ const AdminBoardrooms: React.FC = () => {
                     {boardroom.name}
                   </h3>
                   <p className="text-sm text-gray-600 mb-2">
+                    {getSiteName(boardroom) && <>{getSiteName(boardroom)} • </>}
                     {boardroom.location} • Capacity: {boardroom.capacity} people
+                    {((boardroom.bufferBefore || 0) > 0 || (boardroom.bufferAfter || 0) > 0) && (
+                      <> • Buffers: {boardroom.bufferBefore || 0}/{boardroom.bufferAfter || 0} min</>
+                    )}
+                    {(boardroom.bookingPolicy?.operatingHours?.length || 0) > 0 && (
+                      <> • Custom hours</>
+                    )}
                   </p>
                   <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
                     boardroom.isActive 
@@ -316,6 +404,16 @@ const AdminBoardrooms: React.FC = () => {
                   }`}>
                     {boardroom.isActive ? 'Active' : 'Inactive'}
                   </span>
+                  {boardroom.requiresApproval && (
+                    <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                      Requires approval
+                    </span>
+                  )}
+                  {(boardroom.maintenanceWindows || []).some(window => new Date(window.endTime) > new Date()) && (
+                    <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                      Maintenance scheduled
+                    </span>
+                  )}
                 </div>
                 <div className="flex items-center space-x-2">
                   <button
@@ -324,6 +422,12 @@ const AdminBoardrooms: React.FC = () => {
                   >
                     Edit
                   </button>
+                  <button
+                    onClick={() => setMaintenanceRoom(boardroom)}
+                    className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-md transition-colors"
+                  >
+                    Maintenance
+                  </button>
                   <button
                     onClick={() => handleDelete(boardroom._id)}
                     className="px-3 py-1 text-sm text-orange-600 hover:text-orange-800 hover:bg-orange-50 rounded-md transition-colors"
@@ -344,6 +448,16 @@ const AdminBoardrooms: React.FC = () => {
                 <p className="text-gray-600 mb-4 text-sm">{boardroom.description}</p>
               )}
 
+              <p className="text-xs text-gray-500 mb-4">
+                Check-in link:{' '}
+                <a
+                  href={`/rooms/${boardroom._id}/check-in`}
+                  className="text-blue-600 hover:underline break-all"
+                >
+                  {`${window.location.origin}/rooms/${boardroom._id}/check-in`}
+                </a>
+              </p>
+
               {boardroom.amenities.length > 0 && (
                 <div className="mb-4">
                   <h4 className="text-sm font-medium text-gray-700 mb-2">Amenities</h4>
@@ -386,6 +500,17 @@ const AdminBoardrooms: React.FC = () => {
         </div>
       </div>
 
+      {maintenanceRoom && (
+        <MaintenanceModal
+          boardroom={maintenanceRoom}
+          onClose={() => setMaintenanceRoom(null)}
+          onChange={(updated) => {
+            setMaintenanceRoom(updated);
+            setBoardrooms(prev => prev.map(room => room._id === updated._id ? updated : room));
+          }}
+        />
+      )}
+
       {/* Create/Edit Form Modal */}
       {showCreateForm && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -438,6 +563,59 @@ const AdminBoardrooms: React.FC = () => {
                 </div>
               </div>
 
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Setup Buffer (minutes)
+                  </label>
+                  <input
+                    type="number"
+                    value={formData.bufferBefore}
+                    onChange={(e) => setFormData(prev => ({ ...prev, bufferBefore: parseInt(e.target.value) || 0 }))}
+                    min="0"
+                    max="120"
+                    step="5"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Cleanup Buffer (minutes)
+                  </label>
+                  <input
+                    type="number"
+                    value={formData.bufferAfter}
+                    onChange={(e) => setFormData(prev => ({ ...prev, bufferAfter: parseInt(e.target.value) || 0 }))}
+                    min="0"
+                    max="120"
+                    step="5"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Site
+                </label>
+                <select
+                  value={formData.site}
+                  onChange={(e) => setFormData(prev => ({ ...prev, site: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">No site (default timezone and hours)</option>
+                  {sites.map(site => (
+                    <option key={site._id} value={site._id}>
+                      {site.name} ({site.timezone}){site.isActive ? '' : ' - inactive'}
+                    </option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500">
+                  The room uses its site's timezone, and its opening hours unless the room sets its own.
+                </p>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Location *
@@ -463,6 +641,109 @@ const AdminBoardrooms: React.FC = () => {
                 />
               </div>
 
+              <div>
+                <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.requiresApproval}
+                    onChange={(e) => setFormData(prev => ({ ...prev, requiresApproval: e.target.checked }))}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>Bookings require admin approval</span>
+                </label>
+                <p className="text-xs text-gray-500 mt-1 ml-6">
+                  Requests stay pending and hold the slot until an admin approves or rejects them.
+                </p>
+              </div>
+
+              {/* Booking Policy */}
+              <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+                <div>
+                  <h3 className="text-sm font-medium text-gray-900">Booking Policy</h3>
+                  <p className="text-xs text-gray-500 mt-1">Leave a field blank to use the system default.</p>
+                </div>
+
+                <div>
+                  <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={policyForm.customHours}
+                      onChange={(e) => setPolicyForm(prev => ({ ...prev, customHours: e.target.checked }))}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span>Custom operating hours</span>
+                  </label>
+                  {policyForm.customHours && (
+                    <div className="mt-3 space-y-2">
+                      {policyForm.hours.map((hours, index) => (
+                        <div key={hours.day} className="flex items-center space-x-3 text-sm">
+                          <label className="flex items-center space-x-2 w-20">
+                            <input
+                              type="checkbox"
+                              checked={hours.enabled}
+                              onChange={(e) => setPolicyForm(prev => ({
+                                ...prev,
+                                hours: prev.hours.map((entry, i) => i === index ? { ...entry, enabled: e.target.checked } : entry)
+                              }))}
+                              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                            />
+                            <span className="text-gray-700">{POLICY_DAYS[hours.day]}</span>
+                          </label>
+                          {hours.enabled ? (
+                            <>
+                              <input
+                                type="time"
+                                value={hours.open}
+                                onChange={(e) => setPolicyForm(prev => ({
+                                  ...prev,
+                                  hours: prev.hours.map((entry, i) => i === index ? { ...entry, open: e.target.value } : entry)
+                                }))}
+                                required
+                                className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                              />
+                              <span className="text-gray-500">to</span>
+                              <input
+                                type="time"
+                                value={hours.close}
+                                onChange={(e) => setPolicyForm(prev => ({
+                                  ...prev,
+                                  hours: prev.hours.map((entry, i) => i === index ? { ...entry, close: e.target.value } : entry)
+                                }))}
+                                required
+                                className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                              />
+                            </>
+                          ) : (
+                            <span className="text-gray-400">Closed</span>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {POLICY_NUMBER_INPUTS.map(({ field, label, placeholder }) => (
+                    <div key={field}>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        {label}
+                      </label>
+                      <input
+                        type="number"
+                        value={policyForm.numbers[field]}
+                        onChange={(e) => setPolicyForm(prev => ({
+                          ...prev,
+                          numbers: { ...prev.numbers, [field]: e.target.value }
+                        }))}
+                        min="0"
+                        placeholder={placeholder}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Amenities
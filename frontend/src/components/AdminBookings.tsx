@@ -2,6 +2,9 @@ import React, { useState, useEffect } from 'react';
 import { bookingsAPI } from '../services/api';
 import { Booking } from '../types';
 import ConfirmationModal from './ConfirmationModal';
+import TransferBookingModal from './TransferBookingModal';
+import AdminHistoryLog from './AdminHistoryLog';
+import { differsFromViewer, getRoomTimeZone, getSiteName, getZoneLabel } from '../utils/timezones';
 
 const AdminBookings: React.FC = () => {
   console.log('AdminBookings component rendering...');
@@ -12,6 +15,8 @@ const AdminBookings: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
   const [bookingsPerPage] = useState(10);
+  const [transferringBooking, setTransferringBooking] = useState<Booking | null>(null);
+  const [historyBooking, setHistoryBooking] = useState<{ _id: string; purpose: string } | null>(null);
   const [confirmModal, setConfirmModal] = useState<{
     isOpen: boolean;
     type: 'cancel' | 'delete';
@@ -97,18 +102,21 @@ const AdminBookings: React.FC = () => {
     }
   };
 
-  const formatDate = (dateString: string) => {
+  // Booking times are shown in the room's timezone
+  const formatDate = (dateString: string, timeZone?: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
       month: 'short',
       day: 'numeric',
+      timeZone
     });
   };
 
-  const formatTime = (dateString: string) => {
+  const formatTime = (dateString: string, timeZone?: string) => {
     return new Date(dateString).toLocaleTimeString('en-US', {
       hour: '2-digit',
       minute: '2-digit',
+      timeZone
     });
   };
 
@@ -116,7 +124,10 @@ const AdminBookings: React.FC = () => {
     switch (status) {
       case 'confirmed':
         return 'bg-green-100 text-green-800';
+      case 'pending':
+        return 'bg-yellow-100 text-yellow-800';
       case 'cancelled':
+      case 'rejected':
         return 'bg-red-100 text-red-800';
       default:
         return 'bg-gray-100 text-gray-800';
@@ -264,8 +275,10 @@ const AdminBookings: React.FC = () => {
               className="px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             >
               <option value="all">All Status</option>
+              <option value="pending">Pending Approval</option>
               <option value="confirmed">Confirmed</option>
               <option value="cancelled">Cancelled</option>
+              <option value="rejected">Rejected</option>
             </select>
           </div>
         </div>
@@ -303,14 +316,18 @@ const AdminBookings: React.FC = () => {
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div>
                       <div className="text-sm font-medium text-gray-900">{booking.user?.name || 'Unknown User'}</div>
-                      <div className="text-sm text-gray-500">{booking.boardroom?.name || 'Unknown Room'}</div>
+                      <div className="text-sm text-gray-500">
+                        {booking.boardroom?.name || 'Unknown Room'}
+                        {getSiteName(booking.boardroom) && ` (${getSiteName(booking.boardroom)})`}
+                      </div>
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div>
-                      <div className="text-sm font-medium text-gray-900">{formatDate(booking.startTime)}</div>
+                      <div className="text-sm font-medium text-gray-900">{formatDate(booking.startTime, getRoomTimeZone(booking.boardroom))}</div>
                       <div className="text-sm text-gray-500">
-                        {formatTime(booking.startTime)} - {formatTime(booking.endTime)}
+                        {formatTime(booking.startTime, getRoomTimeZone(booking.boardroom))} - {formatTime(booking.endTime, getRoomTimeZone(booking.boardroom))}
+                        {differsFromViewer(booking.startTime, getRoomTimeZone(booking.boardroom)) && ` ${getZoneLabel(booking.startTime, getRoomTimeZone(booking.boardroom))}`}
                       </div>
                     </div>
                   </td>
@@ -328,13 +345,20 @@ const AdminBookings: React.FC = () => {
                     <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(booking.status)}`}>
                       {booking.status.charAt(0).toUpperCase() + booking.status.slice(1)}
                     </span>
+                    {booking.closureConflict && (booking.status === 'confirmed' || booking.status === 'pending') && (
+                      <div className="mt-1">
+                        <span className="inline-flex px-2 py-1 text-xs font-medium rounded-full bg-gray-200 text-gray-800">
+                          Closure: {typeof booking.closureConflict === 'string' ? 'needs review' : booking.closureConflict.name}
+                        </span>
+                      </div>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {booking.attendees?.length || 0} people
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                     <div className="flex items-center justify-end space-x-2">
-                      {booking.status !== 'cancelled' && (
+                      {(booking.status === 'confirmed' || booking.status === 'pending') && (
                         <button
                           onClick={() => handleCancelBooking(booking)}
                           className="text-yellow-600 hover:text-yellow-900 px-2 py-1 rounded hover:bg-yellow-50"
@@ -342,6 +366,20 @@ const AdminBookings: React.FC = () => {
                           Cancel
                         </button>
                       )}
+                      {(booking.status === 'confirmed' || booking.status === 'pending') && new Date(booking.endTime) > new Date() && (
+                        <button
+                          onClick={() => setTransferringBooking(booking)}
+                          className="text-blue-600 hover:text-blue-900 px-2 py-1 rounded hover:bg-blue-50"
+                        >
+                          Transfer
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setHistoryBooking({ _id: booking._id, purpose: booking.purpose })}
+                        className="text-gray-600 hover:text-gray-900 px-2 py-1 rounded hover:bg-gray-100"
+                      >
+                        History
+                      </button>
                       <button
                         onClick={() => handleDeleteBooking(booking)}
                         className="text-red-600 hover:text-red-900 px-2 py-1 rounded hover:bg-red-50"
@@ -436,6 +474,13 @@ const AdminBookings: React.FC = () => {
         </div>
       )}
 
+      {/* Who changed what, across every booking */}
+      <AdminHistoryLog
+        booking={historyBooking}
+        onClearBooking={() => setHistoryBooking(null)}
+        onSelectBooking={setHistoryBooking}
+      />
+
       {/* Confirmation Modal */}
       <ConfirmationModal
         isOpen={confirmModal.isOpen}
@@ -451,6 +496,11 @@ const AdminBookings: React.FC = () => {
         confirmText={confirmModal.type === 'cancel' ? 'Cancel Booking' : 'Delete Booking'}
         loading={confirmModal.loading}
       />
+
+      <TransferBookingModal
+        booking={transferringBooking}
+        onClose={() => setTransferringBooking(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,429 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { CalendarOff, AlertTriangle, MapPin, Pencil, Trash2, X } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { boardroomsAPI, closuresAPI } from '../services/api';
+import { Boardroom, Booking, Closure, ClosureRequest } from '../types';
+
+const toDateInput = (date: Date) => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+const toDateTimeInput = (value: string) => {
+  const date = new Date(value);
+  const hours = String(date.getHours()).padStart(2, '0');
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+  return `${toDateInput(date)}T${hours}:${minutes}`;
+};
+
+const emptyForm = (): ClosureRequest => ({
+  name: '',
+  allDay: true,
+  startDate: '',
+  endDate: '',
+  startTime: '',
+  endTime: '',
+  locations: []
+});
+
+const AdminClosures: React.FC = () => {
+  const [closures, setClosures] = useState<Closure[]>([]);
+  const [locations, setLocations] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [editing, setEditing] = useState<Closure | null>(null);
+  const [formData, setFormData] = useState<ClosureRequest>(emptyForm());
+  const [affected, setAffected] = useState<{ closureId: string; bookings: Booking[] } | null>(null);
+
+  useEffect(() => {
+    fetchClosures();
+    fetchLocations();
+  }, []);
+
+  const fetchClosures = async () => {
+    try {
+      const data = await closuresAPI.getAll();
+      setClosures(Array.isArray(data) ? data : []);
+    } catch (error: any) {
+      console.error('Error fetching closures:', error);
+      toast.error(error.message || 'Failed to load closures');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Closures target boardroom locations, so offer the locations rooms actually use
+  const fetchLocations = async () => {
+    try {
+      const rooms: Boardroom[] = await boardroomsAPI.getAllAdmin();
+      setLocations(Array.from(new Set(rooms.map(room => room.location))).sort());
+    } catch (error) {
+      console.error('Error fetching boardroom locations:', error);
+    }
+  };
+
+  const openCreateForm = () => {
+    setEditing(null);
+    setFormData(emptyForm());
+    setShowForm(true);
+  };
+
+  const openEditForm = (closure: Closure) => {
+    setEditing(closure);
+    setFormData({
+      name: closure.name,
+      allDay: closure.allDay,
+      startDate: toDateInput(new Date(closure.startTime)),
+      // Full-day closures end at midnight after their last day
+      endDate: toDateInput(new Date(new Date(closure.endTime).getTime() - 1)),
+      startTime: toDateTimeInput(closure.startTime),
+      endTime: toDateTimeInput(closure.endTime),
+      locations: closure.locations
+    });
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditing(null);
+  };
+
+  const toggleLocation = (location: string) => {
+    setFormData(prev => ({
+      ...prev,
+      locations: prev.locations.includes(location)
+        ? prev.locations.filter(entry => entry !== location)
+        : [...prev.locations, location]
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const request: ClosureRequest = formData.allDay
+      ? { name: formData.name, allDay: true, startDate: formData.startDate, endDate: formData.endDate || formData.startDate, locations: formData.locations }
+      : {
+          name: formData.name,
+          allDay: false,
+          startTime: new Date(formData.startTime!).toISOString(),
+          endTime: new Date(formData.endTime!).toISOString(),
+          locations: formData.locations
+        };
+
+    setSaving(true);
+    try {
+      const result = editing
+        ? await closuresAPI.update(editing._id, request)
+        : await closuresAPI.create(request);
+
+      const affectedBookings: Booking[] = result.affectedBookings || [];
+      if (affectedBookings.length > 0) {
+        toast.warning(`${affectedBookings.length} existing booking${affectedBookings.length === 1 ? '' : 's'} fall on this closure and need review`);
+        setAffected({ closureId: result.closure._id, bookings: affectedBookings });
+      } else {
+        toast.success(editing ? 'Closure updated' : 'Closure added');
+      }
+
+      closeForm();
+      await fetchClosures();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save closure');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (closure: Closure) => {
+    if (!confirm(`Delete the "${closure.name}" closure? Rooms will be bookable again for that period.`)) {
+      return;
+    }
+
+    try {
+      await closuresAPI.delete(closure._id);
+      toast.success('Closure deleted');
+      if (affected?.closureId === closure._id) setAffected(null);
+      await fetchClosures();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to delete closure');
+    }
+  };
+
+  const showAffected = async (closure: Closure) => {
+    try {
+      const bookings = await closuresAPI.getAffectedBookings(closure._id);
+      setAffected({ closureId: closure._id, bookings });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to load affected bookings');
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      weekday: 'short',
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const formatTime = (dateString: string) => {
+    return new Date(dateString).toLocaleTimeString('en-US', {
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false
+    });
+  };
+
+  const formatRange = (closure: Closure) => {
+    if (!closure.allDay) {
+      return `${formatDate(closure.startTime)}, ${formatTime(closure.startTime)} - ${formatTime(closure.endTime)}`;
+    }
+    const lastDay = new Date(new Date(closure.endTime).getTime() - 1).toISOString();
+    const first = formatDate(closure.startTime);
+    const last = formatDate(lastDay);
+    return first === last ? `${first} (all day)` : `${first} - ${last}`;
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6 bg-white rounded-lg shadow">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-4"></div>
+          <div className="space-y-4">
+            <div className="h-4 bg-gray-200 rounded"></div>
+            <div className="h-4 bg-gray-200 rounded w-5/6"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="p-6 bg-white rounded-lg shadow">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex items-center">
+            <CalendarOff className="w-8 h-8 text-blue-600 mr-3" />
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 mb-1">Holidays & Closures</h1>
+              <p className="text-gray-600">Rooms cannot be booked while a closure covers their location</p>
+            </div>
+          </div>
+          <button
+            onClick={openCreateForm}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors"
+          >
+            Add Closure
+          </button>
+        </div>
+      </div>
+
+      {closures.length === 0 ? (
+        <div className="p-6 bg-white rounded-lg shadow text-center py-12">
+          <CalendarOff className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No closures scheduled</h3>
+          <p className="mt-1 text-sm text-gray-500">Add public holidays and office shutdowns to block bookings.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {closures.map(closure => (
+            <div key={closure._id} className="p-6 bg-white rounded-lg shadow">
+              <div className="flex flex-col lg:flex-row lg:items-start lg:justify-between gap-4">
+                <div className="space-y-1">
+                  <h3 className="text-lg font-semibold text-gray-900">{closure.name}</h3>
+                  <p className="text-sm text-gray-600">{formatRange(closure)}</p>
+                  <p className="text-sm text-gray-600 flex items-center">
+                    <MapPin className="w-4 h-4 mr-1" />
+                    {closure.locations.length > 0 ? closure.locations.join(', ') : 'All locations'}
+                  </p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <button
+                    onClick={() => showAffected(closure)}
+                    className="px-3 py-2 text-sm font-medium rounded-md bg-amber-50 text-amber-800 hover:bg-amber-100 transition-colors"
+                  >
+                    Affected Bookings
+                  </button>
+                  <button
+                    onClick={() => openEditForm(closure)}
+                    className="p-2 text-gray-600 hover:text-blue-700 hover:bg-blue-50 rounded-md transition-colors"
+                    title="Edit closure"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(closure)}
+                    className="p-2 text-gray-600 hover:text-red-700 hover:bg-red-50 rounded-md transition-colors"
+                    title="Delete closure"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              {affected?.closureId === closure._id && (
+                <div className="mt-4 border-t border-gray-100 pt-3">
+                  {affected.bookings.length === 0 ? (
+                    <p className="text-sm text-gray-500">No active bookings fall on this closure.</p>
+                  ) : (
+                    <>
+                      <p className="text-sm font-medium text-amber-800 flex items-center mb-2">
+                        <AlertTriangle className="w-4 h-4 mr-1" />
+                        {affected.bookings.length} booking{affected.bookings.length === 1 ? '' : 's'} need{affected.bookings.length === 1 ? 's' : ''} to be moved or cancelled
+                      </p>
+                      <ul className="space-y-1">
+                        {affected.bookings.map(booking => (
+                          <li key={booking._id} className="text-sm text-gray-700">
+                            <span className="font-medium">{booking.purpose}</span> • {booking.boardroom?.name} • {formatDate(booking.startTime)}, {formatTime(booking.startTime)} - {formatTime(booking.endTime)} • {booking.user?.name}
+                          </li>
+                        ))}
+                      </ul>
+                      <Link to="/admin/bookings" className="inline-block mt-2 text-sm text-blue-600 hover:text-blue-800">
+                        Manage bookings
+                      </Link>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Create / edit modal */}
+      {showForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">{editing ? 'Edit Closure' : 'Add Closure'}</h2>
+              <button onClick={closeForm} className="p-2 hover:bg-gray-100 rounded-full transition-colors" disabled={saving}>
+                <X className="w-5 h-5 text-gray-500" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Name *</label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g., Heritage Day, Year-end shutdown"
+                  required
+                  maxLength={100}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={formData.allDay}
+                  onChange={(e) => setFormData(prev => ({ ...prev, allDay: e.target.checked }))}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>Full day</span>
+              </label>
+
+              {formData.allDay ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">First Day *</label>
+                    <input
+                      type="date"
+                      value={formData.startDate}
+                      onChange={(e) => setFormData(prev => ({ ...prev, startDate: e.target.value }))}
+                      required
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Last Day</label>
+                    <input
+                      type="date"
+                      value={formData.endDate}
+                      min={formData.startDate}
+                      onChange={(e) => setFormData(prev => ({ ...prev, endDate: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">From *</label>
+                    <input
+                      type="datetime-local"
+                      value={formData.startTime}
+                      onChange={(e) => setFormData(prev => ({ ...prev, startTime: e.target.value }))}
+                      required
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Until *</label>
+                    <input
+                      type="datetime-local"
+                      value={formData.endTime}
+                      min={formData.startTime}
+                      onChange={(e) => setFormData(prev => ({ ...prev, endTime: e.target.value }))}
+                      required
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Locations</label>
+                <p className="text-xs text-gray-500 mb-2">Leave all unchecked to close every location.</p>
+                <div className="space-y-1">
+                  {locations.map(location => (
+                    <label key={location} className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={formData.locations.includes(location)}
+                        onChange={() => toggleLocation(location)}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span>{location}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <p className="text-xs text-gray-500">
+                Existing bookings that fall on the closure will be flagged for review, not cancelled.
+              </p>
+
+              <div className="flex items-center justify-end space-x-3 pt-2">
+                <button
+                  type="button"
+                  onClick={closeForm}
+                  disabled={saving}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors disabled:opacity-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : editing ? 'Save Changes' : 'Add Closure'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminClosures;
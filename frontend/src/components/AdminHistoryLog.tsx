@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { History, RefreshCw, X } from 'lucide-react';
+import { bookingsAPI, boardroomsAPI, usersAPI } from '../services/api';
+import { Boardroom, BookingHistoryAction, BookingHistoryEntry, BookingHistoryFilters, User } from '../types';
+import { HISTORY_ACTION_LABELS } from '../utils/bookingHistory';
+import BookingHistoryTimeline from './BookingHistoryTimeline';
+
+type HistoryBooking = { _id: string; purpose: string };
+
+interface AdminHistoryLogProps {
+  booking?: HistoryBooking | null; // Narrow the log to one booking
+  onClearBooking: () => void;
+  onSelectBooking: (booking: HistoryBooking) => void;
+}
+
+const HISTORY_LIMIT = 100;
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+// Admin activity log: recent booking history across the system, filterable by action, person, room and date
+const AdminHistoryLog: React.FC<AdminHistoryLogProps> = ({ booking, onClearBooking, onSelectBooking }) => {
+  const [entries, setEntries] = useState<BookingHistoryEntry[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [boardrooms, setBoardrooms] = useState<Boardroom[]>([]);
+  const [filters, setFilters] = useState<BookingHistoryFilters>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchOptions = async () => {
+      try {
+        const [usersData, boardroomsData] = await Promise.all([usersAPI.getAll(), boardroomsAPI.getAllAdmin()]);
+        setUsers(usersData);
+        setBoardrooms(boardroomsData);
+      } catch (err) {
+        console.error('Error fetching history filter options:', err);
+      }
+    };
+    fetchOptions();
+  }, []);
+
+  const bookingId = booking?._id;
+
+  const fetchHistory = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      // Dates are whole days in the admin's own timezone
+      const data = await bookingsAPI.getHistoryLog({
+        ...filters,
+        from: filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : undefined,
+        to: filters.to ? new Date(`${filters.to}T23:59:59.999`).toISOString() : undefined,
+        booking: bookingId,
+        limit: HISTORY_LIMIT
+      });
+      setEntries(data);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load the activity log');
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, bookingId]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const setFilter = (key: keyof BookingHistoryFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value || undefined }));
+  };
+
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  return (
+    <div className="p-6 bg-white rounded-lg shadow">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+          <History className="w-5 h-5 text-blue-600 mr-2" />
+          Activity Log
+        </h2>
+        <button
+          onClick={fetchHistory}
+          disabled={loading}
+          className="p-2 hover:bg-gray-100 rounded-full transition-colors disabled:opacity-50"
+          title="Refresh"
+        >
+          <RefreshCw className={`w-4 h-4 text-gray-500 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-3 mb-4">
+        <select value={filters.action || ''} onChange={(e) => setFilter('action', e.target.value)} className={inputClass}>
+          <option value="">All actions</option>
+          {(Object.keys(HISTORY_ACTION_LABELS) as BookingHistoryAction[]).map(action => (
+            <option key={action} value={action}>{HISTORY_ACTION_LABELS[action]}</option>
+          ))}
+        </select>
+        <select value={filters.actorRole || ''} onChange={(e) => setFilter('actorRole', e.target.value)} className={inputClass}>
+          <option value="">Anyone</option>
+          <option value="user">Users</option>
+          <option value="admin">Admins</option>
+          <option value="system">System</option>
+        </select>
+        <select value={filters.actor || ''} onChange={(e) => setFilter('actor', e.target.value)} className={inputClass}>
+          <option value="">All people</option>
+          {users.map(person => (
+            <option key={person._id} value={person._id}>{person.name}</option>
+          ))}
+        </select>
+        <select value={filters.boardroom || ''} onChange={(e) => setFilter('boardroom', e.target.value)} className={inputClass}>
+          <option value="">All rooms</option>
+          {boardrooms.map(room => (
+            <option key={room._id} value={room._id}>{room.name}</option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={filters.from || ''}
+          onChange={(e) => setFilter('from', e.target.value)}
+          className={inputClass}
+          title="From"
+        />
+        <input
+          type="date"
+          value={filters.to || ''}
+          onChange={(e) => setFilter('to', e.target.value)}
+          className={inputClass}
+          title="To"
+        />
+        {hasFilters && (
+          <button onClick={() => setFilters({})} className="px-3 py-2 text-sm text-gray-600 hover:text-gray-900">
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {booking && (
+        <div className="mb-4 inline-flex items-center px-3 py-1 rounded-full bg-blue-50 text-blue-700 text-sm">
+          <span>Showing history of "{booking.purpose}"</span>
+          <button onClick={onClearBooking} className="ml-2 hover:text-blue-900" title="Show all bookings">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {!error && (loading && entries.length === 0
+        ? <p className="text-sm text-gray-500">Loading activity...</p>
+        : (
+          <BookingHistoryTimeline
+            entries={entries}
+            showBooking={!booking}
+            onSelectBooking={entry => onSelectBooking({ _id: entry.booking, purpose: entry.purpose || 'Booking' })}
+          />
+        ))}
+
+      {entries.length === HISTORY_LIMIT && (
+        <p className="mt-4 text-xs text-gray-500">Showing the latest {HISTORY_LIMIT} entries. Narrow the filters to see older activity.</p>
+      )}
+    </div>
+  );
+};
+
+export default AdminHistoryLog;
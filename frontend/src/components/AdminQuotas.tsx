@@ -0,0 +1,321 @@
+import React, { useState, useEffect } from 'react';
+import { Gauge, Pencil, Trash2, Users, X } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { quotasAPI, usersAPI } from '../services/api';
+import { BookingQuota, BookingQuotaRequest, QuotaScope, User } from '../types';
+
+interface QuotaForm {
+  scope: QuotaScope;
+  value: string;
+  maxFutureBookings: string;
+  maxHoursPerWeek: string;
+  maxBookingsPerRoomPerDay: string;
+}
+
+const LIMIT_FIELDS = [
+  { key: 'maxFutureBookings', label: 'Max upcoming bookings', hint: 'Across all rooms', step: '1' },
+  { key: 'maxHoursPerWeek', label: 'Max hours per week', hint: 'Monday to Sunday, in each room\'s timezone', step: '0.5' },
+  { key: 'maxBookingsPerRoomPerDay', label: 'Max bookings per room per day', hint: 'In any single room', step: '1' }
+] as const;
+
+// Blank inputs mean "no limit"
+const toQuotaForm = (quota?: BookingQuota): QuotaForm => ({
+  scope: quota?.scope || 'department',
+  value: quota?.value || '',
+  maxFutureBookings: quota?.maxFutureBookings != null ? String(quota.maxFutureBookings) : '',
+  maxHoursPerWeek: quota?.maxHoursPerWeek != null ? String(quota.maxHoursPerWeek) : '',
+  maxBookingsPerRoomPerDay: quota?.maxBookingsPerRoomPerDay != null ? String(quota.maxBookingsPerRoomPerDay) : ''
+});
+
+const toLimit = (value: string) => (value.trim() === '' ? null : Number(value));
+
+const toQuotaRequest = (form: QuotaForm): BookingQuotaRequest => ({
+  scope: form.scope,
+  value: form.value.trim(),
+  maxFutureBookings: toLimit(form.maxFutureBookings),
+  maxHoursPerWeek: toLimit(form.maxHoursPerWeek),
+  maxBookingsPerRoomPerDay: toLimit(form.maxBookingsPerRoomPerDay)
+});
+
+const describeLimits = (quota: BookingQuota) => {
+  const limits = [
+    quota.maxFutureBookings != null && `${quota.maxFutureBookings} upcoming bookings`,
+    quota.maxHoursPerWeek != null && `${quota.maxHoursPerWeek}h per week`,
+    quota.maxBookingsPerRoomPerDay != null && `${quota.maxBookingsPerRoomPerDay} per room per day`
+  ].filter(Boolean);
+  return limits.length > 0 ? limits.join(' • ') : 'No limits set';
+};
+
+const AdminQuotas: React.FC = () => {
+  const [quotas, setQuotas] = useState<BookingQuota[]>([]);
+  const [departments, setDepartments] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [editing, setEditing] = useState<BookingQuota | null>(null);
+  const [formData, setFormData] = useState<QuotaForm>(() => toQuotaForm());
+
+  useEffect(() => {
+    fetchQuotas();
+    fetchDepartments();
+  }, []);
+
+  const fetchQuotas = async () => {
+    try {
+      const data = await quotasAPI.getAll();
+      setQuotas(Array.isArray(data) ? data : []);
+    } catch (error: any) {
+      console.error('Error fetching quotas:', error);
+      toast.error(error.message || 'Failed to load quotas');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Suggest the departments users have entered on their profiles
+  const fetchDepartments = async () => {
+    try {
+      const users: User[] = await usersAPI.getAll();
+      const names = new Set(users.map(user => user.department?.trim()).filter((name): name is string => !!name));
+      setDepartments([...names].sort((a, b) => a.localeCompare(b)));
+    } catch (error) {
+      console.error('Error fetching departments:', error);
+    }
+  };
+
+  const openCreateForm = () => {
+    setEditing(null);
+    setFormData(toQuotaForm());
+    setShowForm(true);
+  };
+
+  const openEditForm = (quota: BookingQuota) => {
+    setEditing(quota);
+    setFormData(toQuotaForm(quota));
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditing(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    try {
+      const request = toQuotaRequest(formData);
+      if (editing) {
+        await quotasAPI.update(editing._id, request);
+        toast.success('Quota updated');
+      } else {
+        await quotasAPI.create(request);
+        toast.success('Quota added');
+      }
+
+      closeForm();
+      await fetchQuotas();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save quota');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (quota: BookingQuota) => {
+    if (!confirm(`Delete the quota for "${quota.value}"?`)) {
+      return;
+    }
+
+    try {
+      await quotasAPI.delete(quota._id);
+      toast.success('Quota deleted');
+      await fetchQuotas();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to delete quota');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6 bg-white rounded-lg shadow">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-4"></div>
+          <div className="space-y-4">
+            <div className="h-4 bg-gray-200 rounded"></div>
+            <div className="h-4 bg-gray-200 rounded w-5/6"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="p-6 bg-white rounded-lg shadow">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex items-center">
+            <Gauge className="w-8 h-8 text-blue-600 mr-3" />
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 mb-1">Booking Quotas</h1>
+              <p className="text-gray-600">
+                Limit how much each role or department can book; department limits take precedence
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={openCreateForm}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors"
+          >
+            Add Quota
+          </button>
+        </div>
+      </div>
+
+      {quotas.length === 0 ? (
+        <div className="p-6 bg-white rounded-lg shadow text-center py-12">
+          <Gauge className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No quotas yet</h3>
+          <p className="mt-1 text-sm text-gray-500">Without a quota, users can book as much as the room rules allow.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {quotas.map(quota => (
+            <div key={quota._id} className="p-6 bg-white rounded-lg shadow">
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                    <Users className="w-4 h-4 mr-2 text-gray-500" />
+                    <span className={quota.scope === 'role' ? 'capitalize' : ''}>{quota.value}</span>
+                    <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                      {quota.scope === 'role' ? 'Role' : 'Department'}
+                    </span>
+                  </h3>
+                  <p className="text-sm text-gray-600">{describeLimits(quota)}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => openEditForm(quota)}
+                    className="p-2 text-gray-600 hover:text-blue-700 hover:bg-blue-50 rounded-md transition-colors"
+                    title="Edit quota"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(quota)}
+                    className="p-2 text-gray-600 hover:text-red-700 hover:bg-red-50 rounded-md transition-colors"
+                    title="Delete quota"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Create / edit modal */}
+      {showForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">{editing ? 'Edit Quota' : 'Add Quota'}</h2>
+              <button onClick={closeForm} className="p-2 hover:bg-gray-100 rounded-full transition-colors" disabled={saving}>
+                <X className="w-5 h-5 text-gray-500" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Applies to *</label>
+                <select
+                  value={formData.scope}
+                  onChange={(e) => {
+                    const scope = e.target.value as QuotaScope;
+                    setFormData(prev => ({ ...prev, scope, value: scope === 'role' ? 'user' : '' }));
+                  }}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="department">A department</option>
+                  <option value="role">A role</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {formData.scope === 'role' ? 'Role *' : 'Department *'}
+                </label>
+                {formData.scope === 'role' ? (
+                  <select
+                    value={formData.value}
+                    onChange={(e) => setFormData(prev => ({ ...prev, value: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="user">User</option>
+                    <option value="admin">Admin</option>
+                  </select>
+                ) : (
+                  <>
+                    <input
+                      type="text"
+                      list="quota-departments"
+                      value={formData.value}
+                      onChange={(e) => setFormData(prev => ({ ...prev, value: e.target.value }))}
+                      placeholder="e.g., Finance"
+                      required
+                      maxLength={100}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <datalist id="quota-departments">
+                      {departments.map(name => <option key={name} value={name} />)}
+                    </datalist>
+                    <p className="mt-1 text-xs text-gray-500">Matched against the department on each user's profile, ignoring case.</p>
+                  </>
+                )}
+              </div>
+
+              {LIMIT_FIELDS.map(field => (
+                <div key={field.key}>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">{field.label}</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step={field.step}
+                    value={formData[field.key]}
+                    onChange={(e) => setFormData(prev => ({ ...prev, [field.key]: e.target.value }))}
+                    placeholder="No limit"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">{field.hint}</p>
+                </div>
+              ))}
+
+              <div className="flex items-center justify-end space-x-3 pt-2">
+                <button
+                  type="button"
+                  onClick={closeForm}
+                  disabled={saving}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors disabled:opacity-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : editing ? 'Save Changes' : 'Add Quota'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminQuotas;
@@ -0,0 +1,176 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { BadgeCheck, ConciergeBell, Printer, RefreshCw } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { bookingsAPI, sitesAPI } from '../services/api';
+import { ReceptionRoom, Site } from '../types';
+import { getVisitorHostName } from '../utils/visitors';
+import { differsFromViewer, formatClock, getRoomTimeZone, getZoneLabel } from '../utils/timezones';
+import VisitorBadge from './VisitorBadge';
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+type ReceptionEntry = ReceptionRoom['visitors'][number];
+
+// Reception desk: the day's expected visitors room by room, checked in as they arrive
+const AdminReception: React.FC = () => {
+  const [rooms, setRooms] = useState<ReceptionRoom[]>([]);
+  const [sites, setSites] = useState<Site[]>([]);
+  const [date, setDate] = useState(''); // Empty for each room's today
+  const [site, setSite] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [badge, setBadge] = useState<{ entry: ReceptionEntry; boardroom: ReceptionRoom['boardroom'] } | null>(null);
+
+  useEffect(() => {
+    sitesAPI.getAll()
+      .then(data => setSites(Array.isArray(data) ? data : []))
+      .catch(error => console.error('Error fetching sites:', error));
+  }, []);
+
+  const fetchVisitors = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await bookingsAPI.getReception({ date, site });
+      setRooms(Array.isArray(data) ? data : []);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to load visitors');
+    } finally {
+      setLoading(false);
+    }
+  }, [date, site]);
+
+  useEffect(() => {
+    fetchVisitors();
+  }, [fetchVisitors]);
+
+  const handleCheckIn = async ({ booking, visitor }: ReceptionEntry) => {
+    setBusyId(visitor._id);
+    try {
+      const result = await bookingsAPI.checkInVisitor(booking._id, visitor._id);
+      setRooms(prev => prev.map(room => ({
+        ...room,
+        visitors: room.visitors.map(entry => (entry.visitor._id === visitor._id ? { ...entry, visitor: result.visitor } : entry))
+      })));
+      toast.success(result.message);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to check the visitor in');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const expected = rooms.reduce((count, room) => count + room.visitors.filter(entry => !entry.visitor.checkedInAt).length, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            <ConciergeBell className="w-6 h-6 text-blue-600 mr-2" />
+            Reception
+          </h1>
+          <p className="text-gray-600">
+            {loading ? 'Loading visitors...' : `${expected} visitor${expected === 1 ? '' : 's'} still expected`}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          {sites.length > 0 && (
+            <select value={site} onChange={(e) => setSite(e.target.value)} className={inputClass}>
+              <option value="">All sites</option>
+              {sites.map(option => (
+                <option key={option._id} value={option._id}>{option.name}</option>
+              ))}
+            </select>
+          )}
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className={inputClass}
+            title="Day (empty for today)"
+          />
+          {date && (
+            <button onClick={() => setDate('')} className="px-3 py-2 text-sm text-gray-600 hover:text-gray-900">
+              Today
+            </button>
+          )}
+          <button
+            onClick={fetchVisitors}
+            disabled={loading}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors disabled:opacity-50"
+            title="Refresh"
+          >
+            <RefreshCw className={`w-4 h-4 text-gray-500 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {!loading && rooms.length === 0 ? (
+        <div className="p-6 bg-white rounded-lg shadow text-sm text-gray-500">No visitors are registered for this day.</div>
+      ) : (
+        rooms.map(room => {
+          const timeZone = getRoomTimeZone(room.boardroom);
+          return (
+            <div key={room.boardroom._id} className="bg-white rounded-lg shadow">
+              <div className="px-4 py-3 border-b border-gray-200">
+                <h2 className="text-lg font-semibold text-gray-900">{room.boardroom.name}</h2>
+                {room.boardroom.location && <p className="text-sm text-gray-500">{room.boardroom.location}</p>}
+              </div>
+              <ul className="divide-y divide-gray-100">
+                {room.visitors.map(entry => {
+                  const { booking, visitor } = entry;
+                  return (
+                    <li key={visitor._id} className="flex flex-col sm:flex-row sm:items-center gap-3 px-4 py-3">
+                      <div className="w-24 shrink-0">
+                        <p className="text-sm font-semibold text-gray-900">{formatClock(booking.startTime, timeZone)}</p>
+                        {differsFromViewer(booking.startTime, timeZone) && (
+                          <p className="text-xs text-gray-500">{getZoneLabel(booking.startTime, timeZone)}</p>
+                        )}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-gray-900">
+                          {visitor.name}
+                          {visitor.company && <span className="font-normal text-gray-600"> · {visitor.company}</span>}
+                        </p>
+                        <p className="text-xs text-gray-500 truncate">
+                          Host: {getVisitorHostName(visitor, booking)} · {booking.purpose} ({booking.user.name})
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {visitor.checkedInAt ? (
+                          <span className="inline-flex items-center space-x-1 px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                            <BadgeCheck className="w-3 h-3" />
+                            <span>Arrived {formatClock(visitor.checkedInAt, timeZone)}</span>
+                          </span>
+                        ) : (
+                          <button
+                            onClick={() => handleCheckIn(entry)}
+                            disabled={busyId === visitor._id}
+                            className="px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+                          >
+                            {busyId === visitor._id ? 'Checking in...' : 'Check in'}
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setBadge({ entry, boardroom: room.boardroom })}
+                          className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-gray-100 rounded transition-colors"
+                          title="Print badge"
+                        >
+                          <Printer className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          );
+        })
+      )}
+
+      {badge && <VisitorBadge entry={badge.entry} boardroom={badge.boardroom} onClose={() => setBadge(null)} />}
+    </div>
+  );
+};
+
+export default AdminReception;
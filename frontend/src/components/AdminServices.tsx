@@ -0,0 +1,297 @@
+import React, { useState, useEffect } from 'react';
+import { Coffee, Pencil, Trash2, X } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { servicesAPI } from '../services/api';
+import { ServiceCategory, ServiceItem, ServiceItemRequest } from '../types';
+import { SERVICE_CATEGORY_LABELS, describeLeadTime } from '../utils/serviceRequests';
+import ServiceQueue from './ServiceQueue';
+
+const toServiceForm = (item?: ServiceItem): ServiceItemRequest => ({
+  name: item?.name || '',
+  category: item?.category || 'catering',
+  description: item?.description || '',
+  leadTimeHours: item?.leadTimeHours ?? 0,
+  maxQuantity: item?.maxQuantity ?? 50,
+  isActive: item ? item.isActive : true
+});
+
+// Catering and equipment catalog, and the queue of requests facilities deliver
+const AdminServices: React.FC = () => {
+  const [items, setItems] = useState<ServiceItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [editing, setEditing] = useState<ServiceItem | null>(null);
+  const [formData, setFormData] = useState<ServiceItemRequest>(() => toServiceForm());
+
+  useEffect(() => {
+    fetchItems();
+  }, []);
+
+  const fetchItems = async () => {
+    try {
+      const data = await servicesAPI.getItems();
+      setItems(Array.isArray(data) ? data : []);
+    } catch (error: any) {
+      console.error('Error fetching services:', error);
+      toast.error(error.message || 'Failed to load services');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreateForm = () => {
+    setEditing(null);
+    setFormData(toServiceForm());
+    setShowForm(true);
+  };
+
+  const openEditForm = (item: ServiceItem) => {
+    setEditing(item);
+    setFormData(toServiceForm(item));
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditing(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    try {
+      const request = { ...formData, name: formData.name.trim(), description: formData.description?.trim() };
+      if (editing) {
+        await servicesAPI.updateItem(editing._id, request);
+        toast.success('Service updated');
+      } else {
+        await servicesAPI.createItem(request);
+        toast.success('Service added');
+      }
+
+      closeForm();
+      await fetchItems();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save service');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (item: ServiceItem) => {
+    if (!confirm(`Delete "${item.name}" from the catalog?`)) {
+      return;
+    }
+
+    try {
+      await servicesAPI.deleteItem(item._id);
+      toast.success('Service deleted');
+      await fetchItems();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to delete service');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6 bg-white rounded-lg shadow">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-4"></div>
+          <div className="space-y-4">
+            <div className="h-4 bg-gray-200 rounded"></div>
+            <div className="h-4 bg-gray-200 rounded w-5/6"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="p-6 bg-white rounded-lg shadow">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex items-center">
+            <Coffee className="w-8 h-8 text-blue-600 mr-3" />
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 mb-1">Services</h1>
+              <p className="text-gray-600">Catering and equipment organizers can order with a booking</p>
+            </div>
+          </div>
+          <button
+            onClick={openCreateForm}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors"
+          >
+            Add Service
+          </button>
+        </div>
+      </div>
+
+      <ServiceQueue />
+
+      {/* Catalog */}
+      <div className="p-6 bg-white rounded-lg shadow">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Catalog</h2>
+        {items.length === 0 ? (
+          <div className="text-center py-8">
+            <Coffee className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No services yet</h3>
+            <p className="mt-1 text-sm text-gray-500">Organizers can order services once they are added here.</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {items.map(item => (
+              <li key={item._id} className="flex items-start justify-between gap-4 py-3">
+                <div className="space-y-1">
+                  <p className="text-sm font-semibold text-gray-900">
+                    {item.name}
+                    <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-50 text-blue-700">
+                      {SERVICE_CATEGORY_LABELS[item.category]}
+                    </span>
+                    {!item.isActive && (
+                      <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                        Retired
+                      </span>
+                    )}
+                  </p>
+                  {item.description && <p className="text-sm text-gray-600">{item.description}</p>}
+                  <p className="text-xs text-gray-500">
+                    Up to {item.maxQuantity} per booking
+                    {item.leadTimeHours > 0 && ` · ${describeLeadTime(item.leadTimeHours)}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => openEditForm(item)}
+                    className="p-2 text-gray-600 hover:text-blue-700 hover:bg-blue-50 rounded-md transition-colors"
+                    title="Edit service"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(item)}
+                    className="p-2 text-gray-600 hover:text-red-700 hover:bg-red-50 rounded-md transition-colors"
+                    title="Delete service"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Create / edit modal */}
+      {showForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">{editing ? 'Edit Service' : 'Add Service'}</h2>
+              <button onClick={closeForm} className="p-2 hover:bg-gray-100 rounded-full transition-colors" disabled={saving}>
+                <X className="w-5 h-5 text-gray-500" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Name *</label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g., Coffee and tea"
+                  required
+                  maxLength={100}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Category</label>
+                <select
+                  value={formData.category}
+                  onChange={(e) => setFormData(prev => ({ ...prev, category: e.target.value as ServiceCategory }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {(Object.keys(SERVICE_CATEGORY_LABELS) as ServiceCategory[]).map(category => (
+                    <option key={category} value={category}>{SERVICE_CATEGORY_LABELS[category]}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+                <input
+                  type="text"
+                  value={formData.description}
+                  onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                  placeholder="e.g., Per person, with milk and sugar"
+                  maxLength={300}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Notice (hours)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={formData.leadTimeHours}
+                    onChange={(e) => setFormData(prev => ({ ...prev, leadTimeHours: Math.max(0, Number(e.target.value) || 0) }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Max per booking</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={formData.maxQuantity}
+                    onChange={(e) => setFormData(prev => ({ ...prev, maxQuantity: Math.max(1, parseInt(e.target.value) || 1) }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+
+              {editing && (
+                <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.isActive}
+                    onChange={(e) => setFormData(prev => ({ ...prev, isActive: e.target.checked }))}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>Available to order</span>
+                </label>
+              )}
+
+              <div className="flex items-center justify-end space-x-3 pt-2">
+                <button
+                  type="button"
+                  onClick={closeForm}
+                  disabled={saving}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors disabled:opacity-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : editing ? 'Save Changes' : 'Add Service'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminServices;
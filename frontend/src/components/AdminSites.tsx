@@ -0,0 +1,375 @@
+import React, { useState, useEffect } from 'react';
+import { Building2, Clock, MapPin, Pencil, Trash2, X } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { sitesAPI } from '../services/api';
+import { Site, SiteRequest } from '../types';
+import { formatClock, getViewerTimeZone, getZoneLabel } from '../utils/timezones';
+
+const SITE_DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Intl.supportedValuesOf is newer than the ES2020 lib this app compiles against, and older browsers
+// cannot list zones at all; the server still validates whatever is typed
+type IntlWithZoneList = typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+const TIMEZONE_OPTIONS: string[] = (Intl as IntlWithZoneList).supportedValuesOf?.('timeZone') || [];
+
+interface SiteForm {
+  name: string;
+  address: string;
+  timezone: string;
+  isActive: boolean;
+  customHours: boolean;
+  hours: { day: number; enabled: boolean; open: string; close: string }[];
+}
+
+const toSiteForm = (site?: Site): SiteForm => {
+  const operatingHours = site?.operatingHours || [];
+  return {
+    name: site?.name || '',
+    address: site?.address || '',
+    timezone: site?.timezone || getViewerTimeZone(),
+    isActive: site ? site.isActive : true,
+    customHours: operatingHours.length > 0,
+    hours: SITE_DAYS.map((_, day) => {
+      const existing = operatingHours.find(hours => hours.day === day);
+      return existing
+        ? { day, enabled: true, open: existing.open, close: existing.close }
+        : { day, enabled: operatingHours.length === 0 && day >= 1 && day <= 5, open: '07:00', close: '16:00' };
+    })
+  };
+};
+
+const toSiteRequest = (form: SiteForm): SiteRequest => ({
+  name: form.name.trim(),
+  address: form.address.trim(),
+  timezone: form.timezone.trim(),
+  isActive: form.isActive,
+  operatingHours: form.customHours
+    ? form.hours.filter(hours => hours.enabled).map(({ day, open, close }) => ({ day, open, close }))
+    : []
+});
+
+const describeHours = (site: Site) => {
+  if (!site.operatingHours || site.operatingHours.length === 0) return 'Default hours';
+  return [...site.operatingHours]
+    .sort((a, b) => a.day - b.day)
+    .map(hours => `${SITE_DAYS[hours.day]} ${hours.open}-${hours.close}`)
+    .join(', ');
+};
+
+const AdminSites: React.FC = () => {
+  const [sites, setSites] = useState<Site[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [editing, setEditing] = useState<Site | null>(null);
+  const [formData, setFormData] = useState<SiteForm>(() => toSiteForm());
+
+  useEffect(() => {
+    fetchSites();
+  }, []);
+
+  const fetchSites = async () => {
+    try {
+      const data = await sitesAPI.getAll();
+      setSites(Array.isArray(data) ? data : []);
+    } catch (error: any) {
+      console.error('Error fetching sites:', error);
+      toast.error(error.message || 'Failed to load sites');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreateForm = () => {
+    setEditing(null);
+    setFormData(toSiteForm());
+    setShowForm(true);
+  };
+
+  const openEditForm = (site: Site) => {
+    setEditing(site);
+    setFormData(toSiteForm(site));
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditing(null);
+  };
+
+  const updateHours = (day: number, changes: Partial<SiteForm['hours'][number]>) => {
+    setFormData(prev => ({
+      ...prev,
+      hours: prev.hours.map(hours => (hours.day === day ? { ...hours, ...changes } : hours))
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    try {
+      const request = toSiteRequest(formData);
+      if (editing) {
+        await sitesAPI.update(editing._id, request);
+        toast.success('Site updated');
+      } else {
+        await sitesAPI.create(request);
+        toast.success('Site added');
+      }
+
+      closeForm();
+      await fetchSites();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save site');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (site: Site) => {
+    if (!confirm(`Delete the "${site.name}" site?`)) {
+      return;
+    }
+
+    try {
+      await sitesAPI.delete(site._id);
+      toast.success('Site deleted');
+      await fetchSites();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to delete site');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6 bg-white rounded-lg shadow">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-4"></div>
+          <div className="space-y-4">
+            <div className="h-4 bg-gray-200 rounded"></div>
+            <div className="h-4 bg-gray-200 rounded w-5/6"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const now = new Date();
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="p-6 bg-white rounded-lg shadow">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex items-center">
+            <Building2 className="w-8 h-8 text-blue-600 mr-3" />
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 mb-1">Sites</h1>
+              <p className="text-gray-600">Each site sets the timezone and default opening hours of its rooms</p>
+            </div>
+          </div>
+          <button
+            onClick={openCreateForm}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors"
+          >
+            Add Site
+          </button>
+        </div>
+      </div>
+
+      {sites.length === 0 ? (
+        <div className="p-6 bg-white rounded-lg shadow text-center py-12">
+          <Building2 className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No sites yet</h3>
+          <p className="mt-1 text-sm text-gray-500">Rooms without a site use the default timezone and hours.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {sites.map(site => (
+            <div key={site._id} className="p-6 bg-white rounded-lg shadow">
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <h3 className="text-lg font-semibold text-gray-900">
+                    {site.name}
+                    {!site.isActive && (
+                      <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                        Inactive
+                      </span>
+                    )}
+                  </h3>
+                  {site.address && (
+                    <p className="text-sm text-gray-600 flex items-center">
+                      <MapPin className="w-4 h-4 mr-1" />
+                      {site.address}
+                    </p>
+                  )}
+                  <p className="text-sm text-gray-600 flex items-center">
+                    <Clock className="w-4 h-4 mr-1" />
+                    {site.timezone} ({getZoneLabel(now, site.timezone)}, now {formatClock(now, site.timezone)})
+                  </p>
+                  <p className="text-sm text-gray-600">{describeHours(site)}</p>
+                  <p className="text-sm text-gray-500">{site.roomCount || 0} room{site.roomCount === 1 ? '' : 's'}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => openEditForm(site)}
+                    className="p-2 text-gray-600 hover:text-blue-700 hover:bg-blue-50 rounded-md transition-colors"
+                    title="Edit site"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(site)}
+                    className="p-2 text-gray-600 hover:text-red-700 hover:bg-red-50 rounded-md transition-colors"
+                    title="Delete site"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Create / edit modal */}
+      {showForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">{editing ? 'Edit Site' : 'Add Site'}</h2>
+              <button onClick={closeForm} className="p-2 hover:bg-gray-100 rounded-full transition-colors" disabled={saving}>
+                <X className="w-5 h-5 text-gray-500" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Name *</label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g., Johannesburg Head Office"
+                  required
+                  maxLength={100}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Address</label>
+                <input
+                  type="text"
+                  value={formData.address}
+                  onChange={(e) => setFormData(prev => ({ ...prev, address: e.target.value }))}
+                  maxLength={300}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Timezone *</label>
+                <input
+                  type="text"
+                  list="site-timezones"
+                  value={formData.timezone}
+                  onChange={(e) => setFormData(prev => ({ ...prev, timezone: e.target.value }))}
+                  placeholder="e.g., Africa/Johannesburg"
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <datalist id="site-timezones">
+                  {TIMEZONE_OPTIONS.map(zone => <option key={zone} value={zone} />)}
+                </datalist>
+                {editing && formData.timezone !== editing.timezone && (
+                  <p className="mt-1 text-xs text-amber-700">
+                    Existing bookings keep their times; they will show in the new timezone.
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.customHours}
+                    onChange={(e) => setFormData(prev => ({ ...prev, customHours: e.target.checked }))}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>Set opening hours for this site</span>
+                </label>
+                <p className="text-xs text-gray-500 mt-1">Rooms with their own hours ignore these.</p>
+                {formData.customHours && (
+                  <div className="mt-3 space-y-2">
+                    {formData.hours.map(hours => (
+                      <div key={hours.day} className="flex items-center space-x-3">
+                        <label className="flex items-center space-x-2 w-20 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={hours.enabled}
+                            onChange={(e) => updateHours(hours.day, { enabled: e.target.checked })}
+                            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                          />
+                          <span>{SITE_DAYS[hours.day]}</span>
+                        </label>
+                        <input
+                          type="time"
+                          value={hours.open}
+                          disabled={!hours.enabled}
+                          onChange={(e) => updateHours(hours.day, { open: e.target.value })}
+                          className="px-2 py-1 border border-gray-300 rounded-md text-sm disabled:bg-gray-100"
+                        />
+                        <span className="text-sm text-gray-500">to</span>
+                        <input
+                          type="time"
+                          value={hours.close}
+                          disabled={!hours.enabled}
+                          onChange={(e) => updateHours(hours.day, { close: e.target.value })}
+                          className="px-2 py-1 border border-gray-300 rounded-md text-sm disabled:bg-gray-100"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {editing && (
+                <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.isActive}
+                    onChange={(e) => setFormData(prev => ({ ...prev, isActive: e.target.checked }))}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>Active</span>
+                </label>
+              )}
+
+              <div className="flex items-center justify-end space-x-3 pt-2">
+                <button
+                  type="button"
+                  onClick={closeForm}
+                  disabled={saving}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors disabled:opacity-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : editing ? 'Save Changes' : 'Add Site'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminSites;
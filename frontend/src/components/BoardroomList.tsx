@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { boardroomsAPI } from '../services/api';
 import { Boardroom } from '../types';
+import { getSiteName } from '../utils/timezones';
 
 const BoardroomList: React.FC = () => {
   const navigate = useNavigate();
@@ -123,7 +124,7 @@ const BoardroomList: React.FC = () => {
                       {boardroom.name}
                     </h3>
                     <p className="text-sm text-gray-600 mb-2">
-                      {boardroom.location}
+                      {getSiteName(boardroom) ? `${getSiteName(boardroom)} • ${boardroom.location}` : boardroom.location}
                     </p>
                   </div>
                   <span className={`px-3 py-1 text-sm font-medium rounded-full ${getCapacityColor(boardroom.capacity)}`}>
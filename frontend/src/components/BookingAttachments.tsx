@@ -0,0 +1,152 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Paperclip, Download, Trash2, Upload } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { Booking, BookingAttachment } from '../types';
+import { bookingsAPI } from '../services/api';
+
+interface BookingAttachmentsProps {
+  booking: Booking;
+  canManage: boolean; // Organizer, the delegate who booked it or an admin
+}
+
+// What the server accepts; it has the final say on type and size
+const ACCEPTED_FILES = '.pdf,.doc,.docx,.xls,.xlsx,.ppt,.pptx,.odt,.ods,.odp,.txt,.csv,.png,.jpg,.jpeg';
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Agendas and documents on a booking: download for everyone on it, add and remove for the organizer
+const BookingAttachments: React.FC<BookingAttachmentsProps> = ({ booking, canManage }) => {
+  const [attachments, setAttachments] = useState<BookingAttachment[]>(booking.attachments || []);
+  const [uploading, setUploading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setAttachments(booking.attachments || []);
+  }, [booking._id, booking.attachments]);
+
+  const canAttach = canManage && ['pending', 'confirmed'].includes(booking.status);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setUploading(true);
+    try {
+      const result = await bookingsAPI.uploadAttachments(booking._id, files);
+      setAttachments(result.attachments);
+      toast.success(result.message);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to attach files');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDownload = async (attachment: BookingAttachment) => {
+    setBusyId(attachment._id);
+    try {
+      const blob = await bookingsAPI.downloadAttachment(booking._id, attachment._id);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.name;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to download the file');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRemove = async (attachment: BookingAttachment) => {
+    if (!window.confirm(`Remove ${attachment.name} from this booking?`)) return;
+
+    setBusyId(attachment._id);
+    try {
+      const result = await bookingsAPI.removeAttachment(booking._id, attachment._id);
+      setAttachments(result.attachments);
+      toast.success(result.message);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to remove the file');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (attachments.length === 0 && !canAttach) return null;
+
+  return (
+    <div className="flex items-start space-x-3">
+      <Paperclip className="w-5 h-5 text-gray-400 mt-0.5" />
+      <div className="flex-1">
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="font-medium text-gray-900">Attachments</h4>
+          {canAttach && (
+            <>
+              <button
+                onClick={() => fileInput.current?.click()}
+                disabled={uploading}
+                className="flex items-center space-x-1 text-sm font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+              >
+                <Upload className="w-4 h-4" />
+                <span>{uploading ? 'Uploading...' : 'Attach files'}</span>
+              </button>
+              <input
+                ref={fileInput}
+                type="file"
+                multiple
+                accept={ACCEPTED_FILES}
+                onChange={handleUpload}
+                className="hidden"
+              />
+            </>
+          )}
+        </div>
+
+        {attachments.length === 0 ? (
+          <p className="text-sm text-gray-500">Add an agenda or slides for attendees to download.</p>
+        ) : (
+          <ul className="space-y-1">
+            {attachments.map(attachment => (
+              <li key={attachment._id} className="flex items-center justify-between rounded-md bg-gray-50 px-3 py-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">{attachment.name}</p>
+                  <p className="text-xs text-gray-500">{formatSize(attachment.size)}</p>
+                </div>
+                <div className="flex items-center space-x-1 ml-2">
+                  <button
+                    onClick={() => handleDownload(attachment)}
+                    disabled={busyId === attachment._id}
+                    className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-white rounded transition-colors disabled:opacity-50"
+                    title="Download"
+                  >
+                    <Download className="w-4 h-4" />
+                  </button>
+                  {canManage && (
+                    <button
+                      onClick={() => handleRemove(attachment)}
+                      disabled={busyId === attachment._id}
+                      className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-white rounded transition-colors disabled:opacity-50"
+                      title="Remove"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BookingAttachments;
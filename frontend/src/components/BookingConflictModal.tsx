@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { X, AlertTriangle, Clock, MapPin, Users, Calendar } from 'lucide-react';
+import { X, AlertTriangle, Clock, MapPin, Users, Calendar, ListPlus } from 'lucide-react';
 import { Booking, Boardroom } from '../types';
 import { bookingsAPI, boardroomsAPI } from '../services/api';
 import moment from 'moment';
@@ -8,25 +8,28 @@ interface ConflictingBooking extends Booking {
   boardroom: Boardroom;
 }
 
+export interface BookingConflictData {
+  requestedTime: {
+    startTime: string;
+    endTime: string;
+  };
+  boardroomId: string;
+  conflictingBookings: ConflictingBooking[];
+}
+
 interface BookingConflictModalProps {
   isOpen: boolean;
   onClose: () => void;
-  conflictData: {
-    requestedTime: {
-      startTime: string;
-      endTime: string;
-    };
-    boardroomId: string;
-    conflictingBookings: ConflictingBooking[];
-  } | null;
+  conflictData: BookingConflictData | null;
   onResolve: (resolution: ConflictResolution) => void;
 }
 
-interface ConflictResolution {
-  action: 'modify_time' | 'change_room' | 'force_book' | 'cancel';
+export interface ConflictResolution {
+  action: 'modify_time' | 'change_room' | 'join_waitlist' | 'force_book' | 'cancel';
   newStartTime?: string;
   newEndTime?: string;
   newBoardroomId?: string;
+  autoBook?: boolean; // join_waitlist: book automatically instead of offering a claim
 }
 
 interface AlternativeSlot {
@@ -430,7 +433,39 @@ const BookingConflictModal: React.FC<BookingConflictModalProps> = ({
               )}
             </div>
 
-            {/* Option 3: Cancel */}
+            {/* Option 3: Join Waitlist */}
+            <div className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-center">
+                <input
+                  type="radio"
+                  id="join_waitlist"
+                  name="resolution"
+                  checked={selectedResolution?.action === 'join_waitlist'}
+                  onChange={() => setSelectedResolution({ action: 'join_waitlist', autoBook: false })}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                />
+                <label htmlFor="join_waitlist" className="ml-2 font-medium text-gray-900 flex items-center">
+                  <ListPlus className="w-4 h-4 mr-1 text-blue-600" />
+                  Join Waitlist (Same Room and Time)
+                </label>
+              </div>
+              <p className="text-sm text-gray-600 ml-6 mt-1">
+                If this slot is freed up, the first person on the waitlist is notified and can claim it for a limited time.
+              </p>
+              {selectedResolution?.action === 'join_waitlist' && (
+                <label className="flex items-center ml-6 mt-3 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={!!selectedResolution.autoBook}
+                    onChange={(e) => setSelectedResolution({ action: 'join_waitlist', autoBook: e.target.checked })}
+                    className="h-4 w-4 mr-2 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  Book it for me automatically when it becomes free
+                </label>
+              )}
+            </div>
+
+            {/* Option 4: Cancel */}
             <div className="border border-gray-200 rounded-lg p-4">
               <div className="flex items-center">
                 <input
@@ -1,22 +1,129 @@
-import React from 'react';
-import { X, MapPin, Clock, Users, User, Mail } from 'lucide-react';
-import { Booking } from '../types';
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { X, MapPin, Clock, Users, User, Mail, CheckCircle, Bookmark, RotateCcw, History } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { Booking, BookingHistoryEntry, RsvpResponse } from '../types';
+import { bookingsAPI } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { isCheckInOpen } from '../utils/checkIn';
+import { RSVP_LABELS, RSVP_STYLES, getExpectedHeadcount, getUserResponse, summarizeResponses } from '../utils/attendeeResponses';
+import SaveTemplateModal from './SaveTemplateModal';
+import BookingHistoryTimeline from './BookingHistoryTimeline';
+import BookingAttachments from './BookingAttachments';
+import BookingServices from './BookingServices';
+import BookingVisitors from './BookingVisitors';
+import MeetingNotes from './MeetingNotes';
+import { differsFromViewer, formatClock, getRoomTimeZone, getSiteName, getZoneLabel } from '../utils/timezones';
 
 interface BookingDetailsModalProps {
   booking: Booking | null;
+  linkedBookings?: Booking[]; // The other rooms of a linked booking, main room first
   isOpen: boolean;
   onClose: () => void;
+  onCheckedIn?: (booking: Booking) => void;
 }
 
-const BookingDetailsModal: React.FC<BookingDetailsModalProps> = ({ booking, isOpen, onClose }) => {
+const BookingDetailsModal: React.FC<BookingDetailsModalProps> = ({ booking, linkedBookings = [], isOpen, onClose, onCheckedIn }) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [checkingIn, setCheckingIn] = useState(false);
+  const [savingTemplate, setSavingTemplate] = useState(false);
+  const [history, setHistory] = useState<BookingHistoryEntry[] | null>(null);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+  // Answers given while the modal is open, until the booking is reloaded
+  const [responseFields, setResponseFields] = useState<Pick<Booking, 'attendeeResponses' | 'externalAttendees'> | null>(null);
+  const [responding, setResponding] = useState(false);
+
+  // The history is loaded on request, and again for each booking opened
+  useEffect(() => {
+    setHistory(null);
+    setResponseFields(null);
+  }, [booking?._id]);
+
   if (!isOpen || !booking) return null;
 
+  const isParticipant = booking.user._id === user?._id ||
+    (booking.attendees || []).some(attendee => attendee._id === user?._id);
+  const canSeeHistory = isParticipant || user?.role === 'admin';
+  const canManage = booking.user._id === user?._id || booking.bookedBy?._id === user?._id || user?.role === 'admin';
+
+  const rsvpBooking = { ...booking, ...responseFields };
+  const responseSummary = summarizeResponses(rsvpBooking);
+  const expectedHeadcount = getExpectedHeadcount(responseSummary);
+  const canRespond = ['pending', 'confirmed'].includes(booking.status) && new Date(booking.endTime) > new Date();
+  const isInvitee = booking.user._id !== user?._id && (booking.attendees || []).some(attendee => attendee._id === user?._id);
+  const myResponse = user ? getUserResponse(rsvpBooking, user._id) : null;
+
+  const handleRespond = async (response: RsvpResponse) => {
+    setResponding(true);
+    try {
+      const result = await bookingsAPI.respond(booking._id, response);
+      setResponseFields({ attendeeResponses: result.booking.attendeeResponses, externalAttendees: result.booking.externalAttendees });
+      toast.success(result.message);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to send your response');
+    } finally {
+      setResponding(false);
+    }
+  };
+
+  const handleGuestResponse = async (email: string, response: RsvpResponse) => {
+    setResponding(true);
+    try {
+      const result = await bookingsAPI.recordGuestResponse(booking._id, email, response);
+      setResponseFields({ attendeeResponses: result.booking.attendeeResponses, externalAttendees: result.booking.externalAttendees });
+      toast.success(result.message);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to record the response');
+    } finally {
+      setResponding(false);
+    }
+  };
+
+  const renderResponse = (response: RsvpResponse | null) => (
+    <span className={`ml-auto inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${RSVP_STYLES[response || 'pending']}`}>
+      {response ? RSVP_LABELS[response] : 'No response'}
+    </span>
+  );
+
+  const toggleHistory = async () => {
+    if (history) {
+      setHistory(null);
+      return;
+    }
+    setLoadingHistory(true);
+    try {
+      setHistory(await bookingsAPI.getHistory(booking._id));
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to load the booking history');
+    } finally {
+      setLoadingHistory(false);
+    }
+  };
+
+  const handleCheckIn = async () => {
+    setCheckingIn(true);
+    try {
+      const result = await bookingsAPI.checkIn(booking._id);
+      toast.success(result.message);
+      onCheckedIn?.(result.booking);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to check in');
+    } finally {
+      setCheckingIn(false);
+    }
+  };
+
+  // Dates and times are shown in the room's timezone
+  const timeZone = getRoomTimeZone(booking.boardroom);
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       weekday: 'long',
       year: 'numeric',
       month: 'long',
       day: 'numeric',
+      timeZone
     });
   };
 
@@ -24,7 +131,8 @@ const BookingDetailsModal: React.FC<BookingDetailsModalProps> = ({ booking, isOp
     return new Date(dateString).toLocaleTimeString('en-US', {
       hour: '2-digit',
       minute: '2-digit',
-      hour12: true
+      hour12: true,
+      timeZone
     });
   };
 
@@ -32,6 +140,7 @@ const BookingDetailsModal: React.FC<BookingDetailsModalProps> = ({ booking, isOp
     switch (status) {
       case 'confirmed': return 'bg-green-100 text-green-800 border-green-200';
       case 'cancelled': return 'bg-red-100 text-red-800 border-red-200';
+      case 'no_show': return 'bg-orange-100 text-orange-800 border-orange-200';
       default: return 'bg-gray-100 text-gray-800 border-gray-200';
     }
   };
@@ -66,7 +175,7 @@ const BookingDetailsModal: React.FC<BookingDetailsModalProps> = ({ booking, isOp
             <div className="flex items-start justify-between mb-2">
               <h3 className="text-lg font-medium text-gray-900">{booking.purpose}</h3>
               <span className={`px-3 py-1 text-sm font-medium rounded-full border ${getStatusColor(booking.status)}`}>
-                {booking.status.charAt(0).toUpperCase() + booking.status.slice(1)}
+                {booking.status === 'no_show' ? 'Released (no-show)' : booking.status.charAt(0).toUpperCase() + booking.status.slice(1)}
               </span>
             </div>
             {booking.notes && (
@@ -74,13 +183,45 @@ const BookingDetailsModal: React.FC<BookingDetailsModalProps> = ({ booking, isOp
             )}
           </div>
 
-          {/* Room Information */}
+          {/* Check-in */}
+          {booking.checkedInAt ? (
+            <div className="flex items-center space-x-2 text-sm text-green-700 bg-green-50 rounded-md px-3 py-2">
+              <CheckCircle className="w-4 h-4" />
+              <span>Checked in at {formatTime(booking.checkedInAt)}</span>
+            </div>
+          ) : isParticipant && isCheckInOpen(booking) && (
+            <button
+              onClick={handleCheckIn}
+              disabled={checkingIn}
+              className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-green-600 text-white text-sm font-medium rounded-md hover:bg-green-700 transition-colors disabled:opacity-50"
+            >
+              <CheckCircle className="w-4 h-4" />
+              <span>{checkingIn ? 'Checking in...' : 'Check In'}</span>
+            </button>
+          )}
+
+          {/* Room Information; a linked booking lists every room, main room first */}
           <div className="flex items-start space-x-3">
             <MapPin className="w-5 h-5 text-gray-400 mt-0.5" />
-            <div>
-              <h4 className="font-medium text-gray-900">{booking.boardroom.name}</h4>
-              <p className="text-sm text-gray-600">{booking.boardroom.location}</p>
-              <p className="text-sm text-gray-600">Capacity: {booking.boardroom.capacity} people</p>
+            <div className="space-y-3">
+              {[booking, ...linkedBookings]
+                .sort((a, b) => (a.roomGroupIndex ?? 0) - (b.roomGroupIndex ?? 0))
+                .map(roomBooking => (
+                  <div key={roomBooking._id}>
+                    <h4 className="font-medium text-gray-900">
+                      {roomBooking.boardroom.name}
+                      {linkedBookings.length > 0 && (
+                        <span className="ml-2 text-xs font-normal text-gray-500">
+                          {roomBooking.roomGroupIndex ? 'Linked room' : 'Main room'}
+                        </span>
+                      )}
+                    </h4>
+                    <p className="text-sm text-gray-600">
+                      {getSiteName(roomBooking.boardroom) && <>{getSiteName(roomBooking.boardroom)} • </>}{roomBooking.boardroom.location}
+                    </p>
+                    <p className="text-sm text-gray-600">Capacity: {roomBooking.boardroom.capacity} people</p>
+                  </div>
+                ))}
             </div>
           </div>
 
@@ -91,7 +232,13 @@ const BookingDetailsModal: React.FC<BookingDetailsModalProps> = ({ booking, isOp
               <h4 className="font-medium text-gray-900">{formatDate(booking.startTime)}</h4>
               <p className="text-sm text-gray-600">
                 {formatTime(booking.startTime)} - {formatTime(booking.endTime)}
+                {differsFromViewer(booking.startTime, timeZone) && ` ${getZoneLabel(booking.startTime, timeZone)}`}
               </p>
+              {differsFromViewer(booking.startTime, timeZone) && (
+                <p className="text-xs text-gray-500">
+                  {formatClock(booking.startTime)} - {formatClock(booking.endTime)} your time
+                </p>
+              )}
             </div>
           </div>
 
@@ -102,6 +249,9 @@ const BookingDetailsModal: React.FC<BookingDetailsModalProps> = ({ booking, isOp
               <h4 className="font-medium text-gray-900">Organized by</h4>
               <p className="text-sm text-gray-600">{booking.user.name}</p>
               <p className="text-sm text-gray-500">{booking.user.email}</p>
+              {booking.bookedBy && (
+                <p className="text-xs text-gray-500 mt-1">Booked by {booking.bookedBy.name} on their behalf</p>
+              )}
             </div>
           </div>
 
@@ -109,9 +259,36 @@ const BookingDetailsModal: React.FC<BookingDetailsModalProps> = ({ booking, isOp
           <div className="flex items-start space-x-3">
             <Users className="w-5 h-5 text-gray-400 mt-0.5" />
             <div className="flex-1">
-              <h4 className="font-medium text-gray-900 mb-3">
+              <h4 className="font-medium text-gray-900 mb-1">
                 Attendees ({(booking.attendees?.length || 0) + (booking.externalAttendees?.length || 0)})
               </h4>
+              <p className="text-xs text-gray-500 mb-3">
+                {responseSummary.accepted} accepted · {responseSummary.tentative} tentative · {responseSummary.declined} declined · {responseSummary.pending} not responded
+                <span className={expectedHeadcount > booking.boardroom.capacity ? 'text-amber-700 font-medium' : ''}>
+                  {' '}· expecting {expectedHeadcount} of {booking.boardroom.capacity} seats
+                </span>
+              </p>
+
+              {/* The signed-in user's own answer */}
+              {isInvitee && canRespond && (
+                <div className="flex flex-wrap items-center gap-2 mb-4">
+                  <span className="text-sm text-gray-700">Your response:</span>
+                  {(Object.keys(RSVP_LABELS) as RsvpResponse[]).map(response => (
+                    <button
+                      key={response}
+                      onClick={() => handleRespond(response)}
+                      disabled={responding || myResponse === response}
+                      className={`px-3 py-1 text-sm font-medium rounded-md border transition-colors disabled:cursor-default ${
+                        myResponse === response
+                          ? `${RSVP_STYLES[response]} border-transparent`
+                          : 'border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50'
+                      }`}
+                    >
+                      {RSVP_LABELS[response]}
+                    </button>
+                  ))}
+                </div>
+              )}
               
               {/* Internal Attendees */}
               {booking.attendees && booking.attendees.length > 0 && (
@@ -129,6 +306,7 @@ const BookingDetailsModal: React.FC<BookingDetailsModalProps> = ({ booking, isOp
                           <p className="text-sm font-medium text-gray-900">{attendee.name}</p>
                           <p className="text-xs text-gray-500">{attendee.email}</p>
                         </div>
+                        {renderResponse(getUserResponse(rsvpBooking, attendee._id))}
                       </div>
                     ))}
                   </div>
@@ -140,7 +318,7 @@ const BookingDetailsModal: React.FC<BookingDetailsModalProps> = ({ booking, isOp
                 <div className="space-y-2">
                   <h5 className="text-sm font-medium text-gray-700">External Attendees:</h5>
                   <div className="space-y-1">
-                    {booking.externalAttendees.map((external, index) => (
+                    {(rsvpBooking.externalAttendees || []).map((external, index) => (
                       <div key={index} className="flex items-center space-x-2">
                         <div className="w-8 h-8 bg-green-100 rounded-full flex items-center justify-center">
                           <Mail className="w-4 h-4 text-green-600" />
@@ -149,6 +327,21 @@ const BookingDetailsModal: React.FC<BookingDetailsModalProps> = ({ booking, isOp
                           <p className="text-sm font-medium text-gray-900">{external.name || external.email}</p>
                           <p className="text-xs text-gray-500">{external.email}</p>
                         </div>
+                        {canManage && canRespond ? (
+                          // Guests who reply by email can have their answer recorded by the organizer
+                          <select
+                            value={external.response || ''}
+                            onChange={(e) => e.target.value && handleGuestResponse(external.email, e.target.value as RsvpResponse)}
+                            disabled={responding}
+                            className={`ml-auto px-2 py-0.5 rounded-full text-xs font-medium border-0 ${RSVP_STYLES[external.response || 'pending']}`}
+                            title="Record the guest's response"
+                          >
+                            <option value="" disabled>No response</option>
+                            {(Object.keys(RSVP_LABELS) as RsvpResponse[]).map(response => (
+                              <option key={response} value={response}>{RSVP_LABELS[response]}</option>
+                            ))}
+                          </select>
+                        ) : renderResponse(external.response || null)}
                       </div>
                     ))}
                   </div>
@@ -162,6 +355,18 @@ const BookingDetailsModal: React.FC<BookingDetailsModalProps> = ({ booking, isOp
             </div>
           </div>
 
+          {/* Agenda, minutes and action items */}
+          {(canSeeHistory || canManage) && <MeetingNotes booking={booking} canEdit={isParticipant || canManage} />}
+
+          {/* Agendas and documents */}
+          {(canSeeHistory || canManage) && <BookingAttachments booking={booking} canManage={canManage} />}
+
+          {/* Catering and equipment */}
+          {(canSeeHistory || canManage) && <BookingServices bookingId={booking._id} timeZone={timeZone} />}
+
+          {/* Visitors expected at reception */}
+          {(canSeeHistory || canManage) && <BookingVisitors booking={booking} canManage={canManage} timeZone={timeZone} />}
+
           {/* Room Amenities */}
           {booking.boardroom.amenities && booking.boardroom.amenities.length > 0 && (
             <div>
@@ -179,6 +384,45 @@ const BookingDetailsModal: React.FC<BookingDetailsModalProps> = ({ booking, isOp
             </div>
           )}
 
+          {/* Reuse this booking's room, people and notes */}
+          {isParticipant && (
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => navigate('/book', { state: { bookAgain: booking } })}
+                className="flex items-center space-x-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors"
+              >
+                <RotateCcw className="w-4 h-4" />
+                <span>Book Again</span>
+              </button>
+              <button
+                onClick={() => setSavingTemplate(true)}
+                className="flex items-center space-x-2 px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+              >
+                <Bookmark className="w-4 h-4" />
+                <span>Save as Template</span>
+              </button>
+            </div>
+          )}
+
+          {/* Change history */}
+          {canSeeHistory && (
+            <div className="border-t border-gray-200 pt-4">
+              <button
+                onClick={toggleHistory}
+                disabled={loadingHistory}
+                className="flex items-center space-x-2 text-sm font-medium text-gray-700 hover:text-gray-900 disabled:opacity-50"
+              >
+                <History className="w-4 h-4" />
+                <span>{loadingHistory ? 'Loading history...' : history ? 'Hide history' : 'Show history'}</span>
+              </button>
+              {history && (
+                <div className="mt-4">
+                  <BookingHistoryTimeline entries={history} timeZone={timeZone} />
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Created Date */}
           <div className="border-t border-gray-200 pt-4">
             <p className="text-xs text-gray-500">
@@ -193,6 +437,11 @@ const BookingDetailsModal: React.FC<BookingDetailsModalProps> = ({ booking, isOp
           </div>
         </div>
       </div>
+
+      <SaveTemplateModal
+        booking={savingTemplate ? booking : null}
+        onClose={() => setSavingTemplate(false)}
+      />
     </div>
   );
 };
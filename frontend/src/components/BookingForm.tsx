@@ -1,16 +1,26 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
-import { boardroomsAPI, bookingsAPI, usersAPI } from '../services/api';
-import { Boardroom, BookingFormData, User, AttendeeOption } from '../types';
+import { boardroomsAPI, bookingsAPI, delegationsAPI, templatesAPI, usersAPI, waitlistAPI } from '../services/api';
+import { Boardroom, BookingFormData, User, AttendeeOption, RecurrenceRule, RecurrencePreview, TimeSlot, BookingPolicy, MyDelegations, BookingTemplate, RoomMatch } from '../types';
 import { toast } from 'react-toastify';
 import Select from 'react-select';
-import BookingConflictModal from './BookingConflictModal';
+import BookingConflictModal, { BookingConflictData, ConflictResolution } from './BookingConflictModal';
 import TimeSlotPicker from './TimeSlotPicker';
+import RecurrenceOptions from './RecurrenceOptions';
+import QuotaAllowance from './QuotaAllowance';
+import RoomFinder from './RoomFinder';
+import SchedulingAssistant from './SchedulingAssistant';
+import ServiceRequestsEditor, { ServiceRequestDraft } from './ServiceRequestsEditor';
 import { errorHandlers, contextualErrorMessages } from '../utils/errorHandler';
+import { useAuth } from '../contexts/AuthContext';
+import { describeOperatingHours, formatDuration, getHoursForDate } from '../utils/bookingPolicy';
+import { differsFromViewer, formatClock, getDateKey, getRoomTimeZone, zonedTimeToIso } from '../utils/timezones';
+import { bookingToTemplate, getTemplateAttendees } from '../utils/templates';
 
 const BookingForm: React.FC = () => {
   const location = useLocation();
   const navigate = useNavigate();
+  const { user } = useAuth();
   const [boardrooms, setBoardrooms] = useState<Boardroom[]>([]);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
@@ -27,12 +37,64 @@ const BookingForm: React.FC = () => {
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [users, setUsers] = useState<User[]>([]);
   const [selectedDate, setSelectedDate] = useState<string>('');
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  const [seriesPreview, setSeriesPreview] = useState<RecurrencePreview | null>(null);
+  const [conflictData, setConflictData] = useState<BookingConflictData | null>(null);
+  const [policy, setPolicy] = useState<BookingPolicy | null>(null);
+  // The last policy message the server gave for the chosen times, so a later check can clear it
+  const policyErrorRef = useRef('');
+  const [principals, setPrincipals] = useState<MyDelegations['received'][number]['principal'][]>([]);
+  const [onBehalfOf, setOnBehalfOf] = useState<string>(''); // Empty when booking for yourself
+  const [templates, setTemplates] = useState<BookingTemplate[]>([]);
+  const [selectedTemplate, setSelectedTemplate] = useState<string>('');
+  const [suggestedDuration, setSuggestedDuration] = useState<number | null>(null); // Minutes, from a template or past booking
+  const [showRoomFinder, setShowRoomFinder] = useState(false);
+  const [linkedBoardrooms, setLinkedBoardrooms] = useState<string[]>([]); // Overflow rooms booked with the main room
+  const [serviceDrafts, setServiceDrafts] = useState<ServiceRequestDraft[]>([]);
+
+  // A room finder result fills in the room, the day in that room's timezone and the time
+  const handleRoomMatch = (match: RoomMatch) => {
+    setFormData(prev => ({
+      ...prev,
+      boardroom: match.boardroom._id,
+      startTime: match.startTime,
+      endTime: match.endTime
+    }));
+    setSelectedBoardroom(match.boardroom._id);
+    setSelectedDate(getDateKey(match.startTime, getRoomTimeZone(match.boardroom)));
+    setErrors({});
+    setShowRoomFinder(false);
+  };
+
+  // Fill in everything a template (or a past booking being booked again) knows; the date and time stay open
+  const applyTemplate = (
+    template: Pick<BookingTemplate, 'boardroom' | 'purpose' | 'attendees' | 'externalAttendees' | 'notes' | 'durationMinutes'>,
+    activeRooms: Boardroom[]
+  ) => {
+    const roomId = template.boardroom?._id;
+    const roomAvailable = !!roomId && activeRooms.some(room => room._id === roomId);
+    if (roomId && !roomAvailable) {
+      toast.info(`${template.boardroom?.name} is no longer available; please choose another room`);
+    }
+
+    setFormData(prev => ({
+      ...prev,
+      boardroom: roomAvailable ? roomId : prev.boardroom,
+      purpose: template.purpose || '',
+      attendees: getTemplateAttendees(template),
+      notes: template.notes || ''
+    }));
+    if (roomAvailable) setSelectedBoardroom(roomId);
+    setSuggestedDuration(template.durationMinutes || null);
+    setErrors({});
+  };
 
   useEffect(() => {
     const fetchBoardrooms = async () => {
       try {
         const data = await boardroomsAPI.getAll();
-        setBoardrooms(data.filter((room: Boardroom) => room.isActive));
+        const activeRooms = data.filter((room: Boardroom) => room.isActive);
+        setBoardrooms(activeRooms);
         
         // Pre-select boardroom if passed from navigation
         if (location.state?.selectedBoardroom) {
@@ -42,6 +104,14 @@ const BookingForm: React.FC = () => {
           }));
           setSelectedBoardroom(location.state.selectedBoardroom);
         }
+
+        // Started from a saved template or "book again" on a past booking
+        if (location.state?.template) {
+          applyTemplate(location.state.template, activeRooms);
+          setSelectedTemplate(location.state.template._id);
+        } else if (location.state?.bookAgain) {
+          applyTemplate(bookingToTemplate(location.state.bookAgain, user?._id), activeRooms);
+        }
       } catch (error) {
         console.error('Error fetching boardrooms:', error);
       } finally {
@@ -56,38 +126,59 @@ const BookingForm: React.FC = () => {
         console.error('Error fetching users:', error);
       }
     };
+    // People who have made this user their delegate
+    const fetchPrincipals = async () => {
+      try {
+        const data: MyDelegations = await delegationsAPI.getMine();
+        setPrincipals(data.received.map(delegation => delegation.principal));
+      } catch (error) {
+        console.error('Error fetching delegations:', error);
+      }
+    };
+    const fetchTemplates = async () => {
+      try {
+        const data = await templatesAPI.getAll();
+        setTemplates(data);
+      } catch (error) {
+        console.error('Error fetching templates:', error);
+      }
+    };
     fetchBoardrooms();
     fetchUsers();
+    fetchPrincipals();
+    fetchTemplates();
   }, [location.state]);
 
 
-  // Check if time is within working hours (07:00 - 16:00)
-  const isWithinWorkingHours = (timeString: string) => {
-    if (!timeString) return false;
-    const time = new Date(timeString);
-    const hours = time.getHours();
-    return hours >= 7 && hours < 16;
-  };
-
-  // Get next available working hour
-  const getNextWorkingHour = (date: Date) => {
-    const newDate = new Date(date);
-    if (newDate.getHours() < 7) {
-      newDate.setHours(7, 0, 0, 0);
-    } else if (newDate.getHours() >= 16) {
-      newDate.setDate(newDate.getDate() + 1);
-      newDate.setHours(7, 0, 0, 0);
+  // The selected room's booking rules drive the hints, time inputs and validation below
+  useEffect(() => {
+    if (!formData.boardroom) {
+      setPolicy(null);
+      return;
     }
-    return newDate.toISOString().slice(0, 16);
-  };
 
-  const isMinimumBookingTime = (startTime: string, endTime: string) => {
-    const start = new Date(startTime);
-    const end = new Date(endTime);
-    const diffTime = Math.abs(end.getTime() - start.getTime());
-    const diffMinutes = Math.ceil(diffTime / (1000 * 60));
-    return diffMinutes >= 30;
-  };
+    const fetchPolicy = async () => {
+      try {
+        const data = await boardroomsAPI.getPolicy(formData.boardroom);
+        setPolicy(data.policy);
+      } catch (error) {
+        console.error('Error fetching booking policy:', error);
+        setPolicy(null);
+      }
+    };
+    fetchPolicy();
+  }, [formData.boardroom]);
+
+  // The main room can't also be one of its own overflow rooms
+  useEffect(() => {
+    setLinkedBoardrooms(prev => prev.filter(id => id !== formData.boardroom));
+  }, [formData.boardroom]);
+
+  // The picked date and the manual times below are the room's local time
+  const roomTimeZone = policy?.timezone;
+  const selectedDayHours = policy && selectedDate
+    ? getHoursForDate(policy, new Date(zonedTimeToIso(selectedDate, '12:00', roomTimeZone)))
+    : undefined;
 
   const validateForm = () => {
     const newErrors: Record<string, string> = {};
@@ -121,39 +212,15 @@ const BookingForm: React.FC = () => {
       }
 
       // Check same day booking
-      if (start.toDateString() !== end.toDateString()) {
+      if (getDateKey(start, roomTimeZone) !== getDateKey(end, roomTimeZone)) {
         newErrors.endTime = 'Booking cannot span multiple days';
       }
-
-      // Check working hours
-      if (!isWithinWorkingHours(formData.startTime)) {
-        newErrors.startTime = 'Start time must be between 07:00 and 16:00 (working hours)';
-      }
-
-      if (!isWithinWorkingHours(formData.endTime)) {
-        newErrors.endTime = 'End time must be between 07:00 and 16:00 (working hours)';
-      }
-
-      // Check if booking spans outside working hours
-      if (end.getHours() > 16 || (end.getHours() === 16 && end.getMinutes() > 0)) {
-        newErrors.endTime = 'Booking must end by 16:00 (working hours)';
-      }
-
-      // Maximum booking duration (8 hours)
-      const durationHours = (end.getTime() - start.getTime()) / (1000 * 60 * 60);
-      if (durationHours > 8) {
-        newErrors.endTime = 'Maximum booking duration is 8 hours';
-      }
     }
 
     if (!formData.purpose.trim()) {
       newErrors.purpose = 'Please enter a purpose for the meeting';
     }
 
-    if (formData.startTime && formData.endTime && !isMinimumBookingTime(formData.startTime, formData.endTime)) {
-      newErrors.startTime = 'Booking must be at least 30 minutes long';
-    }
-
     // Attendees are now optional - no validation required
 
     setErrors(newErrors);
@@ -167,6 +234,11 @@ const BookingForm: React.FC = () => {
     if (!validateForm()) {
       return;
     }
+    await submitBooking();
+  };
+
+  // skipConflicts is only set once the user has seen which occurrences of a series clash
+  const submitBooking = async (skipConflicts = false) => {
     setSubmitting(true);
     try {
       // Convert datetime-local to ISO string for backend
@@ -184,12 +256,39 @@ const BookingForm: React.FC = () => {
         attendees: {
           users: formData.attendees.filter(a => a.type === 'user').map(a => a.value),
           external: formData.attendees.filter(a => a.type === 'external').map(a => a.email!)
-        }
+        },
+        ...(recurrence && { recurrence, skipConflicts }),
+        ...(onBehalfOf && { onBehalfOf }),
+        ...(linkedBoardrooms.length > 0 && { linkedBoardrooms }),
+        ...(serviceDrafts.length > 0 && {
+          serviceRequests: serviceDrafts.map(draft => ({
+            item: draft.item,
+            quantity: draft.quantity,
+            ...(draft.clock && { deliverAt: zonedTimeToIso(selectedDate, draft.clock, roomTimeZone) }),
+            ...(draft.notes.trim() && { notes: draft.notes.trim() })
+          }))
+        })
       };
       
+      // Report clashing occurrences before anything is committed
+      if (recurrence && !skipConflicts) {
+        const preview: RecurrencePreview = await bookingsAPI.previewRecurrence(bookingData);
+        if (preview.conflicts.length > 0) {
+          setSeriesPreview(preview);
+          return;
+        }
+      }
+      
       const result = await bookingsAPI.create(bookingData);
       
-      toast.success('Booking created successfully!');
+      if (recurrence || linkedBoardrooms.length > 0) {
+        toast.success(result.message);
+      } else if (result.status === 'pending') {
+        toast.info('Booking request submitted for approval');
+      } else {
+        toast.success('Booking created successfully!');
+      }
+      setSeriesPreview(null);
       
       // Redirect to My Bookings page with URL params for refresh trigger
       const timestamp = Date.now();
@@ -202,6 +301,12 @@ const BookingForm: React.FC = () => {
       const serverMessage = error.response?.data?.message || '';
       let contextualMessage;
       
+      // A taken slot opens the resolution options instead of a bare error
+      if (!recurrence && linkedBoardrooms.length === 0 && (error.message?.includes('already booked') || error.message?.includes('waitlist'))) {
+        await openConflictModal(formData.startTime, formData.endTime);
+        return;
+      }
+      
       if (error.response?.status === 409) {
         contextualMessage = contextualErrorMessages.booking.conflict;
       } else if (serverMessage?.includes('working hours')) {
@@ -216,6 +321,10 @@ const BookingForm: React.FC = () => {
         contextualMessage = contextualErrorMessages.booking.attendeeLimit;
       } else if (serverMessage?.includes('duplicate')) {
         contextualMessage = contextualErrorMessages.booking.duplicateBooking;
+      } else if (error.message?.includes('booking quota')) {
+        contextualMessage = error.message;
+      } else if ((recurrence || linkedBoardrooms.length > 0) && error.message) {
+        contextualMessage = error.message;
       }
       
       if (contextualMessage) {
@@ -227,6 +336,17 @@ const BookingForm: React.FC = () => {
     }
   };
 
+  const formatOccurrence = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false
+    });
+  };
+
   const handleInputChange = (field: keyof BookingFormData, value: string | number) => {
     setFormData(prev => ({
       ...prev,
@@ -242,6 +362,10 @@ const BookingForm: React.FC = () => {
     }
   };
 
+  const toggleLinkedBoardroom = (boardroomId: string) => {
+    setLinkedBoardrooms(prev => prev.includes(boardroomId) ? prev.filter(id => id !== boardroomId) : [...prev, boardroomId]);
+  };
+
   const attendeeOptions = users.map(user => ({ 
     type: 'user' as const,
     value: user._id, 
@@ -249,6 +373,21 @@ const BookingForm: React.FC = () => {
     email: user.email
   }));
 
+  // The organizer and invited colleagues whose calendars the scheduling assistant compares
+  const organizer = onBehalfOf ? principals.find(principal => principal._id === onBehalfOf) : user;
+  const schedulingPeople = [
+    ...(organizer ? [{ id: organizer._id, name: organizer.name }] : []),
+    ...formData.attendees
+      .filter(attendee => attendee.type === 'user' && attendee.value !== organizer?._id)
+      .map(attendee => ({
+        id: attendee.value,
+        name: users.find(option => option._id === attendee.value)?.name || attendee.label
+      }))
+  ];
+  const meetingMinutes = formData.startTime && formData.endTime
+    ? (new Date(formData.endTime).getTime() - new Date(formData.startTime).getTime()) / (1000 * 60)
+    : suggestedDuration || 60;
+
   const handleAttendeesChange = (selected: any) => {
     setFormData(prev => ({ ...prev, attendees: selected || [] }));
     if (errors.attendees) {
@@ -341,6 +480,13 @@ const BookingForm: React.FC = () => {
     
     try {
       const result = await bookingsAPI.checkAvailability(formData.boardroom, startTime, endTime);
+      // Hours, duration limits and slot size are the room's policy, which the server checks
+      const previousPolicyError = policyErrorRef.current;
+      policyErrorRef.current = result.policyError || '';
+      setErrors(prev => ({
+        ...prev,
+        endTime: result.policyError || (prev.endTime === previousPolicyError ? '' : prev.endTime)
+      }));
       if (!result.available && result.conflictingBooking) {
         setErrors(prev => ({
           ...prev,
@@ -359,6 +505,75 @@ const BookingForm: React.FC = () => {
     }
   };
 
+  // Load the bookings occupying a slot and offer other times, other rooms or the waitlist
+  const openConflictModal = async (startTime: string, endTime: string) => {
+    if (!formData.boardroom || !startTime || !endTime) return;
+
+    const startTimeISO = new Date(startTime).toISOString();
+    const endTimeISO = new Date(endTime).toISOString();
+
+    try {
+      const result = await bookingsAPI.checkAvailability(formData.boardroom, startTimeISO, endTimeISO);
+      const conflictingBookings = (result.allBookings || []).filter((booking: any) =>
+        new Date(booking.startTime) < new Date(endTimeISO) && new Date(booking.endTime) > new Date(startTimeISO)
+      );
+
+      setConflictData({
+        requestedTime: { startTime: startTimeISO, endTime: endTimeISO },
+        boardroomId: formData.boardroom,
+        conflictingBookings
+      });
+    } catch (error) {
+      console.error('Error loading booking conflicts:', error);
+    }
+  };
+
+  const handleUnavailableSlotClick = (slot: TimeSlot) => {
+    openConflictModal(slot.startTime, slot.endTime);
+  };
+
+  const handleConflictResolve = async (resolution: ConflictResolution) => {
+    if (!conflictData) return;
+
+    switch (resolution.action) {
+      case 'modify_time':
+        if (resolution.newStartTime && resolution.newEndTime) {
+          setSelectedDate(new Date(resolution.newStartTime).toLocaleDateString('en-CA'));
+          handleTimeSlotSelect(resolution.newStartTime, resolution.newEndTime);
+        }
+        break;
+      case 'change_room':
+        if (resolution.newBoardroomId) {
+          handleInputChange('boardroom', resolution.newBoardroomId);
+          setSelectedBoardroom(resolution.newBoardroomId);
+        }
+        break;
+      case 'join_waitlist':
+        if (formData.purpose.trim().length < 2) {
+          setErrors(prev => ({ ...prev, purpose: 'Please enter the meeting purpose before joining the waitlist' }));
+          toast.error('Please enter the meeting purpose before joining the waitlist');
+          return;
+        }
+        try {
+          const result = await waitlistAPI.join({
+            boardroom: conflictData.boardroomId,
+            startTime: conflictData.requestedTime.startTime,
+            endTime: conflictData.requestedTime.endTime,
+            purpose: formData.purpose,
+            notes: formData.notes,
+            autoBook: resolution.autoBook
+          });
+          toast.success(result.message);
+          navigate('/my-bookings');
+        } catch (error: any) {
+          toast.error(error.message || 'Failed to join the waitlist');
+        }
+        break;
+      default:
+        break;
+    }
+  };
+
   const getTodayDate = () => {
     return new Date().toISOString().split('T')[0];
   };
@@ -385,11 +600,79 @@ const BookingForm: React.FC = () => {
         <p className="text-gray-600">
           Reserve a boardroom for your meeting. Please fill in all required fields.
         </p>
+        {!showRoomFinder && (
+          <button
+            type="button"
+            onClick={() => setShowRoomFinder(true)}
+            className="mt-3 text-sm font-medium text-blue-600 hover:text-blue-800"
+          >
+            Not sure which room? Find me a room
+          </button>
+        )}
       </div>
 
+      {showRoomFinder && (
+        <RoomFinder
+          boardrooms={boardrooms}
+          onSelect={handleRoomMatch}
+          onClose={() => setShowRoomFinder(false)}
+        />
+      )}
+
       {/* Booking Form */}
       <div className="card">
         <form onSubmit={handleSubmit} className="space-y-6">
+          {/* Saved templates fill in everything but the date and time */}
+          {templates.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Start from a template
+              </label>
+              <select
+                value={selectedTemplate}
+                onChange={(e) => {
+                  setSelectedTemplate(e.target.value);
+                  const template = templates.find(item => item._id === e.target.value);
+                  if (template) applyTemplate(template, boardrooms);
+                }}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">No template</option>
+                {templates.map(template => (
+                  <option key={template._id} value={template._id}>
+                    {template.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {/* Delegates choose whose booking this is; the organizer is the person booked for */}
+          {principals.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Booking for
+              </label>
+              <select
+                value={onBehalfOf}
+                onChange={(e) => setOnBehalfOf(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Myself</option>
+                {principals.map(principal => (
+                  <option key={principal._id} value={principal._id}>
+                    {principal.name} ({principal.email})
+                  </option>
+                ))}
+              </select>
+              {onBehalfOf && (
+                <p className="mt-1 text-xs text-gray-500">
+                  {principals.find(principal => principal._id === onBehalfOf)?.name} will be the organizer; invitations show that you made the booking.
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Boardroom Selection */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -426,6 +709,11 @@ const BookingForm: React.FC = () => {
               <p className="text-sm text-blue-700 mb-2">
                 {getSelectedBoardroom()?.location} • Capacity: {getSelectedBoardroom()?.capacity} people
               </p>
+              {getSelectedBoardroom()?.requiresApproval && user?.role !== 'admin' && (
+                <p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md px-3 py-2 mb-2">
+                  This room requires approval. Your booking will stay pending until an admin reviews it.
+                </p>
+              )}
               {getSelectedBoardroom()?.amenities && getSelectedBoardroom()!.amenities.length > 0 && (
                 <div className="flex flex-wrap gap-1">
                   {getSelectedBoardroom()!.amenities.map((amenity, index) => (
@@ -441,15 +729,60 @@ const BookingForm: React.FC = () => {
             </div>
           )}
 
+          {/* Overflow rooms, e.g. video-linked rooms for an all-hands, booked together with the main room */}
+          {formData.boardroom && boardrooms.length > 1 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Linked overflow rooms (optional)
+              </label>
+              {recurrence ? (
+                <p className="text-sm text-gray-500">Linked rooms can't be added to a recurring booking.</p>
+              ) : (
+                <>
+                  <div className="flex flex-wrap gap-2">
+                    {boardrooms.filter(room => room._id !== formData.boardroom).map(room => (
+                      <button
+                        key={room._id}
+                        type="button"
+                        onClick={() => toggleLinkedBoardroom(room._id)}
+                        className={`px-3 py-1 text-sm rounded-full border transition-colors ${
+                          linkedBoardrooms.includes(room._id)
+                            ? 'bg-blue-100 text-blue-800 border-blue-300'
+                            : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                        }`}
+                      >
+                        {room.name} ({room.capacity})
+                      </button>
+                    ))}
+                  </div>
+                  {linkedBoardrooms.length > 0 && (
+                    <p className="mt-2 text-sm text-gray-500">
+                      Every room is booked for the same time, or none are. Cancelling or moving the booking applies to all of them.
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
           {/* Working Hours Notice */}
           <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
             <div className="flex items-center">
               <svg className="w-5 h-5 text-blue-600 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
               </svg>
-              <p className="text-sm text-blue-800">
-                <strong>Working Hours:</strong> Bookings are only allowed between 07:00 and 16:00 (4:00 PM)
-              </p>
+              {policy ? (
+                <p className="text-sm text-blue-800">
+                  <strong>Working Hours:</strong> {describeOperatingHours(policy)}.
+                  {' '}Bookings run {formatDuration(policy.minDurationMinutes)} to {formatDuration(policy.maxDurationMinutes)} in {policy.slotMinutes}-minute steps
+                  {policy.maxAdvanceDays ? `, up to ${policy.maxAdvanceDays} days ahead` : ''}
+                  {policy.minLeadMinutes > 0 ? `, at least ${formatDuration(policy.minLeadMinutes)} in advance` : ''}.
+                </p>
+              ) : (
+                <p className="text-sm text-blue-800">
+                  <strong>Working Hours:</strong> Select a boardroom to see when it can be booked
+                </p>
+              )}
             </div>
           </div>
 
@@ -472,15 +805,29 @@ const BookingForm: React.FC = () => {
             )}
           </div>
 
+          {/* Remaining allowance for the chosen room and day */}
+          <QuotaAllowance
+            boardroomId={formData.boardroom || undefined}
+            date={selectedDate || undefined}
+            variant="notice"
+            onBehalfOf={onBehalfOf || undefined}
+          />
+
           {/* Time Slot Selection */}
           {formData.boardroom && selectedDate && (
             <div>
+              {suggestedDuration && (
+                <p className="mb-2 text-sm text-gray-500">
+                  This meeting usually runs {formatDuration(suggestedDuration)}.
+                </p>
+              )}
               <TimeSlotPicker
                 boardroomId={formData.boardroom}
                 selectedDate={selectedDate}
                 selectedStartTime={formData.startTime}
                 selectedEndTime={formData.endTime}
                 onTimeSlotSelect={handleTimeSlotSelect}
+                onUnavailableSlotClick={handleUnavailableSlotClick}
                 onError={(error) => {
                   setErrors(prev => ({ ...prev, timeSlots: error }));
                 }}
@@ -511,11 +858,10 @@ const BookingForm: React.FC = () => {
                     </label>
                     <input
                       type="time"
-                      value={formData.startTime ? new Date(formData.startTime).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' }) : ''}
+                      value={formData.startTime ? formatClock(formData.startTime, roomTimeZone) : ''}
                       onChange={async (e) => {
                         if (e.target.value && selectedDate) {
-                          const dateTime = `${selectedDate}T${e.target.value}:00`;
-                          const startTimeISO = new Date(dateTime).toISOString();
+                          const startTimeISO = zonedTimeToIso(selectedDate, e.target.value, roomTimeZone);
                           handleInputChange('startTime', startTimeISO);
                           
                           // Check for conflicts if end time is also set
@@ -524,9 +870,9 @@ const BookingForm: React.FC = () => {
                           }
                         }
                       }}
-                      min="07:00"
-                      max="16:00"
-                      step="900"
+                      min={selectedDayHours?.open}
+                      max={selectedDayHours?.close}
+                      step={(policy?.slotMinutes || 15) * 60}
                       className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                     />
                   </div>
@@ -536,11 +882,10 @@ const BookingForm: React.FC = () => {
                     </label>
                     <input
                       type="time"
-                      value={formData.endTime ? new Date(formData.endTime).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' }) : ''}
+                      value={formData.endTime ? formatClock(formData.endTime, roomTimeZone) : ''}
                       onChange={async (e) => {
                         if (e.target.value && selectedDate) {
-                          const dateTime = `${selectedDate}T${e.target.value}:00`;
-                          const endTimeISO = new Date(dateTime).toISOString();
+                          const endTimeISO = zonedTimeToIso(selectedDate, e.target.value, roomTimeZone);
                           handleInputChange('endTime', endTimeISO);
                           
                           // Check for conflicts if start time is also set
@@ -549,16 +894,75 @@ const BookingForm: React.FC = () => {
                           }
                         }
                       }}
-                      min="07:00"
-                      max="16:00"
-                      step="900"
+                      min={selectedDayHours?.open}
+                      max={selectedDayHours?.close}
+                      step={(policy?.slotMinutes || 15) * 60}
                       className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                     />
                   </div>
                 </div>
                 <p className="mt-2 text-xs text-gray-500">
-                  Set any time within working hours (07:00-16:00) in 15-minute intervals
+                  {!policy
+                    ? 'Set any time within working hours'
+                    : selectedDayHours
+                      ? `Set any time within working hours (${selectedDayHours.open}-${selectedDayHours.close}) in ${policy.slotMinutes}-minute intervals`
+                      : 'The room is closed on this day'}
                 </p>
+                {formData.startTime && formData.endTime && differsFromViewer(formData.startTime, roomTimeZone) && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Times are the room's local time; that is {formatClock(formData.startTime)}-{formatClock(formData.endTime)} your time.
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Recurrence */}
+          {formData.boardroom && selectedDate && linkedBoardrooms.length === 0 && (
+            <RecurrenceOptions
+              value={recurrence}
+              onChange={(rule) => {
+                setRecurrence(rule);
+                setSeriesPreview(null);
+              }}
+              selectedDate={selectedDate}
+              disabled={submitting}
+            />
+          )}
+
+          {/* Clashing occurrences reported before the series is created */}
+          {seriesPreview && seriesPreview.conflicts.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+              <h4 className="text-sm font-medium text-yellow-900 mb-2">
+                {seriesPreview.conflicts.length} of {seriesPreview.occurrences.length} occurrences can't be booked ({seriesPreview.summary})
+              </h4>
+              <ul className="space-y-1 mb-4 max-h-48 overflow-y-auto">
+                {seriesPreview.conflicts.map((occurrence) => (
+                  <li key={occurrence.index} className="text-sm text-yellow-800">
+                    <span className="font-medium">{formatOccurrence(occurrence.startTime)}</span>
+                    {' — '}
+                    {occurrence.conflictingBooking
+                      ? `clashes with "${occurrence.conflictingBooking.purpose}"`
+                      : occurrence.reason}
+                  </li>
+                ))}
+              </ul>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <button
+                  type="button"
+                  onClick={() => submitBooking(true)}
+                  disabled={submitting || seriesPreview.conflicts.length === seriesPreview.occurrences.length}
+                  className="px-4 py-2 bg-yellow-600 text-white text-sm font-medium rounded-md hover:bg-yellow-700 focus:outline-none focus:ring-2 focus:ring-yellow-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Book the {seriesPreview.occurrences.length - seriesPreview.conflicts.length} available occurrences
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setSeriesPreview(null)}
+                  className="px-4 py-2 border border-gray-300 text-sm rounded-md text-gray-700 hover:bg-gray-50"
+                >
+                  Change time or pattern
+                </button>
               </div>
             </div>
           )}
@@ -680,6 +1084,21 @@ const BookingForm: React.FC = () => {
             </div>
           </div>
 
+          {/* Everyone's busy times over the room's slots, once colleagues are invited */}
+          {formData.boardroom && selectedDate && schedulingPeople.length > 1 && meetingMinutes > 0 && (
+            <SchedulingAssistant
+              boardroomId={formData.boardroom}
+              selectedDate={selectedDate}
+              people={schedulingPeople}
+              durationMinutes={meetingMinutes}
+              selectedStartTime={formData.startTime}
+              selectedEndTime={formData.endTime}
+              onSelect={handleTimeSlotSelect}
+            />
+          )}
+
+          <ServiceRequestsEditor value={serviceDrafts} onChange={setServiceDrafts} disabled={submitting} />
+
           {/* Additional Notes */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -708,11 +1127,19 @@ const BookingForm: React.FC = () => {
               disabled={submitting}
               className="w-full sm:w-auto px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {submitting ? 'Creating Booking...' : 'Create Booking'}
+              {submitting ? 'Creating Booking...' : recurrence ? 'Create Recurring Booking' : 'Create Booking'}
             </button>
           </div>
         </form>
       </div>
+
+      {/* Alternatives for a taken slot, including the waitlist */}
+      <BookingConflictModal
+        isOpen={!!conflictData}
+        onClose={() => setConflictData(null)}
+        conflictData={conflictData}
+        onResolve={handleConflictResolve}
+      />
     </div>
   );
 };
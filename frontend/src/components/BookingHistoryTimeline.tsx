@@ -0,0 +1,86 @@
+import React from 'react';
+import { BookingHistoryEntry } from '../types';
+import { HISTORY_ACTION_LABELS, describeHistoryActor, formatHistoryValue, getFieldLabel } from '../utils/bookingHistory';
+
+interface BookingHistoryTimelineProps {
+  entries: BookingHistoryEntry[];
+  timeZone?: string; // Room timezone for changed start and end times
+  showBooking?: boolean; // Name the booking on each entry, for lists that span bookings
+  onSelectBooking?: (entry: BookingHistoryEntry) => void;
+}
+
+const ACTION_STYLES: Record<BookingHistoryEntry['action'], string> = {
+  created: 'bg-green-500',
+  updated: 'bg-blue-500',
+  cancelled: 'bg-red-500',
+  deleted: 'bg-red-700',
+  opted_out: 'bg-gray-400',
+  approved: 'bg-green-600',
+  rejected: 'bg-red-500',
+  checked_in: 'bg-teal-500',
+  transferred: 'bg-purple-500',
+  released: 'bg-orange-500',
+  responded: 'bg-indigo-400',
+  visitor_arrived: 'bg-cyan-500'
+};
+
+const formatWhen = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+// Newest-first list of who did what to a booking, with the fields each change touched
+const BookingHistoryTimeline: React.FC<BookingHistoryTimelineProps> = ({ entries, timeZone, showBooking = false, onSelectBooking }) => {
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500">No changes recorded yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+      {entries.map(entry => (
+        <li key={entry._id} className="ml-4">
+          <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border-2 border-white ${ACTION_STYLES[entry.action]}`} />
+          <div className="flex flex-wrap items-baseline gap-x-2">
+            <span className="text-sm font-medium text-gray-900">{HISTORY_ACTION_LABELS[entry.action]}</span>
+            <span className="text-sm text-gray-600">by {describeHistoryActor(entry)}</span>
+            <span className="text-xs text-gray-400">{formatWhen(entry.createdAt)}</span>
+          </div>
+
+          {showBooking && (
+            <button
+              type="button"
+              onClick={() => onSelectBooking?.(entry)}
+              disabled={!onSelectBooking}
+              className="text-xs text-blue-600 hover:underline disabled:no-underline disabled:text-gray-500"
+            >
+              {entry.purpose || 'Booking'}
+              {entry.boardroom && typeof entry.boardroom === 'object' && ` • ${entry.boardroom.name}`}
+            </button>
+          )}
+
+          {entry.changes.length > 0 && (
+            <ul className="mt-1 space-y-0.5">
+              {entry.changes.map(change => (
+                <li key={change.field} className="text-xs text-gray-600">
+                  <span className="font-medium text-gray-700">{getFieldLabel(change.field)}:</span>{' '}
+                  <span className="line-through text-gray-400">{formatHistoryValue(change.field, change.from, timeZone)}</span>
+                  {' → '}
+                  <span>{formatHistoryValue(change.field, change.to, timeZone)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {entry.note && <p className="mt-1 text-xs text-gray-500 italic">{entry.note}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default BookingHistoryTimeline;
@@ -0,0 +1,90 @@
+import React, { useState, useEffect } from 'react';
+import { Timer } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { bookingsAPI } from '../services/api';
+import { Booking, BookingAdjustments } from '../types';
+
+interface BookingQuickActionsProps {
+  booking: Booking;
+  onAdjusted: (booking: Booking) => void;
+}
+
+// Extend a running or imminent meeting into free time, or end it and give the room back
+const BookingQuickActions: React.FC<BookingQuickActionsProps> = ({ booking, onAdjusted }) => {
+  const [adjustments, setAdjustments] = useState<BookingAdjustments | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchAdjustments = async () => {
+      try {
+        const data = await bookingsAPI.getAdjustments(booking._id);
+        if (!cancelled) setAdjustments(data);
+      } catch (error) {
+        console.error('Error fetching booking adjustments:', error);
+        if (!cancelled) setAdjustments(null);
+      }
+    };
+
+    fetchAdjustments();
+    return () => {
+      cancelled = true;
+    };
+  }, [booking._id, booking.endTime]);
+
+  if (!adjustments) {
+    return null;
+  }
+
+  const runAction = async (action: () => Promise<{ message: string; booking: Booking }>) => {
+    setBusy(true);
+    try {
+      const result = await action();
+      toast.success(result.message);
+      onAdjusted(result.booking);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update the booking');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleEndNow = () => {
+    if (!window.confirm(`End "${booking.purpose}" now and free the room?`)) return;
+    runAction(() => bookingsAPI.endNow(booking._id));
+  };
+
+  const extensions = adjustments.extensions.filter(extension => extension.available);
+  if (extensions.length === 0 && !adjustments.inProgress) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Timer className="w-4 h-4 text-gray-400" />
+      {extensions.map(extension => (
+        <button
+          key={extension.minutes}
+          onClick={() => runAction(() => bookingsAPI.extend(booking._id, extension.minutes))}
+          disabled={busy}
+          className="px-3 py-1 text-xs font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 rounded-full transition-colors disabled:opacity-50"
+          title={`Run until ${new Date(extension.endTime).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false })}`}
+        >
+          +{extension.minutes} min
+        </button>
+      ))}
+      {adjustments.inProgress && (
+        <button
+          onClick={handleEndNow}
+          disabled={busy}
+          className="px-3 py-1 text-xs font-medium text-red-700 bg-red-50 hover:bg-red-100 rounded-full transition-colors disabled:opacity-50"
+        >
+          End now
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default BookingQuickActions;
@@ -0,0 +1,53 @@
+import React, { useState, useEffect } from 'react';
+import { Coffee } from 'lucide-react';
+import { servicesAPI } from '../services/api';
+import { ServiceRequest } from '../types';
+import { SERVICE_STATUS_LABELS, SERVICE_STATUS_STYLES } from '../utils/serviceRequests';
+import { formatClock } from '../utils/timezones';
+
+interface BookingServicesProps {
+  bookingId: string;
+  timeZone?: string;
+}
+
+// Catering and equipment ordered with a booking, with where facilities are up to
+const BookingServices: React.FC<BookingServicesProps> = ({ bookingId, timeZone }) => {
+  const [requests, setRequests] = useState<ServiceRequest[]>([]);
+
+  useEffect(() => {
+    setRequests([]);
+    servicesAPI.getForBooking(bookingId)
+      .then(data => setRequests(Array.isArray(data) ? data : []))
+      .catch(error => console.error('Error fetching service requests:', error));
+  }, [bookingId]);
+
+  if (requests.length === 0) return null;
+
+  return (
+    <div className="flex items-start space-x-3">
+      <Coffee className="w-5 h-5 text-gray-400 mt-0.5" />
+      <div className="flex-1">
+        <h4 className="font-medium text-gray-900 mb-2">Catering & Equipment</h4>
+        <ul className="space-y-1">
+          {requests.map(request => (
+            <li key={request._id} className="flex items-center justify-between rounded-md bg-gray-50 px-3 py-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900">{request.quantity} × {request.itemName}</p>
+                <p className="text-xs text-gray-500">
+                  {formatClock(request.deliverAt, timeZone)}
+                  {request.notes && ` · ${request.notes}`}
+                  {request.cancelReason && ` · ${request.cancelReason}`}
+                </p>
+              </div>
+              <span className={`ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${SERVICE_STATUS_STYLES[request.status]}`}>
+                {SERVICE_STATUS_LABELS[request.status]}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default BookingServices;
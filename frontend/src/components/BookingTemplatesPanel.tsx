@@ -0,0 +1,92 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bookmark, X } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { templatesAPI } from '../services/api';
+import { BookingTemplate } from '../types';
+import { formatDuration } from '../utils/bookingPolicy';
+
+// The user's saved booking templates, with a shortcut into BookingForm for each
+const BookingTemplatesPanel: React.FC = () => {
+  const navigate = useNavigate();
+  const [templates, setTemplates] = useState<BookingTemplate[]>([]);
+
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      try {
+        const data = await templatesAPI.getAll();
+        setTemplates(data);
+      } catch (error) {
+        console.error('Error fetching templates:', error);
+      }
+    };
+    fetchTemplates();
+  }, []);
+
+  const handleDelete = async (template: BookingTemplate) => {
+    if (!window.confirm(`Delete the template "${template.name}"?`)) return;
+
+    try {
+      await templatesAPI.delete(template._id);
+      setTemplates(prev => prev.filter(item => item._id !== template._id));
+      toast.success('Template deleted');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to delete template');
+    }
+  };
+
+  const describe = (template: BookingTemplate) => {
+    const parts = [
+      template.boardroom?.name,
+      template.durationMinutes ? formatDuration(template.durationMinutes) : null,
+      template.attendees.length + template.externalAttendees.length > 0
+        ? `${template.attendees.length + template.externalAttendees.length} attendees`
+        : null
+    ];
+    return parts.filter(Boolean).join(' • ');
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-1 flex items-center">
+        <Bookmark className="w-5 h-5 text-gray-500 mr-2" />
+        Booking Templates
+      </h3>
+      <p className="text-sm text-gray-500 mb-4">Save a booking as a template from My Bookings to reuse it here.</p>
+
+      {templates.length === 0 ? (
+        <p className="text-sm text-gray-400">No templates yet</p>
+      ) : (
+        <div className="space-y-3">
+          {templates.map(template => (
+            <div key={template._id} className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">{template.name}</p>
+                {describe(template) && (
+                  <p className="text-xs text-gray-500 truncate">{describe(template)}</p>
+                )}
+              </div>
+              <div className="flex items-center space-x-1 flex-shrink-0">
+                <button
+                  onClick={() => navigate('/book', { state: { template } })}
+                  className="px-2 py-1 text-xs font-medium text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                >
+                  Use
+                </button>
+                <button
+                  onClick={() => handleDelete(template)}
+                  className="p-1 text-gray-400 hover:text-red-600 rounded transition-colors"
+                  title="Delete template"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BookingTemplatesPanel;
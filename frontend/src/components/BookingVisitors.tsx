@@ -0,0 +1,176 @@
+import React, { useState, useEffect } from 'react';
+import { BadgeCheck, Trash2, UserPlus, Users } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { Booking, Visitor } from '../types';
+import { bookingsAPI } from '../services/api';
+import { getVisitorHostName } from '../utils/visitors';
+import { formatClock } from '../utils/timezones';
+
+interface BookingVisitorsProps {
+  booking: Booking;
+  canManage: boolean; // Organizer, the delegate who booked it or an admin
+  timeZone?: string;
+}
+
+const EMPTY_VISITOR = { name: '', company: '', host: '' };
+
+// Visitors expected at reception for a booking; the organizer registers them and picks who meets them
+const BookingVisitors: React.FC<BookingVisitorsProps> = ({ booking, canManage, timeZone }) => {
+  const [visitors, setVisitors] = useState<Visitor[]>(booking.visitors || []);
+  const [form, setForm] = useState(EMPTY_VISITOR);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setVisitors(booking.visitors || []);
+    setShowForm(false);
+    setForm(EMPTY_VISITOR);
+  }, [booking._id, booking.visitors]);
+
+  const canRegister = canManage && ['pending', 'confirmed'].includes(booking.status) && new Date(booking.endTime) > new Date();
+  // Hosts are people on the booking, the organizer first
+  const hosts = [booking.user, ...(booking.attendees || []).filter(attendee => attendee._id !== booking.user._id)];
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) return;
+
+    setSaving(true);
+    try {
+      const result = await bookingsAPI.addVisitor(booking._id, {
+        name: form.name.trim(),
+        company: form.company.trim() || undefined,
+        host: form.host || undefined
+      });
+      setVisitors(result.visitors);
+      setForm(EMPTY_VISITOR);
+      setShowForm(false);
+      toast.success(result.message);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to register the visitor');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (visitor: Visitor) => {
+    if (!window.confirm(`Remove ${visitor.name} from the visitor list?`)) return;
+
+    setBusyId(visitor._id);
+    try {
+      const result = await bookingsAPI.removeVisitor(booking._id, visitor._id);
+      setVisitors(result.visitors);
+      toast.success(result.message);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to remove the visitor');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (visitors.length === 0 && !canRegister) return null;
+
+  return (
+    <div className="flex items-start space-x-3">
+      <Users className="w-5 h-5 text-gray-400 mt-0.5" />
+      <div className="flex-1">
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="font-medium text-gray-900">Visitors</h4>
+          {canRegister && !showForm && (
+            <button
+              onClick={() => setShowForm(true)}
+              className="flex items-center space-x-1 text-sm font-medium text-blue-600 hover:text-blue-800"
+            >
+              <UserPlus className="w-4 h-4" />
+              <span>Add visitor</span>
+            </button>
+          )}
+        </div>
+
+        {showForm && (
+          <form onSubmit={handleAdd} className="grid grid-cols-1 sm:grid-cols-3 gap-2 mb-3">
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="Visitor name"
+              maxLength={100}
+              required
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <input
+              type="text"
+              value={form.company}
+              onChange={(e) => setForm({ ...form, company: e.target.value })}
+              placeholder="Company (optional)"
+              maxLength={100}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <select
+              value={form.host || booking.user._id}
+              onChange={(e) => setForm({ ...form, host: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              title="Who meets the visitor"
+            >
+              {hosts.map(host => (
+                <option key={host._id} value={host._id}>Host: {host.name}</option>
+              ))}
+            </select>
+            <div className="sm:col-span-3 flex justify-end space-x-2">
+              <button
+                type="button"
+                onClick={() => { setShowForm(false); setForm(EMPTY_VISITOR); }}
+                className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving || !form.name.trim()}
+                className="px-3 py-1.5 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saving ? 'Adding...' : 'Add'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {visitors.length === 0 ? (
+          <p className="text-sm text-gray-500">Register clients or guests so reception knows to expect them.</p>
+        ) : (
+          <ul className="space-y-1">
+            {visitors.map(visitor => (
+              <li key={visitor._id} className="flex items-center justify-between rounded-md bg-gray-50 px-3 py-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">
+                    {visitor.name}
+                    {visitor.company && <span className="font-normal text-gray-500"> · {visitor.company}</span>}
+                  </p>
+                  <p className="text-xs text-gray-500">Host: {getVisitorHostName(visitor, booking)}</p>
+                </div>
+                {visitor.checkedInAt ? (
+                  <span className="ml-2 inline-flex items-center space-x-1 px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                    <BadgeCheck className="w-3 h-3" />
+                    <span>Arrived {formatClock(visitor.checkedInAt, timeZone)}</span>
+                  </span>
+                ) : canManage && (
+                  <button
+                    onClick={() => handleRemove(visitor)}
+                    disabled={busyId === visitor._id}
+                    className="ml-2 p-1.5 text-gray-500 hover:text-red-600 hover:bg-white rounded transition-colors disabled:opacity-50"
+                    title="Remove"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BookingVisitors;
@@ -1,8 +1,10 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { Calendar, momentLocalizer, View } from 'react-big-calendar';
 import moment from 'moment';
-import { bookingsAPI } from '../services/api';
-import { Booking } from '../types';
+import { bookingsAPI, closuresAPI } from '../services/api';
+import { Booking, Closure } from '../types';
+import { getClosuresForDate, coversWholeDay, describeClosure } from '../utils/closures';
+import { collapseRoomGroups, getLinkedBookings } from '../utils/roomGroups';
 import { ChevronLeft, ChevronRight } from 'lucide-react';
 import BookingDetailsModal from './BookingDetailsModal';
 import toast from 'react-hot-toast';
@@ -86,11 +88,13 @@ const CustomToolbar: React.FC<CustomToolbarProps> = ({ date, view, views, onView
 
 const CalendarView: React.FC = () => {
   const [events, setEvents] = useState<CalendarEvent[]>([]);
+  const [bookings, setBookings] = useState<Booking[]>([]);
   const [loading, setLoading] = useState(true);
   const [currentDate, setCurrentDate] = useState(new Date());
   const [currentView, setCurrentView] = useState<View>('month');
   const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [closures, setClosures] = useState<Closure[]>([]);
 
 
   const fetchBookings = useCallback(async (date: Date, view: View) => {
@@ -118,18 +122,21 @@ const CalendarView: React.FC = () => {
           endDate = moment(date).add(1, 'month').toDate();
       }
 
-      const bookings = await bookingsAPI.getCalendarBookings(
-        startDate.toISOString(),
-        endDate.toISOString()
-      );
+      const [bookingData, closureData] = await Promise.all([
+        bookingsAPI.getCalendarBookings(startDate.toISOString(), endDate.toISOString()),
+        closuresAPI.getAll(startDate.toISOString(), endDate.toISOString())
+      ]);
+      setClosures(closureData);
       
-      const calendarEvents: CalendarEvent[] = bookings.map((booking: Booking) => ({
+      // Linked rooms show as one event naming every room
+      const calendarEvents: CalendarEvent[] = collapseRoomGroups(bookingData).map((booking: Booking) => ({
         id: booking._id,
-        title: `${booking.purpose} - ${booking.boardroom.name}`,
+        title: `${booking.purpose} - ${[booking, ...getLinkedBookings(booking, bookingData)].map(room => room.boardroom.name).join(' + ')}`,
         start: new Date(booking.startTime),
         end: new Date(booking.endTime),
         resource: booking
       }));
+      setBookings(bookingData);
       setEvents(calendarEvents);
     } catch (error) {
       console.error('Error fetching bookings:', error);
@@ -201,6 +208,18 @@ const CalendarView: React.FC = () => {
     };
   };
 
+  // Closure days are shaded: solid for a whole-day closure, lighter when only part of the day is closed
+  const dayPropGetter = (date: Date) => {
+    const dayClosures = getClosuresForDate(closures, date);
+    if (dayClosures.length === 0) return {};
+
+    return {
+      style: {
+        backgroundColor: dayClosures.some(closure => coversWholeDay(closure, date)) ? '#e5e7eb' : '#f3f4f6'
+      }
+    };
+  };
+
   if (loading) {
     return (
       <div className="card">
@@ -240,6 +259,7 @@ const CalendarView: React.FC = () => {
             startAccessor="start"
             endAccessor="end"
             eventPropGetter={eventStyleGetter}
+            dayPropGetter={dayPropGetter}
             views={['month', 'week', 'day']}
             view={currentView}
             date={currentDate}
@@ -270,14 +290,32 @@ const CalendarView: React.FC = () => {
             <div className="w-4 h-4 bg-red-500 rounded mr-2"></div>
             <span className="text-sm text-gray-700">Cancelled</span>
           </div>
+          <div className="flex items-center">
+            <div className="w-4 h-4 bg-gray-200 border border-gray-300 rounded mr-2"></div>
+            <span className="text-sm text-gray-700">Closed (holiday or blackout)</span>
+          </div>
         </div>
+        {closures.length > 0 && (
+          <ul className="mt-4 space-y-1 text-sm text-gray-600">
+            {closures.map(closure => (
+              <li key={closure._id}>
+                <span className="font-medium">{moment(closure.startTime).format('MMM D')}</span>: {describeClosure(closure)}
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
 
       {/* Booking Details Modal */}
       <BookingDetailsModal
         booking={selectedBooking}
+        linkedBookings={selectedBooking ? getLinkedBookings(selectedBooking, bookings) : []}
         isOpen={isModalOpen}
         onClose={handleCloseModal}
+        onCheckedIn={(booking) => {
+          setSelectedBooking(booking);
+          fetchBookings(currentDate, currentView);
+        }}
       />
     </div>
   );
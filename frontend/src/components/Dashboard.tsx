@@ -4,6 +4,7 @@ import { useAuth } from '../contexts/AuthContext';
 import { bookingsAPI, boardroomsAPI } from '../services/api';
 import { Booking, Boardroom } from '../types';
 import MiniCalendar from './MiniCalendar';
+import MyActionItems from './MyActionItems';
 import { DashboardSkeleton } from './LoadingSkeleton';
 
 const Dashboard: React.FC = () => {
@@ -259,6 +260,9 @@ const Dashboard: React.FC = () => {
         </div>
       </div>
 
+      {/* Follow-ups from meeting minutes */}
+      <MyActionItems />
+
       {/* Quick Actions */}
       <div className="card">
         <h2 className="text-xl font-semibold text-gray-900 mb-6">Quick Actions</h2>
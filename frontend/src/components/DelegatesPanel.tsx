@@ -0,0 +1,149 @@
+import React, { useState, useEffect } from 'react';
+import { UserCheck, X } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { delegationsAPI, usersAPI } from '../services/api';
+import { MyDelegations, User } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+
+// Lets the user choose who may book, edit and cancel on their behalf, and shows who they book for
+const DelegatesPanel: React.FC = () => {
+  const { user } = useAuth();
+  const [delegations, setDelegations] = useState<MyDelegations>({ granted: [], received: [] });
+  const [users, setUsers] = useState<User[]>([]);
+  const [selectedUser, setSelectedUser] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const fetchDelegations = async () => {
+    try {
+      const data = await delegationsAPI.getMine();
+      setDelegations(data);
+    } catch (error) {
+      console.error('Error fetching delegations:', error);
+    }
+  };
+
+  useEffect(() => {
+    const fetchUsers = async () => {
+      try {
+        const data = await usersAPI.getAll();
+        setUsers(data);
+      } catch (error) {
+        console.error('Error fetching users:', error);
+      }
+    };
+    fetchDelegations();
+    fetchUsers();
+  }, []);
+
+  const delegateIds = delegations.granted.map(delegation => delegation.delegate._id);
+  const candidates = users.filter(candidate => candidate._id !== user?._id && !delegateIds.includes(candidate._id));
+
+  const handleGrant = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedUser) return;
+
+    setSaving(true);
+    try {
+      await delegationsAPI.grant(selectedUser);
+      toast.success('Delegate added');
+      setSelectedUser('');
+      await fetchDelegations();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to add delegate');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (id: string, name: string, received: boolean) => {
+    const question = received
+      ? `Stop booking on behalf of ${name}?`
+      : `Remove ${name} as your delegate? Bookings they already made stay in place.`;
+    if (!window.confirm(question)) return;
+
+    try {
+      await delegationsAPI.revoke(id);
+      toast.success('Delegation removed');
+      await fetchDelegations();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to remove delegation');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-1 flex items-center">
+        <UserCheck className="w-5 h-5 text-gray-500 mr-2" />
+        Delegates
+      </h3>
+      <p className="text-sm text-gray-500 mb-4">Delegates can book, edit and cancel meetings on your behalf.</p>
+
+      <div className="space-y-2 mb-4">
+        {delegations.granted.length === 0 ? (
+          <p className="text-sm text-gray-400">No delegates yet</p>
+        ) : (
+          delegations.granted.map(delegation => (
+            <div key={delegation._id} className="flex items-center justify-between">
+              <span className="text-sm text-gray-900" title={delegation.delegate.email}>
+                {delegation.delegate.name}
+              </span>
+              <button
+                onClick={() => handleRevoke(delegation._id, delegation.delegate.name, false)}
+                className="p-1 text-gray-400 hover:text-red-600 rounded transition-colors"
+                title="Remove delegate"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+
+      <form onSubmit={handleGrant} className="flex items-center space-x-2">
+        <select
+          value={selectedUser}
+          onChange={(e) => setSelectedUser(e.target.value)}
+          className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          <option value="">Choose a colleague...</option>
+          {candidates.map(candidate => (
+            <option key={candidate._id} value={candidate._id}>
+              {candidate.name} ({candidate.email})
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={!selectedUser || saving}
+          className="px-3 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors disabled:opacity-50"
+        >
+          Add
+        </button>
+      </form>
+
+      {delegations.received.length > 0 && (
+        <div className="pt-4 mt-4 border-t border-gray-200">
+          <p className="text-sm font-medium text-gray-700 mb-2">You can book for</p>
+          <div className="space-y-2">
+            {delegations.received.map(delegation => (
+              <div key={delegation._id} className="flex items-center justify-between">
+                <span className="text-sm text-gray-900" title={delegation.principal.email}>
+                  {delegation.principal.name}
+                </span>
+                <button
+                  onClick={() => handleRevoke(delegation._id, delegation.principal.name, true)}
+                  className="p-1 text-gray-400 hover:text-red-600 rounded transition-colors"
+                  title="Stop booking for this person"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DelegatesPanel;
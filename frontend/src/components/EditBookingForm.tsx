@@ -1,14 +1,17 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { boardroomsAPI, bookingsAPI, usersAPI } from '../services/api';
-import { Boardroom, BookingFormData, User, AttendeeOption, Booking } from '../types';
+import { Boardroom, BookingFormData, User, AttendeeOption, Booking, SeriesScope, BookingPolicy } from '../types';
 import { toast } from 'react-toastify';
 import Select from 'react-select';
+import { SERIES_SCOPE_OPTIONS } from './SeriesScopeModal';
+import { describeOperatingHours, formatDuration } from '../utils/bookingPolicy';
+import { differsFromViewer, formatClock, formatDay, getDateKey, getZoneLabel } from '../utils/timezones';
 
 interface EditBookingFormProps {
   booking: Booking;
   onCancel: () => void;
-  onUpdate: (updatedBooking: Booking) => void;
+  onUpdate: (updatedBooking: Booking, scope: SeriesScope) => void;
 }
 
 const EditBookingForm: React.FC<EditBookingFormProps> = ({ booking, onCancel, onUpdate }) => {
@@ -18,6 +21,7 @@ const EditBookingForm: React.FC<EditBookingFormProps> = ({ booking, onCancel, on
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [externalEmail, setExternalEmail] = useState('');
+  const [scope, setScope] = useState<SeriesScope>('this');
 
   // Helper function to convert UTC date to local datetime-local format
   const toLocalDateTimeString = (utcDateString: string) => {
@@ -48,6 +52,7 @@ const EditBookingForm: React.FC<EditBookingFormProps> = ({ booking, onCancel, on
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [policy, setPolicy] = useState<BookingPolicy | null>(null);
 
   useEffect(() => {
     const fetchData = async () => {
@@ -70,22 +75,24 @@ const EditBookingForm: React.FC<EditBookingFormProps> = ({ booking, onCancel, on
     fetchData();
   }, []);
 
-  // Check if time is within working hours (07:00 - 16:00)
-  const isWithinWorkingHours = (timeString: string) => {
-    if (!timeString) return false;
-    const time = new Date(timeString);
-    const hours = time.getHours();
-    return hours >= 7 && hours < 16;
-  };
+  // The selected room's booking rules; rooms can differ, so refetch when the room changes
+  useEffect(() => {
+    if (!formData.boardroom) {
+      setPolicy(null);
+      return;
+    }
 
-  // Check minimum booking duration (30 minutes)
-  const isMinimumBookingTime = (startTime: string, endTime: string) => {
-    const start = new Date(startTime);
-    const end = new Date(endTime);
-    const diffTime = Math.abs(end.getTime() - start.getTime());
-    const diffMinutes = Math.ceil(diffTime / (1000 * 60));
-    return diffMinutes >= 30;
-  };
+    const fetchPolicy = async () => {
+      try {
+        const data = await boardroomsAPI.getPolicy(formData.boardroom);
+        setPolicy(data.policy);
+      } catch (error) {
+        console.error('Error fetching booking policy:', error);
+        setPolicy(null);
+      }
+    };
+    fetchPolicy();
+  }, [formData.boardroom]);
 
   const validateForm = () => {
     const newErrors: Record<string, string> = {};
@@ -114,36 +121,10 @@ const EditBookingForm: React.FC<EditBookingFormProps> = ({ booking, onCancel, on
         newErrors.startTime = 'Start time cannot be in the past';
       }
 
-      // Check same day booking
-      if (start.toDateString() !== end.toDateString()) {
+      // Check same day booking, by the room's calendar
+      if (getDateKey(start, policy?.timezone) !== getDateKey(end, policy?.timezone)) {
         newErrors.endTime = 'Booking cannot span multiple days';
       }
-
-      // Check working hours for start time
-      if (!isWithinWorkingHours(formData.startTime)) {
-        newErrors.startTime = 'Start time must be between 07:00 and 16:00 (working hours)';
-      }
-
-      // Check working hours for end time
-      if (!isWithinWorkingHours(formData.endTime)) {
-        newErrors.endTime = 'End time must be between 07:00 and 16:00 (working hours)';
-      }
-
-      // Check if booking spans outside working hours
-      if (end.getHours() > 16 || (end.getHours() === 16 && end.getMinutes() > 0)) {
-        newErrors.endTime = 'Booking must end by 16:00 (working hours)';
-      }
-
-      // Maximum booking duration (8 hours)
-      const durationHours = (end.getTime() - start.getTime()) / (1000 * 60 * 60);
-      if (durationHours > 8) {
-        newErrors.endTime = 'Maximum booking duration is 8 hours';
-      }
-
-      // Minimum booking duration (30 minutes)
-      if (!isMinimumBookingTime(formData.startTime, formData.endTime)) {
-        newErrors.startTime = 'Booking must be at least 30 minutes long';
-      }
     }
 
     if (!formData.purpose.trim()) {
@@ -180,12 +161,13 @@ const EditBookingForm: React.FC<EditBookingFormProps> = ({ booking, onCancel, on
         attendees: {
           users: formData.attendees.filter(a => a.type === 'user').map(a => a.value),
           external: formData.attendees.filter(a => a.type === 'external').map(a => a.email!)
-        }
+        },
+        ...(booking.seriesId && { scope })
       };
       
       const updatedBooking = await bookingsAPI.update(booking._id, updateData);
-      toast.success('Booking updated successfully!');
-      onUpdate(updatedBooking);
+      toast.success(scope === 'this' ? 'Booking updated successfully!' : 'Recurring meetings updated successfully!');
+      onUpdate(updatedBooking, scope);
     } catch (error: any) {
       toast.error(error.message || 'Failed to update booking');
     } finally {
@@ -280,6 +262,33 @@ const EditBookingForm: React.FC<EditBookingFormProps> = ({ booking, onCancel, on
       <h2 className="text-2xl font-bold text-gray-900 mb-6">Edit Booking</h2>
       
       <form onSubmit={handleSubmit} className="space-y-6">
+        {/* Recurring series scope */}
+        {booking.seriesId && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+            <p className="text-sm font-medium text-blue-900 mb-2">
+              This meeting is part of a recurring series. Apply changes to:
+            </p>
+            <div className="flex flex-col sm:flex-row gap-2 sm:gap-6">
+              {SERIES_SCOPE_OPTIONS.map(option => (
+                <label key={option.value} className="flex items-center gap-2 text-sm text-blue-800">
+                  <input
+                    type="radio"
+                    name="edit-series-scope"
+                    checked={scope === option.value}
+                    onChange={() => setScope(option.value)}
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+            {scope !== 'this' && (
+              <p className="mt-2 text-xs text-blue-700">
+                Time changes shift every selected occurrence by the same amount.
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Boardroom Selection */}
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -313,6 +322,11 @@ const EditBookingForm: React.FC<EditBookingFormProps> = ({ booking, onCancel, on
             <p className="text-sm text-blue-700 mb-2">
               {getSelectedBoardroom()?.location} • Capacity: {getSelectedBoardroom()?.capacity} people
             </p>
+            {policy && (
+              <p className="text-sm text-blue-700 mb-2">
+                {describeOperatingHours(policy)} • {formatDuration(policy.minDurationMinutes)} to {formatDuration(policy.maxDurationMinutes)} in {policy.slotMinutes}-minute steps
+              </p>
+            )}
             {getSelectedBoardroom()?.amenities && getSelectedBoardroom()!.amenities.length > 0 && (
               <div className="flex flex-wrap gap-1">
                 {getSelectedBoardroom()!.amenities.map((amenity, index) => (
@@ -338,6 +352,7 @@ const EditBookingForm: React.FC<EditBookingFormProps> = ({ booking, onCancel, on
               type="datetime-local"
               value={formData.startTime}
               onChange={(e) => handleInputChange('startTime', e.target.value)}
+              step={policy ? policy.slotMinutes * 60 : undefined}
               className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
                 errors.startTime ? 'border-red-300' : 'border-gray-300'
               }`}
@@ -356,6 +371,7 @@ const EditBookingForm: React.FC<EditBookingFormProps> = ({ booking, onCancel, on
               value={formData.endTime}
               onChange={(e) => handleInputChange('endTime', e.target.value)}
               min={formData.startTime}
+              step={policy ? policy.slotMinutes * 60 : undefined}
               className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
                 errors.endTime ? 'border-red-300' : 'border-gray-300'
               }`}
@@ -365,6 +381,11 @@ const EditBookingForm: React.FC<EditBookingFormProps> = ({ booking, onCancel, on
             )}
           </div>
         </div>
+        {formData.startTime && formData.endTime && differsFromViewer(formData.startTime, policy?.timezone) && (
+          <p className="-mt-2 text-xs text-gray-500">
+            Times above are your local time. At the room that is {formatDay(formData.startTime, policy?.timezone)}, {formatClock(formData.startTime, policy?.timezone)}-{formatClock(formData.endTime, policy?.timezone)} {getZoneLabel(formData.startTime, policy?.timezone)}.
+          </p>
+        )}
 
         {/* Meeting Details */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
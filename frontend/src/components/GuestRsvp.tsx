@@ -0,0 +1,151 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { Calendar, CheckCircle, Loader, MapPin, User, XCircle } from 'lucide-react';
+import { bookingsAPI } from '../services/api';
+import { GuestInvitation, GuestRsvpResponse } from '../types';
+import { RSVP_LABELS, RSVP_STYLES } from '../utils/attendeeResponses';
+import { formatRoomRange, getRoomTimeZone } from '../utils/timezones';
+
+// Landing page for the Accept/Decline links in a guest's invitation email. The link only preselects the
+// answer; the guest confirms it here, so link scanners in mail systems do not answer for them.
+const GuestRsvp: React.FC = () => {
+  const { bookingId } = useParams<{ bookingId: string }>();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const linkResponse = searchParams.get('response');
+
+  const [invitation, setInvitation] = useState<GuestInvitation | null>(null);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'error'>('loading');
+  const [message, setMessage] = useState('');
+  const [choice, setChoice] = useState<GuestRsvpResponse | null>(
+    linkResponse === 'accepted' || linkResponse === 'declined' ? linkResponse : null
+  );
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!bookingId || !token) {
+      setMessage('This link is incomplete. Please open it again from your invitation email.');
+      setStatus('error');
+      return;
+    }
+
+    bookingsAPI.getGuestInvitation(bookingId, token)
+      .then((data: GuestInvitation) => {
+        setInvitation(data);
+        setStatus('ready');
+      })
+      .catch((error: any) => {
+        setMessage(error.message || 'This link is no longer valid');
+        setStatus('error');
+      });
+  }, [bookingId, token]);
+
+  const handleConfirm = async () => {
+    if (!bookingId || !choice) return;
+    setSubmitting(true);
+    try {
+      const result = await bookingsAPI.respondAsGuest(bookingId, token, choice);
+      setInvitation(result.invitation);
+      setMessage(result.message);
+    } catch (error: any) {
+      setMessage(error.message || 'Could not record your response');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center px-4">
+        <Loader className="h-12 w-12 text-blue-500 animate-spin" />
+      </div>
+    );
+  }
+
+  if (status === 'error' || !invitation) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center px-4">
+        <div className="card max-w-md w-full text-center">
+          <XCircle className="mx-auto h-12 w-12 text-red-500 mb-4" />
+          <h1 className="text-xl font-semibold text-gray-900 mb-2">Invitation unavailable</h1>
+          <p className="text-gray-600">{message}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { guest } = invitation;
+  const timeZone = getRoomTimeZone(invitation.boardroom);
+
+  return (
+    <div className="min-h-[60vh] flex items-center justify-center px-4">
+      <div className="card max-w-md w-full">
+        <p className="text-sm text-gray-500 mb-1">Hello {guest.name || guest.email}, you are invited to</p>
+        <h1 className="text-xl font-semibold text-gray-900 mb-4">{invitation.purpose}</h1>
+
+        <div className="space-y-3 text-sm text-gray-700 mb-6">
+          <div className="flex items-start space-x-2">
+            <Calendar className="w-4 h-4 text-gray-400 mt-0.5" />
+            <span>
+              {formatRoomRange(invitation.startTime, invitation.endTime, timeZone)}
+              {invitation.occurrences > 1 && ` and ${invitation.occurrences - 1} more in the series`}
+            </span>
+          </div>
+          <div className="flex items-start space-x-2">
+            <MapPin className="w-4 h-4 text-gray-400 mt-0.5" />
+            <span>{invitation.boardroom.name}{invitation.boardroom.location && `, ${invitation.boardroom.location}`}</span>
+          </div>
+          <div className="flex items-start space-x-2">
+            <User className="w-4 h-4 text-gray-400 mt-0.5" />
+            <span>Organized by {invitation.organizer}</span>
+          </div>
+        </div>
+
+        {guest.response && (
+          <p className="text-sm text-gray-600 mb-3">
+            Your response:{' '}
+            <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${RSVP_STYLES[guest.response]}`}>
+              {RSVP_LABELS[guest.response]}
+            </span>
+          </p>
+        )}
+
+        {message && (
+          <div className="flex items-center space-x-2 rounded-md bg-green-50 px-3 py-2 text-sm text-green-800 mb-3">
+            <CheckCircle className="w-4 h-4" />
+            <span>{message}</span>
+          </div>
+        )}
+
+        <p className="text-sm font-medium text-gray-900 mb-2">
+          {invitation.occurrences > 1 ? 'Will you attend these meetings?' : 'Will you attend?'}
+        </p>
+        <div className="flex space-x-2 mb-4">
+          {(['accepted', 'declined'] as GuestRsvpResponse[]).map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setChoice(option)}
+              className={`flex-1 px-3 py-2 rounded-md border text-sm font-medium transition-colors ${
+                choice === option ? 'border-blue-600 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {option === 'accepted' ? 'Yes, I\'ll attend' : 'No, I can\'t make it'}
+            </button>
+          ))}
+        </div>
+
+        <button
+          type="button"
+          onClick={handleConfirm}
+          disabled={!choice || submitting || choice === guest.response}
+          className="w-full px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {submitting ? 'Sending...' : 'Send response'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GuestRsvp;
@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { LogOut, User, Calendar, Building, Menu, X, Bell } from 'lucide-react';
+import { LogOut, User, Calendar, Building, Menu, X, Bell, ClipboardCheck, CalendarOff, Building2, Gauge, Coffee, ConciergeBell } from 'lucide-react';
 import { notificationsAPI } from '../services/api';
 import { Notification } from '../types';
 import { useEffect, useRef } from 'react';
@@ -124,6 +124,24 @@ const Header: React.FC = () => {
                       <Link to="/admin/bookings" className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100">
                         Manage Bookings
                       </Link>
+                      <Link to="/admin/approvals" className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100">
+                        Approvals
+                      </Link>
+                      <Link to="/admin/closures" className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100">
+                        Closures
+                      </Link>
+                      <Link to="/admin/sites" className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100">
+                        Sites
+                      </Link>
+                      <Link to="/admin/quotas" className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100">
+                        Quotas
+                      </Link>
+                      <Link to="/admin/services" className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100">
+                        Services
+                      </Link>
+                      <Link to="/admin/reception" className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100">
+                        Reception
+                      </Link>
                       <Link to="/admin/users" className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100">
                         Manage Users
                       </Link>
@@ -280,6 +298,54 @@ const Header: React.FC = () => {
                         <Calendar className="w-5 h-5" />
                         <span>Manage Bookings</span>
                       </Link>
+                      <Link
+                        to="/admin/approvals"
+                        onClick={closeMobileMenu}
+                        className="flex items-center space-x-3 text-gray-600 hover:text-primary-600 py-2 pl-4"
+                      >
+                        <ClipboardCheck className="w-5 h-5" />
+                        <span>Approvals</span>
+                      </Link>
+                      <Link
+                        to="/admin/closures"
+                        onClick={closeMobileMenu}
+                        className="flex items-center space-x-3 text-gray-600 hover:text-primary-600 py-2 pl-4"
+                      >
+                        <CalendarOff className="w-5 h-5" />
+                        <span>Closures</span>
+                      </Link>
+                      <Link
+                        to="/admin/sites"
+                        onClick={closeMobileMenu}
+                        className="flex items-center space-x-3 text-gray-600 hover:text-primary-600 py-2 pl-4"
+                      >
+                        <Building2 className="w-5 h-5" />
+                        <span>Sites</span>
+                      </Link>
+                      <Link
+                        to="/admin/quotas"
+                        onClick={closeMobileMenu}
+                        className="flex items-center space-x-3 text-gray-600 hover:text-primary-600 py-2 pl-4"
+                      >
+                        <Gauge className="w-5 h-5" />
+                        <span>Quotas</span>
+                      </Link>
+                      <Link
+                        to="/admin/services"
+                        onClick={closeMobileMenu}
+                        className="flex items-center space-x-3 text-gray-600 hover:text-primary-600 py-2 pl-4"
+                      >
+                        <Coffee className="w-5 h-5" />
+                        <span>Services</span>
+                      </Link>
+                      <Link
+                        to="/admin/reception"
+                        onClick={closeMobileMenu}
+                        className="flex items-center space-x-3 text-gray-600 hover:text-primary-600 py-2 pl-4"
+                      >
+                        <ConciergeBell className="w-5 h-5" />
+                        <span>Reception</span>
+                      </Link>
                       <Link
                         to="/admin/users"
                         onClick={closeMobileMenu}
@@ -0,0 +1,286 @@
+import React, { useState, useEffect } from 'react';
+import { X, Wrench, Trash2, AlertTriangle } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { boardroomsAPI } from '../services/api';
+import { Boardroom, MaintenanceAction, MaintenanceImpact, MaintenanceWindow } from '../types';
+
+const MAINTENANCE_ACTIONS: { value: MaintenanceAction; label: string; description: string }[] = [
+  { value: 'none', label: 'Leave as is', description: 'Keep the bookings; they will show as overlapping maintenance' },
+  { value: 'notify', label: 'Notify organizers', description: 'Tell each organizer their room is under maintenance' },
+  { value: 'move', label: 'Move to an equivalent room', description: 'Move each booking to the suggested room and notify the organizer' }
+];
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString('en-GB', {
+  day: 'numeric',
+  month: 'short',
+  hour: '2-digit',
+  minute: '2-digit'
+});
+
+interface MaintenanceModalProps {
+  boardroom: Boardroom;
+  onClose: () => void;
+  onChange: (boardroom: Boardroom) => void;
+}
+
+const MaintenanceModal: React.FC<MaintenanceModalProps> = ({ boardroom, onClose, onChange }) => {
+  const [startTime, setStartTime] = useState('');
+  const [endTime, setEndTime] = useState('');
+  const [reason, setReason] = useState('');
+  const [action, setAction] = useState<MaintenanceAction>('notify');
+  const [impact, setImpact] = useState<MaintenanceImpact[] | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // A preview only holds for the times it was run with
+  useEffect(() => {
+    setImpact(null);
+  }, [startTime, endTime]);
+
+  const upcomingWindows = (boardroom.maintenanceWindows || [])
+    .filter(window => new Date(window.endTime) > new Date())
+    .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+
+  const getRange = () => {
+    if (!startTime || !endTime) {
+      toast.error('Choose when the maintenance starts and ends');
+      return null;
+    }
+    const start = new Date(startTime);
+    const end = new Date(endTime);
+    if (end <= start) {
+      toast.error('End time must be after start time');
+      return null;
+    }
+    return { start: start.toISOString(), end: end.toISOString() };
+  };
+
+  const handlePreview = async () => {
+    const range = getRange();
+    if (!range) return;
+
+    setPreviewing(true);
+    try {
+      const data = await boardroomsAPI.previewMaintenance(boardroom._id, range.start, range.end);
+      setImpact(data.affectedBookings || []);
+    } catch (error: any) {
+      console.error('Error previewing maintenance:', error);
+      toast.error(error.message || 'Failed to check affected bookings');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const range = getRange();
+    if (!range) return;
+
+    setSaving(true);
+    try {
+      const data = await boardroomsAPI.addMaintenance(boardroom._id, {
+        startTime: range.start,
+        endTime: range.end,
+        reason: reason.trim() || undefined,
+        action
+      });
+      const results: { outcome: string }[] = data.results || [];
+      const moved = results.filter(result => result.outcome === 'moved').length;
+      const notified = results.filter(result => result.outcome === 'notified').length;
+
+      if (moved > 0 || notified > 0) {
+        toast.success(`Maintenance scheduled: ${moved} booking(s) moved, ${notified} organizer(s) notified`);
+      } else if (results.length > 0) {
+        toast.warning(`Maintenance scheduled; ${results.length} booking(s) still overlap it`);
+      } else {
+        toast.success('Maintenance scheduled');
+      }
+
+      onChange(data.boardroom);
+      setStartTime('');
+      setEndTime('');
+      setReason('');
+    } catch (error: any) {
+      console.error('Error scheduling maintenance:', error);
+      toast.error(error.message || 'Failed to schedule maintenance');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (window: MaintenanceWindow) => {
+    if (!confirm('Remove this maintenance window? The room becomes bookable again for that time.')) {
+      return;
+    }
+
+    try {
+      const updated = await boardroomsAPI.removeMaintenance(boardroom._id, window._id);
+      toast.success('Maintenance window removed');
+      onChange(updated);
+    } catch (error: any) {
+      console.error('Error removing maintenance:', error);
+      toast.error(error.message || 'Failed to remove maintenance window');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center">
+            <Wrench className="w-5 h-5 text-gray-500 mr-2" />
+            <h2 className="text-lg font-semibold text-gray-900">Maintenance: {boardroom.name}</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition-colors" disabled={saving}>
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 mb-2">Scheduled Maintenance</h3>
+            {upcomingWindows.length === 0 ? (
+              <p className="text-sm text-gray-500">No upcoming maintenance for this room.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                {upcomingWindows.map(window => (
+                  <li key={window._id} className="flex items-center justify-between px-4 py-2">
+                    <div>
+                      <p className="text-sm text-gray-900">
+                        {formatDateTime(window.startTime)} - {formatDateTime(window.endTime)}
+                      </p>
+                      {window.reason && <p className="text-xs text-gray-500">{window.reason}</p>}
+                    </div>
+                    <button
+                      onClick={() => handleRemove(window)}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-md transition-colors"
+                      title="Remove maintenance window"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            <h3 className="text-sm font-medium text-gray-900">Schedule Maintenance</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">From *</label>
+                <input
+                  type="datetime-local"
+                  value={startTime}
+                  onChange={(e) => setStartTime(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Until *</label>
+                <input
+                  type="datetime-local"
+                  value={endTime}
+                  min={startTime}
+                  onChange={(e) => setEndTime(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Reason</label>
+              <input
+                type="text"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g., Projector replacement, carpet cleaning"
+                maxLength={200}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+
+            <button
+              type="button"
+              onClick={handlePreview}
+              disabled={previewing || saving}
+              className="px-4 py-2 text-sm font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 rounded-md transition-colors disabled:opacity-50"
+            >
+              {previewing ? 'Checking...' : 'Preview Impact'}
+            </button>
+
+            {impact && (
+              impact.length === 0 ? (
+                <p className="text-sm text-green-700">No existing bookings fall in this window.</p>
+              ) : (
+                <div className="border border-yellow-200 bg-yellow-50 rounded-md p-4">
+                  <div className="flex items-center mb-2">
+                    <AlertTriangle className="w-4 h-4 text-yellow-600 mr-2" />
+                    <p className="text-sm font-medium text-yellow-800">
+                      {impact.length} booking{impact.length === 1 ? '' : 's'} affected
+                    </p>
+                  </div>
+                  <ul className="space-y-2">
+                    {impact.map(({ booking, suggestedRoom }) => (
+                      <li key={booking._id} className="text-sm text-gray-700">
+                        <span className="font-medium">{booking.purpose}</span>
+                        {' '}({formatDateTime(booking.startTime)} - {formatDateTime(booking.endTime)}, {booking.user.name})
+                        <span className="block text-xs text-gray-500">
+                          {suggestedRoom
+                            ? `Can move to ${suggestedRoom.name} (${suggestedRoom.location}, ${suggestedRoom.capacity} people)`
+                            : 'No equivalent room is free; the organizer will be notified instead'}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Existing Bookings</label>
+              <div className="space-y-2">
+                {MAINTENANCE_ACTIONS.map(option => (
+                  <label key={option.value} className="flex items-start space-x-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="maintenance-action"
+                      value={option.value}
+                      checked={action === option.value}
+                      onChange={() => setAction(option.value)}
+                      className="mt-1 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span>
+                      <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                      <span className="block text-xs text-gray-500">{option.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end space-x-3 px-6 py-4 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors disabled:opacity-50"
+          >
+            Close
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Schedule Maintenance'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MaintenanceModal;
@@ -0,0 +1,335 @@
+import React, { useState, useEffect } from 'react';
+import { ClipboardList, ListChecks, Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { ActionItem, ActionItemRequest, AgendaItem, Booking } from '../types';
+import { bookingsAPI } from '../services/api';
+import { formatDueDate, getAgendaMinutes, isOverdue, toDateInput } from '../utils/meetingNotes';
+
+interface MeetingNotesProps {
+  booking: Booking;
+  canEdit: boolean; // Anyone on the booking, the organizer's delegates and admins
+}
+
+const inputClass = 'px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const toActionItemRequest = (item: ActionItem): ActionItemRequest => ({
+  _id: item._id,
+  description: item.description,
+  owner: item.owner,
+  dueDate: toDateInput(item.dueDate),
+  completed: Boolean(item.completedAt)
+});
+
+// Agenda before the meeting; minutes and action items once it has started
+const MeetingNotes: React.FC<MeetingNotesProps> = ({ booking, canEdit }) => {
+  const [agenda, setAgenda] = useState<AgendaItem[]>(booking.agenda || []);
+  const [minutesNotes, setMinutesNotes] = useState(booking.minutes?.notes || '');
+  const [actionItems, setActionItems] = useState<ActionItem[]>(booking.actionItems || []);
+  const [agendaDraft, setAgendaDraft] = useState<AgendaItem[] | null>(null);
+  const [minutesDraft, setMinutesDraft] = useState<{ notes: string; actionItems: ActionItemRequest[] } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setAgenda(booking.agenda || []);
+    setMinutesNotes(booking.minutes?.notes || '');
+    setActionItems(booking.actionItems || []);
+    setAgendaDraft(null);
+    setMinutesDraft(null);
+  }, [booking._id, booking.agenda, booking.minutes, booking.actionItems]);
+
+  const isActive = ['pending', 'confirmed'].includes(booking.status);
+  const hasStarted = new Date(booking.startTime) <= new Date();
+  // The organizer first, then everyone else on the booking
+  const people = [booking.user, ...(booking.attendees || []).filter(attendee => attendee._id !== booking.user._id)];
+  const getPersonName = (userId: string) => people.find(person => person._id === userId)?.name || 'Former attendee';
+  const agendaMinutes = getAgendaMinutes(agenda);
+
+  const handleSaveAgenda = async () => {
+    if (!agendaDraft) return;
+    setSaving(true);
+    try {
+      const result = await bookingsAPI.saveAgenda(booking._id, agendaDraft.filter(item => item.title.trim()));
+      setAgenda(result.agenda);
+      setAgendaDraft(null);
+      toast.success(result.message);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save the agenda');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveMinutes = async () => {
+    if (!minutesDraft) return;
+    setSaving(true);
+    try {
+      const items = minutesDraft.actionItems
+        .filter(item => item.description.trim())
+        .map(item => ({ ...item, dueDate: item.dueDate || undefined }));
+      const result = await bookingsAPI.saveMinutes(booking._id, minutesDraft.notes, items);
+      setMinutesNotes(result.minutes?.notes || '');
+      setActionItems(result.actionItems);
+      setMinutesDraft(null);
+      toast.success(result.message);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save the minutes');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateAgendaItem = (index: number, changes: Partial<AgendaItem>) => {
+    setAgendaDraft(prev => prev && prev.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const updateActionItem = (index: number, changes: Partial<ActionItemRequest>) => {
+    setMinutesDraft(prev => prev && {
+      ...prev,
+      actionItems: prev.actionItems.map((item, i) => (i === index ? { ...item, ...changes } : item))
+    });
+  };
+
+  const showAgenda = agenda.length > 0 || (canEdit && isActive);
+  const showMinutes = minutesNotes || actionItems.length > 0 || (canEdit && isActive && hasStarted);
+  if (!showAgenda && !showMinutes) return null;
+
+  return (
+    <>
+      {showAgenda && (
+        <div className="flex items-start space-x-3">
+          <ClipboardList className="w-5 h-5 text-gray-400 mt-0.5" />
+          <div className="flex-1">
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="font-medium text-gray-900">
+                Agenda
+                {agendaMinutes !== null && <span className="ml-2 text-sm font-normal text-gray-500">{agendaMinutes} min</span>}
+              </h4>
+              {canEdit && isActive && !agendaDraft && (
+                <button
+                  onClick={() => setAgendaDraft(agenda.length > 0 ? agenda : [{ title: '' }])}
+                  className="flex items-center space-x-1 text-sm font-medium text-blue-600 hover:text-blue-800"
+                >
+                  <Pencil className="w-4 h-4" />
+                  <span>{agenda.length > 0 ? 'Edit' : 'Add agenda'}</span>
+                </button>
+              )}
+            </div>
+
+            {agendaDraft ? (
+              <div className="space-y-2">
+                {agendaDraft.map((item, index) => (
+                  <div key={index} className="flex items-start gap-2">
+                    <span className="w-5 pt-2 text-sm text-gray-400">{index + 1}.</span>
+                    <div className="flex-1 space-y-1">
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          value={item.title}
+                          onChange={(e) => updateAgendaItem(index, { title: e.target.value })}
+                          placeholder="Topic"
+                          maxLength={200}
+                          className={`${inputClass} flex-1`}
+                        />
+                        <input
+                          type="number"
+                          min={1}
+                          max={480}
+                          value={item.durationMinutes || ''}
+                          onChange={(e) => updateAgendaItem(index, { durationMinutes: e.target.value ? Number(e.target.value) : undefined })}
+                          placeholder="Min"
+                          className={`${inputClass} w-20`}
+                          title="Minutes"
+                        />
+                      </div>
+                      <input
+                        type="text"
+                        value={item.notes || ''}
+                        onChange={(e) => updateAgendaItem(index, { notes: e.target.value })}
+                        placeholder="Notes (optional)"
+                        maxLength={1000}
+                        className={`${inputClass} w-full`}
+                      />
+                    </div>
+                    <button
+                      onClick={() => setAgendaDraft(agendaDraft.filter((_, i) => i !== index))}
+                      className="p-1.5 text-gray-500 hover:text-red-600 rounded transition-colors"
+                      title="Remove"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                <div className="flex items-center justify-between">
+                  <button
+                    onClick={() => setAgendaDraft([...agendaDraft, { title: '' }])}
+                    className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    <Plus className="w-4 h-4" />
+                    <span>Add topic</span>
+                  </button>
+                  <div className="space-x-2">
+                    <button onClick={() => setAgendaDraft(null)} className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800">
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleSaveAgenda}
+                      disabled={saving}
+                      className="px-3 py-1.5 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      {saving ? 'Saving...' : 'Save agenda'}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ) : agenda.length === 0 ? (
+              <p className="text-sm text-gray-500">Set out the topics so everyone comes prepared.</p>
+            ) : (
+              <ol className="space-y-1">
+                {agenda.map((item, index) => (
+                  <li key={item._id || index} className="rounded-md bg-gray-50 px-3 py-2">
+                    <div className="flex items-center justify-between">
+                      <p className="text-sm font-medium text-gray-900">{index + 1}. {item.title}</p>
+                      {item.durationMinutes && <span className="text-xs text-gray-500">{item.durationMinutes} min</span>}
+                    </div>
+                    {item.notes && <p className="text-xs text-gray-600 mt-0.5">{item.notes}</p>}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        </div>
+      )}
+
+      {showMinutes && (
+        <div className="flex items-start space-x-3">
+          <ListChecks className="w-5 h-5 text-gray-400 mt-0.5" />
+          <div className="flex-1">
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="font-medium text-gray-900">Minutes & Action Items</h4>
+              {canEdit && isActive && hasStarted && !minutesDraft && (
+                <button
+                  onClick={() => setMinutesDraft({ notes: minutesNotes, actionItems: actionItems.map(toActionItemRequest) })}
+                  className="flex items-center space-x-1 text-sm font-medium text-blue-600 hover:text-blue-800"
+                >
+                  <Pencil className="w-4 h-4" />
+                  <span>{minutesNotes || actionItems.length > 0 ? 'Edit' : 'Take minutes'}</span>
+                </button>
+              )}
+            </div>
+
+            {minutesDraft ? (
+              <div className="space-y-3">
+                <textarea
+                  value={minutesDraft.notes}
+                  onChange={(e) => setMinutesDraft({ ...minutesDraft, notes: e.target.value })}
+                  rows={5}
+                  maxLength={20000}
+                  placeholder="Discussion and decisions"
+                  className={`${inputClass} w-full`}
+                />
+                <div className="space-y-2">
+                  <h5 className="text-sm font-medium text-gray-700">Action items</h5>
+                  {minutesDraft.actionItems.map((item, index) => (
+                    <div key={item._id || `new-${index}`} className="flex flex-wrap items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={Boolean(item.completed)}
+                        onChange={(e) => updateActionItem(index, { completed: e.target.checked })}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                        title="Done"
+                      />
+                      <input
+                        type="text"
+                        value={item.description}
+                        onChange={(e) => updateActionItem(index, { description: e.target.value })}
+                        placeholder="What needs doing"
+                        maxLength={300}
+                        className={`${inputClass} flex-1 min-w-[10rem]`}
+                      />
+                      <select
+                        value={item.owner}
+                        onChange={(e) => updateActionItem(index, { owner: e.target.value })}
+                        className={inputClass}
+                        title="Owner"
+                      >
+                        {!people.some(person => person._id === item.owner) && (
+                          <option value={item.owner} disabled>{getPersonName(item.owner)}</option>
+                        )}
+                        {people.map(person => (
+                          <option key={person._id} value={person._id}>{person.name}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="date"
+                        value={item.dueDate || ''}
+                        onChange={(e) => updateActionItem(index, { dueDate: e.target.value })}
+                        className={inputClass}
+                        title="Due date"
+                      />
+                      <button
+                        onClick={() => setMinutesDraft({ ...minutesDraft, actionItems: minutesDraft.actionItems.filter((_, i) => i !== index) })}
+                        className="p-1.5 text-gray-500 hover:text-red-600 rounded transition-colors"
+                        title="Remove"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => setMinutesDraft({
+                      ...minutesDraft,
+                      actionItems: [...minutesDraft.actionItems, { description: '', owner: booking.user._id, dueDate: '' }]
+                    })}
+                    className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    <Plus className="w-4 h-4" />
+                    <span>Add action item</span>
+                  </button>
+                </div>
+                <div className="flex justify-end space-x-2">
+                  <button onClick={() => setMinutesDraft(null)} className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800">
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleSaveMinutes}
+                    disabled={saving}
+                    className="px-3 py-1.5 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {saving ? 'Saving...' : 'Save minutes'}
+                  </button>
+                </div>
+              </div>
+            ) : !minutesNotes && actionItems.length === 0 ? (
+              <p className="text-sm text-gray-500">Record what was decided and who is following up.</p>
+            ) : (
+              <div className="space-y-3">
+                {minutesNotes && <p className="text-sm text-gray-700 whitespace-pre-wrap">{minutesNotes}</p>}
+                {actionItems.length > 0 && (
+                  <ul className="space-y-1">
+                    {actionItems.map(item => (
+                      <li key={item._id} className="flex items-center justify-between rounded-md bg-gray-50 px-3 py-2">
+                        <div className="min-w-0">
+                          <p className={`text-sm font-medium ${item.completedAt ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+                            {item.description}
+                          </p>
+                          <p className="text-xs text-gray-500">{getPersonName(item.owner)}</p>
+                        </div>
+                        {item.dueDate && (
+                          <span className={`ml-2 text-xs ${isOverdue(item) ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                            Due {formatDueDate(item.dueDate)}
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default MeetingNotes;
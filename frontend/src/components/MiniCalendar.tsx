@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { ChevronLeft, ChevronRight } from 'lucide-react';
-import { bookingsAPI } from '../services/api';
-import { Booking } from '../types';
+import { bookingsAPI, closuresAPI } from '../services/api';
+import { Booking, Closure } from '../types';
+import { getClosuresForDate, coversWholeDay, describeClosure } from '../utils/closures';
 
 interface MiniCalendarProps {
   onDateClick?: (date: Date) => void;
@@ -11,6 +12,7 @@ interface MiniCalendarProps {
 const MiniCalendar: React.FC<MiniCalendarProps> = ({ onDateClick, className = '' }) => {
   const [currentDate, setCurrentDate] = useState(new Date());
   const [bookingsData, setBookingsData] = useState<Booking[]>([]);
+  const [closures, setClosures] = useState<Closure[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -19,11 +21,12 @@ const MiniCalendar: React.FC<MiniCalendarProps> = ({ onDateClick, className = ''
         const startOfMonth = new Date(currentDate.getFullYear(), currentDate.getMonth(), 1);
         const endOfMonth = new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0);
         
-        const bookings = await bookingsAPI.getCalendarBookings(
-          startOfMonth.toISOString(),
-          endOfMonth.toISOString()
-        );
+        const [bookings, closureData] = await Promise.all([
+          bookingsAPI.getCalendarBookings(startOfMonth.toISOString(), endOfMonth.toISOString()),
+          closuresAPI.getAll(startOfMonth.toISOString(), new Date(endOfMonth.getTime() + 24 * 60 * 60 * 1000).toISOString())
+        ]);
         setBookingsData(bookings);
+        setClosures(closureData);
       } catch (error) {
         console.error('Error fetching bookings for mini calendar:', error);
       } finally {
@@ -138,15 +141,19 @@ const MiniCalendar: React.FC<MiniCalendarProps> = ({ onDateClick, className = ''
           const bookings = getBookingsForDate(date);
           const hasBookings = bookings.length > 0;
           const confirmedBookings = bookings.filter(b => b.status === 'confirmed').length;
+          const dayClosures = date ? getClosuresForDate(closures, date) : [];
+          const closedAllDay = date ? dayClosures.some(closure => coversWholeDay(closure, date)) : false;
           
           return (
             <div
               key={index}
               onClick={() => handleDateClick(date)}
+              title={dayClosures.length > 0 ? dayClosures.map(describeClosure).join('\n') : undefined}
               className={`
                 relative h-8 flex items-center justify-center text-sm cursor-pointer rounded transition-colors
                 ${date ? 'hover:bg-gray-100' : ''}
                 ${isToday(date) ? 'bg-blue-100 text-blue-900 font-semibold' : ''}
+                ${!isToday(date) && dayClosures.length > 0 ? (closedAllDay ? 'bg-gray-200' : 'bg-gray-100') : ''}
                 ${date && !isCurrentMonth(date) ? 'text-gray-300' : 'text-gray-700'}
                 ${date && isCurrentMonth(date) && !isToday(date) ? 'hover:bg-gray-50' : ''}
               `}
@@ -183,6 +190,10 @@ const MiniCalendar: React.FC<MiniCalendarProps> = ({ onDateClick, className = ''
               <div className="w-2 h-2 bg-red-500 rounded-full"></div>
               <span>Cancelled</span>
             </div>
+            <div className="flex items-center space-x-1">
+              <div className="w-2 h-2 bg-gray-300 rounded-sm"></div>
+              <span>Closed</span>
+            </div>
           </div>
         </div>
         {loading && (
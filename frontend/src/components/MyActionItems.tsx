@@ -0,0 +1,78 @@
+import React, { useState, useEffect } from 'react';
+import { ListChecks } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { bookingsAPI } from '../services/api';
+import { MyActionItem } from '../types';
+import { formatDueDate, isOverdue } from '../utils/meetingNotes';
+import { formatDay, getRoomTimeZone } from '../utils/timezones';
+
+// Action items from meeting minutes that the signed-in user owns; ticking one off saves straight away
+const MyActionItems: React.FC = () => {
+  const [items, setItems] = useState<MyActionItem[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    bookingsAPI.getMyActionItems()
+      .then(data => setItems(Array.isArray(data) ? data : []))
+      .catch(error => console.error('Error fetching action items:', error));
+  }, []);
+
+  const handleToggle = async (item: MyActionItem) => {
+    setBusyId(item._id);
+    try {
+      const result = await bookingsAPI.updateActionItem(item.booking._id, item._id, !item.completedAt);
+      setItems(prev => prev.map(existing => (
+        existing._id === item._id ? { ...existing, completedAt: result.actionItem.completedAt } : existing
+      )));
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update the action item');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (items.length === 0) return null;
+
+  const openCount = items.filter(item => !item.completedAt).length;
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+          <ListChecks className="w-5 h-5 text-blue-600 mr-2" />
+          My Action Items
+        </h2>
+        <span className="text-sm text-gray-500">{openCount} open</span>
+      </div>
+      <ul className="space-y-2">
+        {items.map(item => (
+          <li key={item._id} className="flex items-start space-x-3 p-3 rounded-lg bg-gray-50">
+            <input
+              type="checkbox"
+              checked={Boolean(item.completedAt)}
+              onChange={() => handleToggle(item)}
+              disabled={busyId === item._id}
+              className="mt-0.5 h-4 w-4 text-blue-600 border-gray-300 rounded"
+              title={item.completedAt ? 'Reopen' : 'Mark as done'}
+            />
+            <div className="flex-1 min-w-0">
+              <p className={`text-sm font-medium ${item.completedAt ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+                {item.description}
+              </p>
+              <p className="text-xs text-gray-500 truncate">
+                {item.booking.purpose} · {item.booking.boardroom?.name} · {formatDay(item.booking.startTime, getRoomTimeZone(item.booking.boardroom))}
+              </p>
+            </div>
+            {item.dueDate && (
+              <span className={`text-xs whitespace-nowrap ${isOverdue(item) ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                Due {formatDueDate(item.dueDate)}
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default MyActionItems;
@@ -1,10 +1,19 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate, useLocation, useSearchParams } from 'react-router-dom';
-import { bookingsAPI } from '../services/api';
-import { Booking } from '../types';
+import { bookingsAPI, delegationsAPI } from '../services/api';
+import { Booking, MyDelegations, SeriesScope } from '../types';
 import { useAuth } from '../contexts/AuthContext';
 import EditBookingForm from './EditBookingForm';
+import BookingQuickActions from './BookingQuickActions';
+import SeriesScopeModal from './SeriesScopeModal';
+import SaveTemplateModal from './SaveTemplateModal';
+import TransferBookingModal from './TransferBookingModal';
+import TransferRequestsPanel from './TransferRequestsPanel';
+import WaitlistPanel from './WaitlistPanel';
 import { logger } from '../utils/logger';
+import { isAdjustable, isCheckInOpen } from '../utils/checkIn';
+import { formatRoomRange, getRoomTimeZone, getSiteName } from '../utils/timezones';
+import { collapseRoomGroups, getLinkedBookings } from '../utils/roomGroups';
 
 const MyBookings: React.FC = () => {
   const navigate = useNavigate();
@@ -16,9 +25,28 @@ const MyBookings: React.FC = () => {
   const [refreshing, setRefreshing] = useState(false);
   const [isFetching, setIsFetching] = useState(false);
   const [previousBookingCount, setPreviousBookingCount] = useState(0);
+  const [cancellingSeriesBooking, setCancellingSeriesBooking] = useState<Booking | null>(null);
+  const [cancellingSeries, setCancellingSeries] = useState(false);
+  const [principalIds, setPrincipalIds] = useState<string[]>([]);
+  const [transferringBooking, setTransferringBooking] = useState<Booking | null>(null);
+  const [transferRequests, setTransferRequests] = useState(0);
+  const [templateBooking, setTemplateBooking] = useState<Booking | null>(null);
 
   const { user } = useAuth();
 
+  // Delegates also see and manage the bookings of the people they book for
+  useEffect(() => {
+    const fetchPrincipals = async () => {
+      try {
+        const data: MyDelegations = await delegationsAPI.getMine();
+        setPrincipalIds(data.received.map(delegation => delegation.principal._id));
+      } catch (error) {
+        console.error('Error fetching delegations:', error);
+      }
+    };
+    fetchPrincipals();
+  }, []);
+
   const fetchBookings = async (showRefreshIndicator = false, isFromNavigation = false, retryCount = 0) => {
     // Prevent concurrent fetch operations
     if (isFetching) {
@@ -162,7 +190,10 @@ const MyBookings: React.FC = () => {
 
   // Fixed cancel booking function to use the correct API method
   const handleCancelBooking = async (bookingId: string) => {
-    if (!confirm('Are you sure you want to cancel this booking?')) {
+    const linked = bookings.find(booking => booking._id === bookingId)?.roomGroupId;
+    if (!confirm(linked
+      ? 'Are you sure you want to cancel this booking? All of its linked rooms will be cancelled too.'
+      : 'Are you sure you want to cancel this booking?')) {
       return;
     }
 
@@ -178,6 +209,23 @@ const MyBookings: React.FC = () => {
     }
   };
 
+  const handleCancelSeriesBooking = async (scope: SeriesScope) => {
+    if (!cancellingSeriesBooking) return;
+
+    setCancellingSeries(true);
+    try {
+      const result = await bookingsAPI.cancel(cancellingSeriesBooking._id, scope);
+      const updatedBookings = await bookingsAPI.getMyBookings();
+      setBookings(updatedBookings);
+      setCancellingSeriesBooking(null);
+      alert(result.message || 'Booking cancelled successfully!');
+    } catch (error: any) {
+      alert(error.message || 'Failed to cancel booking');
+    } finally {
+      setCancellingSeries(false);
+    }
+  };
+
   const handleOptOut = async (bookingId: string) => {
     if (!window.confirm('Are you sure you want to opt out of this meeting?')) return;
     try {
@@ -191,6 +239,15 @@ const MyBookings: React.FC = () => {
     }
   };
 
+  const handleCheckIn = async (booking: Booking) => {
+    try {
+      const result = await bookingsAPI.checkIn(booking._id);
+      setBookings(prev => prev.map(item => item._id === booking._id ? result.booking : item));
+    } catch (error: any) {
+      alert(error.message || 'Failed to check in');
+    }
+  };
+
   const handleEditBooking = (booking: Booking) => {
     setEditingBooking(booking);
   };
@@ -199,7 +256,14 @@ const MyBookings: React.FC = () => {
     setEditingBooking(null);
   };
 
-  const handleUpdateBooking = async (updatedBooking: Booking) => {
+  const handleUpdateBooking = async (updatedBooking: Booking, scope: SeriesScope = 'this') => {
+    // Series-wide edits touch other occurrences, so reload them all
+    if (scope !== 'this') {
+      setEditingBooking(null);
+      await fetchBookings(true);
+      return;
+    }
+
     // Update the booking in the local state
     const updatedBookings = bookings.map(booking => 
       booking._id === updatedBooking._id ? updatedBooking : booking
@@ -208,21 +272,13 @@ const MyBookings: React.FC = () => {
     setEditingBooking(null);
   };
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      weekday: 'short',
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
-      hour12: false
-    });
-  };
-
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'confirmed': return 'bg-green-100 text-green-800';
+      case 'pending': return 'bg-yellow-100 text-yellow-800';
       case 'cancelled': return 'bg-red-100 text-red-800';
+      case 'rejected': return 'bg-red-100 text-red-800';
+      case 'no_show': return 'bg-orange-100 text-orange-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -253,16 +309,25 @@ const MyBookings: React.FC = () => {
     return booking.user._id === user?._id;
   };
 
+  const canManageBooking = (booking: Booking) => {
+    return isUserCreator(booking) || principalIds.includes(booking.user._id);
+  };
+
   const isUserAttendee = (booking: Booking) => {
     return booking.attendees && 
            Array.isArray(booking.attendees) && 
            booking.attendees.some(attendee => attendee._id === user?._id);
   };
 
+  // Pending bookings still hold their slot, so the organizer can edit or withdraw them
+  const isBookingActive = (booking: Booking) => {
+    return booking.status === 'confirmed' || booking.status === 'pending';
+  };
+
   const shouldShowCancelButton = (booking: Booking) => {
-    return booking.status === 'confirmed' && 
+    return isBookingActive(booking) && 
            !isBookingPast(booking.startTime) && 
-           isUserCreator(booking);
+           canManageBooking(booking);
   };
 
   const shouldShowOptOutButton = (booking: Booking) => {
@@ -322,6 +387,11 @@ const MyBookings: React.FC = () => {
         </div>
       </div>
 
+      {/* Waitlist entries and open offers */}
+      <WaitlistPanel onClaimed={() => fetchBookings(true)} />
+
+      <TransferRequestsPanel key={transferRequests} onAccepted={() => fetchBookings(true)} />
+
       {/* Bookings List */}
       <div className="card">
         <div className="flex items-center justify-between mb-6">
@@ -351,7 +421,7 @@ const MyBookings: React.FC = () => {
           </div>
         ) : (
           <div className="space-y-4">
-            {bookings.map((booking) => (
+            {collapseRoomGroups(bookings).map((booking) => (
               <div key={booking._id} className={`border rounded-lg p-6 transition-all duration-300 ${
                 isBookingRecentlyModified(booking) 
                   ? 'border-orange-300 bg-orange-50 shadow-md ring-2 ring-orange-200' 
@@ -364,8 +434,13 @@ const MyBookings: React.FC = () => {
                         {booking.purpose}
                       </h3>
                       <span className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(booking.status)}`}>
-                        {booking.status}
+                        {booking.status === 'pending' ? 'awaiting approval' : booking.status === 'no_show' ? 'released (no-show)' : booking.status}
                       </span>
+                      {booking.checkedInAt && (
+                        <span className="px-2 py-1 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                          Checked in
+                        </span>
+                      )}
                       {isBookingUpcoming(booking.startTime) && (
                         <span className="px-2 py-1 text-xs font-medium rounded-full bg-blue-100 text-blue-800">
                           Upcoming
@@ -376,12 +451,38 @@ const MyBookings: React.FC = () => {
                           Complete
                         </span>
                       )}
+                      {booking.seriesId && (
+                        <span className="px-2 py-1 text-xs font-medium rounded-full bg-indigo-100 text-indigo-800">
+                          Recurring
+                        </span>
+                      )}
+                      {booking.roomGroupId && (
+                        <span className="px-2 py-1 text-xs font-medium rounded-full bg-indigo-100 text-indigo-800">
+                          Linked rooms
+                        </span>
+                      )}
                       {/* Add indicator to show user's role */}
                       {isUserCreator(booking) && (
                         <span className="px-2 py-1 text-xs font-medium rounded-full bg-purple-100 text-purple-800">
                           Created by you
                         </span>
                       )}
+                      {/* Delegated bookings name both the organizer and who made the booking */}
+                      {booking.bookedBy && booking.bookedBy._id === user?._id && !isUserCreator(booking) && (
+                        <span className="px-2 py-1 text-xs font-medium rounded-full bg-purple-100 text-purple-800">
+                          Booked by you for {booking.user.name}
+                        </span>
+                      )}
+                      {booking.bookedBy && booking.bookedBy._id !== user?._id && (
+                        <span className="px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-800">
+                          Booked by {booking.bookedBy.name}{isUserCreator(booking) ? ' for you' : ''}
+                        </span>
+                      )}
+                      {!booking.bookedBy && !isUserCreator(booking) && !isUserAttendee(booking) && (
+                        <span className="px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-800">
+                          {booking.user.name}'s booking
+                        </span>
+                      )}
                       {/* Show "Added by" tag when user is attendee but not creator */}
                       {isUserAttendee(booking) && !isUserCreator(booking) && (
                         <span className="px-2 py-1 text-xs font-medium rounded-full bg-blue-100 text-blue-800">
@@ -397,11 +498,23 @@ const MyBookings: React.FC = () => {
                     </div>
                     
                     <p className="text-sm text-gray-600 mb-2">
-                      <span className="font-medium">{booking.boardroom.name}</span> • {booking.boardroom.location}
+                      <span className="font-medium">{booking.boardroom.name}</span>
+                      {getSiteName(booking.boardroom) && <> • {getSiteName(booking.boardroom)}</>} • {booking.boardroom.location}
                     </p>
+                    {getLinkedBookings(booking, bookings).length > 0 && (
+                      <p className="text-sm text-gray-600 mb-2">
+                        Linked with {getLinkedBookings(booking, bookings).map(linked => linked.boardroom.name).join(', ')}
+                      </p>
+                    )}
+
+                    {booking.status === 'rejected' && booking.rejectionReason && (
+                      <p className="text-sm text-red-700 bg-red-50 rounded-md px-3 py-2 mb-2">
+                        Rejected: {booking.rejectionReason}
+                      </p>
+                    )}
                     
                     <p className="text-sm text-gray-600 mb-2">
-                      {formatDate(booking.startTime)} - {formatDate(booking.endTime)}
+                      {formatRoomRange(booking.startTime, booking.endTime, getRoomTimeZone(booking.boardroom))}
                     </p>
                     
                     <p className="text-sm text-gray-600 mb-2">
@@ -436,8 +549,17 @@ const MyBookings: React.FC = () => {
                   
                   {/* Action Buttons - Improved logic */}    
                   <div className="flex items-center space-x-2">
-                    {/* Show Edit if user is the creator and booking is confirmed and not in the past */}
-                    {isUserCreator(booking) && booking.status === 'confirmed' && !isBookingPast(booking.startTime) && (
+                    {/* Check-in is open to the organizer and attendees around the start time */}
+                    {isCheckInOpen(booking) && (
+                      <button
+                        onClick={() => handleCheckIn(booking)}
+                        className="px-4 py-2 bg-green-600 text-white text-sm font-medium rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent transition-colors"
+                      >
+                        Check In
+                      </button>
+                    )}
+                    {/* Show Edit if user is the creator (or their delegate) and booking is active and not in the past */}
+                    {canManageBooking(booking) && isBookingActive(booking) && !isBookingPast(booking.startTime) && (
                       <button
                         onClick={() => handleEditBooking(booking)}
                         className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
@@ -448,12 +570,23 @@ const MyBookings: React.FC = () => {
                     {/* Show Cancel if user is the creator */}
                     {shouldShowCancelButton(booking) && (
                       <button
-                        onClick={() => handleCancelBooking(booking._id)}
+                        onClick={() => booking.seriesId
+                          ? setCancellingSeriesBooking(booking)
+                          : handleCancelBooking(booking._id)}
                         className="px-4 py-2 bg-red-600 text-white text-sm font-medium rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent transition-colors"
                       >
                         Cancel Booking
                       </button>
                     )}
+                    {/* Hand the booking over to another organizer */}
+                    {shouldShowCancelButton(booking) && (
+                      <button
+                        onClick={() => setTransferringBooking(booking)}
+                        className="px-4 py-2 bg-gray-100 text-gray-700 text-sm font-medium rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:border-transparent transition-colors"
+                      >
+                        Transfer
+                      </button>
+                    )}
                     
                     {/* Show Opt Out if user is attendee but not creator */}
                     {shouldShowOptOutButton(booking) && (
@@ -467,6 +600,32 @@ const MyBookings: React.FC = () => {
                   </div>
                 </div>
 
+                {/* Reuse this booking's room, people and notes */}
+                <div className="flex items-center space-x-4 text-sm mb-4">
+                  <button
+                    onClick={() => navigate('/book', { state: { bookAgain: booking } })}
+                    className="font-medium text-blue-600 hover:text-blue-800"
+                  >
+                    Book again
+                  </button>
+                  <button
+                    onClick={() => setTemplateBooking(booking)}
+                    className="font-medium text-gray-600 hover:text-gray-800"
+                  >
+                    Save as template
+                  </button>
+                </div>
+
+                {/* Extend or end a meeting that is under way or about to start */}
+                {canManageBooking(booking) && isAdjustable(booking) && (
+                  <div className="border-t border-gray-100 py-3">
+                    <BookingQuickActions
+                      booking={booking}
+                      onAdjusted={(adjusted) => setBookings(prev => prev.map(item => item._id === adjusted._id ? adjusted : item))}
+                    />
+                  </div>
+                )}
+
                 {/* Amenities */}
                 {booking.boardroom.amenities && booking.boardroom.amenities.length > 0 && (
                   <div className="border-t border-gray-100 pt-4">
@@ -501,6 +660,27 @@ const MyBookings: React.FC = () => {
           </div>
         </div>
       )}
+
+      {/* Scope picker for cancelling a recurring meeting */}
+      <SeriesScopeModal
+        isOpen={!!cancellingSeriesBooking}
+        title="Cancel recurring meeting"
+        confirmText="Cancel Meetings"
+        loading={cancellingSeries}
+        onClose={() => setCancellingSeriesBooking(null)}
+        onConfirm={handleCancelSeriesBooking}
+      />
+
+      <SaveTemplateModal
+        booking={templateBooking}
+        onClose={() => setTemplateBooking(null)}
+      />
+
+      <TransferBookingModal
+        booking={transferringBooking}
+        onClose={() => setTransferringBooking(null)}
+        onRequested={() => setTransferRequests(count => count + 1)}
+      />
     </div>
   );
 };
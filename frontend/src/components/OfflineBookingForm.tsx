@@ -3,6 +3,7 @@ import { toast } from 'react-toastify';
 import { CloudOff, Wifi, Calendar, Clock, Users, FileText } from 'lucide-react';
 import { usePWA } from '../hooks/usePWA';
 import { pwaStorage, backgroundSync } from '../utils/pwaUtils';
+import { bookingsAPI } from '../services/api';
 import { useFormValidation, validationRules } from '../hooks/useFormValidation';
 import FormField from './FormField';
 
@@ -104,24 +105,17 @@ const OfflineBookingForm: React.FC<OfflineBookingFormProps> = ({
       if (isOnline) {
         // Try to create booking normally if online
         try {
-          const response = await fetch('/api/bookings/create', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              // Add auth headers here
-            },
-            body: JSON.stringify(bookingData)
-          });
-
-          if (response.ok) {
-            const result = await response.json();
-            toast.success('Booking created successfully!');
-            resetForm();
-            onBookingCreated?.(result.id);
+          const result = await bookingsAPI.create(bookingData);
+          toast.success('Booking created successfully!');
+          resetForm();
+          onBookingCreated?.(result._id);
+          return;
+        } catch (error: any) {
+          // Only a failed request falls back to offline mode; a refusal (e.g. the slot is taken) would fail again on sync
+          if (!(error instanceof TypeError)) {
+            toast.error(error.message || 'Failed to create booking');
             return;
           }
-        } catch (networkError) {
-          // Fall through to offline mode
           console.warn('Network request failed, falling back to offline mode');
         }
       }
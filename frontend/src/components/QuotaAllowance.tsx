@@ -0,0 +1,152 @@
+import React, { useState, useEffect } from 'react';
+import { Gauge } from 'lucide-react';
+import { quotasAPI } from '../services/api';
+import { QuotaSummary } from '../types';
+
+interface QuotaAllowanceProps {
+  boardroomId?: string;
+  date?: string; // YYYY-MM-DD in the room's timezone; defaults to today
+  variant?: 'card' | 'notice';
+  onBehalfOf?: string; // Show a principal's allowance when a delegate books for them
+}
+
+interface AllowanceRow {
+  label: string;
+  limit: number;
+  used: number;
+  remaining: number;
+  unit?: 'hours';
+}
+
+const formatAmount = (value: number, unit?: 'hours') => {
+  if (unit !== 'hours') return String(value);
+  const rounded = Math.round(value * 100) / 100;
+  return `${rounded}h`;
+};
+
+// Only the limits that apply to the user; unlimited fields are left out
+const getRows = (summary: QuotaSummary): AllowanceRow[] => {
+  const rows: AllowanceRow[] = [];
+  const { limits, used, remaining } = summary;
+
+  if (limits.maxFutureBookings !== null) {
+    rows.push({
+      label: 'Upcoming bookings',
+      limit: limits.maxFutureBookings,
+      used: used.futureBookings,
+      remaining: remaining.futureBookings ?? 0
+    });
+  }
+  if (limits.maxHoursPerWeek !== null) {
+    rows.push({
+      label: 'Hours this week',
+      limit: limits.maxHoursPerWeek,
+      used: used.hoursThisWeek,
+      remaining: remaining.hoursThisWeek ?? 0,
+      unit: 'hours'
+    });
+  }
+  if (limits.maxBookingsPerRoomPerDay !== null && used.bookingsInRoomThatDay !== null) {
+    rows.push({
+      label: 'Bookings in this room that day',
+      limit: limits.maxBookingsPerRoomPerDay,
+      used: used.bookingsInRoomThatDay,
+      remaining: remaining.bookingsInRoomThatDay ?? 0
+    });
+  }
+
+  return rows;
+};
+
+const QuotaAllowance: React.FC<QuotaAllowanceProps> = ({ boardroomId, date, variant = 'card', onBehalfOf }) => {
+  const [summary, setSummary] = useState<QuotaSummary | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchSummary = async () => {
+      try {
+        const data = await quotasAPI.getMine({ boardroom: boardroomId, date, onBehalfOf });
+        if (!cancelled) setSummary(data);
+      } catch (error) {
+        console.error('Error fetching booking quota:', error);
+        if (!cancelled) setSummary(null);
+      }
+    };
+
+    fetchSummary();
+    return () => {
+      cancelled = true;
+    };
+  }, [boardroomId, date, onBehalfOf]);
+
+  const rows = summary ? getRows(summary) : [];
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const weekLabel = new Date(`${summary!.weekStart}T12:00:00`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric'
+  });
+
+  if (variant === 'notice') {
+    const exhausted = rows.some(row => row.remaining <= 0);
+    return (
+      <div className={`border rounded-lg p-4 ${exhausted ? 'bg-yellow-50 border-yellow-200' : 'bg-gray-50 border-gray-200'}`}>
+        <div className="flex items-start">
+          <Gauge className={`w-5 h-5 mr-2 flex-shrink-0 ${exhausted ? 'text-yellow-600' : 'text-gray-500'}`} />
+          <div className="text-sm text-gray-700">
+            <p className="font-medium text-gray-900 mb-1">{onBehalfOf ? 'Their booking allowance' : 'Your booking allowance'}</p>
+            <ul className="space-y-0.5">
+              {rows.map(row => (
+                <li key={row.label} className={row.remaining <= 0 ? 'text-yellow-800 font-medium' : ''}>
+                  {row.label}: {formatAmount(row.remaining, row.unit)} of {formatAmount(row.limit, row.unit)} left
+                </li>
+              ))}
+            </ul>
+            {rows.some(row => row.unit === 'hours') && (
+              <p className="text-xs text-gray-500 mt-1">Week starting {weekLabel}</p>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">Booking Allowance</h3>
+
+      <div className="space-y-4">
+        {rows.map(row => (
+          <div key={row.label}>
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-sm text-gray-600">{row.label}</span>
+              <span className={`text-sm font-semibold ${row.remaining <= 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                {formatAmount(row.remaining, row.unit)} left
+              </span>
+            </div>
+            <div className="w-full bg-gray-100 rounded-full h-2">
+              <div
+                className={`h-2 rounded-full ${row.remaining <= 0 ? 'bg-red-500' : 'bg-blue-500'}`}
+                style={{ width: `${row.limit > 0 ? Math.min((row.used / row.limit) * 100, 100) : 100}%` }}
+              />
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              {formatAmount(row.used, row.unit)} of {formatAmount(row.limit, row.unit)} used
+            </p>
+          </div>
+        ))}
+
+        {rows.some(row => row.unit === 'hours') && (
+          <p className="text-xs text-gray-500 pt-2 border-t border-gray-200">
+            Weekly hours count from Monday {weekLabel}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuotaAllowance;
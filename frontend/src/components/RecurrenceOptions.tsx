@@ -0,0 +1,189 @@
+import React from 'react';
+import { RecurrenceRule, RecurrenceFrequency, Weekday } from '../types';
+
+interface RecurrenceOptionsProps {
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+  selectedDate?: string;
+  error?: string;
+  disabled?: boolean;
+}
+
+const WEEKDAYS: { code: Weekday; label: string }[] = [
+  { code: 'MO', label: 'Mon' },
+  { code: 'TU', label: 'Tue' },
+  { code: 'WE', label: 'Wed' },
+  { code: 'TH', label: 'Thu' },
+  { code: 'FR', label: 'Fri' },
+  { code: 'SA', label: 'Sat' },
+  { code: 'SU', label: 'Sun' }
+];
+
+const UNIT_LABELS: Record<string, string> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)'
+};
+
+const RecurrenceOptions: React.FC<RecurrenceOptionsProps> = ({
+  value,
+  onChange,
+  selectedDate,
+  error,
+  disabled = false
+}) => {
+  const endType = value?.until ? 'until' : 'count';
+
+  const handleFrequencyChange = (frequency: RecurrenceFrequency | '') => {
+    if (!frequency) {
+      onChange(null);
+      return;
+    }
+
+    if (frequency === 'custom') {
+      onChange({ frequency, rrule: value?.rrule || 'FREQ=WEEKLY;COUNT=10' });
+      return;
+    }
+
+    // Default a weekly series to the weekday of the selected date
+    const byWeekday = frequency === 'weekly' && selectedDate
+      ? [WEEKDAYS[(new Date(`${selectedDate}T12:00:00`).getDay() + 6) % 7].code]
+      : undefined;
+
+    onChange({ frequency, interval: 1, count: value?.count || 10, byWeekday });
+  };
+
+  const updateRule = (changes: Partial<RecurrenceRule>) => {
+    if (!value) return;
+    onChange({ ...value, ...changes });
+  };
+
+  const toggleWeekday = (code: Weekday) => {
+    const current = value?.byWeekday || [];
+    const byWeekday = current.includes(code)
+      ? current.filter(day => day !== code)
+      : [...current, code];
+    updateRule({ byWeekday });
+  };
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg border space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Repeat
+        </label>
+        <select
+          value={value?.frequency || ''}
+          onChange={(e) => handleFrequencyChange(e.target.value as RecurrenceFrequency | '')}
+          disabled={disabled}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          <option value="">Does not repeat</option>
+          <option value="daily">Daily</option>
+          <option value="weekly">Weekly</option>
+          <option value="monthly">Monthly</option>
+          <option value="custom">Custom (RRULE)</option>
+        </select>
+      </div>
+
+      {value && value.frequency !== 'custom' && (
+        <>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-gray-700">Every</span>
+            <input
+              type="number"
+              min={1}
+              max={12}
+              value={value.interval || 1}
+              onChange={(e) => updateRule({ interval: parseInt(e.target.value) || 1 })}
+              disabled={disabled}
+              className="w-20 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <span className="text-sm text-gray-700">{UNIT_LABELS[value.frequency]}</span>
+          </div>
+
+          {value.frequency === 'weekly' && (
+            <div className="flex flex-wrap gap-2">
+              {WEEKDAYS.map(({ code, label }) => (
+                <button
+                  key={code}
+                  type="button"
+                  onClick={() => toggleWeekday(code)}
+                  disabled={disabled}
+                  className={`px-3 py-1 rounded-full text-sm font-medium border transition-colors ${
+                    value.byWeekday?.includes(code)
+                      ? 'bg-blue-600 text-white border-blue-600'
+                      : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="radio"
+                checked={endType === 'count'}
+                onChange={() => updateRule({ until: undefined, count: value.count || 10 })}
+                disabled={disabled}
+              />
+              After
+              <input
+                type="number"
+                min={1}
+                max={52}
+                value={value.count || ''}
+                onChange={(e) => updateRule({ count: parseInt(e.target.value) || undefined, until: undefined })}
+                disabled={disabled || endType !== 'count'}
+                className="w-20 px-3 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              occurrences
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="radio"
+                checked={endType === 'until'}
+                onChange={() => updateRule({ count: undefined, until: selectedDate || '' })}
+                disabled={disabled}
+              />
+              On
+              <input
+                type="date"
+                value={value.until || ''}
+                min={selectedDate}
+                onChange={(e) => updateRule({ until: e.target.value, count: undefined })}
+                disabled={disabled || endType !== 'until'}
+                className="px-3 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </label>
+          </div>
+        </>
+      )}
+
+      {value?.frequency === 'custom' && (
+        <div>
+          <input
+            type="text"
+            value={value.rrule || ''}
+            onChange={(e) => updateRule({ rrule: e.target.value })}
+            placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=12"
+            disabled={disabled}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            Supports FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, COUNT, UNTIL and BYDAY. Series are limited to 52 occurrences.
+          </p>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceOptions;
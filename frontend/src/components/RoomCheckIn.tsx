@@ -0,0 +1,86 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { CheckCircle, XCircle, Loader } from 'lucide-react';
+import { bookingsAPI } from '../services/api';
+import { Booking } from '../types';
+
+// Landing page for a room's check-in link (e.g. a QR code on the door)
+const RoomCheckIn: React.FC = () => {
+  const { boardroomId } = useParams<{ boardroomId: string }>();
+  const [status, setStatus] = useState<'checking' | 'success' | 'error'>('checking');
+  const [message, setMessage] = useState('');
+  const [booking, setBooking] = useState<Booking | null>(null);
+  const requested = useRef(false);
+
+  useEffect(() => {
+    // Guard against the double effect run in development so we only check in once
+    if (!boardroomId || requested.current) return;
+    requested.current = true;
+
+    const checkIn = async () => {
+      try {
+        const result = await bookingsAPI.checkInToRoom(boardroomId);
+        setBooking(result.booking);
+        setMessage(result.message);
+        setStatus('success');
+      } catch (error: any) {
+        setMessage(error.message || 'Check-in failed');
+        setStatus('error');
+      }
+    };
+
+    checkIn();
+  }, [boardroomId]);
+
+  const formatTime = (dateString: string) => {
+    return new Date(dateString).toLocaleTimeString('en-US', {
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false
+    });
+  };
+
+  return (
+    <div className="min-h-[60vh] flex items-center justify-center px-4">
+      <div className="card max-w-md w-full text-center">
+        {status === 'checking' && (
+          <>
+            <Loader className="mx-auto h-12 w-12 text-blue-500 animate-spin mb-4" />
+            <h1 className="text-xl font-semibold text-gray-900">Checking you in...</h1>
+          </>
+        )}
+
+        {status === 'success' && (
+          <>
+            <CheckCircle className="mx-auto h-12 w-12 text-green-500 mb-4" />
+            <h1 className="text-xl font-semibold text-gray-900 mb-2">{message}</h1>
+            {booking && (
+              <p className="text-gray-600">
+                {booking.purpose} • {formatTime(booking.startTime)} - {formatTime(booking.endTime)}
+              </p>
+            )}
+          </>
+        )}
+
+        {status === 'error' && (
+          <>
+            <XCircle className="mx-auto h-12 w-12 text-red-500 mb-4" />
+            <h1 className="text-xl font-semibold text-gray-900 mb-2">Could not check in</h1>
+            <p className="text-gray-600">{message}</p>
+          </>
+        )}
+
+        {status !== 'checking' && (
+          <Link
+            to="/my-bookings"
+            className="inline-block mt-6 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 transition-colors"
+          >
+            Go to My Bookings
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RoomCheckIn;
@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { Search, Users, MapPin, X } from 'lucide-react';
+import { boardroomsAPI } from '../services/api';
+import { Boardroom, RoomMatch } from '../types';
+import { formatRoomRange } from '../utils/timezones';
+
+interface RoomFinderProps {
+  boardrooms: Boardroom[]; // Active rooms, for the amenity and location choices
+  onSelect: (match: RoomMatch) => void;
+  onClose: () => void;
+}
+
+const DURATION_OPTIONS = [30, 60, 90, 120, 180];
+
+// "Find me a room": describe the meeting, get free rooms and times with the closest fit first
+const RoomFinder: React.FC<RoomFinderProps> = ({ boardrooms, onSelect, onClose }) => {
+  const [attendees, setAttendees] = useState(2);
+  const [amenities, setAmenities] = useState<string[]>([]);
+  const [location, setLocation] = useState('');
+  const [duration, setDuration] = useState(60);
+  const [date, setDate] = useState(new Date().toLocaleDateString('en-CA'));
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [results, setResults] = useState<RoomMatch[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const amenityOptions = [...new Set(boardrooms.flatMap(room => room.amenities))].sort();
+  const locationOptions = [...new Set(boardrooms.map(room => room.location))].sort();
+
+  const toggleAmenity = (amenity: string) => {
+    setAmenities(prev => prev.includes(amenity) ? prev.filter(item => item !== amenity) : [...prev, amenity]);
+  };
+
+  const handleSearch = async () => {
+    setSearching(true);
+    setError(null);
+    try {
+      const data = await boardroomsAPI.find({
+        date,
+        duration,
+        attendees,
+        amenities,
+        location: location || undefined,
+        from: from || undefined,
+        to: to || undefined
+      });
+      setResults(data.results);
+    } catch (error: any) {
+      setError(error.message || 'Failed to search for rooms');
+      setResults(null);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+          <Search className="w-5 h-5 text-blue-600 mr-2" />
+          Find Me a Room
+        </h2>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          title="Close room finder"
+        >
+          <X className="w-5 h-5 text-gray-500" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">People</label>
+          <input
+            type="number"
+            min={1}
+            value={attendees}
+            onChange={(e) => setAttendees(Math.max(1, parseInt(e.target.value) || 1))}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Length</label>
+          <select value={duration} onChange={(e) => setDuration(parseInt(e.target.value))} className={inputClass}>
+            {DURATION_OPTIONS.map(minutes => (
+              <option key={minutes} value={minutes}>
+                {minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hour${minutes > 60 ? 's' : ''}`}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Preferred location</label>
+          <select value={location} onChange={(e) => setLocation(e.target.value)} className={inputClass}>
+            <option value="">Anywhere</option>
+            {locationOptions.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+          <input
+            type="date"
+            value={date}
+            min={new Date().toLocaleDateString('en-CA')}
+            onChange={(e) => setDate(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Between (optional)</label>
+          <div className="flex items-center space-x-2">
+            <input type="time" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+            <span className="text-gray-500">-</span>
+            <input type="time" value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+          </div>
+        </div>
+      </div>
+
+      {amenityOptions.length > 0 && (
+        <div className="mt-4">
+          <p className="text-sm font-medium text-gray-700 mb-2">Must have</p>
+          <div className="flex flex-wrap gap-2">
+            {amenityOptions.map(amenity => (
+              <button
+                key={amenity}
+                type="button"
+                onClick={() => toggleAmenity(amenity)}
+                className={`px-3 py-1 text-sm rounded-full border transition-colors ${
+                  amenities.includes(amenity)
+                    ? 'bg-blue-100 text-blue-800 border-blue-300'
+                    : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                {amenity}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="mt-4 flex justify-end">
+        <button
+          type="button"
+          onClick={handleSearch}
+          disabled={searching || !date}
+          className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors disabled:opacity-50"
+        >
+          {searching ? 'Searching...' : 'Find Rooms'}
+        </button>
+      </div>
+
+      {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+
+      {results && (
+        <div className="mt-6 space-y-3">
+          {results.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No room is free for that. Try another day, a wider time window or fewer amenities.
+            </p>
+          ) : (
+            results.map(match => (
+              <button
+                key={`${match.boardroom._id}-${match.startTime}`}
+                type="button"
+                onClick={() => onSelect(match)}
+                className="w-full text-left border border-gray-200 rounded-lg p-4 hover:border-blue-300 hover:bg-blue-50 transition-colors"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <h3 className="font-medium text-gray-900">{match.boardroom.name}</h3>
+                  <span className="text-sm text-gray-600">
+                    {formatRoomRange(match.startTime, match.endTime, match.boardroom.site?.timezone)}
+                  </span>
+                </div>
+                <div className="mt-1 flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-600">
+                  <span className="flex items-center">
+                    <MapPin className="w-4 h-4 mr-1" />
+                    {match.boardroom.site ? `${match.boardroom.site.name} • ` : ''}{match.boardroom.location}
+                    {match.preferredLocation && <span className="ml-1 text-green-700">(preferred)</span>}
+                  </span>
+                  <span className="flex items-center">
+                    <Users className="w-4 h-4 mr-1" />
+                    Seats {match.boardroom.capacity}
+                    {match.spareSeats === 0 ? ' • exact fit' : ` • ${match.spareSeats} spare`}
+                  </span>
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RoomFinder;
@@ -0,0 +1,230 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { CalendarClock, RefreshCw } from 'lucide-react';
+import { bookingsAPI } from '../services/api';
+import { DetailedAvailability, FreeBusyUser, TimeSlot } from '../types';
+import { formatClock, formatRoomRange } from '../utils/timezones';
+import { formatDuration } from '../utils/bookingPolicy';
+
+interface SchedulingAssistantProps {
+  boardroomId: string;
+  selectedDate: string; // 'YYYY-MM-DD' in the room's timezone
+  people: { id: string; name: string }[]; // Organizer first, then the invited colleagues
+  durationMinutes: number;
+  selectedStartTime?: string;
+  selectedEndTime?: string;
+  onSelect: (startTime: string, endTime: string) => void;
+}
+
+const MAX_SUGGESTIONS = 3;
+
+const toTime = (value: string) => new Date(value).getTime();
+
+const overlaps = (slot: TimeSlot, busy: FreeBusyUser['busy']) => {
+  const start = toTime(slot.startTime);
+  const end = toTime(slot.endTime);
+  return busy.some(interval => toTime(interval.startTime) < end && toTime(interval.endTime) > start);
+};
+
+// Every start where consecutive free slots add up to exactly the meeting length
+const findCommonTimes = (slots: TimeSlot[], isFree: (slot: TimeSlot) => boolean, durationMinutes: number) => {
+  const times: { startTime: string; endTime: string }[] = [];
+  slots.forEach((first, index) => {
+    const wanted = toTime(first.startTime) + durationMinutes * 60 * 1000;
+    for (let cursor = index; cursor < slots.length; cursor++) {
+      const slot = slots[cursor];
+      if (!isFree(slot) || (cursor > index && toTime(slot.startTime) !== toTime(slots[cursor - 1].endTime))) break;
+      if (toTime(slot.endTime) >= wanted) {
+        if (toTime(slot.endTime) === wanted) times.push({ startTime: first.startTime, endTime: slot.endTime });
+        break;
+      }
+    }
+  });
+  return times;
+};
+
+// Scheduling assistant: everyone's busy times laid over the room's slots, with the earliest times that suit all
+const SchedulingAssistant: React.FC<SchedulingAssistantProps> = ({
+  boardroomId,
+  selectedDate,
+  people,
+  durationMinutes,
+  selectedStartTime,
+  selectedEndTime,
+  onSelect
+}) => {
+  const [availability, setAvailability] = useState<DetailedAvailability | null>(null);
+  const [freeBusy, setFreeBusy] = useState<FreeBusyUser[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The parent passes a new people array on every render; only a change of who is invited should refetch
+  const peopleKey = people.map(person => person.id).join(',');
+
+  const fetchSchedule = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data: DetailedAvailability = await bookingsAPI.getDetailedAvailability(boardroomId, selectedDate);
+      setAvailability(data);
+
+      const slots = data.timeSlots || [];
+      const personIds = peopleKey ? peopleKey.split(',') : [];
+      if (slots.length > 0 && personIds.length > 0) {
+        const result = await bookingsAPI.getFreeBusy(
+          personIds,
+          slots[0].startTime,
+          slots[slots.length - 1].endTime
+        );
+        setFreeBusy(result.users);
+      } else {
+        setFreeBusy([]);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load everyone\'s schedules');
+    } finally {
+      setLoading(false);
+    }
+  }, [boardroomId, selectedDate, peopleKey]);
+
+  useEffect(() => {
+    fetchSchedule();
+  }, [fetchSchedule]);
+
+  const timeZone = availability?.policy?.timezone;
+  const slots = availability?.timeSlots || [];
+  const busyFor = (personId: string) => freeBusy.find(entry => entry.user?._id === personId)?.busy || [];
+  const isEveryoneFree = (slot: TimeSlot) => people.every(person => !overlaps(slot, busyFor(person.id)));
+
+  // Earliest runs of back-to-back slots where the room is free and so is everyone invited. The server
+  // only returns slots the room's policy allows, and checks the chosen times again when the booking is made.
+  const isSlotFree = (slot: TimeSlot) => slot.available && isEveryoneFree(slot);
+  const suggestions = findCommonTimes(slots, isSlotFree, durationMinutes).slice(0, MAX_SUGGESTIONS);
+
+  const isSelected = (slot: TimeSlot) => {
+    if (!selectedStartTime || !selectedEndTime) return false;
+    return new Date(slot.startTime) >= new Date(selectedStartTime) && new Date(slot.endTime) <= new Date(selectedEndTime);
+  };
+
+  const roomCellClass = (slot: TimeSlot) => {
+    if (slot.available) return 'bg-green-100';
+    return slot.blockedByBuffer ? 'bg-amber-100' : 'bg-gray-300';
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+          <CalendarClock className="w-5 h-5 text-blue-600 mr-2" />
+          Scheduling Assistant
+        </h3>
+        <button
+          type="button"
+          onClick={fetchSchedule}
+          disabled={loading}
+          className="p-2 hover:bg-gray-100 rounded-full transition-colors disabled:opacity-50"
+          title="Refresh schedules"
+        >
+          <RefreshCw className={`w-4 h-4 text-gray-500 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {!loading && slots.length === 0 && !error && (
+        <p className="text-sm text-gray-500">The room has no bookable times on this day.</p>
+      )}
+
+      {slots.length > 0 && (
+        <>
+          <div className="mb-4">
+            <p className="text-sm font-medium text-gray-700 mb-2">
+              Earliest times that suit everyone ({formatDuration(durationMinutes)})
+            </p>
+            {suggestions.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                There's no time on this day when the room and everyone are free. Try another day or fewer attendees.
+              </p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {suggestions.map(suggestion => (
+                  <button
+                    key={suggestion.startTime}
+                    type="button"
+                    onClick={() => onSelect(suggestion.startTime, suggestion.endTime)}
+                    className={`px-3 py-1 text-sm rounded-full border transition-colors ${
+                      suggestion.startTime === selectedStartTime && suggestion.endTime === selectedEndTime
+                        ? 'bg-blue-600 text-white border-blue-600'
+                        : 'bg-white text-blue-700 border-blue-300 hover:bg-blue-50'
+                    }`}
+                  >
+                    {formatRoomRange(suggestion.startTime, suggestion.endTime, timeZone)}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="text-xs border-separate" style={{ borderSpacing: '2px' }}>
+              <thead>
+                <tr>
+                  <th className="sticky left-0 bg-white" />
+                  {slots.map(slot => (
+                    <th
+                      key={slot.startTime}
+                      className={`px-1 font-normal text-gray-500 whitespace-nowrap ${isSelected(slot) ? 'text-blue-700 font-semibold' : ''}`}
+                    >
+                      {formatClock(slot.startTime, timeZone)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                <tr>
+                  <td className="sticky left-0 bg-white pr-3 font-medium text-gray-700 whitespace-nowrap">
+                    {availability?.boardroom.name || 'Room'}
+                  </td>
+                  {slots.map(slot => (
+                    <td
+                      key={slot.startTime}
+                      className={`h-6 min-w-[2.5rem] rounded ${roomCellClass(slot)} ${isSelected(slot) ? 'ring-2 ring-blue-500' : ''}`}
+                      title={slot.available ? 'Room free' : slot.closure || slot.maintenance || (slot.blockedByBuffer ? 'Setup or cleanup time' : 'Room booked')}
+                    />
+                  ))}
+                </tr>
+                {people.map(person => {
+                  const busy = busyFor(person.id);
+                  return (
+                    <tr key={person.id}>
+                      <td className="sticky left-0 bg-white pr-3 text-gray-700 whitespace-nowrap">{person.name}</td>
+                      {slots.map(slot => {
+                        const personBusy = overlaps(slot, busy);
+                        return (
+                          <td
+                            key={slot.startTime}
+                            className={`h-6 min-w-[2.5rem] rounded ${personBusy ? 'bg-red-300' : 'bg-gray-100'} ${isSelected(slot) ? 'ring-2 ring-blue-500' : ''}`}
+                            title={personBusy ? `${person.name} is busy` : `${person.name} is free`}
+                          />
+                        );
+                      })}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="mt-3 flex flex-wrap gap-4 text-xs text-gray-600">
+            <span className="flex items-center"><span className="w-3 h-3 rounded bg-green-100 mr-1" />Room free</span>
+            <span className="flex items-center"><span className="w-3 h-3 rounded bg-gray-300 mr-1" />Room taken</span>
+            <span className="flex items-center"><span className="w-3 h-3 rounded bg-amber-100 mr-1" />Setup or cleanup</span>
+            <span className="flex items-center"><span className="w-3 h-3 rounded bg-red-300 mr-1" />Busy</span>
+            <span className="flex items-center"><span className="w-3 h-3 rounded bg-gray-100 border border-gray-200 mr-1" />Free</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SchedulingAssistant;
@@ -0,0 +1,111 @@
+import React, { useState, useEffect } from 'react';
+import { X, Repeat } from 'lucide-react';
+import { SeriesScope } from '../types';
+
+export const SERIES_SCOPE_OPTIONS: { value: SeriesScope; label: string; description: string }[] = [
+  { value: 'this', label: 'This occurrence', description: 'Only the selected meeting' },
+  { value: 'following', label: 'This and following', description: 'The selected meeting and every later one' },
+  { value: 'series', label: 'The whole series', description: 'All upcoming meetings in the series' }
+];
+
+interface SeriesScopeModalProps {
+  isOpen: boolean;
+  title: string;
+  confirmText?: string;
+  loading?: boolean;
+  onClose: () => void;
+  onConfirm: (scope: SeriesScope) => void;
+}
+
+const SeriesScopeModal: React.FC<SeriesScopeModalProps> = ({
+  isOpen,
+  title,
+  confirmText = 'Continue',
+  loading = false,
+  onClose,
+  onConfirm
+}) => {
+  const [scope, setScope] = useState<SeriesScope>('this');
+
+  useEffect(() => {
+    if (isOpen) setScope('this');
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+      onClick={handleBackdropClick}
+    >
+      <div className="bg-white rounded-lg max-w-md w-full">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 rounded-full bg-blue-100">
+              <Repeat className="w-6 h-6 text-blue-600" />
+            </div>
+            <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            disabled={loading}
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {/* Scope options */}
+        <div className="p-6 space-y-3">
+          {SERIES_SCOPE_OPTIONS.map(option => (
+            <label
+              key={option.value}
+              className={`flex items-start space-x-3 p-3 border rounded-md cursor-pointer ${
+                scope === option.value ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              <input
+                type="radio"
+                name="series-scope"
+                className="mt-1"
+                checked={scope === option.value}
+                onChange={() => setScope(option.value)}
+              />
+              <div>
+                <p className="text-sm font-medium text-gray-900">{option.label}</p>
+                <p className="text-xs text-gray-500">{option.description}</p>
+              </div>
+            </label>
+          ))}
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center justify-end space-x-3 p-6 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            disabled={loading}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(scope)}
+            disabled={loading}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? 'Processing...' : confirmText}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SeriesScopeModal;
@@ -0,0 +1,233 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { AlertTriangle, ClipboardList, RefreshCw } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { boardroomsAPI, servicesAPI, sitesAPI } from '../services/api';
+import { Boardroom, ServiceQueueFilters, ServiceRequest, ServiceRequestStatus, Site } from '../types';
+import { SERVICE_STATUS_LABELS, SERVICE_STATUS_STYLES } from '../utils/serviceRequests';
+import { differsFromViewer, formatClock, formatDay, getDateKey, getRoomTimeZone, getZoneLabel } from '../utils/timezones';
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+// What facilities can move a request on to from each status
+const NEXT_STATUSES: Record<ServiceRequestStatus, ServiceRequestStatus[]> = {
+  requested: ['confirmed', 'delivered', 'cancelled'],
+  confirmed: ['delivered', 'cancelled'],
+  delivered: [],
+  cancelled: []
+};
+
+type QueueBooking = Exclude<ServiceRequest['booking'], string>;
+type QueueRoom = Exclude<ServiceRequest['boardroom'], string>;
+
+// Facilities queue: upcoming catering and equipment by day, room and delivery time
+const ServiceQueue: React.FC = () => {
+  const [requests, setRequests] = useState<ServiceRequest[]>([]);
+  const [boardrooms, setBoardrooms] = useState<Boardroom[]>([]);
+  const [sites, setSites] = useState<Site[]>([]);
+  const [filters, setFilters] = useState<ServiceQueueFilters>({});
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchOptions = async () => {
+      try {
+        const [boardroomsData, sitesData] = await Promise.all([boardroomsAPI.getAllAdmin(), sitesAPI.getAll()]);
+        setBoardrooms(boardroomsData);
+        setSites(sitesData);
+      } catch (error) {
+        console.error('Error fetching queue filter options:', error);
+      }
+    };
+    fetchOptions();
+  }, []);
+
+  const fetchQueue = useCallback(async () => {
+    setLoading(true);
+    try {
+      // Dates are whole days in the admin's own timezone
+      const data = await servicesAPI.getQueue({
+        ...filters,
+        from: filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : undefined,
+        to: filters.to ? new Date(`${filters.to}T23:59:59.999`).toISOString() : undefined
+      });
+      setRequests(data);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to load the service queue');
+    } finally {
+      setLoading(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const setFilter = (key: keyof ServiceQueueFilters, value: string) => {
+    setFilters(prev => ({
+      ...prev,
+      [key]: value || undefined,
+      // A room already narrows to one site
+      ...(key === 'site' && { boardroom: undefined }),
+      ...(key === 'boardroom' && { site: undefined })
+    }));
+  };
+
+  const handleStatusChange = async (request: ServiceRequest, status: ServiceRequestStatus) => {
+    if (status === 'cancelled' && !window.confirm(`Turn down ${request.quantity} × ${request.itemName}?`)) return;
+
+    setBusyId(request._id);
+    try {
+      const updated: ServiceRequest = await servicesAPI.updateRequestStatus(request._id, status);
+      setRequests(prev => prev.map(existing => (existing._id === updated._id ? updated : existing)));
+      toast.success(`${request.itemName} marked ${SERVICE_STATUS_LABELS[status].toLowerCase()}`);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update the request');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const days = requests.reduce<{ key: string; requests: ServiceRequest[] }[]>((groups, request) => {
+    const key = getDateKey(request.deliverAt);
+    const group = groups.find(existing => existing.key === key);
+    if (group) {
+      group.requests.push(request);
+    } else {
+      groups.push({ key, requests: [request] });
+    }
+    return groups;
+  }, []);
+
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  return (
+    <div className="p-6 bg-white rounded-lg shadow">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+          <ClipboardList className="w-5 h-5 text-blue-600 mr-2" />
+          Facilities Queue
+        </h2>
+        <button
+          onClick={fetchQueue}
+          disabled={loading}
+          className="p-2 hover:bg-gray-100 rounded-full transition-colors disabled:opacity-50"
+          title="Refresh"
+        >
+          <RefreshCw className={`w-4 h-4 text-gray-500 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-3 mb-4">
+        <select value={filters.status || ''} onChange={(e) => setFilter('status', e.target.value)} className={inputClass}>
+          <option value="">All statuses</option>
+          {(Object.keys(SERVICE_STATUS_LABELS) as ServiceRequestStatus[]).map(status => (
+            <option key={status} value={status}>{SERVICE_STATUS_LABELS[status]}</option>
+          ))}
+        </select>
+        {sites.length > 0 && (
+          <select value={filters.site || ''} onChange={(e) => setFilter('site', e.target.value)} className={inputClass}>
+            <option value="">All sites</option>
+            {sites.map(site => (
+              <option key={site._id} value={site._id}>{site.name}</option>
+            ))}
+          </select>
+        )}
+        <select value={filters.boardroom || ''} onChange={(e) => setFilter('boardroom', e.target.value)} className={inputClass}>
+          <option value="">All rooms</option>
+          {boardrooms.map(room => (
+            <option key={room._id} value={room._id}>{room.name}</option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={filters.from || ''}
+          onChange={(e) => setFilter('from', e.target.value)}
+          className={inputClass}
+          title="From"
+        />
+        <input
+          type="date"
+          value={filters.to || ''}
+          onChange={(e) => setFilter('to', e.target.value)}
+          className={inputClass}
+          title="To"
+        />
+        {hasFilters && (
+          <button onClick={() => setFilters({})} className="px-3 py-2 text-sm text-gray-600 hover:text-gray-900">
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {loading && requests.length === 0 ? (
+        <p className="text-sm text-gray-500">Loading requests...</p>
+      ) : requests.length === 0 ? (
+        <p className="text-sm text-gray-500">No service requests {hasFilters ? 'match these filters' : 'in the coming week'}.</p>
+      ) : (
+        <div className="space-y-6">
+          {days.map(day => (
+            <div key={day.key}>
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">{formatDay(day.requests[0].deliverAt)}</h3>
+              <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+                {day.requests.map(request => {
+                  const room = typeof request.boardroom === 'object' ? request.boardroom as QueueRoom : null;
+                  const booking = typeof request.booking === 'object' ? request.booking as QueueBooking : null;
+                  const timeZone = getRoomTimeZone(room);
+                  return (
+                    <li key={request._id} className="flex flex-col sm:flex-row sm:items-center gap-3 px-4 py-3">
+                      <div className="w-24 shrink-0">
+                        <p className="text-sm font-semibold text-gray-900">{formatClock(request.deliverAt, timeZone)}</p>
+                        {differsFromViewer(request.deliverAt, timeZone) && (
+                          <p className="text-xs text-gray-500">{getZoneLabel(request.deliverAt, timeZone)}</p>
+                        )}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-gray-900">
+                          {request.quantity} × {request.itemName}
+                          <span className="font-normal text-gray-600"> · {room?.name || 'Unknown room'}</span>
+                        </p>
+                        <p className="text-xs text-gray-500 truncate">
+                          {booking ? `${booking.purpose} (${formatClock(booking.startTime, timeZone)}-${formatClock(booking.endTime, timeZone)})` : 'Booking deleted'}
+                          {request.requestedBy && ` · ${request.requestedBy.name}`}
+                        </p>
+                        {request.notes && <p className="text-xs text-gray-700 mt-1">{request.notes}</p>}
+                        {request.cancelReason && <p className="text-xs text-gray-500 mt-1">{request.cancelReason}</p>}
+                        {request.bookingChangedAt && request.status !== 'cancelled' && (
+                          <p className="text-xs text-amber-700 mt-1 flex items-center">
+                            <AlertTriangle className="w-3 h-3 mr-1" />
+                            The booking changed on {formatDay(request.bookingChangedAt)}; check the time and room
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${SERVICE_STATUS_STYLES[request.status]}`}>
+                          {SERVICE_STATUS_LABELS[request.status]}
+                        </span>
+                        {NEXT_STATUSES[request.status].map(status => (
+                          <button
+                            key={status}
+                            onClick={() => handleStatusChange(request, status)}
+                            disabled={busyId === request._id}
+                            className={`px-2 py-1 text-xs font-medium rounded-md transition-colors disabled:opacity-50 ${
+                              status === 'cancelled'
+                                ? 'text-red-700 hover:bg-red-50'
+                                : 'text-blue-700 hover:bg-blue-50'
+                            }`}
+                          >
+                            {status === 'cancelled' ? 'Turn down' : SERVICE_STATUS_LABELS[status]}
+                          </button>
+                        ))}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ServiceQueue;
@@ -0,0 +1,143 @@
+import React, { useState, useEffect } from 'react';
+import { Coffee, Trash2 } from 'lucide-react';
+import { servicesAPI } from '../services/api';
+import { ServiceItem } from '../types';
+import { SERVICE_CATEGORY_LABELS, describeLeadTime } from '../utils/serviceRequests';
+
+// One line of the order; `clock` is HH:mm in the room's timezone, empty for the start of the meeting
+export interface ServiceRequestDraft {
+  item: string;
+  quantity: number;
+  clock: string;
+  notes: string;
+}
+
+interface ServiceRequestsEditorProps {
+  value: ServiceRequestDraft[];
+  onChange: (drafts: ServiceRequestDraft[]) => void;
+  disabled?: boolean;
+}
+
+// Catering and equipment from the catalog, sent with the booking for facilities to deliver
+const ServiceRequestsEditor: React.FC<ServiceRequestsEditorProps> = ({ value, onChange, disabled = false }) => {
+  const [items, setItems] = useState<ServiceItem[]>([]);
+
+  useEffect(() => {
+    servicesAPI.getItems()
+      .then(data => setItems(Array.isArray(data) ? data.filter((item: ServiceItem) => item.isActive) : []))
+      .catch(error => console.error('Error fetching services:', error));
+  }, []);
+
+  // Nothing to offer until facilities set up a catalog
+  if (items.length === 0) return null;
+
+  const itemsById = new Map(items.map(item => [item._id, item]));
+
+  const addItem = (itemId: string) => {
+    if (!itemId) return;
+    onChange([...value, { item: itemId, quantity: 1, clock: '', notes: '' }]);
+  };
+
+  const updateDraft = (index: number, changes: Partial<ServiceRequestDraft>) => {
+    onChange(value.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  const removeDraft = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        <Coffee className="inline w-4 h-4 mr-1" />
+        Catering & Equipment
+      </label>
+
+      {value.length > 0 && (
+        <div className="space-y-2 mb-3">
+          {value.map((draft, index) => {
+            const item = itemsById.get(draft.item);
+            return (
+              <div key={`${draft.item}-${index}`} className="p-3 border border-gray-200 rounded-md bg-gray-50">
+                <div className="flex flex-wrap items-center gap-3">
+                  <span className="flex-1 min-w-[8rem] text-sm font-medium text-gray-900">
+                    {item?.name || 'Unavailable service'}
+                  </span>
+                  <label className="flex items-center space-x-1 text-sm text-gray-600">
+                    <span>Qty</span>
+                    <input
+                      type="number"
+                      min={1}
+                      max={item?.maxQuantity}
+                      value={draft.quantity}
+                      disabled={disabled}
+                      onChange={(e) => updateDraft(index, { quantity: Math.max(1, parseInt(e.target.value) || 1) })}
+                      className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                    />
+                  </label>
+                  <label className="flex items-center space-x-1 text-sm text-gray-600">
+                    <span>Deliver at</span>
+                    <input
+                      type="time"
+                      value={draft.clock}
+                      disabled={disabled}
+                      onChange={(e) => updateDraft(index, { clock: e.target.value })}
+                      className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                    />
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => removeDraft(index)}
+                    disabled={disabled}
+                    className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-white rounded transition-colors"
+                    title="Remove"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <input
+                  type="text"
+                  value={draft.notes}
+                  disabled={disabled}
+                  onChange={(e) => updateDraft(index, { notes: e.target.value })}
+                  placeholder="Notes for facilities, e.g. dietary needs"
+                  maxLength={300}
+                  className="mt-2 w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                />
+                {item && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Up to {item.maxQuantity}
+                    {item.leadTimeHours > 0 && ` · needs ${describeLeadTime(item.leadTimeHours)}`}
+                    {!draft.clock && ' · delivered when the meeting starts'}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <select
+        value=""
+        onChange={(e) => addItem(e.target.value)}
+        disabled={disabled}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      >
+        <option value="">Add catering or equipment...</option>
+        {(Object.keys(SERVICE_CATEGORY_LABELS) as (keyof typeof SERVICE_CATEGORY_LABELS)[]).map(category => {
+          const categoryItems = items.filter(item => item.category === category);
+          return categoryItems.length > 0 && (
+            <optgroup key={category} label={SERVICE_CATEGORY_LABELS[category]}>
+              {categoryItems.map(item => (
+                <option key={item._id} value={item._id}>{item.name}</option>
+              ))}
+            </optgroup>
+          );
+        })}
+      </select>
+      <p className="mt-1 text-xs text-gray-500">Deliveries can be set from 30 minutes before the meeting until it ends.</p>
+    </div>
+  );
+};
+
+export default ServiceRequestsEditor;
@@ -1,7 +1,9 @@
 import React, { useState, useEffect } from 'react';
-import { Clock, Users, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { Clock, Users, AlertCircle, CheckCircle2, Wrench } from 'lucide-react';
 import { TimeSlot, DetailedAvailability } from '../types';
 import { bookingsAPI } from '../services/api';
+import { formatDuration } from '../utils/bookingPolicy';
+import { differsFromViewer, formatClock, getZoneLabel } from '../utils/timezones';
 
 interface TimeSlotPickerProps {
   boardroomId: string;
@@ -9,6 +11,7 @@ interface TimeSlotPickerProps {
   selectedStartTime?: string;
   selectedEndTime?: string;
   onTimeSlotSelect: (startTime: string, endTime: string) => void;
+  onUnavailableSlotClick?: (slot: TimeSlot) => void;
   onError?: (error: string) => void;
   disabled?: boolean;
 }
@@ -19,6 +22,7 @@ const TimeSlotPicker: React.FC<TimeSlotPickerProps> = ({
   selectedStartTime,
   selectedEndTime,
   onTimeSlotSelect,
+  onUnavailableSlotClick,
   onError,
   disabled = false
 }) => {
@@ -57,11 +61,15 @@ const TimeSlotPicker: React.FC<TimeSlotPickerProps> = ({
     }
   };
 
+  // Slots are shown in the room's timezone; the viewer's own time is added where it differs
+  const timeZone = availability?.policy?.timezone;
+
   const formatTime = (dateString: string) => {
     return new Date(dateString).toLocaleTimeString('en-US', {
       hour: '2-digit',
       minute: '2-digit',
-      hour12: false
+      hour12: false,
+      timeZone
     });
   };
 
@@ -74,6 +82,8 @@ const TimeSlotPicker: React.FC<TimeSlotPickerProps> = ({
     });
   };
 
+  const slotMinutes = availability?.policy?.slotMinutes || 30;
+
   const isSlotSelected = (slot: TimeSlot) => {
     return selectedSlots.some(selected => selected.startTime === slot.startTime);
   };
@@ -83,7 +93,15 @@ const TimeSlotPicker: React.FC<TimeSlotPickerProps> = ({
   };
 
   const handleSlotClick = (slot: TimeSlot) => {
-    if (disabled || !slot.available) return;
+    if (disabled) return;
+
+    // Taken slots can still be queued for via the conflict options; buffer time, closures and maintenance cannot
+    if (!slot.available) {
+      if (!slot.blockedByBuffer && !slot.closure && !slot.maintenance) {
+        onUnavailableSlotClick?.(slot);
+      }
+      return;
+    }
 
     if (!isSelecting) {
       // Start selecting
@@ -122,8 +140,16 @@ const TimeSlotPicker: React.FC<TimeSlotPickerProps> = ({
       return `${baseClasses} opacity-50 cursor-not-allowed bg-gray-100 border-gray-200`;
     }
 
+    if (slot.closure || slot.maintenance) {
+      return `${baseClasses} bg-gray-100 border-gray-300 text-gray-500 cursor-not-allowed`;
+    }
+
+    if (slot.blockedByBuffer) {
+      return `${baseClasses} bg-amber-50 border-amber-200 border-dashed text-amber-700 cursor-not-allowed`;
+    }
+
     if (!slot.available) {
-      return `${baseClasses} bg-red-50 border-red-200 text-red-700 cursor-not-allowed hover:bg-red-100`;
+      return `${baseClasses} bg-red-50 border-red-200 text-red-700 ${onUnavailableSlotClick ? 'cursor-pointer' : 'cursor-not-allowed'} hover:bg-red-100`;
     }
 
     if (isSlotSelected(slot)) {
@@ -179,7 +205,13 @@ const TimeSlotPicker: React.FC<TimeSlotPickerProps> = ({
           </h3>
           <p className="text-sm text-gray-600">
             {formatDate(selectedDate)} • {availability.boardroom.name}
+            {availability.boardroom.site && ` (${availability.boardroom.site.name})`}
           </p>
+          {availability.timeSlots.length > 0 && differsFromViewer(availability.timeSlots[0].startTime, timeZone) && (
+            <p className="text-xs text-gray-500">
+              Times are the room's local time ({getZoneLabel(availability.timeSlots[0].startTime, timeZone)})
+            </p>
+          )}
         </div>
         {isSelecting && selectedSlots.length > 0 && (
           <button
@@ -197,7 +229,8 @@ const TimeSlotPicker: React.FC<TimeSlotPickerProps> = ({
           <Clock className="w-5 h-5 text-blue-600 mr-2 mt-0.5" />
           <div className="text-sm text-blue-800">
             <p className="font-medium">How to select time:</p>
-            <p>Click on a green (available) slot to start, then click consecutive slots to extend your booking. Click "Confirm Selection" when ready. Minimum 30 minutes required.</p>
+            <p>Click on a green (available) slot to start, then click consecutive slots to extend your booking. Click "Confirm Selection" when ready.
+              {availability.policy && ` Bookings in this room run ${formatDuration(availability.policy.minDurationMinutes)} to ${formatDuration(availability.policy.maxDurationMinutes)}.`}</p>
           </div>
         </div>
       </div>
@@ -212,6 +245,24 @@ const TimeSlotPicker: React.FC<TimeSlotPickerProps> = ({
           <div className="w-4 h-4 bg-red-100 border border-red-200 rounded mr-2"></div>
           <span className="text-gray-700">Booked</span>
         </div>
+        {((availability.boardroom.bufferBefore || 0) > 0 || (availability.boardroom.bufferAfter || 0) > 0) && (
+          <div className="flex items-center">
+            <div className="w-4 h-4 bg-amber-50 border border-dashed border-amber-200 rounded mr-2"></div>
+            <span className="text-gray-700">Setup/cleanup</span>
+          </div>
+        )}
+        {availability.timeSlots.some(slot => slot.closure) && (
+          <div className="flex items-center">
+            <div className="w-4 h-4 bg-gray-100 border border-gray-300 rounded mr-2"></div>
+            <span className="text-gray-700">Closed</span>
+          </div>
+        )}
+        {availability.timeSlots.some(slot => slot.maintenance) && (
+          <div className="flex items-center">
+            <div className="w-4 h-4 bg-gray-100 border border-gray-300 rounded mr-2"></div>
+            <span className="text-gray-700">Maintenance</span>
+          </div>
+        )}
         <div className="flex items-center">
           <div className="w-4 h-4 bg-blue-100 border border-blue-400 rounded mr-2"></div>
           <span className="text-gray-700">Selected</span>
@@ -223,7 +274,9 @@ const TimeSlotPicker: React.FC<TimeSlotPickerProps> = ({
         {availability.timeSlots.length === 0 ? (
           <div className="text-center py-8">
             <Clock className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-            <p className="text-gray-600">No available time slots for this date</p>
+            <p className="text-gray-600">
+              {availability.closed ? 'This room is closed on this day' : 'No available time slots for this date'}
+            </p>
             <p className="text-sm text-gray-500 mt-1">Try selecting a different date</p>
           </div>
         ) : (
@@ -234,10 +287,16 @@ const TimeSlotPicker: React.FC<TimeSlotPickerProps> = ({
                 className={getSlotClassName(slot)}
                 onClick={() => handleSlotClick(slot)}
                 title={
-                  !slot.available && slot.conflictingBooking
-                    ? `Booked: ${slot.conflictingBooking.purpose} by ${slot.conflictingBooking.organizer}`
+                  slot.closure
+                    ? `Closed: ${slot.closure}`
+                    : slot.maintenance
+                    ? `Maintenance: ${slot.maintenance}`
+                    : slot.blockedByBuffer
+                    ? 'Reserved for setting up or cleaning the room around another booking'
+                    : !slot.available && slot.conflictingBooking
+                    ? `Booked: ${slot.conflictingBooking.purpose} by ${slot.conflictingBooking.organizer}${onUnavailableSlotClick ? ' (click for alternatives or to join the waitlist)' : ''}`
                     : slot.available
-                    ? 'Click to select this time slot'
+                    ? `Click to select this time slot${differsFromViewer(slot.startTime, timeZone) ? ` (${formatClock(slot.startTime)} your time)` : ''}`
                     : 'This time slot is not available'
                 }
               >
@@ -247,14 +306,32 @@ const TimeSlotPicker: React.FC<TimeSlotPickerProps> = ({
                   </span>
                   {slot.available ? (
                     <CheckCircle2 className="w-4 h-4" />
+                  ) : slot.closure ? (
+                    <AlertCircle className="w-4 h-4" />
+                  ) : slot.maintenance ? (
+                    <Wrench className="w-4 h-4" />
+                  ) : slot.blockedByBuffer ? (
+                    <Clock className="w-4 h-4" />
                   ) : (
                     <Users className="w-4 h-4" />
                   )}
                 </div>
                 <div className="text-xs opacity-75">
-                  30 min slot
+                  {slotMinutes} min slot
                 </div>
-                {!slot.available && slot.conflictingBooking && (
+                {slot.closure ? (
+                  <div className="mt-1 text-xs opacity-90 truncate">
+                    {slot.closure}
+                  </div>
+                ) : slot.maintenance ? (
+                  <div className="mt-1 text-xs opacity-90 truncate">
+                    {slot.maintenance}
+                  </div>
+                ) : slot.blockedByBuffer ? (
+                  <div className="mt-1 text-xs opacity-90 truncate">
+                    Setup/cleanup
+                  </div>
+                ) : !slot.available && slot.conflictingBooking && (
                   <div className="mt-1 text-xs opacity-90 truncate">
                     {slot.conflictingBooking.purpose}
                   </div>
@@ -274,9 +351,11 @@ const TimeSlotPicker: React.FC<TimeSlotPickerProps> = ({
               <Clock className="w-4 h-4 mr-2" />
               <span>
                 {formatTime(selectedSlots[0].startTime)} - {formatTime(selectedSlots[selectedSlots.length - 1].endTime)}
+                {differsFromViewer(selectedSlots[0].startTime, timeZone) &&
+                  ` (${formatClock(selectedSlots[0].startTime)} - ${formatClock(selectedSlots[selectedSlots.length - 1].endTime)} your time)`}
               </span>
               <span className="ml-2 text-sm opacity-75">
-                ({selectedSlots.length * 30} minutes)
+                ({selectedSlots.length * slotMinutes} minutes)
               </span>
             </div>
             {isSelecting && (
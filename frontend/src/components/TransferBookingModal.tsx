@@ -0,0 +1,221 @@
+import React, { useState, useEffect } from 'react';
+import { X, ArrowRightLeft } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { transfersAPI, usersAPI } from '../services/api';
+import { Booking, BookingTransfer, SeriesScope, User } from '../types';
+import { SERIES_SCOPE_OPTIONS } from './SeriesScopeModal';
+
+interface TransferBookingModalProps {
+  booking: Booking | null;
+  onClose: () => void;
+  onRequested?: () => void;
+}
+
+const STATUS_STYLES: Record<BookingTransfer['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  accepted: 'bg-green-100 text-green-800',
+  declined: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-800'
+};
+
+// Offers a booking to another organizer and lists its earlier handovers
+const TransferBookingModal: React.FC<TransferBookingModalProps> = ({ booking, onClose, onRequested }) => {
+  const [users, setUsers] = useState<User[]>([]);
+  const [history, setHistory] = useState<BookingTransfer[]>([]);
+  const [recipient, setRecipient] = useState('');
+  const [scope, setScope] = useState<SeriesScope>('this');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!booking) return;
+
+    setRecipient('');
+    setScope('this');
+    setNote('');
+
+    const fetchData = async () => {
+      try {
+        const [usersData, historyData] = await Promise.all([
+          usersAPI.getAll(),
+          transfersAPI.getHistory(booking._id)
+        ]);
+        setUsers(usersData);
+        setHistory(historyData);
+      } catch (error) {
+        console.error('Error fetching transfer details:', error);
+      }
+    };
+    fetchData();
+  }, [booking]);
+
+  if (!booking) return null;
+
+  const pending = history.find(transfer => transfer.status === 'pending');
+  const candidates = users.filter(candidate => candidate._id !== booking.user._id);
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!recipient) return;
+
+    setSaving(true);
+    try {
+      await transfersAPI.request({
+        booking: booking._id,
+        to: recipient,
+        scope: booking.seriesId ? scope : undefined,
+        note: note.trim() || undefined
+      });
+      toast.success('Transfer requested. The booking moves once it is accepted.');
+      onRequested?.();
+      onClose();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to request transfer');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+      onClick={handleBackdropClick}
+    >
+      <div className="bg-white rounded-lg max-w-md w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-3">
+            <ArrowRightLeft className="w-6 h-6 text-blue-600" />
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Transfer Booking</h3>
+              <p className="text-sm text-gray-500">{booking.purpose} • organized by {booking.user.name}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {pending ? (
+            <p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md p-3">
+              Waiting for {pending.toUser.name} to accept a transfer requested on {formatDate(pending.createdAt)}.
+            </p>
+          ) : (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">New organizer</label>
+                <select
+                  value={recipient}
+                  onChange={(e) => setRecipient(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Choose a colleague...</option>
+                  {candidates.map(candidate => (
+                    <option key={candidate._id} value={candidate._id}>
+                      {candidate.name} ({candidate.email})
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {booking.seriesId && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium text-gray-700">Transfer</p>
+                  {SERIES_SCOPE_OPTIONS.map(option => (
+                    <label key={option.value} className="flex items-start space-x-2 cursor-pointer">
+                      <input
+                        type="radio"
+                        name="transfer-scope"
+                        className="mt-1"
+                        checked={scope === option.value}
+                        onChange={() => setScope(option.value)}
+                      />
+                      <span className="text-sm text-gray-700">{option.label}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Note (optional)</label>
+                <textarea
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  maxLength={500}
+                  rows={2}
+                  placeholder="Why are you handing this over?"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <p className="text-xs text-gray-500">
+                The booking stays with its current organizer until the new one accepts. Attendees are notified once it moves.
+              </p>
+
+              <div className="flex items-center justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={!recipient || saving}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {saving ? 'Sending...' : 'Request Transfer'}
+                </button>
+              </div>
+            </>
+          )}
+        </form>
+
+        {/* Ownership history */}
+        {history.length > 0 && (
+          <div className="px-6 pb-6">
+            <p className="text-sm font-medium text-gray-700 mb-2">History</p>
+            <ul className="space-y-2">
+              {history.map(transfer => (
+                <li key={transfer._id} className="text-sm text-gray-600 flex items-start justify-between gap-2">
+                  <span>
+                    {transfer.fromUser.name} → {transfer.toUser.name}
+                    <span className="text-xs text-gray-400 block">
+                      {formatDate(transfer.respondedAt || transfer.createdAt)}
+                      {transfer.requestedBy._id !== transfer.fromUser._id && ` • requested by ${transfer.requestedBy.name}`}
+                      {transfer.note && ` • "${transfer.note}"`}
+                    </span>
+                  </span>
+                  <span className={`px-2 py-0.5 text-xs font-medium rounded-full capitalize ${STATUS_STYLES[transfer.status]}`}>
+                    {transfer.status}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TransferBookingModal;
@@ -0,0 +1,145 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowRightLeft, Clock, MapPin } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { transfersAPI } from '../services/api';
+import { BookingTransfer } from '../types';
+
+interface TransferRequestsPanelProps {
+  onAccepted?: () => void;
+}
+
+// Pending handovers: ones offered to the user and ones they are waiting on
+const TransferRequestsPanel: React.FC<TransferRequestsPanelProps> = ({ onAccepted }) => {
+  const [incoming, setIncoming] = useState<BookingTransfer[]>([]);
+  const [outgoing, setOutgoing] = useState<BookingTransfer[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchTransfers = async () => {
+    try {
+      const data = await transfersAPI.getMine();
+      setIncoming(data.incoming);
+      setOutgoing(data.outgoing);
+    } catch (error) {
+      console.error('Error fetching transfers:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchTransfers();
+  }, []);
+
+  const respond = async (transfer: BookingTransfer, action: 'accept' | 'decline' | 'cancel') => {
+    if (action === 'cancel' && !window.confirm(`Withdraw the transfer to ${transfer.toUser.name}?`)) return;
+
+    setBusyId(transfer._id);
+    try {
+      const result = await transfersAPI[action](transfer._id);
+      toast.success(result.message);
+      await fetchTransfers();
+      if (action === 'accept') onAccepted?.();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update transfer');
+      await fetchTransfers();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false
+    });
+  };
+
+  const scopeLabel = (transfer: BookingTransfer) => {
+    if (transfer.scope === 'following') return 'This and following meetings';
+    if (transfer.scope === 'series') return 'The whole series';
+    return null;
+  };
+
+  if (incoming.length === 0 && outgoing.length === 0) {
+    return null;
+  }
+
+  const renderTransfer = (transfer: BookingTransfer, isIncoming: boolean) => (
+    <div
+      key={transfer._id}
+      className={`border rounded-lg p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 ${
+        isIncoming ? 'border-blue-300 bg-blue-50' : 'border-gray-200'
+      }`}
+    >
+      <div>
+        <div className="flex items-center space-x-2 mb-1">
+          <h3 className="font-medium text-gray-900">{transfer.booking.purpose}</h3>
+          <span className={`px-2 py-1 text-xs font-medium rounded-full ${isIncoming ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-800'}`}>
+            {isIncoming ? `From ${transfer.fromUser.name}` : `Waiting for ${transfer.toUser.name}`}
+          </span>
+        </div>
+        <p className="text-sm text-gray-600 flex items-center">
+          <MapPin className="w-4 h-4 mr-1" />
+          {transfer.booking.boardroom.name} • {transfer.booking.boardroom.location}
+        </p>
+        <p className="text-sm text-gray-600 flex items-center">
+          <Clock className="w-4 h-4 mr-1" />
+          {formatDate(transfer.booking.startTime)}
+          {scopeLabel(transfer) && ` • ${scopeLabel(transfer)}`}
+        </p>
+        {transfer.note && (
+          <p className="text-sm text-gray-500 italic mt-1">"{transfer.note}"</p>
+        )}
+      </div>
+
+      <div className="flex items-center space-x-2">
+        {isIncoming ? (
+          <>
+            <button
+              onClick={() => respond(transfer, 'accept')}
+              disabled={busyId === transfer._id}
+              className="px-4 py-2 bg-green-600 text-white text-sm font-medium rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 transition-colors disabled:opacity-50"
+            >
+              Accept
+            </button>
+            <button
+              onClick={() => respond(transfer, 'decline')}
+              disabled={busyId === transfer._id}
+              className="px-4 py-2 bg-gray-100 text-gray-700 text-sm font-medium rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-400 transition-colors disabled:opacity-50"
+            >
+              Decline
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={() => respond(transfer, 'cancel')}
+            disabled={busyId === transfer._id}
+            className="px-4 py-2 bg-gray-100 text-gray-700 text-sm font-medium rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-400 transition-colors disabled:opacity-50"
+          >
+            Withdraw
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="card">
+      <div className="flex items-center mb-4">
+        <ArrowRightLeft className="w-5 h-5 text-blue-600 mr-2" />
+        <h2 className="text-xl font-semibold text-gray-900">
+          Booking Transfers ({incoming.length + outgoing.length})
+        </h2>
+      </div>
+
+      <div className="space-y-3">
+        {incoming.map(transfer => renderTransfer(transfer, true))}
+        {outgoing.map(transfer => renderTransfer(transfer, false))}
+      </div>
+    </div>
+  );
+};
+
+export default TransferRequestsPanel;
@@ -17,6 +17,9 @@ import { useAuth } from '../contexts/AuthContext';
 import { api }  from '../services/api';
 import { errorTracker } from '../utils/sentryConfig';
 import { ProfileSkeleton } from './LoadingSkeleton';
+import QuotaAllowance from './QuotaAllowance';
+import DelegatesPanel from './DelegatesPanel';
+import BookingTemplatesPanel from './BookingTemplatesPanel';
 
 interface UserProfileData {
   name: string;
@@ -385,6 +388,12 @@ const UserProfile: React.FC = () => {
             </div>
           </div>
 
+          <QuotaAllowance />
+
+          <DelegatesPanel />
+
+          <BookingTemplatesPanel />
+
           {/* Booking Statistics */}
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">Booking Statistics</h3>
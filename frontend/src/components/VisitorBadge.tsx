@@ -0,0 +1,56 @@
+import React from 'react';
+import { Printer, X } from 'lucide-react';
+import { ReceptionRoom } from '../types';
+import { getVisitorHostName } from '../utils/visitors';
+import { formatDay, getRoomTimeZone } from '../utils/timezones';
+
+interface VisitorBadgeProps {
+  entry: ReceptionRoom['visitors'][number];
+  boardroom: ReceptionRoom['boardroom'];
+  onClose: () => void;
+}
+
+// Printable visitor badge; printing hides everything on the page except the badge
+const VisitorBadge: React.FC<VisitorBadgeProps> = ({ entry, boardroom, onClose }) => {
+  const { visitor, booking } = entry;
+  const timeZone = getRoomTimeZone(boardroom);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-sm w-full p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Visitor Badge</h3>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition-colors">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="print-area w-[85mm] mx-auto border-2 border-gray-900 rounded-lg p-5 text-center bg-white">
+          <p className="text-xs font-semibold tracking-widest text-gray-500 uppercase">Visitor</p>
+          <p className="text-2xl font-bold text-gray-900 mt-2 break-words">{visitor.name}</p>
+          {visitor.company && <p className="text-base text-gray-700">{visitor.company}</p>}
+          <div className="border-t border-gray-300 mt-4 pt-3 text-sm text-gray-700 space-y-0.5">
+            <p>Host: <span className="font-medium">{getVisitorHostName(visitor, booking)}</span></p>
+            <p>{boardroom.name}{boardroom.location && `, ${boardroom.location}`}</p>
+            <p>{formatDay(booking.startTime, timeZone)}</p>
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200">
+            Close
+          </button>
+          <button
+            onClick={() => window.print()}
+            className="flex items-center space-x-2 px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700"
+          >
+            <Printer className="w-4 h-4" />
+            <span>Print</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VisitorBadge;
@@ -0,0 +1,155 @@
+import React, { useState, useEffect } from 'react';
+import { ListOrdered, Clock, MapPin } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { waitlistAPI } from '../services/api';
+import { WaitlistEntry } from '../types';
+
+interface WaitlistPanelProps {
+  onClaimed?: () => void;
+}
+
+const WaitlistPanel: React.FC<WaitlistPanelProps> = ({ onClaimed }) => {
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchEntries = async () => {
+    try {
+      const data = await waitlistAPI.getMine();
+      setEntries(data);
+    } catch (error) {
+      console.error('Error fetching waitlist:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchEntries();
+  }, []);
+
+  const handleClaim = async (entry: WaitlistEntry) => {
+    setBusyId(entry._id);
+    try {
+      const result = await waitlistAPI.claim(entry._id);
+      toast.success(result.message);
+      await fetchEntries();
+      onClaimed?.();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to claim this slot');
+      await fetchEntries();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleLeave = async (entry: WaitlistEntry) => {
+    if (!window.confirm('Leave the waitlist for this slot?')) return;
+
+    setBusyId(entry._id);
+    try {
+      await waitlistAPI.leave(entry._id);
+      setEntries(prev => prev.filter(item => item._id !== entry._id));
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to leave the waitlist');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false
+    });
+  };
+
+  const formatTime = (dateString: string) => {
+    return new Date(dateString).toLocaleTimeString('en-US', {
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false
+    });
+  };
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="card">
+      <div className="flex items-center mb-4">
+        <ListOrdered className="w-5 h-5 text-blue-600 mr-2" />
+        <h2 className="text-xl font-semibold text-gray-900">
+          Waitlist ({entries.length})
+        </h2>
+      </div>
+
+      <div className="space-y-3">
+        {entries.map((entry) => (
+          <div
+            key={entry._id}
+            className={`border rounded-lg p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 ${
+              entry.status === 'offered' ? 'border-green-300 bg-green-50' : 'border-gray-200'
+            }`}
+          >
+            <div>
+              <div className="flex items-center space-x-2 mb-1">
+                <h3 className="font-medium text-gray-900">{entry.purpose}</h3>
+                {entry.status === 'offered' ? (
+                  <span className="px-2 py-1 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                    Available to claim
+                  </span>
+                ) : (
+                  <span className="px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-800">
+                    #{entry.position} in line
+                  </span>
+                )}
+                {entry.autoBook && entry.status === 'waiting' && (
+                  <span className="px-2 py-1 text-xs font-medium rounded-full bg-blue-100 text-blue-800">
+                    Auto-book
+                  </span>
+                )}
+              </div>
+              <p className="text-sm text-gray-600 flex items-center">
+                <MapPin className="w-4 h-4 mr-1" />
+                {entry.boardroom.name} • {entry.boardroom.location}
+              </p>
+              <p className="text-sm text-gray-600 flex items-center">
+                <Clock className="w-4 h-4 mr-1" />
+                {formatDate(entry.startTime)} - {formatTime(entry.endTime)}
+              </p>
+              {entry.status === 'offered' && entry.offerExpiresAt && (
+                <p className="text-sm text-green-700 mt-1">
+                  Held for you until {formatTime(entry.offerExpiresAt)}
+                </p>
+              )}
+            </div>
+
+            <div className="flex items-center space-x-2">
+              {entry.status === 'offered' && (
+                <button
+                  onClick={() => handleClaim(entry)}
+                  disabled={busyId === entry._id}
+                  className="px-4 py-2 bg-green-600 text-white text-sm font-medium rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 transition-colors disabled:opacity-50"
+                >
+                  Claim Slot
+                </button>
+              )}
+              <button
+                onClick={() => handleLeave(entry)}
+                disabled={busyId === entry._id}
+                className="px-4 py-2 bg-gray-100 text-gray-700 text-sm font-medium rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-400 transition-colors disabled:opacity-50"
+              >
+                {entry.status === 'offered' ? 'Decline' : 'Leave Waitlist'}
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default WaitlistPanel;
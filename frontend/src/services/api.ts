@@ -1,5 +1,7 @@
+import { ActionItemRequest, AgendaItem, BookingHistoryFilters, BookingQuotaRequest, BookingTemplateRequest, BookingTransferRequest, ClosureRequest, GuestRsvpResponse, MaintenanceAction, RoomSearchCriteria, RsvpResponse, SeriesScope, ServiceItemRequest, ServiceQueueFilters, ServiceRequestStatus, SiteRequest, VisitorRequest, WaitlistRequest } from '../types';
+
 // Get API URL from environment variable with fallback
-const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
+export const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
 
 // Validate API URL configuration
 if (!API_BASE_URL) {
@@ -29,7 +31,7 @@ const handleResponse = async (response: Response) => {
 };
 
 // Helper function to get auth headers
-const getAuthHeaders = () => {
+export const getAuthHeaders = () => {
   const token = localStorage.getItem('token');
   return {
     'Content-Type': 'application/json',
@@ -88,6 +90,55 @@ export const boardroomsAPI = {
     return handleResponse(response);
   },
 
+  getPolicy: async (id: string) => {
+    const response = await fetch(`${API_BASE_URL}/boardrooms/${id}/policy`, {
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+
+  previewMaintenance: async (id: string, startTime: string, endTime: string) => {
+    const response = await fetch(`${API_BASE_URL}/boardrooms/${id}/maintenance/preview`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ startTime, endTime }),
+    });
+    return handleResponse(response);
+  },
+
+  addMaintenance: async (id: string, data: { startTime: string; endTime: string; reason?: string; action: MaintenanceAction }) => {
+    const response = await fetch(`${API_BASE_URL}/boardrooms/${id}/maintenance`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(data),
+    });
+    return handleResponse(response);
+  },
+
+  removeMaintenance: async (id: string, windowId: string) => {
+    const response = await fetch(`${API_BASE_URL}/boardrooms/${id}/maintenance/${windowId}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+
+  // Ranked free room and time combinations for the room finder
+  find: async (criteria: RoomSearchCriteria) => {
+    const params = new URLSearchParams({ date: criteria.date, duration: String(criteria.duration) });
+    if (criteria.attendees) params.append('attendees', String(criteria.attendees));
+    if (criteria.amenities && criteria.amenities.length > 0) params.append('amenities', criteria.amenities.join(','));
+    if (criteria.location) params.append('location', criteria.location);
+    if (criteria.site) params.append('site', criteria.site);
+    if (criteria.from) params.append('from', criteria.from);
+    if (criteria.to) params.append('to', criteria.to);
+
+    const response = await fetch(`${API_BASE_URL}/boardrooms/find?${params.toString()}`, {
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+
   getAvailable: async (startTime: string, endTime: string) => {
     const response = await fetch(
       `${API_BASE_URL}/boardrooms/available?startTime=${startTime}&endTime=${endTime}`,
@@ -209,6 +260,15 @@ export const bookingsAPI = {
     return handleResponse(response);
   },
 
+  previewRecurrence: async (bookingData: any) => {
+    const response = await fetch(`${API_BASE_URL}/bookings/recurrence/preview`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(bookingData),
+    });
+    return handleResponse(response);
+  },
+
   update: async (id: string, bookingData: any) => {
     // Transform attendees data for backend if needed
     const transformedData = bookingData.attendees && Array.isArray(bookingData.attendees) && 
@@ -236,10 +296,11 @@ export const bookingsAPI = {
     return handleResponse(response);
   },
 
-  cancel: async (id: string) => {
+  cancel: async (id: string, scope: SeriesScope = 'this') => {
     const response = await fetch(`${API_BASE_URL}/bookings/${id}/cancel`, {
       method: 'PUT',
       headers: getAuthHeaders(),
+      body: JSON.stringify({ scope }),
     });
     return handleResponse(response);
   },
@@ -252,6 +313,41 @@ export const bookingsAPI = {
     return handleResponse(response);
   },
 
+  // Accept, decline or answer tentatively; declining keeps you on the booking
+  respond: async (id: string, rsvp: RsvpResponse) => {
+    const response = await fetch(`${API_BASE_URL}/bookings/${id}/rsvp`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ response: rsvp }),
+    });
+    return handleResponse(response);
+  },
+
+  // Organizer records an external guest's answer
+  recordGuestResponse: async (id: string, email: string, rsvp: RsvpResponse) => {
+    const response = await fetch(`${API_BASE_URL}/bookings/${id}/rsvp/external`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ email, response: rsvp }),
+    });
+    return handleResponse(response);
+  },
+
+  // Public: a guest's invitation link, no sign-in needed
+  getGuestInvitation: async (id: string, token: string) => {
+    const response = await fetch(`${API_BASE_URL}/bookings/${id}/rsvp/guest?token=${encodeURIComponent(token)}`);
+    return handleResponse(response);
+  },
+
+  respondAsGuest: async (id: string, token: string, rsvp: GuestRsvpResponse) => {
+    const response = await fetch(`${API_BASE_URL}/bookings/${id}/rsvp/guest`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token, response: rsvp }),
+    });
+    return handleResponse(response);
+  },
+
   // Admin-only operations
   adminCancel: async (id: string) => {
     const response = await fetch(`${API_BASE_URL}/bookings/admin/${id}/cancel`, {
@@ -269,6 +365,80 @@ export const bookingsAPI = {
     return handleResponse(response);
   },
 
+  checkIn: async (id: string) => {
+    const response = await fetch(`${API_BASE_URL}/bookings/${id}/check-in`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+
+  getAdjustments: async (id: string) => {
+    const response = await fetch(`${API_BASE_URL}/bookings/${id}/adjustments`, {
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+
+  extend: async (id: string, minutes: number) => {
+    const response = await fetch(`${API_BASE_URL}/bookings/${id}/extend`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ minutes }),
+    });
+    return handleResponse(response);
+  },
+
+  shorten: async (id: string, minutes: number) => {
+    const response = await fetch(`${API_BASE_URL}/bookings/${id}/shorten`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ minutes }),
+    });
+    return handleResponse(response);
+  },
+
+  endNow: async (id: string) => {
+    const response = await fetch(`${API_BASE_URL}/bookings/${id}/end`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+
+  checkInToRoom: async (boardroomId: string) => {
+    const response = await fetch(`${API_BASE_URL}/bookings/room/${boardroomId}/check-in`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+
+  getPendingApprovals: async () => {
+    const response = await fetch(`${API_BASE_URL}/bookings/admin/approvals`, {
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+
+  approve: async (id: string, scope: 'this' | 'series' = 'this') => {
+    const response = await fetch(`${API_BASE_URL}/bookings/admin/${id}/approve`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ scope }),
+    });
+    return handleResponse(response);
+  },
+
+  reject: async (id: string, reason: string, scope: 'this' | 'series' = 'this') => {
+    const response = await fetch(`${API_BASE_URL}/bookings/admin/${id}/reject`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ reason, scope }),
+    });
+    return handleResponse(response);
+  },
+
   // Availability checking functions
   getDetailedAvailability: async (boardroomId: string, date?: string, startTime?: string, endTime?: string) => {
     const params = new URLSearchParams();
@@ -296,6 +466,139 @@ export const bookingsAPI = {
     );
     return handleResponse(response);
   },
+
+  getHistory: async (id: string) => {
+    const response = await fetch(`${API_BASE_URL}/bookings/${id}/history`, {
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+
+  // Agendas and documents; only organizers, delegates and admins can add or remove them
+  uploadAttachments: async (id: string, files: File[]) => {
+    const formData = new FormData();
+    files.forEach(file => formData.append('files', file));
+
+    const token = localStorage.getItem('token');
+    const response = await fetch(`${API_BASE_URL}/bookings/${id}/attachments`, {
+      method: 'POST',
+      headers: {
+        ...(token && { Authorization: `Bearer ${token}` }),
+      },
+      body: formData,
+    });
+    return handleResponse(response);
+  },
+
+  // The file itself, fetched with the auth header so it can be saved from the browser
+  downloadAttachment: async (id: string, attachmentId: string): Promise<Blob> => {
+    const response = await fetch(`${API_BASE_URL}/bookings/${id}/attachments/${attachmentId}`, {
+      headers: getAuthHeaders(),
+    });
+    if (!response.ok) return handleResponse(response);
+    return response.blob();
+  },
+
+  removeAttachment: async (id: string, attachmentId: string) => {
+    const response = await fetch(`${API_BASE_URL}/bookings/${id}/attachments/${attachmentId}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+
+  addVisitor: async (id: string, visitor: VisitorRequest) => {
+    const response = await fetch(`${API_BASE_URL}/bookings/${id}/visitors`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(visitor),
+    });
+    return handleResponse(response);
+  },
+
+  removeVisitor: async (id: string, visitorId: string) => {
+    const response = await fetch(`${API_BASE_URL}/bookings/${id}/visitors/${visitorId}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+
+  saveAgenda: async (id: string, agenda: AgendaItem[]) => {
+    const response = await fetch(`${API_BASE_URL}/bookings/${id}/agenda`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ agenda }),
+    });
+    return handleResponse(response);
+  },
+
+  saveMinutes: async (id: string, notes: string, actionItems: ActionItemRequest[]) => {
+    const response = await fetch(`${API_BASE_URL}/bookings/${id}/minutes`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ notes, actionItems }),
+    });
+    return handleResponse(response);
+  },
+
+  // The signed-in user's action items across meetings
+  getMyActionItems: async () => {
+    const response = await fetch(`${API_BASE_URL}/bookings/action-items`, {
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+
+  updateActionItem: async (id: string, itemId: string, completed: boolean) => {
+    const response = await fetch(`${API_BASE_URL}/bookings/${id}/action-items/${itemId}`, {
+      method: 'PATCH',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ completed }),
+    });
+    return handleResponse(response);
+  },
+
+  // Reception: a day's expected visitors by room (admin)
+  getReception: async (filters: { date?: string; site?: string } = {}) => {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) params.append(key, value);
+    });
+    const response = await fetch(`${API_BASE_URL}/bookings/admin/reception?${params.toString()}`, {
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+
+  checkInVisitor: async (id: string, visitorId: string) => {
+    const response = await fetch(`${API_BASE_URL}/bookings/admin/${id}/visitors/${visitorId}/check-in`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+
+  // Admin activity log across every booking
+  getHistoryLog: async (filters: BookingHistoryFilters = {}) => {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') params.append(key, String(value));
+    });
+    const response = await fetch(`${API_BASE_URL}/bookings/admin/history?${params.toString()}`, {
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+
+  // Busy times (no meeting details) for the people being invited
+  getFreeBusy: async (userIds: string[], start: string, end: string) => {
+    const params = new URLSearchParams({ users: userIds.join(','), start, end });
+    const response = await fetch(`${API_BASE_URL}/bookings/free-busy?${params.toString()}`, {
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
 }; 
 
 // Users API
@@ -398,4 +701,316 @@ export const notificationsAPI = {
     });
     return handleResponse(response);
   },
-}; 
\ No newline at end of file
+};
+
+// Waitlist API
+export const waitlistAPI = {
+  join: async (data: WaitlistRequest) => {
+    const response = await fetch(`${API_BASE_URL}/waitlist`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(data),
+    });
+    return handleResponse(response);
+  },
+  getMine: async () => {
+    const response = await fetch(`${API_BASE_URL}/waitlist/mine`, {
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+  claim: async (id: string) => {
+    const response = await fetch(`${API_BASE_URL}/waitlist/${id}/claim`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+  leave: async (id: string) => {
+    const response = await fetch(`${API_BASE_URL}/waitlist/${id}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+};
+
+// Closures API
+export const closuresAPI = {
+  getAll: async (startDate?: string, endDate?: string) => {
+    const params = new URLSearchParams();
+    if (startDate) params.append('startDate', startDate);
+    if (endDate) params.append('endDate', endDate);
+    const response = await fetch(`${API_BASE_URL}/closures?${params}`, {
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+  create: async (data: ClosureRequest) => {
+    const response = await fetch(`${API_BASE_URL}/closures`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(data),
+    });
+    return handleResponse(response);
+  },
+  update: async (id: string, data: ClosureRequest) => {
+    const response = await fetch(`${API_BASE_URL}/closures/${id}`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(data),
+    });
+    return handleResponse(response);
+  },
+  delete: async (id: string) => {
+    const response = await fetch(`${API_BASE_URL}/closures/${id}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+  getAffectedBookings: async (id: string) => {
+    const response = await fetch(`${API_BASE_URL}/closures/${id}/affected-bookings`, {
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+};
+
+// Sites API
+export const sitesAPI = {
+  getAll: async () => {
+    const response = await fetch(`${API_BASE_URL}/sites`, {
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+  create: async (data: SiteRequest) => {
+    const response = await fetch(`${API_BASE_URL}/sites`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(data),
+    });
+    return handleResponse(response);
+  },
+  update: async (id: string, data: SiteRequest) => {
+    const response = await fetch(`${API_BASE_URL}/sites/${id}`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(data),
+    });
+    return handleResponse(response);
+  },
+  delete: async (id: string) => {
+    const response = await fetch(`${API_BASE_URL}/sites/${id}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+};
+
+export const servicesAPI = {
+  getItems: async () => {
+    const response = await fetch(`${API_BASE_URL}/services/items`, {
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+  createItem: async (data: ServiceItemRequest) => {
+    const response = await fetch(`${API_BASE_URL}/services/items`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(data),
+    });
+    return handleResponse(response);
+  },
+  updateItem: async (id: string, data: ServiceItemRequest) => {
+    const response = await fetch(`${API_BASE_URL}/services/items/${id}`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(data),
+    });
+    return handleResponse(response);
+  },
+  deleteItem: async (id: string) => {
+    const response = await fetch(`${API_BASE_URL}/services/items/${id}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+  getForBooking: async (bookingId: string) => {
+    const response = await fetch(`${API_BASE_URL}/services/booking/${bookingId}`, {
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+  // Facilities queue, in delivery order
+  getQueue: async (filters: ServiceQueueFilters = {}) => {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') params.append(key, String(value));
+    });
+    const response = await fetch(`${API_BASE_URL}/services/queue?${params.toString()}`, {
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+  updateRequestStatus: async (id: string, status: ServiceRequestStatus) => {
+    const response = await fetch(`${API_BASE_URL}/services/requests/${id}`, {
+      method: 'PATCH',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ status }),
+    });
+    return handleResponse(response);
+  },
+};
+
+export const quotasAPI = {
+  getAll: async () => {
+    const response = await fetch(`${API_BASE_URL}/quotas`, {
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+  // The signed-in user's allowance (or a principal's, for delegates), for the week and day of `date` in the room's timezone
+  getMine: async (params?: { boardroom?: string; date?: string; onBehalfOf?: string }) => {
+    const searchParams = new URLSearchParams();
+    if (params?.boardroom) searchParams.append('boardroom', params.boardroom);
+    if (params?.date) searchParams.append('date', params.date);
+    if (params?.onBehalfOf) searchParams.append('onBehalfOf', params.onBehalfOf);
+    const query = searchParams.toString();
+
+    const response = await fetch(`${API_BASE_URL}/quotas/me${query ? `?${query}` : ''}`, {
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+  create: async (data: BookingQuotaRequest) => {
+    const response = await fetch(`${API_BASE_URL}/quotas`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(data),
+    });
+    return handleResponse(response);
+  },
+  update: async (id: string, data: BookingQuotaRequest) => {
+    const response = await fetch(`${API_BASE_URL}/quotas/${id}`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(data),
+    });
+    return handleResponse(response);
+  },
+  delete: async (id: string) => {
+    const response = await fetch(`${API_BASE_URL}/quotas/${id}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+};
+
+// Delegations API: who can book on whose behalf
+export const delegationsAPI = {
+  getMine: async () => {
+    const response = await fetch(`${API_BASE_URL}/delegations`, {
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+  grant: async (delegate: string) => {
+    const response = await fetch(`${API_BASE_URL}/delegations`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ delegate }),
+    });
+    return handleResponse(response);
+  },
+  revoke: async (id: string) => {
+    const response = await fetch(`${API_BASE_URL}/delegations/${id}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+};
+
+// Booking transfers API: handing a booking over to a new organizer
+export const transfersAPI = {
+  getMine: async () => {
+    const response = await fetch(`${API_BASE_URL}/transfers`, {
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+  getHistory: async (bookingId: string) => {
+    const response = await fetch(`${API_BASE_URL}/transfers/booking/${bookingId}`, {
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+  request: async (data: BookingTransferRequest) => {
+    const response = await fetch(`${API_BASE_URL}/transfers`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(data),
+    });
+    return handleResponse(response);
+  },
+  accept: async (id: string) => {
+    const response = await fetch(`${API_BASE_URL}/transfers/${id}/accept`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+  decline: async (id: string) => {
+    const response = await fetch(`${API_BASE_URL}/transfers/${id}/decline`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+  cancel: async (id: string) => {
+    const response = await fetch(`${API_BASE_URL}/transfers/${id}/cancel`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+};
+
+// Booking templates API: the user's saved starting points for new bookings
+export const templatesAPI = {
+  getAll: async () => {
+    const response = await fetch(`${API_BASE_URL}/templates`, {
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+  create: async (data: BookingTemplateRequest) => {
+    const response = await fetch(`${API_BASE_URL}/templates`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(data),
+    });
+    return handleResponse(response);
+  },
+  update: async (id: string, data: BookingTemplateRequest) => {
+    const response = await fetch(`${API_BASE_URL}/templates/${id}`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(data),
+    });
+    return handleResponse(response);
+  },
+  delete: async (id: string) => {
+    const response = await fetch(`${API_BASE_URL}/templates/${id}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders(),
+    });
+    return handleResponse(response);
+  },
+};
@@ -4,6 +4,7 @@ export interface User {
   name: string;
   email: string;
   role: 'admin' | 'user';
+  department?: string;
   createdAt: string;
   lastLogin?: string;
 }
@@ -19,14 +20,226 @@ export interface Boardroom {
   _id: string;
   name: string;
   capacity: number;
-  location: string;
+  site?: string | SiteSummary | null; // Populated by the boardroom and booking endpoints
+  location: string; // Where in the building
   amenities: string[];
   images: BoardroomImage[];
   isActive: boolean;
+  requiresApproval?: boolean; // Non-admin bookings wait for an approver
+  bufferBefore?: number; // Setup minutes blocked before every booking
+  bufferAfter?: number; // Cleanup minutes blocked after every booking
+  bookingPolicy?: Partial<Omit<BookingPolicy, 'timezone'>>; // Unset fields use the defaults
+  maintenanceWindows?: MaintenanceWindow[];
   description?: string;
   createdAt: string;
 }
 
+// An office or building; its rooms use its timezone and default hours
+export interface Site {
+  _id: string;
+  name: string;
+  address?: string;
+  timezone: string; // IANA zone, e.g. 'Africa/Johannesburg'
+  operatingHours?: OperatingHours[]; // Default hours for the site's rooms
+  isActive: boolean;
+  roomCount?: number;
+  createdAt: string;
+}
+
+export type SiteSummary = Pick<Site, '_id' | 'name' | 'timezone'>;
+
+export interface SiteRequest {
+  name: string;
+  address?: string;
+  timezone: string;
+  operatingHours: OperatingHours[];
+  isActive?: boolean;
+}
+
+export type QuotaScope = 'role' | 'department';
+
+// null means no limit
+export interface QuotaLimits {
+  maxFutureBookings: number | null;
+  maxHoursPerWeek: number | null;
+  maxBookingsPerRoomPerDay: number | null;
+}
+
+// Booking limits for a role or a department; a department quota overrides the role quota field by field
+export interface BookingQuota extends Partial<QuotaLimits> {
+  _id: string;
+  scope: QuotaScope;
+  value: string; // 'admin' or 'user' for role quotas, otherwise a User.department
+  createdAt: string;
+}
+
+export interface BookingQuotaRequest extends QuotaLimits {
+  scope: QuotaScope;
+  value: string;
+}
+
+// The signed-in user's limits and what is left of them for one week and day
+export interface QuotaSummary {
+  limits: QuotaLimits;
+  used: {
+    futureBookings: number;
+    hoursThisWeek: number;
+    bookingsInRoomThatDay: number | null; // Only with a room
+  };
+  remaining: {
+    futureBookings: number | null;
+    hoursThisWeek: number | null;
+    bookingsInRoomThatDay: number | null;
+  };
+  weekStart: string; // Monday of the week, YYYY-MM-DD
+  timezone: string;
+  role: string;
+  department: string | null;
+}
+
+// A period when the room is out of use without being deactivated
+export interface MaintenanceWindow {
+  _id: string;
+  startTime: string;
+  endTime: string;
+  reason?: string;
+  createdAt: string;
+}
+
+// What happens to bookings already inside a new maintenance window
+export type MaintenanceAction = 'none' | 'notify' | 'move';
+
+export interface MaintenanceImpact {
+  booking: Booking;
+  suggestedRoom: Pick<Boardroom, '_id' | 'name' | 'location' | 'capacity'> | null; // Equivalent room that is free
+}
+
+// Opening hours for one weekday (0 = Sunday), as 'HH:mm' in the room's timezone
+export interface OperatingHours {
+  day: number;
+  open: string;
+  close: string;
+}
+
+// A room's booking rules with the defaults filled in
+export interface BookingPolicy {
+  timezone: string;
+  operatingHours: OperatingHours[];
+  minDurationMinutes: number;
+  maxDurationMinutes: number;
+  slotMinutes: number;
+  maxAdvanceDays: number | null;
+  minLeadMinutes: number;
+}
+
+// Agenda or document on a booking; the file is downloaded through the API
+export interface BookingAttachment {
+  _id: string;
+  name: string;
+  mimeType: string;
+  size: number; // Bytes
+  uploadedBy?: string;
+  uploadedAt: string;
+}
+
+// Someone from outside pre-registered for reception; the host is the organizer or an attendee
+export interface Visitor {
+  _id: string;
+  name: string;
+  company?: string;
+  host: string | Pick<User, '_id' | 'name' | 'email'>; // Populated by the visitor and reception endpoints
+  addedAt: string;
+  checkedInAt?: string;
+  checkedInBy?: string | Pick<User, '_id' | 'name'>;
+}
+
+export interface VisitorRequest {
+  name: string;
+  company?: string;
+  host?: string;
+}
+
+// One room's expected visitors for the day, in arrival order
+export interface ReceptionRoom {
+  boardroom: Pick<Boardroom, '_id' | 'name' | 'location' | 'site'>;
+  visitors: {
+    booking: Pick<Booking, '_id' | 'purpose' | 'startTime' | 'endTime'> & { user: Pick<User, '_id' | 'name' | 'email'> };
+    visitor: Visitor;
+  }[];
+}
+
+export interface AgendaItem {
+  _id?: string;
+  title: string;
+  durationMinutes?: number;
+  notes?: string;
+}
+
+export interface MeetingMinutes {
+  notes?: string;
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+// Follow-up from the minutes, owned by the organizer or an attendee
+export interface ActionItem {
+  _id: string;
+  description: string;
+  owner: string;
+  dueDate?: string; // Midnight UTC of the due day
+  completedAt?: string;
+  createdBy?: string;
+  createdAt: string;
+}
+
+export interface ActionItemRequest {
+  _id?: string; // Existing items keep their history
+  description: string;
+  owner: string;
+  dueDate?: string; // YYYY-MM-DD
+  completed?: boolean;
+}
+
+// One of the signed-in user's action items, with the meeting it came from
+export interface MyActionItem extends Pick<ActionItem, '_id' | 'description' | 'dueDate' | 'completedAt'> {
+  booking: Pick<Booking, '_id' | 'purpose' | 'startTime'> & { boardroom: Pick<Boardroom, '_id' | 'name' | 'site'> };
+}
+
+export type RsvpResponse = 'accepted' | 'tentative' | 'declined';
+
+// Counts over users and external attendees; the organizer counts as accepted
+export interface RsvpSummary {
+  accepted: number;
+  tentative: number;
+  declined: number;
+  pending: number;
+}
+
+export interface ExternalAttendee {
+  email: string;
+  name?: string;
+  response?: RsvpResponse; // Missing until the guest responds
+  respondedAt?: string;
+}
+
+export type GuestRsvpResponse = Extract<RsvpResponse, 'accepted' | 'declined'>;
+
+// What a guest sees from the link in their invitation email; no sign-in needed
+export interface GuestInvitation {
+  purpose: string;
+  organizer: string;
+  boardroom: Pick<Boardroom, '_id' | 'name' | 'location' | 'site'>;
+  startTime: string;
+  endTime: string;
+  status: Booking['status'];
+  occurrences: number; // Remaining occurrences the answer covers for a series, otherwise 1
+  guest: {
+    email: string;
+    name?: string;
+    response: RsvpResponse | null;
+  };
+}
+
 export interface Booking {
   _id: string;
   user: User;
@@ -35,12 +248,325 @@ export interface Booking {
   endTime: string;
   purpose: string;
   attendees: User[];
-  status: 'confirmed' | 'cancelled';
+  externalAttendees?: ExternalAttendee[];
+  attendeeResponses?: { user: string; response: RsvpResponse; respondedAt: string }[];
+  status: 'pending' | 'confirmed' | 'cancelled' | 'rejected' | 'no_show';
+  bookedBy?: Pick<User, '_id' | 'name' | 'email'>; // Delegate who booked on the organizer's behalf
+  reviewedBy?: string;
+  reviewedAt?: string;
+  rejectionReason?: string;
+  checkedInAt?: string;
+  checkedInBy?: string;
+  releasedAt?: string;
+  closureConflict?: string | Pick<Closure, '_id' | 'name'>; // Set when a closure is added over the booking
   notes?: string;
+  attachments?: BookingAttachment[];
+  visitors?: Visitor[];
+  agenda?: AgendaItem[];
+  minutes?: MeetingMinutes;
+  actionItems?: ActionItem[];
+  seriesId?: string;
+  seriesIndex?: number;
+  recurrence?: RecurrenceRule;
+  roomGroupId?: string; // Shared by a main room and its linked overflow rooms
+  roomGroupIndex?: number; // 0 is the main room
   createdAt: string;
   modifiedAt: string;
 }
 
+// What the room finder is asked for; times are HH:mm in each room's timezone
+export interface RoomSearchCriteria {
+  date: string; // YYYY-MM-DD
+  duration: number; // Minutes
+  attendees?: number;
+  amenities?: string[];
+  location?: string; // Preferred, not required
+  site?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface RoomMatch {
+  boardroom: Pick<Boardroom, '_id' | 'name' | 'location' | 'capacity' | 'amenities' | 'images'> & { site: SiteSummary | null };
+  startTime: string;
+  endTime: string;
+  spareSeats: number;
+  preferredLocation: boolean;
+}
+
+export interface RoomSearchResult {
+  roomsConsidered: number;
+  results: RoomMatch[]; // Best fit first
+}
+
+// A saved starting point for BookingForm: everything about a booking except its date and time
+export interface BookingTemplate {
+  _id: string;
+  user: string;
+  name: string;
+  boardroom?: Pick<Boardroom, '_id' | 'name' | 'location' | 'capacity' | 'isActive' | 'site'>;
+  purpose?: string;
+  attendees: Pick<User, '_id' | 'name' | 'email'>[];
+  externalAttendees: { email: string }[];
+  notes?: string;
+  durationMinutes?: number; // Usual length, suggested when the template is used
+  createdAt: string;
+  modifiedAt: string;
+}
+
+// Either copy a booking (`booking`) or give the fields directly
+export interface BookingTemplateRequest {
+  name: string;
+  booking?: string;
+  boardroom?: string | null;
+  purpose?: string;
+  attendees?: { users?: string[]; external?: string[] };
+  notes?: string;
+  durationMinutes?: number | null;
+}
+
+// Quick changes available for a booking that is under way or about to start
+export interface BookingAdjustments {
+  startTime: string;
+  endTime: string;
+  inProgress: boolean;
+  extensions: {
+    minutes: number;
+    endTime: string;
+    available: boolean;
+    reason: string | null; // Why the room can't stay booked that long
+  }[];
+}
+
+// Permission for `delegate` to book, edit and cancel on behalf of `principal`
+export interface Delegation {
+  _id: string;
+  principal: Pick<User, '_id' | 'name' | 'email' | 'department'> | string;
+  delegate: Pick<User, '_id' | 'name' | 'email' | 'department'> | string;
+  createdAt: string;
+}
+
+export interface MyDelegations {
+  granted: (Delegation & { delegate: Pick<User, '_id' | 'name' | 'email' | 'department'> })[]; // People who can book for me
+  received: (Delegation & { principal: Pick<User, '_id' | 'name' | 'email' | 'department'> })[]; // People I can book for
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'custom';
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval?: number;
+  count?: number;
+  until?: string;
+  byWeekday?: Weekday[];
+  rrule?: string; // RFC 5545 rule, only used when frequency is 'custom'
+}
+
+// Which occurrences of a recurring series an edit or cancellation applies to
+export type SeriesScope = 'this' | 'following' | 'series';
+
+export type TransferStatus = 'pending' | 'accepted' | 'declined' | 'cancelled';
+
+type TransferUser = Pick<User, '_id' | 'name' | 'email'>;
+
+// A request to hand a booking over to another organizer; answered requests are its ownership history
+export interface BookingTransfer {
+  _id: string;
+  booking: Pick<Booking, '_id' | 'purpose' | 'startTime' | 'endTime' | 'status' | 'seriesId' | 'boardroom'>;
+  scope: SeriesScope;
+  fromUser: TransferUser;
+  toUser: TransferUser;
+  requestedBy: TransferUser;
+  note?: string;
+  status: TransferStatus;
+  respondedBy?: TransferUser;
+  respondedAt?: string;
+  bookings: string[]; // Occurrences that changed hands
+  createdAt: string;
+}
+
+export interface BookingTransferRequest {
+  booking: string;
+  to: string;
+  scope?: SeriesScope;
+  note?: string;
+}
+
+export type BookingHistoryAction =
+  | 'created'
+  | 'updated'
+  | 'cancelled'
+  | 'deleted'
+  | 'opted_out'
+  | 'approved'
+  | 'rejected'
+  | 'checked_in'
+  | 'transferred'
+  | 'released'
+  | 'responded'
+  | 'visitor_arrived';
+
+// People and rooms arrive as names, times as ISO strings
+export interface BookingHistoryChange {
+  field: string;
+  from: string | string[] | null;
+  to: string | string[] | null;
+}
+
+// One immutable entry in a booking's audit trail
+export interface BookingHistoryEntry {
+  _id: string;
+  booking: string;
+  boardroom?: string | Pick<Boardroom, '_id' | 'name'>;
+  purpose?: string;
+  action: BookingHistoryAction;
+  actor?: TransferUser; // Missing for changes the system made, such as releasing a no-show
+  actorRole: 'user' | 'admin' | 'system';
+  changes: BookingHistoryChange[];
+  note?: string;
+  createdAt: string;
+}
+
+export interface BookingHistoryFilters {
+  action?: BookingHistoryAction;
+  actor?: string;
+  actorRole?: BookingHistoryEntry['actorRole'];
+  booking?: string;
+  boardroom?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+export interface RecurrenceOccurrence {
+  index: number;
+  startTime: string;
+  endTime: string;
+  available: boolean;
+  reason?: string | null;
+  conflictingBooking?: {
+    purpose: string;
+    startTime: string;
+    endTime: string;
+  } | null;
+}
+
+export interface RecurrencePreview {
+  summary: string;
+  occurrences: RecurrenceOccurrence[];
+  conflicts: RecurrenceOccurrence[];
+}
+
+export type WaitlistStatus = 'waiting' | 'offered' | 'fulfilled' | 'expired' | 'cancelled';
+
+export interface WaitlistEntry {
+  _id: string;
+  user: string;
+  boardroom: Pick<Boardroom, '_id' | 'name' | 'location' | 'capacity'>;
+  startTime: string;
+  endTime: string;
+  purpose: string;
+  notes?: string;
+  autoBook: boolean;
+  status: WaitlistStatus;
+  offeredAt?: string;
+  offerExpiresAt?: string; // the slot is held for this user until then
+  booking?: string;
+  position?: number | null;
+  createdAt: string;
+}
+
+export interface WaitlistRequest {
+  boardroom: string;
+  startTime: string;
+  endTime: string;
+  purpose: string;
+  notes?: string;
+  autoBook?: boolean;
+}
+
+// Holiday or blackout period; full-day closures end at midnight after their last day
+export interface Closure {
+  _id: string;
+  name: string;
+  startTime: string;
+  endTime: string;
+  allDay: boolean;
+  locations: string[]; // Empty means every location
+  createdBy?: { _id: string; name: string };
+  createdAt: string;
+}
+
+export interface ClosureRequest {
+  name: string;
+  allDay: boolean;
+  startDate?: string; // YYYY-MM-DD, full-day closures
+  endDate?: string;
+  startTime?: string; // ISO datetimes, partial closures
+  endTime?: string;
+  locations: string[];
+}
+
+export type ServiceCategory = 'catering' | 'equipment' | 'furniture' | 'other';
+
+export type ServiceRequestStatus = 'requested' | 'confirmed' | 'delivered' | 'cancelled';
+
+export interface ServiceItem {
+  _id: string;
+  name: string;
+  category: ServiceCategory;
+  description?: string;
+  leadTimeHours: number; // Notice needed before delivery
+  maxQuantity: number;
+  isActive: boolean;
+  createdAt: string;
+}
+
+export interface ServiceItemRequest {
+  name: string;
+  category: ServiceCategory;
+  description?: string;
+  leadTimeHours: number;
+  maxQuantity: number;
+  isActive?: boolean;
+}
+
+export interface ServiceRequest {
+  _id: string;
+  booking: string | Pick<Booking, '_id' | 'purpose' | 'startTime' | 'endTime' | 'status' | 'user'>;
+  boardroom: string | Pick<Boardroom, '_id' | 'name' | 'location' | 'site'>;
+  item: string | Pick<ServiceItem, '_id' | 'category'>;
+  itemName: string; // As it was named when requested
+  quantity: number;
+  deliverAt: string;
+  notes?: string;
+  status: ServiceRequestStatus;
+  cancelReason?: string;
+  bookingChangedAt?: string; // Set when the booking moved or was called off after the request was made
+  requestedBy?: Pick<User, '_id' | 'name' | 'email'>;
+  handledBy?: Pick<User, '_id' | 'name'>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Sent with a new booking; deliverAt defaults to the meeting's start
+export interface ServiceRequestInput {
+  item: string;
+  quantity: number;
+  deliverAt?: string;
+  notes?: string;
+}
+
+export interface ServiceQueueFilters {
+  from?: string;
+  to?: string;
+  status?: ServiceRequestStatus;
+  boardroom?: string;
+  site?: string;
+}
+
 export interface AttendeeOption {
   type: 'user' | 'external';
   value: string;
@@ -102,6 +628,9 @@ export interface TimeSlot {
   startTime: string;
   endTime: string;
   available: boolean;
+  blockedByBuffer?: boolean; // Free of bookings but inside a neighbour's setup or cleanup time
+  closure?: string; // Name of the closure covering the slot
+  maintenance?: string; // Reason the room is under maintenance during the slot
   conflictingBooking?: {
     purpose: string;
     organizer: string;
@@ -110,14 +639,32 @@ export interface TimeSlot {
   } | null;
 }
 
+// When each person is already in a meeting they organize or attend; times only
+export interface FreeBusyUser {
+  user: Pick<User, '_id' | 'name' | 'email'>;
+  busy: { startTime: string; endTime: string }[];
+}
+
+export interface FreeBusyResponse {
+  start: string;
+  end: string;
+  users: FreeBusyUser[];
+}
+
 export interface DetailedAvailability {
   boardroom: {
     _id: string;
     name: string;
+    site?: SiteSummary | null;
     location: string;
     capacity: number;
+    bufferBefore?: number;
+    bufferAfter?: number;
   };
-  date: string;
+  date: string; // Calendar day in the room's timezone
   timeSlots: TimeSlot[];
   totalBookings: number;
+  policy?: BookingPolicy;
+  closed?: boolean; // The room does not open on this day
+  closures?: Pick<Closure, '_id' | 'name' | 'startTime' | 'endTime' | 'allDay'>[];
 }
\ No newline at end of file
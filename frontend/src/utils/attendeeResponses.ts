@@ -0,0 +1,37 @@
+import { Booking, RsvpResponse, RsvpSummary } from '../types';
+
+export const RSVP_LABELS: Record<RsvpResponse, string> = {
+  accepted: 'Accepted',
+  tentative: 'Tentative',
+  declined: 'Declined'
+};
+
+export const RSVP_STYLES: Record<RsvpResponse | 'pending', string> = {
+  accepted: 'bg-green-100 text-green-800',
+  tentative: 'bg-yellow-100 text-yellow-800',
+  declined: 'bg-red-100 text-red-700',
+  pending: 'bg-gray-100 text-gray-600'
+};
+
+type ResponseFields = Pick<Booking, 'user' | 'attendees' | 'attendeeResponses' | 'externalAttendees'>;
+
+// A user's answer, or null while they have not responded; the organizer is attending their own meeting
+export const getUserResponse = (booking: ResponseFields, userId: string): RsvpResponse | null => {
+  if (booking.user._id === userId) return 'accepted';
+  return booking.attendeeResponses?.find(entry => entry.user === userId)?.response || null;
+};
+
+// Same counts as the server sends back with each response
+export const summarizeResponses = (booking: ResponseFields): RsvpSummary => {
+  const summary: RsvpSummary = { accepted: 0, tentative: 0, declined: 0, pending: 0 };
+  [
+    ...(booking.attendees || []).map(attendee => getUserResponse(booking, attendee._id)),
+    ...(booking.externalAttendees || []).map(external => external.response || null)
+  ].forEach(response => {
+    summary[response || 'pending'] += 1;
+  });
+  return summary;
+};
+
+// Everyone invited except those who declined
+export const getExpectedHeadcount = (summary: RsvpSummary) => summary.accepted + summary.tentative + summary.pending;
@@ -0,0 +1,51 @@
+import { BookingHistoryAction, BookingHistoryChange, BookingHistoryEntry } from '../types';
+import { formatClock, formatDay } from './timezones';
+
+export const HISTORY_ACTION_LABELS: Record<BookingHistoryAction, string> = {
+  created: 'Created',
+  updated: 'Updated',
+  cancelled: 'Cancelled',
+  deleted: 'Deleted',
+  opted_out: 'Opted out',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  checked_in: 'Checked in',
+  transferred: 'Transferred',
+  released: 'Released (no-show)',
+  responded: 'Responded',
+  visitor_arrived: 'Visitor arrived'
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  status: 'Status',
+  user: 'Organizer',
+  boardroom: 'Room',
+  startTime: 'Start',
+  endTime: 'End',
+  purpose: 'Purpose',
+  notes: 'Notes',
+  attendees: 'Attendees',
+  externalAttendees: 'External attendees',
+  attachments: 'Attachments',
+  visitors: 'Visitors',
+  agenda: 'Agenda',
+  actionItems: 'Action items'
+};
+
+export const getFieldLabel = (field: string) => FIELD_LABELS[field] || field;
+
+// Times in the room's timezone, lists joined, empty values spelled out
+export const formatHistoryValue = (field: string, value: BookingHistoryChange['from'], timeZone?: string) => {
+  if (value === null || value === '' || (Array.isArray(value) && value.length === 0)) return 'none';
+  if (Array.isArray(value)) return value.join(', ');
+  if (field === 'startTime' || field === 'endTime') return `${formatDay(value, timeZone)}, ${formatClock(value, timeZone)}`;
+  if (field === 'status') return value.replace('_', ' ');
+  return value;
+};
+
+// Who made the change, e.g. "Jane Doe (admin)" or "System"
+export const describeHistoryActor = (entry: BookingHistoryEntry) => {
+  if (entry.actorRole === 'system') return 'System';
+  const name = entry.actor?.name || 'Deleted user';
+  return entry.actorRole === 'admin' ? `${name} (admin)` : name;
+};
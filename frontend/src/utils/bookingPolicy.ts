@@ -0,0 +1,45 @@
+import { BookingPolicy, OperatingHours } from '../types';
+
+// Display helpers for the policy the API returns. The server checks bookings against it; forms
+// show its policyError from the availability check instead of keeping their own copy of the rules
+const SHORT_WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const formatDuration = (minutes: number) => {
+  if (minutes % 60 !== 0) return `${minutes} minutes`;
+  const hours = minutes / 60;
+  return `${hours} hour${hours === 1 ? '' : 's'}`;
+};
+
+// Weekday of a moment in the policy's timezone, 0 for Sunday
+const getLocalWeekday = (date: Date, timezone: string) => {
+  const weekday = new Intl.DateTimeFormat('en-US', { timeZone: timezone, weekday: 'short' }).format(date);
+  return SHORT_WEEKDAYS.indexOf(weekday);
+};
+
+// Opening hours on the business-local day a moment falls on, or undefined when closed
+export const getHoursForDate = (policy: BookingPolicy, date: Date): OperatingHours | undefined => {
+  const day = getLocalWeekday(date, policy.timezone);
+  return policy.operatingHours.find(hours => hours.day === day);
+};
+
+// e.g. "Mon-Fri 07:00-16:00, Sat 09:00-12:00"; consecutive days with the same hours are grouped
+export const describeOperatingHours = (policy: BookingPolicy) => {
+  const groups: { from: number; to: number; open: string; close: string }[] = [];
+  for (const hours of [...policy.operatingHours].sort((a, b) => a.day - b.day)) {
+    const last = groups[groups.length - 1];
+    if (last && last.to === hours.day - 1 && last.open === hours.open && last.close === hours.close) {
+      last.to = hours.day;
+    } else {
+      groups.push({ from: hours.day, to: hours.day, open: hours.open, close: hours.close });
+    }
+  }
+
+  if (groups.length === 0) return 'Closed';
+  if (groups.length === 1 && groups[0].from === 0 && groups[0].to === 6) {
+    return `Daily ${groups[0].open}-${groups[0].close}`;
+  }
+  return groups.map(({ from, to, open, close }) => {
+    const days = from === to ? SHORT_WEEKDAYS[from] : `${SHORT_WEEKDAYS[from]}-${SHORT_WEEKDAYS[to]}`;
+    return `${days} ${open}-${close}`;
+  }).join(', ');
+};
@@ -0,0 +1,28 @@
+import { Booking } from '../types';
+
+// Same defaults as the backend (CHECK_IN_OPENS_MINUTES / CHECK_IN_GRACE_MINUTES); the server has the final say
+export const CHECK_IN_OPENS_MINUTES = 10;
+export const CHECK_IN_GRACE_MINUTES = 15;
+// Same default as the backend ADJUST_OPENS_MINUTES
+export const ADJUST_OPENS_MINUTES = 30;
+
+export const getCheckInWindow = (booking: Pick<Booking, 'startTime' | 'endTime'>) => {
+  const start = new Date(booking.startTime).getTime();
+  return {
+    opensAt: new Date(start - CHECK_IN_OPENS_MINUTES * 60 * 1000),
+    closesAt: new Date(Math.min(start + CHECK_IN_GRACE_MINUTES * 60 * 1000, new Date(booking.endTime).getTime()))
+  };
+};
+
+export const isCheckInOpen = (booking: Booking, now: Date = new Date()) => {
+  if (booking.status !== 'confirmed' || booking.checkedInAt) return false;
+  const { opensAt, closesAt } = getCheckInWindow(booking);
+  return now >= opensAt && now <= closesAt;
+};
+
+// Meetings under way or about to start can be extended, shortened or ended in place
+export const isAdjustable = (booking: Booking, now: Date = new Date()) => {
+  if (booking.status !== 'confirmed' && booking.status !== 'pending') return false;
+  const opensAt = new Date(booking.startTime).getTime() - ADJUST_OPENS_MINUTES * 60 * 1000;
+  return now.getTime() >= opensAt && now < new Date(booking.endTime);
+};
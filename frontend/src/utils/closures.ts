@@ -0,0 +1,26 @@
+import { Closure } from '../types';
+
+// Closures touching a calendar day (in the viewer's timezone)
+export const getClosuresForDate = (closures: Closure[], date: Date) => {
+  const dayStart = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const dayEnd = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+  return closures.filter(closure =>
+    new Date(closure.startTime) < dayEnd && new Date(closure.endTime) > dayStart
+  );
+};
+
+// True when a closure covers the whole day rather than part of it
+export const coversWholeDay = (closure: Closure, date: Date) => {
+  const dayStart = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const dayEnd = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+  return new Date(closure.startTime) <= dayStart && new Date(closure.endTime) >= dayEnd;
+};
+
+// e.g. "Heritage Day (all locations)" or "Fire drill (Floor 2), 13:00-14:00"
+export const describeClosure = (closure: Closure) => {
+  const where = closure.locations.length > 0 ? closure.locations.join(', ') : 'all locations';
+  if (closure.allDay) return `${closure.name} (${where})`;
+
+  const formatTime = (value: string) => new Date(value).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' });
+  return `${closure.name} (${where}), ${formatTime(closure.startTime)}-${formatTime(closure.endTime)}`;
+};
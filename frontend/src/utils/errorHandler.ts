@@ -251,8 +251,8 @@ export const errorHandlers = {
 export const contextualErrorMessages = {
   booking: {
     conflict: 'This time slot is no longer available. Another booking was created while you were filling out the form.',
-    workingHours: 'Bookings are only allowed during working hours (7:00 AM to 4:00 PM, Monday to Friday).',
-    minimumDuration: 'Bookings must be at least 30 minutes long.',
+    workingHours: "Bookings are only allowed during the room's operating hours.",
+    minimumDuration: "The booking is shorter than this room's minimum duration.",
     pastTime: 'Cannot book a room in the past. Please select a future date and time.',
     boardroomUnavailable: 'The selected boardroom is currently unavailable or under maintenance.',
     attendeeLimit: 'The number of attendees exceeds the boardroom capacity.',
@@ -0,0 +1,21 @@
+import { ActionItem } from '../types';
+
+// Due dates are whole days, stored as midnight UTC
+export const formatDueDate = (dueDate: string) => {
+  return new Date(dueDate).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' });
+};
+
+// 'YYYY-MM-DD' for a date input
+export const toDateInput = (dueDate?: string) => (dueDate ? dueDate.slice(0, 10) : '');
+
+// Open and due before today in the viewer's calendar
+export const isOverdue = (item: Pick<ActionItem, 'dueDate' | 'completedAt'>) => {
+  if (!item.dueDate || item.completedAt) return false;
+  return toDateInput(item.dueDate) < new Date().toLocaleDateString('en-CA');
+};
+
+// Total planned minutes, or null when no item has a duration
+export const getAgendaMinutes = (items: { durationMinutes?: number }[]) => {
+  const timed = items.filter(item => item.durationMinutes);
+  return timed.length > 0 ? timed.reduce((total, item) => total + (item.durationMinutes || 0), 0) : null;
+};
@@ -1,4 +1,5 @@
 import { toast } from 'react-toastify';
+import { API_BASE_URL, getAuthHeaders } from '../services/api';
 
 // IndexedDB setup for offline storage
 const DB_NAME = 'BoardroomBookingDB';
@@ -110,7 +111,7 @@ class PWAStorage {
     await this.addToSyncQueue({
       type: 'CREATE_BOOKING',
       data: offlineBooking,
-      endpoint: '/api/bookings/create',
+      endpoint: `${API_BASE_URL}/bookings`,
       method: 'POST'
     });
 
@@ -314,6 +315,24 @@ export const pwaInstallation = {
   }
 };
 
+// Booking payload for a queued offline booking. Its offline id is sent as clientRequestId,
+// so a retry after a lost response returns the booking already made instead of a second one.
+const toBookingRequest = (booking: OfflineBooking) => ({
+  boardroom: booking.boardroom,
+  startTime: booking.startTime,
+  endTime: booking.endTime,
+  purpose: booking.purpose,
+  attendees: booking.attendees,
+  notes: booking.notes,
+  clientRequestId: booking.id
+});
+
+// 401 waits for the user to sign in again, 408/429 and 5xx are temporary, and 409 means the room
+// was busy with another booking; any other client error will fail the same way every time
+const isFinalSyncFailure = (status: number) => {
+  return status >= 400 && status < 500 && ![401, 408, 409, 429].includes(status);
+};
+
 // Background sync utilities
 export const backgroundSync = {
   async requestSync(tag: string): Promise<void> {
@@ -348,10 +367,8 @@ export const backgroundSync = {
         try {
           const response = await fetch(item.endpoint, {
             method: item.method,
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify(item.data)
+            headers: getAuthHeaders(),
+            body: JSON.stringify(item.type === 'CREATE_BOOKING' ? toBookingRequest(item.data) : item.data)
           });
 
           if (response.ok) {
@@ -362,6 +379,15 @@ export const backgroundSync = {
             }
             
             console.log('Synced item:', item.id);
+          } else if (isFinalSyncFailure(response.status)) {
+            // The server turned the request down (e.g. the slot was taken meanwhile); retrying won't help
+            const error = await response.json().catch(() => ({}));
+            await pwaStorage.removeSyncQueueItem(item.id);
+            if (item.type === 'CREATE_BOOKING') {
+              await pwaStorage.deleteOfflineBooking(item.data.id);
+              toast.error(`Offline booking "${item.data.purpose}" could not be made: ${error.message || 'request rejected'}`);
+            }
+            console.error('Sync rejected for item:', item.id, response.status);
           } else {
             await pwaStorage.incrementSyncRetries(item.id);
             console.error('Sync failed for item:', item.id, response.status);
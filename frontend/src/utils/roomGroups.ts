@@ -0,0 +1,24 @@
+import { Booking } from '../types';
+
+const groupIndex = (booking: Booking) => booking.roomGroupIndex ?? 0;
+
+// The other rooms of a linked booking that are in the list, main room first
+export const getLinkedBookings = (booking: Booking, bookings: Booking[]) => {
+  if (!booking.roomGroupId) return [];
+  return bookings
+    .filter(other => other.roomGroupId === booking.roomGroupId && other._id !== booking._id)
+    .sort((a, b) => groupIndex(a) - groupIndex(b));
+};
+
+// One entry per linked booking, the lowest-numbered of its rooms in the list; other bookings pass through
+export const collapseRoomGroups = (bookings: Booking[]) => {
+  const mains = new Map<string, Booking>();
+  bookings.forEach(booking => {
+    if (!booking.roomGroupId) return;
+    const current = mains.get(booking.roomGroupId);
+    if (!current || groupIndex(booking) < groupIndex(current)) {
+      mains.set(booking.roomGroupId, booking);
+    }
+  });
+  return bookings.filter(booking => !booking.roomGroupId || mains.get(booking.roomGroupId) === booking);
+};
@@ -0,0 +1,30 @@
+import { ServiceCategory, ServiceRequestStatus } from '../types';
+
+export const SERVICE_CATEGORY_LABELS: Record<ServiceCategory, string> = {
+  catering: 'Catering',
+  equipment: 'Equipment',
+  furniture: 'Furniture',
+  other: 'Other'
+};
+
+export const SERVICE_STATUS_LABELS: Record<ServiceRequestStatus, string> = {
+  requested: 'Requested',
+  confirmed: 'Confirmed',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled'
+};
+
+export const SERVICE_STATUS_STYLES: Record<ServiceRequestStatus, string> = {
+  requested: 'bg-yellow-100 text-yellow-800',
+  confirmed: 'bg-blue-100 text-blue-800',
+  delivered: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-700'
+};
+
+// e.g. "24 hours' notice"; nothing for items that can be ordered at any time
+export const describeLeadTime = (hours: number) => {
+  if (!hours) return '';
+  return hours % 24 === 0 && hours >= 24
+    ? `${hours / 24} day${hours === 24 ? '' : 's'}' notice`
+    : `${hours} hour${hours === 1 ? '' : 's'}' notice`;
+};
@@ -0,0 +1,29 @@
+import { AttendeeOption, Booking, BookingTemplate } from '../types';
+
+// "Book again" reuses a past booking the same way a saved template is used
+export const bookingToTemplate = (booking: Booking, userId?: string): Omit<BookingTemplate, '_id' | 'user' | 'name' | 'createdAt' | 'modifiedAt'> => ({
+  boardroom: booking.boardroom,
+  purpose: booking.purpose,
+  // Whoever books again is the organizer, so the original organizer becomes an attendee instead
+  attendees: [booking.user, ...(booking.attendees || [])]
+    .filter((attendee, index, all) => attendee._id !== userId && all.findIndex(other => other._id === attendee._id) === index),
+  externalAttendees: (booking.externalAttendees || []).map(({ email }) => ({ email })),
+  notes: booking.notes,
+  durationMinutes: Math.round((new Date(booking.endTime).getTime() - new Date(booking.startTime).getTime()) / (60 * 1000))
+});
+
+// BookingForm's attendee options for a template's people
+export const getTemplateAttendees = (template: Pick<BookingTemplate, 'attendees' | 'externalAttendees'>): AttendeeOption[] => [
+  ...template.attendees.map(attendee => ({
+    type: 'user' as const,
+    value: attendee._id,
+    label: `${attendee.name} (${attendee.email})`,
+    email: attendee.email
+  })),
+  ...template.externalAttendees.map(({ email }) => ({
+    type: 'external' as const,
+    value: email,
+    label: email,
+    email
+  }))
+];
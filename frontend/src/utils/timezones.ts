@@ -0,0 +1,76 @@
+import { Boardroom } from '../types';
+
+export const getViewerTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Timezone of the room's site, or undefined when the room has no site loaded (times then show in the viewer's zone)
+export const getRoomTimeZone = (boardroom?: Pick<Boardroom, 'site'> | string | null) => {
+  if (!boardroom || typeof boardroom === 'string') return undefined;
+  return boardroom.site && typeof boardroom.site === 'object' ? boardroom.site.timezone : undefined;
+};
+
+export const getSiteName = (boardroom?: Pick<Boardroom, 'site'> | null) => {
+  return boardroom?.site && typeof boardroom.site === 'object' ? boardroom.site.name : undefined;
+};
+
+// e.g. "09:30"
+export const formatClock = (value: string | Date, timeZone?: string) => {
+  return new Date(value).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', timeZone });
+};
+
+// e.g. "Mon, Mar 4"
+export const formatDay = (value: string | Date, timeZone?: string) => {
+  return new Date(value).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone });
+};
+
+// Short zone name at a moment, e.g. "GMT+2" or "EST"
+export const getZoneLabel = (value: string | Date, timeZone?: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(new Date(value));
+  return parts.find(part => part.type === 'timeZoneName')?.value || '';
+};
+
+// True when the room's clock differs from the viewer's at that moment
+export const differsFromViewer = (value: string | Date, timeZone?: string) => {
+  if (!timeZone) return false;
+  const date = new Date(value);
+  return formatClock(date, timeZone) !== formatClock(date) || formatDay(date, timeZone) !== formatDay(date);
+};
+
+// "Mon, Mar 4, 09:00-10:00 GMT+2 (08:00-09:00 your time)"; the viewer's time is only added when it differs
+export const formatRoomRange = (start: string | Date, end: string | Date, timeZone?: string) => {
+  const local = `${formatDay(start, timeZone)}, ${formatClock(start, timeZone)}-${formatClock(end, timeZone)}`;
+  if (!differsFromViewer(start, timeZone)) return local;
+  return `${local} ${getZoneLabel(start, timeZone)} (${formatClock(start)}-${formatClock(end)} your time)`;
+};
+
+// Calendar day of a moment in a timezone, as 'YYYY-MM-DD'
+export const getDateKey = (value: string | Date, timeZone?: string) => {
+  return new Date(value).toLocaleDateString('en-CA', { timeZone });
+};
+
+// Minutes the timezone is ahead of UTC at a moment
+const getOffsetMinutes = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const wallClock = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'));
+  return (wallClock - Math.floor(date.getTime() / 60000) * 60000) / 60000;
+};
+
+// ISO instant for a wall-clock date ('YYYY-MM-DD') and time ('HH:mm') in a timezone;
+// without a timezone the viewer's own is used
+export const zonedTimeToIso = (date: string, clock: string, timeZone?: string) => {
+  if (!timeZone) return new Date(`${date}T${clock}:00`).toISOString();
+
+  const wallClock = new Date(`${date}T${clock}:00Z`).getTime();
+  // The second pass settles times near a daylight-saving change
+  let instant = wallClock - getOffsetMinutes(new Date(wallClock), timeZone) * 60000;
+  instant = wallClock - getOffsetMinutes(new Date(instant), timeZone) * 60000;
+  return new Date(instant).toISOString();
+};
@@ -0,0 +1,10 @@
+import { User, Visitor } from '../types';
+
+type BookingPeople = { user: Pick<User, '_id' | 'name'>; attendees?: Pick<User, '_id' | 'name'>[] };
+
+// The host's name, from the visitor endpoints (host populated) or from the people on the booking
+export const getVisitorHostName = (visitor: Visitor, booking?: BookingPeople) => {
+  if (typeof visitor.host === 'object') return visitor.host.name;
+  const people = booking ? [booking.user, ...(booking.attendees || [])] : [];
+  return people.find(person => person._id === visitor.host)?.name || booking?.user.name || 'Organizer';
+};